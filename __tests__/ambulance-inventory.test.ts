@@ -0,0 +1,143 @@
+/**
+ * Tests for utils/ambulance-inventory.ts — low-stock alerts, equipment
+ * matching and when inventory writes fall back to Supabase.
+ */
+import { ApiError, TransientError } from "../utils/api-errors";
+import {
+  getInventoryAlerts,
+  hasEquipmentFor,
+  updateAmbulanceInventory,
+  type AmbulanceInventory,
+} from "../utils/ambulance-inventory";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+
+const { backendPut } = jest.requireMock("../utils/api") as {
+  backendPut: jest.Mock;
+};
+const { supabase } = jest.requireMock("../utils/supabase") as {
+  supabase: { from: jest.Mock };
+};
+
+const STOCKED: AmbulanceInventory = {
+  oxygen_percent: 80,
+  aed: "ok",
+  stretcher: "ok",
+  delivery_kit: "ok",
+  medications: { adrenaline: 4, aspirin: 20 },
+  updated_at: "2026-01-01T08:00:00.000Z",
+};
+
+beforeEach(() => {
+  backendPut.mockReset();
+  supabase.from.mockReset();
+});
+
+describe("getInventoryAlerts", () => {
+  test("flags low oxygen, broken equipment and medication below minimum", () => {
+    const alerts = getInventoryAlerts({
+      ...STOCKED,
+      oxygen_percent: 24,
+      aed: "faulty",
+      delivery_kit: "missing",
+      medications: { adrenaline: 1, aspirin: 10 },
+    });
+
+    expect(alerts).toEqual([
+      { item: "oxygen", label: "Oxygen", reason: "low" },
+      { item: "aed", label: "Defibrillator (AED)", reason: "faulty" },
+      { item: "delivery_kit", label: "Delivery kit", reason: "missing" },
+      { item: "adrenaline", label: "Adrenaline", reason: "low" },
+    ]);
+  });
+
+  test("treats unreported items as unknown, not empty", () => {
+    expect(getInventoryAlerts(STOCKED)).toEqual([]);
+    expect(getInventoryAlerts({})).toEqual([]);
+    expect(getInventoryAlerts(null)).toEqual([]);
+  });
+});
+
+test("matches cardiac cases to a working AED and maternity to a delivery kit", () => {
+  expect(hasEquipmentFor("cardiac", STOCKED)).toBe(true);
+  expect(hasEquipmentFor("maternity", { delivery_kit: "missing" })).toBe(false);
+  // Unreported, or no particular equipment needed.
+  expect(hasEquipmentFor("cardiac", {})).toBeNull();
+  expect(hasEquipmentFor("trauma", STOCKED)).toBeNull();
+});
+
+describe("updateAmbulanceInventory", () => {
+  test("sends the report and returns the saved inventory's alerts", async () => {
+    backendPut.mockImplementation((_path, body) =>
+      Promise.resolve({
+        inventory: { ...body, ambulance_id: undefined, updated_at: "now" },
+        alerts: ["oxygen"],
+      }),
+    );
+
+    const { inventory, alerts, error } = await updateAmbulanceInventory(
+      "amb-1",
+      { oxygen_percent: 10, aed: "ok" },
+    );
+
+    expect(error).toBeNull();
+    expect(backendPut).toHaveBeenCalledWith("/ops/driver/ambulance/inventory", {
+      ambulance_id: "amb-1",
+      oxygen_percent: 10,
+      aed: "ok",
+      stretcher: null,
+      delivery_kit: null,
+      medications: {},
+    });
+    expect(inventory?.updated_at).toBe("now");
+    expect(alerts.map((alert) => alert.item)).toEqual(["oxygen"]);
+  });
+
+  test("writes through Supabase when the backend is unreachable", async () => {
+    backendPut.mockRejectedValue(new TransientError("Network request failed"));
+    const chain: Record<string, jest.Mock> = {
+      eq: jest.fn(() => Promise.resolve({ error: null })),
+    };
+    chain.update = jest.fn(() => chain);
+    supabase.from.mockReturnValue(chain);
+
+    const { inventory, error } = await updateAmbulanceInventory("amb-1", {
+      stretcher: "faulty",
+    });
+
+    expect(error).toBeNull();
+    expect(supabase.from).toHaveBeenCalledWith("ambulances");
+    expect(chain.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        inventory: expect.objectContaining({ stretcher: "faulty" }),
+      }),
+    );
+    expect(chain.eq).toHaveBeenCalledWith("id", "amb-1");
+    expect(inventory?.stretcher).toBe("faulty");
+  });
+
+  test("reports a refused update instead of falling back", async () => {
+    backendPut.mockRejectedValue(
+      new ApiError("Not authorised for this ambulance", 403),
+    );
+
+    const { inventory, error } = await updateAmbulanceInventory("amb-1", {});
+
+    expect(inventory).toBeNull();
+    expect(error?.message).toMatch(/Not authorised/);
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  test("rejects an oxygen level outside 0-100%", async () => {
+    const { error } = await updateAmbulanceInventory("amb-1", {
+      oxygen_percent: 120,
+    });
+
+    expect(error?.message).toMatch(/between 0 and 100/);
+    expect(backendPut).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Tests for utils/api.ts — retry/backoff, mirror failover, cancellation,
+ * interceptors and the mapping of HTTP failures to typed errors.
+ */
+import {
+  addRequestInterceptor,
+  addResponseInterceptor,
+  ApiError,
+  AuthError,
+  backendGet,
+  backendPost,
+  CancelledError,
+  TransientError,
+  ValidationError,
+} from "../utils/api";
+import { isLikelyConnectivityError } from "../utils/network";
+
+const { supabase } = jest.requireMock("../utils/supabase") as {
+  supabase: { auth: Record<string, jest.Mock> };
+};
+
+const fetchMock = jest.fn();
+(global as any).fetch = fetchMock;
+
+const respond = (status: number, body: unknown = {}) =>
+  Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+  });
+
+const networkFailure = () =>
+  Promise.reject(new TypeError("Network request failed"));
+
+const requestedUrls = () =>
+  fetchMock.mock.calls.map(([url]) => String(url).replace(/\/ops\/.*$/, ""));
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  supabase.auth.refreshSession = jest.fn(() =>
+    Promise.resolve({ data: {}, error: null }),
+  );
+});
+
+describe("retry policy", () => {
+  test("retries a delivered 5xx GET with exponential backoff", async () => {
+    const setTimeoutSpy = jest.spyOn(global, "setTimeout");
+    fetchMock
+      .mockImplementationOnce(() => respond(503, { detail: "Overloaded" }))
+      .mockImplementationOnce(() => respond(503, { detail: "Overloaded" }))
+      .mockImplementationOnce(() => respond(200, { ok: true }));
+
+    const data = await backendGet("/ops/ping", {
+      retry: { retries: 2, baseDelayMs: 10 },
+    });
+
+    expect(data).toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const delays = setTimeoutSpy.mock.calls.map(([, ms]) => ms);
+    expect(delays).toEqual(expect.arrayContaining([10, 20]));
+    setTimeoutSpy.mockRestore();
+  });
+
+  test("throws the typed error once retries are used up", async () => {
+    fetchMock.mockImplementation(() => respond(502, { detail: "Bad gateway" }));
+
+    await expect(
+      backendGet("/ops/ping", { retry: { retries: 1, baseDelayMs: 0 } }),
+    ).rejects.toBeInstanceOf(TransientError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("idempotency-gated failover", () => {
+  test("does not resend a delivered POST without an idempotency key", async () => {
+    fetchMock.mockImplementation(() => respond(503, { detail: "Overloaded" }));
+
+    await expect(backendPost("/ops/ping", { a: 1 })).rejects.toBeInstanceOf(
+      TransientError,
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test("retries a keyed POST on the next mirror with the same key", async () => {
+    fetchMock
+      .mockImplementationOnce(() => respond(503, { detail: "Overloaded" }))
+      .mockImplementationOnce(() => respond(200, { ok: true }));
+
+    await backendPost(
+      "/ops/ping",
+      { a: 1 },
+      { idempotencyKey: "key-1", retry: { baseDelayMs: 0 } },
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [first, second] = requestedUrls();
+    expect(second).not.toBe(first);
+    for (const [, init] of fetchMock.mock.calls) {
+      expect(init.headers["Idempotency-Key"]).toBe("key-1");
+    }
+  });
+
+  test("fails over an undelivered POST even without a key", async () => {
+    fetchMock
+      .mockImplementationOnce(networkFailure)
+      .mockImplementationOnce(() => respond(200, { ok: true }));
+
+    await expect(backendPost("/ops/ping", {})).resolves.toEqual({ ok: true });
+    const [first, second] = requestedUrls();
+    expect(second).not.toBe(first);
+  });
+});
+
+test("aborting the signal rejects with CancelledError and stops retrying", async () => {
+  const controller = new AbortController();
+  let sent: () => void = () => {};
+  const requestSent = new Promise<void>((resolve) => (sent = resolve));
+  fetchMock.mockImplementation(
+    (_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () =>
+          reject(Object.assign(new Error("Aborted"), { name: "AbortError" })),
+        );
+        sent();
+      }),
+  );
+
+  const pending = backendGet("/ops/ping", { signal: controller.signal });
+  await requestSent;
+  controller.abort();
+
+  await expect(pending).rejects.toBeInstanceOf(CancelledError);
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+});
+
+describe("typed errors", () => {
+  test("401 refreshes the session once, then raises AuthError", async () => {
+    fetchMock.mockImplementation(() =>
+      respond(401, { detail: "Not authenticated" }),
+    );
+
+    await expect(backendGet("/ops/ping")).rejects.toBeInstanceOf(AuthError);
+    expect(supabase.auth.refreshSession).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  test("422 raises ValidationError with field messages", async () => {
+    fetchMock.mockImplementation(() =>
+      respond(422, {
+        detail: [{ loc: ["body", "phone"], msg: "field required" }],
+      }),
+    );
+
+    const error = await backendPost<never>("/ops/ping", {}).catch(
+      (e: ValidationError) => e,
+    );
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe("body.phone: field required");
+    expect(error.fieldErrors).toEqual({ phone: "field required" });
+  });
+
+  test("500 raises a delivered TransientError", async () => {
+    fetchMock.mockImplementation(() => respond(500, { detail: "Boom" }));
+
+    const error = await backendGet<never>("/ops/ping", { retry: false }).catch(
+      (e: TransientError) => e,
+    );
+
+    expect(error).toBeInstanceOf(TransientError);
+    expect(error.status).toBe(500);
+    expect(error.delivered).toBe(true);
+  });
+
+  test("classifies by status, not by the message text", async () => {
+    fetchMock.mockImplementation(() =>
+      respond(403, { detail: "Invalid token for this hospital" }),
+    );
+
+    const error = await backendGet<never>("/ops/ping").catch(
+      (e: ApiError) => e,
+    );
+
+    expect(error).not.toBeInstanceOf(AuthError);
+    expect(error.status).toBe(403);
+    expect(supabase.auth.refreshSession).not.toHaveBeenCalled();
+  });
+});
+
+describe("interceptors", () => {
+  test("run on the outgoing request and the parsed response", async () => {
+    fetchMock.mockImplementation(() => respond(200, { ok: true }));
+    const removeRequest = addRequestInterceptor((request) => {
+      request.headers["X-App-Version"] = "1.2.3";
+    });
+    const removeResponse = addResponseInterceptor((data, context) => ({
+      ...(data as object),
+      path: context.request.path,
+    }));
+
+    try {
+      await expect(backendGet("/ops/ping")).resolves.toEqual({
+        ok: true,
+        path: "/ops/ping",
+      });
+      expect(fetchMock.mock.calls[0][1].headers["X-App-Version"]).toBe("1.2.3");
+    } finally {
+      removeRequest();
+      removeResponse();
+    }
+
+    await expect(backendGet("/ops/ping")).resolves.toEqual({ ok: true });
+  });
+});
+
+describe("isLikelyConnectivityError", () => {
+  test("queues only requests that never reached a server", () => {
+    expect(
+      isLikelyConnectivityError(
+        new TransientError("Network request failed", null, false),
+      ),
+    ).toBe(true);
+    expect(isLikelyConnectivityError(new Error("Failed to fetch"))).toBe(true);
+  });
+
+  test("does not queue a request the user cancelled", () => {
+    expect(isLikelyConnectivityError(new CancelledError())).toBe(false);
+  });
+
+  test("treats delivered failures as real errors", () => {
+    expect(isLikelyConnectivityError(new TransientError("Boom", 500))).toBe(
+      false,
+    );
+    expect(
+      isLikelyConnectivityError(new TransientError("Slow down", 429)),
+    ).toBe(false);
+    // Non-JSON 404 from a proxy without the API.
+    expect(
+      isLikelyConnectivityError(new TransientError("Not found", 404, false)),
+    ).toBe(false);
+  });
+});
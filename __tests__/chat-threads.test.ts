@@ -0,0 +1,247 @@
+/**
+ * Tests for utils/chat-threads.ts — cached, synced chatbot threads.
+ */
+import {
+  appendThreadMessage,
+  clearChatThreads,
+  deleteChatThread,
+  exportChatThread,
+  generateThreadTitle,
+  getChatThread,
+  LEGACY_THREAD_ID,
+  listChatThreads,
+  searchChatThreads,
+  syncChatThreads,
+} from "../utils/chat-threads";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+  backendDelete: jest.fn(),
+}));
+
+const { backendGet, backendPost, backendDelete } = jest.requireMock(
+  "../utils/api",
+) as {
+  backendGet: jest.Mock;
+  backendPost: jest.Mock;
+  backendDelete: jest.Mock;
+};
+
+const USER = "user-1";
+
+const row = (
+  id: string,
+  message: string,
+  threadId: string | null,
+  at: string,
+) => ({
+  id,
+  user_id: USER,
+  role: "user" as const,
+  message,
+  created_at: at,
+  thread_id: threadId,
+});
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  await clearChatThreads();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("generateThreadTitle", () => {
+  it("uses the first message as one capitalized line", () => {
+    expect(generateThreadTitle("  my son   has a\nburn!  ")).toBe(
+      "My son has a burn",
+    );
+  });
+
+  it("cuts long messages at a word boundary", () => {
+    const title = generateThreadTitle(
+      "what should I do when someone is bleeding heavily from a deep cut on the leg",
+    );
+    expect(title.length).toBeLessThanOrEqual(49);
+    expect(title.endsWith("…")).toBe(true);
+    expect(title).toBe("What should I do when someone is bleeding…");
+  });
+
+  it("falls back for empty input", () => {
+    expect(generateThreadTitle("   ")).toBe("New conversation");
+  });
+});
+
+describe("local thread cache", () => {
+  it("creates a titled thread on the first message", async () => {
+    await appendThreadMessage(
+      USER,
+      "t1",
+      { role: "user", text: "snake bite" },
+      "en",
+    );
+    await appendThreadMessage(USER, "t1", { role: "bot", text: "Keep still." });
+
+    const thread = await getChatThread(USER, "t1");
+    expect(thread).toMatchObject({ id: "t1", title: "Snake bite", lang: "en" });
+    expect(thread?.messages.map((m) => [m.role, m.serverId])).toEqual([
+      ["user", null],
+      ["bot", null],
+    ]);
+  });
+
+  it("lists threads most recently active first", async () => {
+    jest.useFakeTimers().setSystemTime(new Date("2026-10-01T10:00:00Z"));
+    await appendThreadMessage(USER, "old", { role: "user", text: "burn" });
+    jest.setSystemTime(new Date("2026-10-02T10:00:00Z"));
+    await appendThreadMessage(USER, "new", { role: "user", text: "choking" });
+    jest.useRealTimers();
+
+    expect((await listChatThreads(USER)).map((t) => t.id)).toEqual([
+      "new",
+      "old",
+    ]);
+  });
+});
+
+describe("syncChatThreads", () => {
+  it("pushes pending messages with their thread id and pulls new ones", async () => {
+    await appendThreadMessage(USER, "t1", { role: "user", text: "burn" });
+    backendPost.mockResolvedValue(
+      row("s1", "burn", "t1", "2026-10-01T10:00:00Z"),
+    );
+    backendGet.mockResolvedValue({
+      messages: [
+        row("s0", "old question", null, "2026-09-01T10:00:00Z"),
+        row("s1", "burn", "t1", "2026-10-01T10:00:00Z"),
+      ],
+    });
+
+    const result = await syncChatThreads(USER);
+
+    expect(result).toEqual({ pushed: 1, pulled: 1, error: null });
+    expect(backendPost).toHaveBeenCalledWith("/chat/messages", {
+      role: "user",
+      message: "burn",
+      thread_id: "t1",
+    });
+    expect(backendGet).toHaveBeenCalledWith("/chat/messages?limit=1000");
+    expect((await getChatThread(USER, "t1"))?.messages).toHaveLength(1);
+    expect(await getChatThread(USER, LEGACY_THREAD_ID)).toMatchObject({
+      title: "Old question",
+    });
+  });
+
+  it("keeps messages local when offline", async () => {
+    await appendThreadMessage(USER, "t1", { role: "user", text: "burn" });
+    backendPost.mockRejectedValue(new Error("Network request failed"));
+
+    const result = await syncChatThreads(USER);
+
+    expect(result.pushed).toBe(0);
+    expect(result.error).toBeTruthy();
+    expect(backendGet).not.toHaveBeenCalled();
+    expect((await getChatThread(USER, "t1"))?.messages[0].serverId).toBeNull();
+  });
+
+  it("pages through a history longer than one page", async () => {
+    const older = Array.from({ length: 1000 }, (_, i) =>
+      row(`s${i}`, `question ${i}`, "t1", "2026-09-01T10:00:00Z"),
+    );
+    backendGet
+      .mockResolvedValueOnce({ messages: older })
+      .mockResolvedValueOnce({
+        messages: [row("s1000", "newest", "t1", "2026-10-01T10:00:00Z")],
+      });
+
+    const result = await syncChatThreads(USER);
+
+    expect(result).toEqual({ pushed: 0, pulled: 1001, error: null });
+    expect(backendGet).toHaveBeenLastCalledWith(
+      "/chat/messages?limit=1000&offset=1000",
+    );
+    const messages = (await getChatThread(USER, "t1"))?.messages ?? [];
+    expect(messages[messages.length - 1].text).toBe("newest");
+  });
+
+  it("drops synced messages deleted on another device", async () => {
+    backendGet.mockResolvedValueOnce({
+      messages: [row("s1", "burn", "t1", "2026-10-01T10:00:00Z")],
+    });
+    await syncChatThreads(USER);
+    backendGet.mockResolvedValueOnce({ messages: [] });
+    await syncChatThreads(USER);
+
+    expect(await listChatThreads(USER)).toEqual([]);
+  });
+});
+
+describe("deleteChatThread", () => {
+  it("deletes unsynced threads locally only", async () => {
+    await appendThreadMessage(USER, "t1", { role: "user", text: "burn" });
+    expect(await deleteChatThread(USER, "t1")).toEqual({ synced: true });
+    expect(backendDelete).not.toHaveBeenCalled();
+  });
+
+  it("retries a failed backend delete on the next sync", async () => {
+    backendGet.mockResolvedValue({
+      messages: [row("s1", "burn", "t1", "2026-10-01T10:00:00Z")],
+    });
+    await syncChatThreads(USER);
+
+    backendDelete.mockRejectedValueOnce(new Error("Network request failed"));
+    expect(await deleteChatThread(USER, "t1")).toEqual({ synced: false });
+    expect(await listChatThreads(USER)).toEqual([]);
+
+    // The stale row must not come back before the delete is replayed
+    backendDelete.mockResolvedValueOnce({ success: true });
+    backendGet.mockResolvedValue({ messages: [] });
+    await syncChatThreads(USER);
+
+    expect(backendDelete).toHaveBeenLastCalledWith(
+      "/chat/messages?thread_id=t1",
+    );
+    expect(await listChatThreads(USER)).toEqual([]);
+  });
+});
+
+describe("search and export", () => {
+  it("finds messages containing every search word", async () => {
+    await appendThreadMessage(USER, "t1", {
+      role: "user",
+      text: "burn on hand",
+    });
+    await appendThreadMessage(USER, "t1", {
+      role: "bot",
+      text: "Cool the burn under running water for 20 minutes.",
+    });
+    await appendThreadMessage(USER, "t2", { role: "user", text: "የእባብ ንክሻ" });
+    const threads = await listChatThreads(USER);
+
+    const hits = searchChatThreads(threads, "Water, burn");
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({
+      threadId: "t1",
+      messageIndex: 1,
+      role: "bot",
+    });
+    expect(hits[0].snippet).toContain("burn");
+
+    expect(searchChatThreads(threads, "እባብ")[0].threadId).toBe("t2");
+    expect(searchChatThreads(threads, "   ")).toEqual([]);
+  });
+
+  it("exports a readable transcript", async () => {
+    const thread = await appendThreadMessage(USER, "t1", {
+      role: "user",
+      text: "burn",
+    });
+    const text = exportChatThread(thread);
+    expect(text.split("\n")[0]).toBe("Burn");
+    expect(text).toContain("You: burn");
+  });
+});
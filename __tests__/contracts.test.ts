@@ -0,0 +1,117 @@
+import { ContractError } from "../utils/api-errors";
+import {
+  arrayOf,
+  checkResponseContract,
+  enforceResponseContract,
+  findResponseContract,
+  nullable,
+  nullish,
+  num,
+  objectOf,
+  str,
+  validate,
+} from "../utils/contracts";
+
+jest.mock("../utils/sentry", () => ({ captureMessage: jest.fn() }));
+
+const { captureMessage } = jest.requireMock("../utils/sentry") as {
+  captureMessage: jest.Mock;
+};
+
+describe("contract validators", () => {
+  const Row = objectOf<{
+    id: string;
+    eta: number | null;
+    note?: string | null;
+  }>("Row", { id: str, eta: nullable(num), note: nullish(str) });
+
+  it("accepts valid objects and ignores extra fields", () => {
+    expect(validate(Row, { id: "a", eta: null, extra: true })).toEqual([]);
+  });
+
+  it("reports every mismatch with its path", () => {
+    expect(validate(arrayOf(Row), [{ id: "a", eta: 1 }, { id: 2 }])).toEqual([
+      "$[1].id: expected string, got number",
+      "$[1].eta: expected number, got undefined",
+    ]);
+  });
+
+  it("rejects non-objects", () => {
+    expect(validate(Row, ["a"])).toEqual(["$: expected object, got array"]);
+  });
+});
+
+describe("response contracts", () => {
+  beforeEach(() => captureMessage.mockClear());
+
+  it("matches routes with ids and query strings", () => {
+    expect(
+      findResponseContract("GET", "/ops/patient/emergencies/abc/detail"),
+    ).not.toBeNull();
+    expect(
+      findResponseContract("GET", "/ops/insights/operations?days=7"),
+    ).not.toBeNull();
+    expect(
+      findResponseContract("DELETE", "/ops/insights/operations"),
+    ).toBeNull();
+  });
+
+  it("passes unknown routes through", () => {
+    expect(checkResponseContract("GET", "/ops/unknown", 42)).toEqual([]);
+  });
+
+  it("accepts a valid dispatch response", () => {
+    expect(
+      checkResponseContract("POST", "/ops/patient/emergencies", {
+        emergency_id: "e1",
+        status: "pending",
+        hospital_id: null,
+        assigned_ambulance_id: null,
+        distance_to_ambulance_km: null,
+        distance_to_hospital_km: 2.5,
+        eta_minutes: null,
+        route_to_patient_url: null,
+        route_to_hospital_url: null,
+        reason: "queued",
+      }),
+    ).toEqual([]);
+  });
+
+  it("accepts a null medical profile", () => {
+    expect(checkResponseContract("GET", "/profiles/medical", null)).toEqual([]);
+  });
+
+  it("reports and throws a ContractError on mismatch", () => {
+    let thrown: unknown;
+    try {
+      enforceResponseContract("GET", "/profiles/me?x=1", 200, { id: "u1" });
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(ContractError);
+    expect((thrown as ContractError).issues).toEqual([
+      "$.role: expected string, got undefined",
+    ]);
+    expect(captureMessage).toHaveBeenCalledWith(
+      "[contract] GET /profiles/me: $.role: expected string, got undefined",
+      "warning",
+    );
+  });
+
+  it("only reports a mismatch in release builds", () => {
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = "production";
+    try {
+      expect(() =>
+        enforceResponseContract("GET", "/profiles/me", 200, { id: "u1" }),
+      ).not.toThrow();
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+    expect(captureMessage).toHaveBeenLastCalledWith(
+      "[contract] GET /profiles/me: $.role: expected string, got undefined",
+      "warning",
+    );
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Tests for utils/data-source.ts and the repositories built on it.
+ *
+ * `backendGet` and the Supabase client are mocked. Strategies are reset
+ * before each test and a capturing logger records which path served it.
+ */
+import { ApiError, TransientError } from "../utils/api-errors";
+import {
+  configureDataSources,
+  fromDataSource,
+  isMissingColumnError,
+  isMissingEndpointError,
+  resetDataSources,
+  setDataSourceLogger,
+  type DataSourceLogEntry,
+} from "../utils/data-source";
+import { getMedicalNotes } from "../utils/medical-notes";
+import { getUserProfile } from "../utils/profile";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+jest.mock("../utils/network", () => ({
+  isLikelyConnectivityError: jest.fn(() => false),
+}));
+
+const { backendGet } = jest.requireMock("../utils/api") as {
+  backendGet: jest.Mock;
+};
+const { supabase } = jest.requireMock("../utils/supabase") as {
+  supabase: { from: jest.Mock };
+};
+
+/** Chainable query builder resolving to `result` wherever the chain ends. */
+const mockQuery = (result: { data: unknown; error: unknown }) => {
+  const query: any = {};
+  for (const method of ["select", "eq", "order", "limit"]) {
+    query[method] = jest.fn(() => query);
+  }
+  query.maybeSingle = jest.fn(() => Promise.resolve(result));
+  query.then = (resolve: any, reject: any) =>
+    Promise.resolve(result).then(resolve, reject);
+  return query;
+};
+
+const PROFILE = {
+  id: "user-1",
+  full_name: "Abebe",
+  phone: "0911000000",
+  role: "patient",
+  hospital_id: null,
+  created_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-01-01T00:00:00Z",
+};
+
+let served: DataSourceLogEntry[];
+
+beforeEach(() => {
+  served = [];
+  setDataSourceLogger((entry) => served.push(entry));
+  resetDataSources();
+  backendGet.mockReset();
+  supabase.from.mockReset();
+});
+
+afterAll(() => setDataSourceLogger(null));
+
+describe("fromDataSource", () => {
+  const request = (
+    backend: () => Promise<string | null>,
+    fallbackOn?: (error: unknown) => boolean,
+  ) => ({
+    entity: "profile" as const,
+    operation: "get",
+    backend,
+    supabase: jest.fn(async () => "from-supabase"),
+    fallbackOn,
+  });
+
+  it("serves from the backend when it answers", async () => {
+    const req = request(async () => "from-backend");
+    await expect(fromDataSource(req)).resolves.toEqual({
+      data: "from-backend",
+      source: "backend",
+    });
+    expect(req.supabase).not.toHaveBeenCalled();
+    expect(served).toEqual([
+      expect.objectContaining({ entity: "profile", source: "backend" }),
+    ]);
+  });
+
+  it("falls back to Supabase when the backend fails", async () => {
+    const req = request(async () => {
+      throw new TransientError("Network request failed");
+    });
+    await expect(fromDataSource(req)).resolves.toEqual({
+      data: "from-supabase",
+      source: "supabase",
+    });
+    expect(served[0].fallbackReason).toBe(
+      "backend failed: Network request failed",
+    );
+  });
+
+  it("falls back to Supabase when the backend has no data", async () => {
+    const req = request(async () => null);
+    await expect(fromDataSource(req)).resolves.toMatchObject({
+      source: "supabase",
+    });
+    expect(served[0].fallbackReason).toBe("backend returned no data");
+  });
+
+  it("rethrows errors the request does not fall back on", async () => {
+    const req = request(async () => {
+      throw new ApiError("Forbidden", 403);
+    }, isMissingEndpointError);
+    await expect(fromDataSource(req)).rejects.toThrow("Forbidden");
+    expect(req.supabase).not.toHaveBeenCalled();
+    expect(served).toEqual([]);
+  });
+
+  it("never touches Supabase when configured backend-only", async () => {
+    configureDataSources({ profile: "backend-only" });
+    const req = request(async () => {
+      throw new TransientError("Network request failed");
+    });
+    await expect(fromDataSource(req)).rejects.toThrow("Network request failed");
+    expect(req.supabase).not.toHaveBeenCalled();
+  });
+
+  it("skips the backend when configured supabase-only", async () => {
+    configureDataSources({ profile: "supabase-only" });
+    const backend = jest.fn(async () => "from-backend");
+    const req = request(backend);
+    await expect(fromDataSource(req)).resolves.toEqual({
+      data: "from-supabase",
+      source: "supabase",
+    });
+    expect(backend).not.toHaveBeenCalled();
+    expect(served[0].strategy).toBe("supabase-only");
+  });
+});
+
+describe("error classification", () => {
+  it("detects missing columns only for Postgres 42703", () => {
+    const error = {
+      code: "42703",
+      message: "column ambulances.current_driver_id does not exist",
+    };
+    expect(isMissingColumnError(error, "current_driver_id")).toBe(true);
+    expect(isMissingColumnError(error, "registration_number")).toBe(false);
+    expect(
+      isMissingColumnError(
+        { code: "42P01", message: "current_driver_id" },
+        "current_driver_id",
+      ),
+    ).toBe(false);
+  });
+
+  it("detects missing endpoints by status, then by message", () => {
+    expect(isMissingEndpointError(new ApiError("Not Found", 404))).toBe(true);
+    expect(isMissingEndpointError(new ApiError("not found: row", 403))).toBe(
+      false,
+    );
+    expect(isMissingEndpointError(new Error("404 Not Found"))).toBe(true);
+    expect(isMissingEndpointError(new Error("timeout"))).toBe(false);
+  });
+});
+
+describe("repositories", () => {
+  it("getUserProfile uses the backend profile when available", async () => {
+    backendGet.mockResolvedValue(PROFILE);
+    await expect(getUserProfile("user-1")).resolves.toEqual({
+      profile: PROFILE,
+      error: null,
+    });
+    expect(backendGet).toHaveBeenCalledWith("/profiles/me");
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it("getUserProfile reads Supabase when the backend is down", async () => {
+    backendGet.mockRejectedValue(new TransientError("Network request failed"));
+    const query = mockQuery({ data: PROFILE, error: null });
+    supabase.from.mockReturnValue(query);
+
+    await expect(getUserProfile("user-1")).resolves.toEqual({
+      profile: PROFILE,
+      error: null,
+    });
+    expect(supabase.from).toHaveBeenCalledWith("profiles");
+    expect(query.eq).toHaveBeenCalledWith("id", "user-1");
+    expect(served[0]).toMatchObject({ entity: "profile", source: "supabase" });
+  });
+
+  it("getUserProfile surfaces the Supabase error when both paths fail", async () => {
+    backendGet.mockRejectedValue(new TransientError("Network request failed"));
+    const dbError = new Error("permission denied");
+    supabase.from.mockReturnValue(mockQuery({ data: null, error: dbError }));
+
+    await expect(getUserProfile("user-1")).resolves.toEqual({
+      profile: null,
+      error: dbError,
+    });
+  });
+
+  it("getMedicalNotes only falls back when the endpoint is missing", async () => {
+    const note = { id: "n1", emergency_id: "e1", created_at: "t" };
+    backendGet.mockRejectedValue(new ApiError("Not Found", 404));
+    supabase.from.mockReturnValue(mockQuery({ data: [note], error: null }));
+
+    const result = await getMedicalNotes("e1");
+    expect(result.error).toBeNull();
+    expect(result.notes).toHaveLength(1);
+    expect(supabase.from).toHaveBeenCalledWith("medical_notes");
+
+    supabase.from.mockClear();
+    backendGet.mockRejectedValue(new ApiError("Forbidden", 403));
+    await expect(getMedicalNotes("e1")).resolves.toEqual({
+      notes: [],
+      error: "Forbidden",
+    });
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Tests for utils/driver-shifts.ts — check-in inspections, breaks, the
+ * end-of-shift summary and when shift writes fall back to Supabase.
+ */
+import { ApiError, TransientError } from "../utils/api-errors";
+import {
+  checkInShift,
+  endShift,
+  failedInspectionItems,
+  INSPECTION_CHECKLIST,
+  setShiftBreak,
+  summarizeShift,
+  type DriverShift,
+} from "../utils/driver-shifts";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+
+jest.mock("../utils/driver", () => ({
+  toggleAmbulanceAvailability: jest.fn(),
+}));
+
+const { backendPost } = jest.requireMock("../utils/api") as {
+  backendPost: jest.Mock;
+};
+const { toggleAmbulanceAvailability } = jest.requireMock("../utils/driver") as {
+  toggleAmbulanceAvailability: jest.Mock;
+};
+const { supabase } = jest.requireMock("../utils/supabase") as {
+  supabase: { from: jest.Mock };
+};
+
+const at = (hour: number, minute = 0) =>
+  new Date(Date.UTC(2026, 0, 1, hour, minute)).toISOString();
+
+const SHIFT: DriverShift = {
+  id: "s1",
+  driver_id: "d1",
+  ambulance_id: "amb-1",
+  status: "on_duty",
+  started_at: at(8),
+  break_minutes: 30,
+  km_driven: 42.5,
+};
+
+/** The checklist with only `passed` ticked. */
+const inspectionPassing = (passed: string[]) =>
+  Object.fromEntries(
+    INSPECTION_CHECKLIST.map((item) => [item.key, passed.includes(item.key)]),
+  );
+
+const ALL_PASSED = inspectionPassing(
+  INSPECTION_CHECKLIST.map((item) => item.key),
+);
+
+/**
+ * A Supabase query chain resolving `.single()` with `row`, and the
+ * active-emergency count (`.in()`) with `activeEmergencies`.
+ */
+const supabaseReturning = (
+  row: Record<string, unknown>,
+  activeEmergencies = 0,
+) => {
+  const chain: Record<string, jest.Mock> = {
+    single: jest.fn(() => Promise.resolve({ data: row, error: null })),
+    in: jest.fn(() =>
+      Promise.resolve({ count: activeEmergencies, error: null }),
+    ),
+  };
+  for (const method of ["insert", "update", "select", "eq"]) {
+    chain[method] = jest.fn(() => chain);
+  }
+  supabase.from.mockReturnValue(chain);
+  return chain;
+};
+
+beforeEach(() => {
+  backendPost.mockReset();
+  supabase.from.mockReset();
+  toggleAmbulanceAvailability
+    .mockReset()
+    .mockResolvedValue({ success: true, error: null });
+});
+
+describe("summarizeShift", () => {
+  const history = [
+    { status: "completed", updated_at: at(9, 15) },
+    { status: "completed", updated_at: at(12) },
+    // Before check-in: belongs to an earlier shift.
+    { status: "completed", updated_at: at(7, 30) },
+  ];
+
+  test("counts emergencies, distance and hours on duty without breaks", () => {
+    const summary = summarizeShift(SHIFT, history, 1, Date.parse(at(14)));
+
+    expect(summary).toEqual({
+      emergenciesHandled: 2,
+      activeEmergencies: 1,
+      kmDriven: 42.5,
+      hoursOnDuty: 5.5,
+      breakMinutes: 30,
+    });
+  });
+
+  test("counts an ongoing break up to now", () => {
+    const onBreak: DriverShift = {
+      ...SHIFT,
+      status: "on_break",
+      break_started_at: at(13, 30),
+    };
+    const summary = summarizeShift(onBreak, [], 0, Date.parse(at(14)));
+
+    expect(summary.breakMinutes).toBe(60);
+    expect(summary.hoursOnDuty).toBe(5);
+  });
+
+  test("stops at the end of an ended shift", () => {
+    const ended: DriverShift = { ...SHIFT, status: "ended", ended_at: at(10) };
+    const summary = summarizeShift(ended, history, 0, Date.parse(at(14)));
+
+    expect(summary.emergenciesHandled).toBe(1);
+    expect(summary.hoursOnDuty).toBe(1.5);
+  });
+});
+
+describe("checkInShift", () => {
+  test("requires notes for failed inspection items", async () => {
+    const inspection = { ...ALL_PASSED, oxygen: false };
+    expect(failedInspectionItems(inspection)).toEqual(["oxygen"]);
+
+    const { shift, error } = await checkInShift("d1", "amb-1", inspection);
+
+    expect(shift).toBeNull();
+    expect(error?.message).toMatch(/failed inspection/);
+    expect(backendPost).not.toHaveBeenCalled();
+  });
+
+  test("sends the whole checklist with the notes", async () => {
+    backendPost.mockResolvedValue({ shift: SHIFT });
+
+    const { shift, error } = await checkInShift(
+      "d1",
+      "amb-1",
+      { fuel: true },
+      " Oxygen low, refill at base ",
+    );
+
+    expect(error).toBeNull();
+    expect(shift).toEqual(SHIFT);
+    const [path, body] = backendPost.mock.calls[0];
+    expect(path).toBe("/ops/driver/shift/check-in");
+    expect(body.inspection).toEqual(inspectionPassing(["fuel"]));
+    expect(body.inspection_notes).toBe("Oxygen low, refill at base");
+  });
+
+  test("writes through Supabase when the backend is unreachable", async () => {
+    backendPost.mockRejectedValue(new TransientError("Network request failed"));
+    const chain = supabaseReturning({ ...SHIFT, km_driven: undefined });
+
+    const { shift, error } = await checkInShift("d1", "amb-1", ALL_PASSED);
+
+    expect(error).toBeNull();
+    expect(shift?.km_driven).toBe(0);
+    expect(supabase.from).toHaveBeenCalledWith("driver_shifts");
+    expect(chain.insert).toHaveBeenCalledWith(
+      expect.objectContaining({ driver_id: "d1", status: "on_duty" }),
+    );
+    expect(toggleAmbulanceAvailability).toHaveBeenCalledWith("amb-1", true);
+  });
+});
+
+test("reports a refused break instead of falling back", async () => {
+  backendPost.mockRejectedValue(
+    new ApiError("Finish the active emergency before taking a break", 409),
+  );
+
+  const { shift, error } = await setShiftBreak(SHIFT, true);
+
+  expect(shift).toBeNull();
+  expect(error?.message).toMatch(/active emergency/);
+  expect(supabase.from).not.toHaveBeenCalled();
+  expect(toggleAmbulanceAvailability).not.toHaveBeenCalled();
+});
+
+test("an offline break or shift end waits for the active emergency", async () => {
+  backendPost.mockRejectedValue(new TransientError("Network request failed"));
+  const chain = supabaseReturning({ ...SHIFT }, 1);
+
+  const onBreak = await setShiftBreak(SHIFT, true);
+  const ended = await endShift(SHIFT);
+
+  expect(onBreak.error?.message).toMatch(/before taking a break/);
+  expect(ended.error?.message).toMatch(/before ending the shift/);
+  expect(chain.in).toHaveBeenCalledWith("status", expect.any(Array));
+  expect(chain.update).not.toHaveBeenCalled();
+  expect(toggleAmbulanceAvailability).not.toHaveBeenCalled();
+});
+
+test("ending a break offline adds its minutes and makes the ambulance available", async () => {
+  jest.useFakeTimers().setSystemTime(new Date(at(13)));
+  try {
+    backendPost.mockRejectedValue(new TransientError("timeout"));
+    const onBreak = {
+      ...SHIFT,
+      status: "on_break" as const,
+      break_started_at: at(12, 20),
+    };
+    const chain = supabaseReturning({ ...SHIFT, break_minutes: 70 });
+
+    const { error } = await setShiftBreak(onBreak, false);
+
+    expect(error).toBeNull();
+    expect(chain.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "on_duty", break_minutes: 70 }),
+    );
+    expect(toggleAmbulanceAvailability).toHaveBeenCalledWith("amb-1", true);
+  } finally {
+    jest.useRealTimers();
+  }
+});
+
+test("a handoff needs the backend", async () => {
+  backendPost.mockRejectedValue(new TransientError("Network request failed"));
+
+  const offline = await endShift(SHIFT, "0911000009");
+  expect(offline.error?.message).toMatch(/connection to the server/);
+  expect(supabase.from).not.toHaveBeenCalled();
+
+  backendPost.mockReset().mockResolvedValue({
+    shift: { ...SHIFT, status: "ended", ended_at: at(16), handed_to: "d2" },
+    handed_to_name: "Abebe",
+  });
+  const handed = await endShift(SHIFT, " 0911000009 ");
+  expect(backendPost).toHaveBeenCalledWith("/ops/driver/shift/end", {
+    handoff_phone: "0911000009",
+  });
+  expect(handed.handedToName).toBe("Abebe");
+  expect(handed.shift?.handed_to).toBe("d2");
+});
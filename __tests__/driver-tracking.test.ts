@@ -0,0 +1,277 @@
+/**
+ * Tests for utils/driver-tracking.ts — adaptive sampling, pausing and
+ * offline batching of background driver locations.
+ */
+import {
+  DRIVER_LOCATION_TASK,
+  getDriverTrackingState,
+  getSamplingProfile,
+  handleBackgroundLocations,
+  setDriverTrackingPaused,
+  startDriverTracking,
+  stopDriverTracking,
+  thinLocations,
+  updateDriverTrackingStatus,
+} from "../utils/driver-tracking";
+import { notifyEmergencyTransition } from "../utils/emergency-lifecycle";
+import { resetLocationIntegrity } from "../utils/location-integrity";
+import { clearOutbox, getOutbox } from "../utils/offline-queue";
+
+jest.mock("expo-location", () => ({
+  Accuracy: { Balanced: 3, High: 4 },
+  ActivityType: { AutomotiveNavigation: 2 },
+  requestForegroundPermissionsAsync: jest.fn(),
+  requestBackgroundPermissionsAsync: jest.fn(),
+  startLocationUpdatesAsync: jest.fn(),
+  stopLocationUpdatesAsync: jest.fn(),
+  hasStartedLocationUpdatesAsync: jest.fn(),
+}));
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+
+jest.mock("expo-task-manager", () => ({ defineTask: jest.fn() }));
+
+jest.mock("../utils/driver", () => ({
+  recordTrackPoints: jest.fn(),
+  sendLocationUpdate: jest.fn(),
+}));
+
+const Location = jest.requireMock("expo-location") as Record<string, any>;
+const TaskManager = jest.requireMock("expo-task-manager") as {
+  defineTask: jest.Mock;
+};
+const { recordTrackPoints, sendLocationUpdate } = jest.requireMock(
+  "../utils/driver",
+) as Record<"recordTrackPoints" | "sendLocationUpdate", jest.Mock>;
+
+const ASSIGNMENT = {
+  ambulanceId: "amb-1",
+  emergencyId: "e1",
+  status: "en_route" as const,
+};
+
+const fix = (seconds: number, latitude = 9.0, speed: number | null = 10) => ({
+  timestamp: 1700000000000 + seconds * 1000,
+  coords: {
+    latitude,
+    longitude: 38.7,
+    altitude: null,
+    accuracy: 5,
+    altitudeAccuracy: null,
+    heading: null,
+    speed,
+  },
+});
+
+const lastStartOptions = () =>
+  Location.startLocationUpdatesAsync.mock.calls.slice(-1)[0]?.[1];
+
+beforeEach(async () => {
+  for (const name of [
+    "requestForegroundPermissionsAsync",
+    "requestBackgroundPermissionsAsync",
+  ]) {
+    Location[name].mockReset().mockResolvedValue({ status: "granted" });
+  }
+  Location.startLocationUpdatesAsync.mockReset().mockResolvedValue(undefined);
+  Location.stopLocationUpdatesAsync.mockReset().mockResolvedValue(undefined);
+  Location.hasStartedLocationUpdatesAsync.mockReset().mockResolvedValue(true);
+  sendLocationUpdate
+    .mockReset()
+    .mockResolvedValue({ success: true, error: null });
+  recordTrackPoints.mockReset().mockResolvedValue({ recorded: 0, error: null });
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  await stopDriverTracking();
+  await clearOutbox();
+  resetLocationIntegrity();
+  Location.stopLocationUpdatesAsync.mockClear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test("defines the background task at import", () => {
+  expect(TaskManager.defineTask).toHaveBeenCalledWith(
+    DRIVER_LOCATION_TASK,
+    expect.any(Function),
+  );
+});
+
+describe("getSamplingProfile", () => {
+  test("samples densely en route and sparsely at the scene", () => {
+    const enRoute = getSamplingProfile("en_route");
+    const atScene = getSamplingProfile("at_scene");
+    expect(enRoute.timeInterval).toBeLessThan(atScene.timeInterval);
+    expect(enRoute.distanceInterval).toBeLessThan(atScene.distanceInterval);
+    expect(enRoute.accuracy).toBe(Location.Accuracy.High);
+    expect(atScene.accuracy).toBe(Location.Accuracy.Balanced);
+  });
+
+  test("adapts to speed", () => {
+    const moving = getSamplingProfile("transporting", 10);
+    const parked = getSamplingProfile("transporting", 0.2);
+    const fast = getSamplingProfile("transporting", 25);
+    expect(parked.timeInterval).toBe(moving.timeInterval * 3);
+    expect(fast.distanceInterval).toBe(moving.distanceInterval * 3);
+    expect(new Set([moving.key, parked.key, fast.key]).size).toBe(3);
+    // Unknown speed is treated as moving.
+    expect(getSamplingProfile("transporting", -1).key).toBe(moving.key);
+  });
+});
+
+describe("tracking lifecycle", () => {
+  test("starts the task with the status profile", async () => {
+    const result = await startDriverTracking(ASSIGNMENT);
+
+    expect(result).toEqual({ started: true, error: null });
+    expect(Location.startLocationUpdatesAsync).toHaveBeenCalledWith(
+      DRIVER_LOCATION_TASK,
+      expect.objectContaining({
+        timeInterval: getSamplingProfile("en_route").timeInterval,
+        foregroundService: expect.any(Object),
+      }),
+    );
+    expect(await getDriverTrackingState()).toMatchObject({
+      ...ASSIGNMENT,
+      paused: false,
+      profileKey: "en_route:moving",
+    });
+  });
+
+  test("reports when background permission is refused", async () => {
+    Location.requestBackgroundPermissionsAsync.mockResolvedValue({
+      status: "denied",
+    });
+
+    const { started, error } = await startDriverTracking(ASSIGNMENT);
+
+    expect(started).toBe(false);
+    expect(error?.message).toMatch(/Background location/);
+    expect(Location.startLocationUpdatesAsync).not.toHaveBeenCalled();
+  });
+
+  test("resamples on status changes and stops when finished", async () => {
+    await startDriverTracking(ASSIGNMENT);
+
+    notifyEmergencyTransition({
+      emergencyId: "e1",
+      role: "driver",
+      from: "en_route",
+      to: "at_scene",
+      queued: false,
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(lastStartOptions().timeInterval).toBe(
+      getSamplingProfile("at_scene").timeInterval,
+    );
+
+    await updateDriverTrackingStatus("other", "completed");
+    expect(await getDriverTrackingState()).not.toBeNull();
+
+    await updateDriverTrackingStatus("e1", "completed");
+    expect(Location.stopLocationUpdatesAsync).toHaveBeenCalledWith(
+      DRIVER_LOCATION_TASK,
+    );
+    expect(await getDriverTrackingState()).toBeNull();
+  });
+
+  test("pauses while the driver is unavailable", async () => {
+    await startDriverTracking(ASSIGNMENT);
+    Location.startLocationUpdatesAsync.mockClear();
+
+    await setDriverTrackingPaused(true);
+    expect(Location.stopLocationUpdatesAsync).toHaveBeenCalled();
+
+    await handleBackgroundLocations([fix(0)] as any);
+    expect(sendLocationUpdate).not.toHaveBeenCalled();
+
+    await setDriverTrackingPaused(false);
+    expect(Location.startLocationUpdatesAsync).toHaveBeenCalledTimes(1);
+    expect((await getDriverTrackingState())?.paused).toBe(false);
+  });
+});
+
+describe("handleBackgroundLocations", () => {
+  test("thins a backlog to the profile interval, keeping the newest", () => {
+    const kept = thinLocations(
+      [fix(0), fix(1), fix(3), fix(4), fix(6), fix(7)] as any,
+      3000,
+    );
+    expect(kept.map((l) => l.timestamp - 1700000000000)).toEqual([
+      0, 3000, 7000,
+    ]);
+  });
+
+  test("sends only the newest point live while online", async () => {
+    await startDriverTracking(ASSIGNMENT);
+
+    await handleBackgroundLocations([fix(0, 9.001), fix(10, 9.002)] as any);
+
+    expect(sendLocationUpdate).toHaveBeenCalledTimes(1);
+    expect(sendLocationUpdate).toHaveBeenCalledWith("amb-1", 9.002, 38.7, {
+      emergencyId: "e1",
+      accuracy: 5,
+      speed: 10,
+      recordedAt: new Date(1700000010000).toISOString(),
+      integrity: expect.objectContaining({ rejected: false }),
+      queueWhenOffline: false,
+    });
+    // The earlier point still lands on the emergency's track.
+    expect(recordTrackPoints).toHaveBeenCalledWith("e1", "amb-1", [
+      expect.objectContaining({ latitude: 9.001, speed: 10, accuracy: 5 }),
+    ]);
+    expect(await getOutbox()).toHaveLength(0);
+  });
+
+  test("drops points no ambulance could have reached", async () => {
+    await startDriverTracking(ASSIGNMENT);
+
+    // 9.5° is ~55 km north of 9.0°, ten seconds later.
+    await handleBackgroundLocations([fix(0, 9.0), fix(10, 9.5)] as any);
+
+    expect(sendLocationUpdate).toHaveBeenCalledWith(
+      "amb-1",
+      9.0,
+      38.7,
+      expect.any(Object),
+    );
+    expect(recordTrackPoints).toHaveBeenCalledWith("e1", "amb-1", []);
+  });
+
+  test("queues every point while offline for a batched replay", async () => {
+    await startDriverTracking(ASSIGNMENT);
+    sendLocationUpdate.mockResolvedValue({
+      success: false,
+      offline: true,
+      error: new Error("Network request failed"),
+    });
+
+    await handleBackgroundLocations([fix(0, 9.001), fix(10, 9.002)] as any);
+    await handleBackgroundLocations([fix(20, 9.003)] as any);
+
+    // The first batch is queued oldest first once the live send fails;
+    // after that the network is skipped until the retry window passes.
+    expect(sendLocationUpdate).toHaveBeenCalledTimes(1);
+    const outbox = await getOutbox();
+    expect(outbox.map((item) => item.payload.latitude)).toEqual([
+      9.001, 9.002, 9.003,
+    ]);
+    expect(outbox[2].payload).toEqual({
+      ambulance_id: "amb-1",
+      emergency_id: "e1",
+      latitude: 9.003,
+      longitude: 38.7,
+      accuracy: 5,
+      speed: 10,
+      recorded_at: new Date(1700000020000).toISOString(),
+      location_confidence: expect.any(Number),
+      location_flags: expect.any(Array),
+    });
+    expect(recordTrackPoints).not.toHaveBeenCalled();
+  });
+});
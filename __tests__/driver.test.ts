@@ -0,0 +1,87 @@
+/**
+ * Tests for utils/driver.ts — queueing crew updates when the backend times
+ * out in low coverage.
+ */
+import { TransientError } from "../utils/api-errors";
+import { sendLocationUpdate, updateEmergencyStatus } from "../utils/driver";
+import { clearOutbox, getOutbox } from "../utils/offline-queue";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPatch: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+
+const { backendPatch, backendPost, backendPut } = jest.requireMock(
+  "../utils/api",
+) as Record<"backendPatch" | "backendPost" | "backendPut", jest.Mock>;
+const { supabase } = jest.requireMock("../utils/supabase") as {
+  supabase: { from: jest.Mock };
+};
+
+const timeout = () =>
+  new TransientError("Request timeout. Please try again.", null, true);
+
+/** Supabase writes that fail the way they do without coverage. */
+const supabaseOffline = () => {
+  const chain: Record<string, jest.Mock> = {
+    eq: jest.fn(() =>
+      Promise.resolve({
+        error: { message: "TypeError: Network request failed" },
+      }),
+    ),
+  };
+  chain.update = jest.fn(() => chain);
+  supabase.from.mockReturnValue(chain);
+};
+
+beforeEach(async () => {
+  await clearOutbox();
+  backendPatch.mockReset();
+  backendPut.mockReset();
+  backendPost.mockReset().mockResolvedValue({});
+  supabase.from.mockReset();
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+test("queues a status change whose request timed out, under the same key", async () => {
+  backendPatch.mockRejectedValue(timeout());
+  supabaseOffline();
+
+  const result = await updateEmergencyStatus("e1", "en_route", "assigned");
+
+  expect(result).toEqual({ success: true, queued: true, error: null });
+  const [, , options] = backendPatch.mock.calls[0];
+  const [item] = await getOutbox();
+  expect(item).toMatchObject({
+    id: options.idempotencyKey,
+    type: "status_update",
+    payload: {
+      emergency_id: "e1",
+      status: "en_route",
+      from_status: "assigned",
+    },
+  });
+});
+
+test("queues a location ping whose request timed out, under the same key", async () => {
+  backendPut.mockRejectedValue(timeout());
+  supabaseOffline();
+
+  const result = await sendLocationUpdate("amb-1", 9.01, 38.76, {
+    recordedAt: "2026-10-19T08:00:00.000Z",
+  });
+
+  expect(result).toEqual({ success: true, queued: true, error: null });
+  const [, , options] = backendPut.mock.calls[0];
+  const [item] = await getOutbox();
+  expect(item).toMatchObject({
+    id: options.idempotencyKey,
+    type: "location_ping",
+    payload: { ambulance_id: "amb-1", latitude: 9.01, longitude: 38.76 },
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for utils/emergency-lifecycle.ts and the status update paths that
+ * validate against it.
+ */
+import {
+  EmergencyTransitionError,
+  checkEmergencyTransition,
+  getAllowedEmergencyTransitions,
+  notifyEmergencyTransition,
+  onEmergencyTransition,
+  type EmergencyTransition,
+} from "../utils/emergency-lifecycle";
+import {
+  acceptEmergency,
+  declineEmergency,
+  updateEmergencyStatus as updateDriverStatus,
+} from "../utils/driver";
+import { updateHospitalEmergencyStatus } from "../utils/emergency";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPatch: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+jest.mock("../utils/network", () => ({
+  isLikelyConnectivityError: jest.fn(() => false),
+}));
+
+const { backendPatch, backendPost, backendPut } = jest.requireMock(
+  "../utils/api",
+) as {
+  backendPatch: jest.Mock;
+  backendPost: jest.Mock;
+  backendPut: jest.Mock;
+};
+
+const NOW = Date.parse("2024-05-01T10:00:00Z");
+const minutesAgo = (minutes: number) =>
+  new Date(NOW - minutes * 60 * 1000).toISOString();
+
+const transition = (
+  overrides: Partial<EmergencyTransition>,
+): EmergencyTransition => ({
+  emergencyId: "e1",
+  role: "driver",
+  from: "assigned",
+  to: "en_route",
+  now: NOW,
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.spyOn(Date, "now").mockReturnValue(NOW);
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  backendPatch.mockReset();
+  backendPut.mockReset();
+  backendPost.mockReset().mockResolvedValue({});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("transition tables", () => {
+  it("follows the crew flow", () => {
+    expect(getAllowedEmergencyTransitions("driver", "en_route")).toEqual([
+      "at_scene",
+      "arrived",
+    ]);
+    expect(getAllowedEmergencyTransitions("ambulance", "transporting")).toEqual(
+      [],
+    );
+  });
+
+  it("limits hospitals to handover stages", () => {
+    expect(getAllowedEmergencyTransitions("hospital", "transporting")).toEqual([
+      "at_hospital",
+    ]);
+    expect(getAllowedEmergencyTransitions("hospital", "assigned")).toEqual([]);
+  });
+
+  it("never leaves a closed emergency", () => {
+    expect(getAllowedEmergencyTransitions("admin", "completed")).toEqual([]);
+  });
+});
+
+describe("checkEmergencyTransition", () => {
+  it("rejects skipping crew stages", () => {
+    expect(
+      checkEmergencyTransition(
+        transition({ from: "assigned", to: "transporting" }),
+      ),
+    ).toEqual({
+      allowed: false,
+      reason:
+        "A driver cannot move an emergency from assigned to transporting.",
+    });
+  });
+
+  it("allows re-sending a status the role can set", () => {
+    expect(
+      checkEmergencyTransition(transition({ from: "at_scene", to: "at_scene" }))
+        .allowed,
+    ).toBe(true);
+    expect(
+      checkEmergencyTransition(
+        transition({ from: "completed", to: "completed" }),
+      ).allowed,
+    ).toBe(false);
+  });
+
+  it("lets patients cancel only inside the window", () => {
+    const cancel = (from: "pending" | "en_route", createdMinutesAgo: number) =>
+      checkEmergencyTransition(
+        transition({
+          role: "patient",
+          from,
+          to: "cancelled",
+          createdAt: minutesAgo(createdMinutesAgo),
+        }),
+      );
+
+    expect(cancel("pending", 1).allowed).toBe(true);
+    expect(cancel("pending", 4).reason).toBe(
+      "Cancellation window expired. You can only cancel within 3 minutes.",
+    );
+    expect(cancel("en_route", 1).reason).toBe(
+      "Cancellation is closed because an ambulance already accepted this request.",
+    );
+  });
+});
+
+describe("transition hooks", () => {
+  it("runs hooks until unsubscribed and survives failing hooks", () => {
+    const hook = jest.fn();
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const offFailing = onEmergencyTransition(() => {
+      throw new Error("boom");
+    });
+    const off = onEmergencyTransition(hook);
+    const event = {
+      emergencyId: "e1",
+      role: "driver" as const,
+      from: "assigned" as const,
+      to: "en_route" as const,
+      queued: false,
+    };
+
+    notifyEmergencyTransition(event);
+    off();
+    offFailing();
+    notifyEmergencyTransition(event);
+
+    expect(hook).toHaveBeenCalledTimes(1);
+    expect(hook).toHaveBeenCalledWith(event);
+    expect(warn).toHaveBeenCalledWith(
+      "Emergency transition hook failed:",
+      expect.any(Error),
+    );
+  });
+});
+
+describe("status update paths", () => {
+  it("rejects an illegal driver update before calling the backend", async () => {
+    const result = await updateDriverStatus("e1", "completed", "at_scene");
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(EmergencyTransitionError);
+    expect(backendPatch).not.toHaveBeenCalled();
+  });
+
+  it("records accepted driver updates on the timeline", async () => {
+    backendPatch.mockResolvedValue({});
+    await expect(
+      updateDriverStatus("e1", "en_route", "assigned"),
+    ).resolves.toEqual({ success: true, error: null });
+    expect(backendPatch).toHaveBeenCalledWith(
+      "/ops/patient/emergencies/e1/status",
+      { status: "en_route" },
+      { idempotencyKey: expect.any(String) },
+    );
+    expect(backendPost).toHaveBeenCalledWith("/ops/timeline/events", {
+      emergency_id: "e1",
+      event_type: "status_changed",
+      details: { from: "assigned", to: "en_route", role: "driver" },
+    });
+  });
+
+  it("checks accept and decline against the crew table", async () => {
+    const late = await declineEmergency("a1", "e1", "en_route");
+    expect(late.error).toBeInstanceOf(EmergencyTransitionError);
+    expect(backendPost).not.toHaveBeenCalled();
+
+    const hook = jest.fn();
+    const off = onEmergencyTransition(hook);
+    await expect(acceptEmergency("a1", "e1", "pending")).resolves.toEqual({
+      success: true,
+      error: null,
+    });
+    off();
+    expect(backendPost).toHaveBeenCalledWith(
+      "/ops/driver/assignment/a1/accept",
+      { emergency_id: "e1" },
+    );
+    expect(hook).toHaveBeenCalledWith({
+      emergencyId: "e1",
+      role: "driver",
+      from: "pending",
+      to: "assigned",
+      queued: false,
+    });
+  });
+
+  it("lets hospitals complete only after handover", async () => {
+    const early = await updateHospitalEmergencyStatus(
+      "e1",
+      "completed",
+      "transporting",
+    );
+    expect(early.error).toBeInstanceOf(EmergencyTransitionError);
+    expect(backendPut).not.toHaveBeenCalled();
+
+    backendPut.mockResolvedValue({});
+    await expect(
+      updateHospitalEmergencyStatus("e1", "completed", "at_hospital"),
+    ).resolves.toEqual({ success: true, error: null });
+    expect(backendPut).toHaveBeenCalledWith("/ops/emergencies/e1/status", {
+      status: "completed",
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for utils/emergency-timeline.ts: automatic recording from lifecycle
+ * transitions and outbox replays, location milestones and display helpers.
+ */
+import { notifyEmergencyTransition } from "../utils/emergency-lifecycle";
+import {
+  createLocationMilestoneTracker,
+  describeTimelineEvent,
+  recordTimelineEvent,
+  withTimelineReplay,
+} from "../utils/emergency-timeline";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+
+const { backendPost } = jest.requireMock("../utils/api") as {
+  backendPost: jest.Mock;
+};
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+beforeEach(() => {
+  backendPost.mockReset().mockResolvedValue({});
+});
+
+describe("recording", () => {
+  it("records cancellations as their own event type", async () => {
+    notifyEmergencyTransition({
+      emergencyId: "e1",
+      role: "patient",
+      from: "pending",
+      to: "cancelled",
+      queued: false,
+    });
+    await flushPromises();
+
+    expect(backendPost).toHaveBeenCalledWith("/ops/timeline/events", {
+      emergency_id: "e1",
+      event_type: "emergency_cancelled",
+      details: { from: "pending", to: "cancelled", role: "patient" },
+    });
+  });
+
+  it("waits for the outbox replay before recording queued changes", async () => {
+    notifyEmergencyTransition({
+      emergencyId: "e1",
+      role: "driver",
+      from: "en_route",
+      to: "at_scene",
+      queued: true,
+    });
+    await flushPromises();
+    expect(backendPost).not.toHaveBeenCalled();
+
+    const sync = jest.fn(async () => ({
+      accepted: 1,
+      rejected: 1,
+      results: [
+        {
+          idempotency_key: "k1",
+          type: "status_update",
+          status: "accepted" as const,
+          reason: null,
+        },
+        {
+          idempotency_key: "k2",
+          type: "medical_note",
+          status: "rejected" as const,
+          reason: "Forbidden",
+        },
+      ],
+      server_received_at: "2024-05-01T10:00:00Z",
+    }));
+    await withTimelineReplay(sync)([
+      {
+        type: "status_update",
+        payload: {
+          emergency_id: "e1",
+          status: "at_scene",
+          from_status: "en_route",
+        },
+        queuedAt: "2024-05-01T09:58:00Z",
+        idempotencyKey: "k1",
+      },
+      {
+        type: "medical_note",
+        payload: { emergency_id: "e1", note_type: "general" },
+        idempotencyKey: "k2",
+      },
+    ]);
+    await flushPromises();
+
+    expect(backendPost).toHaveBeenCalledTimes(1);
+    expect(backendPost).toHaveBeenCalledWith("/ops/timeline/events", {
+      emergency_id: "e1",
+      event_type: "status_changed",
+      details: {
+        from: "en_route",
+        to: "at_scene",
+        role: "driver",
+        queued_at: "2024-05-01T09:58:00Z",
+      },
+    });
+  });
+
+  it("does not record a replay the server reports as a duplicate", async () => {
+    const sync = jest.fn(async () => ({
+      accepted: 1,
+      rejected: 0,
+      results: [
+        {
+          idempotency_key: "k1",
+          type: "status_update",
+          status: "accepted" as const,
+          reason: "duplicate",
+        },
+      ],
+      server_received_at: "2024-05-01T10:00:00Z",
+    }));
+    await withTimelineReplay(sync)([
+      {
+        type: "status_update",
+        payload: { emergency_id: "e1", status: "at_scene" },
+        idempotencyKey: "k1",
+      },
+    ]);
+    await flushPromises();
+
+    expect(backendPost).not.toHaveBeenCalled();
+  });
+
+  it("never throws when the timeline write fails", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    backendPost.mockRejectedValue(new Error("Forbidden"));
+    await expect(
+      recordTimelineEvent("e1", "assignment_accepted"),
+    ).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe("location milestones", () => {
+  it("reports each milestone once, in order", () => {
+    const track = createLocationMilestoneTracker();
+    expect(track(3)).toEqual([]);
+    expect(track(0.1)).toEqual(["approaching_patient", "reached_patient"]);
+    expect(track(0.05)).toEqual([]);
+    expect(track(Number.NaN)).toEqual([]);
+  });
+});
+
+describe("describeTimelineEvent", () => {
+  const event = (event_type: string, details: Record<string, unknown>) => ({
+    id: "t1",
+    emergency_id: "e1",
+    event_type,
+    created_at: "2024-05-01T10:00:00Z",
+    details,
+  });
+
+  it("summarises status changes and milestones", () => {
+    expect(
+      describeTimelineEvent(
+        event("status_changed", { from: "en_route", to: "at_scene" }),
+      ),
+    ).toBe("en route → at scene");
+    expect(
+      describeTimelineEvent(event("status_changed", { to: "at_scene" })),
+    ).toBe("at scene");
+    expect(
+      describeTimelineEvent(
+        event("location_milestone", { milestone: "reached_patient" }),
+      ),
+    ).toBe("reached patient");
+  });
+
+  it("summarises voice SOS recordings", () => {
+    expect(
+      describeTimelineEvent(
+        event("voice_note_attached", {
+          duration_seconds: 12,
+          transcribed: true,
+        }),
+      ),
+    ).toBe("12s recording, transcribed");
+    expect(
+      describeTimelineEvent(
+        event("voice_note_attached", { duration_seconds: 0 }),
+      ),
+    ).toBe("recording");
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for utils/emergency-track.ts — loading GPS tracks and the trip
+ * metrics shown in the replay view.
+ */
+import {
+  buildTrackReplayHtml,
+  computeTripMetrics,
+  getTrackStatusMarkers,
+  loadEmergencyTrack,
+  trackDistanceKm,
+} from "../utils/emergency-track";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+
+const { backendGet } = jest.requireMock("../utils/api") as {
+  backendGet: jest.Mock;
+};
+
+const at = (minute: number) =>
+  new Date(Date.UTC(2026, 0, 1, 8, minute)).toISOString();
+
+/** ~1.11 km per 0.01° of latitude. */
+const point = (minute: number, latitude: number, accuracy = 5) => ({
+  ambulance_id: "amb-1",
+  latitude,
+  longitude: 38.7,
+  accuracy,
+  speed: 10,
+  recorded_at: at(minute),
+});
+
+const statusEvent = (minute: number, to: string) => ({
+  id: `ev-${minute}`,
+  emergency_id: "e1",
+  event_type: "status_changed",
+  created_at: at(minute),
+  details: { to, role: "driver" },
+});
+
+const EVENTS = [
+  {
+    id: "ev-0",
+    emergency_id: "e1",
+    event_type: "dispatch_requested",
+    created_at: at(0),
+    details: {},
+  },
+  statusEvent(2, "en_route"),
+  statusEvent(12, "at_scene"),
+  statusEvent(27, "transporting"),
+  statusEvent(45, "at_hospital"),
+];
+
+const TRACK = [
+  point(3, 9.0),
+  point(8, 9.01),
+  point(12, 9.02),
+  point(30, 9.03),
+  point(45, 9.04),
+];
+
+beforeEach(() => {
+  backendGet.mockReset();
+});
+
+describe("computeTripMetrics", () => {
+  test("derives response, scene and transport times", () => {
+    const metrics = computeTripMetrics(TRACK, EVENTS as any);
+
+    expect(metrics.responseMinutes).toBe(12);
+    expect(metrics.sceneMinutes).toBe(15);
+    expect(metrics.transportMinutes).toBe(18);
+    expect(metrics.distanceKm).toBeCloseTo(4.45, 1);
+  });
+
+  test("starts the response time at the emergency's creation", () => {
+    const metrics = computeTripMetrics(TRACK, EVENTS as any, at(2));
+    expect(metrics.responseMinutes).toBe(10);
+  });
+
+  test("leaves out stages that have not happened", () => {
+    const metrics = computeTripMetrics(TRACK, EVENTS.slice(0, 2) as any);
+    expect(metrics).toMatchObject({
+      responseMinutes: null,
+      sceneMinutes: null,
+      transportMinutes: null,
+    });
+  });
+
+  test("skips imprecise fixes in the distance", () => {
+    const jumpy = [point(0, 9.0), point(1, 9.5, 800), point(2, 9.01)];
+    expect(trackDistanceKm(jumpy)).toBeCloseTo(1.11, 1);
+  });
+});
+
+test("pins status changes to the last point before them", () => {
+  const markers = getTrackStatusMarkers(TRACK, EVENTS as any);
+
+  expect(markers.map((m) => [m.status, m.latitude])).toEqual([
+    // Before the first fix, so pinned to the start of the track.
+    ["en_route", 9.0],
+    ["at_scene", 9.02],
+    ["transporting", 9.02],
+    ["at_hospital", 9.04],
+  ]);
+  expect(getTrackStatusMarkers([], EVENTS as any)).toEqual([]);
+});
+
+test("loads the track oldest first", async () => {
+  backendGet.mockResolvedValue([TRACK[1], TRACK[0]]);
+
+  const { points, error } = await loadEmergencyTrack("e1");
+
+  expect(backendGet).toHaveBeenCalledWith("/ops/emergencies/e1/track");
+  expect(error).toBeNull();
+  expect(points.map((p) => p.latitude)).toEqual([9.0, 9.01]);
+});
+
+test("escapes labels inlined in the replay page", () => {
+  const html = buildTrackReplayHtml(TRACK, [
+    {
+      status: "at_scene",
+      at: at(12),
+      latitude: 9.02,
+      longitude: 38.7,
+      label: "</script><b>",
+    },
+  ]);
+  expect(html).not.toContain("</script><b>");
+  expect(html).toContain("\\u003c/script>\\u003cb>");
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for utils/endpoint-health.ts — backend mirror health scoring.
+ */
+import {
+  CIRCUIT_FAILURE_THRESHOLD,
+  createEndpointHealthTracker,
+} from "../utils/endpoint-health";
+
+const A = "https://a.example/api";
+const B = "https://b.example/api";
+const C = "https://c.example/api";
+
+describe("Endpoint health tracker", () => {
+  let clock = 1_000_000;
+  const now = () => clock;
+
+  beforeEach(() => {
+    clock = 1_000_000;
+  });
+
+  test("keeps configured order before anything is measured", () => {
+    const tracker = createEndpointHealthTracker([A, B, C], now);
+    expect(tracker.getActive()).toBe(A);
+    expect(tracker.getOrder()).toEqual([A, B, C]);
+  });
+
+  test("fails over on the first failure of the active endpoint", () => {
+    const tracker = createEndpointHealthTracker([A, B, C], now);
+    tracker.recordSuccess(B, 200);
+    tracker.recordFailure(A, new Error("Request timeout"));
+    expect(tracker.getActive()).toBe(B);
+    expect(tracker.getOrder()[0]).toBe(B);
+  });
+
+  test("stays sticky unless another mirror is much faster", () => {
+    const tracker = createEndpointHealthTracker([A, B], now);
+    tracker.recordSuccess(A, 300);
+    tracker.recordSuccess(B, 200);
+    expect(tracker.getActive()).toBe(A);
+
+    tracker.recordSuccess(B, 50);
+    tracker.recordSuccess(B, 50);
+    tracker.recordSuccess(B, 50);
+    expect(tracker.getActive()).toBe(B);
+  });
+
+  test("opens the circuit after repeated failures and closes it later", () => {
+    const tracker = createEndpointHealthTracker([A, B], now);
+    for (let i = 0; i < CIRCUIT_FAILURE_THRESHOLD; i++) {
+      tracker.recordFailure(A, "down");
+    }
+    const entry = () => tracker.snapshot().endpoints.find((e) => e.url === A)!;
+    expect(entry().circuitOpen).toBe(true);
+    expect(tracker.getOrder()).toEqual([B, A]);
+
+    clock += 31_000;
+    expect(entry().circuitOpen).toBe(false);
+
+    tracker.recordSuccess(A, 100);
+    expect(entry().consecutiveFailures).toBe(0);
+    expect(entry().lastError).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for utils/ethiopian-calendar.ts — Gregorian ⇄ Ethiopian dates and
+ * the Ethiopian clock.
+ */
+import {
+  daysInEthiopianMonth,
+  ethiopianDateOf,
+  isEthiopianLeapYear,
+  isValidEthiopianDate,
+  toEthiopianDate,
+  toEthiopianTime,
+  toGregorianDate,
+  type CalendarDate,
+} from "../utils/ethiopian-calendar";
+
+const date = (year: number, month: number, day: number): CalendarDate => ({
+  year,
+  month,
+  day,
+});
+
+/** Gregorian dates from `from` for `days` days, via the JS Date (UTC). */
+const gregorianDays = function* (from: CalendarDate, days: number) {
+  const start = Date.UTC(from.year, from.month - 1, from.day);
+  for (let index = 0; index < days; index++) {
+    const d = new Date(start + index * 86400000);
+    yield date(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate());
+  }
+};
+
+describe("known dates", () => {
+  test.each([
+    // Enkutatash (new year) on both sides of a leap year
+    [date(2023, 9, 12), date(2016, 1, 1)],
+    [date(2024, 9, 11), date(2017, 1, 1)],
+    [date(2027, 9, 12), date(2020, 1, 1)],
+    // Meskel, Genna (Christmas) and Timkat (Epiphany)
+    [date(2024, 9, 27), date(2017, 1, 17)],
+    [date(2025, 1, 7), date(2017, 4, 29)],
+    [date(2025, 1, 19), date(2017, 5, 11)],
+    // Adwa Victory Day
+    [date(2025, 3, 2), date(2017, 6, 23)],
+    // Pagume, including the leap day
+    [date(2023, 9, 11), date(2015, 13, 6)],
+    [date(2024, 9, 10), date(2016, 13, 5)],
+    [date(2024, 9, 6), date(2016, 13, 1)],
+    // Gregorian leap day and century boundaries
+    [date(2024, 2, 29), date(2016, 6, 21)],
+    [date(2000, 1, 1), date(1992, 4, 22)],
+    [date(1900, 3, 1), date(1892, 6, 22)],
+    [date(2100, 3, 1), date(2092, 6, 21)],
+  ])("%j is %j", (gregorian, ethiopian) => {
+    expect(toEthiopianDate(gregorian)).toEqual(ethiopian);
+    expect(toGregorianDate(ethiopian)).toEqual(gregorian);
+  });
+});
+
+describe("every day from 1900 to 2100", () => {
+  const days = [...gregorianDays(date(1900, 1, 1), 73414)];
+
+  test("round-trips Gregorian → Ethiopian → Gregorian", () => {
+    for (const gregorian of days) {
+      const ethiopian = toEthiopianDate(gregorian);
+      expect(isValidEthiopianDate(ethiopian)).toBe(true);
+      expect(toGregorianDate(ethiopian)).toEqual(gregorian);
+    }
+  });
+
+  test("consecutive days advance the Ethiopian date by exactly one", () => {
+    let previous = toEthiopianDate(days[0]);
+    for (const gregorian of days.slice(1)) {
+      const next = toEthiopianDate(gregorian);
+      if (previous.day < daysInEthiopianMonth(previous.year, previous.month)) {
+        expect(next).toEqual(
+          date(previous.year, previous.month, previous.day + 1),
+        );
+      } else if (previous.month < 13) {
+        expect(next).toEqual(date(previous.year, previous.month + 1, 1));
+      } else {
+        expect(next).toEqual(date(previous.year + 1, 1, 1));
+      }
+      previous = next;
+    }
+  });
+});
+
+describe("leap years and validation", () => {
+  test("the year before a Gregorian leap year has 6 days of Pagume", () => {
+    for (let year = 1890; year <= 2100; year++) {
+      // Pagume of this year ends in September of the Gregorian year before
+      // the leap year, e.g. Pagume 6, 2015 is 11 September 2023.
+      const gregorianYear = toGregorianDate(date(year, 13, 1)).year + 1;
+      // 1900 and 2100 skip the Gregorian leap day; the Ethiopian calendar
+      // keeps its plain four-year cycle.
+      if (gregorianYear % 100 !== 0) {
+        expect(isEthiopianLeapYear(year)).toBe(gregorianYear % 4 === 0);
+      }
+      expect(daysInEthiopianMonth(year, 13)).toBe(
+        isEthiopianLeapYear(year) ? 6 : 5,
+      );
+    }
+  });
+
+  test("rejects days that do not exist", () => {
+    expect(isValidEthiopianDate(date(2015, 13, 6))).toBe(true);
+    expect(isValidEthiopianDate(date(2016, 13, 6))).toBe(false);
+    expect(isValidEthiopianDate(date(2016, 1, 31))).toBe(false);
+    expect(isValidEthiopianDate(date(2016, 14, 1))).toBe(false);
+    expect(isValidEthiopianDate(date(2016, 0, 1))).toBe(false);
+    expect(isValidEthiopianDate(date(2016, 1, 1.5))).toBe(false);
+    expect(() => toGregorianDate(date(2016, 13, 6))).toThrow(RangeError);
+  });
+
+  test("ethiopianDateOf reads the JS Date in local time", () => {
+    expect(ethiopianDateOf(new Date(2025, 0, 7, 23, 59))).toEqual(
+      date(2017, 4, 29),
+    );
+  });
+});
+
+describe("toEthiopianTime", () => {
+  test.each([
+    [0, 0, 6, "night"],
+    [3, 15, 9, "night"],
+    [5, 59, 11, "night"],
+    [6, 0, 12, "morning"],
+    [7, 0, 1, "morning"],
+    [11, 30, 5, "morning"],
+    [12, 0, 6, "afternoon"],
+    [13, 30, 7, "afternoon"],
+    [17, 45, 11, "afternoon"],
+    [18, 0, 12, "evening"],
+    [19, 0, 1, "evening"],
+    [23, 59, 5, "evening"],
+  ])("%i:%i is %i o'clock (%s)", (hours, minutes, hour, period) => {
+    expect(toEthiopianTime(hours, minutes)).toEqual({
+      hour,
+      minute: minutes,
+      period,
+    });
+  });
+
+  test("every hour maps onto 1–12, six hours behind", () => {
+    for (let hours = 0; hours < 24; hours++) {
+      const { hour } = toEthiopianTime(hours, 0);
+      expect(hour).toBeGreaterThanOrEqual(1);
+      expect(hour).toBeLessThanOrEqual(12);
+      expect((hour + 6) % 12).toBe(hours % 12);
+    }
+  });
+});
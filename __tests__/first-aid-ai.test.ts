@@ -0,0 +1,126 @@
+/**
+ * Tests for the streaming chat client in utils/first-aid-ai.ts.
+ */
+import { CancelledError, TransientError } from "../utils/api-errors";
+import { streamFirstAidAiResponse } from "../utils/first-aid-ai";
+import type { ServerSentEvent } from "../utils/sse";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+  backendStream: jest.fn(),
+}));
+
+const { backendPost, backendStream } = jest.requireMock("../utils/api") as {
+  backendPost: jest.Mock;
+  backendStream: jest.Mock;
+};
+
+/** Make backendStream emit these events, then resolve or reject. */
+const streamEvents = (events: ServerSentEvent[], error?: Error) =>
+  backendStream.mockImplementation(async (_path, _body, options) => {
+    for (const event of events) options.onEvent(event);
+    if (error) throw error;
+  });
+
+const delta = (text: string): ServerSentEvent => ({
+  event: "delta",
+  data: JSON.stringify({ text }),
+});
+
+describe("streamFirstAidAiResponse", () => {
+  beforeEach(() => {
+    backendPost.mockReset();
+    backendStream.mockReset();
+  });
+
+  it("reports partial text and resolves with the final reply", async () => {
+    streamEvents([
+      delta("Apply "),
+      delta("**firm** pressure"),
+      {
+        event: "done",
+        data: JSON.stringify({ reply: "Apply firm pressure.", follow_ups: [] }),
+      },
+    ]);
+    const onText = jest.fn();
+
+    const reply = await streamFirstAidAiResponse("bleeding", [], "en", {
+      onText,
+    });
+
+    expect(onText.mock.calls).toEqual([["Apply "], ["Apply firm pressure"]]);
+    expect(reply).toEqual({ role: "bot", text: "Apply firm pressure." });
+    expect(backendStream).toHaveBeenCalledWith(
+      "/chat/stream",
+      { message: "bleeding", history: [], lang: "en" },
+      expect.any(Object),
+    );
+    expect(backendPost).not.toHaveBeenCalled();
+  });
+
+  it("keeps the partial reply when the user stops it", async () => {
+    streamEvents([delta("Press on the wound")], new CancelledError());
+
+    const reply = await streamFirstAidAiResponse("bleeding", []);
+
+    expect(reply).toEqual({
+      role: "bot",
+      text: "Press on the wound",
+      stopped: true,
+    });
+    expect(backendPost).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the non-streaming route when streaming fails", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    streamEvents([], new TransientError("Network request failed", null, false));
+    backendPost.mockResolvedValue({ reply: "Cool the burn with water." });
+
+    const reply = await streamFirstAidAiResponse("burn", []);
+
+    expect(backendPost).toHaveBeenCalledWith(
+      "/chat",
+      expect.objectContaining({ message: "burn" }),
+      { signal: undefined },
+    );
+    expect(reply).toEqual({ role: "bot", text: "Cool the burn with water." });
+    warn.mockRestore();
+  });
+
+  it("stops the non-streaming fallback too", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const controller = new AbortController();
+    streamEvents([], new TransientError("Not found", 404, false));
+    backendPost.mockImplementation(async () => {
+      controller.abort();
+      throw new CancelledError();
+    });
+
+    const reply = await streamFirstAidAiResponse("burn", [], "en", {
+      signal: controller.signal,
+    });
+
+    expect(backendPost).toHaveBeenCalledWith(
+      "/chat",
+      expect.objectContaining({ message: "burn" }),
+      { signal: controller.signal },
+    );
+    expect(reply).toEqual({ role: "bot", text: "", stopped: true });
+    warn.mockRestore();
+  });
+
+  it("falls back when the stream reports an error", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    streamEvents([
+      { event: "error", data: JSON.stringify({ detail: "unavailable" }) },
+    ]);
+    backendPost.mockRejectedValue(new Error("Network request failed"));
+
+    const reply = await streamFirstAidAiResponse("deep cut, lots of blood", []);
+
+    expect(reply).toMatchObject({ offline: true, protocolId: "bleeding" });
+    warn.mockRestore();
+  });
+});
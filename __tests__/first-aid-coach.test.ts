@@ -0,0 +1,136 @@
+/**
+ * Tests for utils/first-aid-coach.ts — CPR and choking counting rules and
+ * session logging.
+ */
+import {
+  advanceChokingCounter,
+  advanceCprCounter,
+  beatIntervalMs,
+  clampCompressionRate,
+  COMPRESSIONS_PER_CYCLE,
+  createChokingCounter,
+  createCprCounter,
+  type CprCounter,
+  formatElapsed,
+  logCoachSession,
+  summarizeCprSession,
+} from "../utils/first-aid-coach";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+
+const { backendPost } = jest.requireMock("../utils/api") as {
+  backendPost: jest.Mock;
+};
+
+const compress = (counter: CprCounter, times: number) => {
+  let next = counter;
+  for (let i = 0; i < times; i++) {
+    next = advanceCprCounter(next, "compression");
+  }
+  return next;
+};
+
+beforeEach(() => {
+  backendPost.mockReset().mockResolvedValue({});
+});
+
+describe("compression rate", () => {
+  it("keeps the metronome between 100 and 120 bpm", () => {
+    expect(clampCompressionRate(90)).toBe(100);
+    expect(clampCompressionRate(130)).toBe(120);
+    expect(clampCompressionRate(Number.NaN)).toBe(110);
+    expect(beatIntervalMs(120)).toBe(500);
+    expect(beatIntervalMs(100)).toBe(600);
+  });
+});
+
+describe("30:2 cycle counting", () => {
+  it("pauses for breaths after 30 compressions, then starts the next cycle", () => {
+    const atBreaths = compress(createCprCounter(), COMPRESSIONS_PER_CYCLE);
+    expect(atBreaths).toMatchObject({
+      phase: "breaths",
+      cycle: 1,
+      compressionInCycle: 30,
+      totalCompressions: 30,
+    });
+
+    // Beats during the breath pause are not counted
+    expect(advanceCprCounter(atBreaths, "compression")).toBe(atBreaths);
+
+    expect(advanceCprCounter(atBreaths, "breaths_done")).toMatchObject({
+      phase: "compressions",
+      cycle: 2,
+      compressionInCycle: 0,
+      completedCycles: 1,
+    });
+  });
+
+  it("never pauses in hands-only mode", () => {
+    const counter = compress(createCprCounter(true), 65);
+    expect(counter).toMatchObject({
+      phase: "compressions",
+      cycle: 3,
+      compressionInCycle: 5,
+      totalCompressions: 65,
+      completedCycles: 2,
+    });
+  });
+});
+
+describe("choking", () => {
+  it("alternates sets of five back blows and thrusts", () => {
+    let counter = createChokingCounter();
+    for (let i = 0; i < 5; i++) counter = advanceChokingCounter(counter);
+    expect(counter).toEqual({ action: "thrusts", countInSet: 0, rounds: 0 });
+    for (let i = 0; i < 5; i++) counter = advanceChokingCounter(counter);
+    expect(counter).toEqual({ action: "back_blows", countInSet: 0, rounds: 1 });
+  });
+});
+
+describe("sessions", () => {
+  it("formats elapsed time", () => {
+    expect(formatElapsed(0)).toBe("00:00");
+    expect(formatElapsed(754)).toBe("12:34");
+  });
+
+  it("logs the session on the emergency timeline", async () => {
+    const summary = summarizeCprSession({
+      protocol: "cpr_adult",
+      startedAt: new Date("2024-05-01T10:00:00Z"),
+      endedAt: new Date("2024-05-01T10:06:30Z"),
+      counter: compress(createCprCounter(), 30),
+      bpm: 110,
+      outcome: "help_arrived",
+    });
+    await logCoachSession("e1", summary);
+
+    expect(backendPost).toHaveBeenCalledWith("/ops/timeline/events", {
+      emergency_id: "e1",
+      event_type: "first_aid_session",
+      details: expect.objectContaining({
+        protocol: "cpr_adult",
+        duration_seconds: 390,
+        outcome: "help_arrived",
+        total_compressions: 30,
+        completed_cycles: 0,
+        compression_rate_bpm: 110,
+      }),
+    });
+  });
+
+  it("does not log without an emergency", async () => {
+    const summary = summarizeCprSession({
+      protocol: "cpr_infant",
+      startedAt: new Date(),
+      counter: createCprCounter(),
+      bpm: 100,
+      outcome: "stopped",
+    });
+    await logCoachSession(null, summary);
+    expect(backendPost).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for utils/first-aid-pack.ts and the offline fallback in
+ * utils/first-aid-ai.ts.
+ */
+import { getFirstAidAiResponse } from "../utils/first-aid-ai";
+import {
+  FIRST_AID_PACK_VERSION,
+  FIRST_AID_PROTOCOLS,
+  getOfflineFirstAidResponse,
+  matchFirstAidProtocol,
+} from "../utils/first-aid-pack";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+
+const { backendPost } = jest.requireMock("../utils/api") as {
+  backendPost: jest.Mock;
+};
+
+beforeEach(() => {
+  backendPost.mockReset();
+});
+
+describe("matchFirstAidProtocol", () => {
+  it.each([
+    ["My son is choking on a sweet", "choking"],
+    ["He collapsed and is not breathing", "cpr"],
+    ["she burned her hand with hot water", "burns"],
+    ["ልጄን እባብ ነደፈው", "snake_bite"],
+    ["dhiigni baay'ee dhangala'aa jira, madaa guddaa", "bleeding"],
+    ["ምጥ ጀምሯታል", "childbirth"],
+  ])("matches %j to %s", (input, id) => {
+    expect(matchFirstAidProtocol(input)?.protocol.id).toBe(id);
+  });
+
+  it("only matches Latin keywords at the start of a word", () => {
+    expect(matchFirstAidProtocol("what are the benefits")).toBeNull();
+    expect(matchFirstAidProtocol("")).toBeNull();
+  });
+});
+
+describe("pack content", () => {
+  it("has every protocol in every language", () => {
+    for (const protocol of FIRST_AID_PROTOCOLS) {
+      for (const lang of ["en", "am", "om"] as const) {
+        expect(protocol.keywords[lang].length).toBeGreaterThan(0);
+        expect(protocol.content[lang].title).toBeTruthy();
+        expect(protocol.content[lang].steps.length).toBeGreaterThan(0);
+      }
+    }
+  });
+});
+
+describe("offline fallback", () => {
+  it("answers in the requested language and marks the reply offline", () => {
+    const reply = getOfflineFirstAidResponse("seizure", "am");
+    expect(reply).toMatchObject({
+      role: "bot",
+      offline: true,
+      protocolId: "seizure",
+      packVersion: FIRST_AID_PACK_VERSION,
+    });
+    expect(reply.text).toContain("የሚጥል ሕመም");
+  });
+
+  it("gives general steps when nothing matches", () => {
+    const reply = getOfflineFirstAidResponse("hello", "en");
+    expect(reply.protocolId).toBeUndefined();
+    expect(reply.text).toContain("General emergency steps");
+  });
+
+  it("is used when the backend is unreachable", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    backendPost.mockRejectedValue(new Error("Network request failed"));
+
+    const reply = await getFirstAidAiResponse("deep cut, lots of blood", []);
+    expect(reply).toMatchObject({ offline: true, protocolId: "bleeding" });
+    warn.mockRestore();
+  });
+
+  it("keeps backend answers online", async () => {
+    backendPost.mockResolvedValue({ reply: "Apply **firm** pressure." });
+    const reply = await getFirstAidAiResponse("bleeding", []);
+    expect(reply).toEqual({ role: "bot", text: "Apply firm pressure." });
+  });
+});
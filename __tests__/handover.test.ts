@@ -0,0 +1,172 @@
+/**
+ * Tests for utils/handover.ts — hospital pre-arrival handover packets.
+ */
+import type { MedicalNote } from "../utils/medical-notes";
+import {
+  acknowledgeHandover,
+  buildVitalsTrend,
+  clearHandoverAcknowledgements,
+  deriveTriageInput,
+  estimateEtaMinutes,
+  getHandoverAcknowledgements,
+  loadHandoverPacket,
+} from "../utils/handover";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+jest.mock("../utils/network", () => ({
+  isLikelyConnectivityError: jest.fn(() => false),
+}));
+jest.mock("../utils/patient", () => ({
+  getEmergencyHospitalStatus: jest.fn(),
+}));
+
+const { backendGet, backendPost } = jest.requireMock("../utils/api") as {
+  backendGet: jest.Mock;
+  backendPost: jest.Mock;
+};
+const { getEmergencyHospitalStatus } = jest.requireMock("../utils/patient") as {
+  getEmergencyHospitalStatus: jest.Mock;
+};
+
+const note = (
+  created_at: string,
+  vitals: MedicalNote["vitals"],
+): MedicalNote => ({
+  id: created_at,
+  emergency_id: "e1",
+  author_id: "d1",
+  author_role: "driver",
+  note_type: "transport_observation",
+  content: "",
+  vitals,
+  created_at,
+});
+
+beforeEach(async () => {
+  backendGet.mockReset();
+  backendPost.mockReset();
+  getEmergencyHospitalStatus.mockReset();
+  await clearHandoverAcknowledgements();
+});
+
+describe("buildVitalsTrend", () => {
+  it("orders readings and reports the direction of each vital", () => {
+    const trend = buildVitalsTrend([
+      note("2024-05-01T10:10:00Z", { heart_rate: 128, spo2: 95 }),
+      note("2024-05-01T10:00:00Z", { heart_rate: 110, spo2: 94 }),
+      note("2024-05-01T10:05:00Z", null),
+    ]);
+
+    expect(trend.readings.map((r) => r.recordedAt)).toEqual([
+      "2024-05-01T10:00:00Z",
+      "2024-05-01T10:10:00Z",
+    ]);
+    expect(trend.latest).toEqual({ heart_rate: 128, spo2: 95 });
+    expect(trend.trends).toEqual({ heart_rate: "rising", spo2: "rising" });
+  });
+
+  it("treats small changes as stable", () => {
+    const trend = buildVitalsTrend([
+      note("2024-05-01T10:00:00Z", { temperature: 37.0 }),
+      note("2024-05-01T10:10:00Z", { temperature: 37.2 }),
+    ]);
+    expect(trend.trends).toEqual({ temperature: "stable" });
+  });
+});
+
+describe("deriveTriageInput", () => {
+  it("escalates on low oxygen or an unresponsive patient", () => {
+    expect(deriveTriageInput("medical", { spo2: 85 }).severity).toBe(
+      "critical",
+    );
+    expect(
+      deriveTriageInput("medical", { consciousness_level: "Unresponsive" }),
+    ).toMatchObject({ severity: "critical", conscious: false });
+  });
+
+  it("uses the emergency type when there are no vitals", () => {
+    expect(deriveTriageInput("cardiac", null)).toEqual({
+      severity: "high",
+      conscious: true,
+      breathingDifficulty: false,
+      chestPain: true,
+      trauma: false,
+    });
+    expect(deriveTriageInput("medical", null).severity).toBe("medium");
+  });
+});
+
+describe("ETA", () => {
+  it("matches the backend estimate", () => {
+    expect(estimateEtaMinutes(0)).toBe(2);
+    expect(estimateEtaMinutes(7)).toBe(13);
+  });
+});
+
+describe("loadHandoverPacket", () => {
+  it("builds a packet even when triage is unavailable", async () => {
+    backendGet.mockResolvedValue([
+      note("2024-05-01T10:00:00Z", { heart_rate: 90 }),
+    ]);
+    backendPost.mockRejectedValue(new Error("Service unavailable"));
+    getEmergencyHospitalStatus.mockResolvedValue({
+      data: {
+        eta_to_hospital_minutes: 9,
+        distance_to_hospital_km: 4.2,
+        hospital_latitude: 9.03,
+        hospital_longitude: 38.74,
+        source: "ambulance",
+      },
+      error: null,
+    });
+
+    const { packet, error } = await loadHandoverPacket({
+      id: "e1",
+      emergency_type: "medical",
+      patient_profile: {
+        id: "p1",
+        full_name: "Abebe",
+        phone: "0911000000",
+        role: "patient",
+        hospital_id: null,
+        national_id: "1234567890123456",
+        created_at: "",
+        updated_at: "",
+      },
+    });
+
+    expect(error).toBe("Service unavailable");
+    expect(packet.triage).toBeNull();
+    expect(packet.patient).toEqual({
+      name: "Abebe",
+      phone: "0911000000",
+      nationalId: "1234567890123456",
+    });
+    expect(packet.vitals.latest).toEqual({ heart_rate: 90 });
+    expect(packet.eta).toMatchObject({ minutes: 9, distanceKm: 4.2 });
+    expect(packet.hospital).toEqual({ latitude: 9.03, longitude: 38.74 });
+  });
+});
+
+describe("acknowledgements", () => {
+  it("persists the first acknowledgement and records it once", async () => {
+    backendPost.mockResolvedValue({});
+    const first = await acknowledgeHandover("e1", { etaMinutes: 6 });
+    const second = await acknowledgeHandover("e1", { etaMinutes: 4 });
+
+    expect(second).toBe(first);
+    await expect(getHandoverAcknowledgements()).resolves.toEqual({
+      e1: first,
+    });
+    expect(backendPost).toHaveBeenCalledTimes(1);
+    expect(backendPost).toHaveBeenCalledWith("/ops/timeline/events", {
+      emergency_id: "e1",
+      event_type: "handover_acknowledged",
+      details: { eta_minutes: 6 },
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Tests for ICU-style messages in utils/i18n.ts and the display formatters
+ * in utils/i18n-format.ts.
+ */
+import {
+  formatMessage,
+  formatNumber,
+  pluralCategory,
+  setCalendarPreference,
+  setLang,
+  t,
+} from "../utils/i18n";
+import {
+  formatDate,
+  formatDateTime,
+  formatDistance,
+  formatDuration,
+  formatTime,
+  formatTimeAgo,
+} from "../utils/i18n-format";
+
+describe("formatMessage", () => {
+  test("fills named and positional placeholders", () => {
+    expect(formatMessage("{name} is {0}", { name: "Abebe", 0: "here" })).toBe(
+      "Abebe is here",
+    );
+    expect(formatMessage("{missing} stays", {})).toBe("{missing} stays");
+  });
+
+  test("selects plural branches with exact matches first", () => {
+    const message =
+      "{count, plural, =0 {none} one {# item} other {# items}} left";
+    expect(formatMessage(message, { count: 0 }, "en")).toBe("none left");
+    expect(formatMessage(message, { count: 1 }, "en")).toBe("1 item left");
+    expect(formatMessage(message, { count: 1200 }, "en")).toBe(
+      "1,200 items left",
+    );
+  });
+
+  test("nested placeholders inside a plural branch are filled", () => {
+    expect(
+      formatMessage(
+        "{count, plural, one {# call from {who}} other {# calls from {who}}}",
+        { count: 2, who: "Adama" },
+        "en",
+      ),
+    ).toBe("2 calls from Adama");
+  });
+
+  test("Amharic treats 0 and fractions below 1 as 'one'", () => {
+    expect(pluralCategory(0, "am")).toBe("one");
+    expect(pluralCategory(0.5, "am")).toBe("one");
+    expect(pluralCategory(2, "am")).toBe("other");
+    expect(pluralCategory(0, "en")).toBe("other");
+    expect(pluralCategory(1, "om")).toBe("one");
+  });
+});
+
+describe("formatNumber", () => {
+  test("groups thousands and trims trailing zeros", () => {
+    expect(formatNumber(1234567.891)).toBe("1,234,567.89");
+    expect(formatNumber(2.5, { maximumFractionDigits: 0 })).toBe("3");
+    expect(
+      formatNumber(3, { minimumFractionDigits: 1, maximumFractionDigits: 1 }),
+    ).toBe("3.0");
+    expect(formatNumber(-0.001)).toBe("0");
+    expect(formatNumber(-1500)).toBe("-1,500");
+  });
+});
+
+describe("t() with params", () => {
+  afterEach(async () => {
+    await setLang("en");
+  });
+
+  test("pluralises counts per language", async () => {
+    expect(t("message_count", { count: 1 })).toBe("1 message");
+    expect(t("message_count", { count: 3 })).toBe("3 messages");
+    await setLang("om");
+    expect(t("message_count", { count: 3 })).toBe("Ergaawwan 3");
+    await setLang("am");
+    expect(t("available_ambulance_count", { count: 0 })).toBe(
+      "የሚገኝ አምቡላንስ የለም",
+    );
+  });
+
+  test("keeps positional arguments working", () => {
+    expect(t("eta_minutes", 7)).toBe("ETA: 7 min");
+  });
+});
+
+describe("display formatters", () => {
+  test("formatDistance switches to metres below 1 km", () => {
+    expect(formatDistance(0.4567, "en")).toBe("457 m");
+    expect(formatDistance(3, "en")).toBe("3.0 km");
+    expect(formatDistance(12.34, "am")).toBe("12.3 ኪ.ሜ");
+    expect(formatDistance(250.4, "en")).toBe("250 km");
+  });
+
+  test("formatDuration switches to hours from 60 minutes", () => {
+    expect(formatDuration(7.4, "en")).toBe("7 min");
+    expect(formatDuration(95, "en")).toBe("1 h 35 min");
+    expect(formatDuration(12, "om")).toBe("daqiiqaa 12");
+  });
+
+  test("formatDate and formatTime use local time", () => {
+    const date = new Date(2025, 0, 7, 14, 5);
+    const gregorian = { calendar: "gregorian" } as const;
+    expect(formatDate(date, { lang: "en" })).toBe("Jan 7, 2025");
+    expect(
+      formatDate(date, { ...gregorian, lang: "om", withYear: false }),
+    ).toBe("Amajjii 7");
+    expect(formatTime(date, { lang: "en" })).toBe("2:05 PM");
+    expect(formatTime(date, { ...gregorian, lang: "am" })).toBe("14:05");
+    expect(formatDateTime(date, { lang: "en", withYear: false })).toBe(
+      "2:05 PM · Jan 7",
+    );
+    expect(formatDate("not a date")).toBe("");
+  });
+
+  test("am/om default to the Ethiopian calendar and clock", async () => {
+    const date = new Date(2025, 0, 7, 14, 5);
+    expect(formatDateTime(date, { lang: "am" })).toBe(
+      "ከሰዓት 8:05 · ታኅሣሥ 29, 2017 ዓ.ም.",
+    );
+    expect(formatTime(date, { lang: "om" })).toBe("8:05 waaree booda");
+    expect(formatTime(date, { lang: "en", calendar: "ethiopian" })).toBe(
+      "8:05 in the afternoon",
+    );
+
+    await setCalendarPreference("gregorian");
+    expect(formatDate(date, { lang: "am" })).toBe("ጃንዩዌሪ 7, 2025");
+    await setCalendarPreference("ethiopian");
+    expect(formatDate(date, { lang: "en" })).toBe("Tahsas 29, 2017 EC");
+    await setCalendarPreference("auto");
+  });
+
+  test("formatTimeAgo counts minutes, hours and days", () => {
+    const now = new Date(2025, 0, 7, 12, 0).getTime();
+    const ago = (minutes: number) => now - minutes * 60000;
+    expect(formatTimeAgo(ago(0.5), { lang: "en", now })).toBe("Just now");
+    expect(formatTimeAgo(ago(5), { lang: "en", now })).toBe("5m ago");
+    expect(formatTimeAgo(ago(180), { lang: "am", now })).toBe("ከ3 ሰዓት በፊት");
+    expect(formatTimeAgo(ago(60 * 24), { lang: "en", now })).toBe("1 day ago");
+    expect(formatTimeAgo(ago(60 * 24 * 3), { lang: "om", now })).toBe(
+      "Guyyaa 3 dura",
+    );
+  });
+
+  test("formatDate can show the Ethiopian calendar", () => {
+    // Ethiopian Christmas: Tahsas 29, 2017 EC.
+    const genna = new Date(2025, 0, 7);
+    expect(formatDate(genna, { lang: "en", calendar: "ethiopian" })).toBe(
+      "Tahsas 29, 2017 EC",
+    );
+    expect(formatDate(genna, { lang: "am", calendar: "ethiopian" })).toBe(
+      "ታኅሣሥ 29, 2017 ዓ.ም.",
+    );
+  });
+});
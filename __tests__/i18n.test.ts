@@ -1,7 +1,25 @@
 /**
  * Tests for utils/i18n.ts — translation utility.
  */
-import { t, setLang, getLang, loadLang as _loadLang } from "../utils/i18n";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  t,
+  setLang,
+  getLang,
+  loadLang as _loadLang,
+  translationTables,
+} from "../utils/i18n";
+import {
+  buildI18nReport,
+  computeCoverage,
+  findHardcodedStrings,
+  findUnusedKeys,
+  formatI18nReport,
+  MIN_COVERAGE,
+  MIN_SCREEN_COVERAGE,
+  type SourceFile,
+} from "../utils/i18n-coverage";
 
 describe("i18n translation utility", () => {
   beforeEach(() => {
@@ -79,3 +97,111 @@ describe("i18n translation utility", () => {
     await setLang("en");
   });
 });
+
+describe("i18n completeness checker", () => {
+  test("computeCoverage counts missing and copied-from-English entries", () => {
+    const coverage = computeCoverage(
+      {
+        hello: { en: "Hello there", am: "ሰላም", om: "Akkam" },
+        save: { en: "Save changes", am: "ለውጦችን አስቀምጥ", om: "Save changes" },
+        later: { en: "Try again later", am: "" },
+        code: { en: "SOS" },
+      },
+      "om",
+    );
+    expect(coverage.total).toBe(3);
+    expect(coverage.translated).toBe(1);
+    expect(coverage.missing).toEqual(["later"]);
+    expect(coverage.copiedFromEnglish).toEqual(["save"]);
+  });
+
+  test("findUnusedKeys skips keys used via t() or by their English text", () => {
+    const sources: SourceFile[] = [
+      {
+        path: "app/a.tsx",
+        text: 'const a = t("used_key");\n<ThemedText>Shown literally</ThemedText>',
+      },
+    ];
+    const unused = findUnusedKeys(
+      {
+        used_key: { en: "Used" },
+        by_text: { en: "Shown literally" },
+        stale_key: { en: "Nobody shows this" },
+      },
+      { "Old literal": { en: "Old literal" } },
+      sources,
+    );
+    expect(unused).toEqual({ keys: ["stale_key"], literals: ["Old literal"] });
+  });
+
+  test("findHardcodedStrings reports unknown JSX text and UI props", () => {
+    const source: SourceFile = {
+      path: "app/screen.tsx",
+      text: [
+        "<View>",
+        "  <ThemedText>Known title</ThemedText>",
+        "  <ThemedText>Not in any table</ThemedText>",
+        '  <TextInput placeholder="Type your name" />',
+        '  <Pressable accessibilityLabel={translateText("Close panel")} />',
+        "  {/* i18n-ignore */}",
+        "  <ThemedText>Brand Name</ThemedText>",
+        "  <ThemedText>{count > 1 && items.length}</ThemedText>",
+        "</View>",
+      ].join("\n"),
+    };
+    const found = findHardcodedStrings(source, new Set(["Known title"]));
+    expect(found.map((item) => [item.line, item.text])).toEqual([
+      [3, "Not in any table"],
+      [4, "Type your name"],
+      [5, "Close panel"],
+    ]);
+  });
+
+  describe("project translations", () => {
+    const root = path.join(__dirname, "..");
+    const read = (file: string): SourceFile => ({
+      path: path.relative(root, file),
+      text: fs.readFileSync(file, "utf8"),
+    });
+    const walk = (dir: string): string[] =>
+      fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) return walk(full);
+        return /\.tsx?$/.test(entry.name) ? [full] : [];
+      });
+
+    const sources = ["app", "components", "hooks", "utils"]
+      .flatMap((dir) => walk(path.join(root, dir)))
+      .filter((file) => !file.endsWith(path.join("utils", "i18n.ts")))
+      .map(read);
+    const screens = fs
+      .readdirSync(path.join(root, "app"))
+      .filter((file) => file.endsWith(".tsx"))
+      .map((file) => read(path.join(root, "app", file)));
+    const report = buildI18nReport({ ...translationTables, sources, screens });
+
+    test.each(["am", "om"] as const)(
+      "%s table coverage stays above the threshold",
+      (lang) => {
+        const { ratio } = report.coverage[lang];
+        if (ratio < MIN_COVERAGE[lang]) {
+          throw new Error(
+            `${lang} coverage ${ratio.toFixed(3)} < ${MIN_COVERAGE[lang]}\n${formatI18nReport(report)}`,
+          );
+        }
+      },
+    );
+
+    test.each(["am", "om"] as const)(
+      "%s screen coverage stays above the threshold",
+      (lang) => {
+        const { ratio } = report.screenCoverage[lang];
+        if (ratio < MIN_SCREEN_COVERAGE[lang]) {
+          throw new Error(
+            `${lang} screen coverage ${ratio.toFixed(3)} < ${MIN_SCREEN_COVERAGE[lang]}\n${formatI18nReport(report)}`,
+          );
+        }
+      },
+    );
+  });
+});
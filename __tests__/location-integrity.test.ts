@@ -0,0 +1,117 @@
+/**
+ * Tests for utils/location-integrity.ts — rejecting impossible jumps and
+ * scoring mocked, stale and imprecise fixes.
+ */
+import {
+  assessLocationFix,
+  checkLocationFix,
+  isLowConfidence,
+  resetLocationIntegrity,
+} from "../utils/location-integrity";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+
+const NOW = 1800000000000;
+
+/** ~1.11 km per 0.01° of latitude. */
+const fix = (seconds: number, latitude = 9.0, extra = {}) => ({
+  latitude,
+  longitude: 38.7,
+  accuracy: 10,
+  timestamp: NOW + seconds * 1000,
+  ...extra,
+});
+
+beforeEach(() => {
+  resetLocationIntegrity();
+});
+
+describe("assessLocationFix", () => {
+  test("trusts a fresh, precise fix", () => {
+    expect(assessLocationFix(fix(0), null, NOW)).toEqual({
+      confidence: 1,
+      flags: [],
+      rejected: false,
+    });
+  });
+
+  test("rejects a jump faster than any ambulance", () => {
+    // 1.1 km in 10 s is ~400 km/h.
+    const integrity = assessLocationFix(fix(10, 9.01), fix(0), NOW + 10000);
+    expect(integrity).toEqual({
+      confidence: 0,
+      flags: ["impossible_jump"],
+      rejected: true,
+    });
+    // The same distance in two minutes is a plausible drive.
+    expect(
+      assessLocationFix(fix(120, 9.01), fix(0), NOW + 120000).rejected,
+    ).toBe(false);
+  });
+
+  test("allows for both fixes' accuracy before measuring", () => {
+    const coarse = { accuracy: 80 };
+    expect(
+      assessLocationFix(fix(1, 9.001, coarse), fix(0, 9.0, coarse), NOW + 1000)
+        .rejected,
+    ).toBe(false);
+  });
+
+  test("scores mocked, stale and imprecise fixes", () => {
+    const mocked = assessLocationFix(fix(0, 9, { mocked: true }), null, NOW);
+    expect(mocked.flags).toEqual(["mocked"]);
+    expect(isLowConfidence(mocked.confidence)).toBe(true);
+
+    const stale = assessLocationFix(fix(0), null, NOW + 90000);
+    const veryStale = assessLocationFix(fix(0), null, NOW + 600000);
+    expect(stale.flags).toEqual(["stale"]);
+    expect(veryStale.confidence).toBeLessThan(stale.confidence);
+
+    const imprecise = assessLocationFix(
+      fix(0, 9, { accuracy: 300 }),
+      null,
+      NOW,
+    );
+    expect(imprecise.flags).toEqual(["low_accuracy"]);
+    expect(isLowConfidence(imprecise.confidence)).toBe(false);
+
+    expect(isLowConfidence(null)).toBe(false);
+  });
+});
+
+describe("checkLocationFix", () => {
+  test("keeps the last accepted fix as the reference", () => {
+    expect(checkLocationFix("amb", fix(0), NOW).rejected).toBe(false);
+    expect(checkLocationFix("amb", fix(10, 9.5), NOW + 10000).rejected).toBe(
+      true,
+    );
+    // Compared with the accepted fix, not the rejected one.
+    expect(checkLocationFix("amb", fix(20, 9.001), NOW + 20000).rejected).toBe(
+      false,
+    );
+    // Streams are independent.
+    expect(
+      checkLocationFix("patient", fix(20, 9.5), NOW + 20000).rejected,
+    ).toBe(false);
+  });
+
+  test("accepts a repeated jump as a new, low-confidence start", () => {
+    checkLocationFix("amb", fix(0), NOW);
+    checkLocationFix("amb", fix(10, 9.5), NOW + 10000);
+    checkLocationFix("amb", fix(20, 9.5), NOW + 20000);
+
+    const third = checkLocationFix("amb", fix(30, 9.5), NOW + 30000);
+
+    expect(third.rejected).toBe(false);
+    expect(third.flags).toContain("impossible_jump");
+    expect(isLowConfidence(third.confidence)).toBe(true);
+    expect(checkLocationFix("amb", fix(40, 9.501), NOW + 40000)).toMatchObject({
+      confidence: 1,
+      rejected: false,
+    });
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Tests for utils/offline-queue.ts — reconciling queued emergencies with
+ * each other and with the patient's active emergency on the server.
+ */
+import {
+  clearQueue,
+  enqueue,
+  findActiveConflict,
+  findQueuedDuplicates,
+  flushQueue,
+  getQueue,
+  markQueuedSentViaSms,
+  mergeDescriptions,
+  type QueuedEmergency,
+} from "../utils/offline-queue";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+}));
+
+const minutesAgo = (m: number) =>
+  new Date(Date.now() - m * 60000).toISOString();
+
+const queued = (overrides: Partial<QueuedEmergency> = {}): QueuedEmergency => ({
+  id: "q-1",
+  patientId: "patient-1",
+  latitude: 9.02,
+  longitude: 38.75,
+  emergencyType: "accident",
+  description: "Car crash",
+  queuedAt: minutesAgo(0),
+  ...overrides,
+});
+
+const activeEmergency = (overrides: Record<string, unknown> = {}) => ({
+  id: "em-1",
+  status: "assigned",
+  latitude: 9.021,
+  longitude: 38.751,
+  created_at: minutesAgo(5),
+  description: "Called by phone",
+  ...overrides,
+});
+
+describe("Conflict detection", () => {
+  test("flags a queued item near the active emergency", () => {
+    const conflict = findActiveConflict(queued(), activeEmergency());
+    expect(conflict).not.toBeNull();
+    expect(conflict!.active!.id).toBe("em-1");
+    expect(conflict!.minutesApart).toBe(5);
+    expect(conflict!.distanceKm).toBeLessThan(1);
+  });
+
+  test("ignores an active emergency that is far away", () => {
+    const conflict = findActiveConflict(
+      queued(),
+      activeEmergency({ latitude: 8.5, longitude: 39.27 }),
+    );
+    expect(conflict).toBeNull();
+  });
+
+  test("ignores an active emergency outside the time window", () => {
+    const conflict = findActiveConflict(
+      queued(),
+      activeEmergency({ created_at: minutesAgo(90) }),
+    );
+    expect(conflict).toBeNull();
+  });
+
+  test("ignores finished emergencies", () => {
+    expect(
+      findActiveConflict(queued(), activeEmergency({ status: "completed" })),
+    ).toBeNull();
+    expect(findActiveConflict(queued(), null)).toBeNull();
+  });
+
+  test("reports later queued duplicates of the same patient only", () => {
+    const first = queued({ id: "a", queuedAt: minutesAgo(10) });
+    const second = queued({ id: "b", queuedAt: minutesAgo(8) });
+    const otherPatient = queued({
+      id: "c",
+      patientId: "patient-2",
+      queuedAt: minutesAgo(7),
+    });
+
+    const conflicts = findQueuedDuplicates([second, otherPatient, first]);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].item.id).toBe("b");
+    expect(conflicts[0].duplicateOf!.id).toBe("a");
+  });
+
+  test("mergeDescriptions joins text without repeating it", () => {
+    expect(mergeDescriptions("Car crash", "Two injured")).toBe(
+      "Car crash - Two injured",
+    );
+    expect(mergeDescriptions("Car crash", "Car crash")).toBe("Car crash");
+    expect(mergeDescriptions(null, "Two injured")).toBe("Two injured");
+    expect(mergeDescriptions("", "")).toBeUndefined();
+  });
+});
+
+describe("flushQueue reconciliation", () => {
+  const create = jest.fn();
+
+  beforeEach(async () => {
+    await clearQueue();
+    create.mockReset();
+    create.mockResolvedValue({ emergency: { id: "new-1" }, error: null });
+  });
+
+  test("collapses queued duplicates into one dispatch", async () => {
+    await enqueue({
+      patientId: "patient-1",
+      latitude: 9.02,
+      longitude: 38.75,
+      description: "Chest pain",
+    });
+    await enqueue({
+      patientId: "patient-1",
+      latitude: 9.0201,
+      longitude: 38.7501,
+      description: "Now unconscious",
+    });
+
+    const flushed = await flushQueue(create);
+    expect(flushed).toBe(1);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create.mock.calls[0][4]).toBe("Chest pain - Now unconscious");
+    await expect(getQueue()).resolves.toEqual([]);
+  });
+
+  test("merge folds the queued item into the active emergency", async () => {
+    await enqueue({ patientId: "patient-1", latitude: 9.02, longitude: 38.75 });
+    const mergeIntoEmergency = jest.fn().mockResolvedValue(true);
+    const resolveConflict = jest.fn().mockResolvedValue("merge");
+
+    const flushed = await flushQueue(create, {
+      getActiveEmergency: async () => ({
+        emergency: activeEmergency(),
+        error: null,
+      }),
+      resolveConflict,
+      mergeIntoEmergency,
+    });
+
+    expect(flushed).toBe(0);
+    expect(create).not.toHaveBeenCalled();
+    expect(resolveConflict).toHaveBeenCalledTimes(1);
+    expect(mergeIntoEmergency.mock.calls[0][0]).toBe("em-1");
+    await expect(getQueue()).resolves.toEqual([]);
+  });
+
+  test("a failed merge keeps the item queued", async () => {
+    await enqueue({ patientId: "patient-1", latitude: 9.02, longitude: 38.75 });
+
+    await flushQueue(create, {
+      getActiveEmergency: async () => ({
+        emergency: activeEmergency(),
+        error: null,
+      }),
+      mergeIntoEmergency: async () => false,
+    });
+
+    expect(create).not.toHaveBeenCalled();
+    await expect(getQueue()).resolves.toHaveLength(1);
+  });
+
+  test("a merge without a merger keeps the item queued", async () => {
+    await enqueue({ patientId: "patient-1", latitude: 9.02, longitude: 38.75 });
+
+    await flushQueue(create, {
+      getActiveEmergency: async () => ({
+        emergency: activeEmergency(),
+        error: null,
+      }),
+    });
+
+    expect(create).not.toHaveBeenCalled();
+    await expect(getQueue()).resolves.toHaveLength(1);
+  });
+
+  test("discard drops the queued item without dispatching", async () => {
+    await enqueue({ patientId: "patient-1", latitude: 9.02, longitude: 38.75 });
+
+    await flushQueue(create, {
+      getActiveEmergency: async () => ({
+        emergency: activeEmergency(),
+        error: null,
+      }),
+      resolveConflict: async () => "discard",
+    });
+
+    expect(create).not.toHaveBeenCalled();
+    await expect(getQueue()).resolves.toEqual([]);
+  });
+
+  test("send dispatches a separate emergency anyway", async () => {
+    await enqueue({ patientId: "patient-1", latitude: 9.02, longitude: 38.75 });
+
+    const flushed = await flushQueue(create, {
+      getActiveEmergency: async () => ({
+        emergency: activeEmergency(),
+        error: null,
+      }),
+      resolveConflict: async () => "send",
+    });
+
+    expect(flushed).toBe(1);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  test("a duplicate sent anyway is not asked about again", async () => {
+    create.mockResolvedValue({
+      emergency: activeEmergency({ id: "new-1", created_at: minutesAgo(0) }),
+      error: null,
+    });
+    await enqueue({ patientId: "patient-1", latitude: 9.02, longitude: 38.75 });
+    await enqueue({ patientId: "patient-1", latitude: 9.02, longitude: 38.75 });
+    const resolveConflict = jest.fn().mockResolvedValue("send");
+
+    const flushed = await flushQueue(create, {
+      getActiveEmergency: async () => ({ emergency: null, error: null }),
+      resolveConflict,
+    });
+
+    expect(flushed).toBe(2);
+    expect(resolveConflict).toHaveBeenCalledTimes(1);
+    await expect(getQueue()).resolves.toEqual([]);
+  });
+
+  test("an SMS-sent item merges into the active emergency without asking", async () => {
+    const item = await enqueue({
+      patientId: "patient-1",
+      latitude: 9.02,
+      longitude: 38.75,
+    });
+    await markQueuedSentViaSms(item.id);
+    const resolveConflict = jest.fn().mockResolvedValue("send");
+    const mergeIntoEmergency = jest.fn().mockResolvedValue(true);
+
+    await flushQueue(create, {
+      getActiveEmergency: async () => ({
+        emergency: activeEmergency({ created_at: minutesAgo(1) }),
+        error: null,
+      }),
+      resolveConflict,
+      mergeIntoEmergency,
+    });
+
+    expect(resolveConflict).not.toHaveBeenCalled();
+    expect(create).not.toHaveBeenCalled();
+    expect(mergeIntoEmergency).toHaveBeenCalledWith("em-1", expect.anything());
+    await expect(getQueue()).resolves.toEqual([]);
+  });
+
+  test("an SMS-sent item is never replayed without an active lookup", async () => {
+    const item = await enqueue({
+      patientId: "patient-1",
+      latitude: 9.02,
+      longitude: 38.75,
+    });
+    await markQueuedSentViaSms(item.id);
+
+    await flushQueue(create);
+
+    expect(create).not.toHaveBeenCalled();
+    await expect(getQueue()).resolves.toHaveLength(1);
+  });
+
+  test("keeps the queue when the active lookup fails", async () => {
+    await enqueue({ patientId: "patient-1", latitude: 9.02, longitude: 38.75 });
+
+    const flushed = await flushQueue(create, {
+      getActiveEmergency: async () => ({
+        emergency: null,
+        error: new Error("Network request failed"),
+      }),
+    });
+
+    expect(flushed).toBe(0);
+    expect(create).not.toHaveBeenCalled();
+    await expect(getQueue()).resolves.toHaveLength(1);
+  });
+});
@@ -8,8 +8,19 @@ import {
   clearQueue,
   flushQueue,
   createOrQueueEmergency,
+  clearOutbox,
+  enqueueOutbox,
+  flushOutbox,
+  getDeadLetters,
+  getOutbox,
+  requeueDeadLetter,
 } from "../utils/offline-queue";
 
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+}));
+
 describe("Offline emergency queue", () => {
   beforeEach(async () => {
     await clearQueue();
@@ -143,3 +154,168 @@ describe("Offline emergency queue", () => {
     expect(result.error!.message).toContain("Invalid patient ID");
   });
 });
+
+describe("Offline mutation outbox", () => {
+  beforeEach(async () => {
+    await clearOutbox();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const accepting = () =>
+    jest.fn(async (items: { idempotencyKey?: string }[]) => ({
+      accepted: items.length,
+      rejected: 0,
+      results: items.map((item) => ({
+        idempotency_key: item.idempotencyKey ?? null,
+        status: "accepted" as const,
+        reason: null,
+      })),
+    }));
+
+  test("enqueueOutbox persists items with an idempotency key", async () => {
+    const item = await enqueueOutbox("status_update", {
+      emergency_id: "e1",
+      status: "en_route",
+    });
+    expect(item.id).toMatch(/^status_update_/);
+    expect(item.attempts).toBe(0);
+    await expect(getOutbox()).resolves.toHaveLength(1);
+  });
+
+  test("re-enqueueing the same idempotency key is a no-op", async () => {
+    await enqueueOutbox("medical_note", { emergency_id: "e1" }, "note-1");
+    await enqueueOutbox("medical_note", { emergency_id: "e1" }, "note-1");
+    await expect(getOutbox()).resolves.toHaveLength(1);
+  });
+
+  test("flushOutbox sends items in order with their keys", async () => {
+    await enqueueOutbox("status_update", { status: "en_route" }, "k1");
+    await enqueueOutbox("location_ping", { latitude: 9 }, "k2");
+    const sync = accepting();
+
+    const result = await flushOutbox(sync);
+
+    expect(result.sent).toBe(2);
+    expect(sync).toHaveBeenCalledTimes(1);
+    expect(sync.mock.calls[0][0].map((i) => i.idempotencyKey)).toEqual([
+      "k1",
+      "k2",
+    ]);
+    await expect(getOutbox()).resolves.toEqual([]);
+  });
+
+  test("flushOutbox sends large queues in batches", async () => {
+    for (let i = 0; i < 30; i++) {
+      await enqueueOutbox("location_ping", { latitude: i }, `p${i}`);
+    }
+    const sync = accepting();
+
+    const result = await flushOutbox(sync);
+
+    expect(result.sent).toBe(30);
+    expect(sync).toHaveBeenCalledTimes(2);
+  });
+
+  test("network failure keeps items and schedules a backoff", async () => {
+    await enqueueOutbox("status_update", { status: "at_scene" }, "k1");
+    const sync = jest.fn().mockRejectedValue(new Error("Network request failed"));
+
+    const result = await flushOutbox(sync);
+
+    expect(result.failed).toBe(1);
+    const [item] = await getOutbox();
+    expect(item.attempts).toBe(1);
+    expect(item.lastError).toContain("Network");
+    expect(item.nextAttemptAt).toBeGreaterThan(Date.now());
+
+    // Not due yet, so a second flush does not call the backend.
+    await flushOutbox(sync);
+    expect(sync).toHaveBeenCalledTimes(1);
+  });
+
+  test("only rejected items are retried", async () => {
+    await enqueueOutbox("status_update", { status: "en_route" }, "ok");
+    await enqueueOutbox("status_update", { status: "bogus" }, "bad");
+    const sync = jest.fn().mockResolvedValue({
+      accepted: 1,
+      rejected: 1,
+      results: [
+        { idempotency_key: "ok", status: "accepted", reason: null },
+        { idempotency_key: "bad", status: "rejected", reason: "Invalid status" },
+      ],
+    });
+
+    const result = await flushOutbox(sync);
+
+    expect(result.sent).toBe(1);
+    const remaining = await getOutbox();
+    expect(remaining.map((i) => i.id)).toEqual(["bad"]);
+    expect(remaining[0].lastError).toBe("Invalid status");
+  });
+
+  test("a rejected status update holds back later ones for that emergency", async () => {
+    await enqueueOutbox(
+      "status_update",
+      { emergency_id: "e1", status: "at_scene" },
+      "s1",
+    );
+    await enqueueOutbox(
+      "status_update",
+      { emergency_id: "e1", status: "transporting" },
+      "s2",
+    );
+    await enqueueOutbox(
+      "status_update",
+      { emergency_id: "e2", status: "en_route" },
+      "s3",
+    );
+    const sync = jest.fn().mockResolvedValue({
+      accepted: 1,
+      rejected: 1,
+      results: [
+        {
+          idempotency_key: "s1",
+          status: "rejected",
+          reason: "Invalid transition",
+        },
+        { idempotency_key: "s3", status: "accepted", reason: null },
+      ],
+    });
+
+    await flushOutbox(sync);
+
+    expect(sync).toHaveBeenCalledTimes(1);
+    expect(sync).toHaveBeenCalledWith([
+      expect.objectContaining({ idempotencyKey: "s1" }),
+      expect.objectContaining({ idempotencyKey: "s3" }),
+    ]);
+    const remaining = await getOutbox();
+    expect(remaining.map((i) => i.id)).toEqual(["s1", "s2"]);
+  });
+
+  test("items move to the dead-letter list after max attempts", async () => {
+    await enqueueOutbox("status_update", { status: "en_route" }, "k1");
+    const sync = jest.fn().mockRejectedValue(new Error("timeout"));
+    const nowSpy = jest.spyOn(Date, "now");
+    let clock = Date.now();
+
+    for (let i = 0; i < 8; i++) {
+      clock += 10 * 60 * 1000;
+      nowSpy.mockReturnValue(clock);
+      await flushOutbox(sync);
+    }
+
+    await expect(getOutbox()).resolves.toEqual([]);
+    const dead = await getDeadLetters();
+    expect(dead).toHaveLength(1);
+    expect(dead[0].attempts).toBe(8);
+
+    await expect(requeueDeadLetter("k1")).resolves.toBe(true);
+    await expect(getDeadLetters()).resolves.toEqual([]);
+    const [requeued] = await getOutbox();
+    expect(requeued.attempts).toBe(0);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for utils/red-flags.ts — red-flag detection in chat messages and
+ * the ambulance request it prefills.
+ */
+import type { Message } from "../utils/first-aid-chatbot";
+import {
+  buildRedFlagEscalation,
+  detectRedFlags,
+  getPendingRedFlagEscalation,
+  requestRedFlagAmbulance,
+} from "../utils/red-flags";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+
+const { backendPost } = jest.requireMock("../utils/api") as {
+  backendPost: jest.Mock;
+};
+
+const user = (text: string): Message => ({ role: "user", text });
+const bot = (text: string): Message => ({ role: "bot", text });
+
+beforeEach(() => {
+  backendPost.mockReset();
+});
+
+describe("detectRedFlags", () => {
+  it.each([
+    ["My father is not breathing", ["not_breathing"]],
+    ["ልጄ ራሱን ሳተ", ["unconscious"]],
+    ["dhiigni hin dhaabbatu", ["heavy_bleeding"]],
+    ["Her face is drooping and she has slurred speech", ["stroke"]],
+    ["crushing chest pain for 20 minutes", ["chest_pain"]],
+    ["ምጥ ጀምሯታል", ["labour"]],
+    ["ደረቴን ያመኛል", ["chest_pain"]],
+  ])("flags %j", (text, flags) => {
+    expect(detectRedFlags(text)).toEqual(flags);
+  });
+
+  it("ignores ordinary first-aid questions", () => {
+    expect(detectRedFlags("How do I treat a small cut?")).toEqual([]);
+    expect(detectRedFlags("what about heatstroke prevention")).toEqual([]);
+    // "brought medicine" and "my chest itches".
+    expect(detectRedFlags("መድሃኒት አምጥቶልኛል")).toEqual([]);
+    expect(detectRedFlags("ደረቴን ያሳክከኛል")).toEqual([]);
+  });
+});
+
+describe("buildRedFlagEscalation", () => {
+  it("prefills the emergency and triage flags from the whole conversation", () => {
+    const escalation = buildRedFlagEscalation([
+      user("my husband has chest pain"),
+      bot("Sit him down and keep him calm."),
+      user("now he collapsed and is unresponsive"),
+    ]);
+
+    expect(escalation).toMatchObject({
+      flags: ["unconscious", "chest_pain"],
+      emergencyType: "unconscious",
+      triage: { severity: "critical", conscious: false, chestPain: true },
+    });
+    expect(escalation?.description).toBe(
+      'First aid chat red flags: unconscious, chest pain. Reported: "my husband has chest pain" / "now he collapsed and is unresponsive"',
+    );
+  });
+
+  it("returns null without a red flag", () => {
+    expect(buildRedFlagEscalation([user("I have a headache")])).toBeNull();
+  });
+});
+
+describe("getPendingRedFlagEscalation", () => {
+  it("only prompts for the latest user message", () => {
+    const messages = [user("she is in labour"), bot("Call 911.")];
+    expect(getPendingRedFlagEscalation(messages)).toMatchObject({
+      flags: ["labour"],
+      emergencyType: "maternity",
+      messageIndex: 0,
+    });
+    expect(
+      getPendingRedFlagEscalation([...messages, user("thanks, all good")]),
+    ).toBeNull();
+  });
+});
+
+describe("requestRedFlagAmbulance", () => {
+  it("creates the emergency and runs triage with the prefilled flags", async () => {
+    backendPost.mockResolvedValue({
+      priority: "P1",
+      score: 95,
+      recommendation: "Immediate dispatch",
+      explainability: [],
+    });
+    const createEmergency = jest.fn(async () => ({
+      emergency: { id: "e1", status: "pending" },
+      error: null,
+    }));
+    const escalation = buildRedFlagEscalation([user("I think it's a stroke")])!;
+
+    const result = await requestRedFlagAmbulance(escalation, {
+      createEmergency,
+      patientId: "p1",
+      latitude: 9.03,
+      longitude: 38.74,
+    });
+
+    expect(createEmergency).toHaveBeenCalledWith(
+      "p1",
+      9.03,
+      38.74,
+      "stroke",
+      escalation.description,
+    );
+    expect(backendPost).toHaveBeenCalledWith(
+      "/ops/triage/explainable",
+      expect.objectContaining({ severity: "critical", stroke_symptoms: true }),
+    );
+    expect(result).toMatchObject({
+      queued: false,
+      emergency: { id: "e1" },
+      triage: { priority: "P1" },
+    });
+  });
+
+  it("still requests the ambulance when triage fails", async () => {
+    backendPost.mockRejectedValue(new Error("Service unavailable"));
+    const createEmergency = jest.fn(async () => ({
+      emergency: { id: "e2" },
+      error: null,
+    }));
+    const result = await requestRedFlagAmbulance(
+      buildRedFlagEscalation([user("not breathing")])!,
+      { createEmergency, patientId: "p1", latitude: 0, longitude: 0 },
+    );
+    expect(result).toMatchObject({ emergency: { id: "e2" }, triage: null });
+  });
+});
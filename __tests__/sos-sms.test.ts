@@ -0,0 +1,52 @@
+/**
+ * Tests for utils/sos-sms.ts — SOS SMS encoding and validation.
+ */
+import {
+  encodeSosSms,
+  parseFormattedCoords,
+  parseSosSms,
+  sosSmsChecksum,
+} from "../utils/sos-sms";
+
+const payload = {
+  patientId: "5f0c6a1e-8d2b-4c1e-9a77-0b1c2d3e4f50",
+  latitude: 9.0227,
+  longitude: 38.7469,
+  emergencyType: "accident",
+};
+const coords = "9.0227° N, 38.7469° E";
+
+describe("SOS SMS codec", () => {
+  test("round-trips a message", () => {
+    const body = encodeSosSms(payload, coords);
+    expect(body).toBe(
+      `ERD1;P=${payload.patientId};L=${coords};T=accident;K=${sosSmsChecksum(payload)}`,
+    );
+    expect(parseSosSms(body)).toEqual({ payload, error: null });
+  });
+
+  test("tolerates a gateway dropping the degree sign", () => {
+    const body = encodeSosSms(payload, coords).replace(/°/g, "");
+    expect(parseSosSms(body).payload).toEqual(payload);
+  });
+
+  test("rejects a tampered message", () => {
+    const body = encodeSosSms(payload, coords).replace("T=accident", "T=cardiac");
+    expect(parseSosSms(body).error?.message).toBe("SOS checksum mismatch");
+  });
+
+  test("rejects unrelated or incomplete messages", () => {
+    expect(parseSosSms("hello").error?.message).toBe("Not an SOS message");
+    expect(parseSosSms("ERD1;P=abc").error?.message).toBe(
+      "SOS message is incomplete",
+    );
+  });
+
+  test("parses southern and western coordinates", () => {
+    expect(parseFormattedCoords("1.5000° S, 0.2500° W")).toEqual({
+      latitude: -1.5,
+      longitude: -0.25,
+    });
+    expect(parseFormattedCoords("95.0000° N, 10.0000° E")).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for utils/sse.ts — the incremental server-sent events parser.
+ */
+import { createSseParser, type ServerSentEvent } from "../utils/sse";
+
+const collect = () => {
+  const events: ServerSentEvent[] = [];
+  const parser = createSseParser((event) => events.push(event));
+  return { events, parser };
+};
+
+describe("createSseParser", () => {
+  it("dispatches named events on a blank line", () => {
+    const { events, parser } = collect();
+    parser.push('event: delta\ndata: {"text":"Hi"}\n\n');
+    expect(events).toEqual([{ event: "delta", data: '{"text":"Hi"}' }]);
+  });
+
+  it("reassembles events split across chunks", () => {
+    const { events, parser } = collect();
+    parser.push("event: del");
+    parser.push('ta\ndata: {"te');
+    expect(events).toHaveLength(0);
+    parser.push('xt":"Hi"}\n');
+    parser.push("\nevent: done\ndata: {}\n\n");
+    expect(events).toEqual([
+      { event: "delta", data: '{"text":"Hi"}' },
+      { event: "done", data: "{}" },
+    ]);
+  });
+
+  it("joins data lines, handles CRLF and skips comments", () => {
+    const { events, parser } = collect();
+    parser.push(": keep-alive\r\ndata: one\r\ndata:two\r\n\r\n");
+    expect(events).toEqual([{ event: "message", data: "one\ntwo" }]);
+  });
+
+  it("flushes a final event without a trailing blank line", () => {
+    const { events, parser } = collect();
+    parser.push("event: done\ndata: {}");
+    expect(events).toHaveLength(0);
+    parser.flush();
+    expect(events).toEqual([{ event: "done", data: "{}" }]);
+  });
+
+  it("ignores events without data", () => {
+    const { events, parser } = collect();
+    parser.push("event: ping\n\n");
+    parser.flush();
+    expect(events).toHaveLength(0);
+  });
+});
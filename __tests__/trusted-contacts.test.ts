@@ -0,0 +1,300 @@
+/**
+ * Tests for utils/trusted-contacts.ts — validating contacts and alerting
+ * them by push or SMS when an emergency is created or updated.
+ */
+import { notifyEmergencyCreated } from "../utils/emergency-lifecycle";
+import {
+  buildContactAlertMessage,
+  contactAlertEventForStatus,
+  contactsFromMedicalProfile,
+  getContactAlertLog,
+  notifyTrustedContacts,
+  saveTrustedContacts,
+  startTrustedContactAlerts,
+  validateTrustedContact,
+} from "../utils/trusted-contacts";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+
+jest.mock("../utils/patient", () => ({
+  createFamilyShareLink: jest.fn(),
+}));
+
+jest.mock("../utils/profile", () => ({
+  getUserProfile: jest.fn(),
+}));
+
+const { backendGet, backendPost, backendPut } = jest.requireMock(
+  "../utils/api",
+) as Record<"backendGet" | "backendPost" | "backendPut", jest.Mock>;
+const { createFamilyShareLink } = jest.requireMock("../utils/patient") as {
+  createFamilyShareLink: jest.Mock;
+};
+const { getUserProfile } = jest.requireMock("../utils/profile") as {
+  getUserProfile: jest.Mock;
+};
+const reactNative = jest.requireMock("react-native") as Record<string, any>;
+
+const openURL = jest.fn();
+const SHARE_URL = "https://erdataye.app/track/abc";
+
+const CONTACTS = [
+  {
+    id: "c1",
+    name: "Almaz",
+    phone: "0911000001",
+    relationship: "parent",
+    channel: "sms",
+  },
+  {
+    id: "c2",
+    name: "Bekele",
+    phone: "0911000002",
+    relationship: "spouse",
+    channel: "push",
+  },
+  {
+    id: "c3",
+    name: "Chaltu",
+    phone: "0911000003",
+    relationship: "friend",
+    channel: "push",
+  },
+];
+
+let emergencySeq = 0;
+const nextEmergencyId = () => `e${++emergencySeq}`;
+
+const smsUrl = () => decodeURIComponent(openURL.mock.calls[0][0]);
+
+beforeAll(() => {
+  reactNative.Linking = { openURL };
+});
+
+beforeEach(() => {
+  backendGet.mockReset().mockResolvedValue(CONTACTS);
+  backendPut.mockReset().mockResolvedValue({});
+  backendPost.mockReset().mockImplementation(async (_path, body) => ({
+    emergency_id: body.emergency_id,
+    results: [
+      { contact_id: "c2", status: "sent" },
+      { contact_id: "c3", status: "not_on_app" },
+    ],
+  }));
+  createFamilyShareLink.mockReset().mockResolvedValue({
+    shareToken: "abc",
+    shareUrl: SHARE_URL,
+    expiresAt: "2026-01-01T00:00:00Z",
+    error: null,
+  });
+  getUserProfile
+    .mockReset()
+    .mockResolvedValue({ profile: { full_name: "Abebe" }, error: null });
+  openURL.mockReset().mockResolvedValue(true);
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("contacts", () => {
+  test("validates the name and Ethiopian phone", () => {
+    const contact = CONTACTS[0] as any;
+    expect(validateTrustedContact(contact)).toBeNull();
+    expect(
+      validateTrustedContact({ ...contact, phone: "+251 911 000001" }),
+    ).toBeNull();
+    expect(validateTrustedContact({ ...contact, name: " A " })).toMatch(/name/);
+    expect(validateTrustedContact({ ...contact, phone: "12345" })).toMatch(
+      /phone/,
+    );
+  });
+
+  test("starts from the medical profile's emergency contact", () => {
+    expect(
+      contactsFromMedicalProfile({
+        emergency_contact_name: "Almaz",
+        emergency_contact_phone: "0911000001",
+      }),
+    ).toEqual([
+      {
+        name: "Almaz",
+        phone: "0911000001",
+        relationship: "other",
+        channel: "sms",
+      },
+    ]);
+    expect(contactsFromMedicalProfile(null)).toEqual([]);
+  });
+
+  test("saves normalised contacts in order", async () => {
+    const { success } = await saveTrustedContacts("p1", [
+      { ...(CONTACTS[1] as any), phone: "911 000 002" },
+    ]);
+    expect(success).toBe(true);
+    expect(backendPut).toHaveBeenCalledWith("/profiles/trusted-contacts", {
+      contacts: [
+        {
+          name: "Bekele",
+          phone: "0911000002",
+          relationship: "spouse",
+          channel: "push",
+        },
+      ],
+    });
+  });
+
+  test("rejects an invalid contact without saving", async () => {
+    const { success, error } = await saveTrustedContacts("p1", [
+      { ...(CONTACTS[0] as any), phone: "" },
+    ]);
+    expect(success).toBe(false);
+    expect(error?.message).toMatch(/phone/);
+    expect(backendPut).not.toHaveBeenCalled();
+  });
+});
+
+describe("alert messages", () => {
+  test("maps status updates to alerts", () => {
+    expect(contactAlertEventForStatus("assigned")).toBe("ambulance_assigned");
+    expect(contactAlertEventForStatus("at_hospital")).toBe("at_hospital");
+    expect(contactAlertEventForStatus("en_route")).toBeNull();
+  });
+
+  test("combines creation and assignment into one message", () => {
+    expect(
+      buildContactAlertMessage(["emergency_created", "ambulance_assigned"], {
+        name: "Abebe",
+        shareUrl: SHARE_URL,
+      }),
+    ).toBe(
+      `Abebe has requested an emergency ambulance and one is on its way. Follow live: ${SHARE_URL}`,
+    );
+    expect(buildContactAlertMessage(["at_hospital"], {})).toBe(
+      "Your contact has arrived at the hospital.",
+    );
+  });
+});
+
+describe("notifyTrustedContacts", () => {
+  test("pushes to app users and texts everyone else", async () => {
+    const emergencyId = nextEmergencyId();
+
+    const records = await notifyTrustedContacts(emergencyId, "p1", [
+      "emergency_created",
+    ]);
+
+    expect(backendPost).toHaveBeenCalledWith("/ops/family/notify", {
+      emergency_id: emergencyId,
+      events: ["emergency_created"],
+      language: "en",
+      share_token: "abc",
+    });
+    // Chaltu chose push but has no account, so she is texted with Almaz.
+    expect(openURL).toHaveBeenCalledTimes(1);
+    expect(smsUrl()).toBe(
+      `sms:0911000001,0911000003?body=Abebe has requested an emergency ambulance. Follow live: ${SHARE_URL}`,
+    );
+    expect(
+      records.map(({ contactKey, channel, status }) => [
+        contactKey,
+        channel,
+        status,
+      ]),
+    ).toEqual([
+      ["c1", "sms", "sms_opened"],
+      ["c2", "push", "sent"],
+      ["c3", "sms", "sms_opened"],
+    ]);
+    expect(await getContactAlertLog(emergencyId)).toEqual(records);
+  });
+
+  test("sends each event once per emergency", async () => {
+    const emergencyId = nextEmergencyId();
+
+    await Promise.all([
+      notifyTrustedContacts(emergencyId, "p1", ["ambulance_assigned"]),
+      notifyTrustedContacts(emergencyId, "p1", ["ambulance_assigned"]),
+    ]);
+    const again = await notifyTrustedContacts(emergencyId, "p1", [
+      "ambulance_assigned",
+    ]);
+
+    expect(again).toEqual([]);
+    expect(backendPost).toHaveBeenCalledTimes(1);
+    expect(openURL).toHaveBeenCalledTimes(1);
+  });
+
+  test("texts push contacts when the backend is unreachable", async () => {
+    backendPost.mockRejectedValue(new Error("offline"));
+
+    const records = await notifyTrustedContacts(nextEmergencyId(), "p1", [
+      "at_hospital",
+    ]);
+
+    expect(createFamilyShareLink).not.toHaveBeenCalled();
+    expect(smsUrl()).toBe(
+      "sms:0911000001,0911000002,0911000003?body=Abebe has arrived at the hospital.",
+    );
+    expect(records.every((record) => record.channel === "sms")).toBe(true);
+  });
+
+  test("logs a failure when the SMS composer cannot open", async () => {
+    backendGet.mockResolvedValue([CONTACTS[0]]);
+    openURL.mockRejectedValue(new Error("no sms app"));
+
+    const [record] = await notifyTrustedContacts(nextEmergencyId(), "p1", [
+      "emergency_created",
+    ]);
+
+    expect(record).toMatchObject({
+      contactKey: "c1",
+      status: "failed",
+      error: "no sms app",
+    });
+  });
+
+  test("does nothing without trusted contacts", async () => {
+    backendGet.mockResolvedValue([]);
+
+    const emergencyId = nextEmergencyId();
+    expect(
+      await notifyTrustedContacts(emergencyId, "p1", ["emergency_created"]),
+    ).toEqual([]);
+    expect(openURL).not.toHaveBeenCalled();
+    expect(await getContactAlertLog(emergencyId)).toEqual([]);
+  });
+});
+
+describe("startTrustedContactAlerts", () => {
+  test("an emergency assigned on creation sends one combined alert", async () => {
+    const stop = startTrustedContactAlerts();
+    const emergencyId = nextEmergencyId();
+
+    notifyEmergencyCreated({
+      emergencyId,
+      patientId: "p1",
+      status: "assigned",
+    });
+    stop();
+    // The tracking screen reporting the assignment waits for the alert
+    // above and finds it already sent.
+    expect(
+      await notifyTrustedContacts(emergencyId, "p1", ["ambulance_assigned"]),
+    ).toEqual([]);
+
+    expect(openURL).toHaveBeenCalledTimes(1);
+    expect(smsUrl()).toContain("and one is on its way");
+    const events = new Set(
+      (await getContactAlertLog(emergencyId)).map((record) => record.event),
+    );
+    expect(events).toEqual(
+      new Set(["emergency_created", "ambulance_assigned"]),
+    );
+  });
+});
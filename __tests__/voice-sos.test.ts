@@ -0,0 +1,192 @@
+/**
+ * Tests for utils/voice-sos.ts — mapping spoken descriptions to emergency
+ * types and attaching recordings to an emergency.
+ */
+import {
+  attachVoiceNote,
+  buildVoiceSosCapture,
+  buildVoiceSosDescription,
+  classifyEmergencyTranscript,
+  getVoiceNoteUrl,
+  VOICE_NOTE_BUCKET,
+} from "../utils/voice-sos";
+
+jest.mock("../utils/api", () => ({
+  backendGet: jest.fn(),
+  backendPost: jest.fn(),
+  backendPut: jest.fn(),
+}));
+
+const { backendPost } = jest.requireMock("../utils/api") as {
+  backendPost: jest.Mock;
+};
+const { supabase } = jest.requireMock("../utils/supabase") as {
+  supabase: Record<string, any>;
+};
+
+const upload = jest.fn();
+const createSignedUrl = jest.fn();
+const fetchMock = jest.fn();
+
+beforeAll(() => {
+  supabase.storage = { from: jest.fn(() => ({ upload, createSignedUrl })) };
+  global.fetch = fetchMock;
+});
+
+beforeEach(() => {
+  backendPost.mockReset().mockResolvedValue({});
+  upload.mockReset().mockResolvedValue({ data: {}, error: null });
+  fetchMock
+    .mockReset()
+    .mockResolvedValue({ arrayBuffer: async () => new ArrayBuffer(16) });
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("classifyEmergencyTranscript", () => {
+  test.each([
+    ["There was a car crash on the main road", "accident"],
+    ["my father has chest pain and is sweating", "cardiac"],
+    ["My wife is pregnant and her water broke", "maternity"],
+    ["The kitchen is on fire and there is smoke everywhere", "fire"],
+    ["መኪና ገጨው፣ ደም እየፈሰሰው ነው", "accident"],
+    ["እናቴ የልብ ድካም ያዛት", "cardiac"],
+    ["ምጥ ጀምሯታል", "maternity"],
+    ["Manni ibidda qabate", "fire"],
+    ["Haati manaa koo ciniinsuu qabdi", "maternity"],
+  ])("%s → %s", (transcript, emergencyType) => {
+    expect(classifyEmergencyTranscript(transcript).emergencyType).toBe(
+      emergencyType,
+    );
+  });
+
+  test("falls back to a general medical emergency", () => {
+    expect(classifyEmergencyTranscript("he fainted and feels dizzy")).toEqual({
+      emergencyType: "medical",
+      keywords: [],
+    });
+    expect(classifyEmergencyTranscript("").emergencyType).toBe("medical");
+  });
+
+  test("fire takes precedence and reports the matched phrases", () => {
+    expect(
+      classifyEmergencyTranscript(
+        "Gas explosion after the crash, people burned",
+      ),
+    ).toEqual({ emergencyType: "fire", keywords: ["burned", "explosion"] });
+  });
+
+  test("Latin keywords only match at the start of a word", () => {
+    expect(classifyEmergencyTranscript("by the bonfire").emergencyType).toBe(
+      "medical",
+    );
+  });
+});
+
+describe("capture and description", () => {
+  test("normalises the transcript and classifies it", () => {
+    const capture = buildVoiceSosCapture({
+      transcript: "  road   accident ",
+      audioUri: "file:///sos.m4a",
+      durationMs: 4200.4,
+    });
+    expect(capture).toEqual({
+      emergencyType: "accident",
+      keywords: ["accident"],
+      transcript: "road accident",
+      audioUri: "file:///sos.m4a",
+      durationMs: 4200,
+    });
+    expect(buildVoiceSosDescription(capture)).toBe(
+      'Voice SOS: "road accident"',
+    );
+  });
+
+  test("an untranscribed capture points at the attached audio", () => {
+    const capture = buildVoiceSosCapture({
+      transcript: "   ",
+      audioUri: "file:///sos.m4a",
+      durationMs: 3000,
+    });
+    expect(capture.transcript).toBeNull();
+    expect(capture.emergencyType).toBe("medical");
+    expect(buildVoiceSosDescription(capture)).toBe(
+      "Voice SOS: spoken description attached as audio",
+    );
+  });
+});
+
+describe("attachVoiceNote", () => {
+  const capture = buildVoiceSosCapture({
+    transcript: null,
+    audioUri: "file:///cache/recording-1.m4a",
+    durationMs: 6400,
+  });
+
+  test("uploads the recording and records a timeline event", async () => {
+    jest.spyOn(Date, "now").mockReturnValue(1700000000000);
+
+    const { path, error } = await attachVoiceNote("e1", capture);
+
+    expect(error).toBeNull();
+    expect(path).toBe("e1/1700000000000.m4a");
+    expect(fetchMock).toHaveBeenCalledWith("file:///cache/recording-1.m4a");
+    expect(supabase.storage.from).toHaveBeenCalledWith(VOICE_NOTE_BUCKET);
+    expect(upload).toHaveBeenCalledWith(
+      "e1/1700000000000.m4a",
+      expect.any(ArrayBuffer),
+      { contentType: "audio/mp4", upsert: false },
+    );
+    expect(backendPost).toHaveBeenCalledWith("/ops/timeline/events", {
+      emergency_id: "e1",
+      event_type: "voice_note_attached",
+      details: {
+        storage_path: "e1/1700000000000.m4a",
+        duration_seconds: 6,
+        transcribed: false,
+        emergency_type: "medical",
+      },
+    });
+  });
+
+  test("does nothing without a recording", async () => {
+    const result = await attachVoiceNote("e1", { ...capture, audioUri: null });
+    expect(result).toEqual({ path: null, error: null });
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  test("returns the upload error without recording the event", async () => {
+    upload.mockResolvedValue({ data: null, error: new Error("denied") });
+
+    const { path, error } = await attachVoiceNote("e1", capture);
+
+    expect(path).toBeNull();
+    expect(error?.message).toBe("denied");
+    expect(backendPost).not.toHaveBeenCalled();
+  });
+});
+
+test("getVoiceNoteUrl signs a short-lived playback link", async () => {
+  createSignedUrl.mockResolvedValueOnce({
+    data: { signedUrl: "https://storage.test/e1/1.m4a?token=t" },
+    error: null,
+  });
+
+  await expect(getVoiceNoteUrl("e1/1.m4a")).resolves.toEqual({
+    url: "https://storage.test/e1/1.m4a?token=t",
+    error: null,
+  });
+  expect(supabase.storage.from).toHaveBeenCalledWith(VOICE_NOTE_BUCKET);
+  expect(createSignedUrl).toHaveBeenCalledWith("e1/1.m4a", 600);
+
+  createSignedUrl.mockResolvedValueOnce({
+    data: null,
+    error: new Error("Object not found"),
+  });
+  const { url, error } = await getVoiceNoteUrl("e1/missing.m4a");
+  expect(url).toBeNull();
+  expect(error?.message).toBe("Object not found");
+});
@@ -22,10 +22,15 @@ import { AppStateProvider } from "@/components/app-state";
 import { ErrorBoundary } from "@/components/error-boundary";
 import { ModalProvider, useModal } from "@/components/modal-context";
 import { Colors } from "@/constants/theme";
+import { useBackendHealthProbe } from "@/hooks/use-backend-health";
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useOfflineOutboxSync } from "@/hooks/use-offline-outbox";
 import { checkForAndroidAppUpdate } from "@/utils/app-update";
+// Defines the background location task; must run at startup.
+import "@/utils/driver-tracking";
 import { getLang, loadLang, subscribeLangChange, t } from "@/utils/i18n";
 import { initSentry } from "@/utils/sentry";
+import { startTrustedContactAlerts } from "@/utils/trusted-contacts";
 import * as SystemUI from "expo-system-ui";
 import React, { useEffect } from "react";
 import { Linking, LogBox, Platform, View } from "react-native";
@@ -90,6 +95,11 @@ function ThemedRoot() {
   const hasCheckedForUpdatesRef = React.useRef(false);
   const { showAlert, showConfirm, showError } = useModal();
 
+  useBackendHealthProbe();
+  useOfflineOutboxSync();
+
+  useEffect(() => startTrustedContactAlerts(), []);
+
   useEffect(() => {
     let mounted = true;
 
@@ -209,11 +219,19 @@ function ThemedRoot() {
             name="chatbot"
             options={{ headerShown: false, title: "Chatbot" }}
           />
+          <Stack.Screen
+            name="chat-threads"
+            options={{ headerShown: false, title: "Chat History" }}
+          />
           {/* Patient Routes */}
           <Stack.Screen
             name="patient-profile"
             options={{ headerShown: false, title: "Patient Profile" }}
           />
+          <Stack.Screen
+            name="trusted-contacts"
+            options={{ headerShown: false, title: "Trusted Contacts" }}
+          />
           <Stack.Screen
             name="patient-emergency"
             options={{ headerShown: false, title: "Emergency" }}
@@ -226,6 +244,10 @@ function ThemedRoot() {
             name="first-aid-chat"
             options={{ headerShown: false, title: "First Aid Assistant" }}
           />
+          <Stack.Screen
+            name="first-aid-coach"
+            options={{ headerShown: false, title: "First Aid Coach" }}
+          />
           {/* Ambulance Routes */}
           <Stack.Screen
             name="driver-home"
@@ -248,6 +270,10 @@ function ThemedRoot() {
             name="admin"
             options={{ headerShown: false, title: "Admin Panel" }}
           />
+          <Stack.Screen
+            name="diagnostics"
+            options={{ headerShown: false, title: "Diagnostics" }}
+          />
           {/* Hospital & Map Routes */}
           <Stack.Screen
             name="hospital"
@@ -1,19 +1,29 @@
 import { AppHeader } from "@/components/app-header";
 import { useAppState } from "@/components/app-state";
 import { LanguageToggle } from "@/components/language-toggle";
+import { LocationConfidenceBadge } from "@/components/location-confidence-badge";
 import { useModal } from "@/components/modal-context";
 import { ThemedText } from "@/components/themed-text";
+import { TripReplay } from "@/components/trip-replay";
 import { Colors, Fonts } from "@/constants/theme";
 import { useAuthGuard } from "@/hooks/use-auth-guard";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { backendGet, backendPost, backendPut } from "@/utils/api";
 import { signOut } from "@/utils/auth";
+import type {
+  AdminDashboardResponse,
+  AdminSettingsResponse,
+  OperationsInsightsResponse,
+  ProviderConfig,
+  ProviderUpsertResponse,
+} from "@/utils/contracts";
 import {
     Ambulance,
     EmergencyRequest,
     Hospital,
     normalizeEmergency,
 } from "@/utils/emergency";
+import { formatDate, formatDateTime } from "@/utils/i18n-format";
 import { supabase } from "@/utils/supabase";
 import { MaterialIcons } from "@expo/vector-icons";
 import * as Location from "expo-location";
@@ -49,21 +59,6 @@ type Tab = "users" | "emergencies" | "ambulances" | "hospitals" | "settings";
 type FilterRole = "all" | "patient" | "ambulance" | "admin" | "hospital";
 type EmergencyFilter = "all" | "active" | "completed" | "cancelled";
 
-interface AdminDashboardResponse {
-  users: Profile[];
-  emergencies: EmergencyRequest[];
-  ambulances: Ambulance[];
-  hospitals: Hospital[];
-}
-
-interface ProviderConfig {
-  provider: string;
-  base_url: string;
-  model: string;
-  api_key_set: boolean;
-  api_key_preview: string;
-}
-
 const ROLE_COLORS: Record<string, { bg: string; text: string }> = {
   patient: { bg: "#DBEAFE", text: "#1D4ED8" },
   ambulance: { bg: "#FEF3C7", text: "#B45309" },
@@ -100,6 +95,8 @@ export default function AdminScreen() {
   const [search, setSearch] = useState("");
   const [profileVisible, setProfileVisible] = useState(false);
   const [createHospitalVisible, setCreateHospitalVisible] = useState(false);
+  const [replayEmergency, setReplayEmergency] =
+    useState<EmergencyRequest | null>(null);
   const [creatingHospital, setCreatingHospital] = useState(false);
   const [hospitalForm, setHospitalForm] = useState({
     hospitalName: "",
@@ -169,11 +166,13 @@ export default function AdminScreen() {
       );
       if (data?.users) setUsers(data.users as Profile[]);
       if (data?.emergencies)
-        setEmergencies(data.emergencies.map(normalizeEmergency));
+        setEmergencies(
+          (data.emergencies as EmergencyRequest[]).map(normalizeEmergency),
+        );
       if (data?.ambulances) setAmbulances(data.ambulances as Ambulance[]);
       if (data?.hospitals) setHospitals(data.hospitals as Hospital[]);
       try {
-        const insights = await backendGet<any>(
+        const insights = await backendGet<OperationsInsightsResponse>(
           "/ops/insights/operations?days=7",
         );
         setOpsInsights({
@@ -196,16 +195,9 @@ export default function AdminScreen() {
 
   const fetchSettings = useCallback(async () => {
     try {
-      const data = await backendGet<{
-        deepseek_api_key_set: boolean;
-        deepseek_api_key_preview: string;
-        active_provider: string;
-        available_providers: string[];
-        provider_configs: ProviderConfig[];
-        total_chat_requests: number;
-        unique_chat_users: number;
-        today_chat_requests: number;
-      }>("/ops/admin/settings");
+      const data = await backendGet<AdminSettingsResponse>(
+        "/ops/admin/settings",
+      );
       if (data) {
         setApiKeySet(data.deepseek_api_key_set);
         setApiKeyPreview(data.deepseek_api_key_preview);
@@ -274,16 +266,16 @@ export default function AdminScreen() {
 
     setSavingProvider(true);
     try {
-      const result = await backendPost<{
-        provider: string;
-        active_provider: string;
-      }>("/ops/admin/settings/providers", {
-        provider: normalizedProvider,
-        base_url: providerBaseUrl.trim(),
-        model: providerModel.trim(),
-        api_key: newApiKey.trim() || undefined,
-        set_active: true,
-      });
+      const result = await backendPost<ProviderUpsertResponse>(
+        "/ops/admin/settings/providers",
+        {
+          provider: normalizedProvider,
+          base_url: providerBaseUrl.trim(),
+          model: providerModel.trim(),
+          api_key: newApiKey.trim() || undefined,
+          set_active: true,
+        },
+      );
       setActiveProvider(result.active_provider || normalizedProvider);
       setProviderNameInput(result.provider || normalizedProvider);
       setNewApiKey("");
@@ -616,31 +608,6 @@ export default function AdminScreen() {
     }));
   };
 
-  const formatDate = (d: string) => {
-    try {
-      return new Date(d).toLocaleDateString("en-US", {
-        month: "short",
-        day: "numeric",
-        year: "numeric",
-      });
-    } catch {
-      return d;
-    }
-  };
-
-  const formatDateTime = (d: string) => {
-    try {
-      return new Date(d).toLocaleString("en-US", {
-        month: "short",
-        day: "numeric",
-        hour: "2-digit",
-        minute: "2-digit",
-      });
-    } catch {
-      return d;
-    }
-  };
-
   /* ─── computed ────────────────────────────────────────────── */
 
   const usersViewData = React.useMemo<Profile[]>(() => {
@@ -905,14 +872,33 @@ export default function AdminScreen() {
               <ThemedText style={[styles.footerText, { color: subText }]}>
                 {item.latitude.toFixed(4)}, {item.longitude.toFixed(4)}
               </ThemedText>
+              <LocationConfidenceBadge
+                confidence={item.patient_location_confidence}
+                flags={item.patient_location_flags}
+              />
             </View>
           )}
           <View style={styles.footerItem}>
             <MaterialIcons name="access-time" size={14} color={subText} />
             <ThemedText style={[styles.footerText, { color: subText }]}>
-              {formatDateTime(item.created_at)}
+              {formatDateTime(item.created_at, { withYear: false })}
             </ThemedText>
           </View>
+          {item.assigned_ambulance_id ? (
+            <Pressable
+              onPress={() => setReplayEmergency(item)}
+              style={({ pressed }) => [
+                styles.footerItem,
+                pressed && { opacity: 0.7 },
+              ]}
+              accessibilityRole="button"
+            >
+              <MaterialIcons name="route" size={14} color="#DC2626" />
+              <ThemedText style={[styles.footerText, { color: "#DC2626" }]}>
+                Trip replay
+              </ThemedText>
+            </Pressable>
+          ) : null}
         </View>
       </View>
     );
@@ -975,6 +961,11 @@ export default function AdminScreen() {
               {formatDate(item.created_at)}
             </ThemedText>
           </View>
+          <LocationConfidenceBadge
+            label="Ambulance GPS"
+            confidence={item.location_confidence}
+            flags={item.location_flags}
+          />
         </View>
       </View>
     );
@@ -1170,7 +1161,18 @@ export default function AdminScreen() {
       <AppHeader
         title="እርዳታዬ Admin"
         onProfilePress={() => setProfileVisible(true)}
-        rightExtra={<LanguageToggle />}
+        rightExtra={
+          <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+            <Pressable
+              onPress={() => router.push("/diagnostics")}
+              accessibilityLabel="Backend diagnostics"
+              style={({ pressed }) => [{ padding: 4 }, pressed ? { opacity: 0.7 } : null]}
+            >
+              <MaterialIcons name="network-check" size={20} color={colors.textMuted} />
+            </Pressable>
+            <LanguageToggle />
+          </View>
+        }
       />
 
       <ScrollView
@@ -2107,6 +2109,34 @@ export default function AdminScreen() {
         </Pressable>
       </Modal>
 
+      <Modal
+        transparent
+        visible={!!replayEmergency}
+        animationType="fade"
+        onRequestClose={() => setReplayEmergency(null)}
+      >
+        <Pressable
+          style={styles.modalOverlay}
+          onPress={() => setReplayEmergency(null)}
+        >
+          <Pressable
+            style={[
+              styles.createModalCard,
+              { backgroundColor: cardBg, borderColor: cardBorder },
+            ]}
+            onPress={(e) => e.stopPropagation()}
+          >
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <TripReplay
+                emergencyId={replayEmergency?.id}
+                createdAt={replayEmergency?.created_at}
+                style={styles.replayCard}
+              />
+            </ScrollView>
+          </Pressable>
+        </Pressable>
+      </Modal>
+
       <Modal
         visible={profileVisible}
         animationType="fade"
@@ -2422,6 +2452,7 @@ const styles = StyleSheet.create({
     paddingHorizontal: 14,
     paddingVertical: 10,
   },
+  replayCard: { borderWidth: 0, padding: 4, marginBottom: 0 },
   createScroll: {
     width: "100%",
   },
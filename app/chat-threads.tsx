@@ -0,0 +1,367 @@
+import { AppHeader } from "@/components/app-header";
+import { useAppState } from "@/components/app-state";
+import { useModal } from "@/components/modal-context";
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Fonts } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { deleteChatbotMessages } from "@/utils/chat";
+import {
+  type ChatThread,
+  clearChatThreads,
+  deleteChatThread,
+  exportChatThread,
+  listChatThreads,
+  searchChatThreads,
+  syncChatThreads,
+} from "@/utils/chat-threads";
+import { t, translateText } from "@/utils/i18n";
+import { formatDateTime } from "@/utils/i18n-format";
+import { MaterialIcons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  FlatList,
+  Pressable,
+  RefreshControl,
+  Share,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+export default function ChatThreadsScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { user } = useAppState();
+  const { showAlert, showConfirm, showError } = useModal();
+
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [query, setQuery] = useState("");
+  const [refreshing, setRefreshing] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!user?.id) return;
+    setThreads(await listChatThreads(user.id));
+  }, [user?.id]);
+
+  const sync = useCallback(async () => {
+    if (!user?.id) return;
+    setRefreshing(true);
+    try {
+      await syncChatThreads(user.id);
+      await reload();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [reload, user?.id]);
+
+  // Cached threads show immediately; the sync fills in anything new.
+  useEffect(() => {
+    void reload().then(sync);
+  }, [reload, sync]);
+
+  const hits = useMemo(
+    () => (query.trim() ? searchChatThreads(threads, query) : []),
+    [query, threads],
+  );
+
+  const openThread = (threadId: string) =>
+    router.push(`/chatbot?threadId=${encodeURIComponent(threadId)}` as any);
+
+  const handleExport = async (thread: ChatThread) => {
+    try {
+      await Share.share({
+        title: thread.title,
+        message: exportChatThread(thread),
+      });
+    } catch (error: any) {
+      showError("Export Failed", error?.message || String(error));
+    }
+  };
+
+  const handleDelete = (thread: ChatThread) => {
+    if (!user?.id) return;
+    showConfirm(
+      "Delete conversation",
+      `"${thread.title}" will be removed from all your devices.`,
+      async () => {
+        const { synced } = await deleteChatThread(user.id, thread.id);
+        await reload();
+        if (!synced) {
+          showAlert(
+            "Deleted on this device",
+            "It will be removed from your account when you are back online.",
+          );
+        }
+      },
+    );
+  };
+
+  const handleDeleteAll = () => {
+    if (!user?.id) return;
+    showConfirm(
+      "Delete chat history",
+      "This will permanently remove all your chatbot messages.",
+      async () => {
+        const { success } = await deleteChatbotMessages(user.id);
+        if (!success) {
+          showError(
+            "Delete Failed",
+            "Could not reach the server. Please try again when online.",
+          );
+          return;
+        }
+        await clearChatThreads(user.id);
+        setThreads([]);
+      },
+    );
+  };
+
+  const renderThread = ({ item }: { item: ChatThread }) => {
+    const last = item.messages[item.messages.length - 1];
+    const unsynced = item.messages.some((message) => !message.serverId);
+    return (
+      <Pressable
+        onPress={() => openThread(item.id)}
+        style={({ pressed }) => [
+          styles.card,
+          { backgroundColor: colors.surface, borderColor: colors.border },
+          pressed ? { opacity: 0.85 } : null,
+        ]}
+      >
+        <View style={styles.row}>
+          <ThemedText
+            style={[styles.title, { color: colors.text }]}
+            numberOfLines={1}
+            translate={false}
+          >
+            {item.title}
+          </ThemedText>
+          {unsynced ? (
+            <MaterialIcons
+              name="cloud-upload"
+              size={16}
+              color={colors.warning}
+              accessibilityLabel={translateText("Not synced yet")}
+            />
+          ) : null}
+        </View>
+        {last ? (
+          <ThemedText
+            style={[styles.preview, { color: colors.textMuted }]}
+            numberOfLines={2}
+            translate={false}
+          >
+            {last.text}
+          </ThemedText>
+        ) : null}
+        <View style={styles.row}>
+          <ThemedText
+            style={[styles.meta, { color: colors.textMuted }]}
+            translate={false}
+          >
+            {`${formatDateTime(item.updatedAt)} · ${t("message_count", {
+              count: item.messages.length,
+            })}`}
+          </ThemedText>
+          <Pressable
+            onPress={() => void handleExport(item)}
+            hitSlop={8}
+            accessibilityLabel={translateText("Export conversation")}
+          >
+            <MaterialIcons name="ios-share" size={20} color={colors.info} />
+          </Pressable>
+          <Pressable
+            onPress={() => handleDelete(item)}
+            hitSlop={8}
+            accessibilityLabel={translateText("Delete conversation")}
+          >
+            <MaterialIcons
+              name="delete-outline"
+              size={20}
+              color={colors.danger}
+            />
+          </Pressable>
+        </View>
+      </Pressable>
+    );
+  };
+
+  if (!user?.id) {
+    return (
+      <View style={[styles.bg, { backgroundColor: colors.background }]}>
+        <AppHeader title="Chat History" onBackPress={() => router.back()} />
+        <View style={styles.empty}>
+          <ThemedText style={[styles.preview, { color: colors.textMuted }]}>
+            Sign in to keep your first aid conversations.
+          </ThemedText>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.bg, { backgroundColor: colors.background }]}>
+      <AppHeader
+        title="Chat History"
+        onBackPress={() => router.back()}
+        rightExtra={
+          threads.length ? (
+            <Pressable
+              onPress={handleDeleteAll}
+              hitSlop={8}
+              accessibilityLabel={translateText("Delete all conversations")}
+            >
+              <MaterialIcons
+                name="delete-sweep"
+                size={22}
+                color={colors.danger}
+              />
+            </Pressable>
+          ) : null
+        }
+      />
+      <View style={styles.container}>
+        <View
+          style={[
+            styles.search,
+            { backgroundColor: colors.surface, borderColor: colors.border },
+          ]}
+        >
+          <MaterialIcons name="search" size={20} color={colors.textMuted} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.text }]}
+            placeholder={translateText("Search past advice")}
+            placeholderTextColor={colors.textMuted}
+            value={query}
+            onChangeText={setQuery}
+            returnKeyType="search"
+            autoCorrect={false}
+          />
+          {query ? (
+            <Pressable onPress={() => setQuery("")} hitSlop={8}>
+              <MaterialIcons name="close" size={18} color={colors.textMuted} />
+            </Pressable>
+          ) : null}
+        </View>
+
+        {query.trim() ? (
+          <FlatList
+            data={hits}
+            keyExtractor={(hit) => `${hit.threadId}:${hit.messageIndex}`}
+            contentContainerStyle={styles.list}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <ThemedText style={[styles.meta, { color: colors.textMuted }]}>
+                No messages match your search.
+              </ThemedText>
+            }
+            renderItem={({ item }) => (
+              <Pressable
+                onPress={() => openThread(item.threadId)}
+                style={({ pressed }) => [
+                  styles.card,
+                  {
+                    backgroundColor: colors.surface,
+                    borderColor: colors.border,
+                  },
+                  pressed ? { opacity: 0.85 } : null,
+                ]}
+              >
+                <ThemedText
+                  style={[styles.meta, { color: colors.primary }]}
+                  numberOfLines={1}
+                  translate={false}
+                >
+                  {item.title}
+                </ThemedText>
+                <ThemedText
+                  style={[styles.preview, { color: colors.text }]}
+                  numberOfLines={3}
+                  translate={false}
+                >
+                  {item.snippet}
+                </ThemedText>
+                <ThemedText
+                  style={[styles.meta, { color: colors.textMuted }]}
+                  translate={false}
+                >
+                  {formatDateTime(item.createdAt)}
+                </ThemedText>
+              </Pressable>
+            )}
+          />
+        ) : (
+          <FlatList
+            data={threads}
+            keyExtractor={(thread) => thread.id}
+            renderItem={renderThread}
+            contentContainerStyle={styles.list}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => void sync()}
+                tintColor="#DC2626"
+              />
+            }
+            ListEmptyComponent={
+              <View style={styles.empty}>
+                <MaterialIcons
+                  name="forum"
+                  size={36}
+                  color={colors.textMuted}
+                />
+                <ThemedText
+                  style={[styles.preview, { color: colors.textMuted }]}
+                >
+                  No conversations yet.
+                </ThemedText>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bg: { flex: 1 },
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    maxWidth: 900,
+    width: "100%" as any,
+    alignSelf: "center" as any,
+  },
+  search: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 14,
+    fontFamily: Fonts.sans,
+  },
+  list: { gap: 10, paddingBottom: 40 },
+  card: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    gap: 6,
+  },
+  row: { flexDirection: "row", alignItems: "center", gap: 12 },
+  title: { flex: 1, fontSize: 15, fontFamily: Fonts.sansBold },
+  preview: { fontSize: 13, lineHeight: 19, fontFamily: Fonts.sans },
+  meta: { flex: 1, fontSize: 12, fontFamily: Fonts.sans },
+  empty: { alignItems: "center", gap: 8, paddingTop: 48 },
+});
@@ -1,20 +1,26 @@
 import { useAppState } from "@/components/app-state";
 import { useModal } from "@/components/modal-context";
+import { RedFlagSosCard } from "@/components/red-flag-sos-card";
 import { ThemedText } from "@/components/themed-text";
 import { Colors, Fonts } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import {
-    addChatbotMessage,
-    deleteChatbotMessages,
-    getChatbotMessages,
-} from "@/utils/chat";
+    appendThreadMessage,
+    type ChatThread,
+    createThreadId,
+    getChatThread,
+    listChatThreads,
+    syncChatThreads,
+} from "@/utils/chat-threads";
 import { getFirstAidAiResponse } from "@/utils/first-aid-ai";
 import type { Message } from "@/utils/first-aid-chatbot";
+import { translateText } from "@/utils/i18n";
 import { LANG_LABELS, UI, type Lang } from "@/utils/i18n-first-aid";
+import { getPendingRedFlagEscalation } from "@/utils/red-flags";
 import MaterialIcons from "@expo/vector-icons/MaterialIcons";
 import { requireOptionalNativeModule } from "expo";
-import { useRouter } from "expo-router";
-import React, { useEffect, useRef, useState } from "react";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
     Animated,
     Easing,
@@ -32,6 +38,13 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 const MIN_TYPING_MS = 1200;
 
+const toMessages = (thread: ChatThread): Message[] =>
+  thread.messages.map((m) =>
+    m.role === "bot"
+      ? { role: "bot", text: m.text, offline: m.offline }
+      : { role: "user", text: m.text },
+  );
+
 export default function ChatbotPage() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
@@ -39,7 +52,11 @@ export default function ChatbotPage() {
   const colors = Colors[colorScheme ?? "light"];
   const isDark = colorScheme === "dark";
   const { user } = useAppState();
-  const { showAlert, showConfirm } = useModal();
+  const { showAlert } = useModal();
+  const { threadId: threadParam } = useLocalSearchParams<{
+    threadId?: string;
+  }>();
+  const [threadId, setThreadId] = useState(createThreadId);
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState("");
   const [isTyping, setIsTyping] = useState(false);
@@ -56,21 +73,43 @@ export default function ChatbotPage() {
   const [lang, setLang] = useState<Lang>("en");
   const previousLangRef = useRef<Lang>("en");
   const flatListRef = useRef<FlatList>(null);
+  const [dismissedRedFlagAt, setDismissedRedFlagAt] = useState<number | null>(
+    null,
+  );
+  const redFlag = useMemo(
+    () => getPendingRedFlagEscalation(messages),
+    [messages],
+  );
   const voiceBaseRef = useRef("");
 
-  // Load chatbot history for user
+  // Open the requested (or most recent) thread from the local cache, then
+  // refresh it once the backend sync finishes.
   useEffect(() => {
     if (!user?.id) return;
-    getChatbotMessages(user.id)
-      .then(({ messages }) => {
-        if (messages) {
-          setMessages(
-            messages.map((m) => ({ role: m.role, text: m.message }) as Message),
-          );
-        }
-      })
+    const userId = user.id;
+    let cancelled = false;
+
+    const showThread = async () => {
+      const id =
+        threadParam || (await listChatThreads(userId))[0]?.id || null;
+      const thread = id ? await getChatThread(userId, id) : null;
+      if (cancelled || !thread) return;
+      if (thread.lang) {
+        previousLangRef.current = thread.lang;
+        setLang(thread.lang);
+      }
+      setThreadId(thread.id);
+      setMessages(toMessages(thread));
+    };
+
+    void showThread()
+      .then(() => syncChatThreads(userId))
+      .then(showThread)
       .catch(() => {});
-  }, [user?.id]);
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, threadParam]);
 
   useEffect(() => {
     flatListRef.current?.scrollToEnd({ animated: true });
@@ -119,6 +158,7 @@ export default function ChatbotPage() {
 
     // Start a fresh thread when language changes so mixed-language history
     // does not influence future AI responses.
+    setThreadId(createThreadId());
     setMessages([]);
     setInputText("");
   }, [lang]);
@@ -252,18 +292,19 @@ export default function ChatbotPage() {
 
     try {
       if (user?.id) {
-        await addChatbotMessage(user.id, "user", trimmed);
+        await appendThreadMessage(
+          user.id,
+          threadId,
+          { role: "user", text: trimmed },
+          lang,
+        );
       }
 
-      const aiReply = await getFirstAidAiResponse(
+      const botMsg = await getFirstAidAiResponse(
         trimmed,
         historyForReply,
         lang,
       );
-      const botMsg = aiReply ?? {
-        role: "bot" as const,
-        text: "Sorry, I couldn't reach the AI service right now. Please check your connection and try again.",
-      };
 
       const elapsed = Date.now() - typingStartedAt;
       if (elapsed < MIN_TYPING_MS) {
@@ -272,25 +313,29 @@ export default function ChatbotPage() {
         );
       }
 
-      setMessages((prev) => [...prev, { role: "bot", text: botMsg.text }]);
+      setMessages((prev) => [
+        ...prev,
+        { role: "bot", text: botMsg.text, offline: botMsg.offline },
+      ]);
       if (user?.id) {
-        await addChatbotMessage(user.id, "bot", botMsg.text);
+        await appendThreadMessage(
+          user.id,
+          threadId,
+          { role: "bot", text: botMsg.text, offline: botMsg.offline },
+          lang,
+        );
+        void syncChatThreads(user.id);
       }
     } finally {
       setIsTyping(false);
     }
   };
 
-  const handleDeleteHistory = () => {
-    if (!user?.id) return;
-    showConfirm(
-      "Delete chat history",
-      "This will permanently remove all your chatbot messages.",
-      async () => {
-        const { success } = await deleteChatbotMessages(user.id);
-        if (success) setMessages([]);
-      },
-    );
+  const startNewThread = () => {
+    if (isTyping) return;
+    setThreadId(createThreadId());
+    setMessages([]);
+    setInputText("");
   };
 
   const handleSubmit = () => {
@@ -372,25 +417,49 @@ export default function ChatbotPage() {
                   })}
                 </View>
                 <Pressable
-                  onPress={handleDeleteHistory}
+                  onPress={startNewThread}
                   style={({ pressed }) => [
                     styles.clearBtn,
                     {
-                      borderColor: colors.danger,
-                      backgroundColor: isDark ? "#3F1212" : colors.primarySoft,
+                      borderColor: colors.borderStrong,
+                      backgroundColor: colors.surfaceAlt,
                     },
                     pressed ? { opacity: 0.75 } : null,
                   ]}
+                  accessibilityLabel={translateText("New conversation")}
                 >
                   <MaterialIcons
-                    name="delete-outline"
+                    name="add-comment"
                     size={18}
-                    color={colors.danger}
+                    color={colors.text}
                   />
-                  <Text style={[styles.clearBtnText, { color: colors.danger }]}>
-                    Clear
-                  </Text>
                 </Pressable>
+                {user?.id ? (
+                  <Pressable
+                    onPress={() => router.push("/chat-threads")}
+                    style={({ pressed }) => [
+                      styles.clearBtn,
+                      {
+                        borderColor: colors.danger,
+                        backgroundColor: isDark
+                          ? "#3F1212"
+                          : colors.primarySoft,
+                      },
+                      pressed ? { opacity: 0.75 } : null,
+                    ]}
+                  >
+                    <MaterialIcons
+                      name="history"
+                      size={18}
+                      color={colors.danger}
+                    />
+                    <Text
+                      style={[styles.clearBtnText, { color: colors.danger }]}
+                    >
+                      History
+                    </Text>
+                  </Pressable>
+                ) : null}
               </View>
               <Pressable
                 onPress={() => router.push("/help")}
@@ -398,7 +467,7 @@ export default function ChatbotPage() {
                   styles.closeBtn,
                   pressed ? { opacity: 0.7 } : null,
                 ]}
-                accessibilityLabel="Close chatbot"
+                accessibilityLabel={translateText("Close chatbot")}
               >
                 <MaterialIcons name="close" size={22} color={colors.danger} />
               </Pressable>
@@ -431,6 +500,23 @@ export default function ChatbotPage() {
                       : undefined,
                   ]}
                 >
+                  {item.role === "bot" && item.offline && (
+                    <View style={styles.offlineBadge}>
+                      <MaterialIcons
+                        name="cloud-off"
+                        size={12}
+                        color={colors.warning}
+                      />
+                      <Text
+                        style={[
+                          styles.offlineBadgeText,
+                          { color: colors.warning },
+                        ]}
+                      >
+                        {UI[lang].offlineBadge}
+                      </Text>
+                    </View>
+                  )}
                   <Text
                     style={{
                       color: item.role === "user" ? "#FFFFFF" : colors.text,
@@ -478,6 +564,14 @@ export default function ChatbotPage() {
                       />
                     </View>
                   </View>
+                ) : redFlag && redFlag.messageIndex !== dismissedRedFlagAt ? (
+                  <RedFlagSosCard
+                    escalation={redFlag}
+                    lang={lang}
+                    onDismiss={() =>
+                      setDismissedRedFlagAt(redFlag.messageIndex)
+                    }
+                  />
                 ) : null
               }
               contentContainerStyle={{ paddingBottom: 16, paddingTop: 8 }}
@@ -582,6 +676,16 @@ const styles = StyleSheet.create({
     height: 8,
     borderRadius: 4,
   },
+  offlineBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginBottom: 4,
+  },
+  offlineBadgeText: {
+    fontSize: 11,
+    fontFamily: Fonts.sansBold,
+  },
   topBarRightContainer: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,183 @@
+import { AppHeader } from "@/components/app-header";
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Fonts } from "@/constants/theme";
+import { useAuthGuard } from "@/hooks/use-auth-guard";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { getBackendHealthSnapshot, probeBackendHealth } from "@/utils/api";
+import type { EndpointHealthSnapshot } from "@/utils/endpoint-health";
+import { MaterialIcons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+    RefreshControl,
+    ScrollView,
+    StyleSheet,
+    View,
+} from "react-native";
+
+const formatAgo = (at: number | null) => {
+  if (!at) return "never";
+  const seconds = Math.max(0, Math.round((Date.now() - at) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  return `${Math.round(seconds / 60)}m ago`;
+};
+
+export default function DiagnosticsScreen() {
+  const _authLoading = useAuthGuard();
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const theme = colorScheme ?? "light";
+  const colors = Colors[theme];
+
+  const [snapshot, setSnapshot] = useState<EndpointHealthSnapshot>(() =>
+    getBackendHealthSnapshot(),
+  );
+  const [refreshing, setRefreshing] = useState(false);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      setSnapshot(await probeBackendHealth(true));
+    } finally {
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => {
+      setSnapshot(getBackendHealthSnapshot());
+    }, 5000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  return (
+    <View style={[styles.bg, { backgroundColor: colors.background }]}>
+      <AppHeader title="Diagnostics" onBackPress={() => router.back()} />
+      <ScrollView
+        style={styles.scrollOuter}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => void onRefresh()}
+            tintColor="#DC2626"
+          />
+        }
+      >
+        <View style={styles.container}>
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.surface, borderColor: colors.border },
+            ]}
+          >
+            <ThemedText style={[styles.label, { color: colors.textMuted }]}>
+              Active backend
+            </ThemedText>
+            <ThemedText style={[styles.activeUrl, { color: colors.text }]}>
+              {snapshot.active}
+            </ThemedText>
+            <ThemedText style={[styles.meta, { color: colors.textMuted }]}>
+              Pull down to probe every mirror now.
+            </ThemedText>
+          </View>
+
+          {snapshot.endpoints.map((endpoint) => {
+            const isActive = endpoint.url === snapshot.active;
+            const statusColor = endpoint.circuitOpen
+              ? colors.danger
+              : endpoint.consecutiveFailures > 0
+                ? colors.warning
+                : endpoint.successes > 0
+                  ? colors.success
+                  : colors.textMuted;
+            const statusLabel = endpoint.circuitOpen
+              ? "Circuit open"
+              : endpoint.consecutiveFailures > 0
+                ? "Degraded"
+                : endpoint.successes > 0
+                  ? "Healthy"
+                  : "Unknown";
+
+            return (
+              <View
+                key={endpoint.url}
+                style={[
+                  styles.card,
+                  {
+                    backgroundColor: colors.surface,
+                    borderColor: isActive ? colors.primary : colors.border,
+                  },
+                ]}
+              >
+                <View style={styles.row}>
+                  <View
+                    style={[styles.dot, { backgroundColor: statusColor }]}
+                  />
+                  <ThemedText
+                    style={[styles.url, { color: colors.text }]}
+                    numberOfLines={1}
+                  >
+                    {endpoint.url}
+                  </ThemedText>
+                  {isActive ? (
+                    <MaterialIcons
+                      name="check-circle"
+                      size={16}
+                      color={colors.primary}
+                    />
+                  ) : null}
+                </View>
+                <ThemedText style={[styles.meta, { color: statusColor }]}>
+                  {statusLabel}
+                </ThemedText>
+                <ThemedText style={[styles.meta, { color: colors.textMuted }]}>
+                  Latency{" "}
+                  {endpoint.latencyMs === null
+                    ? "-"
+                    : `${endpoint.latencyMs} ms`}{" "}
+                  · OK {endpoint.successes} · Failed {endpoint.failures} ·
+                  Checked {formatAgo(endpoint.lastCheckedAt)}
+                </ThemedText>
+                {endpoint.lastError ? (
+                  <ThemedText
+                    style={[styles.meta, { color: colors.textMuted }]}
+                    numberOfLines={2}
+                  >
+                    {endpoint.lastError}
+                  </ThemedText>
+                ) : null}
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bg: { flex: 1 },
+  scrollOuter: { flex: 1 },
+  scrollContent: { paddingTop: 16, paddingBottom: 40 },
+  container: {
+    paddingHorizontal: 16,
+    maxWidth: 900,
+    width: "100%" as any,
+    alignSelf: "center" as any,
+    gap: 12,
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    gap: 4,
+  },
+  label: { fontSize: 12, fontFamily: Fonts.sans, fontWeight: "600" },
+  activeUrl: { fontSize: 15, fontFamily: Fonts.sans, fontWeight: "800" },
+  row: { flexDirection: "row", alignItems: "center", gap: 8 },
+  dot: { width: 10, height: 10, borderRadius: 5 },
+  url: { flex: 1, fontSize: 14, fontFamily: Fonts.sans, fontWeight: "700" },
+  meta: { fontSize: 12, fontFamily: Fonts.sans },
+});
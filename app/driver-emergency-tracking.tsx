@@ -17,6 +17,7 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 import { AppButton } from "@/components/app-button";
 import { useAppState } from "@/components/app-state";
+import { EmergencyTimeline } from "@/components/emergency-timeline";
 import { HtmlMapView } from "@/components/html-map-view";
 import { useModal } from "@/components/modal-context";
 import { ThemedText } from "@/components/themed-text";
@@ -38,6 +39,21 @@ import {
   formatCoords,
   parsePostGISPoint,
 } from "@/utils/emergency";
+import {
+  startDriverTracking,
+  stopDriverTracking,
+  updateDriverTrackingStatus,
+} from "@/utils/driver-tracking";
+import {
+  EmergencyTransitionError,
+  isEmergencyStatus,
+  type EmergencyStatus,
+} from "@/utils/emergency-lifecycle";
+import {
+  createLocationMilestoneTracker,
+  recordTimelineEvent,
+} from "@/utils/emergency-timeline";
+import { formatDistance } from "@/utils/i18n-format";
 import {
   addMedicalNote,
   formatNoteTime,
@@ -99,6 +115,7 @@ export default function DriverEmergencyTrackingScreen() {
   const [locationTracking, setLocationTracking] = useState(true);
   const [activeTab, setActiveTab] = useState<Tab>("map");
   const lastResyncRef = useRef(0);
+  const milestoneTrackerRef = useRef(createLocationMilestoneTracker());
   const [medicalNotes, setMedicalNotes] = useState<MedicalNote[]>([]);
   const [noteContent, setNoteContent] = useState("");
   const [noteType, setNoteType] = useState<NoteType>("initial_assessment");
@@ -256,7 +273,7 @@ export default function DriverEmergencyTrackingScreen() {
     const hasVitals = Object.values(vitals).some(
       (v) => v !== undefined && v !== "" && v !== null,
     );
-    const { note, error } = await addMedicalNote(
+    const { note, queued, error } = await addMedicalNote(
       emergencyId as string,
       noteType,
       noteContent.trim(),
@@ -268,7 +285,12 @@ export default function DriverEmergencyTrackingScreen() {
       setMedicalNotes((prev) => [...prev, note]);
       setNoteContent("");
       setShowNoteComposer(false);
-      showSuccess("Note Saved", "Clinical note sent.");
+      showSuccess(
+        "Note Saved",
+        queued
+          ? "No network right now. The note is saved offline and will sync automatically."
+          : "Clinical note sent.",
+      );
     }
     setSubmittingNote(false);
   };
@@ -293,18 +315,43 @@ export default function DriverEmergencyTrackingScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentStatus]);
 
-  // Location tracking - updates driver position + sends to DB
+  // Location tracking - updates driver position + sends to DB. On native
+  // the background service does the sending, so it carries on after this
+  // screen closes; the watcher below then only moves the map.
   useEffect(() => {
-    if (!locationTracking || !ambulanceId) return;
+    if (!ambulanceId) return;
+    if (!locationTracking) {
+      void stopDriverTracking();
+      return;
+    }
 
     let watcher: Location.LocationSubscription | null = null;
     let intervalId: ReturnType<typeof setInterval> | null = null;
+    let inBackground = false;
+    const sample = (loc: Location.LocationObject) => ({
+      emergencyId: typeof emergencyId === "string" ? emergencyId : null,
+      accuracy: loc.coords.accuracy,
+      speed: loc.coords.speed,
+      recordedAt: new Date(loc.timestamp).toISOString(),
+      mocked: loc.mocked === true,
+    });
 
     const startTracking = async () => {
       try {
         const { status } = await Location.requestForegroundPermissionsAsync();
         if (status !== "granted") return;
 
+        if (Platform.OS !== "web" && typeof emergencyId === "string") {
+          const { started } = await startDriverTracking({
+            ambulanceId,
+            emergencyId,
+            status: isEmergencyStatus(currentStatus)
+              ? currentStatus
+              : "assigned",
+          });
+          inBackground = started;
+        }
+
         try {
           const initial = await Location.getCurrentPositionAsync({
             accuracy: Location.Accuracy.High,
@@ -317,6 +364,7 @@ export default function DriverEmergencyTrackingScreen() {
             ambulanceId,
             initial.coords.latitude,
             initial.coords.longitude,
+            sample(initial),
           );
         } catch {
           // keep watcher/polling fallback below
@@ -336,6 +384,7 @@ export default function DriverEmergencyTrackingScreen() {
                 ambulanceId,
                 loc.coords.latitude,
                 loc.coords.longitude,
+                sample(loc),
               );
             } catch (pollErr) {
               console.warn("Web location polling failed:", pollErr);
@@ -356,10 +405,12 @@ export default function DriverEmergencyTrackingScreen() {
                 latitude: loc.coords.latitude,
                 longitude: loc.coords.longitude,
               });
+              if (inBackground) return;
               await sendLocationUpdate(
                 ambulanceId,
                 loc.coords.latitude,
                 loc.coords.longitude,
+                sample(loc),
               );
             } catch (e) {
               console.warn("Location update failed:", e);
@@ -382,23 +433,61 @@ export default function DriverEmergencyTrackingScreen() {
         }
       }
     };
-  }, [locationTracking, ambulanceId]);
+    // The status is read once here; later changes go through
+    // updateDriverTrackingStatus below.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [locationTracking, ambulanceId, emergencyId]);
+
+  // Resample (or stop) background tracking as the emergency moves on
+  useEffect(() => {
+    if (typeof emergencyId !== "string" || !isEmergencyStatus(currentStatus)) {
+      return;
+    }
+    void updateDriverTrackingStatus(emergencyId, currentStatus);
+  }, [emergencyId, currentStatus]);
+
+  // Record approach milestones on the timeline while heading to the patient
+  useEffect(() => {
+    if (!emergencyId || !driverCoords || !patientCoords) return;
+    if (!["assigned", "en_route"].includes(currentStatus)) return;
+    const km = calculateDistance(
+      driverCoords.latitude,
+      driverCoords.longitude,
+      patientCoords.latitude,
+      patientCoords.longitude,
+    );
+    for (const milestone of milestoneTrackerRef.current(km)) {
+      void recordTimelineEvent(emergencyId as string, "location_milestone", {
+        milestone,
+        distance_km: Math.round(km * 1000) / 1000,
+      });
+    }
+  }, [emergencyId, driverCoords, patientCoords, currentStatus]);
 
   const handleStatusUpdate = async (newStatus: string) => {
     if (!emergencyId || !user) return;
     try {
       setUpdating(true);
-      const { error } = await updateEmergencyStatus(
+      const { error, queued } = await updateEmergencyStatus(
         emergencyId as string,
-        newStatus as any,
+        newStatus as EmergencyStatus,
+        currentStatus as EmergencyStatus,
       );
       if (error) {
-        const msg = "Failed to update status";
+        const msg =
+          error instanceof EmergencyTransitionError
+            ? error.message
+            : "Failed to update status";
         showError("Update Failed", msg);
         return;
       }
       setCurrentStatus(newStatus);
-      if (newStatus === "transporting") {
+      if (queued) {
+        showSuccess(
+          "Saved Offline",
+          "No network right now. The status change will sync automatically when you are back online.",
+        );
+      } else if (newStatus === "transporting") {
         showSuccess(
           "Transport Started",
           "Patient is now in transport. Hospital will update arrival and completion.",
@@ -443,8 +532,7 @@ export default function DriverEmergencyTrackingScreen() {
       patientCoords.latitude,
       patientCoords.longitude,
     );
-    distanceText =
-      km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+    distanceText = formatDistance(km);
   }
 
   const mapHtml = (() => {
@@ -983,6 +1071,11 @@ export default function DriverEmergencyTrackingScreen() {
             </View>
           )}
 
+          <EmergencyTimeline
+            emergencyId={emergencyId as string}
+            refreshKey={currentStatus}
+          />
+
           {/* Location tracking toggle */}
           <Pressable
             onPress={() => setLocationTracking(!locationTracking)}
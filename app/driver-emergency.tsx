@@ -30,7 +30,12 @@ import {
     getPatientInfo,
     subscribeToAssignments,
 } from "@/utils/driver";
-import { translateText } from "@/utils/i18n";
+import {
+    isEmergencyStatus,
+    type EmergencyStatus,
+} from "@/utils/emergency-lifecycle";
+import { t, translateText } from "@/utils/i18n";
+import { formatDistance, formatTime } from "@/utils/i18n-format";
 import {
   buildDriverPatientMapHtml,
   buildMapHtml,
@@ -225,6 +230,11 @@ export default function DriverEmergencyScreen() {
     return unsubscribe;
   }, [user, loadAssignment]);
 
+  const currentEmergencyStatus = (): EmergencyStatus => {
+    const status = assignment?.emergency_requests?.status;
+    return isEmergencyStatus(status) ? status : "pending";
+  };
+
   const handleAccept = async () => {
     if (!assignment || !user) return;
     try {
@@ -232,6 +242,7 @@ export default function DriverEmergencyScreen() {
       const { error } = await acceptEmergency(
         assignment.id,
         assignment.emergency_id,
+        currentEmergencyStatus(),
       );
       if (error) {
         const msg = error.message || translateText("Failed to accept emergency");
@@ -258,6 +269,7 @@ export default function DriverEmergencyScreen() {
         const { error } = await declineEmergency(
           assignment.id,
           assignment.emergency_id,
+          currentEmergencyStatus(),
         );
         if (error) {
           const msg = error.message || translateText("Failed to decline");
@@ -369,8 +381,7 @@ export default function DriverEmergencyScreen() {
       patientCoords.latitude,
       patientCoords.longitude,
     );
-    distanceText =
-      km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+    distanceText = formatDistance(km);
   }
 
   const mapHtml = (() => {
@@ -430,11 +441,10 @@ export default function DriverEmergencyScreen() {
               { color: isDark ? "#CBD5E1" : "#475569" },
             ]}
           >
-            {new Date(emergency?.created_at).toLocaleTimeString([], {
-              hour: "2-digit",
-              minute: "2-digit",
-            })}
-            {distanceText ? `  •  ${distanceText} away` : ""}
+            {emergency?.created_at ? formatTime(emergency.created_at) : ""}
+            {distanceText
+              ? `  •  ${t("distance_away", { distance: distanceText })}`
+              : ""}
           </ThemedText>
         </View>
 
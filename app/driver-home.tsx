@@ -11,9 +11,11 @@ import {
     View,
 } from "react-native";
 
+import { AmbulanceInventoryCard } from "@/components/ambulance-inventory-card";
 import { AppButton } from "@/components/app-button";
 import { AppHeader } from "@/components/app-header";
 import { useAppState } from "@/components/app-state";
+import { DriverShiftCard } from "@/components/driver-shift-card";
 import { LanguageToggle } from "@/components/language-toggle";
 import { useModal } from "@/components/modal-context";
 import { ThemedText } from "@/components/themed-text";
@@ -24,6 +26,7 @@ import { useColorScheme } from "@/hooks/use-color-scheme";
 import { signOut } from "@/utils/auth";
 import { calculateDistance } from "@/utils/emergency";
 import { t } from "@/utils/i18n";
+import { formatDate, formatTime } from "@/utils/i18n-format";
 
 import {
     ensureAmbulanceHospitalLink,
@@ -37,6 +40,15 @@ import {
     toggleAmbulanceAvailability,
     type AmbulanceDetails,
 } from "@/utils/driver";
+import {
+  getShiftStatus,
+  type DriverShift,
+  type ShiftStatus,
+} from "@/utils/driver-shifts";
+import {
+  setDriverTrackingPaused,
+  stopDriverTracking,
+} from "@/utils/driver-tracking";
 import { getUserProfile, type UserProfile } from "@/utils/profile";
 import { useFocusEffect } from "@react-navigation/native";
 import { useRouter } from "expo-router";
@@ -53,22 +65,11 @@ export default function DriverHomeScreen() {
   const colors = Colors[colorScheme ?? "light"];
   const insets = useSafeAreaInsets();
   const { user, setUser } = useAppState();
-  const { showAlert, showError, showConfirm } = useModal();
-
-  const confirmAvailabilityChange = (newVal: boolean) =>
-    new Promise<boolean>((resolve) => {
-      showConfirm(
-        newVal ? "Go Available" : "Go Offline",
-        newVal
-          ? "You will start receiving emergency assignments and share live location updates. Continue?"
-          : "You will stop receiving new emergency assignments. Continue?",
-        () => resolve(true),
-        () => resolve(false),
-      );
-    });
+  const { showAlert, showError } = useModal();
 
   const [isAvailable, setIsAvailable] = useState(false);
-  const [toggleLoading, setToggleLoading] = useState(false);
+  // Null until the open shift (if any) has been loaded.
+  const [shiftStatus, setShiftStatus] = useState<ShiftStatus | null>(null);
   const [hasAssignment, setHasAssignment] = useState(false);
   const [assignmentCount, setAssignmentCount] = useState(0);
   const [ambulanceId, setAmbulanceId] = useState<string | null>(null);
@@ -107,7 +108,6 @@ export default function DriverHomeScreen() {
       const { ambulance } = await getDriverAmbulanceDetails(user.id);
       if (ambulance) {
         setAmbulanceDetails(ambulance);
-        setIsAvailable(Boolean(ambulance.is_available));
 
         if (!ambulance.hospital_id && id) {
           try {
@@ -125,7 +125,6 @@ export default function DriverHomeScreen() {
               );
               if (refreshed) {
                 setAmbulanceDetails(refreshed);
-                setIsAvailable(Boolean(refreshed.is_available));
               }
             }
           } catch (linkErr) {
@@ -198,6 +197,14 @@ export default function DriverHomeScreen() {
     }, [user]),
   );
 
+  // Drivers who went available before shifts existed: take the ambulance
+  // out of dispatch until they check in.
+  useEffect(() => {
+    if (!ambulanceId || !ambulanceDetails?.is_available) return;
+    if (shiftStatus === null || shiftStatus === "on_duty") return;
+    void toggleAmbulanceAvailability(ambulanceId, false);
+  }, [ambulanceId, ambulanceDetails, shiftStatus]);
+
   // Check for existing assignment
   useEffect(() => {
     if (!user) return;
@@ -211,6 +218,7 @@ export default function DriverHomeScreen() {
         // No active assignment -> clear stale state
         setHasAssignment(false);
         setAssignmentCount(0);
+        if (!error) void stopDriverTracking();
       }
     };
 
@@ -346,9 +354,53 @@ export default function DriverHomeScreen() {
     };
   }, [isAvailable, user, ambulanceId, showError, showAlert]);
 
+  // The shift decides whether the ambulance takes calls: on duty it is
+  // available, on a break or off duty it is not.
+  const handleShiftChange = useCallback(
+    async (
+      shift: DriverShift | null,
+      { loaded, handedOver }: { loaded?: boolean; handedOver?: boolean },
+    ) => {
+      const status = getShiftStatus(shift);
+      const onDuty = status === "on_duty";
+      setShiftStatus(status);
+      setIsAvailable(onDuty);
+      void setDriverTrackingPaused(!onDuty);
+
+      if (handedOver) {
+        // The ambulance now belongs to the next crew member.
+        setAmbulanceId(null);
+        setAmbulanceDetails(null);
+        return;
+      }
+      if (!ambulanceId) return;
+
+      if (onDuty && !loaded) {
+        // Push one immediate location update so patient nearby list can populate quickly.
+        try {
+          const { status } = await Location.getForegroundPermissionsAsync();
+          if (status === "granted") {
+            const current = await Location.getCurrentPositionAsync({
+              accuracy: Location.Accuracy.High,
+            });
+            await sendLocationUpdate(
+              ambulanceId,
+              current.coords.latitude,
+              current.coords.longitude,
+            );
+          }
+        } catch (initialSendErr) {
+          console.warn("Immediate location update failed:", initialSendErr);
+        }
+      }
+    },
+    [ambulanceId],
+  );
+
   const handleLogout = async () => {
     setIsAvailable(false);
     if (ambulanceId) await toggleAmbulanceAvailability(ambulanceId, false);
+    await stopDriverTracking();
     const { error } = await signOut();
     if (!error) {
       setUser(null);
@@ -518,94 +570,27 @@ export default function DriverHomeScreen() {
             {t("ambulance_status")}
           </ThemedText>
 
-          <Pressable
-            onPress={async () => {
-              const newVal = !isAvailable;
-
-              const ok = await confirmAvailabilityChange(newVal);
-              if (!ok) return;
-
-              setToggleLoading(true);
-              setIsAvailable(newVal);
-
-              if (ambulanceId) {
-                const { error } = await toggleAmbulanceAvailability(
-                  ambulanceId,
-                  newVal,
-                );
-                if (error) {
-                  console.warn("Failed to sync availability:", error);
-                  setIsAvailable(!newVal);
-                  showError(
-                    "Status Update Failed",
-                    "Could not update ambulance availability. Please try again.",
-                  );
-                  setToggleLoading(false);
-                  return;
-                }
+          <DriverShiftCard
+            driverId={user?.id}
+            ambulanceId={ambulanceId}
+            hasAssignment={hasAssignment}
+            history={history}
+            activeCount={activeCount}
+            onShiftChange={handleShiftChange}
+          />
 
-                if (newVal) {
-                  // Push one immediate location update so patient nearby list can populate quickly.
-                  try {
-                    const { status } =
-                      await Location.getForegroundPermissionsAsync();
-                    if (status === "granted") {
-                      const current = await Location.getCurrentPositionAsync({
-                        accuracy: Location.Accuracy.High,
-                      });
-                      await sendLocationUpdate(
-                        ambulanceId,
-                        current.coords.latitude,
-                        current.coords.longitude,
-                      );
-                    }
-                  } catch (initialSendErr) {
-                    console.warn(
-                      "Immediate location update failed:",
-                      initialSendErr,
-                    );
-                  }
-                }
+          {ambulanceId && (
+            <AmbulanceInventoryCard
+              ambulanceId={ambulanceId}
+              inventory={ambulanceDetails?.inventory}
+              onSaved={(inventory) =>
+                setAmbulanceDetails((prev) =>
+                  prev ? { ...prev, inventory } : prev,
+                )
               }
-
-              setTimeout(() => setToggleLoading(false), 100);
-            }}
-            style={[
-              styles.statusToggle,
-              {
-                backgroundColor: isAvailable ? "#10B981" : "#6B7280",
-              },
-            ]}
-          >
-            {toggleLoading ? (
-              <View
-                style={{
-                  width: 32,
-                  height: 32,
-                  alignItems: "center",
-                  justifyContent: "center",
-                }}
-              >
-                <ActivityIndicator color="#fff" size="small" />
-              </View>
-            ) : (
-              <MaterialIcons
-                name={isAvailable ? "check-circle" : "radio-button-unchecked"}
-                size={32}
-                color="#fff"
-              />
-            )}
-            <View style={{ marginLeft: 12 }}>
-              <ThemedText style={styles.statusLabel}>
-                {isAvailable ? t("available") : t("offline")}
-              </ThemedText>
-              <ThemedText style={styles.statusSubtitle}>
-                {isAvailable
-                  ? t("ready_to_receive_calls")
-                  : t("not_receiving_calls")}
-              </ThemedText>
-            </View>
-          </Pressable>
+              style={styles.inventoryCard}
+            />
+          )}
         </ThemedView>
 
         <ThemedView
@@ -777,16 +762,7 @@ export default function DriverHomeScreen() {
                         </ThemedText>
                       </View>
                       <ThemedText style={styles.historyDate}>
-                        {item.updated_at
-                          ? new Date(item.updated_at).toLocaleDateString(
-                              "en-US",
-                              {
-                                month: "short",
-                                day: "numeric",
-                                year: "numeric",
-                              },
-                            )
-                          : "--"}
+                        {item.updated_at ? formatDate(item.updated_at) : "--"}
                       </ThemedText>
                     </View>
                     {item.description ? (
@@ -801,15 +777,7 @@ export default function DriverHomeScreen() {
                         color={isDark ? "#9CA3AF" : "#6B7280"}
                       />
                       <ThemedText style={styles.historyMetaText}>
-                        {item.created_at
-                          ? new Date(item.created_at).toLocaleTimeString(
-                              "en-US",
-                              {
-                                hour: "2-digit",
-                                minute: "2-digit",
-                              },
-                            )
-                          : "--"}
+                        {item.created_at ? formatTime(item.created_at) : "--"}
                       </ThemedText>
                       <MaterialIcons
                         name="check-circle"
@@ -971,6 +939,9 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  inventoryCard: {
+    marginTop: 12,
+  },
   scroll: {
     padding: 18,
     paddingBottom: 40,
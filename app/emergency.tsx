@@ -4,6 +4,7 @@ import { LanguageToggle } from "@/components/language-toggle";
 import { useModal } from "@/components/modal-context";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { VoiceSosButton } from "@/components/voice-sos-button";
 import { Colors, Fonts } from "@/constants/theme";
 import { useAuthGuard } from "@/hooks/use-auth-guard";
 import { useColorScheme } from "@/hooks/use-color-scheme";
@@ -13,7 +14,13 @@ import {
     getAvailableAmbulances,
     parsePostGISPoint,
 } from "@/utils/emergency";
+import { t } from "@/utils/i18n";
 import { createEmergency } from "@/utils/patient";
+import {
+  attachVoiceNote,
+  buildVoiceSosDescription,
+  type VoiceSosCapture,
+} from "@/utils/voice-sos";
 import { MaterialIcons } from "@expo/vector-icons";
 import * as Location from "expo-location";
 import { useRouter } from "expo-router";
@@ -111,8 +118,8 @@ export default function EmergencyScreen() {
     }
   }, [showError]);
 
-  // Call emergency
-  const handleEmergencyCall = async () => {
+  // Call emergency; a voice SOS supplies its own type and description
+  const handleEmergencyCall = async (voice?: VoiceSosCapture) => {
     if (!user) {
       showError(
         "Authentication Required",
@@ -140,8 +147,10 @@ export default function EmergencyScreen() {
         user.id,
         latitude,
         longitude,
-        "medical",
-        "Emergency ambulance request",
+        voice?.emergencyType ?? "medical",
+        voice
+          ? buildVoiceSosDescription(voice)
+          : "Emergency ambulance request",
       );
 
       if (error || !emergency) {
@@ -153,6 +162,10 @@ export default function EmergencyScreen() {
         return;
       }
 
+      if (voice?.audioUri) {
+        void attachVoiceNote(emergency.id, voice);
+      }
+
       // Fetch available ambulances for display
       const { ambulances } = await getAvailableAmbulances();
       if (ambulances && ambulances.length > 0) {
@@ -266,7 +279,7 @@ export default function EmergencyScreen() {
         <View style={styles.buttonContainer}>
           <Pressable
             style={[styles.callButton, loading && styles.callButtonDisabled]}
-            onPress={handleEmergencyCall}
+            onPress={() => handleEmergencyCall()}
             disabled={loading}
           >
             {loading ? (
@@ -282,6 +295,13 @@ export default function EmergencyScreen() {
           </Pressable>
         </View>
 
+        <View style={styles.voiceSos}>
+          <VoiceSosButton
+            onCapture={(capture) => handleEmergencyCall(capture)}
+            disabled={loading}
+          />
+        </View>
+
         {/* Quick Actions */}
         <View style={styles.quickActions}>
           <Pressable
@@ -307,7 +327,9 @@ export default function EmergencyScreen() {
               type="subtitle"
               style={[styles.ambulancesTitle, { color: textColor }]}
             >
-              Available Ambulances ({nearbyAmbulances.length})
+              {t("available_ambulance_count", {
+                count: nearbyAmbulances.length,
+              })}
             </ThemedText>
             {nearbyAmbulances.map((ambulance) => (
               <View
@@ -446,6 +468,10 @@ const styles = StyleSheet.create({
     textAlign: "center",
     fontFamily: Fonts.sansExtraBold,
   },
+  voiceSos: {
+    width: "100%",
+    marginBottom: 24,
+  },
   quickActions: {
     flexDirection: "row",
     gap: 12,
@@ -1,5 +1,11 @@
 import MaterialIcons from "@expo/vector-icons/MaterialIcons";
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import React, {
+    useCallback,
+    useEffect,
+    useMemo,
+    useRef,
+    useState,
+} from "react";
 import {
     Animated,
     FlatList,
@@ -13,19 +19,20 @@ import {
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
+import { RedFlagSosCard } from "@/components/red-flag-sos-card";
 import { ThemedText } from "@/components/themed-text";
 import { Fonts } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import {
-    getFirstAidAiResponse,
     isFirstAidAiConfigured,
+    streamFirstAidAiResponse,
 } from "@/utils/first-aid-ai";
 import { type Message } from "@/utils/first-aid-chatbot";
+import { translateText } from "@/utils/i18n";
 import { type Lang, LANG_LABELS, UI } from "@/utils/i18n-first-aid";
+import { getPendingRedFlagEscalation } from "@/utils/red-flags";
 import { useRouter } from "expo-router";
 
-const MIN_TYPING_MS = 1200;
-
 // ─── Plain text renderer (no markdown) ──────────────────────────────────────
 function MarkdownText({ text, style }: { text: string; style?: object }) {
   // Strip any asterisks from the text
@@ -37,9 +44,14 @@ function MarkdownText({ text, style }: { text: string; style?: object }) {
 function MessageBubble({
   message,
   isDark,
+  lang,
+  streaming = false,
 }: {
   message: Message;
   isDark: boolean;
+  lang: Lang;
+  /** Partial reply still arriving; shows a cursor after the text. */
+  streaming?: boolean;
 }) {
   const isBot = message.role === "bot";
   return (
@@ -59,6 +71,29 @@ function MessageBubble({
         </View>
       )}
       <View style={[styles.bubbleContent, !isBot && { alignItems: "flex-end" }]}> 
+        {isBot && message.offline && (
+          <View
+            style={[
+              styles.offlineBadge,
+              { backgroundColor: isDark ? "#78350F" : "#FEF3C7" },
+            ]}
+          >
+            <MaterialIcons
+              name="cloud-off"
+              size={12}
+              color={isDark ? "#FDE68A" : "#92400E"}
+            />
+            <ThemedText
+              style={[
+                styles.offlineBadgeText,
+                { color: isDark ? "#FDE68A" : "#92400E" },
+              ]}
+              translate={false}
+            >
+              {UI[lang].offlineBadge}
+            </ThemedText>
+          </View>
+        )}
         <View
           style={[
             styles.bubble,
@@ -80,7 +115,7 @@ function MessageBubble({
           ]}
         >
           <MarkdownText
-            text={message.text}
+            text={streaming ? `${message.text}▍` : message.text}
             style={[
               styles.bubbleText,
               {
@@ -89,6 +124,17 @@ function MessageBubble({
             ]}
           />
         </View>
+        {isBot && message.stopped && (
+          <ThemedText
+            style={[
+              styles.stoppedNote,
+              { color: isDark ? "#7C8DA6" : "#6B7C93" },
+            ]}
+            translate={false}
+          >
+            {UI[lang].stoppedNote}
+          </ThemedText>
+        )}
       </View>
     </View>
   );
@@ -172,7 +218,13 @@ export default function FirstAidChatScreen() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const [streamingText, setStreamingText] = useState("");
+  const [dismissedRedFlagAt, setDismissedRedFlagAt] = useState<number | null>(
+    null,
+  );
   const flatListRef = useRef<FlatList>(null);
+  const replyAbortRef = useRef<AbortController | null>(null);
+  const redFlag = useMemo(() => getPendingRedFlagEscalation(messages), [messages]);
 
   const bg = isDark ? "#0B1220" : "#EEF3F8";
   const headerBg = isDark ? "#111827" : "#FFFFFF";
@@ -187,6 +239,12 @@ export default function FirstAidChatScreen() {
     setTimeout(() => flatListRef.current?.scrollToEnd({ animated: true }), 100);
   }, []);
 
+  useEffect(() => () => replyAbortRef.current?.abort(), []);
+
+  const stopReply = useCallback(() => {
+    replyAbortRef.current?.abort();
+  }, []);
+
   const sendMessage = useCallback(
     (text: string) => {
       const trimmed = text.trim();
@@ -199,29 +257,29 @@ export default function FirstAidChatScreen() {
       setIsTyping(true);
       scrollToBottom();
 
+      const controller = new AbortController();
+      replyAbortRef.current = controller;
+
       const fetchReply = async () => {
-        const typingStartedAt = Date.now();
         try {
-          const aiReply = await getFirstAidAiResponse(
+          const botMsg = await streamFirstAidAiResponse(
             trimmed,
             historyForReply,
             lang,
+            { signal: controller.signal, onText: setStreamingText },
           );
-          const botMsg: Message = aiReply ?? {
-            role: "bot" as const,
-            text: "Sorry, I couldn't reach the AI service right now. Please try again shortly.",
-          };
-
-          const elapsed = Date.now() - typingStartedAt;
-          if (elapsed < MIN_TYPING_MS) {
-            await new Promise((resolve) =>
-              setTimeout(resolve, MIN_TYPING_MS - elapsed),
-            );
-          }
+          // The chat was cleared while the reply was in flight
+          if (replyAbortRef.current !== controller) return;
+          // Stopped before any text arrived: nothing worth keeping
+          if (botMsg.stopped && !botMsg.text) return;
 
           setMessages((prev) => [...prev, botMsg]);
           scrollToBottom();
         } finally {
+          if (replyAbortRef.current === controller) {
+            replyAbortRef.current = null;
+          }
+          setStreamingText("");
           setIsTyping(false);
         }
       };
@@ -264,7 +322,7 @@ export default function FirstAidChatScreen() {
             },
             pressed && { opacity: 0.7 },
           ]}
-          accessibilityLabel="Close chatbot"
+          accessibilityLabel={translateText("Close chatbot")}
         >
           <MaterialIcons name="close" size={22} color={textClr} />
         </Pressable>
@@ -293,6 +351,9 @@ export default function FirstAidChatScreen() {
               key={l}
               onPress={() => {
                 if (l !== lang) {
+                  const pendingReply = replyAbortRef.current;
+                  replyAbortRef.current = null;
+                  pendingReply?.abort();
                   setLang(l);
                   setMessages([]);
                 }
@@ -373,10 +434,29 @@ export default function FirstAidChatScreen() {
               data={messages}
               keyExtractor={(_, i) => String(i)}
               renderItem={({ item }) => (
-                <MessageBubble message={item} isDark={isDark} />
+                <MessageBubble message={item} isDark={isDark} lang={lang} />
               )}
               ListFooterComponent={
-                isTyping ? <TypingIndicator isDark={isDark} /> : null
+                <>
+                  {isTyping &&
+                    (streamingText ? (
+                      <MessageBubble
+                        message={{ role: "bot", text: streamingText }}
+                        isDark={isDark}
+                        lang={lang}
+                        streaming
+                      />
+                    ) : (
+                      <TypingIndicator isDark={isDark} />
+                    ))}
+                  {redFlag && redFlag.messageIndex !== dismissedRedFlagAt && (
+                    <RedFlagSosCard
+                      escalation={redFlag}
+                      lang={lang}
+                      onDismiss={() => setDismissedRedFlagAt(redFlag.messageIndex)}
+                    />
+                  )}
+                </>
               }
                 contentContainerStyle={[styles.messageList, { paddingBottom: 16, backgroundColor: bg }]}
               onContentSizeChange={scrollToBottom}
@@ -423,28 +503,42 @@ export default function FirstAidChatScreen() {
               blurOnSubmit={false}
             />
           </View>
-          <Pressable
-            onPress={() => sendMessage(inputText)}
-            disabled={!inputText.trim() || isTyping}
-            style={({ pressed }) => [
-              styles.sendBtn,
-              {
-                backgroundColor:
-                  inputText.trim() && !isTyping
+          {isTyping ? (
+            <Pressable
+              onPress={stopReply}
+              style={({ pressed }) => [
+                styles.sendBtn,
+                { backgroundColor: isDark ? "#334155" : "#0F172A" },
+                pressed && { opacity: 0.8 },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel={UI[lang].stopReply}
+            >
+              <MaterialIcons name="stop" size={20} color="#FFFFFF" />
+            </Pressable>
+          ) : (
+            <Pressable
+              onPress={() => sendMessage(inputText)}
+              disabled={!inputText.trim()}
+              style={({ pressed }) => [
+                styles.sendBtn,
+                {
+                  backgroundColor: inputText.trim()
                     ? "#DC2626"
                     : isDark
                       ? "#334155"
                       : "#E2E8F0",
-              },
-              pressed && { opacity: 0.8 },
-            ]}
-          >
-            <MaterialIcons
-              name="send"
-              size={20}
-              color={inputText.trim() && !isTyping ? "#FFFFFF" : mutedClr}
-            />
-          </Pressable>
+                },
+                pressed && { opacity: 0.8 },
+              ]}
+            >
+              <MaterialIcons
+                name="send"
+                size={20}
+                color={inputText.trim() ? "#FFFFFF" : mutedClr}
+              />
+            </Pressable>
+          )}
         </View>
       </KeyboardAvoidingView>
     </View>
@@ -667,6 +761,25 @@ const styles = StyleSheet.create({
     lineHeight: 21,
     fontFamily: Fonts.sans,
   },
+  offlineBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: RADIUS.sm,
+  },
+  offlineBadgeText: {
+    fontSize: TYPE.caption,
+    fontFamily: Fonts.sansSemiBold,
+  },
+  stoppedNote: {
+    fontSize: TYPE.caption,
+    fontFamily: Fonts.sans,
+    fontStyle: "italic",
+    marginTop: SPACING.xs,
+  },
 
   // Typing indicator
   typingDot: {
@@ -0,0 +1,705 @@
+import MaterialIcons from "@expo/vector-icons/MaterialIcons";
+import * as Haptics from "expo-haptics";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import * as Speech from "expo-speech";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Linking,
+  Pressable,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Switch,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { useAppState } from "@/components/app-state";
+import { useModal } from "@/components/modal-context";
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Fonts } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  advanceChokingCounter,
+  advanceCprCounter,
+  beatIntervalMs,
+  BREATH_PAUSE_MS,
+  clampCompressionRate,
+  COACH_PROTOCOLS,
+  type CoachOutcome,
+  type CoachProtocol,
+  COMPRESSION_RATE_DEFAULT_BPM,
+  COMPRESSION_RATE_MAX_BPM,
+  COMPRESSION_RATE_MIN_BPM,
+  COMPRESSIONS_PER_CYCLE,
+  createChokingCounter,
+  createCprCounter,
+  formatElapsed,
+  isCoachProtocol,
+  isCprProtocol,
+  logCoachSession,
+  summarizeChokingSession,
+  summarizeCprSession,
+} from "@/utils/first-aid-coach";
+import { translateText } from "@/utils/i18n";
+import { COACH } from "@/utils/i18n-first-aid";
+import { getActiveEmergency } from "@/utils/patient";
+
+const SPEECH_LANGUAGE = { en: "en-US", am: "am-ET", om: "om-ET" } as const;
+
+export default function FirstAidCoachScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { lang } = useI18n();
+  const strings = COACH[lang];
+  const { user } = useAppState();
+  const { showAlert } = useModal();
+  const params = useLocalSearchParams<{
+    protocol?: string;
+    emergencyId?: string;
+  }>();
+
+  const [protocol, setProtocol] = useState<CoachProtocol>(
+    isCoachProtocol(params.protocol) ? params.protocol : "cpr_adult",
+  );
+  const [emergencyId, setEmergencyId] = useState<string | null>(
+    typeof params.emergencyId === "string" ? params.emergencyId : null,
+  );
+  const [running, setRunning] = useState(false);
+  const [startedAt, setStartedAt] = useState<Date | null>(null);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [bpm, setBpm] = useState(COMPRESSION_RATE_DEFAULT_BPM);
+  const [handsOnly, setHandsOnly] = useState(false);
+  const [cpr, setCpr] = useState(() => createCprCounter());
+  const [choking, setChoking] = useState(() => createChokingCounter());
+
+  const isCpr = isCprProtocol(protocol);
+
+  // A patient launching the coach from the FAB is linked to their active
+  // emergency so the session reaches the crew's timeline.
+  useEffect(() => {
+    if (emergencyId || !user?.id || user.role !== "patient") return;
+    let cancelled = false;
+    void getActiveEmergency(user.id).then(({ emergency }) => {
+      if (!cancelled && emergency?.id) setEmergencyId(emergency.id);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [emergencyId, user?.id, user?.role]);
+
+  const speak = useCallback(
+    (text: string) => {
+      try {
+        void Speech.stop();
+        Speech.speak(text, { language: SPEECH_LANGUAGE[lang] });
+      } catch {
+        // Spoken prompts are optional; the visual prompt is always shown
+      }
+    },
+    [lang],
+  );
+
+  // Elapsed timer runs from the first start until the session is finished.
+  useEffect(() => {
+    if (!startedAt) return;
+    const timer = setInterval(() => {
+      setElapsedSeconds(Math.round((Date.now() - startedAt.getTime()) / 1000));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [startedAt]);
+
+  // Compression metronome.
+  useEffect(() => {
+    if (!running || !isCpr || cpr.phase !== "compressions") return;
+    const timer = setInterval(() => {
+      void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy).catch(
+        () => {},
+      );
+      setCpr((prev) => advanceCprCounter(prev, "compression"));
+    }, beatIntervalMs(bpm));
+    return () => clearInterval(timer);
+  }, [running, isCpr, cpr.phase, bpm]);
+
+  // Breath pause, then back to compressions.
+  useEffect(() => {
+    if (!running || !isCpr || cpr.phase !== "breaths") return;
+    speak(strings.promptBreaths);
+    void Haptics.notificationAsync(
+      Haptics.NotificationFeedbackType.Warning,
+    ).catch(() => {});
+    const timer = setTimeout(() => {
+      setCpr((prev) => advanceCprCounter(prev, "breaths_done"));
+      speak(strings.promptResume);
+    }, BREATH_PAUSE_MS);
+    return () => clearTimeout(timer);
+  }, [running, isCpr, cpr.phase, speak, strings]);
+
+  const resetSession = () => {
+    setRunning(false);
+    setStartedAt(null);
+    setElapsedSeconds(0);
+    setCpr(createCprCounter(handsOnly));
+    setChoking(createChokingCounter());
+  };
+
+  const selectProtocol = (next: CoachProtocol) => {
+    if (startedAt || next === protocol) return;
+    setProtocol(next);
+  };
+
+  const startOrToggle = () => {
+    if (startedAt) {
+      setRunning((prev) => !prev);
+      return;
+    }
+    setStartedAt(new Date());
+    setCpr(createCprCounter(handsOnly));
+    setRunning(true);
+    speak(strings.promptPush);
+  };
+
+  const countChokingAction = () => {
+    if (!startedAt) {
+      setStartedAt(new Date());
+      setRunning(true);
+    }
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium).catch(
+      () => {},
+    );
+    const next = advanceChokingCounter(choking);
+    if (next.action !== choking.action) {
+      speak(
+        next.action === "thrusts"
+          ? strings.promptThrusts
+          : strings.promptBackBlows,
+      );
+    }
+    setChoking(next);
+  };
+
+  const finishSession = async (outcome: CoachOutcome) => {
+    if (!startedAt) return;
+    const summary = isCpr
+      ? summarizeCprSession({ protocol, startedAt, counter: cpr, bpm, outcome })
+      : summarizeChokingSession({ startedAt, counter: choking, outcome });
+    resetSession();
+    await logCoachSession(emergencyId, summary);
+
+    if (outcome === "switched_to_cpr") {
+      setProtocol("cpr_adult");
+      speak(strings.promptPush);
+      setStartedAt(new Date());
+      setRunning(true);
+      return;
+    }
+    showAlert(
+      strings.title,
+      `${formatElapsed(summary.durationSeconds)} · ${
+        emergencyId ? strings.sessionLogged : strings.sessionNotLinked
+      }`,
+    );
+  };
+
+  const changeRate = (delta: number) =>
+    setBpm((prev) => clampCompressionRate(prev + delta));
+
+  const prompt = isCpr
+    ? cpr.phase === "breaths"
+      ? strings.promptBreaths
+      : strings.promptPush
+    : choking.action === "thrusts"
+    ? strings.promptThrusts
+    : strings.promptBackBlows;
+
+  return (
+    <View style={[styles.root, { backgroundColor: colors.background }]}>
+      <StatusBar
+        barStyle={colorScheme === "dark" ? "light-content" : "dark-content"}
+      />
+      <View
+        style={[
+          styles.header,
+          { paddingTop: insets.top + 10, borderBottomColor: colors.border },
+        ]}
+      >
+        <ThemedText
+          style={[styles.headerTitle, { color: colors.text }]}
+          translate={false}
+        >
+          {strings.title}
+        </ThemedText>
+        <Pressable
+          onPress={() => router.back()}
+          style={({ pressed }) => [
+            styles.iconBtn,
+            { backgroundColor: colors.surfaceMuted },
+            pressed && { opacity: 0.7 },
+          ]}
+          accessibilityRole="button"
+          accessibilityLabel={translateText("Close coach")}
+        >
+          <MaterialIcons name="close" size={22} color={colors.text} />
+        </Pressable>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          { paddingBottom: insets.bottom + 24 },
+        ]}
+      >
+        <View style={styles.protocolRow}>
+          {COACH_PROTOCOLS.map((item) => {
+            const active = item === protocol;
+            return (
+              <Pressable
+                key={item}
+                onPress={() => selectProtocol(item)}
+                disabled={!!startedAt && !active}
+                style={[
+                  styles.protocolChip,
+                  {
+                    backgroundColor: active ? colors.danger : colors.surface,
+                    borderColor: active ? colors.danger : colors.border,
+                    opacity: startedAt && !active ? 0.5 : 1,
+                  },
+                ]}
+                accessibilityRole="button"
+                accessibilityState={{ selected: active }}
+              >
+                <ThemedText
+                  style={[
+                    styles.protocolChipText,
+                    { color: active ? "#FFFFFF" : colors.text },
+                  ]}
+                  translate={false}
+                >
+                  {strings.protocols[item].label}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <View
+          style={[
+            styles.card,
+            { backgroundColor: colors.surface, borderColor: colors.border },
+          ]}
+        >
+          <ThemedText
+            style={[styles.instruction, { color: colors.textMuted }]}
+            translate={false}
+          >
+            {strings.protocols[protocol].instruction}
+          </ThemedText>
+        </View>
+
+        <Pressable
+          onPress={isCpr ? startOrToggle : countChokingAction}
+          style={({ pressed }) => [
+            styles.pad,
+            {
+              backgroundColor:
+                isCpr && cpr.phase === "breaths"
+                  ? colors.warning
+                  : colors.danger,
+            },
+            pressed && { opacity: 0.85 },
+          ]}
+          accessibilityRole="button"
+          accessibilityLabel={prompt}
+        >
+          <ThemedText style={styles.padCount} translate={false}>
+            {isCpr
+              ? cpr.phase === "breaths"
+                ? "2"
+                : `${cpr.compressionInCycle}/${COMPRESSIONS_PER_CYCLE}`
+              : String(choking.countInSet)}
+          </ThemedText>
+          <ThemedText style={styles.padPrompt} translate={false}>
+            {prompt}
+          </ThemedText>
+          <ThemedText style={styles.padHint} translate={false}>
+            {isCpr
+              ? startedAt
+                ? running
+                  ? strings.pause
+                  : strings.resume
+                : strings.start
+              : strings.tapToCount}
+          </ThemedText>
+        </Pressable>
+
+        <View style={styles.statsRow}>
+          <Stat
+            label={strings.elapsed}
+            value={formatElapsed(elapsedSeconds)}
+            colors={colors}
+          />
+          {isCpr ? (
+            <>
+              <Stat
+                label={strings.cycle}
+                value={String(cpr.cycle)}
+                colors={colors}
+              />
+              <Stat
+                label={strings.compressions}
+                value={String(cpr.totalCompressions)}
+                colors={colors}
+              />
+            </>
+          ) : (
+            <Stat
+              label={strings.cycle}
+              value={String(choking.rounds + 1)}
+              colors={colors}
+            />
+          )}
+        </View>
+
+        {isCpr && (
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.surface, borderColor: colors.border },
+            ]}
+          >
+            <View style={styles.settingRow}>
+              <ThemedText
+                style={[styles.settingLabel, { color: colors.text }]}
+                translate={false}
+              >
+                {strings.rate}
+              </ThemedText>
+              <View style={styles.stepper}>
+                <Pressable
+                  onPress={() => changeRate(-5)}
+                  disabled={bpm <= COMPRESSION_RATE_MIN_BPM}
+                  style={[
+                    styles.iconBtn,
+                    { backgroundColor: colors.surfaceMuted },
+                  ]}
+                  accessibilityLabel={translateText("Slower")}
+                >
+                  <MaterialIcons name="remove" size={20} color={colors.text} />
+                </Pressable>
+                <ThemedText
+                  style={[styles.rateValue, { color: colors.text }]}
+                  translate={false}
+                >
+                  {bpm} bpm
+                </ThemedText>
+                <Pressable
+                  onPress={() => changeRate(5)}
+                  disabled={bpm >= COMPRESSION_RATE_MAX_BPM}
+                  style={[
+                    styles.iconBtn,
+                    { backgroundColor: colors.surfaceMuted },
+                  ]}
+                  accessibilityLabel={translateText("Faster")}
+                >
+                  <MaterialIcons name="add" size={20} color={colors.text} />
+                </Pressable>
+              </View>
+            </View>
+            <View style={styles.settingRow}>
+              <ThemedText
+                style={[styles.settingLabel, { color: colors.text }]}
+                translate={false}
+              >
+                {strings.handsOnly}
+              </ThemedText>
+              <Switch
+                value={handsOnly}
+                disabled={!!startedAt}
+                onValueChange={(value) => {
+                  setHandsOnly(value);
+                  setCpr(createCprCounter(value));
+                }}
+              />
+            </View>
+          </View>
+        )}
+
+        {!!startedAt && (
+          <View style={styles.outcomes}>
+            {isCpr ? (
+              <>
+                <OutcomeButton
+                  label={strings.outcomeBreathing}
+                  icon="air"
+                  color={colors.success}
+                  onPress={() => void finishSession("breathing_restored")}
+                />
+                <OutcomeButton
+                  label={strings.outcomeHelpArrived}
+                  icon="local-hospital"
+                  color={colors.info}
+                  onPress={() => void finishSession("help_arrived")}
+                />
+              </>
+            ) : (
+              <>
+                <OutcomeButton
+                  label={strings.outcomeCleared}
+                  icon="check-circle"
+                  color={colors.success}
+                  onPress={() => void finishSession("object_cleared")}
+                />
+                <OutcomeButton
+                  label={strings.outcomeUnresponsive}
+                  icon="favorite"
+                  color={colors.danger}
+                  onPress={() => void finishSession("switched_to_cpr")}
+                />
+              </>
+            )}
+            <OutcomeButton
+              label={strings.finish}
+              icon="stop"
+              color={colors.textMuted}
+              onPress={() => void finishSession("stopped")}
+            />
+          </View>
+        )}
+
+        <Pressable
+          onPress={() => void Linking.openURL("tel:911")}
+          style={({ pressed }) => [
+            styles.callBtn,
+            { borderColor: colors.danger },
+            pressed && { opacity: 0.8 },
+          ]}
+          accessibilityRole="button"
+        >
+          <MaterialIcons name="call" size={20} color={colors.danger} />
+          <ThemedText
+            style={[styles.callText, { color: colors.danger }]}
+            translate={false}
+          >
+            {strings.callAmbulance}
+          </ThemedText>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+function Stat({
+  label,
+  value,
+  colors,
+}: {
+  label: string;
+  value: string;
+  colors: (typeof Colors)["light"];
+}) {
+  return (
+    <View
+      style={[
+        styles.stat,
+        { backgroundColor: colors.surface, borderColor: colors.border },
+      ]}
+    >
+      <ThemedText
+        style={[styles.statValue, { color: colors.text }]}
+        translate={false}
+      >
+        {value}
+      </ThemedText>
+      <ThemedText
+        style={[styles.statLabel, { color: colors.textMuted }]}
+        translate={false}
+      >
+        {label}
+      </ThemedText>
+    </View>
+  );
+}
+
+function OutcomeButton({
+  label,
+  icon,
+  color,
+  onPress,
+}: {
+  label: string;
+  icon: string;
+  color: string;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [
+        styles.outcomeBtn,
+        { borderColor: color },
+        pressed && { opacity: 0.8 },
+      ]}
+      accessibilityRole="button"
+    >
+      <MaterialIcons name={icon as any} size={18} color={color} />
+      <ThemedText style={[styles.outcomeText, { color }]} translate={false}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontFamily: Fonts.sansBold,
+  },
+  iconBtn: {
+    width: 38,
+    height: 38,
+    borderRadius: 10,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    padding: 16,
+    gap: 14,
+  },
+  protocolRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  protocolChip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  protocolChipText: {
+    fontSize: 13,
+    fontFamily: Fonts.sansSemiBold,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 14,
+    gap: 12,
+  },
+  instruction: {
+    fontSize: 14,
+    lineHeight: 20,
+    fontFamily: Fonts.sans,
+  },
+  pad: {
+    alignSelf: "center",
+    width: 240,
+    height: 240,
+    borderRadius: 120,
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 20,
+  },
+  padCount: {
+    color: "#FFFFFF",
+    fontSize: 48,
+    lineHeight: 56,
+    fontFamily: Fonts.sansExtraBold,
+  },
+  padPrompt: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    textAlign: "center",
+    fontFamily: Fonts.sansBold,
+  },
+  padHint: {
+    color: "#FFFFFFCC",
+    fontSize: 12,
+    marginTop: 6,
+    fontFamily: Fonts.sansSemiBold,
+    textTransform: "uppercase",
+  },
+  statsRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  stat: {
+    flex: 1,
+    borderRadius: 14,
+    borderWidth: 1,
+    paddingVertical: 10,
+    alignItems: "center",
+  },
+  statValue: {
+    fontSize: 20,
+    fontFamily: Fonts.sansExtraBold,
+  },
+  statLabel: {
+    fontSize: 12,
+    fontFamily: Fonts.sans,
+  },
+  settingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  settingLabel: {
+    fontSize: 14,
+    fontFamily: Fonts.sansSemiBold,
+    flexShrink: 1,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  rateValue: {
+    fontSize: 15,
+    fontFamily: Fonts.sansBold,
+    minWidth: 70,
+    textAlign: "center",
+  },
+  outcomes: {
+    gap: 8,
+  },
+  outcomeBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderWidth: 1.5,
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  outcomeText: {
+    fontSize: 14,
+    fontFamily: Fonts.sansBold,
+  },
+  callBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderWidth: 2,
+    borderRadius: 14,
+    paddingVertical: 14,
+  },
+  callText: {
+    fontSize: 15,
+    fontFamily: Fonts.sansExtraBold,
+  },
+});
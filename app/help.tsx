@@ -12,6 +12,7 @@ import { useColorScheme } from "@/hooks/use-color-scheme";
 import { signOut } from "@/utils/auth";
 import { buildMapHtml, calculateDistance } from "@/utils/emergency";
 import { t } from "@/utils/i18n";
+import { toLocationFix, type LocationFix } from "@/utils/location-integrity";
 import {
     getActiveEmergency,
     type PatientEmergency,
@@ -73,6 +74,8 @@ export default function HelpScreen() {
     longitude: number;
     at: number;
   } | null>(null);
+  // Latest raw reading, so the live update carries its accuracy and age.
+  const liveFixRef = React.useRef<LocationFix | null>(null);
 
   // Load profile name from DB
   React.useEffect(() => {
@@ -136,8 +139,10 @@ export default function HelpScreen() {
   React.useEffect(() => {
     let cancelled = false;
 
-    const applyCoords = (coords: Location.LocationObjectCoords) => {
+    const applyLocation = (location: Location.LocationObject) => {
       if (cancelled) return;
+      const { coords } = location;
+      liveFixRef.current = toLocationFix(location);
       setCurrentLocation({
         latitude: coords.latitude,
         longitude: coords.longitude,
@@ -163,14 +168,14 @@ export default function HelpScreen() {
           maxAge: 1000 * 60 * 10,
         });
         if (lastKnown) {
-          applyCoords(lastKnown.coords);
+          applyLocation(lastKnown);
         }
 
         const position = await Location.getCurrentPositionAsync({
           accuracy: Location.Accuracy.Highest,
           mayShowUserSettingsDialog: true,
         });
-        applyCoords(position.coords);
+        applyLocation(position);
 
         locationWatchRef.current = await Location.watchPositionAsync(
           {
@@ -178,7 +183,7 @@ export default function HelpScreen() {
             timeInterval: 5000,
             distanceInterval: 5,
           },
-          (next) => applyCoords(next.coords),
+          (next) => applyLocation(next),
         );
       } catch {
         if (!cancelled) {
@@ -224,6 +229,7 @@ export default function HelpScreen() {
       activeEmergencyId,
       currentLocation.latitude,
       currentLocation.longitude,
+      liveFixRef.current ?? undefined,
     );
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
@@ -256,6 +262,7 @@ export default function HelpScreen() {
         });
 
         if (!mounted) return;
+        liveFixRef.current = toLocationFix(fresh);
         setCurrentLocation({
           latitude: fresh.coords.latitude,
           longitude: fresh.coords.longitude,
@@ -1,14 +1,31 @@
+import { InventoryOverview } from "@/components/ambulance-inventory-card";
 import { AppHeader } from "@/components/app-header";
 import { useAppState } from "@/components/app-state";
+import { EmergencyTimeline } from "@/components/emergency-timeline";
+import { HandoverPacketCard } from "@/components/handover-packet-card";
 import { HtmlMapView } from "@/components/html-map-view";
 import { LanguageToggle } from "@/components/language-toggle";
+import { LocationConfidenceBadge } from "@/components/location-confidence-badge";
 import { useModal } from "@/components/modal-context";
 import { ThemedText } from "@/components/themed-text";
+import { TripReplay } from "@/components/trip-replay";
 import { Colors, Fonts } from "@/constants/theme";
 import { useAuthGuard } from "@/hooks/use-auth-guard";
 import { useColorScheme } from "@/hooks/use-color-scheme";
-import { backendGet, backendPost, backendPut } from "@/utils/api";
+import {
+  ApiError,
+  AuthError,
+  backendGet,
+  backendPost,
+  backendPut,
+} from "@/utils/api";
 import { signOut } from "@/utils/auth";
+import type {
+  AmbulanceApprovalRequest,
+  FleetAmbulanceShift,
+  HospitalFleetResponse,
+  HospitalProfileResponse,
+} from "@/utils/contracts";
 import {
     EmergencyRequest,
     buildDriverPatientMapHtml,
@@ -16,7 +33,18 @@ import {
     formatCoords,
     normalizeEmergency,
     parsePostGISPoint,
+    updateHospitalEmergencyStatus,
 } from "@/utils/emergency";
+import { EmergencyTransitionError } from "@/utils/emergency-lifecycle";
+import {
+    acknowledgeHandover,
+    getHandoverAcknowledgements,
+} from "@/utils/handover";
+import {
+  formatDateTime,
+  formatTime,
+  formatTimeAgo,
+} from "@/utils/i18n-format";
 import {
     NOTE_TYPE_LABELS,
     addMedicalNote,
@@ -55,44 +83,8 @@ interface EmergencyWithPatient extends EmergencyRequest {
   ambulance_vehicle?: string | null;
   ambulance_latitude?: number | null;
   ambulance_longitude?: number | null;
-}
-
-interface HospitalFleetResponse {
-  hospital_id: string;
-  total_ambulances: number;
-  available_ambulances: number;
-  busy_ambulances: number;
-  ambulances: any[];
-}
-
-interface HospitalProfileResponse {
-  hospital_id: string;
-  name?: string | null;
-  address?: string | null;
-  phone?: string | null;
-  is_accepting_emergencies?: boolean | null;
-  max_concurrent_emergencies?: number | null;
-  dispatch_weight?: number | null;
-  trauma_capable?: boolean | null;
-  icu_beds_available?: number | null;
-  average_handover_minutes?: number | null;
-}
-
-interface AmbulanceApprovalRequest {
-  user_id: string;
-  hospital_id: string;
-  full_name?: string | null;
-  phone?: string | null;
-  national_id?: string | null;
-  vehicle_number?: string | null;
-  registration_number?: string | null;
-  ambulance_type?: string | null;
-  status: "pending" | "approved" | "rejected";
-  requested_at?: string | null;
-  updated_at?: string | null;
-  reviewed_at?: string | null;
-  reviewed_by?: string | null;
-  review_note?: string | null;
+  ambulance_location_confidence?: number | null;
+  ambulance_location_flags?: string[] | null;
 }
 
 type StatusFilter = "all" | "active" | "at_hospital" | "completed";
@@ -175,6 +167,9 @@ export default function HospitalDashboard() {
   const [showHospitalVitals, setShowHospitalVitals] = useState(false);
   const [submittingHospitalNote, setSubmittingHospitalNote] = useState(false);
 
+  // Pre-arrival handover acknowledgements (emergency id → acknowledged at)
+  const [handoverAcks, setHandoverAcks] = useState<Record<string, string>>({});
+
   // Notification bell badge state
   const [notifCount, setNotifCount] = useState(0);
   const [notifHistory, setNotifHistory] = useState<
@@ -206,7 +201,11 @@ export default function HospitalDashboard() {
       const changed =
         updated.status !== selectedEmergency.status ||
         updated.ambulance_latitude !== selectedEmergency.ambulance_latitude ||
-        updated.ambulance_longitude !== selectedEmergency.ambulance_longitude;
+        updated.ambulance_longitude !== selectedEmergency.ambulance_longitude ||
+        updated.ambulance_location_confidence !==
+          selectedEmergency.ambulance_location_confidence ||
+        updated.patient_location_confidence !==
+          selectedEmergency.patient_location_confidence;
       if (changed) setSelectedEmergency(updated);
     }
   }, [emergencies, selectedEmergency, modalVisible]);
@@ -447,6 +446,10 @@ export default function HospitalDashboard() {
             ambulance_vehicle: (e as any).ambulance_vehicle ?? null,
             ambulance_latitude: (e as any).ambulance_latitude ?? null,
             ambulance_longitude: (e as any).ambulance_longitude ?? null,
+            ambulance_location_confidence:
+              (e as any).ambulance_location_confidence ?? null,
+            ambulance_location_flags:
+              (e as any).ambulance_location_flags ?? null,
           }) as EmergencyWithPatient,
       );
       setEmergencies(mapped);
@@ -489,16 +492,12 @@ export default function HospitalDashboard() {
       }
     } catch (error) {
       console.error("Error fetching emergencies:", error);
-      // Avoid noisy popup loops on free-tier/temporary data inconsistencies.
-      const msg = String((error as any)?.message ?? error ?? "").toLowerCase();
-      const isAuthTransitionError =
-        msg.includes("auth session missing") ||
-        msg.includes("not authenticated") ||
-        msg.includes("session does not exist") ||
-        msg.includes("session missing") ||
-        msg.includes("jwt expired") ||
-        msg.includes("401");
-      if (!msg.includes("hospital_id is required") && !isAuthTransitionError) {
+      // Avoid noisy popup loops on free-tier/temporary data inconsistencies:
+      // signing out, or a hospital account not yet linked to a hospital (403).
+      const isAuthTransitionError = error instanceof AuthError;
+      const isUnlinkedHospital =
+        error instanceof ApiError && error.status === 403;
+      if (!isUnlinkedHospital && !isAuthTransitionError) {
         showError("Load Failed", "Failed to load emergency requests");
       }
     } finally {
@@ -526,14 +525,26 @@ export default function HospitalDashboard() {
 
   const updateStatus = async (
     emergencyId: string,
+    currentStatus: EmergencyRequest["status"],
     newStatus: EmergencyRequest["status"],
   ) => {
     if (statusUpdating) return;
     setStatusUpdating(newStatus);
     try {
-      await backendPut(`/ops/emergencies/${emergencyId}/status`, {
-        status: newStatus,
-      });
+      const { error } = await updateHospitalEmergencyStatus(
+        emergencyId,
+        newStatus,
+        currentStatus,
+      );
+      if (error) {
+        showError(
+          "Update Failed",
+          error instanceof EmergencyTransitionError
+            ? error.message
+            : "Failed to update status",
+        );
+        return;
+      }
       showSuccess(
         "Status Updated",
         `Status updated to ${newStatus.replace("_", " ")}`,
@@ -646,6 +657,10 @@ export default function HospitalDashboard() {
                         ...e,
                         ambulance_latitude: parsed.latitude,
                         ambulance_longitude: parsed.longitude,
+                        ambulance_location_confidence:
+                          payload.new.location_confidence ?? null,
+                        ambulance_location_flags:
+                          payload.new.location_flags ?? null,
                       }
                     : e,
                 ),
@@ -792,19 +807,6 @@ export default function HospitalDashboard() {
     }
   };
 
-  const formatDateTime = (d: string) => {
-    try {
-      return new Date(d).toLocaleString("en-US", {
-        month: "short",
-        day: "numeric",
-        hour: "2-digit",
-        minute: "2-digit",
-      });
-    } catch {
-      return d;
-    }
-  };
-
   /* ─── Computed ──────────────────────────────────────────────── */
 
   const counts = {
@@ -852,6 +854,26 @@ export default function HospitalDashboard() {
       );
     });
 
+  /* ─── Incoming handovers ───────────────────────────────────── */
+
+  useEffect(() => {
+    void getHandoverAcknowledgements().then(setHandoverAcks);
+  }, []);
+
+  const incomingEmergencies = emergencies.filter(
+    (e) => e.status === "transporting",
+  );
+
+  const handleAcknowledgeHandover = async (
+    emergencyId: string,
+    etaMinutes: number | null,
+  ) => {
+    const acknowledgedAt = await acknowledgeHandover(emergencyId, {
+      etaMinutes,
+    });
+    setHandoverAcks((prev) => ({ ...prev, [emergencyId]: acknowledgedAt }));
+  };
+
   /* ─── Stat cards ────────────────────────────────────────────── */
 
   const statCards = [
@@ -895,23 +917,6 @@ export default function HospitalDashboard() {
 
   /* ─── Card renderer ─────────────────────────────────────────── */
 
-  const timeAgo = (dateStr: string): string => {
-    try {
-      const now = Date.now();
-      const then = new Date(dateStr).getTime();
-      const diffMs = now - then;
-      const diffMin = Math.floor(diffMs / 60000);
-      if (diffMin < 1) return "Just now";
-      if (diffMin < 60) return `${diffMin}m ago`;
-      const diffHr = Math.floor(diffMin / 60);
-      if (diffHr < 24) return `${diffHr}h ago`;
-      const diffDay = Math.floor(diffHr / 24);
-      return `${diffDay}d ago`;
-    } catch {
-      return dateStr;
-    }
-  };
-
   const isActiveStatus = (status: string) =>
     !["completed", "cancelled"].includes(status);
 
@@ -995,7 +1000,7 @@ export default function HospitalDashboard() {
               </View>
             </View>
             <ThemedText style={[styles.cardTimeAgo, { color: subText }]}>
-              {timeAgo(item.created_at)}
+              {formatTimeAgo(item.created_at)}
             </ThemedText>
           </View>
 
@@ -1077,7 +1082,7 @@ export default function HospitalDashboard() {
             <View style={styles.footerItem}>
               <MaterialIcons name="schedule" size={13} color={subText} />
               <ThemedText style={[styles.footerText, { color: subText }]}>
-                {formatDateTime(item.created_at)}
+                {formatDateTime(item.created_at, { withYear: false })}
               </ThemedText>
             </View>
             {item.ambulance_vehicle && (
@@ -1241,6 +1246,22 @@ export default function HospitalDashboard() {
             ))}
           </View>
 
+          {/* Incoming patients — pre-arrival handover packets */}
+          {incomingEmergencies.map((item) => (
+            <HandoverPacketCard
+              key={item.id}
+              emergency={item}
+              acknowledgedAt={handoverAcks[item.id] ?? null}
+              onAcknowledge={(etaMinutes) =>
+                void handleAcknowledgeHandover(item.id, etaMinutes)
+              }
+              onOpen={() => {
+                setSelectedEmergency(item);
+                setModalVisible(true);
+              }}
+            />
+          ))}
+
           {/* Fleet readiness card */}
           {fleet && (
             <View
@@ -1293,6 +1314,65 @@ export default function HospitalDashboard() {
                   </ThemedText>
                 </View>
               </View>
+
+              {/* Who is on shift in each vehicle, and what it carries */}
+              {fleet.ambulances.map((amb) => {
+                const shift = amb.shift as FleetAmbulanceShift | undefined;
+                const shiftColor =
+                  shift?.status === "on_break" ? "#F59E0B" : "#10B981";
+                return (
+                  <View
+                    key={amb.id}
+                    style={[styles.fleetVehicle, { borderColor: cardBorder }]}
+                  >
+                    <View style={styles.fleetShiftRow}>
+                      <MaterialIcons
+                        name="airport-shuttle"
+                        size={16}
+                        color={subText}
+                      />
+                      <ThemedText
+                        style={[styles.fleetShiftVehicle, { color: colors.text }]}
+                        translate={false}
+                      >
+                        {amb.vehicle_number || "—"}
+                      </ThemedText>
+                      {shift ? (
+                        <>
+                          <ThemedText
+                            style={[styles.fleetShiftDriver, { color: colors.text }]}
+                            numberOfLines={1}
+                            translate={false}
+                          >
+                            {shift.driver_name || shift.driver_phone || "—"}
+                          </ThemedText>
+                          <ThemedText
+                            style={[styles.fleetShiftStatus, { color: shiftColor }]}
+                          >
+                            {shift.status === "on_break" ? "On break" : "On shift"}
+                          </ThemedText>
+                          <ThemedText
+                            style={[styles.fleetMetaText, { color: subText }]}
+                            translate={false}
+                          >
+                            {formatTime(shift.started_at)}
+                          </ThemedText>
+                        </>
+                      ) : (
+                        <ThemedText
+                          style={[styles.fleetShiftDriver, { color: subText }]}
+                        >
+                          No one on shift
+                        </ThemedText>
+                      )}
+                    </View>
+                    <InventoryOverview
+                      inventory={amb.inventory}
+                      style={styles.fleetInventory}
+                    />
+                  </View>
+                );
+              })}
             </View>
           )}
 
@@ -1708,6 +1788,22 @@ export default function HospitalDashboard() {
                         style={styles.modalMap}
                         title="Emergency Location"
                       />
+                      <View style={styles.confidenceRow}>
+                        <LocationConfidenceBadge
+                          label="Ambulance GPS"
+                          confidence={
+                            selectedEmergency.ambulance_location_confidence
+                          }
+                          flags={selectedEmergency.ambulance_location_flags}
+                        />
+                        <LocationConfidenceBadge
+                          label="Patient GPS"
+                          confidence={
+                            selectedEmergency.patient_location_confidence
+                          }
+                          flags={selectedEmergency.patient_location_flags}
+                        />
+                      </View>
                     </View>
                   )}
 
@@ -1839,7 +1935,7 @@ export default function HospitalDashboard() {
                     />
                     <InfoRow
                       label="Created"
-                      value={formatDateTime(selectedEmergency.created_at)}
+                      value={formatDateTime(selectedEmergency.created_at, { withYear: false })}
                       c={colors.text}
                       s={subText}
                     />
@@ -2671,6 +2767,19 @@ export default function HospitalDashboard() {
                     </View>
                   )}
 
+                  <EmergencyTimeline
+                    emergencyId={selectedEmergency.id}
+                    refreshKey={selectedEmergency.status}
+                  />
+
+                  {selectedEmergency.assigned_ambulance_id ? (
+                    <TripReplay
+                      emergencyId={selectedEmergency.id}
+                      createdAt={selectedEmergency.created_at}
+                      refreshKey={selectedEmergency.status}
+                    />
+                  ) : null}
+
                   {/* Action buttons — hospital-owned stages only */}
                   {(() => {
                     const actions = getHospitalStatusActions(
@@ -2721,7 +2830,11 @@ export default function HospitalDashboard() {
                             ]}
                             disabled={!!statusUpdating}
                             onPress={() =>
-                              updateStatus(selectedEmergency.id, a.next)
+                              updateStatus(
+                                selectedEmergency.id,
+                                selectedEmergency.status,
+                                a.next,
+                              )
                             }
                           >
                             <MaterialIcons
@@ -3219,13 +3332,7 @@ export default function HospitalDashboard() {
                 keyExtractor={(_item, index) => String(index)}
                 style={{ maxHeight: 400 }}
                 renderItem={({ item }) => {
-                  const ago = Math.round((Date.now() - item.time) / 1000);
-                  const timeStr =
-                    ago < 60
-                      ? `${ago}s ago`
-                      : ago < 3600
-                        ? `${Math.round(ago / 60)}m ago`
-                        : `${Math.round(ago / 3600)}h ago`;
+                  const timeStr = formatTimeAgo(item.time);
                   return (
                     <View
                       style={[
@@ -3717,6 +3824,12 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     overflow: "hidden",
   },
+  confidenceRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 8,
+  },
   fleetCard: {
     borderRadius: 14,
     borderWidth: 1,
@@ -3732,6 +3845,20 @@ const styles = StyleSheet.create({
   fleetDivider: { width: 1, height: 36 },
   fleetNum: { fontSize: 22, fontFamily: Fonts.sansExtraBold },
   fleetLabel: { fontSize: 11, fontFamily: Fonts.sans, marginTop: 2 },
+  fleetVehicle: {
+    paddingTop: 10,
+    marginTop: 10,
+    borderTopWidth: 1,
+  },
+  fleetShiftRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  fleetInventory: { marginTop: 6, marginLeft: 24 },
+  fleetShiftVehicle: { fontSize: 13, fontFamily: Fonts.sansBold },
+  fleetShiftDriver: { flex: 1, fontSize: 13, fontFamily: Fonts.sans },
+  fleetShiftStatus: { fontSize: 12, fontFamily: Fonts.sansBold },
   approvalItem: {
     borderWidth: 1,
     borderRadius: 12,
@@ -4,6 +4,7 @@ import { Colors, Fonts } from "@/constants/theme";
 import { useAuthGuard } from "@/hooks/use-auth-guard";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { backendGet } from "@/utils/api";
+import type { AdminHospitalDetailsResponse } from "@/utils/contracts";
 import { MaterialIcons } from "@expo/vector-icons";
 import { Stack, useLocalSearchParams, useRouter } from "expo-router";
 import React, { useCallback, useEffect, useMemo, useState } from "react";
@@ -15,16 +16,6 @@ import {
     View,
 } from "react-native";
 
-type HospitalDetailsResponse = {
-  hospital: any;
-  linked_ambulances: any[];
-  linked_driver_profiles: any[];
-  total_emergencies: number;
-  active_emergencies: number;
-  completed_emergencies: number;
-  cancelled_emergencies: number;
-};
-
 export default function AdminHospitalDetailsScreen() {
   const _authLoading = useAuthGuard(["admin"]);
   const router = useRouter();
@@ -36,7 +27,7 @@ export default function AdminHospitalDetailsScreen() {
 
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [data, setData] = useState<HospitalDetailsResponse | null>(null);
+  const [data, setData] = useState<AdminHospitalDetailsResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const cardBg = colors.surface;
@@ -54,7 +45,7 @@ export default function AdminHospitalDetailsScreen() {
 
     try {
       setError(null);
-      const result = await backendGet<HospitalDetailsResponse>(
+      const result = await backendGet<AdminHospitalDetailsResponse>(
         `/ops/admin/hospitals/${id}`,
       );
       setData(result);
@@ -28,6 +28,8 @@ import {
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 import { useAppState } from "@/components/app-state";
+import { ContactAlertStatus } from "@/components/contact-alert-status";
+import { EmergencyTimeline } from "@/components/emergency-timeline";
 import { HtmlMapView } from "@/components/html-map-view";
 import { useModal } from "@/components/modal-context";
 import { ThemedText } from "@/components/themed-text";
@@ -51,7 +53,17 @@ import {
     subscribeToAmbulanceLocation,
     subscribeToEmergency,
 } from "@/utils/patient";
-import { translateText } from "@/utils/i18n";
+import { t, translateText } from "@/utils/i18n";
+import {
+  formatDateTime,
+  formatDistance,
+  formatDuration,
+  formatTime,
+} from "@/utils/i18n-format";
+import {
+  contactAlertEventForStatus,
+  notifyTrustedContacts,
+} from "@/utils/trusted-contacts";
 
 /* ─── Status notification messages (patient-facing) ───── */
 const STATUS_NOTIFICATIONS: Record<
@@ -196,6 +208,7 @@ export default function PatientEmergencyTrackingScreen() {
     longitude: number;
   } | null>(null);
   const [sharingLink, setSharingLink] = useState(false);
+  const [contactAlertRevision, setContactAlertRevision] = useState(0);
   const [cachedShareLink, setCachedShareLink] = useState<{
     shareUrl: string;
     expiresAt: string;
@@ -447,6 +460,15 @@ export default function PatientEmergencyTrackingScreen() {
     prevStatusRef.current = cur;
   }, [emergency?.status, notifAnim]);
 
+  // Tell trusted contacts when an ambulance is assigned and at the hospital.
+  useEffect(() => {
+    const event = contactAlertEventForStatus(String(emergency?.status || ""));
+    if (!event || !emergency?.id || !user?.id) return;
+    void notifyTrustedContacts(emergency.id, user.id, [event]).then((sent) => {
+      if (sent.length > 0) setContactAlertRevision((prev) => prev + 1);
+    });
+  }, [emergency?.id, emergency?.status, user?.id]);
+
   // Realtime: ambulance location
   useEffect(() => {
     if (!ambulance?.id) return;
@@ -642,18 +664,18 @@ export default function PatientEmergencyTrackingScreen() {
           await (window as any).navigator.clipboard.writeText(shareUrl);
           showSuccess(
             translateText("Link Copied"),
-            `${translateText("Share link copied to clipboard.")} ${translateText("Expires")}: ${new Date(expiresAt).toLocaleString()}`,
+            `${translateText("Share link copied to clipboard.")} ${translateText("Expires")}: ${formatDateTime(expiresAt)}`,
           );
         } else {
           showAlert(
             translateText("Share Link"),
-            `${translateText("Live emergency tracking link")}: ${shareUrl}\n\n${translateText("Expires")}: ${new Date(expiresAt).toLocaleString()}`,
+            `${translateText("Live emergency tracking link")}: ${shareUrl}\n\n${translateText("Expires")}: ${formatDateTime(expiresAt)}`,
           );
         }
       } else {
         await Share.share({
           title: translateText("Live Emergency Tracking"),
-          message: `${translateText("Live emergency tracking link")}: ${shareUrl}\n${translateText("Expires")}: ${new Date(expiresAt).toLocaleString()}`,
+          message: `${translateText("Live emergency tracking link")}: ${shareUrl}\n${translateText("Expires")}: ${formatDateTime(expiresAt)}`,
           url: shareUrl,
         });
       }
@@ -858,8 +880,7 @@ export default function PatientEmergencyTrackingScreen() {
       animatedAmbulanceCoords.latitude,
       animatedAmbulanceCoords.longitude,
     );
-    distanceText =
-      km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+    distanceText = formatDistance(km);
   }
 
   const hospitalCoords =
@@ -1100,11 +1121,10 @@ export default function PatientEmergencyTrackingScreen() {
               {st.label}
             </ThemedText>
             <ThemedText style={[styles.statusSub, { color: st.color + "BB" }]}>
-              {new Date(emergencyView.created_at).toLocaleTimeString([], {
-                hour: "2-digit",
-                minute: "2-digit",
-              })}
-              {distanceText ? `  •  ${distanceText} ${translateText("away")}` : ""}
+              {formatTime(emergencyView.created_at)}
+              {distanceText
+                ? `  •  ${t("distance_away", { distance: distanceText })}`
+                : ""}
             </ThemedText>
           </View>
           <View style={[styles.sevChip, { borderColor: sev.color + "60" }]}>
@@ -1393,7 +1413,7 @@ export default function PatientEmergencyTrackingScreen() {
               <View style={[styles.etaBadge, { backgroundColor: "#E0F2FE" }]}>
                 <MaterialIcons name="schedule" size={16} color="#0EA5E9" />
                 <ThemedText style={styles.etaText}>
-                  {translateText("ETA")}: {assignment.pickup_eta_minutes} {translateText("min")}
+                  {translateText("ETA")}: {formatDuration(assignment.pickup_eta_minutes)}
                 </ThemedText>
               </View>
             )}
@@ -1568,10 +1588,10 @@ export default function PatientEmergencyTrackingScreen() {
                 <MaterialIcons name="schedule" size={16} color="#7C3AED" />
                 <ThemedText style={[styles.etaText, { color: "#7C3AED" }]}>
                   {hospitalStatus.eta_to_hospital_minutes != null
-                    ? `${translateText("ETA to hospital")}: ${hospitalStatus.eta_to_hospital_minutes} ${translateText("min")}`
+                    ? `${translateText("ETA to hospital")}: ${formatDuration(hospitalStatus.eta_to_hospital_minutes)}`
                     : translateText("ETA to hospital pending")}
                   {hospitalStatus.distance_to_hospital_km != null
-                    ? ` • ${hospitalStatus.distance_to_hospital_km.toFixed(1)} km`
+                    ? ` • ${formatDistance(hospitalStatus.distance_to_hospital_km)}`
                     : ""}
                 </ThemedText>
               </View>
@@ -1634,6 +1654,16 @@ export default function PatientEmergencyTrackingScreen() {
           </View>
         )}
 
+        <ContactAlertStatus
+          emergencyId={emergency?.id}
+          refreshKey={`${emergency?.status}:${contactAlertRevision}`}
+        />
+
+        <EmergencyTimeline
+          emergencyId={emergency?.id}
+          refreshKey={emergency?.status}
+        />
+
         {/* ...existing code... */}
 
         {/* Go Home if completed */}
@@ -1654,7 +1684,7 @@ export default function PatientEmergencyTrackingScreen() {
       <View
         style={[styles.fabDock, { bottom: Math.max(insets.bottom, 12) + 8 }]}
       >
-        <FirstAidFab />
+        <FirstAidFab emergencyId={emergencyId} />
       </View>
     </View>
   );
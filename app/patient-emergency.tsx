@@ -18,6 +18,7 @@ import { HtmlMapView } from "@/components/html-map-view";
 import { useModal } from "@/components/modal-context";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { VoiceSosButton } from "@/components/voice-sos-button";
 import { Colors, Fonts } from "@/constants/theme";
 import { useAuthGuard } from "@/hooks/use-auth-guard";
 import { useColorScheme } from "@/hooks/use-color-scheme";
@@ -29,24 +30,41 @@ import {
     getTrafficAwareDispatch,
     parsePostGISPoint,
 } from "@/utils/emergency";
+import { toLocationFix, type LocationFix } from "@/utils/location-integrity";
 import {
     createOrQueueEmergency,
     flushQueue,
     getQueue,
+    markQueuedSentViaSms,
+    type ConflictResolution,
+    type QueueConflict,
 } from "@/utils/offline-queue";
 import {
     cancelEmergencyWithinWindow,
     createEmergency,
     getActiveEmergency,
     getEmergencyCancelWindowState,
+    mergeQueuedEmergency,
     retryEmergencyDispatch,
     subscribeToEmergency,
     updatePatientLiveLocation,
 } from "@/utils/patient";
+import {
+    getSosSmsShortCode,
+    sendQueuedEmergencyViaSms,
+} from "@/utils/sms-fallback";
 import { supabase } from "@/utils/supabase";
-import { translateText } from "@/utils/i18n";
+import { t, translateText } from "@/utils/i18n";
+import { formatDistance, formatDuration } from "@/utils/i18n-format";
+import {
+  attachVoiceNote,
+  buildVoiceSosDescription,
+  type VoiceSosCapture,
+} from "@/utils/voice-sos";
 import { useLocalSearchParams, useRouter } from "expo-router";
 
+const QUEUE_CONFLICT_PROMPT_TIMEOUT_MS = 60_000;
+
 function patientTrackingHref(
   emergencyId: string,
   opts?: {
@@ -151,6 +169,8 @@ export default function PatientEmergencyScreen() {
   const recentLocationFixesRef = useRef<
     { latitude: number; longitude: number }[]
   >([]);
+  // Latest raw reading, so the live update carries its accuracy and age.
+  const liveFixRef = useRef<LocationFix | null>(null);
 
   const scaleAnim = React.useRef(new Animated.Value(1)).current;
   const canCancelByWindow =
@@ -177,11 +197,54 @@ export default function PatientEmergencyScreen() {
     at: number;
   } | null>(null);
 
+  // An unanswered prompt (or one the modal dropped as a repeat) must not
+  // stall the flush, so it falls back to merging, the safe default.
+  const promptQueueConflict = (conflict: QueueConflict) =>
+    new Promise<ConflictResolution>((settle) => {
+      const timer = setTimeout(
+        () => settle("merge"),
+        QUEUE_CONFLICT_PROMPT_TIMEOUT_MS,
+      );
+      const resolve = (decision: ConflictResolution) => {
+        clearTimeout(timer);
+        settle(decision);
+      };
+      const when =
+        conflict.minutesApart !== null
+          ? `${conflict.minutesApart} min apart`
+          : "around the same time";
+      const where =
+        conflict.distanceKm !== null
+          ? `${conflict.distanceKm} km away`
+          : "at a similar location";
+      const against = conflict.active
+        ? "You already have an active emergency request"
+        : "Another offline emergency request is waiting to be sent";
+      showConfirm(
+        "Possible Duplicate Emergency",
+        `${against} (${when}, ${where}). Merge the saved request into it, discard it, or send it as a separate emergency?`,
+        () => resolve("merge"),
+        () => resolve("discard"),
+        {
+          confirmText: "Merge",
+          cancelText: "Discard",
+          extraText: "Send Anyway",
+          onExtra: () => resolve("send"),
+        },
+      );
+    });
+
   useEffect(() => {
     checkActiveEmergency();
     requestLocationPermission();
     loadNearbyAmbulances();
-    void flushQueue(createEmergency);
+    void flushQueue(createEmergency, {
+      getActiveEmergency,
+      resolveConflict: promptQueueConflict,
+      mergeIntoEmergency: mergeQueuedEmergency,
+    }).then((flushed) => {
+      if (flushed > 0) void checkActiveEmergency();
+    });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user?.id]);
 
@@ -288,9 +351,11 @@ export default function PatientEmergencyScreen() {
       const eta = (dispatch as any)?.eta_minutes;
       const distance = (dispatch as any)?.distance_km;
       setSmartPreview(
-        `Priority ${priority}` +
-          (typeof eta === "number" ? ` • ETA ${eta} min` : "") +
-          (typeof distance === "number" ? ` • ${distance.toFixed(1)} km` : ""),
+        t("priority_label", { priority }) +
+          (typeof eta === "number"
+            ? ` • ${t("eta_duration", { duration: formatDuration(eta) })}`
+            : "") +
+          (typeof distance === "number" ? ` • ${formatDistance(distance)}` : ""),
       );
     } catch (err) {
       console.warn("Smart preview error:", err);
@@ -323,12 +388,7 @@ export default function PatientEmergencyScreen() {
             lat: loc.latitude,
             lng: loc.longitude,
             label: a.registration_number || "Ambulance",
-            distance:
-              dist !== null
-                ? dist < 1
-                  ? `${Math.round(dist * 1000)}m`
-                  : `${dist.toFixed(1)}km`
-                : "",
+            distance: dist !== null ? formatDistance(dist) : "",
             distanceRaw: dist ?? 999,
             distanceKm: dist ?? 999,
           };
@@ -518,6 +578,7 @@ export default function PatientEmergencyScreen() {
         return;
       }
 
+      liveFixRef.current = toLocationFix(currentLocation);
       const nextFix = {
         latitude: currentLocation.coords.latitude,
         longitude: currentLocation.coords.longitude,
@@ -564,6 +625,7 @@ export default function PatientEmergencyScreen() {
               const accuracy = loc.coords.accuracy ?? 999;
               if (accuracy > 120) return;
 
+              liveFixRef.current = toLocationFix(loc);
               const nextFix = {
                 latitude: loc.coords.latitude,
                 longitude: loc.coords.longitude,
@@ -641,6 +703,7 @@ export default function PatientEmergencyScreen() {
       activeEmergencyId,
       location.latitude,
       location.longitude,
+      liveFixRef.current ?? undefined,
     );
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeEmergencyId, location?.latitude, location?.longitude]);
@@ -669,6 +732,24 @@ export default function PatientEmergencyScreen() {
     );
   };
 
+  const handleVoiceSOS = (capture: VoiceSosCapture) => {
+    if (!user?.id || !location) {
+      handleSOS();
+      return;
+    }
+
+    const heard = capture.transcript
+      ? `"${capture.transcript}"`
+      : "Your recording will be attached for the dispatcher.";
+    showConfirm(
+      "Send Voice SOS?",
+      `${heard}\n\nEmergency type: ${capture.emergencyType}`,
+      () => createEmergencyRequest(capture),
+      undefined,
+      { confirmText: "Send SOS" },
+    );
+  };
+
   const _attemptDispatchRetry = async () => {
     if (!activeEmergencyId) return;
     if (activeEmergencyStatus !== "pending") return;
@@ -743,7 +824,7 @@ export default function PatientEmergencyScreen() {
     }
   };
 
-  const createEmergencyRequest = async () => {
+  const createEmergencyRequest = async (voice?: VoiceSosCapture) => {
     if (!user?.id || !location) return;
 
     setLoading(true);
@@ -756,25 +837,58 @@ export default function PatientEmergencyScreen() {
         isForOther && otherPersonContact
           ? `Contact: ${otherPersonContact}`
           : null,
+        voice ? buildVoiceSosDescription(voice) : null,
+        // The classified type is sent as emergency_type; keep the patient's pick.
+        voice ? `Severity: ${severity}` : null,
         description || null,
         patientCondition ? `Condition: ${patientCondition}` : null,
       ].filter(Boolean);
       const fullDescription = parts.length > 0 ? parts.join(" - ") : undefined;
 
-      const { queued, emergency, error } = await createOrQueueEmergency(
+      const { queued, item, emergency, error } = await createOrQueueEmergency(
         createEmergency,
         user.id,
         location.latitude,
         location.longitude,
-        severity, // stored as emergency_type in DB
+        voice?.emergencyType ?? severity, // stored as emergency_type in DB
         fullDescription,
+        mergeQueuedEmergency,
       );
 
       if (queued) {
         const queuedItems = await getQueue();
-        showAlert(
+        const queuedMsg = `No network right now. Emergency request saved offline and will auto-send when back online. Pending: ${queuedItems.length}`;
+        if (!item || !getSosSmsShortCode()) {
+          showAlert("Offline Queue", queuedMsg);
+          return;
+        }
+        showConfirm(
           "Offline Queue",
-          `No network right now. Emergency request saved offline and will auto-send when back online. Pending: ${queuedItems.length}`,
+          `${queuedMsg}\n\nIf you have mobile signal, send it to dispatch by SMS now.`,
+          () => {
+            void sendQueuedEmergencyViaSms(item).then(({ opened }) => {
+              if (!opened) {
+                showError(
+                  "SMS Not Sent",
+                  "Could not open the SMS app. Your request stays queued and will send when data is back.",
+                );
+                return;
+              }
+              // Only a confirmed SMS stops the online replay; otherwise the
+              // request still goes out when data is back.
+              showConfirm(
+                "Did the SMS Send?",
+                "Confirm once your messaging app shows the SOS as sent.",
+                () => {
+                  void markQueuedSentViaSms(item.id);
+                },
+                undefined,
+                { confirmText: "Yes, Sent", cancelText: "Not Sent" },
+              );
+            });
+          },
+          undefined,
+          { confirmText: "Send SMS", cancelText: "Wait for Data" },
         );
         return;
       }
@@ -785,6 +899,10 @@ export default function PatientEmergencyScreen() {
         return;
       }
 
+      if (voice?.audioUri) {
+        void attachVoiceNote(emergency.id, voice);
+      }
+
       setHasActiveEmergency(true);
       setActiveEmergencyId(emergency.id);
       setActiveEmergencyCreatedAt(
@@ -1138,7 +1256,7 @@ export default function PatientEmergencyScreen() {
                                 styles.input,
                                 isDark ? styles.inputDark : null,
                               ]}
-                              placeholder="Name of the person who needs help"
+                              placeholder={translateText("Name of the person who needs help")}
                               placeholderTextColor={
                                 isDark ? "#6B7280" : "#94A3B8"
                               }
@@ -1154,7 +1272,7 @@ export default function PatientEmergencyScreen() {
                                 styles.input,
                                 isDark ? styles.inputDark : null,
                               ]}
-                              placeholder="Their phone number"
+                              placeholder={translateText("Their phone number")}
                               placeholderTextColor={
                                 isDark ? "#6B7280" : "#94A3B8"
                               }
@@ -1278,6 +1396,11 @@ export default function PatientEmergencyScreen() {
                             </ThemedText>
                           </Pressable>
                         </Animated.View>
+
+                        <VoiceSosButton
+                          onCapture={handleVoiceSOS}
+                          disabled={loading}
+                        />
                       </>
                     )}
                   </View>
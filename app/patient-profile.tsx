@@ -626,6 +626,15 @@ export default function PatientProfileScreen() {
                   }
                   editable={!saving}
                 />
+
+                <AppButton
+                  label={translateText("Manage trusted contacts")}
+                  onPress={() => router.push("/trusted-contacts" as any)}
+                  variant="secondary"
+                  fullWidth
+                  style={styles.contactsButton}
+                  disabled={saving}
+                />
               </View>
             </View>
 
@@ -785,6 +794,9 @@ const styles = StyleSheet.create({
   cancelButton: {
     marginTop: 0,
   },
+  contactsButton: {
+    marginTop: 16,
+  },
   closeBtn: {
     position: "absolute",
     top: 12,
@@ -638,7 +638,7 @@ export default function RegisterScreen() {
                     <TextInput
                       ref={passwordInputRef}
                       style={[styles.input, { color: textPrimary }]}
-                      placeholder="Min 6 chars"
+                      placeholder={translateText("Min 6 chars")}
                       placeholderTextColor={placeholderColor}
                       secureTextEntry
                       value={form.password}
@@ -681,7 +681,7 @@ export default function RegisterScreen() {
                     />
                     <TextInput
                       style={[styles.input, { color: textPrimary }]}
-                      placeholder="Enter your full name"
+                      placeholder={translateText("Enter your full name")}
                       placeholderTextColor={placeholderColor}
                       autoCapitalize="words"
                       value={form.fullName}
@@ -899,7 +899,7 @@ export default function RegisterScreen() {
                       />
                       <TextInput
                         style={[styles.input, { color: textPrimary }]}
-                        placeholder="Comma-separated"
+                        placeholder={translateText("Comma-separated")}
                         placeholderTextColor={placeholderColor}
                         value={form.allergies}
                         onChangeText={(t) => handleChange("allergies", t)}
@@ -1197,7 +1197,7 @@ export default function RegisterScreen() {
                         />
                         <TextInput
                           style={[styles.input, { color: textPrimary }]}
-                          placeholder="Reg. number"
+                          placeholder={translateText("Reg. number")}
                           placeholderTextColor={placeholderColor}
                           autoCapitalize="characters"
                           value={form.registrationNumber}
@@ -0,0 +1,324 @@
+import { AppButton } from "@/components/app-button";
+import { AppHeader } from "@/components/app-header";
+import { useAppState } from "@/components/app-state";
+import { useModal } from "@/components/modal-context";
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Fonts } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { t, translateText } from "@/utils/i18n";
+import { getMedicalProfile } from "@/utils/profile";
+import {
+  CONTACT_RELATIONSHIPS,
+  type ContactChannel,
+  contactsFromMedicalProfile,
+  getTrustedContacts,
+  MAX_TRUSTED_CONTACTS,
+  saveTrustedContacts,
+  type TrustedContact,
+  validateTrustedContact,
+} from "@/utils/trusted-contacts";
+import { MaterialIcons } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from "react-native";
+
+const CHANNEL_OPTIONS: { value: ContactChannel; label: string }[] = [
+  { value: "sms", label: "SMS" },
+  { value: "push", label: "App notification" },
+];
+
+const emptyContact = (): TrustedContact => ({
+  name: "",
+  phone: "",
+  relationship: "other",
+  channel: "sms",
+});
+
+export default function TrustedContactsScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { user } = useAppState();
+  const { showAlert, showError } = useModal();
+
+  const [contacts, setContacts] = useState<TrustedContact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!user?.id) return;
+    setLoading(true);
+    try {
+      const { contacts: saved } = await getTrustedContacts(user.id);
+      if (saved.length > 0) {
+        setContacts(saved);
+        return;
+      }
+      // Nothing saved yet: start from the medical profile's contact.
+      const { profile } = await getMedicalProfile(user.id);
+      setContacts(contactsFromMedicalProfile(profile));
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const updateContact = (index: number, patch: Partial<TrustedContact>) =>
+    setContacts((prev) =>
+      prev.map((contact, i) =>
+        i === index ? { ...contact, ...patch } : contact,
+      ),
+    );
+
+  const removeContact = (index: number) =>
+    setContacts((prev) => prev.filter((_, i) => i !== index));
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+    const invalid = contacts
+      .map((contact) => validateTrustedContact(contact))
+      .find(Boolean);
+    if (invalid) {
+      showError("Check contact", invalid);
+      return;
+    }
+    setSaving(true);
+    try {
+      const { success, error } = await saveTrustedContacts(user.id, contacts);
+      if (!success) {
+        showError("Save Failed", error?.message || "Please try again.");
+        return;
+      }
+      showAlert(
+        "Trusted contacts saved",
+        "They will be alerted with a live tracking link when you request an ambulance.",
+      );
+      await load();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderContact = (contact: TrustedContact, index: number) => (
+    <View
+      key={contact.id ?? `new-${index}`}
+      style={[
+        styles.card,
+        { backgroundColor: colors.surface, borderColor: colors.border },
+      ]}
+    >
+      <View style={styles.row}>
+        <MaterialIcons name="person" size={20} color={colors.primary} />
+        <TextInput
+          style={[
+            styles.input,
+            styles.grow,
+            { color: colors.text, borderColor: colors.border },
+          ]}
+          placeholder={translateText("Contact Name")}
+          placeholderTextColor={colors.textMuted}
+          autoCapitalize="words"
+          value={contact.name}
+          onChangeText={(name) => updateContact(index, { name })}
+          editable={!saving}
+        />
+        <Pressable
+          onPress={() => removeContact(index)}
+          hitSlop={8}
+          disabled={saving}
+          accessibilityLabel={translateText("Remove contact")}
+        >
+          <MaterialIcons
+            name="delete-outline"
+            size={22}
+            color={colors.danger}
+          />
+        </Pressable>
+      </View>
+      <TextInput
+        style={[
+          styles.input,
+          { color: colors.text, borderColor: colors.border },
+        ]}
+        placeholder="09XXXXXXXX"
+        placeholderTextColor={colors.textMuted}
+        keyboardType="phone-pad"
+        maxLength={13}
+        value={contact.phone}
+        onChangeText={(phone) => updateContact(index, { phone })}
+        editable={!saving}
+      />
+
+      <ThemedText style={[styles.label, { color: colors.textMuted }]}>
+        Relationship
+      </ThemedText>
+      <View style={styles.chips}>
+        {CONTACT_RELATIONSHIPS.map((relationship) => {
+          const selected = contact.relationship === relationship;
+          return (
+            <Pressable
+              key={relationship}
+              onPress={() => updateContact(index, { relationship })}
+              disabled={saving}
+              style={[
+                styles.chip,
+                { borderColor: selected ? colors.primary : colors.border },
+                selected ? { backgroundColor: colors.primary } : null,
+              ]}
+            >
+              <ThemedText
+                style={[
+                  styles.chipText,
+                  { color: selected ? "#fff" : colors.text },
+                ]}
+                translate={false}
+              >
+                {t(`relationship_${relationship}`)}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <ThemedText style={[styles.label, { color: colors.textMuted }]}>
+        Notify by
+      </ThemedText>
+      <View style={styles.chips}>
+        {CHANNEL_OPTIONS.map((option) => {
+          const selected = contact.channel === option.value;
+          return (
+            <Pressable
+              key={option.value}
+              onPress={() => updateContact(index, { channel: option.value })}
+              disabled={saving}
+              style={[
+                styles.chip,
+                { borderColor: selected ? colors.info : colors.border },
+                selected ? { backgroundColor: colors.info } : null,
+              ]}
+            >
+              <ThemedText
+                style={[
+                  styles.chipText,
+                  { color: selected ? "#fff" : colors.text },
+                ]}
+              >
+                {option.label}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={[styles.bg, { backgroundColor: colors.background }]}>
+      <AppHeader title="Trusted Contacts" onBackPress={() => router.back()} />
+      {loading ? (
+        <View style={styles.empty}>
+          <ActivityIndicator color="#DC2626" />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.container}
+          keyboardShouldPersistTaps="handled"
+        >
+          <ThemedText style={[styles.intro, { color: colors.textMuted }]}>
+            When you request an ambulance these people get a live tracking link,
+            and updates when an ambulance is assigned and when you reach the
+            hospital. Contacts who use the app get a notification; everyone else
+            gets an SMS.
+          </ThemedText>
+
+          {contacts.map(renderContact)}
+
+          {contacts.length === 0 ? (
+            <View style={styles.empty}>
+              <MaterialIcons
+                name="group-add"
+                size={36}
+                color={colors.textMuted}
+              />
+              <ThemedText style={[styles.intro, { color: colors.textMuted }]}>
+                No trusted contacts yet.
+              </ThemedText>
+            </View>
+          ) : null}
+
+          {contacts.length < MAX_TRUSTED_CONTACTS ? (
+            <AppButton
+              label={translateText("Add contact")}
+              onPress={() => setContacts((prev) => [...prev, emptyContact()])}
+              variant="secondary"
+              fullWidth
+              disabled={saving}
+            />
+          ) : null}
+          <AppButton
+            label={
+              saving
+                ? translateText("Saving...")
+                : translateText("Save contacts")
+            }
+            onPress={() => void handleSave()}
+            variant="primary"
+            fullWidth
+            disabled={saving}
+          />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bg: { flex: 1 },
+  container: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    paddingBottom: 40,
+    gap: 12,
+    maxWidth: 900,
+    width: "100%" as any,
+    alignSelf: "center" as any,
+  },
+  intro: { fontSize: 13, lineHeight: 19, fontFamily: Fonts.sans },
+  card: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  row: { flexDirection: "row", alignItems: "center", gap: 10 },
+  grow: { flex: 1 },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    fontFamily: Fonts.sans,
+  },
+  label: { fontSize: 12, fontFamily: Fonts.sansMedium },
+  chips: { flexDirection: "row", flexWrap: "wrap", gap: 8 },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: { fontSize: 13, fontFamily: Fonts.sansMedium },
+  empty: { alignItems: "center", gap: 8, paddingTop: 24 },
+});
@@ -0,0 +1,11 @@
+-- Conversation threads for the first aid chatbot history.
+-- Run in Supabase SQL editor if not applied automatically.
+
+ALTER TABLE public.chatbot_messages
+  ADD COLUMN IF NOT EXISTS thread_id text;
+
+CREATE INDEX IF NOT EXISTS idx_chatbot_messages_user_thread
+  ON public.chatbot_messages(user_id, thread_id);
+
+COMMENT ON COLUMN public.chatbot_messages.thread_id IS
+  'Client-generated conversation id; null for messages stored before threads.';
@@ -0,0 +1,43 @@
+-- Private storage bucket for voice SOS recordings.
+-- Objects are stored as <emergency_id>/<timestamp>.<ext>; the app records a
+-- voice_note_attached timeline event with the path after uploading.
+-- Run in Supabase SQL editor if not applied automatically.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('emergency-voice-notes', 'emergency-voice-notes', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Patients can upload recordings only into the folder of their own emergency.
+DROP POLICY IF EXISTS "Patients upload own voice notes" ON storage.objects;
+CREATE POLICY "Patients upload own voice notes"
+    ON storage.objects FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        bucket_id = 'emergency-voice-notes'
+        AND EXISTS (
+            SELECT 1 FROM public.emergency_requests er
+            WHERE er.id::text = (storage.foldername(name))[1]
+              AND er.patient_id = auth.uid()
+        )
+    );
+
+-- The patient and response staff can listen to them.
+DROP POLICY IF EXISTS "Patients and staff read voice notes" ON storage.objects;
+CREATE POLICY "Patients and staff read voice notes"
+    ON storage.objects FOR SELECT
+    TO authenticated
+    USING (
+        bucket_id = 'emergency-voice-notes'
+        AND (
+            EXISTS (
+                SELECT 1 FROM public.emergency_requests er
+                WHERE er.id::text = (storage.foldername(name))[1]
+                  AND er.patient_id = auth.uid()
+            )
+            OR EXISTS (
+                SELECT 1 FROM public.profiles p
+                WHERE p.id = auth.uid()
+                  AND lower(coalesce(p.role, '')) IN ('ambulance', 'driver', 'hospital', 'admin')
+            )
+        )
+    );
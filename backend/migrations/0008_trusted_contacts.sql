@@ -0,0 +1,30 @@
+-- Trusted contacts a patient wants alerted when they request an ambulance.
+-- Replaces the single emergency_contact_* pair on medical_profiles for
+-- notifications; those columns stay for the crew's patient info card.
+-- Run in Supabase SQL editor if not applied automatically.
+
+CREATE TABLE IF NOT EXISTS public.trusted_contacts (
+    id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id       UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name          TEXT NOT NULL,
+    phone         TEXT NOT NULL,
+    relationship  TEXT NOT NULL DEFAULT 'other',
+    channel       TEXT NOT NULL DEFAULT 'sms' CHECK (channel IN ('sms', 'push')),
+    position      INTEGER NOT NULL DEFAULT 0,
+    created_at    TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trusted_contacts_user_id
+    ON public.trusted_contacts(user_id, position);
+
+ALTER TABLE public.trusted_contacts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own trusted contacts" ON public.trusted_contacts;
+CREATE POLICY "Users can manage own trusted contacts"
+    ON public.trusted_contacts FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON COLUMN public.trusted_contacts.channel IS
+  'Preferred channel: push when the contact uses the app, otherwise sms. Push falls back to SMS when no app account matches the phone.';
@@ -0,0 +1,68 @@
+-- GPS breadcrumb track of the ambulance for each emergency.
+-- ambulances.last_known_location only holds the latest fix; every sample
+-- sent during an assignment is also appended here so hospitals and admins
+-- can replay the trip for incident review and disputes.
+-- Run in Supabase SQL editor if not applied automatically.
+
+CREATE TABLE IF NOT EXISTS public.emergency_track_points (
+    id            BIGSERIAL PRIMARY KEY,
+    emergency_id  UUID NOT NULL REFERENCES public.emergency_requests(id) ON DELETE CASCADE,
+    ambulance_id  UUID NOT NULL REFERENCES public.ambulances(id) ON DELETE CASCADE,
+    latitude      DOUBLE PRECISION NOT NULL,
+    longitude     DOUBLE PRECISION NOT NULL,
+    accuracy      REAL,
+    speed         REAL,
+    recorded_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+    created_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_emergency_track_points_emergency
+    ON public.emergency_track_points(emergency_id, recorded_at);
+
+ALTER TABLE public.emergency_track_points ENABLE ROW LEVEL SECURITY;
+
+-- Crews append points only for the ambulance they are driving, and only
+-- to an emergency that ambulance is assigned to.
+DROP POLICY IF EXISTS "Drivers record own ambulance track" ON public.emergency_track_points;
+CREATE POLICY "Drivers record own ambulance track"
+    ON public.emergency_track_points FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.ambulances a
+            JOIN public.emergency_requests er ON er.assigned_ambulance_id = a.id
+            WHERE a.id = ambulance_id
+              AND a.current_driver_id = auth.uid()
+              AND er.id = emergency_id
+        )
+    );
+
+-- The emergency's hospital, its assigned crew and the patient read the track.
+DROP POLICY IF EXISTS "Staff read emergency tracks" ON public.emergency_track_points;
+DROP POLICY IF EXISTS "Involved users read emergency tracks" ON public.emergency_track_points;
+CREATE POLICY "Involved users read emergency tracks"
+    ON public.emergency_track_points FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.emergency_requests er
+            WHERE er.id = emergency_id
+              AND (
+                  er.patient_id = auth.uid()
+                  OR EXISTS (
+                      SELECT 1 FROM public.profiles p
+                      WHERE p.id = auth.uid()
+                        AND lower(coalesce(p.role, '')) = 'hospital'
+                        AND p.hospital_id = er.hospital_id
+                  )
+                  OR EXISTS (
+                      SELECT 1 FROM public.ambulances a
+                      WHERE a.id = er.assigned_ambulance_id
+                        AND a.current_driver_id = auth.uid()
+                  )
+              )
+        )
+    );
+
+COMMENT ON COLUMN public.emergency_track_points.recorded_at IS
+  'When the device took the fix; points queued offline keep their original time.';
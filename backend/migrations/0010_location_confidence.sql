@@ -0,0 +1,20 @@
+-- Confidence in the latest driver and patient positions.
+-- The app scores every location update (impossible jumps, mocked, stale or
+-- imprecise fixes) and sends the score with it, so dispatch and hospital
+-- screens can badge a doubtful position instead of trusting it blindly.
+-- Run in Supabase SQL editor if not applied automatically.
+
+ALTER TABLE public.ambulances
+    ADD COLUMN IF NOT EXISTS location_confidence REAL
+        CHECK (location_confidence BETWEEN 0 AND 1),
+    ADD COLUMN IF NOT EXISTS location_flags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.emergency_requests
+    ADD COLUMN IF NOT EXISTS patient_location_confidence REAL
+        CHECK (patient_location_confidence BETWEEN 0 AND 1),
+    ADD COLUMN IF NOT EXISTS patient_location_flags TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.ambulances.location_confidence IS
+  'Confidence (0-1) in last_known_location; NULL when sent by an app version that does not score fixes.';
+COMMENT ON COLUMN public.emergency_requests.patient_location_confidence IS
+  'Confidence (0-1) in patient_location; NULL when sent by an app version that does not score fixes.';
@@ -0,0 +1,58 @@
+-- Driver shifts: who is crewing each ambulance and since when.
+-- ambulances.is_available only says whether a vehicle takes calls; a shift
+-- records the driver's check-in (with the vehicle inspection they signed
+-- off), breaks that pause assignments, and the end of duty, including a
+-- handoff of the ambulance to the next crew member.
+-- Run in Supabase SQL editor if not applied automatically.
+
+CREATE TABLE IF NOT EXISTS public.driver_shifts (
+    id                 UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    driver_id          UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    ambulance_id       UUID NOT NULL REFERENCES public.ambulances(id) ON DELETE CASCADE,
+    status             TEXT NOT NULL DEFAULT 'on_duty'
+                           CHECK (status IN ('on_duty', 'on_break', 'ended')),
+    inspection         JSONB NOT NULL DEFAULT '{}'::jsonb,
+    inspection_notes   TEXT,
+    started_at         TIMESTAMPTZ NOT NULL DEFAULT now(),
+    break_started_at   TIMESTAMPTZ,
+    break_minutes      INTEGER NOT NULL DEFAULT 0,
+    ended_at           TIMESTAMPTZ,
+    handed_to          UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at         TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at         TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- At most one open shift per driver.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_driver_shifts_open_driver
+    ON public.driver_shifts(driver_id)
+    WHERE ended_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_driver_shifts_ambulance
+    ON public.driver_shifts(ambulance_id, started_at DESC);
+
+ALTER TABLE public.driver_shifts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Drivers manage own shifts" ON public.driver_shifts;
+CREATE POLICY "Drivers manage own shifts"
+    ON public.driver_shifts FOR ALL
+    TO authenticated
+    USING (auth.uid() = driver_id)
+    WITH CHECK (auth.uid() = driver_id);
+
+-- Hospitals and admins see who is on shift across the fleet.
+DROP POLICY IF EXISTS "Staff read driver shifts" ON public.driver_shifts;
+CREATE POLICY "Staff read driver shifts"
+    ON public.driver_shifts FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles p
+            WHERE p.id = auth.uid()
+              AND lower(coalesce(p.role, '')) IN ('hospital', 'admin')
+        )
+    );
+
+COMMENT ON COLUMN public.driver_shifts.inspection IS
+  'Vehicle inspection at check-in: checklist item key -> passed (true/false).';
+COMMENT ON COLUMN public.driver_shifts.break_minutes IS
+  'Total minutes of completed breaks; an ongoing break is counted from break_started_at.';
@@ -0,0 +1,13 @@
+-- Equipment and consumables carried by each ambulance.
+-- Drivers update the inventory from the app; hospitals see it in the fleet
+-- view and are alerted when stock runs low, and dispatch prefers vehicles
+-- carrying what a case needs (a working AED for cardiac cases, a delivery
+-- kit for maternity).
+-- Run in Supabase SQL editor if not applied automatically.
+
+ALTER TABLE public.ambulances
+    ADD COLUMN IF NOT EXISTS inventory JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ADD COLUMN IF NOT EXISTS inventory_updated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.ambulances.inventory IS
+  'Latest driver-reported inventory: oxygen_percent (0-100); aed, stretcher, delivery_kit as ok/faulty/missing; medications as name -> units on board.';
@@ -14,6 +14,7 @@ from collections import defaultdict
 from typing import Literal
 
 from fastapi import APIRouter, Depends, HTTPException, Query, Request, status
+from fastapi.responses import StreamingResponse
 from openai import AsyncOpenAI, OpenAIError
 from pydantic import BaseModel, Field
 
@@ -170,19 +171,19 @@ class ChatResponse(BaseModel):
 # Endpoint
 # ─────────────────────────────────────────────────────────────────────────────
 
+_FOLLOW_UPS_MARKER = "FOLLOW_UPS:"
 
-@router.post("", response_model=ChatResponse, summary="Ask the first aid chatbot")
-async def chat(req: ChatRequest, request: Request) -> ChatResponse:
-    """
-    Send a user message and optional conversation history.
-    Returns an AI-generated WHO-grounded first aid response plus follow-up suggestions.
-    """
+
+def _enforce_rate_limit(request: Request) -> None:
     client_ip = request.client.host if request.client else "unknown"
     if not _check_rate(client_ip):
         raise HTTPException(
             status_code=status.HTTP_429_TOO_MANY_REQUESTS,
             detail="Rate limit exceeded. Please wait a moment before sending another message.",
         )
+
+
+def _build_messages(req: ChatRequest) -> list[dict]:
     lang_instruction = {
         "en": (
             "Respond only in English. "
@@ -204,6 +205,50 @@ async def chat(req: ChatRequest, request: Request) -> ChatResponse:
         messages.append({"role": entry.role, "content": entry.content})
 
     messages.append({"role": "user", "content": req.message.strip()})
+    return messages
+
+
+def _strip_markdown(text: str) -> str:
+    text = text.replace("**", "").replace("*", "")
+    # Remove markdown headers (# ## ### etc.)
+    return re.sub(r"^#{1,6}\s*", "", text, flags=re.MULTILINE)
+
+
+def _parse_reply(raw: str) -> tuple[str, list[str]]:
+    """Split the model output into the reply and the optional FOLLOW_UPS block."""
+    raw = _strip_markdown(raw)
+    reply = raw
+    follow_ups: list[str] = []
+
+    if _FOLLOW_UPS_MARKER in raw:
+        parts = raw.split(_FOLLOW_UPS_MARKER, 1)
+        reply = parts[0].rstrip()
+        try:
+            parsed = json.loads(parts[1].strip())
+            if isinstance(parsed, list):
+                follow_ups = [str(x) for x in parsed[:3]]
+        except (json.JSONDecodeError, ValueError):
+            follow_ups = []
+    return reply, follow_ups
+
+
+async def _ensure_lang(reply: str, lang: str) -> str:
+    if _needs_language_rewrite(reply, lang):
+        try:
+            return await _rewrite_reply_to_lang(reply, lang)
+        except OpenAIError:
+            logger.warning("Language rewrite fallback failed", exc_info=True)
+    return reply
+
+
+@router.post("", response_model=ChatResponse, summary="Ask the first aid chatbot")
+async def chat(req: ChatRequest, request: Request) -> ChatResponse:
+    """
+    Send a user message and optional conversation history.
+    Returns an AI-generated WHO-grounded first aid response plus follow-up suggestions.
+    """
+    _enforce_rate_limit(request)
+    messages = _build_messages(req)
 
     try:
         completion = await _deepseek.chat.completions.create(
@@ -220,33 +265,70 @@ async def chat(req: ChatRequest, request: Request) -> ChatResponse:
         )
 
     raw: str = completion.choices[0].message.content or ""
+    reply, follow_ups = _parse_reply(raw)
+    reply = await _ensure_lang(reply, req.lang)
 
-    # Strip any markdown formatting the model may produce
-    raw = raw.replace("**", "").replace("*", "")
-    # Remove markdown headers (# ## ### etc.)
-    raw = re.sub(r"^#{1,6}\s*", "", raw, flags=re.MULTILINE)
+    return ChatResponse(reply=reply, follow_ups=follow_ups)
 
-    # Parse optional FOLLOW_UPS block appended by the model
-    reply = raw
-    follow_ups: list[str] = []
 
-    if "FOLLOW_UPS:" in raw:
-        parts = raw.split("FOLLOW_UPS:", 1)
-        reply = parts[0].rstrip()
-        try:
-            parsed = json.loads(parts[1].strip())
-            if isinstance(parsed, list):
-                follow_ups = [str(x) for x in parsed[:3]]
-        except (json.JSONDecodeError, ValueError):
-            follow_ups = []
+def _sse(event: str, data: dict) -> str:
+    return f"event: {event}\ndata: {json.dumps(data, ensure_ascii=False)}\n\n"
+
+
+@router.post("/stream", summary="Ask the first aid chatbot (server-sent events)")
+async def chat_stream(req: ChatRequest, request: Request) -> StreamingResponse:
+    """
+    Same as `POST /chat`, streamed as server-sent events:
+    `delta` events carry new reply text as it is generated, then a single
+    `done` event carries the final reply and follow-ups (the client should
+    replace the streamed text with it — a language rewrite may change it),
+    or an `error` event when the AI service fails.
+    """
+    _enforce_rate_limit(request)
+    messages = _build_messages(req)
 
-    if _needs_language_rewrite(reply, req.lang):
+    async def events():
+        raw = ""
+        sent = 0
         try:
-            reply = await _rewrite_reply_to_lang(reply, req.lang)
+            stream = await _deepseek.chat.completions.create(
+                model=_MODEL,
+                messages=messages,
+                temperature=0.35,
+                max_tokens=1024,
+                stream=True,
+            )
+            async for chunk in stream:
+                if await request.is_disconnected():
+                    return
+                delta = chunk.choices[0].delta.content if chunk.choices else None
+                if not delta:
+                    continue
+                raw += delta
+                visible = _strip_markdown(raw.split(_FOLLOW_UPS_MARKER, 1)[0])
+                if _FOLLOW_UPS_MARKER not in raw:
+                    # Hold back a tail that may be the start of the marker
+                    visible = visible[: max(0, len(visible) - len(_FOLLOW_UPS_MARKER))]
+                if len(visible) > sent:
+                    yield _sse("delta", {"text": visible[sent:]})
+                    sent = len(visible)
         except OpenAIError:
-            logger.warning("Language rewrite fallback failed", exc_info=True)
-
-    return ChatResponse(reply=reply, follow_ups=follow_ups)
+            logger.exception("DeepSeek streaming call failed")
+            yield _sse(
+                "error",
+                {"detail": "AI service is temporarily unavailable. Please try again shortly."},
+            )
+            return
+
+        reply, follow_ups = _parse_reply(raw)
+        reply = await _ensure_lang(reply, req.lang)
+        yield _sse("done", {"reply": reply, "follow_ups": follow_ups})
+
+    return StreamingResponse(
+        events(),
+        media_type="text/event-stream",
+        headers={"Cache-Control": "no-cache", "X-Accel-Buffering": "no"},
+    )
 
 
 # ─────────────────────────────────────────────────────────────────────────────
@@ -254,9 +336,15 @@ async def chat(req: ChatRequest, request: Request) -> ChatResponse:
 # ─────────────────────────────────────────────────────────────────────────────
 
 
+# Thread id the client uses for messages stored before threads existed
+_LEGACY_THREAD_ID = "legacy"
+
+
 class AddMessageRequest(BaseModel):
     role: Literal["user", "bot"]
     message: str = Field(..., min_length=1, max_length=8000)
+    # Client-generated conversation id; null for messages stored before threads existed
+    thread_id: str | None = Field(default=None, min_length=1, max_length=64)
 
 
 class MessageRow(BaseModel):
@@ -265,6 +353,7 @@ class MessageRow(BaseModel):
     role: str
     message: str
     created_at: str
+    thread_id: str | None = None
 
 
 class MessagesResponse(BaseModel):
@@ -286,10 +375,10 @@ async def add_message(
     current_user: dict = Depends(get_current_user),
 ) -> MessageRow:
     uid = current_user["sub"]
-    data, code = await db_insert(
-        "chatbot_messages",
-        {"user_id": uid, "role": req.role, "message": req.message},
-    )
+    payload: dict = {"user_id": uid, "role": req.role, "message": req.message}
+    if req.thread_id and req.thread_id != _LEGACY_THREAD_ID:
+        payload["thread_id"] = req.thread_id
+    data, code = await db_insert("chatbot_messages", payload)
     if code not in (200, 201):
         raise HTTPException(status_code=status.HTTP_500_INTERNAL_SERVER_ERROR, detail="Failed to store message")
     row = data[0] if isinstance(data, list) else data
@@ -305,15 +394,22 @@ async def get_messages(
     current_user: dict = Depends(get_current_user),
     limit: int = Query(default=200, ge=1, le=1000, description="Max messages to return"),
     offset: int = Query(default=0, ge=0, description="Number of messages to skip"),
+    thread_id: str | None = Query(
+        default=None,
+        max_length=64,
+        description="Only messages of this thread ('legacy' for messages without one)",
+    ),
 ) -> MessagesResponse:
     uid = current_user["sub"]
     data, code = await db_select(
         "chatbot_messages",
         {"user_id": uid},
-        columns="id,user_id,role,message,created_at",
+        columns="id,user_id,role,message,created_at,thread_id",
     )
     if code not in (200,):
         raise HTTPException(status_code=status.HTTP_500_INTERNAL_SERVER_ERROR, detail="Failed to load messages")
+    if thread_id:
+        data = [r for r in data if (r.get("thread_id") or _LEGACY_THREAD_ID) == thread_id]
     # Sort by created_at ascending, then paginate
     data.sort(key=lambda r: r.get("created_at", ""))
     page = data[offset : offset + limit]
@@ -323,9 +419,19 @@ async def get_messages(
 @router.delete(
     "/messages",
     response_model=DeleteResponse,
-    summary="Delete all chatbot messages for the current user",
+    summary="Delete chatbot messages for the current user (all, or one thread)",
 )
-async def delete_messages(current_user: dict = Depends(get_current_user)) -> DeleteResponse:
+async def delete_messages(
+    current_user: dict = Depends(get_current_user),
+    thread_id: str | None = Query(
+        default=None,
+        max_length=64,
+        description="Only delete this thread ('legacy' for messages without one)",
+    ),
+) -> DeleteResponse:
     uid = current_user["sub"]
-    await db_delete("chatbot_messages", {"user_id": uid})
+    filters: dict[str, str | None] = {"user_id": uid}
+    if thread_id:
+        filters["thread_id"] = None if thread_id == _LEGACY_THREAD_ID else thread_id
+    await db_delete("chatbot_messages", filters)
     return DeleteResponse(success=True)
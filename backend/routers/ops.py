@@ -15,7 +15,7 @@ from math import asin, cos, radians, sin, sqrt
 from typing import Any, Literal
 from uuid import uuid4
 
-from fastapi import APIRouter, Depends, HTTPException, Query, status
+from fastapi import APIRouter, Depends, HTTPException, Query, Request, status
 from fastapi.responses import HTMLResponse
 from pydantic import BaseModel, Field, field_validator
 
@@ -80,6 +80,11 @@ _MAX_TIMELINE_EMERGENCIES = 1000
 _MAX_TIMELINE_EVENTS_PER = 100
 _MAX_SHARE_LINKS = 5000
 
+# Idempotency keys already applied by /offline/sync, so a client replaying a
+# batch after a dropped response does not apply the same mutation twice.
+_OFFLINE_SYNC_SEEN: dict[str, str] = {}
+_MAX_OFFLINE_SYNC_KEYS = 20000
+
 
 def _parse_iso(ts: str | None) -> datetime | None:
     if not ts:
@@ -319,6 +324,10 @@ class HospitalEmergency(BaseModel):
     ambulance_vehicle: str | None = None
     ambulance_latitude: float | None = None
     ambulance_longitude: float | None = None
+    ambulance_location_confidence: float | None = None
+    ambulance_location_flags: list[str] | None = None
+    patient_location_confidence: float | None = None
+    patient_location_flags: list[str] | None = None
 
 
 # ΓöÇΓöÇΓöÇ Medical Notes models ΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇΓöÇ
@@ -511,6 +520,40 @@ def _to_point_wkt(latitude: float, longitude: float) -> str:
     return f"SRID=4326;POINT({longitude} {latitude})"
 
 
+_LOCATION_FLAGS = {"impossible_jump", "mocked", "stale", "low_accuracy"}
+
+
+def _location_integrity_fields(body: dict, prefix: str = "") -> dict:
+    """Confidence score and flags the app attached to a location update,
+    as columns to store next to the position. Missing or malformed values
+    are left out so older app versions keep working."""
+    confidence = body.get("location_confidence")
+    if not isinstance(confidence, (int, float)) or isinstance(confidence, bool):
+        return {}
+    flags = [str(f) for f in (body.get("location_flags") or []) if str(f) in _LOCATION_FLAGS]
+    return {
+        f"{prefix}location_confidence": round(max(0.0, min(1.0, float(confidence))), 2),
+        f"{prefix}location_flags": flags,
+    }
+
+
+async def _update_location(
+    table: str,
+    filters: dict[str, str],
+    payload: dict,
+    body: dict,
+    prefix: str = "",
+) -> int:
+    """Write a position with its integrity fields. Databases without the
+    0010_location_confidence columns reject the write, so it is retried
+    without them and the position still lands."""
+    integrity = _location_integrity_fields(body, prefix)
+    _, code = await db_update(table, filters, {**payload, **integrity})
+    if integrity and code not in (200, 204):
+        _, code = await db_update(table, filters, payload)
+    return code
+
+
 def _fallback_hospital_coords_from_address(address: str | None) -> tuple[float, float] | None:
     # Coarse geocode fallback for environments where hospitals.location is missing.
     # Addis Ababa city center approx.
@@ -612,12 +655,68 @@ async def _resolve_effective_hospital_id(
     return str(effective_hospital_id) if effective_hospital_id else None
 
 
+# Ambulance inventory (ambulances.inventory). Keep in step with
+# utils/ambulance-inventory.ts.
+_LOW_OXYGEN_PERCENT = 25
+_MEDICATION_MINIMUMS: dict[str, int] = {
+    "adrenaline": 2,
+    "aspirin": 10,
+    "oral_glucose": 2,
+    "iv_saline": 4,
+    "oxytocin": 2,
+    "paracetamol": 10,
+}
+_INVENTORY_EQUIPMENT = ("aed", "stretcher", "delivery_kit")
+# The equipment a case type prefers its ambulance to carry in working order.
+_EQUIPMENT_NEEDS: dict[str, str] = {
+    "cardiac": "aed",
+    "maternity": "delivery_kit",
+}
+_EQUIPMENT_MATCH_BONUS = 1.0
+_EQUIPMENT_MISSING_PENALTY = 1.0
+# Equipment only decides between vehicles this close in distance.
+_EQUIPMENT_TIEBREAK_KM = 2.0
+
+
+def _inventory_alerts(inventory: dict | None) -> list[str]:
+    """Inventory items that need restocking or repair, e.g. ["oxygen", "aed"]."""
+    inv = inventory or {}
+    alerts: list[str] = []
+    oxygen = inv.get("oxygen_percent")
+    if oxygen is not None and float(oxygen) < _LOW_OXYGEN_PERCENT:
+        alerts.append("oxygen")
+    for item in _INVENTORY_EQUIPMENT:
+        if inv.get(item) in ("faulty", "missing"):
+            alerts.append(item)
+    medications = inv.get("medications") or {}
+    for name, minimum in _MEDICATION_MINIMUMS.items():
+        count = medications.get(name)
+        if count is not None and int(count) < minimum:
+            alerts.append(name)
+    return alerts
+
+
+def _equipment_match_bonus(emergency_type: str | None, inventory: dict | None) -> float:
+    """Dispatch tie-breaker rank for carrying what the case needs. Vehicles
+    that never reported their inventory are neither preferred nor avoided."""
+    needed = _EQUIPMENT_NEEDS.get(str(emergency_type or "").lower())
+    if not needed:
+        return 0.0
+    state = (inventory or {}).get(needed)
+    if state == "ok":
+        return _EQUIPMENT_MATCH_BONUS
+    if state in ("faulty", "missing"):
+        return -_EQUIPMENT_MISSING_PENALTY
+    return 0.0
+
+
 async def _compute_dispatch_recommendation(
     latitude: float,
     longitude: float,
     max_radius_km: float,
     preferred_hospital_id: str | None = None,
     exclude_ambulance_ids: set[str] | None = None,
+    emergency_type: str | None = None,
 ) -> tuple[dict | None, str]:
     hospitals, hosp_code = await db_select(
         "hospitals",
@@ -633,8 +732,15 @@ async def _compute_dispatch_recommendation(
     ambulances, amb_code = await db_select(
         "ambulances",
         {},
-        columns="id,hospital_id,is_available,last_known_location",
+        columns="id,hospital_id,is_available,last_known_location,inventory",
     )
+    if amb_code not in (200, 206):
+        # Deployments without the inventory column still dispatch by distance.
+        ambulances, amb_code = await db_select(
+            "ambulances",
+            {},
+            columns="id,hospital_id,is_available,last_known_location",
+        )
     emergencies, eme_code = await db_select(
         "emergency_requests",
         {},
@@ -692,6 +798,7 @@ async def _compute_dispatch_recommendation(
     candidates = preferred_candidates if preferred_candidates else available
 
     best: dict | None = None
+    scored: list[tuple[float, float, dict]] = []
     fallback_without_location: list[dict] = []
     for amb in candidates:
         parsed = _parse_point_wkt(amb.get("last_known_location"))
@@ -725,6 +832,7 @@ async def _compute_dispatch_recommendation(
         load_score = max(0.0, 100.0 - load_ratio * 50.0)
         capacity_score = min(100.0, fleet * 10.0)
         capability_bonus = (6.0 if trauma_capable else 0.0) + min(icu_beds, 5) * 1.2
+        equipment_rank = _equipment_match_bonus(emergency_type, amb.get("inventory"))
         # Distance is the dominant factor (0.70) so that same-severity
         # requests always dispatch the nearest available ambulance first.
         score = (
@@ -735,17 +843,25 @@ async def _compute_dispatch_recommendation(
             + capability_bonus
         )
 
-        if best is None or score > best["score"]:
-            best = {
-                "ambulance_id": str(amb.get("id")),
-                "hospital_id": (str(amb.get("hospital_id")) if amb.get("hospital_id") else None),
-                "score": round(score, 2),
-                "distance_km": round(dist, 2),
-                "ambulance_latitude": amb_lat,
-                "ambulance_longitude": amb_lon,
-                "hospital_latitude": hospital_loc[0] if hospital_loc else None,
-                "hospital_longitude": hospital_loc[1] if hospital_loc else None,
-            }
+        scored.append((equipment_rank, dist, {
+            "ambulance_id": str(amb.get("id")),
+            "hospital_id": (str(amb.get("hospital_id")) if amb.get("hospital_id") else None),
+            "score": round(score, 2),
+            "distance_km": round(dist, 2),
+            "ambulance_latitude": amb_lat,
+            "ambulance_longitude": amb_lon,
+            "hospital_latitude": hospital_loc[0] if hospital_loc else None,
+            "hospital_longitude": hospital_loc[1] if hospital_loc else None,
+            "equipment_matched": equipment_rank > 0,
+        }))
+
+    if scored:
+        # Equipment breaks near-ties only: among vehicles within
+        # _EQUIPMENT_TIEBREAK_KM of the top-scored one, the one carrying what
+        # the case needs goes first, but never one from further out.
+        _, top_dist, top = max(scored, key=lambda entry: entry[2]["score"])
+        band = [entry for entry in scored if entry[1] <= top_dist + _EQUIPMENT_TIEBREAK_KM]
+        best = max(band, key=lambda entry: (entry[0], entry[2]["score"]))[2]
 
     # Resilience fallback: if no candidate had usable location data,
     # dispatch the first available ambulance instead of leaving emergency unassigned.
@@ -777,6 +893,8 @@ async def _compute_dispatch_recommendation(
     if best.get("distance_km") is None:
         return best, "Assigned by availability (ambulance live location unavailable)"
 
+    if best.get("equipment_matched"):
+        return best, "Recommended by distance, hospital load, fleet capacity, and equipment on board"
     return best, "Recommended by distance, hospital load, and fleet capacity"
 
 
@@ -787,6 +905,7 @@ async def _find_and_reserve_best_ambulance(
     max_radius_km: float,
     preferred_hospital_id: str | None,
     emergency_id: str,
+    emergency_type: str | None = None,
 ) -> tuple[dict | None, str]:
     excluded: set[str] = set()
     reason = "No available ambulances found."
@@ -806,6 +925,7 @@ async def _find_and_reserve_best_ambulance(
             max_radius_km,
             preferred_hospital_id=preferred_hospital_id,
             exclude_ambulance_ids=excluded,
+            emergency_type=emergency_type,
         )
         if best is None:
             _log_event(
@@ -1501,7 +1621,7 @@ async def hospital_emergencies(
         amb_csv = ",".join(ambulance_ids)
         amb_task = _asyncio.create_task(db_query(
             "ambulances",
-            columns="id,vehicle_number,registration_number,last_known_location",
+            columns="id,vehicle_number,registration_number,last_known_location,location_confidence,location_flags",
             params={"id": f"in.({amb_csv})"},
         ))
 
@@ -1517,7 +1637,14 @@ async def hospital_emergencies(
             if not existing or (m.get("updated_at") or "") > (existing.get("updated_at") or ""):
                 medical_by_id[uid] = m
     if amb_task:
-        amb_rows_result, _ = await amb_task
+        amb_rows_result, amb_code = await amb_task
+        if amb_code not in (200, 206):
+            # Deployments without the location confidence columns.
+            amb_rows_result, _ = await db_query(
+                "ambulances",
+                columns="id,vehicle_number,registration_number,last_known_location",
+                params={"id": f"in.({amb_csv})"},
+            )
         amb_rows = amb_rows_result or []
         for a in amb_rows:
             aid = str(a.get("id") or "")
@@ -1525,9 +1652,11 @@ async def hospital_emergencies(
 
     # Parse ambulance locations
     amb_coords_by_id: dict[str, tuple[float, float]] = {}
+    amb_rows_by_id: dict[str, dict] = {}
     if ambulance_ids:
         for a in (amb_rows or []):
             aid = str(a.get("id") or "")
+            amb_rows_by_id[aid] = a
             parsed_amb = _parse_point_wkt(a.get("last_known_location"))
             if parsed_amb:
                 amb_coords_by_id[aid] = parsed_amb
@@ -1559,6 +1688,10 @@ async def hospital_emergencies(
                 ambulance_vehicle=vehicles_by_amb.get(amb_id) or None,
                 ambulance_latitude=amb_loc[0] if amb_loc else None,
                 ambulance_longitude=amb_loc[1] if amb_loc else None,
+                ambulance_location_confidence=(amb_rows_by_id.get(amb_id) or {}).get("location_confidence"),
+                ambulance_location_flags=(amb_rows_by_id.get(amb_id) or {}).get("location_flags"),
+                patient_location_confidence=raw.get("patient_location_confidence"),
+                patient_location_flags=raw.get("patient_location_flags"),
             )
         )
 
@@ -1608,6 +1741,37 @@ async def hospital_fleet(
     available = sum(1 for a in ambulances if bool(a.get("is_available")))
     busy = total - available
 
+    # Who is on shift in each vehicle. Best-effort: deployments without the
+    # driver_shifts table still get the fleet counts.
+    amb_ids = [str(a.get("id")) for a in ambulances if a.get("id")]
+    if amb_ids:
+        shifts, shift_code = await db_query(
+            "driver_shifts",
+            columns="ambulance_id,driver_id,status,started_at",
+            params={"ambulance_id": f"in.({','.join(amb_ids)})", "ended_at": "is.null"},
+        )
+        if shift_code in (200, 206) and shifts:
+            driver_ids = sorted({str(s.get("driver_id")) for s in shifts if s.get("driver_id")})
+            drivers, _ = await db_query(
+                "profiles",
+                columns="id,full_name,phone",
+                params={"id": f"in.({','.join(driver_ids)})"},
+            )
+            drivers_by_id = {str(d.get("id")): d for d in drivers or []}
+            shifts_by_ambulance = {str(s.get("ambulance_id")): s for s in shifts}
+            for amb in ambulances:
+                open_shift = shifts_by_ambulance.get(str(amb.get("id")))
+                if not open_shift:
+                    continue
+                driver = drivers_by_id.get(str(open_shift.get("driver_id")), {})
+                amb["shift"] = {
+                    "driver_id": open_shift.get("driver_id"),
+                    "driver_name": driver.get("full_name"),
+                    "driver_phone": driver.get("phone"),
+                    "status": open_shift.get("status"),
+                    "started_at": open_shift.get("started_at"),
+                }
+
     return HospitalFleetResponse(
         hospital_id=str(effective_hospital_id),
         total_ambulances=total,
@@ -2434,6 +2598,7 @@ async def dispatch_recommendation(
     latitude: float = Query(..., ge=-90, le=90),
     longitude: float = Query(..., ge=-180, le=180),
     max_radius_km: float = Query(default=50.0, ge=1.0, le=200.0),
+    emergency_type: str | None = Query(default=None, max_length=40, description="e.g. cardiac, maternity"),
     current_user: dict = Depends(get_current_user),
 ) -> DispatchRecommendationResponse:
     user_id = str(current_user.get("sub") or "")
@@ -2442,6 +2607,7 @@ async def dispatch_recommendation(
         latitude,
         longitude,
         max_radius_km,
+        emergency_type=emergency_type,
     )
 
     if best is None:
@@ -2545,6 +2711,7 @@ async def create_patient_emergency(
             max_radius_km=payload.max_radius_km,
             preferred_hospital_id=preferred_hospital_id,
             emergency_id=existing_id,
+            emergency_type=payload.emergency_type,
         )
 
         if best_existing is None:
@@ -2705,6 +2872,7 @@ async def create_patient_emergency(
         max_radius_km=payload.max_radius_km,
         preferred_hospital_id=preferred_hospital_id,
         emergency_id=emergency_id,
+        emergency_type=payload.emergency_type,
     )
 
     if best is None:
@@ -2855,7 +3023,7 @@ async def retry_patient_emergency_dispatch(
     rows, code = await db_select(
         "emergency_requests",
         {"id": emergency_id},
-        columns="id,patient_id,patient_location,hospital_id,status,assigned_ambulance_id",
+        columns="id,patient_id,patient_location,hospital_id,status,assigned_ambulance_id,emergency_type",
     )
     if code not in (200, 206) or not rows:
         raise HTTPException(status_code=404, detail="Emergency request not found")
@@ -2920,6 +3088,7 @@ async def retry_patient_emergency_dispatch(
         max_radius_km=payload.max_radius_km,
         preferred_hospital_id=preferred_hospital_id,
         emergency_id=emergency_id,
+        emergency_type=emergency.get("emergency_type"),
     )
 
     if best is None:
@@ -3228,6 +3397,59 @@ class FamilyShareInput(BaseModel):
     expires_minutes: int = Field(default=180, ge=10, le=1440)
 
 
+class FamilyNotifyInput(BaseModel):
+    emergency_id: str = Field(min_length=8)
+    events: list[Literal["emergency_created", "ambulance_assigned", "at_hospital"]] = Field(min_length=1, max_length=3)
+    language: Literal["en", "am", "om"] = "en"
+    share_token: str | None = Field(default=None, max_length=64)
+
+
+class TrackPointInput(BaseModel):
+    latitude: float = Field(ge=-90, le=90)
+    longitude: float = Field(ge=-180, le=180)
+    accuracy: float | None = Field(default=None, ge=0)
+    speed: float | None = Field(default=None, ge=0)
+    recorded_at: str | None = None
+
+
+class TrackPointsInput(BaseModel):
+    ambulance_id: str = Field(min_length=8)
+    points: list[TrackPointInput] = Field(min_length=1, max_length=200)
+
+
+class AmbulanceInventoryInput(BaseModel):
+    ambulance_id: str = Field(min_length=8)
+    oxygen_percent: float | None = Field(default=None, ge=0, le=100)
+    aed: Literal["ok", "faulty", "missing"] | None = None
+    stretcher: Literal["ok", "faulty", "missing"] | None = None
+    delivery_kit: Literal["ok", "faulty", "missing"] | None = None
+    medications: dict[str, int] = Field(default_factory=dict)
+
+    @field_validator("medications")
+    @classmethod
+    def _known_non_negative(cls, value: dict[str, int]) -> dict[str, int]:
+        unknown = sorted(set(value) - set(_MEDICATION_MINIMUMS))
+        if unknown:
+            raise ValueError(f"Unknown medications: {', '.join(unknown)}")
+        if any(count < 0 for count in value.values()):
+            raise ValueError("Medication counts cannot be negative")
+        return value
+
+
+class ShiftCheckInInput(BaseModel):
+    ambulance_id: str = Field(min_length=8)
+    inspection: dict[str, bool] = Field(default_factory=dict)
+    inspection_notes: str | None = Field(default=None, max_length=500)
+
+
+class ShiftBreakInput(BaseModel):
+    on_break: bool
+
+
+class ShiftEndInput(BaseModel):
+    handoff_phone: str | None = Field(default=None, min_length=9, max_length=16)
+
+
 class DriverSafetyInput(BaseModel):
     speed_kmh: float = Field(ge=0, le=250)
     harsh_brake_count: int = Field(default=0, ge=0, le=100)
@@ -3244,9 +3466,10 @@ class GpsConfidenceInput(BaseModel):
 
 
 class OfflineSyncItem(BaseModel):
-    type: Literal["location_ping", "emergency_create", "status_update"]
+    type: Literal["location_ping", "emergency_create", "status_update", "medical_note"]
     payload: dict[str, Any]
     queued_at: str | None = None
+    idempotency_key: str | None = Field(default=None, max_length=80)
 
 
 class OfflineSyncInput(BaseModel):
@@ -3356,39 +3579,119 @@ async def offline_sync(
     # Pre-fetch the ambulance assigned to this driver for ownership validation
     my_ambulance_rows, _ = await db_select("ambulances", {"current_driver_id": user_id})
     my_ambulance_ids = {str(a["id"]) for a in (my_ambulance_rows or [])}
+    # Last applied fix per ambulance, so an older replayed ping cannot move it back.
+    last_fix_at = {str(a["id"]): _parse_iso(str(a.get("updated_at") or "")) for a in (my_ambulance_rows or [])}
 
     accepted = 0
     rejected = 0
+    results: list[dict[str, Any]] = []
+    # Emergencies whose status replay failed; later transitions must wait for it.
+    blocked_status: set[str] = set()
+
+    def _record(item: OfflineSyncItem, ok: bool, reason: str | None = None) -> None:
+        nonlocal accepted, rejected
+        if ok:
+            accepted += 1
+            if item.idempotency_key:
+                _OFFLINE_SYNC_SEEN[item.idempotency_key] = user_id
+                if len(_OFFLINE_SYNC_SEEN) > _MAX_OFFLINE_SYNC_KEYS:
+                    _OFFLINE_SYNC_SEEN.pop(next(iter(_OFFLINE_SYNC_SEEN)))
+        else:
+            rejected += 1
+        results.append({
+            "idempotency_key": item.idempotency_key,
+            "type": item.type,
+            "status": "accepted" if ok else "rejected",
+            "reason": reason,
+        })
+
     for item in payload.items:
+        if item.idempotency_key and _OFFLINE_SYNC_SEEN.get(item.idempotency_key) == user_id:
+            _record(item, True, "duplicate")
+            continue
+
         if item.type == "location_ping":
             ambulance_id = str(item.payload.get("ambulance_id") or "")
             lat = item.payload.get("latitude")
             lng = item.payload.get("longitude")
             if not ambulance_id or lat is None or lng is None:
-                rejected += 1
+                _record(item, False, "ambulance_id, latitude and longitude required")
                 continue
             # Ownership check: only allow updating location for own ambulance
             if ambulance_id not in my_ambulance_ids:
-                rejected += 1
+                _record(item, False, "Ambulance is not linked to this account")
                 continue
-            _, code = await db_update(
+            now = datetime.now(timezone.utc)
+            fix_at = _parse_iso(str(item.payload.get("recorded_at") or "")) or now
+            if fix_at.tzinfo is None:
+                fix_at = fix_at.replace(tzinfo=timezone.utc)
+            fix_at = min(fix_at, now)
+            current = last_fix_at.get(ambulance_id)
+            if current is not None and current.tzinfo is None:
+                current = current.replace(tzinfo=timezone.utc)
+            emergency_id = str(item.payload.get("emergency_id") or "")
+            if current is not None and fix_at <= current:
+                # Older than the live position: keep it on the track only.
+                if emergency_id and await _emergency_assigned_to(emergency_id, ambulance_id):
+                    await _record_track_points(emergency_id, ambulance_id, [item.payload])
+                _record(item, True, "stale")
+                continue
+            code = await _update_location(
                 "ambulances",
                 {"id": ambulance_id},
                 {
                     "last_known_location": _to_point_wkt(float(lat), float(lng)),
-                    "updated_at": datetime.now(timezone.utc).isoformat(),
+                    "updated_at": fix_at.isoformat(),
                 },
+                item.payload,
             )
             if code in (200, 204):
-                accepted += 1
-            else:
-                rejected += 1
+                last_fix_at[ambulance_id] = fix_at
+                if emergency_id and await _emergency_assigned_to(emergency_id, ambulance_id):
+                    await _record_track_points(emergency_id, ambulance_id, [item.payload])
+            _record(item, code in (200, 204), None if code in (200, 204) else "Location update failed")
+        elif item.type == "status_update":
+            emergency_id = str(item.payload.get("emergency_id") or "")
+            if not emergency_id:
+                _record(item, False, "emergency_id required")
+                continue
+            if emergency_id in blocked_status:
+                _record(item, False, "An earlier status update for this emergency was rejected")
+                continue
+            try:
+                await update_patient_emergency_status(
+                    emergency_id,
+                    {"status": item.payload.get("status")},
+                    current_user,
+                )
+                _record(item, True)
+            except HTTPException as exc:
+                blocked_status.add(emergency_id)
+                _record(item, False, str(exc.detail))
+        elif item.type == "medical_note":
+            emergency_id = str(item.payload.get("emergency_id") or "")
+            if not emergency_id:
+                _record(item, False, "emergency_id required")
+                continue
+            try:
+                note = MedicalNoteInput(
+                    note_type=item.payload.get("note_type") or "general",
+                    content=str(item.payload.get("content") or ""),
+                    vitals=item.payload.get("vitals"),
+                )
+                await add_medical_note(emergency_id, note, current_user)
+                _record(item, True)
+            except HTTPException as exc:
+                _record(item, False, str(exc.detail))
+            except ValueError as exc:
+                _record(item, False, str(exc))
         else:
-            accepted += 1
+            _record(item, True)
 
     return {
         "accepted": accepted,
         "rejected": rejected,
+        "results": results,
         "server_received_at": datetime.now(timezone.utc).isoformat(),
     }
 
@@ -3399,7 +3702,19 @@ async def timeline_add_event(
     current_user: dict = Depends(get_current_user),
 ) -> dict:
     user_id = str(current_user.get("sub") or "")
-    me = await _require_role(user_id, current_user, ("ambulance", "driver", "hospital", "admin"))
+    me = await _require_role(user_id, current_user, ("patient", "ambulance", "driver", "hospital", "admin"))
+
+    if str(me.get("role") or "").lower() == "patient":
+        # Patients may only record events (dispatch, cancellation, bystander first aid) on their own emergency
+        emergency_rows, emergency_code = await db_select(
+            "emergency_requests",
+            {"id": payload.emergency_id},
+            columns="id,patient_id",
+        )
+        if emergency_code not in (200, 206) or not emergency_rows:
+            raise HTTPException(status_code=404, detail="Emergency request not found")
+        if str(emergency_rows[0].get("patient_id") or "") != user_id:
+            raise HTTPException(status_code=403, detail="You can only add events to your own emergency request")
 
     event = {
         "id": str(uuid4()),
@@ -3543,6 +3858,133 @@ async def family_share_resolve(share_token: str = Query(..., min_length=16)) ->
     }
 
 
+def _phone_tail(phone: str) -> str:
+    """Last 9 digits, so 09…, 9… and +2519… forms of a number compare equal."""
+    digits = "".join(ch for ch in phone if ch.isdigit())
+    return digits[-9:] if len(digits) >= 9 else ""
+
+
+# Mirrors the contact_alert_* strings in the app's utils/i18n.ts; the title lives only here.
+_FAMILY_ALERT_TEXT: dict[str, dict[str, str]] = {
+    "en": {
+        "title": "Erdataye emergency alert",
+        "emergency_created": "{name} has requested an emergency ambulance.",
+        "created_assigned": "{name} has requested an emergency ambulance and one is on its way.",
+        "ambulance_assigned": "An ambulance is on its way to {name}.",
+        "at_hospital": "{name} has arrived at the hospital.",
+        "follow": "Follow live: {url}",
+        "someone": "Your contact",
+    },
+    "am": {
+        "title": "የእርዳታዬ የአደጋ ማንቂያ",
+        "emergency_created": "{name} የአደጋ ጊዜ አምቡላንስ ጠይቀዋል።",
+        "created_assigned": "{name} የአደጋ ጊዜ አምቡላንስ ጠይቀዋል፤ አምቡላንስ በመንገድ ላይ ነው።",
+        "ambulance_assigned": "አምቡላንስ ወደ {name} በመንገድ ላይ ነው።",
+        "at_hospital": "{name} ሆስፒታል ደርሰዋል።",
+        "follow": "በቀጥታ ይከታተሉ: {url}",
+        "someone": "የእርስዎ ሰው",
+    },
+    "om": {
+        "title": "Akeekkachiisa balaa Erdataye",
+        "emergency_created": "{name} ambulaansii balaa tasaa gaafateera.",
+        "created_assigned": "{name} ambulaansii balaa tasaa gaafateera; ambulaansiin karaa irra jira.",
+        "ambulance_assigned": "Ambulaansiin gara {name} deemaa jira.",
+        "at_hospital": "{name} hospitaala ga'eera.",
+        "follow": "Kallattiin hordofi: {url}",
+        "someone": "Namni kee",
+    },
+}
+
+
+def _family_alert_message(events: list[str], language: str, name: str, share_url: str | None) -> tuple[str, str]:
+    """Title and body of a trusted-contact push, built here so clients cannot choose what is sent."""
+    text = _FAMILY_ALERT_TEXT.get(language) or _FAMILY_ALERT_TEXT["en"]
+    key = "created_assigned" if {"emergency_created", "ambulance_assigned"} <= set(events) else events[0]
+    body = text[key].format(name=name.strip() or text["someone"])
+    if share_url:
+        body = f"{body} {text['follow'].format(url=share_url)}"
+    return text["title"], body
+
+
+def _family_share_url(request: Request, share_token: str | None, emergency_id: str) -> str | None:
+    """Live link for a share token issued for this emergency and not yet expired."""
+    if not share_token:
+        return None
+    row = _SHARE_LINKS.get(share_token)
+    if not row or str(row.get("emergency_id") or "") != emergency_id:
+        raise HTTPException(status_code=400, detail="Share link does not belong to this emergency request")
+    expires = _parse_iso(str(row.get("expires_at") or ""))
+    if not expires or expires < datetime.now(timezone.utc):
+        return None
+    return str(request.url_for("family_share_live").include_query_params(share_token=share_token))
+
+
+@router.post("/family/notify", summary="Push an emergency alert to the patient's trusted contacts")
+async def family_notify_contacts(
+    payload: FamilyNotifyInput,
+    request: Request,
+    current_user: dict = Depends(get_current_user),
+) -> dict:
+    user_id = str(current_user.get("sub") or "")
+    await _require_role(user_id, current_user, ("patient",))
+
+    emergency_rows, emergency_code = await db_select(
+        "emergency_requests",
+        {"id": payload.emergency_id},
+        columns="id,patient_id",
+    )
+    if emergency_code not in (200, 206) or not emergency_rows:
+        raise HTTPException(status_code=404, detail="Emergency request not found")
+    if str(emergency_rows[0].get("patient_id") or "") != user_id:
+        raise HTTPException(status_code=403, detail="You can only alert contacts about your own emergency request")
+
+    share_url = _family_share_url(request, payload.share_token, payload.emergency_id)
+    patient_rows, _ = await db_select("profiles", {"id": user_id}, columns="full_name")
+    title, body = _family_alert_message(
+        payload.events,
+        payload.language,
+        str((patient_rows or [{}])[0].get("full_name") or ""),
+        share_url,
+    )
+
+    contacts, contacts_code = await db_query(
+        "trusted_contacts",
+        columns="id,phone",
+        params={"user_id": f"eq.{user_id}", "channel": "eq.push"},
+    )
+    if contacts_code not in (200, 206):
+        raise HTTPException(status_code=502, detail="Could not load trusted contacts")
+
+    results: list[dict] = []
+    for contact in contacts:
+        contact_id = str(contact.get("id") or "")
+        tail = _phone_tail(str(contact.get("phone") or ""))
+        profiles, _ = (
+            await db_query("profiles", columns="id", params={"phone": f"like.*{tail}", "limit": "1"})
+            if tail
+            else ([], 0)
+        )
+        if not profiles:
+            # No app account for this number; the app falls back to SMS.
+            results.append({"contact_id": contact_id, "status": "not_on_app"})
+            continue
+
+        sent = await _send_push_notification(
+            str(profiles[0].get("id") or ""),
+            title,
+            body,
+            {
+                "type": "trusted_contact_alert",
+                "event": payload.events[-1],
+                "emergency_id": payload.emergency_id,
+                "share_url": share_url,
+            },
+        )
+        results.append({"contact_id": contact_id, "status": "sent" if sent else "failed"})
+
+    return {"emergency_id": payload.emergency_id, "results": results}
+
+
 async def _build_family_share_live_payload(share_token: str) -> dict:
         row = _SHARE_LINKS.get(share_token)
         if not row:
@@ -4278,7 +4720,13 @@ async def update_patient_live_location(
         return {"success": False, "reason": "Emergency is no longer active"}
     point = _to_point_wkt(lat, lng)
     now = datetime.now(timezone.utc).isoformat()
-    await db_update("emergency_requests", {"id": emergency_id}, {"patient_location": point, "updated_at": now})
+    await _update_location(
+        "emergency_requests",
+        {"id": emergency_id},
+        {"patient_location": point, "updated_at": now},
+        body,
+        "patient_",
+    )
     return {"success": True}
 
 
@@ -4727,6 +5175,332 @@ async def toggle_ambulance_availability(body: dict, current_user: dict = Depends
     return {"success": True}
 
 
+_INVENTORY_ALERT_LABELS: dict[str, str] = {
+    "oxygen": "oxygen low",
+    "aed": "defibrillator not working",
+    "stretcher": "stretcher not working",
+    "delivery_kit": "delivery kit missing",
+    "adrenaline": "adrenaline low",
+    "aspirin": "aspirin low",
+    "oral_glucose": "oral glucose low",
+    "iv_saline": "IV saline low",
+    "oxytocin": "oxytocin low",
+    "paracetamol": "paracetamol low",
+}
+
+
+async def _notify_inventory_alerts(ambulance: dict, alerts: list[str]) -> None:
+    """Push new low-stock alerts to the ambulance's hospital staff.
+    Best-effort: the inventory is already saved."""
+    hospital_id = str(ambulance.get("hospital_id") or "")
+    if not hospital_id or not alerts:
+        return
+    try:
+        staff, _ = await db_query(
+            "profiles",
+            columns="id",
+            params={"hospital_id": f"eq.{hospital_id}", "role": "eq.hospital"},
+        )
+        vehicle = str(ambulance.get("vehicle_number") or ambulance.get("id") or "")[:20]
+        body = "; ".join(_INVENTORY_ALERT_LABELS.get(a, a) for a in alerts)
+        for member in staff or []:
+            await _send_push_notification(
+                str(member.get("id")),
+                f"Restock ambulance {vehicle}",
+                body[:1].upper() + body[1:] + ".",
+                {"type": "inventory_alert", "ambulance_id": str(ambulance.get("id")), "alerts": alerts},
+            )
+    except Exception:
+        logger.warning("Inventory alerts not sent for ambulance %s", ambulance.get("id"))
+
+
+@router.put("/driver/ambulance/inventory", summary="Update the ambulance's equipment and medication inventory")
+async def update_ambulance_inventory(
+    payload: AmbulanceInventoryInput,
+    current_user: dict = Depends(get_current_user),
+) -> dict:
+    uid = str(current_user.get("sub") or "")
+    rows, _ = await db_select("ambulances", {"id": payload.ambulance_id})
+    if not rows or str(rows[0].get("current_driver_id") or "") != uid:
+        raise HTTPException(status_code=403, detail="Not authorised for this ambulance")
+    ambulance = rows[0]
+
+    now = datetime.now(timezone.utc).isoformat()
+    inventory = payload.model_dump(exclude={"ambulance_id"})
+    inventory["updated_at"] = now
+    _, code = await db_update(
+        "ambulances",
+        {"id": payload.ambulance_id},
+        {"inventory": inventory, "inventory_updated_at": now, "updated_at": now},
+    )
+    if code not in (200, 204):
+        raise HTTPException(status_code=502, detail="Failed to save the inventory")
+
+    alerts = _inventory_alerts(inventory)
+    # Only alert on items that were fine at the previous update, so staff
+    # are not paged again for stock they already know is low.
+    previous = set(_inventory_alerts(ambulance.get("inventory")))
+    await _notify_inventory_alerts(ambulance, [a for a in alerts if a not in previous])
+    return {"inventory": inventory, "alerts": alerts}
+
+
+_SHIFT_COLUMNS = (
+    "id,driver_id,ambulance_id,status,inspection,inspection_notes,started_at,"
+    "break_started_at,break_minutes,ended_at,handed_to"
+)
+_ACTIVE_EMERGENCY_STATUSES = "in.(assigned,en_route,at_scene,arrived,transporting,at_hospital)"
+
+
+async def _get_open_shift(driver_id: str) -> dict | None:
+    rows, code = await db_query(
+        "driver_shifts",
+        columns=_SHIFT_COLUMNS,
+        params={"driver_id": f"eq.{driver_id}", "ended_at": "is.null", "limit": "1"},
+    )
+    if code not in (200, 206):
+        raise HTTPException(status_code=502, detail="Could not load the current shift")
+    return rows[0] if rows else None
+
+
+async def _shift_km_driven(ambulance_id: str, since: str, until: str | None = None) -> float | None:
+    """Distance along the ambulance's recorded GPS track during a shift.
+    Imprecise fixes are skipped, as in the trip replay."""
+    params = {
+        "ambulance_id": f"eq.{ambulance_id}",
+        "recorded_at": f"gte.{since}",
+        "order": "recorded_at.asc",
+        "limit": "5000",
+    }
+    if until:
+        params["and"] = f"(recorded_at.lte.{until})"
+    points, code = await db_query(
+        "emergency_track_points",
+        columns="latitude,longitude,accuracy",
+        params=params,
+    )
+    if code not in (200, 206):
+        return None
+    km = 0.0
+    previous: dict | None = None
+    for point in points:
+        if point.get("accuracy") is not None and float(point["accuracy"]) > 100:
+            continue
+        if previous is not None:
+            km += _distance_km(
+                float(previous["latitude"]),
+                float(previous["longitude"]),
+                float(point["latitude"]),
+                float(point["longitude"]),
+            )
+        previous = point
+    return round(km, 2)
+
+
+async def _ambulance_has_active_emergency(ambulance_id: str) -> bool:
+    rows, _ = await db_query(
+        "emergency_requests",
+        columns="id",
+        params={
+            "assigned_ambulance_id": f"eq.{ambulance_id}",
+            "status": _ACTIVE_EMERGENCY_STATUSES,
+            "limit": "1",
+        },
+    )
+    return bool(rows)
+
+
+async def _shift_with_distance(shift: dict) -> dict:
+    km = await _shift_km_driven(
+        str(shift["ambulance_id"]),
+        str(shift["started_at"]),
+        shift.get("ended_at"),
+    )
+    return {**shift, "km_driven": km}
+
+
+@router.get("/driver/shift", summary="Driver's open shift, if any")
+async def get_driver_shift(current_user: dict = Depends(get_current_user)) -> dict:
+    uid = str(current_user.get("sub") or "")
+    shift = await _get_open_shift(uid)
+    return {"shift": await _shift_with_distance(shift) if shift else None}
+
+
+@router.post("/driver/shift/check-in", summary="Start a shift after the vehicle inspection")
+async def check_in_driver_shift(
+    payload: ShiftCheckInInput,
+    current_user: dict = Depends(get_current_user),
+) -> dict:
+    uid = str(current_user.get("sub") or "")
+    await _require_role(uid, current_user, ("driver", "ambulance"))
+    rows, _ = await db_select("ambulances", {"id": payload.ambulance_id})
+    if not rows or str(rows[0].get("current_driver_id") or "") != uid:
+        raise HTTPException(status_code=403, detail="Not authorised for this ambulance")
+    failed = sorted(key for key, passed in payload.inspection.items() if not passed)
+    if failed and not (payload.inspection_notes or "").strip():
+        raise HTTPException(
+            status_code=400,
+            detail=f"Describe the failed inspection items: {', '.join(failed)}",
+        )
+    if await _get_open_shift(uid):
+        raise HTTPException(status_code=409, detail="A shift is already open")
+
+    now = datetime.now(timezone.utc).isoformat()
+    created, code = await db_insert(
+        "driver_shifts",
+        {
+            "driver_id": uid,
+            "ambulance_id": payload.ambulance_id,
+            "status": "on_duty",
+            "inspection": payload.inspection,
+            "inspection_notes": (payload.inspection_notes or "").strip() or None,
+            "started_at": now,
+        },
+    )
+    if code not in (200, 201) or not isinstance(created, list) or not created:
+        raise HTTPException(status_code=502, detail="Failed to start the shift")
+    await db_update("ambulances", {"id": payload.ambulance_id}, {"is_available": True, "updated_at": now})
+    return {"shift": {**created[0], "km_driven": 0.0}}
+
+
+@router.post("/driver/shift/break", summary="Start or end a break; assignments pause meanwhile")
+async def set_driver_shift_break(
+    payload: ShiftBreakInput,
+    current_user: dict = Depends(get_current_user),
+) -> dict:
+    uid = str(current_user.get("sub") or "")
+    shift = await _get_open_shift(uid)
+    if not shift:
+        raise HTTPException(status_code=409, detail="No open shift")
+    ambulance_id = str(shift["ambulance_id"])
+    now_dt = datetime.now(timezone.utc)
+    now = now_dt.isoformat()
+
+    if payload.on_break:
+        if shift.get("status") == "on_break":
+            return {"shift": await _shift_with_distance(shift)}
+        if await _ambulance_has_active_emergency(ambulance_id):
+            raise HTTPException(status_code=409, detail="Finish the active emergency before taking a break")
+        changes: dict = {"status": "on_break", "break_started_at": now, "updated_at": now}
+    else:
+        if shift.get("status") != "on_break":
+            return {"shift": await _shift_with_distance(shift)}
+        started = _parse_iso(shift.get("break_started_at"))
+        minutes = int((now_dt - started).total_seconds() // 60) if started else 0
+        changes = {
+            "status": "on_duty",
+            "break_started_at": None,
+            "break_minutes": int(shift.get("break_minutes") or 0) + max(minutes, 0),
+            "updated_at": now,
+        }
+
+    updated, code = await db_update("driver_shifts", {"id": str(shift["id"])}, changes)
+    if code not in (200, 204):
+        raise HTTPException(status_code=502, detail="Failed to update the shift")
+    await db_update(
+        "ambulances",
+        {"id": ambulance_id},
+        {"is_available": not payload.on_break, "updated_at": now},
+    )
+    row = updated[0] if isinstance(updated, list) and updated else {**shift, **changes}
+    return {"shift": await _shift_with_distance(row)}
+
+
+@router.post("/driver/shift/end", summary="End the shift, optionally handing the ambulance over")
+async def end_driver_shift(
+    payload: ShiftEndInput,
+    current_user: dict = Depends(get_current_user),
+) -> dict:
+    uid = str(current_user.get("sub") or "")
+    shift = await _get_open_shift(uid)
+    if not shift:
+        raise HTTPException(status_code=409, detail="No open shift")
+    ambulance_id = str(shift["ambulance_id"])
+    if await _ambulance_has_active_emergency(ambulance_id):
+        raise HTTPException(status_code=409, detail="Finish the active emergency before ending the shift")
+
+    next_driver: dict | None = None
+    if payload.handoff_phone:
+        ambulance_rows, _ = await db_select("ambulances", {"id": ambulance_id}, columns="id,hospital_id")
+        hospital_id = str((ambulance_rows or [{}])[0].get("hospital_id") or "")
+        for candidate in _phone_candidates(payload.handoff_phone):
+            rows, _ = await db_select("profiles", {"phone": candidate}, columns="id,full_name,role,hospital_id")
+            match = next(
+                (r for r in rows or [] if str(r.get("role") or "").lower() in ("driver", "ambulance")),
+                None,
+            )
+            if match:
+                next_driver = match
+                break
+        if not next_driver:
+            raise HTTPException(status_code=400, detail="No ambulance crew account uses that phone number")
+        if str(next_driver["id"]) == uid:
+            raise HTTPException(status_code=400, detail="Hand the ambulance to another crew member")
+        if not hospital_id or str(next_driver.get("hospital_id") or "") != hospital_id:
+            raise HTTPException(status_code=403, detail="That crew member does not belong to this ambulance's hospital")
+        driving, _ = await db_select("ambulances", {"current_driver_id": str(next_driver["id"])}, columns="id")
+        if driving:
+            raise HTTPException(status_code=409, detail="That crew member is already assigned to another ambulance")
+
+    now_dt = datetime.now(timezone.utc)
+    now = now_dt.isoformat()
+    break_minutes = int(shift.get("break_minutes") or 0)
+    if shift.get("status") == "on_break":
+        started = _parse_iso(shift.get("break_started_at"))
+        if started:
+            break_minutes += max(int((now_dt - started).total_seconds() // 60), 0)
+    changes = {
+        "status": "ended",
+        "ended_at": now,
+        "break_started_at": None,
+        "break_minutes": break_minutes,
+        "handed_to": str(next_driver["id"]) if next_driver else None,
+        "updated_at": now,
+    }
+    updated, code = await db_update("driver_shifts", {"id": str(shift["id"])}, changes)
+    if code not in (200, 204):
+        raise HTTPException(status_code=502, detail="Failed to end the shift")
+
+    ambulance_changes: dict = {"is_available": False, "updated_at": now}
+    if next_driver:
+        ambulance_changes["current_driver_id"] = str(next_driver["id"])
+    await db_update("ambulances", {"id": ambulance_id}, ambulance_changes)
+
+    row = updated[0] if isinstance(updated, list) and updated else {**shift, **changes}
+    return {
+        "shift": await _shift_with_distance(row),
+        "handed_to_name": next_driver.get("full_name") if next_driver else None,
+    }
+
+
+async def _emergency_assigned_to(emergency_id: str, ambulance_id: str) -> bool:
+    """Whether the ambulance is the one assigned to the emergency, so it may extend its track."""
+    rows, code = await db_select("emergency_requests", {"id": emergency_id}, columns="assigned_ambulance_id")
+    return code in (200, 206) and bool(rows) and str(rows[0].get("assigned_ambulance_id") or "") == ambulance_id
+
+
+async def _record_track_points(emergency_id: str, ambulance_id: str, points: list[dict]) -> bool:
+    """Append breadcrumbs to an emergency's GPS track. Best-effort: the live
+    location update has already been applied when this runs."""
+    now = datetime.now(timezone.utc).isoformat()
+    rows = [
+        {
+            "emergency_id": emergency_id,
+            "ambulance_id": ambulance_id,
+            "latitude": float(point["latitude"]),
+            "longitude": float(point["longitude"]),
+            "accuracy": point.get("accuracy"),
+            "speed": point.get("speed"),
+            "recorded_at": point.get("recorded_at") or now,
+        }
+        for point in points
+    ]
+    _, code = await db_insert("emergency_track_points", rows)
+    if code not in (200, 201, 204):
+        logger.warning("Track points not recorded for emergency %s (status %s)", emergency_id, code)
+        return False
+    return True
+
+
 @router.put("/driver/ambulance/location", summary="Send ambulance location update")
 async def update_ambulance_location(body: dict, current_user: dict = Depends(get_current_user)) -> dict:
     ambulance_id = str(body.get("ambulance_id") or "")
@@ -4741,10 +5515,69 @@ async def update_ambulance_location(body: dict, current_user: dict = Depends(get
         raise HTTPException(status_code=403, detail="Not authorised for this ambulance")
     point = _to_point_wkt(lat, lng)
     now = datetime.now(timezone.utc).isoformat()
-    await db_update("ambulances", {"id": ambulance_id}, {"last_known_location": point, "updated_at": now})
+    await _update_location(
+        "ambulances",
+        {"id": ambulance_id},
+        {"last_known_location": point, "updated_at": now},
+        body,
+    )
+    # Samples sent during an assignment also extend the emergency's track.
+    emergency_id = str(body.get("emergency_id") or "")
+    if emergency_id and await _emergency_assigned_to(emergency_id, ambulance_id):
+        await _record_track_points(emergency_id, ambulance_id, [body])
     return {"success": True}
 
 
+@router.post("/emergencies/{emergency_id}/track", summary="Append GPS breadcrumbs to an emergency's track")
+async def add_emergency_track_points(
+    emergency_id: str,
+    payload: TrackPointsInput,
+    current_user: dict = Depends(get_current_user),
+) -> dict:
+    uid = str(current_user.get("sub") or "")
+    rows, _ = await db_select("ambulances", {"id": payload.ambulance_id})
+    if not rows or str(rows[0].get("current_driver_id") or "") != uid:
+        raise HTTPException(status_code=403, detail="Not authorised for this ambulance")
+    if not await _emergency_assigned_to(emergency_id, payload.ambulance_id):
+        raise HTTPException(status_code=403, detail="Emergency is assigned to a different ambulance")
+    recorded = await _record_track_points(
+        emergency_id,
+        payload.ambulance_id,
+        [point.model_dump() for point in payload.points],
+    )
+    if not recorded:
+        raise HTTPException(status_code=502, detail="Failed to record track points")
+    return {"emergency_id": emergency_id, "recorded": len(payload.points)}
+
+
+@router.get("/emergencies/{emergency_id}/track", summary="GPS track recorded for an emergency, oldest first")
+async def get_emergency_track(
+    emergency_id: str,
+    current_user: dict = Depends(get_current_user),
+) -> list[dict]:
+    user_id = str(current_user.get("sub") or "")
+    profile = await _require_role(user_id, current_user, ("hospital", "admin"))
+    if str(profile.get("role") or "") == "hospital":
+        my_hospital_id = profile.get("hospital_id")
+        if not my_hospital_id:
+            raise HTTPException(status_code=403, detail="Hospital account is not linked to a hospital_id")
+        emergency_rows, eme_code = await db_select(
+            "emergency_requests", {"id": emergency_id}, columns="id,hospital_id"
+        )
+        if eme_code not in (200, 206) or not emergency_rows:
+            raise HTTPException(status_code=404, detail="Emergency not found")
+        if str(emergency_rows[0].get("hospital_id") or "") != str(my_hospital_id):
+            raise HTTPException(status_code=403, detail="Emergency belongs to a different hospital")
+    points, code = await db_query(
+        "emergency_track_points",
+        columns="ambulance_id,latitude,longitude,accuracy,speed,recorded_at",
+        params={"emergency_id": f"eq.{emergency_id}", "order": "recorded_at.asc", "limit": "5000"},
+    )
+    if code not in (200, 206):
+        raise HTTPException(status_code=502, detail="Could not load the emergency track")
+    return points
+
+
 @router.get("/driver/assignment", summary="Get driver's current active assignment")
 async def get_driver_assignment(current_user: dict = Depends(get_current_user)) -> dict:
     uid = str(current_user.get("sub") or "")
@@ -4802,12 +5635,22 @@ async def get_driver_assignment(current_user: dict = Depends(get_current_user))
     return {"assignment": asgn}
 
 
+def _require_assignment_open(er_rows: list[dict] | None, action: str) -> None:
+    """Accept and decline only apply before the crew sets off (the app's CREW_TRANSITIONS)."""
+    status = str((er_rows or [{}])[0].get("status") or "")
+    if er_rows and status not in ("pending", "assigned"):
+        raise HTTPException(status_code=409, detail=f"Cannot {action} an emergency that is already {status.replace('_', ' ')}.")
+
+
 @router.post("/driver/assignment/{assignment_id}/accept", summary="Accept emergency assignment")
 async def accept_assignment(assignment_id: str, body: dict, current_user: dict = Depends(get_current_user)) -> dict:
     user_id = str(current_user.get("sub") or "")
     await _require_role(user_id, current_user, ("driver", "ambulance"))
     emergency_id = str(body.get("emergency_id") or "")
     now = datetime.now(timezone.utc).isoformat()
+    if emergency_id:
+        er_rows, _ = await db_select("emergency_requests", {"id": emergency_id}, columns="status")
+        _require_assignment_open(er_rows, "accept")
     try:
         await db_update("emergency_assignments", {"id": assignment_id}, {"status": "accepted"})
     except Exception:
@@ -4825,14 +5668,15 @@ async def decline_assignment(assignment_id: str, body: dict, current_user: dict
     emergency_id = str(body.get("emergency_id") or assignment_id)
     now = datetime.now(timezone.utc).isoformat()
 
+    # Fetch the emergency so we know which ambulance to re-enable
+    er_rows, _ = await db_select("emergency_requests", {"id": emergency_id})
+    _require_assignment_open(er_rows, "decline")
+
     # Mark the assignment record as declined
     try:
         await db_update("emergency_assignments", {"id": assignment_id}, {"status": "declined", "completed_at": now})
     except Exception:
         pass
-
-    # Fetch the emergency so we know which ambulance to re-enable
-    er_rows, _ = await db_select("emergency_requests", {"id": emergency_id})
     old_ambulance_id = str((er_rows[0].get("assigned_ambulance_id") or "")) if er_rows else ""
 
     # Reset emergency to pending for re-dispatch (not cancelled)
@@ -4858,6 +5702,7 @@ async def decline_assignment(assignment_id: str, body: dict, current_user: dict
                 max_radius_km=80,
                 preferred_hospital_id=str(er.get("hospital_id") or "") or None,
                 emergency_id=emergency_id,
+                emergency_type=er.get("emergency_type"),
             )
             if best:
                 new_amb_id = str(best["ambulance_id"])
@@ -1,18 +1,19 @@
 """
-Profiles router — read and update user and medical profiles.
+Profiles router — read and update user and medical profiles and the
+patient's trusted contacts.
 
 All endpoints require a valid Supabase JWT (Authorization: Bearer <token>).
 The user can only read/write their OWN profile (sub claim = user UUID).
 """
 
 from datetime import datetime, timezone
-from typing import Optional
+from typing import Literal, Optional
 
 from fastapi import APIRouter, Depends, HTTPException, status
 from pydantic import BaseModel, Field
 
 from deps import get_current_user
-from services.supabase import db_select, db_update, db_upsert
+from services.supabase import db_delete, db_insert, db_query, db_select, db_update, db_upsert
 
 router = APIRouter(prefix="/profiles", tags=["Profiles"])
 
@@ -61,6 +62,21 @@ class MedicalProfileUpsert(BaseModel):
     emergency_contact_phone: Optional[str] = Field(None, max_length=20)
 
 
+MAX_TRUSTED_CONTACTS = 5
+
+
+class TrustedContact(BaseModel):
+    id: Optional[str] = None
+    name: str = Field(..., min_length=1, max_length=100)
+    phone: str = Field(..., min_length=9, max_length=20)
+    relationship: str = Field("other", max_length=30)
+    channel: Literal["sms", "push"] = "sms"
+
+
+class TrustedContactsUpdate(BaseModel):
+    contacts: list[TrustedContact] = Field(default_factory=list, max_length=MAX_TRUSTED_CONTACTS)
+
+
 # ─────────────────────────────────────────────────────────────────────────────
 # Endpoints
 # ─────────────────────────────────────────────────────────────────────────────
@@ -169,3 +185,66 @@ async def upsert_medical_profile(
             detail="Medical profile update failed.",
         )
     return {"success": True}
+
+
+@router.get(
+    "/trusted-contacts",
+    response_model=list[TrustedContact],
+    summary="List the authenticated user's trusted contacts",
+)
+async def list_trusted_contacts(
+    current_user: dict = Depends(get_current_user),
+) -> list[TrustedContact]:
+    user_id: str = current_user["sub"]
+    rows, code = await db_query(
+        "trusted_contacts",
+        columns="id,name,phone,relationship,channel",
+        params={"user_id": f"eq.{user_id}", "order": "position.asc"},
+    )
+    if code not in (200, 206):
+        raise HTTPException(
+            status_code=status.HTTP_500_INTERNAL_SERVER_ERROR,
+            detail="Database error while fetching trusted contacts.",
+        )
+    return [TrustedContact(**row) for row in rows]
+
+
+@router.put(
+    "/trusted-contacts",
+    summary="Replace the authenticated user's trusted contacts",
+)
+async def replace_trusted_contacts(
+    body: TrustedContactsUpdate,
+    current_user: dict = Depends(get_current_user),
+) -> dict:
+    user_id: str = current_user["sub"]
+    now = datetime.now(timezone.utc).isoformat()
+
+    _, code = await db_delete("trusted_contacts", {"user_id": user_id})
+    if code not in (200, 204):
+        raise HTTPException(
+            status_code=status.HTTP_400_BAD_REQUEST,
+            detail="Trusted contacts update failed.",
+        )
+    if not body.contacts:
+        return {"success": True}
+
+    rows = [
+        {
+            "user_id": user_id,
+            "name": contact.name.strip(),
+            "phone": contact.phone.strip(),
+            "relationship": contact.relationship,
+            "channel": contact.channel,
+            "position": index,
+            "updated_at": now,
+        }
+        for index, contact in enumerate(body.contacts)
+    ]
+    _, code = await db_insert("trusted_contacts", rows)
+    if code not in (200, 201):
+        raise HTTPException(
+            status_code=status.HTTP_400_BAD_REQUEST,
+            detail="Trusted contacts update failed.",
+        )
+    return {"success": True}
@@ -199,12 +199,12 @@ async def db_insert(
 
 async def db_delete(
     table: str,
-    filters: dict[str, str],
+    filters: dict[str, str | None],
 ) -> tuple[dict | list, int]:
-    """Delete rows matching all supplied equality filters."""
+    """Delete rows matching all supplied equality filters (None matches NULL)."""
     params: dict = {}
     for col, val in filters.items():
-        params[col] = f"eq.{val}"
+        params[col] = "is.null" if val is None else f"eq.{val}"
     res = await _client().delete(
         f"/rest/v1/{table}",
         params=params,
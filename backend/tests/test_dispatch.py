@@ -236,6 +236,55 @@ class TestDispatchRecommendation:
 
         assert best is None, "Hospital not accepting emergencies should skip its ambulances"
 
+    async def test_cardiac_case_prefers_working_aed(self):
+        """Within the tie-break band a vehicle with a working AED beats a nearer one without."""
+        from routers.ops import _compute_dispatch_recommendation
+
+        h1 = self._make_hospital("h1")
+        near = {**self._make_ambulance("amb_no_aed", "h1", 9.02, 38.75), "inventory": {"aed": "missing"}}
+        aed = {**self._make_ambulance("amb_aed", "h1", 9.03, 38.75), "inventory": {"aed": "ok"}}  # ~1.1 km
+
+        async def mock_select(table, filters, columns=None):
+            if table == "hospitals":
+                return [h1], 200
+            if table == "ambulances":
+                return [near, aed], 200
+            return [], 200
+
+        with patch("routers.ops.db_select", side_effect=mock_select):
+            cardiac, reason = await _compute_dispatch_recommendation(
+                9.02, 38.75, 50.0, emergency_type="cardiac"
+            )
+            trauma, _ = await _compute_dispatch_recommendation(
+                9.02, 38.75, 50.0, emergency_type="trauma"
+            )
+
+        assert cardiac["ambulance_id"] == "amb_aed"
+        assert "equipment" in reason
+        assert trauma["ambulance_id"] == "amb_no_aed"
+
+    async def test_equipment_never_outranks_a_much_nearer_vehicle(self):
+        """An AED ~5.5 km further out is outside the tie-break band."""
+        from routers.ops import _compute_dispatch_recommendation
+
+        h1 = self._make_hospital("h1")
+        near = {**self._make_ambulance("amb_no_aed", "h1", 9.02, 38.75), "inventory": {"aed": "missing"}}
+        aed = {**self._make_ambulance("amb_aed", "h1", 9.07, 38.75), "inventory": {"aed": "ok"}}
+
+        async def mock_select(table, filters, columns=None):
+            if table == "hospitals":
+                return [h1], 200
+            if table == "ambulances":
+                return [near, aed], 200
+            return [], 200
+
+        with patch("routers.ops.db_select", side_effect=mock_select):
+            best, _ = await _compute_dispatch_recommendation(
+                9.02, 38.75, 50.0, emergency_type="cardiac"
+            )
+
+        assert best["ambulance_id"] == "amb_no_aed"
+
 
 # ---------------------------------------------------------------------------
 # 4. Reservation locking (optimistic lock)
@@ -364,3 +413,125 @@ class TestRateLimit:
             bucket[0] = now
             bucket[1] = 0
         assert bucket[1] == 0
+
+
+# ---------------------------------------------------------------------------
+# 7. Ambulance inventory
+# ---------------------------------------------------------------------------
+class TestInventory:
+    def test_alerts_for_low_stock_and_broken_equipment(self):
+        from routers.ops import _inventory_alerts
+
+        inventory = {
+            "oxygen_percent": 20,
+            "aed": "ok",
+            "stretcher": "faulty",
+            "medications": {"adrenaline": 1, "aspirin": 10},
+        }
+        assert _inventory_alerts(inventory) == ["oxygen", "stretcher", "adrenaline"]
+
+    def test_unreported_items_raise_no_alert(self):
+        from routers.ops import _inventory_alerts
+
+        assert _inventory_alerts(None) == []
+        assert _inventory_alerts({"medications": {}}) == []
+
+    def test_equipment_match_bonus(self):
+        from routers.ops import _equipment_match_bonus
+
+        assert _equipment_match_bonus("maternity", {"delivery_kit": "ok"}) > 0
+        assert _equipment_match_bonus("maternity", {"delivery_kit": "missing"}) < 0
+        assert _equipment_match_bonus("Cardiac", {}) == 0
+        assert _equipment_match_bonus("trauma", {"aed": "ok"}) == 0
+
+
+# ---------------------------------------------------------------------------
+# 8. Emergency GPS tracks
+# ---------------------------------------------------------------------------
+@pytest.mark.asyncio
+class TestEmergencyTrack:
+    async def test_only_the_assigned_ambulance_extends_the_track(self):
+        from routers.ops import _emergency_assigned_to
+
+        async def mock_select(table, filters, columns=None):
+            return [{"assigned_ambulance_id": "amb-1"}], 200
+
+        with patch("routers.ops.db_select", side_effect=mock_select):
+            assert await _emergency_assigned_to("em-1", "amb-1") is True
+            assert await _emergency_assigned_to("em-1", "amb-2") is False
+
+    async def test_hospitals_read_only_their_own_emergencies_tracks(self):
+        from fastapi import HTTPException
+        from routers.ops import get_emergency_track
+
+        async def mock_require_role(uid, user, roles):
+            return {"id": uid, "role": "hospital", "hospital_id": "hosp-1"}
+
+        mock_select = AsyncMock(return_value=([{"id": "em-1", "hospital_id": "hosp-2"}], 200))
+        mock_query = AsyncMock(return_value=([], 200))
+
+        with (
+            patch("routers.ops._require_role", mock_require_role),
+            patch("routers.ops.db_select", mock_select),
+            patch("routers.ops.db_query", mock_query),
+        ):
+            with pytest.raises(HTTPException) as exc:
+                await get_emergency_track("em-1", {"sub": "staff-1"})
+
+        assert exc.value.status_code == 403
+        mock_query.assert_not_called()
+
+
+# ---------------------------------------------------------------------------
+# 9. Trusted-contact alerts
+# ---------------------------------------------------------------------------
+class TestFamilyAlert:
+    def test_message_is_built_from_the_events(self):
+        from routers.ops import _family_alert_message
+
+        title, body = _family_alert_message(
+            ["emergency_created", "ambulance_assigned"], "en", "Abebe", "https://x/live"
+        )
+        assert title == "Erdataye emergency alert"
+        assert body == "Abebe has requested an emergency ambulance and one is on its way. Follow live: https://x/live"
+        assert _family_alert_message(["at_hospital"], "en", " ", None)[1] == "Your contact has arrived at the hospital."
+
+    def test_share_token_must_belong_to_the_emergency(self):
+        from fastapi import HTTPException
+        from routers.ops import _SHARE_LINKS, _family_share_url
+
+        _SHARE_LINKS["t" * 32] = {"emergency_id": "em-other", "expires_at": "2999-01-01T00:00:00+00:00"}
+        try:
+            with pytest.raises(HTTPException) as exc:
+                _family_share_url(None, "t" * 32, "em-1")
+            assert exc.value.status_code == 400
+            assert _family_share_url(None, None, "em-1") is None
+        finally:
+            _SHARE_LINKS.pop("t" * 32, None)
+
+
+# ---------------------------------------------------------------------------
+# 10. Location integrity columns
+# ---------------------------------------------------------------------------
+@pytest.mark.asyncio
+class TestLocationIntegrity:
+    async def test_position_is_saved_without_the_confidence_columns(self):
+        from routers.ops import _update_location
+
+        writes: list[dict] = []
+
+        async def mock_update(table, filters, payload):
+            writes.append(payload)
+            return {}, 400 if "location_confidence" in payload else 200
+
+        with patch("routers.ops.db_update", side_effect=mock_update):
+            code = await _update_location(
+                "ambulances",
+                {"id": "amb-1"},
+                {"last_known_location": "SRID=4326;POINT(38.7 9.0)"},
+                {"location_confidence": 0.4, "location_flags": ["mocked"]},
+            )
+
+        assert code == 200
+        assert writes[0]["location_flags"] == ["mocked"]
+        assert writes[1] == {"last_known_location": "SRID=4326;POINT(38.7 9.0)"}
@@ -0,0 +1,539 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import {
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleProp,
+  StyleSheet,
+  TextInput,
+  View,
+  ViewStyle,
+} from "react-native";
+
+import { AppButton } from "@/components/app-button";
+import { useModal } from "@/components/modal-context";
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Fonts } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import {
+  EQUIPMENT_ITEMS,
+  EQUIPMENT_STATUSES,
+  getInventoryAlerts,
+  MEDICATIONS,
+  updateAmbulanceInventory,
+  type AmbulanceInventory,
+  type InventoryAlert,
+} from "@/utils/ambulance-inventory";
+import { translateText } from "@/utils/i18n";
+import { formatTime } from "@/utils/i18n-format";
+
+const REASON_LABEL: Record<InventoryAlert["reason"], string> = {
+  low: "Low",
+  faulty: "Faulty",
+  missing: "Missing",
+};
+
+const STATUS_COLOR = {
+  ok: "#10B981",
+  faulty: "#F59E0B",
+  missing: "#EF4444",
+} as const;
+
+/** Alert chips for an inventory, e.g. "Oxygen · Low". */
+export function InventoryAlertChips({
+  inventory,
+  style,
+}: {
+  inventory: AmbulanceInventory | null | undefined;
+  style?: StyleProp<ViewStyle>;
+}) {
+  const alerts = getInventoryAlerts(inventory);
+  if (alerts.length === 0) return null;
+  return (
+    <View style={[styles.chips, style]}>
+      {alerts.map((alert) => (
+        <View key={alert.item} style={styles.alertChip}>
+          <ThemedText style={styles.alertChipText} translate={false}>
+            {`${translateText(alert.label)} · ${translateText(
+              REASON_LABEL[alert.reason],
+            )}`}
+          </ThemedText>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+/**
+ * One-line inventory summary with alert chips, for the hospital fleet view:
+ * "O₂ 80% · Defibrillator (AED): Working · …".
+ */
+export function InventoryOverview({
+  inventory,
+  style,
+}: {
+  inventory: AmbulanceInventory | null | undefined;
+  style?: StyleProp<ViewStyle>;
+}) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+
+  if (!inventory?.updated_at) {
+    return (
+      <ThemedText style={[styles.subtitle, { color: colors.textMuted }, style]}>
+        Inventory not reported
+      </ThemedText>
+    );
+  }
+
+  const parts: string[] = [];
+  if (inventory.oxygen_percent != null) {
+    parts.push(`O₂ ${Math.round(inventory.oxygen_percent)}%`);
+  }
+  for (const item of EQUIPMENT_ITEMS) {
+    const status = EQUIPMENT_STATUSES.find(
+      (option) => option.key === inventory[item.key],
+    );
+    if (status) {
+      parts.push(
+        `${translateText(item.label)}: ${translateText(status.label)}`,
+      );
+    }
+  }
+  return (
+    <View style={[styles.overview, style]}>
+      <ThemedText
+        style={[styles.subtitle, { color: colors.textMuted }]}
+        translate={false}
+      >
+        {`${parts.join(" · ")}${parts.length ? " · " : ""}${translateText(
+          "Updated",
+        )} ${formatTime(inventory.updated_at)}`}
+      </ThemedText>
+      <InventoryAlertChips inventory={inventory} />
+    </View>
+  );
+}
+
+type AmbulanceInventoryCardProps = {
+  ambulanceId: string;
+  inventory: AmbulanceInventory | null | undefined;
+  onSaved: (inventory: AmbulanceInventory) => void;
+  style?: StyleProp<ViewStyle>;
+};
+
+/** The ambulance's equipment and medication stock, editable by its driver. */
+export function AmbulanceInventoryCard({
+  ambulanceId,
+  inventory,
+  onSaved,
+  style,
+}: AmbulanceInventoryCardProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const { showError, showSuccess } = useModal();
+
+  const [editing, setEditing] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [draft, setDraft] = useState<AmbulanceInventory>({});
+  const [oxygenText, setOxygenText] = useState("");
+
+  const reported = Boolean(inventory?.updated_at);
+  const alerts = getInventoryAlerts(inventory);
+
+  const openEditor = () => {
+    setDraft({
+      ...inventory,
+      medications: { ...(inventory?.medications ?? {}) },
+    });
+    setOxygenText(
+      inventory?.oxygen_percent == null ? "" : String(inventory.oxygen_percent),
+    );
+    setEditing(true);
+  };
+
+  const changeMedication = (key: string, delta: number) =>
+    setDraft((prev) => {
+      const current = prev.medications?.[key] ?? 0;
+      return {
+        ...prev,
+        medications: {
+          ...prev.medications,
+          [key]: Math.max(0, current + delta),
+        },
+      };
+    });
+
+  const handleSave = async () => {
+    const oxygen = oxygenText.trim() ? Number(oxygenText.trim()) : null;
+    if (oxygen != null && !Number.isFinite(oxygen)) {
+      showError("Invalid Input", "Enter the oxygen level as a percentage.");
+      return;
+    }
+    setBusy(true);
+    const {
+      inventory: saved,
+      alerts: savedAlerts,
+      error,
+    } = await updateAmbulanceInventory(ambulanceId, {
+      ...draft,
+      oxygen_percent: oxygen,
+    });
+    setBusy(false);
+    if (error || !saved) {
+      showError(
+        "Update Failed",
+        error?.message || "Could not save the inventory. Please try again.",
+      );
+      return;
+    }
+    setEditing(false);
+    onSaved(saved);
+    if (savedAlerts.length > 0) {
+      showSuccess(
+        "Inventory Saved",
+        `${translateText(
+          "The hospital has been told what needs restocking",
+        )}: ${savedAlerts
+          .map((alert) => translateText(alert.label))
+          .join(", ")}.`,
+      );
+    }
+  };
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: colors.surface, borderColor: colors.border },
+        style,
+      ]}
+    >
+      <View style={styles.header}>
+        <MaterialIcons
+          name="medical-services"
+          size={22}
+          color={alerts.length > 0 ? "#EF4444" : colors.primary}
+        />
+        <View style={{ flex: 1 }}>
+          <ThemedText style={[styles.title, { color: colors.text }]}>
+            Equipment & medication
+          </ThemedText>
+          <ThemedText
+            style={[styles.subtitle, { color: colors.textMuted }]}
+            translate={false}
+          >
+            {reported && inventory?.updated_at
+              ? `${translateText("Updated")} ${formatTime(
+                  inventory.updated_at,
+                )}`
+              : translateText("Not reported yet")}
+          </ThemedText>
+        </View>
+        {inventory?.oxygen_percent != null && (
+          <ThemedText
+            style={[styles.oxygen, { color: colors.text }]}
+            translate={false}
+          >
+            {`O₂ ${Math.round(inventory.oxygen_percent)}%`}
+          </ThemedText>
+        )}
+      </View>
+
+      {reported && alerts.length === 0 ? (
+        <ThemedText style={[styles.subtitle, { color: "#10B981" }]}>
+          Fully stocked
+        </ThemedText>
+      ) : (
+        <InventoryAlertChips inventory={inventory} />
+      )}
+
+      <AppButton
+        label="Update inventory"
+        onPress={openEditor}
+        variant="secondary"
+        fullWidth
+        style={styles.action}
+      />
+
+      <Modal
+        visible={editing}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setEditing(false)}
+      >
+        <View style={styles.overlay}>
+          <View
+            style={[
+              styles.sheet,
+              { backgroundColor: colors.surface, borderColor: colors.border },
+            ]}
+          >
+            <ThemedText style={[styles.sheetTitle, { color: colors.text }]}>
+              Equipment & medication
+            </ThemedText>
+            <ScrollView style={{ maxHeight: 420 }}>
+              <ThemedText
+                style={[styles.sectionLabel, { color: colors.textMuted }]}
+              >
+                Oxygen level (%)
+              </ThemedText>
+              <TextInput
+                style={[
+                  styles.input,
+                  { color: colors.text, borderColor: colors.border },
+                ]}
+                placeholder="0-100"
+                placeholderTextColor={colors.textMuted}
+                keyboardType="numeric"
+                value={oxygenText}
+                onChangeText={setOxygenText}
+                editable={!busy}
+              />
+
+              {EQUIPMENT_ITEMS.map((item) => (
+                <View key={item.key} style={styles.editRow}>
+                  <ThemedText
+                    style={[styles.editLabel, { color: colors.text }]}
+                  >
+                    {item.label}
+                  </ThemedText>
+                  <View style={styles.chips}>
+                    {EQUIPMENT_STATUSES.map((option) => {
+                      const selected = draft[item.key] === option.key;
+                      return (
+                        <Pressable
+                          key={option.key}
+                          onPress={() =>
+                            setDraft((prev) => ({
+                              ...prev,
+                              [item.key]: option.key,
+                            }))
+                          }
+                          style={[
+                            styles.statusChip,
+                            { borderColor: colors.border },
+                            selected && {
+                              backgroundColor: STATUS_COLOR[option.key],
+                              borderColor: STATUS_COLOR[option.key],
+                            },
+                          ]}
+                          accessibilityRole="radio"
+                          accessibilityState={{ selected }}
+                        >
+                          <ThemedText
+                            style={[
+                              styles.statusChipText,
+                              { color: selected ? "#fff" : colors.text },
+                            ]}
+                          >
+                            {option.label}
+                          </ThemedText>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                </View>
+              ))}
+
+              <ThemedText
+                style={[styles.sectionLabel, { color: colors.textMuted }]}
+              >
+                Medication (units on board)
+              </ThemedText>
+              {MEDICATIONS.map((medication) => {
+                const count = draft.medications?.[medication.key];
+                const low = count != null && count < medication.minimum;
+                return (
+                  <View
+                    key={medication.key}
+                    style={[styles.medRow, { borderColor: colors.border }]}
+                  >
+                    <ThemedText
+                      style={[
+                        styles.editLabel,
+                        { color: low ? "#EF4444" : colors.text },
+                      ]}
+                    >
+                      {medication.label}
+                    </ThemedText>
+                    <Pressable
+                      onPress={() => changeMedication(medication.key, -1)}
+                      style={styles.stepper}
+                      accessibilityLabel={`${translateText(
+                        "Fewer",
+                      )} ${translateText(medication.label)}`}
+                      disabled={busy}
+                    >
+                      <MaterialIcons
+                        name="remove-circle-outline"
+                        size={24}
+                        color={colors.textMuted}
+                      />
+                    </Pressable>
+                    <ThemedText
+                      style={[styles.count, { color: colors.text }]}
+                      translate={false}
+                    >
+                      {count == null ? "—" : String(count)}
+                    </ThemedText>
+                    <Pressable
+                      onPress={() => changeMedication(medication.key, 1)}
+                      style={styles.stepper}
+                      accessibilityLabel={`${translateText(
+                        "More",
+                      )} ${translateText(medication.label)}`}
+                      disabled={busy}
+                    >
+                      <MaterialIcons
+                        name="add-circle-outline"
+                        size={24}
+                        color={colors.primary}
+                      />
+                    </Pressable>
+                  </View>
+                );
+              })}
+            </ScrollView>
+            <View style={styles.actionsRow}>
+              <AppButton
+                label="Cancel"
+                onPress={() => setEditing(false)}
+                variant="secondary"
+                disabled={busy}
+                style={styles.grow}
+              />
+              <AppButton
+                label="Save"
+                onPress={handleSave}
+                loading={busy}
+                style={styles.grow}
+              />
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    gap: 10,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  title: {
+    fontSize: 16,
+    fontFamily: Fonts.sansBold,
+  },
+  subtitle: {
+    fontSize: 13,
+    fontFamily: Fonts.sans,
+  },
+  overview: {
+    gap: 6,
+  },
+  oxygen: {
+    fontSize: 16,
+    fontFamily: Fonts.sansBold,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  alertChip: {
+    backgroundColor: "#FEE2E2",
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  alertChipText: {
+    color: "#B91C1C",
+    fontSize: 12,
+    fontFamily: Fonts.sansBold,
+  },
+  action: {
+    marginTop: 2,
+  },
+  actionsRow: {
+    flexDirection: "row",
+    gap: 10,
+    marginTop: 12,
+  },
+  grow: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.45)",
+  },
+  sheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+    padding: 20,
+    gap: 10,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontFamily: Fonts.sansBold,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontFamily: Fonts.sansBold,
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    fontFamily: Fonts.sans,
+  },
+  editRow: {
+    marginTop: 12,
+    gap: 6,
+  },
+  editLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: Fonts.sans,
+  },
+  statusChip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  statusChipText: {
+    fontSize: 13,
+    fontFamily: Fonts.sans,
+  },
+  medRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  stepper: {
+    padding: 4,
+  },
+  count: {
+    minWidth: 32,
+    textAlign: "center",
+    fontSize: 15,
+    fontFamily: Fonts.sansBold,
+  },
+});
@@ -0,0 +1,127 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import { StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Fonts } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { t } from "@/utils/i18n";
+import { formatTime } from "@/utils/i18n-format";
+import {
+  type ContactAlertRecord,
+  type ContactAlertStatus as AlertStatus,
+  getContactAlertLog,
+} from "@/utils/trusted-contacts";
+
+type ContactAlertStatusProps = {
+  emergencyId: string | null | undefined;
+  /** Change this after sending an alert to reload the log. */
+  refreshKey?: string | number | null;
+};
+
+const STATUS_ICONS: Record<
+  AlertStatus,
+  { icon: keyof typeof MaterialIcons.glyphMap; color: string }
+> = {
+  sent: { icon: "check-circle", color: "#16A34A" },
+  sms_opened: { icon: "sms", color: "#0EA5E9" },
+  failed: { icon: "error-outline", color: "#DC2626" },
+};
+
+/** Whether each trusted contact was reached, by their latest alert. */
+export function ContactAlertStatus({
+  emergencyId,
+  refreshKey,
+}: ContactAlertStatusProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const [records, setRecords] = useState<ContactAlertRecord[]>([]);
+
+  useEffect(() => {
+    if (!emergencyId) return;
+    let active = true;
+    void getContactAlertLog(emergencyId).then((log) => {
+      if (active) setRecords(log);
+    });
+    return () => {
+      active = false;
+    };
+  }, [emergencyId, refreshKey]);
+
+  const latest = new Map<string, ContactAlertRecord>();
+  for (const record of records) latest.set(record.contactKey, record);
+  if (!emergencyId || latest.size === 0) return null;
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: colors.surface, borderColor: colors.border },
+      ]}
+    >
+      <View style={styles.header}>
+        <MaterialIcons name="groups" size={18} color={colors.textMuted} />
+        <ThemedText style={[styles.title, { color: colors.text }]}>
+          Trusted contacts alerted
+        </ThemedText>
+      </View>
+      {[...latest.values()].map((record) => {
+        const { icon, color } = STATUS_ICONS[record.status];
+        return (
+          <View key={record.contactKey} style={styles.row}>
+            <MaterialIcons name={icon} size={18} color={color} />
+            <ThemedText
+              style={[styles.name, { color: colors.text }]}
+              numberOfLines={1}
+              translate={false}
+            >
+              {record.name}
+            </ThemedText>
+            <ThemedText
+              style={[styles.meta, { color: colors.textMuted }]}
+              translate={false}
+            >
+              {`${t(`contact_alert_${record.status}`)} · ${formatTime(
+                record.at,
+              )}`}
+            </ThemedText>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 12,
+    gap: 10,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: Fonts.sansBold,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  name: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: Fonts.sansMedium,
+  },
+  meta: {
+    fontSize: 12,
+    fontFamily: Fonts.sans,
+  },
+});
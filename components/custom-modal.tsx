@@ -23,8 +23,11 @@ export interface CustomModalProps {
   message: string;
   confirmText?: string;
   cancelText?: string;
+  /** Optional third action rendered above the confirm/cancel row. */
+  extraText?: string;
   onConfirm?: () => void;
   onCancel?: () => void;
+  onExtra?: () => void;
   icon?: keyof typeof MaterialIcons.glyphMap;
   iconColor?: string;
   dismissOnBackdrop?: boolean;
@@ -37,8 +40,10 @@ export function CustomModal({
   message,
   confirmText = "OK",
   cancelText = "Cancel",
+  extraText,
   onConfirm,
   onCancel,
+  onExtra,
   icon,
   iconColor,
   dismissOnBackdrop = false,
@@ -201,6 +206,23 @@ export function CustomModal({
             />
           )}
 
+          {/* Optional extra action */}
+          {type === "confirm" && extraText && onExtra ? (
+            <Pressable
+              style={({ pressed }) => [
+                styles.btn,
+                styles.extraBtn,
+                { borderColor: accentColor },
+                pressed && { opacity: 0.8, transform: [{ scale: 0.97 }] },
+              ]}
+              onPress={onExtra}
+            >
+              <ThemedText style={[styles.extraText, { color: accentColor }]}>
+                {extraText}
+              </ThemedText>
+            </Pressable>
+          ) : null}
+
           {/* Actions */}
           {type !== "loading" ? (
             <View style={styles.actions}>
@@ -339,6 +361,16 @@ const styles = StyleSheet.create({
     borderWidth: 1,
   },
   confirmBtn: {},
+  extraBtn: {
+    flex: 0,
+    borderWidth: 1.5,
+    marginBottom: 12,
+  },
+  extraText: {
+    fontWeight: "700",
+    fontSize: 14,
+    letterSpacing: 0.2,
+  },
   cancelText: {
     fontWeight: "600",
     fontSize: 14,
@@ -0,0 +1,551 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleProp,
+  StyleSheet,
+  TextInput,
+  View,
+  ViewStyle,
+} from "react-native";
+
+import { AppButton } from "@/components/app-button";
+import { useModal } from "@/components/modal-context";
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Fonts } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import {
+  checkInShift,
+  endShift,
+  failedInspectionItems,
+  getCurrentShift,
+  getShiftStatus,
+  INSPECTION_CHECKLIST,
+  setShiftBreak,
+  summarizeShift,
+  type DriverShift,
+  type ShiftSummary,
+  type VehicleInspection,
+} from "@/utils/driver-shifts";
+import { translateText } from "@/utils/i18n";
+import {
+  formatDistance,
+  formatDuration,
+  formatTime,
+} from "@/utils/i18n-format";
+
+type DriverShiftCardProps = {
+  driverId: string | null | undefined;
+  ambulanceId: string | null | undefined;
+  /** An emergency is assigned; breaks and ending the shift wait for it. */
+  hasAssignment: boolean;
+  /** Completed emergencies, newest first (from `getDriverHistory`). */
+  history: { status?: string | null; updated_at?: string | null }[];
+  /** Active emergencies (from `getDriverStats`). */
+  activeCount: number;
+  /**
+   * Called with the open shift (null when off duty). `loaded` is set for
+   * the shift found on mount; `handedOver` when the ambulance went to the
+   * next crew member.
+   */
+  onShiftChange: (
+    shift: DriverShift | null,
+    info: { loaded?: boolean; handedOver?: boolean },
+  ) => void;
+  style?: StyleProp<ViewStyle>;
+};
+
+const STATUS_STYLE = {
+  off_duty: {
+    color: "#6B7280",
+    icon: "radio-button-unchecked",
+    label: "Off duty",
+  },
+  on_duty: { color: "#10B981", icon: "check-circle", label: "On shift" },
+  on_break: { color: "#F59E0B", icon: "free-breakfast", label: "On break" },
+  ended: {
+    color: "#6B7280",
+    icon: "radio-button-unchecked",
+    label: "Off duty",
+  },
+} as const;
+
+/** Shift controls for the driver home screen: check-in, breaks, handoff. */
+export function DriverShiftCard({
+  driverId,
+  ambulanceId,
+  hasAssignment,
+  history,
+  activeCount,
+  onShiftChange,
+  style,
+}: DriverShiftCardProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const { showAlert, showError, showSuccess } = useModal();
+
+  const [shift, setShift] = useState<DriverShift | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [checkInVisible, setCheckInVisible] = useState(false);
+  const [inspection, setInspection] = useState<VehicleInspection>({});
+  const [inspectionNotes, setInspectionNotes] = useState("");
+  const [endVisible, setEndVisible] = useState(false);
+  const [handoffPhone, setHandoffPhone] = useState("");
+
+  const applyShift = useCallback(
+    (
+      next: DriverShift | null,
+      info: { loaded?: boolean; handedOver?: boolean } = {},
+    ) => {
+      setShift(next);
+      onShiftChange(next, info);
+    },
+    [onShiftChange],
+  );
+
+  useEffect(() => {
+    if (!driverId) return;
+    let cancelled = false;
+    setLoading(true);
+    getCurrentShift(driverId).then(({ shift: current, error }) => {
+      if (cancelled) return;
+      setLoading(false);
+      if (!error) applyShift(current, { loaded: true });
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Only on mount or when the driver changes; later changes come from
+    // this card's own actions.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [driverId]);
+
+  const status = getShiftStatus(shift);
+  const appearance = STATUS_STYLE[status];
+  const summary: ShiftSummary | null = shift
+    ? summarizeShift(shift, history, activeCount)
+    : null;
+
+  const handleCheckIn = async () => {
+    if (!driverId || !ambulanceId) return;
+    setBusy(true);
+    const { shift: started, error } = await checkInShift(
+      driverId,
+      ambulanceId,
+      inspection,
+      inspectionNotes,
+    );
+    setBusy(false);
+    if (error || !started) {
+      showError(
+        "Check-in Failed",
+        error?.message || "Could not start the shift. Please try again.",
+      );
+      return;
+    }
+    setCheckInVisible(false);
+    setInspection({});
+    setInspectionNotes("");
+    applyShift(started);
+  };
+
+  const handleBreak = async () => {
+    if (!shift) return;
+    const onBreak = status !== "on_break";
+    if (onBreak && hasAssignment) {
+      showAlert(
+        "Active Emergency",
+        "Finish the active emergency before taking a break.",
+      );
+      return;
+    }
+    setBusy(true);
+    const { shift: updated, error } = await setShiftBreak(shift, onBreak);
+    setBusy(false);
+    if (error || !updated) {
+      showError(
+        "Status Update Failed",
+        error?.message || "Could not update the shift. Please try again.",
+      );
+      return;
+    }
+    applyShift(updated);
+  };
+
+  const openEndShift = () => {
+    if (hasAssignment) {
+      showAlert(
+        "Active Emergency",
+        "Finish the active emergency before ending the shift.",
+      );
+      return;
+    }
+    setHandoffPhone("");
+    setEndVisible(true);
+  };
+
+  const handleEndShift = async () => {
+    if (!shift) return;
+    setBusy(true);
+    const {
+      shift: ended,
+      handedToName,
+      error,
+    } = await endShift(shift, handoffPhone);
+    setBusy(false);
+    if (error || !ended) {
+      showError(
+        "End Shift Failed",
+        error?.message || "Could not end the shift. Please try again.",
+      );
+      return;
+    }
+    const final = summarizeShift(ended, history, 0);
+    setEndVisible(false);
+    applyShift(null, { handedOver: Boolean(ended.handed_to) });
+    const lines = [
+      `${translateText("Emergencies handled")}: ${final.emergenciesHandled}`,
+      `${translateText("Distance driven")}: ${
+        final.kmDriven == null ? "—" : formatDistance(final.kmDriven)
+      }`,
+      `${translateText("Hours on duty")}: ${final.hoursOnDuty}`,
+    ];
+    if (ended.handed_to) {
+      lines.push(
+        `${translateText("Ambulance handed to")} ${
+          handedToName || translateText("the next crew member")
+        }.`,
+      );
+    }
+    showSuccess("Shift Ended", lines.join("\n"));
+  };
+
+  const failed = failedInspectionItems(inspection);
+
+  const SummaryRow = ({ label, value }: { label: string; value: string }) => (
+    <View style={[styles.summaryRow, { borderColor: colors.border }]}>
+      <ThemedText style={[styles.summaryLabel, { color: colors.textMuted }]}>
+        {label}
+      </ThemedText>
+      <ThemedText
+        style={[styles.summaryValue, { color: colors.text }]}
+        translate={false}
+      >
+        {value}
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <View style={style}>
+      <View
+        style={[styles.statusRow, { backgroundColor: appearance.color }]}
+        accessibilityRole="summary"
+      >
+        {loading || busy ? (
+          <View style={styles.statusIcon}>
+            <ActivityIndicator color="#fff" size="small" />
+          </View>
+        ) : (
+          <MaterialIcons name={appearance.icon} size={32} color="#fff" />
+        )}
+        <View style={{ marginLeft: 12, flex: 1 }}>
+          <ThemedText style={styles.statusLabel}>{appearance.label}</ThemedText>
+          <ThemedText style={styles.statusSubtitle} translate={false}>
+            {shift
+              ? `${translateText(
+                  status === "on_break" ? "Break since" : "Since",
+                )} ${formatTime(
+                  status === "on_break" && shift.break_started_at
+                    ? shift.break_started_at
+                    : shift.started_at,
+                )}`
+              : translateText("Check in to start receiving calls")}
+          </ThemedText>
+        </View>
+      </View>
+
+      {status === "off_duty" ? (
+        <AppButton
+          label="Start shift"
+          onPress={() => setCheckInVisible(true)}
+          disabled={loading || busy || !ambulanceId}
+          fullWidth
+          style={styles.action}
+        />
+      ) : (
+        <View style={styles.actionsRow}>
+          <AppButton
+            label={status === "on_break" ? "Resume duty" : "Take a break"}
+            onPress={handleBreak}
+            variant="secondary"
+            disabled={busy}
+            style={styles.grow}
+          />
+          <AppButton
+            label="End shift"
+            onPress={openEndShift}
+            variant="secondary"
+            disabled={busy}
+            style={styles.grow}
+          />
+        </View>
+      )}
+
+      {/* Check-in with vehicle inspection */}
+      <Modal
+        visible={checkInVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setCheckInVisible(false)}
+      >
+        <View style={styles.overlay}>
+          <View
+            style={[
+              styles.sheet,
+              { backgroundColor: colors.surface, borderColor: colors.border },
+            ]}
+          >
+            <ThemedText style={[styles.sheetTitle, { color: colors.text }]}>
+              Vehicle inspection
+            </ThemedText>
+            <ThemedText style={[styles.sheetHint, { color: colors.textMuted }]}>
+              Tick every item that passed. Describe anything that did not.
+            </ThemedText>
+            <ScrollView style={{ maxHeight: 320 }}>
+              {INSPECTION_CHECKLIST.map((item) => {
+                const checked = inspection[item.key] === true;
+                return (
+                  <Pressable
+                    key={item.key}
+                    onPress={() =>
+                      setInspection((prev) => ({
+                        ...prev,
+                        [item.key]: !checked,
+                      }))
+                    }
+                    style={[styles.checkRow, { borderColor: colors.border }]}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked }}
+                  >
+                    <MaterialIcons
+                      name={checked ? "check-box" : "check-box-outline-blank"}
+                      size={22}
+                      color={checked ? "#10B981" : colors.textMuted}
+                    />
+                    <ThemedText
+                      style={[styles.checkLabel, { color: colors.text }]}
+                    >
+                      {item.label}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </ScrollView>
+            {failed.length > 0 && (
+              <TextInput
+                style={[
+                  styles.input,
+                  { color: colors.text, borderColor: colors.border },
+                ]}
+                placeholder={translateText("What failed inspection?")}
+                placeholderTextColor={colors.textMuted}
+                value={inspectionNotes}
+                onChangeText={setInspectionNotes}
+                multiline
+                editable={!busy}
+              />
+            )}
+            <View style={styles.actionsRow}>
+              <AppButton
+                label="Cancel"
+                onPress={() => setCheckInVisible(false)}
+                variant="secondary"
+                disabled={busy}
+                style={styles.grow}
+              />
+              <AppButton
+                label="Start shift"
+                onPress={handleCheckIn}
+                loading={busy}
+                disabled={failed.length > 0 && !inspectionNotes.trim()}
+                style={styles.grow}
+              />
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* End of shift summary and handoff */}
+      <Modal
+        visible={endVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setEndVisible(false)}
+      >
+        <View style={styles.overlay}>
+          <View
+            style={[
+              styles.sheet,
+              { backgroundColor: colors.surface, borderColor: colors.border },
+            ]}
+          >
+            <ThemedText style={[styles.sheetTitle, { color: colors.text }]}>
+              Shift summary
+            </ThemedText>
+            {summary && (
+              <View>
+                <SummaryRow
+                  label="Emergencies handled"
+                  value={String(summary.emergenciesHandled)}
+                />
+                <SummaryRow
+                  label="Distance driven"
+                  value={
+                    summary.kmDriven == null
+                      ? "—"
+                      : formatDistance(summary.kmDriven)
+                  }
+                />
+                <SummaryRow
+                  label="Hours on duty"
+                  value={String(summary.hoursOnDuty)}
+                />
+                <SummaryRow
+                  label="Breaks"
+                  value={formatDuration(summary.breakMinutes)}
+                />
+              </View>
+            )}
+            <ThemedText style={[styles.sheetHint, { color: colors.textMuted }]}>
+              Handing over the ambulance? Enter the next crew member&apos;s
+              phone number.
+            </ThemedText>
+            <TextInput
+              style={[
+                styles.input,
+                { color: colors.text, borderColor: colors.border },
+              ]}
+              placeholder="09XXXXXXXX"
+              placeholderTextColor={colors.textMuted}
+              keyboardType="phone-pad"
+              value={handoffPhone}
+              onChangeText={setHandoffPhone}
+              editable={!busy}
+            />
+            <View style={styles.actionsRow}>
+              <AppButton
+                label="Cancel"
+                onPress={() => setEndVisible(false)}
+                variant="secondary"
+                disabled={busy}
+                style={styles.grow}
+              />
+              <AppButton
+                label={handoffPhone.trim() ? "Hand over" : "End shift"}
+                onPress={handleEndShift}
+                loading={busy}
+                style={styles.grow}
+              />
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 16,
+    borderRadius: 12,
+  },
+  statusIcon: {
+    width: 32,
+    height: 32,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  statusLabel: {
+    color: "#fff",
+    fontSize: 18,
+    fontFamily: Fonts.sansBold,
+  },
+  statusSubtitle: {
+    color: "rgba(255,255,255,0.85)",
+    fontSize: 13,
+    fontFamily: Fonts.sans,
+    marginTop: 2,
+  },
+  action: {
+    marginTop: 12,
+  },
+  actionsRow: {
+    flexDirection: "row",
+    gap: 10,
+    marginTop: 12,
+  },
+  grow: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+    backgroundColor: "rgba(0,0,0,0.45)",
+  },
+  sheet: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+    padding: 20,
+    gap: 10,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontFamily: Fonts.sansBold,
+  },
+  sheetHint: {
+    fontSize: 13,
+    fontFamily: Fonts.sans,
+  },
+  checkRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  checkLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: Fonts.sans,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    fontFamily: Fonts.sans,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  summaryLabel: {
+    fontSize: 13,
+    fontFamily: Fonts.sans,
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontFamily: Fonts.sansBold,
+  },
+});
@@ -0,0 +1,231 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  StyleProp,
+  StyleSheet,
+  View,
+  ViewStyle,
+} from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { VoiceNotePlayer } from "@/components/voice-note-player";
+import { Colors, Fonts } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import {
+  describeTimelineEvent,
+  getTimelineEventLabel,
+  loadEmergencyTimeline,
+  type TimelineEvent,
+} from "@/utils/emergency-timeline";
+import { formatTime } from "@/utils/i18n-format";
+
+type EmergencyTimelineProps = {
+  emergencyId: string | null | undefined;
+  /** Change this (e.g. to the current status) to reload the timeline. */
+  refreshKey?: string | number | null;
+  title?: string;
+  style?: StyleProp<ViewStyle>;
+};
+
+const formatEventTime = (isoDate: string) =>
+  formatTime(isoDate, { withSeconds: true }) || isoDate;
+
+/** Audit trail of everything recorded for an emergency, oldest first. */
+export function EmergencyTimeline({
+  emergencyId,
+  refreshKey,
+  title = "Timeline",
+  style,
+}: EmergencyTimelineProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!emergencyId) return;
+    setLoading(true);
+    const result = await loadEmergencyTimeline(emergencyId);
+    setEvents(result.events);
+    setError(result.error);
+    setLoading(false);
+  }, [emergencyId]);
+
+  useEffect(() => {
+    void load();
+  }, [load, refreshKey]);
+
+  if (!emergencyId) return null;
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: colors.surface, borderColor: colors.border },
+        style,
+      ]}
+    >
+      <View style={styles.header}>
+        <MaterialIcons name="history" size={18} color={colors.textMuted} />
+        <ThemedText style={[styles.title, { color: colors.text }]}>
+          {title}
+        </ThemedText>
+        <Pressable
+          onPress={() => void load()}
+          disabled={loading}
+          accessibilityRole="button"
+          accessibilityLabel="Refresh timeline"
+          hitSlop={8}
+        >
+          {loading ? (
+            <ActivityIndicator size="small" color={colors.textMuted} />
+          ) : (
+            <MaterialIcons name="refresh" size={18} color={colors.textMuted} />
+          )}
+        </Pressable>
+      </View>
+
+      {error ? (
+        <ThemedText style={[styles.empty, { color: colors.danger }]}>
+          {error}
+        </ThemedText>
+      ) : events.length === 0 && !loading ? (
+        <ThemedText style={[styles.empty, { color: colors.textMuted }]}>
+          No events recorded yet.
+        </ThemedText>
+      ) : (
+        events.map((event, index) => {
+          const meta = getTimelineEventLabel(event.event_type);
+          const description = describeTimelineEvent(event);
+          const isLast = index === events.length - 1;
+          return (
+            <View key={event.id} style={styles.row}>
+              <View style={styles.rail}>
+                <View style={[styles.dot, { backgroundColor: meta.color }]}>
+                  <MaterialIcons
+                    name={meta.icon as any}
+                    size={12}
+                    color="#FFF"
+                  />
+                </View>
+                {!isLast && (
+                  <View
+                    style={[styles.line, { backgroundColor: colors.border }]}
+                  />
+                )}
+              </View>
+              <View style={styles.body}>
+                <View style={styles.bodyHeader}>
+                  <ThemedText style={[styles.label, { color: colors.text }]}>
+                    {meta.label}
+                  </ThemedText>
+                  <ThemedText
+                    style={[styles.time, { color: colors.textMuted }]}
+                    translate={false}
+                  >
+                    {formatEventTime(event.created_at)}
+                  </ThemedText>
+                </View>
+                {!!description && (
+                  <ThemedText
+                    style={[styles.description, { color: colors.textMuted }]}
+                  >
+                    {description}
+                  </ThemedText>
+                )}
+                {event.event_type === "voice_note_attached" &&
+                  typeof event.details?.storage_path === "string" && (
+                    <VoiceNotePlayer storagePath={event.details.storage_path} />
+                  )}
+                {!!event.actor_role && (
+                  <ThemedText
+                    style={[styles.actor, { color: colors.textMuted }]}
+                  >
+                    {event.actor_role}
+                  </ThemedText>
+                )}
+              </View>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+export default EmergencyTimeline;
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: Fonts.sansBold,
+  },
+  empty: {
+    fontSize: 13,
+    fontFamily: Fonts.sans,
+  },
+  row: {
+    flexDirection: "row",
+  },
+  rail: {
+    width: 24,
+    alignItems: "center",
+  },
+  dot: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  line: {
+    width: 2,
+    flex: 1,
+    marginVertical: 2,
+  },
+  body: {
+    flex: 1,
+    marginLeft: 10,
+    paddingBottom: 14,
+  },
+  bodyHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  label: {
+    fontSize: 14,
+    fontFamily: Fonts.sansSemiBold,
+  },
+  time: {
+    fontSize: 12,
+    fontFamily: Fonts.sans,
+  },
+  description: {
+    fontSize: 13,
+    fontFamily: Fonts.sans,
+    marginTop: 2,
+  },
+  actor: {
+    fontSize: 11,
+    fontFamily: Fonts.sans,
+    marginTop: 2,
+    textTransform: "capitalize",
+  },
+});
@@ -6,6 +6,7 @@ import {
     StyleProp,
     StyleSheet,
     Text,
+    View,
     ViewStyle,
 } from "react-native";
 
@@ -13,22 +14,28 @@ type FirstAidFabProps = {
   triggerMode?: "fab" | "tag";
   triggerLabel?: string;
   anchorStyle?: StyleProp<ViewStyle>;
+  /** Show the CPR/choking coach shortcut above the floating button. */
+  showCoachShortcut?: boolean;
+  /** Emergency the coach session is logged against, when known. */
+  emergencyId?: string | null;
 };
 
 export function FirstAidFab({
   triggerMode = "fab",
   triggerLabel = "Ask Chatbot",
   anchorStyle,
+  showCoachShortcut = true,
+  emergencyId,
 }: FirstAidFabProps) {
   const router = useRouter();
 
-  return (
+  const chatButton = (
     <Pressable
       onPress={() => router.push("/chatbot")}
       style={({ pressed }) => [
         styles.base,
         triggerMode === "tag" ? styles.tag : styles.fab,
-        anchorStyle,
+        triggerMode === "tag" || !showCoachShortcut ? anchorStyle : null,
         pressed && styles.pressed,
       ]}
       accessibilityRole="button"
@@ -39,6 +46,31 @@ export function FirstAidFab({
       </Text>
     </Pressable>
   );
+
+  if (triggerMode === "tag" || !showCoachShortcut) return chatButton;
+
+  return (
+    <View style={[styles.stack, anchorStyle]}>
+      <Pressable
+        onPress={() =>
+          router.push({
+            pathname: "/first-aid-coach" as any,
+            params: emergencyId ? { emergencyId } : {},
+          })
+        }
+        style={({ pressed }) => [
+          styles.base,
+          styles.coach,
+          pressed && styles.pressed,
+        ]}
+        accessibilityRole="button"
+        accessibilityLabel="CPR and choking coach"
+      >
+        <Text style={styles.coachText}>CPR</Text>
+      </Pressable>
+      {chatButton}
+    </View>
+  );
 }
 
 export default FirstAidFab;
@@ -51,6 +83,24 @@ const styles = StyleSheet.create({
   pressed: {
     opacity: 0.85,
   },
+  stack: {
+    alignItems: "center",
+    gap: 10,
+  },
+  coach: {
+    minWidth: 52,
+    height: 32,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    backgroundColor: "#DC2626",
+    elevation: 6,
+  },
+  coachText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "800",
+    letterSpacing: 0.4,
+  },
   fab: {
     width: 70,
     height: 70,
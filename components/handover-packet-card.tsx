@@ -0,0 +1,467 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import React, { useCallback, useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, View } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Fonts } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import {
+  computeLiveEta,
+  loadHandoverPacket,
+  type HandoverEmergency,
+  type HandoverEta,
+  type HandoverPacket,
+  type NumericVital,
+  type VitalTrend,
+} from "@/utils/handover";
+import { formatTime } from "@/utils/i18n-format";
+import { subscribeToAmbulanceLocation } from "@/utils/patient";
+
+type HandoverPacketCardProps = {
+  emergency: HandoverEmergency;
+  acknowledgedAt: string | null;
+  onAcknowledge: (etaMinutes: number | null) => void;
+  onOpen?: () => void;
+};
+
+const PRIORITY_COLORS: Record<string, string> = {
+  P1: "#DC2626",
+  P2: "#F97316",
+  P3: "#F59E0B",
+  P4: "#10B981",
+};
+
+const VITAL_LABELS: { key: NumericVital; label: string; unit: string }[] = [
+  { key: "heart_rate", label: "HR", unit: "bpm" },
+  { key: "spo2", label: "SpO₂", unit: "%" },
+  { key: "respiratory_rate", label: "RR", unit: "/min" },
+  { key: "temperature", label: "Temp", unit: "°C" },
+];
+
+const TREND_ICONS: Record<VitalTrend, string> = {
+  rising: "arrow-upward",
+  falling: "arrow-downward",
+  stable: "remove",
+};
+
+/** Prominent pre-arrival card for a patient being transported to this hospital. */
+export function HandoverPacketCard({
+  emergency,
+  acknowledgedAt,
+  onAcknowledge,
+  onOpen,
+}: HandoverPacketCardProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const [packet, setPacket] = useState<HandoverPacket | null>(null);
+  const [eta, setEta] = useState<HandoverEta | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const result = await loadHandoverPacket(emergency);
+    setPacket(result.packet);
+    setEta((prev) => (prev?.source === "ambulance" ? prev : result.packet.eta));
+    setError(result.error);
+    setLoading(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [emergency.id]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  // Live ETA from the ambulance's position once the hospital location is known
+  const hospital = packet?.hospital ?? null;
+  const ambulanceId = emergency.assigned_ambulance_id;
+  useEffect(() => {
+    if (!hospital || !ambulanceId) return;
+    return subscribeToAmbulanceLocation(ambulanceId, (lat, lng) => {
+      setEta(computeLiveEta(hospital, lat, lng));
+    });
+  }, [hospital, ambulanceId]);
+
+  const triage = packet?.triage ?? null;
+  const priorityColor = PRIORITY_COLORS[triage?.priority ?? ""] ?? "#6B7280";
+  const medical = packet?.medical ?? null;
+  const latest = packet?.vitals.latest ?? null;
+
+  return (
+    <View
+      style={[
+        styles.card,
+        {
+          backgroundColor: colors.surface,
+          borderColor: acknowledgedAt ? colors.border : "#DC2626",
+        },
+      ]}
+    >
+      {/* Header: incoming badge + ETA */}
+      <View style={styles.header}>
+        <View style={styles.incomingBadge}>
+          <MaterialIcons name="local-shipping" size={14} color="#FFF" />
+          <ThemedText style={styles.incomingText}>INCOMING</ThemedText>
+        </View>
+        <View style={{ flex: 1 }} />
+        <Pressable
+          onPress={() => void load()}
+          disabled={loading}
+          accessibilityRole="button"
+          accessibilityLabel="Refresh handover packet"
+          hitSlop={8}
+        >
+          {loading ? (
+            <ActivityIndicator size="small" color={colors.textMuted} />
+          ) : (
+            <MaterialIcons name="refresh" size={18} color={colors.textMuted} />
+          )}
+        </Pressable>
+      </View>
+
+      <Pressable onPress={onOpen} disabled={!onOpen}>
+        <View style={styles.etaRow}>
+          <View style={{ flex: 1 }}>
+            <ThemedText style={[styles.patientName, { color: colors.text }]}>
+              {packet?.patient.name || "Unknown patient"}
+            </ThemedText>
+            <ThemedText style={[styles.sub, { color: colors.textMuted }]}>
+              {[
+                emergency.emergency_type,
+                emergency.ambulance_vehicle,
+                packet?.patient.phone,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </ThemedText>
+          </View>
+          <View style={styles.etaBox}>
+            <ThemedText style={styles.etaValue} translate={false}>
+              {eta?.minutes != null ? `${eta.minutes}` : "--"}
+            </ThemedText>
+            <ThemedText style={styles.etaUnit}>min</ThemedText>
+            {eta?.distanceKm != null && (
+              <ThemedText style={styles.etaDistance} translate={false}>
+                {eta.distanceKm.toFixed(1)} km
+              </ThemedText>
+            )}
+          </View>
+        </View>
+
+        {/* Triage */}
+        {triage && (
+          <View
+            style={[styles.section, { backgroundColor: priorityColor + "12" }]}
+          >
+            <View style={styles.row}>
+              <View
+                style={[
+                  styles.priorityPill,
+                  { backgroundColor: priorityColor },
+                ]}
+              >
+                <ThemedText style={styles.priorityText} translate={false}>
+                  {triage.priority}
+                </ThemedText>
+              </View>
+              <ThemedText style={[styles.score, { color: colors.text }]}>
+                Triage score {triage.score}
+              </ThemedText>
+            </View>
+            <ThemedText style={[styles.body, { color: colors.text }]}>
+              {triage.recommendation}
+            </ThemedText>
+            {triage.explainability.length > 0 && (
+              <ThemedText style={[styles.sub, { color: colors.textMuted }]}>
+                {triage.explainability.map(String).join(" · ")}
+              </ThemedText>
+            )}
+          </View>
+        )}
+
+        {/* Medical profile */}
+        <View style={styles.factsRow}>
+          <Fact
+            label="Blood"
+            value={medical?.blood_type}
+            color={colors.text}
+            muted={colors.textMuted}
+          />
+          <Fact
+            label="Allergies"
+            value={medical?.allergies}
+            color={colors.text}
+            muted={colors.textMuted}
+          />
+          <Fact
+            label="Conditions"
+            value={medical?.medical_conditions}
+            color={colors.text}
+            muted={colors.textMuted}
+          />
+        </View>
+
+        {/* Vitals trend */}
+        {latest ? (
+          <View style={styles.vitalsRow}>
+            {VITAL_LABELS.filter(({ key }) => latest[key] != null).map(
+              ({ key, label, unit }) => {
+                const trend = packet?.vitals.trends[key];
+                return (
+                  <View
+                    key={key}
+                    style={[styles.vital, { borderColor: colors.border }]}
+                  >
+                    <ThemedText
+                      style={[styles.vitalLabel, { color: colors.textMuted }]}
+                    >
+                      {label}
+                    </ThemedText>
+                    <View style={styles.row}>
+                      <ThemedText
+                        style={[styles.vitalValue, { color: colors.text }]}
+                        translate={false}
+                      >
+                        {`${latest[key]} ${unit}`}
+                      </ThemedText>
+                      {trend && (
+                        <MaterialIcons
+                          name={TREND_ICONS[trend] as any}
+                          size={14}
+                          color={colors.textMuted}
+                        />
+                      )}
+                    </View>
+                  </View>
+                );
+              },
+            )}
+            {!!latest.blood_pressure && (
+              <View style={[styles.vital, { borderColor: colors.border }]}>
+                <ThemedText
+                  style={[styles.vitalLabel, { color: colors.textMuted }]}
+                >
+                  BP
+                </ThemedText>
+                <ThemedText
+                  style={[styles.vitalValue, { color: colors.text }]}
+                  translate={false}
+                >
+                  {latest.blood_pressure}
+                </ThemedText>
+              </View>
+            )}
+          </View>
+        ) : (
+          <ThemedText style={[styles.sub, { color: colors.textMuted }]}>
+            No vitals recorded by the crew yet.
+          </ThemedText>
+        )}
+      </Pressable>
+
+      {!!error && !packet?.triage && (
+        <ThemedText style={[styles.sub, { color: colors.danger }]}>
+          {error}
+        </ThemedText>
+      )}
+
+      {acknowledgedAt ? (
+        <View style={styles.ackDone}>
+          <MaterialIcons name="check-circle" size={16} color="#059669" />
+          <ThemedText style={styles.ackDoneText}>
+            {`Acknowledged at ${formatTime(acknowledgedAt)}`}
+          </ThemedText>
+        </View>
+      ) : (
+        <Pressable
+          onPress={() => onAcknowledge(eta?.minutes ?? null)}
+          style={({ pressed }) => [styles.ackBtn, pressed && { opacity: 0.85 }]}
+          accessibilityRole="button"
+        >
+          <MaterialIcons name="how-to-reg" size={18} color="#FFF" />
+          <ThemedText style={styles.ackBtnText}>
+            Acknowledge & Prepare Bay
+          </ThemedText>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+function Fact({
+  label,
+  value,
+  color,
+  muted,
+}: {
+  label: string;
+  value?: string | null;
+  color: string;
+  muted: string;
+}) {
+  return (
+    <View style={styles.fact}>
+      <ThemedText style={[styles.vitalLabel, { color: muted }]}>
+        {label}
+      </ThemedText>
+      <ThemedText style={[styles.factValue, { color }]} numberOfLines={2}>
+        {value?.trim() || "—"}
+      </ThemedText>
+    </View>
+  );
+}
+
+export default HandoverPacketCard;
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 2,
+    padding: 16,
+    marginBottom: 12,
+    gap: 10,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  incomingBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    backgroundColor: "#DC2626",
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  incomingText: {
+    color: "#FFF",
+    fontSize: 11,
+    fontFamily: Fonts.sansBold,
+    letterSpacing: 0.8,
+  },
+  etaRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  patientName: {
+    fontSize: 17,
+    fontFamily: Fonts.sansBold,
+  },
+  sub: {
+    fontSize: 12,
+    fontFamily: Fonts.sans,
+    marginTop: 2,
+    textTransform: "capitalize",
+  },
+  etaBox: {
+    alignItems: "center",
+    backgroundColor: "#FEE2E2",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    minWidth: 72,
+  },
+  etaValue: {
+    fontSize: 24,
+    lineHeight: 28,
+    fontFamily: Fonts.sansExtraBold,
+    color: "#B91C1C",
+  },
+  etaUnit: {
+    fontSize: 11,
+    fontFamily: Fonts.sansSemiBold,
+    color: "#B91C1C",
+  },
+  etaDistance: {
+    fontSize: 10,
+    fontFamily: Fonts.sans,
+    color: "#B91C1C",
+  },
+  section: {
+    borderRadius: 12,
+    padding: 10,
+    marginTop: 10,
+    gap: 4,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  priorityPill: {
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  priorityText: {
+    color: "#FFF",
+    fontSize: 12,
+    fontFamily: Fonts.sansBold,
+  },
+  score: {
+    fontSize: 13,
+    fontFamily: Fonts.sansSemiBold,
+  },
+  body: {
+    fontSize: 13,
+    fontFamily: Fonts.sans,
+  },
+  factsRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 10,
+  },
+  fact: {
+    flex: 1,
+  },
+  factValue: {
+    fontSize: 13,
+    fontFamily: Fonts.sansSemiBold,
+  },
+  vitalsRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 10,
+  },
+  vital: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  vitalLabel: {
+    fontSize: 11,
+    fontFamily: Fonts.sans,
+  },
+  vitalValue: {
+    fontSize: 14,
+    fontFamily: Fonts.sansBold,
+  },
+  ackBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: "#DC2626",
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  ackBtnText: {
+    color: "#FFF",
+    fontSize: 14,
+    fontFamily: Fonts.sansBold,
+  },
+  ackDone: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  ackDoneText: {
+    color: "#059669",
+    fontSize: 13,
+    fontFamily: Fonts.sansSemiBold,
+  },
+});
@@ -6,7 +6,11 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Colors, Fonts } from "@/constants/theme";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useI18n } from "@/hooks/use-i18n";
-import { type Lang } from "@/utils/i18n";
+import {
+  CALENDAR_OPTIONS,
+  type CalendarPreference,
+  type Lang,
+} from "@/utils/i18n";
 
 import { ThemedText } from "./themed-text";
 
@@ -18,7 +22,7 @@ const shortLabel: Record<Lang, string> = {
 
 export function LanguageToggle() {
   const [open, setOpen] = useState(false);
-  const { lang, setLanguage, t } = useI18n();
+  const { lang, setLanguage, calendar, setCalendar, t } = useI18n();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? "light"];
   const insets = useSafeAreaInsets();
@@ -37,6 +41,11 @@ export function LanguageToggle() {
     setOpen(false);
   };
 
+  const onSelectCalendar = async (next: CalendarPreference) => {
+    await setCalendar(next);
+    setOpen(false);
+  };
+
   const menuTop = Math.max(insets.top, 12) + 60;
 
   return (
@@ -116,6 +125,49 @@ export function LanguageToggle() {
                 </Pressable>
               );
             })}
+            <ThemedText
+              style={[
+                styles.menuTitle,
+                styles.menuSection,
+                { color: colors.textMuted },
+              ]}
+            >
+              {t("calendar")}
+            </ThemedText>
+            {CALENDAR_OPTIONS.map((option) => {
+              const active = option === calendar;
+              return (
+                <Pressable
+                  key={option}
+                  onPress={() => {
+                    void onSelectCalendar(option);
+                  }}
+                  style={({ pressed }) => [
+                    styles.option,
+                    active && {
+                      backgroundColor:
+                        colorScheme === "dark" ? "#1F2937" : "#EEF2FF",
+                      borderColor:
+                        colorScheme === "dark" ? "#334155" : "#C7D2FE",
+                    },
+                    pressed && { opacity: 0.85 },
+                  ]}
+                >
+                  <ThemedText
+                    style={[styles.optionText, { color: colors.text }]}
+                  >
+                    {t(`calendar_${option}`)}
+                  </ThemedText>
+                  {active ? (
+                    <MaterialIcons
+                      name="check"
+                      size={17}
+                      color={colors.primary}
+                    />
+                  ) : null}
+                </Pressable>
+              );
+            })}
           </View>
         </View>
       </Modal>
@@ -171,6 +223,9 @@ const styles = StyleSheet.create({
     textTransform: "uppercase",
     letterSpacing: 0.5,
   },
+  menuSection: {
+    marginTop: 10,
+  },
   option: {
     borderWidth: 1,
     borderColor: "transparent",
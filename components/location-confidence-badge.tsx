@@ -0,0 +1,76 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import React from "react";
+import { StyleProp, StyleSheet, View, ViewStyle } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { Fonts } from "@/constants/theme";
+import { translateText } from "@/utils/i18n";
+import {
+  isLowConfidence,
+  type LocationIntegrityFlag,
+} from "@/utils/location-integrity";
+
+type LocationConfidenceBadgeProps = {
+  confidence: number | null | undefined;
+  flags?: string[] | null;
+  /** Whose position this is, e.g. "Ambulance GPS". */
+  label?: string;
+  style?: StyleProp<ViewStyle>;
+};
+
+const FLAG_LABELS: Record<LocationIntegrityFlag, string> = {
+  impossible_jump: "Jumped",
+  mocked: "Mock location",
+  stale: "Outdated",
+  low_accuracy: "Imprecise",
+};
+
+/** Warns that a position may be wrong; renders nothing when it is trusted. */
+export function LocationConfidenceBadge({
+  confidence,
+  flags,
+  label = "GPS",
+  style,
+}: LocationConfidenceBadgeProps) {
+  if (!isLowConfidence(confidence)) return null;
+
+  const reasons = (flags ?? [])
+    .map((flag) => FLAG_LABELS[flag as LocationIntegrityFlag])
+    .filter(Boolean)
+    .map(translateText);
+  const text = [
+    `${translateText(label)}: ${translateText("low confidence")}`,
+    ...reasons,
+  ].join(" · ");
+
+  return (
+    <View
+      style={[styles.badge, style]}
+      accessibilityRole="alert"
+      accessibilityLabel={text}
+    >
+      <MaterialIcons name="gps-not-fixed" size={13} color="#B45309" />
+      <ThemedText style={styles.text} numberOfLines={1} translate={false}>
+        {text}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 999,
+    backgroundColor: "#FEF3C7",
+  },
+  text: {
+    fontSize: 11,
+    fontFamily: Fonts.sansBold,
+    color: "#B45309",
+  },
+});
@@ -15,6 +15,8 @@ interface ModalContextValue {
     options?: {
       confirmText?: string;
       cancelText?: string;
+      extraText?: string;
+      onExtra?: () => void;
     },
   ) => void;
   showError: (title: string, message: string, onConfirm?: () => void) => void;
@@ -80,6 +82,8 @@ export function ModalProvider({ children }: { children: React.ReactNode }) {
       options?: {
         confirmText?: string;
         cancelText?: string;
+        extraText?: string;
+        onExtra?: () => void;
       },
     ) => {
       if (shouldSuppressDuplicate({ type: "confirm", title, message })) return;
@@ -90,6 +94,13 @@ export function ModalProvider({ children }: { children: React.ReactNode }) {
         message,
         confirmText: options?.confirmText,
         cancelText: options?.cancelText,
+        extraText: options?.extraText,
+        onExtra: options?.onExtra
+          ? () => {
+              hideModal();
+              options.onExtra?.();
+            }
+          : undefined,
         onConfirm: () => {
           hideModal();
           onConfirm();
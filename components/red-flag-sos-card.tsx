@@ -0,0 +1,277 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import * as Location from "expo-location";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Linking,
+  Pressable,
+  StyleSheet,
+  View,
+} from "react-native";
+
+import { useAppState } from "@/components/app-state";
+import { useModal } from "@/components/modal-context";
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Fonts } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { type Lang, RED_FLAG } from "@/utils/i18n-first-aid";
+import { createEmergency, mergeQueuedEmergency } from "@/utils/patient";
+import {
+  type RedFlagEscalation,
+  requestRedFlagAmbulance,
+} from "@/utils/red-flags";
+
+type RedFlagSosCardProps = {
+  escalation: RedFlagEscalation;
+  lang: Lang;
+  onDismiss: () => void;
+};
+
+/** Inline "Call ambulance now" card shown when a chat message carries a red flag. */
+export function RedFlagSosCard({
+  escalation,
+  lang,
+  onDismiss,
+}: RedFlagSosCardProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const router = useRouter();
+  const { user } = useAppState();
+  const { showAlert, showError, showSuccess } = useModal();
+  const [sending, setSending] = useState(false);
+  const strings = RED_FLAG[lang];
+
+  const handleRequest = async () => {
+    if (!user?.id || user.role !== "patient") {
+      showError(strings.title, strings.signInNeeded);
+      return;
+    }
+
+    setSending(true);
+    try {
+      const permission = await Location.requestForegroundPermissionsAsync();
+      if (permission.status !== "granted") {
+        showError(strings.title, strings.locationNeeded);
+        return;
+      }
+      const position = await Location.getCurrentPositionAsync({
+        accuracy: Location.Accuracy.High,
+      });
+
+      const { queued, emergency, error, triage } =
+        await requestRedFlagAmbulance(escalation, {
+          createEmergency,
+          patientId: user.id,
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          mergeIntoEmergency: mergeQueuedEmergency,
+        });
+
+      if (queued) {
+        showAlert(
+          "Offline Queue",
+          "No network right now. Emergency request saved offline and will auto-send when back online.",
+        );
+        onDismiss();
+        return;
+      }
+      if (error || !emergency) {
+        showError(
+          "Emergency Request Failed",
+          `Failed to create emergency: ${error?.message}`,
+        );
+        return;
+      }
+
+      const trackingHref = `/patient-emergency-tracking?emergencyId=${encodeURIComponent(
+        emergency.id,
+      )}&initialStatus=${encodeURIComponent(emergency.status || "pending")}`;
+      showSuccess(
+        "Ambulance Requested",
+        triage
+          ? `Priority ${triage.priority}: ${triage.recommendation}`
+          : "Help is on the way.",
+        () => router.push(trackingHref as any),
+      );
+      onDismiss();
+    } catch (err: any) {
+      showError("Request Failed", err?.message || String(err));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <View
+      style={[
+        styles.card,
+        {
+          backgroundColor: colorScheme === "dark" ? "#3B0D0D" : "#FEF2F2",
+          borderColor: colors.danger,
+        },
+      ]}
+    >
+      <View style={styles.header}>
+        <MaterialIcons name="warning" size={20} color={colors.danger} />
+        <ThemedText
+          style={[styles.title, { color: colors.danger }]}
+          translate={false}
+        >
+          {strings.title}
+        </ThemedText>
+      </View>
+      <View style={styles.flags}>
+        {escalation.flags.map((flag) => (
+          <View
+            key={flag}
+            style={[styles.flag, { backgroundColor: colors.danger }]}
+          >
+            <ThemedText style={styles.flagText} translate={false}>
+              {strings.flags[flag]}
+            </ThemedText>
+          </View>
+        ))}
+      </View>
+      <ThemedText
+        style={[styles.body, { color: colors.text }]}
+        translate={false}
+      >
+        {strings.body}
+      </ThemedText>
+
+      <View style={styles.actions}>
+        <Pressable
+          onPress={() => void handleRequest()}
+          disabled={sending}
+          style={({ pressed }) => [
+            styles.primaryBtn,
+            { backgroundColor: colors.danger },
+            (pressed || sending) && { opacity: 0.8 },
+          ]}
+          accessibilityRole="button"
+        >
+          {sending ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <MaterialIcons name="emergency" size={18} color="#FFFFFF" />
+          )}
+          <ThemedText style={styles.primaryText} translate={false}>
+            {sending ? strings.sending : strings.request}
+          </ThemedText>
+        </Pressable>
+        <View style={styles.secondaryRow}>
+          <Pressable
+            onPress={() => void Linking.openURL("tel:911")}
+            style={({ pressed }) => [
+              styles.secondaryBtn,
+              { borderColor: colors.danger },
+              pressed && { opacity: 0.8 },
+            ]}
+            accessibilityRole="button"
+          >
+            <MaterialIcons name="call" size={16} color={colors.danger} />
+            <ThemedText
+              style={[styles.secondaryText, { color: colors.danger }]}
+              translate={false}
+            >
+              {strings.call}
+            </ThemedText>
+          </Pressable>
+          <Pressable
+            onPress={onDismiss}
+            disabled={sending}
+            style={({ pressed }) => [
+              styles.secondaryBtn,
+              { borderColor: colors.border },
+              pressed && { opacity: 0.8 },
+            ]}
+            accessibilityRole="button"
+          >
+            <ThemedText
+              style={[styles.secondaryText, { color: colors.textMuted }]}
+              translate={false}
+            >
+              {strings.dismiss}
+            </ThemedText>
+          </Pressable>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+export default RedFlagSosCard;
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 1.5,
+    padding: 14,
+    marginVertical: 8,
+    gap: 10,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontFamily: Fonts.sansExtraBold,
+  },
+  flags: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  flag: {
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+  },
+  flagText: {
+    color: "#FFFFFF",
+    fontSize: 12,
+    fontFamily: Fonts.sansBold,
+  },
+  body: {
+    fontSize: 13,
+    lineHeight: 19,
+    fontFamily: Fonts.sans,
+  },
+  actions: {
+    gap: 8,
+  },
+  primaryBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  primaryText: {
+    color: "#FFFFFF",
+    fontSize: 15,
+    fontFamily: Fonts.sansExtraBold,
+  },
+  secondaryRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  secondaryBtn: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+  },
+  secondaryText: {
+    fontSize: 13,
+    fontFamily: Fonts.sansBold,
+  },
+});
@@ -0,0 +1,232 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Platform,
+  Pressable,
+  StyleProp,
+  StyleSheet,
+  View,
+  ViewStyle,
+} from "react-native";
+import { WebView } from "react-native-webview";
+
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Fonts } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import {
+  buildTrackReplayHtml,
+  computeTripMetrics,
+  getTrackStatusMarkers,
+  loadEmergencyTrack,
+  type TrackPoint,
+} from "@/utils/emergency-track";
+import {
+  loadEmergencyTimeline,
+  type TimelineEvent,
+} from "@/utils/emergency-timeline";
+import { t } from "@/utils/i18n";
+import { formatDistance, formatDuration } from "@/utils/i18n-format";
+
+type TripReplayProps = {
+  emergencyId: string | null | undefined;
+  /** When the emergency was requested; starts the response time. */
+  createdAt?: string | null;
+  /** Change this (e.g. to the current status) to reload the track. */
+  refreshKey?: string | number | null;
+  style?: StyleProp<ViewStyle>;
+};
+
+/** Keyed status label where one exists (e.g. "At Scene"). */
+const statusLabel = (status: string) => {
+  const label = t(status);
+  return label === status ? status.replace(/_/g, " ") : label;
+};
+
+/** Animated replay of the ambulance's GPS track with trip metrics. */
+export function TripReplay({
+  emergencyId,
+  createdAt,
+  refreshKey,
+  style,
+}: TripReplayProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const [points, setPoints] = useState<TrackPoint[]>([]);
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!emergencyId) return;
+    setLoading(true);
+    const [track, timeline] = await Promise.all([
+      loadEmergencyTrack(emergencyId),
+      loadEmergencyTimeline(emergencyId),
+    ]);
+    setPoints(track.points);
+    setEvents(timeline.events);
+    setError(track.error);
+    setLoading(false);
+  }, [emergencyId]);
+
+  useEffect(() => {
+    void load();
+  }, [load, refreshKey]);
+
+  const metrics = useMemo(
+    () => computeTripMetrics(points, events, createdAt),
+    [points, events, createdAt],
+  );
+  const html = useMemo(() => {
+    if (points.length === 0) return null;
+    const markers = getTrackStatusMarkers(points, events).map((marker) => ({
+      ...marker,
+      label: statusLabel(marker.status),
+    }));
+    return buildTrackReplayHtml(points, markers);
+  }, [points, events]);
+
+  if (!emergencyId) return null;
+
+  const minutes = (value: number | null) =>
+    value == null ? "—" : formatDuration(value);
+  const stats: { label: string; value: string }[] = [
+    { label: "Distance", value: formatDistance(metrics.distanceKm) },
+    { label: "Response", value: minutes(metrics.responseMinutes) },
+    { label: "At scene", value: minutes(metrics.sceneMinutes) },
+    { label: "Transport", value: minutes(metrics.transportMinutes) },
+  ];
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: colors.surface, borderColor: colors.border },
+        style,
+      ]}
+    >
+      <View style={styles.header}>
+        <MaterialIcons name="route" size={18} color={colors.textMuted} />
+        <ThemedText style={[styles.title, { color: colors.text }]}>
+          Trip replay
+        </ThemedText>
+        <Pressable
+          onPress={() => void load()}
+          disabled={loading}
+          accessibilityRole="button"
+          accessibilityLabel="Refresh trip replay"
+          hitSlop={8}
+        >
+          {loading ? (
+            <ActivityIndicator size="small" color={colors.textMuted} />
+          ) : (
+            <MaterialIcons name="refresh" size={18} color={colors.textMuted} />
+          )}
+        </Pressable>
+      </View>
+
+      {error ? (
+        <ThemedText style={[styles.empty, { color: colors.danger }]}>
+          {error}
+        </ThemedText>
+      ) : !html ? (
+        !loading && (
+          <ThemedText style={[styles.empty, { color: colors.textMuted }]}>
+            No GPS track recorded yet.
+          </ThemedText>
+        )
+      ) : (
+        <>
+          <View style={styles.statsRow}>
+            {stats.map((stat) => (
+              <View key={stat.label} style={styles.stat}>
+                <ThemedText
+                  style={[styles.statValue, { color: colors.text }]}
+                  translate={false}
+                >
+                  {stat.value}
+                </ThemedText>
+                <ThemedText
+                  style={[styles.statLabel, { color: colors.textMuted }]}
+                >
+                  {stat.label}
+                </ThemedText>
+              </View>
+            ))}
+          </View>
+          <View style={styles.map}>
+            {Platform.OS === "web" ? (
+              <iframe
+                srcDoc={html}
+                style={
+                  {
+                    width: "100%",
+                    height: "100%",
+                    border: "none",
+                    display: "block",
+                  } as any
+                }
+                title="Trip replay"
+              />
+            ) : (
+              <WebView
+                source={{ html }}
+                style={{ flex: 1, backgroundColor: "transparent" }}
+                originWhitelist={["*"]}
+                javaScriptEnabled
+                scrollEnabled={false}
+              />
+            )}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 12,
+    gap: 12,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: Fonts.sansBold,
+  },
+  empty: {
+    fontSize: 13,
+    fontFamily: Fonts.sans,
+  },
+  statsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  stat: {
+    flex: 1,
+    alignItems: "center",
+  },
+  statValue: {
+    fontSize: 15,
+    fontFamily: Fonts.sansBold,
+  },
+  statLabel: {
+    fontSize: 11,
+    fontFamily: Fonts.sans,
+  },
+  map: {
+    height: 280,
+    borderRadius: 12,
+    overflow: "hidden",
+  },
+});
@@ -0,0 +1,99 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { useAudioPlayer, useAudioPlayerStatus } from "expo-audio";
+import React, { useEffect, useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet } from "react-native";
+
+import { ThemedText } from "@/components/themed-text";
+import { Colors, Fonts } from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { getVoiceNoteUrl } from "@/utils/voice-sos";
+
+type VoiceNotePlayerProps = {
+  /** `storage_path` of a `voice_note_attached` timeline event. */
+  storagePath: string;
+};
+
+/**
+ * Play/pause control for a voice SOS recording. The signed URL is only
+ * fetched on the first tap, so a long timeline does not sign every note.
+ */
+export function VoiceNotePlayer({ storagePath }: VoiceNotePlayerProps) {
+  const colorScheme = useColorScheme() ?? "light";
+  const colors = Colors[colorScheme];
+  const player = useAudioPlayer(null);
+  const status = useAudioPlayerStatus(player);
+  const [loadedPath, setLoadedPath] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status.didJustFinish) void player.seekTo(0);
+  }, [player, status.didJustFinish]);
+
+  const toggle = async () => {
+    if (status.playing) {
+      player.pause();
+      return;
+    }
+    if (loadedPath !== storagePath) {
+      setLoading(true);
+      const { url, error: urlError } = await getVoiceNoteUrl(storagePath);
+      setLoading(false);
+      if (!url) {
+        setError(urlError?.message ?? "Recording unavailable");
+        return;
+      }
+      player.replace({ uri: url });
+      setLoadedPath(storagePath);
+    }
+    setError(null);
+    player.play();
+  };
+
+  return (
+    <Pressable
+      onPress={() => void toggle()}
+      disabled={loading}
+      accessibilityRole="button"
+      accessibilityLabel={
+        status.playing ? "Pause voice note" : "Play voice note"
+      }
+      style={[styles.button, { borderColor: colors.border }]}
+    >
+      {loading ? (
+        <ActivityIndicator size="small" color={colors.textMuted} />
+      ) : (
+        <MaterialIcons
+          name={status.playing ? "pause" : "play-arrow"}
+          size={16}
+          color={colors.text}
+        />
+      )}
+      <ThemedText
+        style={[styles.label, { color: error ? colors.danger : colors.text }]}
+      >
+        {error ?? (status.playing ? "Pause" : "Play recording")}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+export default VoiceNotePlayer;
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 4,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginTop: 6,
+  },
+  label: {
+    fontSize: 12,
+    fontFamily: Fonts.sansSemiBold,
+  },
+});
@@ -0,0 +1,304 @@
+import { useModal } from "@/components/modal-context";
+import { ThemedText } from "@/components/themed-text";
+import { Fonts } from "@/constants/theme";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  buildVoiceSosCapture,
+  getSpeechLocale,
+  type VoiceSosCapture,
+} from "@/utils/voice-sos";
+import { MaterialIcons } from "@expo/vector-icons";
+import { requireOptionalNativeModule } from "expo";
+import {
+  RecordingPresets,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+  useAudioRecorder,
+} from "expo-audio";
+import React, { useEffect, useRef, useState } from "react";
+import { Platform, Pressable, StyleSheet, View } from "react-native";
+
+/** Shorter holds are treated as an accidental tap. */
+const MIN_HOLD_MS = 800;
+
+type Phase = "idle" | "starting" | "listening" | "recording";
+
+interface VoiceSosButtonProps {
+  /** Called with the transcript and/or recording once the button is released. */
+  onCapture: (capture: VoiceSosCapture) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Hold-to-talk SOS. While held it transcribes with the optional
+ * ExpoSpeechRecognition module when the device supports the current
+ * language, and otherwise records audio to attach to the emergency.
+ */
+export function VoiceSosButton({ onCapture, disabled }: VoiceSosButtonProps) {
+  const { showAlert } = useModal();
+  const { lang } = useI18n();
+  const recorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
+  const speechModuleRef = useRef<any>(
+    requireOptionalNativeModule("ExpoSpeechRecognition"),
+  );
+  const speechModule = speechModuleRef.current;
+
+  const [phase, setPhase] = useState<Phase>("idle");
+  const phaseRef = useRef<Phase>("idle");
+  const [liveTranscript, setLiveTranscript] = useState("");
+  const heldRef = useRef(false);
+  const startedAtRef = useRef(0);
+  const finalTextRef = useRef("");
+  const interimTextRef = useRef("");
+  const audioUriRef = useRef<string | null>(null);
+  const onCaptureRef = useRef(onCapture);
+  onCaptureRef.current = onCapture;
+
+  const updatePhase = (next: Phase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  };
+
+  const finish = (transcript: string | null, audioUri: string | null) => {
+    updatePhase("idle");
+    setLiveTranscript("");
+    const durationMs = Date.now() - startedAtRef.current;
+    if (durationMs < MIN_HOLD_MS && !transcript) {
+      showAlert(
+        "Voice SOS",
+        "Hold the button and describe the emergency, then release to send.",
+      );
+      return;
+    }
+    if (!transcript && !audioUri) {
+      showAlert(
+        "Voice SOS",
+        "We could not hear a description. Please try again or type it.",
+      );
+      return;
+    }
+    onCaptureRef.current(
+      buildVoiceSosCapture({ transcript, audioUri, durationMs }),
+    );
+  };
+  const finishRef = useRef(finish);
+  finishRef.current = finish;
+
+  useEffect(() => {
+    if (!speechModule?.addListener) return;
+
+    const resultSub = speechModule.addListener("result", (event: any) => {
+      const transcript = event?.results?.[0]?.transcript?.trim();
+      if (!transcript) return;
+      if (event.isFinal) {
+        finalTextRef.current = `${finalTextRef.current} ${transcript}`.trim();
+        interimTextRef.current = "";
+      } else {
+        interimTextRef.current = transcript;
+      }
+      setLiveTranscript(
+        `${finalTextRef.current} ${interimTextRef.current}`.trim(),
+      );
+    });
+
+    // Recognition keeps its own copy of the audio (`recordingOptions`).
+    const audioSub = speechModule.addListener("audioend", (event: any) => {
+      if (event?.uri) audioUriRef.current = event.uri;
+    });
+
+    const endSub = speechModule.addListener("end", () => {
+      if (phaseRef.current !== "listening") return;
+      const transcript =
+        `${finalTextRef.current} ${interimTextRef.current}`.trim();
+      finishRef.current(transcript || null, audioUriRef.current);
+    });
+
+    const errorSub = speechModule.addListener("error", (event: any) => {
+      console.warn("Voice SOS recognition error:", event?.message);
+    });
+
+    return () => {
+      resultSub?.remove?.();
+      audioSub?.remove?.();
+      endSub?.remove?.();
+      errorSub?.remove?.();
+    };
+  }, [speechModule]);
+
+  useEffect(
+    () => () => {
+      try {
+        speechModule?.abort?.();
+      } catch {
+        // No-op: recognition may already be stopped.
+      }
+    },
+    [speechModule],
+  );
+
+  const canRecognize = () => {
+    if (Platform.OS === "web" || !speechModule || !getSpeechLocale(lang)) {
+      return false;
+    }
+    try {
+      return Boolean(speechModule.isRecognitionAvailable());
+    } catch {
+      return false;
+    }
+  };
+
+  const startListening = async (): Promise<boolean> => {
+    const perms = await speechModule.requestPermissionsAsync();
+    if (!perms.granted) return false;
+    finalTextRef.current = "";
+    interimTextRef.current = "";
+    audioUriRef.current = null;
+    speechModule.start({
+      lang: getSpeechLocale(lang),
+      interimResults: true,
+      continuous: true,
+      maxAlternatives: 1,
+      addsPunctuation: true,
+      recordingOptions: { persist: true },
+    });
+    updatePhase("listening");
+    return true;
+  };
+
+  const startRecording = async (): Promise<boolean> => {
+    const perms = await requestRecordingPermissionsAsync();
+    if (!perms.granted) {
+      showAlert(
+        "Permission needed",
+        "Please allow microphone access to send a voice SOS.",
+      );
+      return false;
+    }
+    await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+    await recorder.prepareToRecordAsync();
+    recorder.record();
+    updatePhase("recording");
+    return true;
+  };
+
+  const stopCapture = async () => {
+    if (phaseRef.current === "listening") {
+      try {
+        speechModule?.stop?.();
+      } catch (error) {
+        console.error("Voice SOS stop error:", error);
+        finish(null, null);
+      }
+    } else if (phaseRef.current === "recording") {
+      try {
+        await recorder.stop();
+        await setAudioModeAsync({ allowsRecording: false });
+        finish(null, recorder.uri);
+      } catch (error) {
+        console.error("Voice SOS recording error:", error);
+        finish(null, null);
+      }
+    }
+  };
+
+  const handlePressIn = async () => {
+    if (disabled || phaseRef.current !== "idle") return;
+    heldRef.current = true;
+    startedAtRef.current = Date.now();
+    updatePhase("starting");
+    let started = false;
+    try {
+      started =
+        (canRecognize() && (await startListening())) ||
+        (await startRecording());
+    } catch (error) {
+      console.error("Voice SOS start error:", error);
+      showAlert(
+        "Voice SOS",
+        "Couldn't start the microphone. Please use the SOS button instead.",
+      );
+    }
+    if (!started) {
+      // Microphone permission was declined or the microphone failed to start.
+      updatePhase("idle");
+    } else if (!heldRef.current) {
+      // Released while the microphone was still starting.
+      await stopCapture();
+    }
+  };
+
+  const handlePressOut = () => {
+    heldRef.current = false;
+    void stopCapture();
+  };
+
+  const active = phase === "listening" || phase === "recording";
+  const label =
+    phase === "listening"
+      ? "Listening… release to send"
+      : phase === "recording"
+      ? "Recording… release to send"
+      : "Hold to describe your emergency";
+
+  return (
+    <View style={styles.container}>
+      <Pressable
+        onPressIn={handlePressIn}
+        onPressOut={handlePressOut}
+        disabled={disabled}
+        accessibilityRole="button"
+        accessibilityLabel="Voice SOS"
+        style={({ pressed }) => [
+          styles.button,
+          active && styles.buttonActive,
+          pressed && !active && { opacity: 0.9 },
+          disabled && { opacity: 0.6 },
+        ]}
+      >
+        <MaterialIcons
+          name={active ? "graphic-eq" : "mic"}
+          size={28}
+          color="#fff"
+        />
+        <ThemedText style={styles.buttonText}>{label}</ThemedText>
+      </Pressable>
+      {phase === "listening" && liveTranscript ? (
+        <ThemedText style={styles.transcript} translate={false}>
+          “{liveTranscript}”
+        </ThemedText>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  button: {
+    backgroundColor: "#B91C1C",
+    borderRadius: 20,
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 10,
+  },
+  buttonActive: {
+    backgroundColor: "#7F1D1D",
+    transform: [{ scale: 1.03 }],
+  },
+  buttonText: {
+    fontSize: 15,
+    fontFamily: Fonts.sansBold,
+    color: "#fff",
+  },
+  transcript: {
+    fontSize: 14,
+    fontFamily: Fonts.sansMedium,
+    fontStyle: "italic",
+    textAlign: "center",
+    opacity: 0.8,
+  },
+});
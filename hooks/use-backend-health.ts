@@ -0,0 +1,33 @@
+import { useEffect } from "react";
+import { AppState } from "react-native";
+
+import { probeBackendHealth } from "@/utils/api";
+
+const HEALTH_PROBE_MS = 60000;
+
+/**
+ * Probes every backend mirror in the background so the API client can keep
+ * a healthy endpoint sticky and skip dead ones before a request times out.
+ */
+export function useBackendHealthProbe(): void {
+  useEffect(() => {
+    let appActive = AppState.currentState !== "background";
+
+    const probe = () => {
+      if (!appActive) return;
+      void probeBackendHealth().catch(() => {});
+    };
+
+    probe();
+    const intervalId = setInterval(probe, HEALTH_PROBE_MS);
+    const subscription = AppState.addEventListener("change", (state) => {
+      appActive = state === "active";
+      if (appActive) probe();
+    });
+
+    return () => {
+      clearInterval(intervalId);
+      subscription.remove();
+    };
+  }, []);
+}
@@ -1,8 +1,11 @@
 import { useCallback, useEffect, useState } from "react";
 
 import {
+    type CalendarPreference,
     type Lang,
+    getCalendarPreference,
     getLang,
+    setCalendarPreference,
     setLang,
     subscribeLangChange,
     t,
@@ -10,10 +13,14 @@ import {
 
 export function useI18n() {
   const [lang, setLangState] = useState<Lang>(getLang());
+  const [calendar, setCalendarState] = useState<CalendarPreference>(
+    getCalendarPreference(),
+  );
 
   useEffect(() => {
     return subscribeLangChange(() => {
       setLangState(getLang());
+      setCalendarState(getCalendarPreference());
     });
   }, []);
 
@@ -22,5 +29,10 @@ export function useI18n() {
     setLangState(getLang());
   }, []);
 
-  return { lang, setLanguage, t };
+  const setCalendar = useCallback(async (next: CalendarPreference) => {
+    await setCalendarPreference(next);
+    setCalendarState(getCalendarPreference());
+  }, []);
+
+  return { lang, setLanguage, calendar, setCalendar, t };
 }
@@ -0,0 +1,50 @@
+import { useEffect } from "react";
+import { AppState } from "react-native";
+
+import { useAppState } from "@/components/app-state";
+import { syncOfflineQueue } from "@/utils/emergency";
+import { withTimelineReplay } from "@/utils/emergency-timeline";
+import { hasInternetConnection } from "@/utils/network";
+import { flushOutbox, getOutbox } from "@/utils/offline-queue";
+
+const OUTBOX_POLL_MS = 20000;
+const syncWithTimeline = withTimelineReplay(syncOfflineQueue);
+
+/**
+ * Replays the offline mutation outbox while a user is signed in.
+ * Flushes on sign-in, whenever the app returns to the foreground and on a
+ * slow poll, but only after a connectivity probe succeeds.
+ */
+export function useOfflineOutboxSync(): void {
+  const { user } = useAppState();
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    let cancelled = false;
+
+    const tryFlush = async () => {
+      const pending = await getOutbox();
+      const now = Date.now();
+      if (cancelled || !pending.some((item) => item.nextAttemptAt <= now)) {
+        return;
+      }
+      if (!(await hasInternetConnection()) || cancelled) return;
+      await flushOutbox(syncWithTimeline);
+    };
+
+    void tryFlush().catch(() => {});
+    const intervalId = setInterval(() => {
+      void tryFlush().catch(() => {});
+    }, OUTBOX_POLL_MS);
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") void tryFlush().catch(() => {});
+    });
+
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+      subscription.remove();
+    };
+  }, [user?.id]);
+}
@@ -0,0 +1,185 @@
+/**
+ * Ambulance inventory — the equipment and medication each vehicle carries.
+ *
+ * Drivers report oxygen, the defibrillator (AED), stretcher, delivery kit
+ * and medication counts; hospital staff see the latest report in the fleet
+ * view and get a push when an item drops into alert. Between vehicles about
+ * equally close, dispatch prefers one carrying what the case needs (see
+ * `EQUIPMENT_NEEDS`). Thresholds mirror the backend (`_inventory_alerts` in
+ * routers/ops.py).
+ */
+import { backendPut } from "./api";
+import { TransientError } from "./api-errors";
+import type {
+  AmbulanceInventoryResponse,
+  AmbulanceInventoryRow,
+  EquipmentStatus,
+} from "./contracts";
+import { fromDataSource, isMissingEndpointError } from "./data-source";
+import { supabase } from "./supabase";
+
+/* ─── Types ───────────────────────────────────────────────────── */
+
+export type { EquipmentStatus };
+
+export type AmbulanceInventory = AmbulanceInventoryRow;
+
+export const LOW_OXYGEN_PERCENT = 25;
+
+export const EQUIPMENT_ITEMS = [
+  { key: "aed", label: "Defibrillator (AED)" },
+  { key: "stretcher", label: "Stretcher" },
+  { key: "delivery_kit", label: "Delivery kit" },
+] as const;
+
+export type EquipmentItem = (typeof EQUIPMENT_ITEMS)[number]["key"];
+
+export const EQUIPMENT_STATUSES: { key: EquipmentStatus; label: string }[] = [
+  { key: "ok", label: "Working" },
+  { key: "faulty", label: "Faulty" },
+  { key: "missing", label: "Missing" },
+];
+
+/** Units below `minimum` raise a low-stock alert. */
+export const MEDICATIONS = [
+  { key: "adrenaline", label: "Adrenaline", minimum: 2 },
+  { key: "aspirin", label: "Aspirin", minimum: 10 },
+  { key: "oral_glucose", label: "Oral glucose", minimum: 2 },
+  { key: "iv_saline", label: "IV saline", minimum: 4 },
+  { key: "oxytocin", label: "Oxytocin", minimum: 2 },
+  { key: "paracetamol", label: "Paracetamol", minimum: 10 },
+] as const;
+
+export type Medication = (typeof MEDICATIONS)[number]["key"];
+
+export type InventoryAlertItem = "oxygen" | EquipmentItem | Medication;
+
+export interface InventoryAlert {
+  item: InventoryAlertItem;
+  label: string;
+  reason: "low" | "faulty" | "missing";
+}
+
+/** Equipment a case type prefers its ambulance to carry in working order. */
+export const EQUIPMENT_NEEDS: Partial<Record<string, EquipmentItem>> = {
+  cardiac: "aed",
+  maternity: "delivery_kit",
+};
+
+const fallbackWhenUnreachable = (error: unknown) =>
+  error instanceof TransientError || isMissingEndpointError(error);
+
+/* ─── Alerts ──────────────────────────────────────────────────── */
+
+/**
+ * Items that need restocking or repair. Items never reported raise no
+ * alert: an empty inventory means "unknown", not "empty".
+ */
+export const getInventoryAlerts = (
+  inventory: AmbulanceInventory | null | undefined,
+): InventoryAlert[] => {
+  if (!inventory) return [];
+  const alerts: InventoryAlert[] = [];
+
+  if (
+    inventory.oxygen_percent != null &&
+    inventory.oxygen_percent < LOW_OXYGEN_PERCENT
+  ) {
+    alerts.push({ item: "oxygen", label: "Oxygen", reason: "low" });
+  }
+  for (const equipment of EQUIPMENT_ITEMS) {
+    const status = inventory[equipment.key];
+    if (status === "faulty" || status === "missing") {
+      alerts.push({
+        item: equipment.key,
+        label: equipment.label,
+        reason: status,
+      });
+    }
+  }
+  for (const medication of MEDICATIONS) {
+    const count = inventory.medications?.[medication.key];
+    if (count != null && count < medication.minimum) {
+      alerts.push({
+        item: medication.key,
+        label: medication.label,
+        reason: "low",
+      });
+    }
+  }
+  return alerts;
+};
+
+/**
+ * Whether the ambulance carries what `emergencyType` needs: true or false
+ * when the case has a need and the item was reported, null otherwise.
+ */
+export const hasEquipmentFor = (
+  emergencyType: string | null | undefined,
+  inventory: AmbulanceInventory | null | undefined,
+): boolean | null => {
+  const needed = EQUIPMENT_NEEDS[(emergencyType ?? "").toLowerCase()];
+  const status = needed ? inventory?.[needed] : null;
+  return status ? status === "ok" : null;
+};
+
+/* ─── Updates ─────────────────────────────────────────────────── */
+
+/**
+ * Save the driver's inventory report for `ambulanceId`. The backend pushes
+ * new alerts to hospital staff; when it cannot be reached the report is
+ * written through Supabase and staff see it in the fleet view only.
+ */
+export const updateAmbulanceInventory = async (
+  ambulanceId: string,
+  inventory: AmbulanceInventory,
+): Promise<{
+  inventory: AmbulanceInventory | null;
+  alerts: InventoryAlert[];
+  error: Error | null;
+}> => {
+  const report = {
+    oxygen_percent: inventory.oxygen_percent ?? null,
+    aed: inventory.aed ?? null,
+    stretcher: inventory.stretcher ?? null,
+    delivery_kit: inventory.delivery_kit ?? null,
+    medications: inventory.medications ?? {},
+  };
+  try {
+    if (
+      report.oxygen_percent != null &&
+      (report.oxygen_percent < 0 || report.oxygen_percent > 100)
+    ) {
+      throw new Error("Oxygen level must be between 0 and 100%.");
+    }
+
+    const { data } = await fromDataSource<AmbulanceInventoryResponse>({
+      entity: "ambulance_inventory",
+      operation: "update",
+      backend: () =>
+        backendPut<AmbulanceInventoryResponse>(
+          "/ops/driver/ambulance/inventory",
+          { ambulance_id: ambulanceId, ...report },
+        ),
+      fallbackOn: fallbackWhenUnreachable,
+      supabase: async () => {
+        const now = new Date().toISOString();
+        const saved = { ...report, updated_at: now };
+        const { error } = await supabase
+          .from("ambulances")
+          .update({
+            inventory: saved,
+            inventory_updated_at: now,
+            updated_at: now,
+          })
+          .eq("id", ambulanceId);
+        if (error) throw error;
+        return { inventory: saved, alerts: [] };
+      },
+    });
+    const saved = data?.inventory ?? null;
+    return { inventory: saved, alerts: getInventoryAlerts(saved), error: null };
+  } catch (error) {
+    return { inventory: null, alerts: [], error: error as Error };
+  }
+};
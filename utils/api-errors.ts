@@ -0,0 +1,117 @@
+/**
+ * Typed errors thrown by the backend API client (utils/api.ts).
+ *
+ * Screens should branch on `instanceof` rather than sniffing `error.message`.
+ * Messages are kept identical to the old plain `Error`s so existing logging
+ * and user-facing text do not change.
+ */
+
+export class ApiError extends Error {
+  /** HTTP status, or null when no response was received. */
+  readonly status: number | null;
+  /** Raw FastAPI `detail` payload, when the backend returned one. */
+  readonly detail: unknown;
+
+  constructor(message: string, status: number | null = null, detail?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.detail = detail;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/** The session is missing, expired or rejected and could not be refreshed. */
+export class AuthError extends ApiError {
+  constructor(message: string, status: number | null = 401, detail?: unknown) {
+    super(message, status, detail);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * Network failure, timeout or an overloaded/unavailable backend. Retrying
+ * later is expected to succeed.
+ */
+export class TransientError extends ApiError {
+  /**
+   * False when the request never reached a server (DNS, refused connection),
+   * so it is always safe to try another mirror.
+   */
+  readonly delivered: boolean;
+
+  constructor(
+    message: string,
+    status: number | null = null,
+    delivered = status !== null,
+    detail?: unknown,
+  ) {
+    super(message, status, detail);
+    this.name = "TransientError";
+    this.delivered = delivered;
+  }
+}
+
+/** The backend rejected the request body (FastAPI 400/422). */
+export class ValidationError extends ApiError {
+  constructor(message: string, status: number = 422, detail?: unknown) {
+    super(message, status, detail);
+    this.name = "ValidationError";
+  }
+
+  /** Field-level messages from a FastAPI 422 `detail` list, keyed by location. */
+  get fieldErrors(): Record<string, string> {
+    const out: Record<string, string> = {};
+    if (!Array.isArray(this.detail)) return out;
+    for (const entry of this.detail as any[]) {
+      const loc = Array.isArray(entry?.loc)
+        ? entry.loc.filter((part: unknown) => part !== "body").join(".")
+        : "";
+      if (typeof entry?.msg === "string") out[loc || "_"] = entry.msg;
+    }
+    return out;
+  }
+}
+
+/** The caller aborted the request through its AbortSignal. */
+export class CancelledError extends ApiError {
+  constructor(message = "Request cancelled") {
+    super(message, null);
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * The backend answered successfully but the body does not match the shared
+ * contract in utils/contracts.ts (usually a client/backend version skew).
+ */
+export class ContractError extends ApiError {
+  /** One entry per mismatch, e.g. `$.emergency.status: expected string`. */
+  readonly issues: string[];
+
+  constructor(message: string, status: number | null, issues: string[]) {
+    super(message, status, issues);
+    this.name = "ContractError";
+    this.issues = issues;
+  }
+}
+
+const TRANSIENT_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+/** Map an HTTP error response to the matching error class. */
+export function errorFromResponse(
+  status: number,
+  message: string,
+  detail?: unknown,
+): ApiError {
+  if (status === 401) {
+    return new AuthError(message, status, detail);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, status, detail);
+  }
+  if (TRANSIENT_STATUSES.includes(status)) {
+    return new TransientError(message, status, true, detail);
+  }
+  return new ApiError(message, status, detail);
+}
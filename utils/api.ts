@@ -6,13 +6,37 @@
  */
 import { Platform } from "react-native";
 
+import {
+  ApiError,
+  AuthError,
+  CancelledError,
+  TransientError,
+  errorFromResponse,
+} from "./api-errors";
+import { enforceResponseContract } from "./contracts";
+import {
+  createEndpointHealthTracker,
+  type EndpointHealthSnapshot,
+} from "./endpoint-health";
+import { createSseParser, type ServerSentEvent } from "./sse";
 import { supabase } from "./supabase";
 
+export {
+  ApiError,
+  AuthError,
+  CancelledError,
+  ContractError,
+  TransientError,
+  ValidationError,
+} from "./api-errors";
+
 const ENV_BACKEND_URL_RAW = process.env.EXPO_PUBLIC_BACKEND_URL?.trim() || "";
 const ENV_BACKEND_URL = ENV_BACKEND_URL_RAW || "http://localhost:8000";
-const BACKEND_FALLBACKS = (process.env.EXPO_PUBLIC_BACKEND_FALLBACKS || "")
+const BACKEND_FALLBACKS: string[] = (
+  process.env.EXPO_PUBLIC_BACKEND_FALLBACKS || ""
+)
   .split(",")
-  .map((value) => value.trim())
+  .map((value: string) => value.trim())
   .filter(Boolean);
 
 // Safety net for release builds where EXPO_PUBLIC_* env values may not be
@@ -27,24 +51,6 @@ const DEFAULT_PUBLIC_BACKENDS = [
 const DEFAULT_TIMEOUT_MS = 12000;
 const GET_TIMEOUT_MS = 12000;
 
-const AUTH_ERROR_SNIPPETS = [
-  "session from session_id claim",
-  "session does not exist",
-  "jwt expired",
-  "token expired",
-  "invalid jwt",
-  "invalid token",
-  "invalid signature",
-  "not authenticated",
-  "authentication required",
-];
-
-const TRANSIENT_ERROR_SNIPPETS = [
-  "timeout",
-  "network request failed",
-  "failed to fetch",
-];
-
 const isLocalBackendUrl = (url: string): boolean => {
   try {
     const parsed = new URL(url);
@@ -188,17 +194,45 @@ const buildBackendCandidates = (): string[] => {
 };
 
 const BACKEND_CANDIDATES = buildBackendCandidates();
-let activeBackendBase = BACKEND_CANDIDATES[0];
+const backendHealth = createEndpointHealthTracker(BACKEND_CANDIDATES);
 
-const getBackendBaseOrder = (): string[] => {
-  if (!activeBackendBase) {
-    activeBackendBase = BACKEND_CANDIDATES[0];
-  }
-  const rest = BACKEND_CANDIDATES.filter(
-    (candidate) => candidate !== activeBackendBase,
+const HEALTH_PROBE_TIMEOUT_MS = 4000;
+
+/** Current health of every backend mirror, for diagnostics. */
+export const getBackendHealthSnapshot = (): EndpointHealthSnapshot =>
+  backendHealth.snapshot();
+
+/**
+ * Probe `/health` on every mirror and feed latency/failures into the health
+ * tracker. Mirrors with an open circuit are skipped unless `force` is set.
+ */
+export async function probeBackendHealth(
+  force = false,
+): Promise<EndpointHealthSnapshot> {
+  const { endpoints } = backendHealth.snapshot();
+  await Promise.all(
+    endpoints
+      .filter((entry) => force || !entry.circuitOpen)
+      .map(async ({ url }) => {
+        const startedAt = Date.now();
+        try {
+          const res = await fetchWithTimeout(
+            `${url}/health`,
+            { method: "GET", headers: { Accept: "application/json" } },
+            HEALTH_PROBE_TIMEOUT_MS,
+          );
+          if (res.ok) {
+            backendHealth.recordSuccess(url, Date.now() - startedAt);
+          } else {
+            backendHealth.recordFailure(url, `Health check HTTP ${res.status}`);
+          }
+        } catch (error) {
+          backendHealth.recordFailure(url, error);
+        }
+      }),
   );
-  return [activeBackendBase, ...rest];
-};
+  return backendHealth.snapshot();
+}
 
 function toErrorMessage(status: number, body: any): string {
   if (typeof body?.detail === "string" && body.detail.trim())
@@ -222,29 +256,151 @@ function toErrorMessage(status: number, body: any): string {
   return `Backend error ${status}`;
 }
 
+// ── Request pipeline ──────────────────────────────────────────────────────
+
+type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface RetryPolicy {
+  /** Extra attempts after the first one. */
+  retries: number;
+  /** Delay before the first retry; doubles on each further retry. */
+  baseDelayMs: number;
+}
+
+export interface BackendCallOptions {
+  timeoutMs?: number;
+  /** Abort the request (and any pending retries). */
+  signal?: AbortSignal;
+  /**
+   * Override the retry policy, or `false` to never retry. POST and PATCH are
+   * only retried when an idempotency key is supplied.
+   */
+  retry?: Partial<RetryPolicy> | false;
+  /** Sent as `Idempotency-Key`; makes POST/PATCH safe to retry. */
+  idempotencyKey?: string;
+  headers?: Record<string, string>;
+}
+
+/** A request as seen by interceptors. */
+export interface BackendRequest {
+  method: HttpMethod;
+  path: string;
+  body?: unknown;
+  headers: Record<string, string>;
+  timeoutMs: number;
+  idempotencyKey?: string;
+}
+
+export interface BackendResponseContext {
+  request: BackendRequest;
+  baseUrl: string;
+  status: number;
+}
+
+/** May mutate or replace the request before it is sent. */
+export type RequestInterceptor = (
+  request: BackendRequest,
+) => BackendRequest | void | Promise<BackendRequest | void>;
+
+/** May inspect or replace the parsed body of a successful response. */
+export type ResponseInterceptor = (
+  data: unknown,
+  context: BackendResponseContext,
+) => unknown | Promise<unknown>;
+
+const requestInterceptors: RequestInterceptor[] = [];
+const responseInterceptors: ResponseInterceptor[] = [];
+
+/** Register a request interceptor. Returns a function that removes it. */
+export function addRequestInterceptor(fn: RequestInterceptor): () => void {
+  requestInterceptors.push(fn);
+  return () => {
+    const index = requestInterceptors.indexOf(fn);
+    if (index >= 0) requestInterceptors.splice(index, 1);
+  };
+}
+
+/** Register a response interceptor. Returns a function that removes it. */
+export function addResponseInterceptor(fn: ResponseInterceptor): () => void {
+  responseInterceptors.push(fn);
+  return () => {
+    const index = responseInterceptors.indexOf(fn);
+    if (index >= 0) responseInterceptors.splice(index, 1);
+  };
+}
+
+const DEFAULT_RETRY: RetryPolicy = { retries: 1, baseDelayMs: 400 };
+const IDEMPOTENT_METHODS: HttpMethod[] = ["GET", "PUT", "DELETE"];
+
+const resolveRetryPolicy = (
+  method: HttpMethod,
+  options: BackendCallOptions,
+): RetryPolicy => {
+  if (options.retry === false) return { ...DEFAULT_RETRY, retries: 0 };
+  const canRetry =
+    IDEMPOTENT_METHODS.includes(method) || Boolean(options.idempotencyKey);
+  if (!canRetry) return { ...DEFAULT_RETRY, retries: 0 };
+  return { ...DEFAULT_RETRY, ...(options.retry ?? {}) };
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
 async function fetchWithTimeout(
   url: string,
   init: RequestInit,
   timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  signal?: AbortSignal,
 ): Promise<Response> {
+  if (signal?.aborted) throw new CancelledError();
+
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
   try {
     return await fetch(url, { ...init, signal: controller.signal });
   } catch (error: any) {
+    if (signal?.aborted) throw new CancelledError();
     if (error?.name === "AbortError") {
-      throw new Error("Request timeout. Please try again.");
+      // The server may already be processing the request.
+      throw new TransientError("Request timeout. Please try again.", null, true);
     }
-    throw error;
+    // fetch rejects before any response: nothing reached the backend.
+    throw new TransientError(
+      String(error?.message || "Network request failed"),
+      null,
+      false,
+    );
   } finally {
     clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
   }
 }
 
 async function parseJsonResponse<T>(res: Response): Promise<T> {
   if (!res.ok) {
-    const body = await res.json().catch(() => ({}));
-    throw new Error(toErrorMessage(res.status, body));
+    const body = await res.json().catch(() => null);
+    const message = toErrorMessage(res.status, body ?? {});
+    if (body === null && (res.status === 404 || res.status === 405)) {
+      // Not a FastAPI response — a proxy or static host without the API.
+      throw new TransientError(message, res.status, false);
+    }
+    throw errorFromResponse(res.status, message, body?.detail);
   }
 
   if (res.status === 204) {
@@ -264,128 +420,280 @@ async function getAuthHeaders(): Promise<Record<string, string>> {
   return headers;
 }
 
-const isAuthErrorMessage = (message: string): boolean =>
-  AUTH_ERROR_SNIPPETS.some((snippet) => message.includes(snippet));
-
-const isTransientNetworkError = (message: string): boolean =>
-  TRANSIENT_ERROR_SNIPPETS.some((snippet) => message.includes(snippet));
-
-type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
-
-interface BackendRequestOptions {
-  method: HttpMethod;
-  path: string;
-  body?: unknown;
-  timeoutMs?: number;
+async function refreshSessionOrThrow(cause: Error): Promise<void> {
+  const { error } = await supabase.auth.refreshSession();
+  if (error) {
+    throw cause instanceof AuthError
+      ? cause
+      : new AuthError(error.message || "Session refresh failed");
+  }
 }
 
-async function requestWithSessionRecovery<T>({
-  method,
-  path,
-  body,
-  timeoutMs,
-}: BackendRequestOptions): Promise<T> {
-  const timeout = timeoutMs ?? DEFAULT_TIMEOUT_MS;
-  let lastError: Error | null = null;
-
-  for (const baseUrl of getBackendBaseOrder()) {
-    let refreshedSession = false;
-    let networkAttempt = 0;
-
-    while (networkAttempt < 2) {
-      const headers = await getAuthHeaders();
-      const init: RequestInit = {
-        method,
-        headers,
-      };
-
-      if (body !== undefined && method !== "GET") {
-        init.body = JSON.stringify(body);
-      }
-
-      try {
-        const res = await fetchWithTimeout(`${baseUrl}${path}`, init, timeout);
+async function buildRequest(
+  method: HttpMethod,
+  path: string,
+  body: unknown,
+  timeoutMs: number,
+  options: BackendCallOptions,
+): Promise<BackendRequest> {
+  let request: BackendRequest = {
+    method,
+    path,
+    body,
+    headers: { ...(await getAuthHeaders()), ...(options.headers ?? {}) },
+    timeoutMs: options.timeoutMs ?? timeoutMs,
+    idempotencyKey: options.idempotencyKey,
+  };
+  if (request.idempotencyKey) {
+    request.headers["Idempotency-Key"] = request.idempotencyKey;
+  }
+  for (const interceptor of requestInterceptors) {
+    request = (await interceptor(request)) ?? request;
+  }
+  return request;
+}
 
-        if (res.status === 401 && !refreshedSession) {
-          const { error: refreshError } = await supabase.auth.refreshSession();
-          if (refreshError) {
-            throw new Error(refreshError.message || "Session refresh failed");
-          }
-          refreshedSession = true;
-          continue;
-        }
+/**
+ * Send a request through the interceptor chain, failing over between mirrors.
+ *
+ * Mirrors are tried in health order (sticky active endpoint first, open
+ * circuits last) while a request demonstrably never reached a backend.
+ * Delivered transient failures (timeouts, 5xx) are retried on the next
+ * mirror only within the retry policy. A 401 triggers one session
+ * refresh. Everything else is thrown as a typed `ApiError`.
+ */
+async function requestWithSessionRecovery<T>(
+  method: HttpMethod,
+  path: string,
+  body: unknown,
+  defaultTimeoutMs: number,
+  options: BackendCallOptions = {},
+): Promise<T> {
+  const policy = resolveRetryPolicy(method, options);
+  const bases = backendHealth.getOrder();
+  let baseIndex = 0;
+  let retriesUsed = 0;
+  let refreshedSession = false;
+  let lastError: ApiError | null = null;
+
+  while (baseIndex < bases.length) {
+    const baseUrl = bases[baseIndex];
+    const request = await buildRequest(
+      method,
+      path,
+      body,
+      defaultTimeoutMs,
+      options,
+    );
+    const init: RequestInit = { method, headers: request.headers };
+    if (request.body !== undefined && method !== "GET") {
+      init.body = JSON.stringify(request.body);
+    }
 
-        activeBackendBase = baseUrl;
-        return await parseJsonResponse<T>(res);
-      } catch (error: any) {
-        const err =
-          error instanceof Error
-            ? error
-            : new Error(String(error?.message || error));
-        lastError = err;
-        const message = String(err.message || "").toLowerCase();
-
-        if (!refreshedSession && isAuthErrorMessage(message)) {
-          const { error: refreshError } = await supabase.auth.refreshSession();
-          if (refreshError) {
-            break;
-          }
-          refreshedSession = true;
-          continue;
-        }
+    const startedAt = Date.now();
+    try {
+      const res = await fetchWithTimeout(
+        `${baseUrl}${request.path}`,
+        init,
+        request.timeoutMs,
+        options.signal,
+      );
+      if (res.status < 500) {
+        backendHealth.recordSuccess(baseUrl, Date.now() - startedAt);
+      }
+      let data: unknown = await parseJsonResponse<T>(res);
+      enforceResponseContract(method, request.path, res.status, data);
+      for (const interceptor of responseInterceptors) {
+        const next = await interceptor(data, {
+          request,
+          baseUrl,
+          status: res.status,
+        });
+        if (next !== undefined) data = next;
+      }
+      return data as T;
+    } catch (error: any) {
+      const err: ApiError =
+        error instanceof ApiError
+          ? error
+          : new ApiError(String(error?.message || error));
+      lastError = err;
+
+      if (err instanceof CancelledError) throw err;
+
+      if (err instanceof AuthError && !refreshedSession) {
+        await refreshSessionOrThrow(err);
+        refreshedSession = true;
+        continue;
+      }
 
-        if (isTransientNetworkError(message) && networkAttempt === 0) {
-          networkAttempt += 1;
-          continue;
-        }
+      if (!(err instanceof TransientError)) throw err;
+      backendHealth.recordFailure(baseUrl, err);
 
-        break;
+      if (!err.delivered) {
+        baseIndex += 1;
+        continue;
       }
+
+      if (retriesUsed >= policy.retries) throw err;
+      await sleep(policy.baseDelayMs * 2 ** retriesUsed, options.signal);
+      retriesUsed += 1;
+      // Retry on the next mirror when there is one.
+      if (baseIndex < bases.length - 1) baseIndex += 1;
     }
   }
 
-  throw lastError ?? new Error("Backend request failed");
+  throw lastError ?? new ApiError("Backend request failed");
 }
 
-export async function backendGet<T>(path: string): Promise<T> {
-  return requestWithSessionRecovery<T>({
-    method: "GET",
+export async function backendGet<T>(
+  path: string,
+  options?: BackendCallOptions,
+): Promise<T> {
+  return requestWithSessionRecovery<T>(
+    "GET",
     path,
-    timeoutMs: GET_TIMEOUT_MS,
-  });
+    undefined,
+    GET_TIMEOUT_MS,
+    options,
+  );
 }
 
-export async function backendPost<T>(path: string, body: unknown): Promise<T> {
-  return requestWithSessionRecovery<T>({
-    method: "POST",
-    path,
-    body,
-    timeoutMs: 10000,
-  });
+export async function backendPost<T>(
+  path: string,
+  body: unknown,
+  options?: BackendCallOptions,
+): Promise<T> {
+  return requestWithSessionRecovery<T>("POST", path, body, 10000, options);
 }
 
-export async function backendPut<T>(path: string, body: unknown): Promise<T> {
-  return requestWithSessionRecovery<T>({
-    method: "PUT",
-    path,
-    body,
-    timeoutMs: 10000,
-  });
+export async function backendPut<T>(
+  path: string,
+  body: unknown,
+  options?: BackendCallOptions,
+): Promise<T> {
+  return requestWithSessionRecovery<T>("PUT", path, body, 10000, options);
+}
+
+export async function backendPatch<T>(
+  path: string,
+  body: unknown,
+  options?: BackendCallOptions,
+): Promise<T> {
+  return requestWithSessionRecovery<T>("PATCH", path, body, 10000, options);
 }
 
-export async function backendPatch<T>(path: string, body: unknown): Promise<T> {
-  return requestWithSessionRecovery<T>({
-    method: "PATCH",
+export interface BackendStreamOptions
+  extends Pick<BackendCallOptions, "timeoutMs" | "signal" | "headers"> {
+  /** Called for every server-sent event as it arrives. */
+  onEvent: (event: ServerSentEvent) => void;
+}
+
+const STREAM_TIMEOUT_MS = 60000;
+
+/**
+ * POST and read the response as server-sent events. Uses XMLHttpRequest
+ * because React Native's fetch does not expose the body as a stream.
+ *
+ * Only the healthiest mirror is tried and nothing is retried; callers are
+ * expected to fall back to the matching JSON endpoint when this throws.
+ */
+export async function backendStream(
+  path: string,
+  body: unknown,
+  options: BackendStreamOptions,
+): Promise<void> {
+  const { signal, onEvent } = options;
+  if (signal?.aborted) throw new CancelledError();
+
+  const baseUrl = backendHealth.getOrder()[0];
+  const request = await buildRequest(
+    "POST",
     path,
     body,
-    timeoutMs: 10000,
+    STREAM_TIMEOUT_MS,
+    options,
+  );
+  request.headers.Accept = "text/event-stream";
+  const parser = createSseParser(onEvent);
+  const startedAt = Date.now();
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let consumed = 0;
+    let settled = false;
+
+    const consume = () => {
+      const text = xhr.responseText ?? "";
+      if (text.length > consumed) {
+        parser.push(text.slice(consumed));
+        consumed = text.length;
+      }
+    };
+    const onAbort = () => xhr.abort();
+    const timeoutId = setTimeout(() => xhr.abort(), request.timeoutMs);
+    const finish = (error?: ApiError) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+      if (error) reject(error);
+      else resolve();
+    };
+
+    xhr.open("POST", `${baseUrl}${request.path}`);
+    Object.entries(request.headers).forEach(([key, value]) =>
+      xhr.setRequestHeader(key, value),
+    );
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState === 3 && xhr.status >= 200 && xhr.status < 300) {
+        consume();
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        consume();
+        parser.flush();
+        backendHealth.recordSuccess(baseUrl, Date.now() - startedAt);
+        finish();
+        return;
+      }
+      let errorBody: any = null;
+      try {
+        errorBody = JSON.parse(xhr.responseText);
+      } catch {
+        // Not a JSON error body
+      }
+      const message = toErrorMessage(xhr.status, errorBody ?? {});
+      if (xhr.status >= 500) backendHealth.recordFailure(baseUrl, message);
+      finish(errorFromResponse(xhr.status, message, errorBody?.detail));
+    };
+    xhr.onerror = () => {
+      const error = new TransientError("Network request failed", null, false);
+      backendHealth.recordFailure(baseUrl, error);
+      finish(error);
+    };
+    xhr.onabort = () =>
+      finish(
+        signal?.aborted
+          ? new CancelledError()
+          : new TransientError("Request timeout. Please try again.", null, true),
+      );
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    xhr.send(JSON.stringify(request.body));
   });
 }
 
-export async function backendDelete<T>(path: string): Promise<T> {
-  return requestWithSessionRecovery<T>({
-    method: "DELETE",
+export async function backendDelete<T>(
+  path: string,
+  options?: BackendCallOptions,
+): Promise<T> {
+  return requestWithSessionRecovery<T>(
+    "DELETE",
     path,
-    timeoutMs: 8000,
-  });
+    undefined,
+    8000,
+    options,
+  );
 }
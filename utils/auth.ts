@@ -1,5 +1,10 @@
 import { AuthChangeEvent, AuthError, Session } from "@supabase/supabase-js";
 import { Platform } from "react-native";
+import {
+  enforceResponseContract,
+  type PhoneLoginResponse,
+  type PublicHospitalOption,
+} from "./contracts";
 import { supabase } from "./supabase";
 
 const ENV_BACKEND_URL_RAW = process.env.EXPO_PUBLIC_BACKEND_URL?.trim() || "";
@@ -204,26 +209,7 @@ export interface AuthUser {
   approvalStatus?: "pending" | "approved" | "rejected";
 }
 
-export interface RegistrationHospitalOption {
-  id: string;
-  name: string;
-  address?: string | null;
-  phone?: string | null;
-  is_accepting_emergencies?: boolean;
-}
-
-type PhoneLoginResponse = {
-  access_token: string;
-  refresh_token: string;
-  expires_in: number;
-  token_type: string;
-  user_id: string;
-  role?: UserRole;
-  full_name?: string;
-  phone?: string;
-  hospital_id?: string;
-  approval_status?: "pending" | "approved" | "rejected";
-};
+export type RegistrationHospitalOption = PublicHospitalOption;
 
 const isUserRole = (value: unknown): value is UserRole =>
   value === "patient" ||
@@ -347,6 +333,7 @@ export const getRegistrationHospitalOptions = async (): Promise<{
       );
     }
     const data = (await res.json()) as RegistrationHospitalOption[];
+    enforceResponseContract("GET", "/auth/hospitals/available", res.status, data);
     return { hospitals: Array.isArray(data) ? data : [], error: null };
   } catch (error) {
     return { hospitals: [], error: error as Error };
@@ -505,6 +492,7 @@ export const signUp = async (
       };
     }
 
+    enforceResponseContract("POST", "/auth/register", res.status, resBody);
     const userId = resBody.user_id;
     console.log("User created via backend:", userId);
 
@@ -567,6 +555,7 @@ export const signIn = async (
         "Invalid login credentials";
       return { user: null, error: new Error(errMsg) as AuthError };
     }
+    enforceResponseContract("POST", "/auth/login-phone", res.status, tokenData);
 
     // Hydrate the Supabase client session with the tokens from backend
     const { data: sessionData, error: sessionError } =
@@ -0,0 +1,439 @@
+/**
+ * Chatbot conversation threads with a local cache.
+ *
+ * Threads live in AsyncStorage per user so history opens instantly (and
+ * offline). Messages are written locally first and pushed to
+ * `/chat/messages` by `syncChatThreads`, which also pulls messages stored
+ * from other devices. Deleting a thread while offline leaves a tombstone
+ * that is replayed on the next sync.
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import {
+  addChatbotMessage,
+  type ChatbotMessage,
+  deleteChatbotThread,
+  getChatbotMessages,
+} from "./chat";
+import { normalizeChatText } from "./first-aid-pack";
+import type { Lang } from "./i18n-first-aid";
+import { formatDateTime } from "./i18n-format";
+
+/* ─── Types ───────────────────────────────────────────────────── */
+
+export interface ChatThreadMessage {
+  localId: string;
+  /** Backend row id; null until the message has been pushed. */
+  serverId: string | null;
+  role: "user" | "bot";
+  text: string;
+  createdAt: string;
+  offline?: boolean;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  lang?: Lang;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatThreadMessage[];
+}
+
+interface ThreadStore {
+  threads: ChatThread[];
+  /** Threads deleted locally whose backend delete has not gone through. */
+  deletedThreadIds: string[];
+}
+
+/** Messages stored before threads existed are grouped under this id. */
+export const LEGACY_THREAD_ID = "legacy";
+
+const THREADS_KEY_PREFIX = "erdataye.chat.threads.v1.";
+const TITLE_MAX_LENGTH = 48;
+/** Upper bound of the backend's page size for `GET /chat/messages`. */
+const PULL_LIMIT = 1000;
+
+/* ─── Titles ──────────────────────────────────────────────────── */
+
+/** Title for a thread from its first message: one line, cut at a word. */
+export const generateThreadTitle = (firstMessage: string): string => {
+  const line = firstMessage.replace(/\s+/g, " ").trim();
+  if (!line) return "New conversation";
+  const capitalized = line.charAt(0).toUpperCase() + line.slice(1);
+  if (capitalized.length <= TITLE_MAX_LENGTH) {
+    return capitalized.replace(/[\s.,;:!?።]+$/, "") || capitalized;
+  }
+  const cut = capitalized.slice(0, TITLE_MAX_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  const head = lastSpace > TITLE_MAX_LENGTH / 2 ? cut.slice(0, lastSpace) : cut;
+  return `${head.replace(/[\s.,;:!?።]+$/, "")}…`;
+};
+
+const createLocalId = (prefix: string) =>
+  `${prefix}_${Date.now().toString(36)}_${Math.random()
+    .toString(36)
+    .slice(2, 10)}`;
+
+export const createThreadId = () => createLocalId("thread");
+
+/* ─── Storage ─────────────────────────────────────────────────── */
+
+const _stores = new Map<string, ThreadStore>();
+const _syncing = new Map<string, Promise<ChatSyncResult>>();
+
+const isThread = (item: any): item is ChatThread =>
+  item &&
+  typeof item.id === "string" &&
+  typeof item.title === "string" &&
+  Array.isArray(item.messages);
+
+async function hydrateThreads(userId: string): Promise<ThreadStore> {
+  const cached = _stores.get(userId);
+  if (cached) return cached;
+
+  const store: ThreadStore = { threads: [], deletedThreadIds: [] };
+  try {
+    const raw = await AsyncStorage.getItem(THREADS_KEY_PREFIX + userId);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed?.threads)) {
+        store.threads = parsed.threads.filter(isThread);
+      }
+      if (Array.isArray(parsed?.deletedThreadIds)) {
+        store.deletedThreadIds = parsed.deletedThreadIds.filter(
+          (id: unknown) => typeof id === "string",
+        );
+      }
+    }
+  } catch {
+    // Corrupt cache: start empty, the next sync restores from the backend
+  }
+  _stores.set(userId, store);
+  return store;
+}
+
+async function persistThreads(userId: string): Promise<void> {
+  const store = _stores.get(userId);
+  if (!store) return;
+  try {
+    await AsyncStorage.setItem(
+      THREADS_KEY_PREFIX + userId,
+      JSON.stringify(store),
+    );
+  } catch {
+    // best-effort persistence
+  }
+}
+
+const sortThreads = (threads: ChatThread[]) =>
+  [...threads].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+/** Cached threads for a user, most recently active first. */
+export async function listChatThreads(userId: string): Promise<ChatThread[]> {
+  const store = await hydrateThreads(userId);
+  return sortThreads(store.threads);
+}
+
+export async function getChatThread(
+  userId: string,
+  threadId: string,
+): Promise<ChatThread | null> {
+  const store = await hydrateThreads(userId);
+  return store.threads.find((thread) => thread.id === threadId) ?? null;
+}
+
+/**
+ * Add a message to a thread in the local cache, creating the thread (titled
+ * from this message) when it does not exist yet. Call `syncChatThreads`
+ * afterwards to push it.
+ */
+export async function appendThreadMessage(
+  userId: string,
+  threadId: string,
+  message: { role: "user" | "bot"; text: string; offline?: boolean },
+  lang?: Lang,
+): Promise<ChatThread> {
+  const store = await hydrateThreads(userId);
+  const now = new Date().toISOString();
+  let thread = store.threads.find((item) => item.id === threadId);
+  if (!thread) {
+    thread = {
+      id: threadId,
+      title: generateThreadTitle(message.text),
+      lang,
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+    };
+    store.threads.push(thread);
+  }
+
+  thread.messages.push({
+    localId: createLocalId("msg"),
+    serverId: null,
+    role: message.role,
+    text: message.text,
+    createdAt: now,
+    ...(message.offline ? { offline: true } : {}),
+  });
+  thread.updatedAt = now;
+  await persistThreads(userId);
+  return thread;
+}
+
+/**
+ * Delete a thread locally and on the backend. When the backend cannot be
+ * reached the delete is retried on the next sync.
+ */
+export async function deleteChatThread(
+  userId: string,
+  threadId: string,
+): Promise<{ synced: boolean }> {
+  const store = await hydrateThreads(userId);
+  const thread = store.threads.find((item) => item.id === threadId);
+  store.threads = store.threads.filter((item) => item.id !== threadId);
+
+  // Nothing reached the backend yet: there is nothing to delete there
+  if (thread && thread.messages.every((message) => !message.serverId)) {
+    await persistThreads(userId);
+    return { synced: true };
+  }
+
+  const { success } = await deleteChatbotThread(userId, threadId);
+  if (!success && !store.deletedThreadIds.includes(threadId)) {
+    store.deletedThreadIds.push(threadId);
+  }
+  await persistThreads(userId);
+  return { synced: success };
+}
+
+/** Drop the cached threads of one user, or of everyone. */
+export async function clearChatThreads(userId?: string): Promise<void> {
+  const userIds = userId ? [userId] : [..._stores.keys()];
+  for (const id of userIds) {
+    _stores.delete(id);
+    try {
+      await AsyncStorage.removeItem(THREADS_KEY_PREFIX + id);
+    } catch {
+      // ignore
+    }
+  }
+}
+
+/* ─── Sync ────────────────────────────────────────────────────── */
+
+export interface ChatSyncResult {
+  pushed: number;
+  pulled: number;
+  error: Error | null;
+}
+
+/**
+ * Fold backend rows into the cache. Rows already cached are skipped. When
+ * `complete` (the backend returned its whole history), pushed messages the
+ * backend no longer has are dropped — they were deleted on another device.
+ */
+const mergeRemoteMessages = (
+  store: ThreadStore,
+  rows: ChatbotMessage[],
+  complete: boolean,
+): number => {
+  const known = new Set(
+    store.threads.flatMap((thread) =>
+      thread.messages.map((message) => message.serverId),
+    ),
+  );
+  const deleted = new Set(store.deletedThreadIds);
+  let pulled = 0;
+
+  for (const row of rows) {
+    const threadId = row.thread_id || LEGACY_THREAD_ID;
+    if (known.has(row.id) || deleted.has(threadId)) continue;
+
+    let thread = store.threads.find((item) => item.id === threadId);
+    if (!thread) {
+      thread = {
+        id: threadId,
+        title: generateThreadTitle(row.message),
+        createdAt: row.created_at,
+        updatedAt: row.created_at,
+        messages: [],
+      };
+      store.threads.push(thread);
+    }
+    thread.messages.push({
+      localId: createLocalId("msg"),
+      serverId: row.id,
+      role: row.role,
+      text: row.message,
+      createdAt: row.created_at,
+    });
+    pulled++;
+  }
+
+  if (complete) {
+    const remote = new Set(rows.map((row) => row.id));
+    for (const thread of store.threads) {
+      thread.messages = thread.messages.filter(
+        (message) => !message.serverId || remote.has(message.serverId),
+      );
+    }
+  }
+
+  store.threads = store.threads.filter((thread) => thread.messages.length > 0);
+  for (const thread of store.threads) {
+    thread.messages.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const last = thread.messages[thread.messages.length - 1];
+    if (last.createdAt > thread.updatedAt) thread.updatedAt = last.createdAt;
+  }
+  return pulled;
+};
+
+async function runSync(userId: string): Promise<ChatSyncResult> {
+  const store = await hydrateThreads(userId);
+  const result: ChatSyncResult = { pushed: 0, pulled: 0, error: null };
+
+  for (const threadId of [...store.deletedThreadIds]) {
+    const { success, error } = await deleteChatbotThread(userId, threadId);
+    if (!success) return { ...result, error };
+    store.deletedThreadIds = store.deletedThreadIds.filter(
+      (id) => id !== threadId,
+    );
+    await persistThreads(userId);
+  }
+
+  const pending = store.threads
+    .flatMap((thread) =>
+      thread.messages
+        .filter((message) => !message.serverId)
+        .map((message) => ({ thread, message })),
+    )
+    .sort((a, b) => a.message.createdAt.localeCompare(b.message.createdAt));
+
+  for (const { thread, message } of pending) {
+    const { message: row, error } = await addChatbotMessage(
+      userId,
+      message.role,
+      message.text,
+      thread.id,
+    );
+    if (!row) {
+      await persistThreads(userId);
+      return { ...result, error };
+    }
+    message.serverId = row.id;
+    result.pushed++;
+  }
+  if (result.pushed) await persistThreads(userId);
+
+  // The backend pages oldest first, so read up to the newest page.
+  const rows: ChatbotMessage[] = [];
+  for (;;) {
+    const { messages: page, error } = await getChatbotMessages(userId, {
+      limit: PULL_LIMIT,
+      offset: rows.length,
+    });
+    if (!page) {
+      result.pulled = mergeRemoteMessages(store, rows, false);
+      await persistThreads(userId);
+      return { ...result, error };
+    }
+    rows.push(...page);
+    if (page.length < PULL_LIMIT) break;
+  }
+
+  result.pulled = mergeRemoteMessages(store, rows, true);
+  await persistThreads(userId);
+  return result;
+}
+
+/**
+ * Replay pending deletes, push unsent messages and pull new ones. Stops at
+ * the first failure (usually no network) and leaves the rest for next time.
+ * Concurrent calls for the same user share one run.
+ */
+export function syncChatThreads(userId: string): Promise<ChatSyncResult> {
+  const running = _syncing.get(userId);
+  if (running) return running;
+  const run = runSync(userId).finally(() => _syncing.delete(userId));
+  _syncing.set(userId, run);
+  return run;
+}
+
+/* ─── Search & export ─────────────────────────────────────────── */
+
+export interface ChatSearchHit {
+  threadId: string;
+  title: string;
+  messageIndex: number;
+  role: "user" | "bot";
+  snippet: string;
+  createdAt: string;
+}
+
+const SNIPPET_RADIUS = 40;
+
+const buildSnippet = (text: string, term: string) => {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const at = flat.toLowerCase().indexOf(term.toLowerCase());
+  if (at < 0) return flat.slice(0, SNIPPET_RADIUS * 2);
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, at + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${
+    end < flat.length ? "…" : ""
+  }`;
+};
+
+/**
+ * Messages containing every word of `query`, newest first. Matching ignores
+ * case and punctuation and works for Ge'ez script as well as Latin.
+ */
+export const searchChatThreads = (
+  threads: ChatThread[],
+  query: string,
+): ChatSearchHit[] => {
+  const terms = normalizeChatText(query).split(" ").filter(Boolean);
+  if (!terms.length) return [];
+
+  const hits: ChatSearchHit[] = [];
+  for (const thread of threads) {
+    thread.messages.forEach((message, messageIndex) => {
+      const text = normalizeChatText(message.text);
+      if (!terms.every((term) => text.includes(term))) return;
+      hits.push({
+        threadId: thread.id,
+        title: thread.title,
+        messageIndex,
+        role: message.role,
+        snippet: buildSnippet(message.text, terms[0]),
+        createdAt: message.createdAt,
+      });
+    });
+  }
+  return hits.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/** Plain-text transcript of a thread for sharing. */
+export const exportChatThread = (
+  thread: ChatThread,
+  labels: { user: string; bot: string } = {
+    user: "You",
+    bot: "First Aid Assistant",
+  },
+): string => {
+  const lines = [
+    thread.title,
+    `Exported ${formatDateTime(new Date())}`,
+    "",
+    ...thread.messages.map(
+      (message) =>
+        `[${formatDateTime(message.createdAt)}] ${
+          message.role === "user" ? labels.user : labels.bot
+        }: ${message.text}`,
+    ),
+    "",
+    "First aid guidance only. In an emergency call 911.",
+  ];
+  return lines.join("\n");
+};
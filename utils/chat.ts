@@ -14,6 +14,8 @@ export interface ChatbotMessage {
   role: "user" | "bot";
   message: string;
   created_at: string;
+  /** Conversation thread; null for history stored before threads. */
+  thread_id?: string | null;
 }
 
 /**
@@ -23,25 +25,44 @@ export const addChatbotMessage = async (
   _userId: string,
   role: "user" | "bot",
   message: string,
-): Promise<{ success: boolean; error: Error | null }> => {
+  threadId?: string,
+): Promise<{
+  success: boolean;
+  message: ChatbotMessage | null;
+  error: Error | null;
+}> => {
   try {
-    await backendPost("/chat/messages", { role, message });
-    return { success: true, error: null };
+    const row = await backendPost<ChatbotMessage>("/chat/messages", {
+      role,
+      message,
+      ...(threadId ? { thread_id: threadId } : {}),
+    });
+    return { success: true, message: row ?? null, error: null };
   } catch (error) {
     console.error("addChatbotMessage error:", error);
-    return { success: false, error: error as Error };
+    return { success: false, message: null, error: error as Error };
   }
 };
 
 /**
- * Get chatbot history for the current user via backend.
+ * Get chatbot history for the current user via backend, oldest first,
+ * optionally only one thread. `limit` defaults to the backend's page size;
+ * `offset` skips that many of the oldest messages.
  */
 export const getChatbotMessages = async (
   _userId: string,
+  options: { threadId?: string; limit?: number; offset?: number } = {},
 ): Promise<{ messages: ChatbotMessage[] | null; error: Error | null }> => {
   try {
+    const query = [
+      options.threadId && `thread_id=${encodeURIComponent(options.threadId)}`,
+      options.limit && `limit=${options.limit}`,
+      options.offset && `offset=${options.offset}`,
+    ]
+      .filter(Boolean)
+      .join("&");
     const data = await backendGet<{ messages: ChatbotMessage[] }>(
-      "/chat/messages",
+      query ? `/chat/messages?${query}` : "/chat/messages",
     );
     return { messages: data.messages, error: null };
   } catch (error) {
@@ -64,3 +85,21 @@ export const deleteChatbotMessages = async (
     return { success: false, error: error as Error };
   }
 };
+
+/**
+ * Delete one conversation thread for the current user via backend.
+ */
+export const deleteChatbotThread = async (
+  _userId: string,
+  threadId: string,
+): Promise<{ success: boolean; error: Error | null }> => {
+  try {
+    await backendDelete(
+      `/chat/messages?thread_id=${encodeURIComponent(threadId)}`,
+    );
+    return { success: true, error: null };
+  } catch (error) {
+    console.error("deleteChatbotThread error:", error);
+    return { success: false, error: error as Error };
+  }
+};
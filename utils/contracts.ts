@@ -0,0 +1,1487 @@
+/**
+ * Shared API contracts for the Erdataye backend.
+ *
+ * Wire types for every `/ops`, `/auth`, `/profiles` and `/chat` response the
+ * app consumes, plus small runtime validators that mirror the backend's
+ * Pydantic models. The API client checks each response against the matching
+ * entry in `RESPONSE_CONTRACTS`; screens import the types from here instead
+ * of redeclaring them.
+ *
+ * Object validators only check the fields listed and let extra fields
+ * through, so additive backend changes never break older app builds.
+ */
+import { ContractError } from "./api-errors";
+import type { EmergencyStatus } from "./emergency-lifecycle";
+import { captureMessage } from "./sentry";
+
+// ── Validators ────────────────────────────────────────────────────────────
+
+export interface Schema<T> {
+  readonly label: string;
+  /** Push a message per problem onto `issues`; true when `value` is valid. */
+  check(value: unknown, path: string, issues: string[]): value is T;
+}
+
+type ShapeOf<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const describeValue = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const primitive = <T>(
+  label: string,
+  test: (value: unknown) => boolean,
+): Schema<T> => ({
+  label,
+  check(value, path, issues): value is T {
+    if (test(value)) return true;
+    issues.push(`${path}: expected ${label}, got ${describeValue(value)}`);
+    return false;
+  },
+});
+
+export const str = primitive<string>("string", (v) => typeof v === "string");
+export const num = primitive<number>(
+  "number",
+  (v) => typeof v === "number" && Number.isFinite(v),
+);
+export const bool = primitive<boolean>(
+  "boolean",
+  (v) => typeof v === "boolean",
+);
+export const anyValue = primitive<any>("any", () => true);
+export const dict = primitive<Record<string, any>>(
+  "object",
+  (v) => typeof v === "object" && v !== null && !Array.isArray(v),
+);
+
+export const oneOf = <T extends string>(...values: T[]): Schema<T> =>
+  primitive<T>(values.join(" | "), (v) => values.includes(v as T));
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  label: `${schema.label} | null`,
+  check(value, path, issues): value is T | null {
+    return value === null || schema.check(value, path, issues);
+  },
+});
+
+/** Accepts the value, null or a missing field. */
+export const nullish = <T>(
+  schema: Schema<T>,
+): Schema<T | null | undefined> => ({
+  label: `${schema.label}?`,
+  check(value, path, issues): value is T | null | undefined {
+    return value == null || schema.check(value, path, issues);
+  },
+});
+
+export const arrayOf = <T>(schema: Schema<T>): Schema<T[]> => ({
+  label: `${schema.label}[]`,
+  check(value, path, issues): value is T[] {
+    if (!Array.isArray(value)) {
+      issues.push(`${path}: expected array, got ${describeValue(value)}`);
+      return false;
+    }
+    const before = issues.length;
+    value.forEach((item, index) =>
+      schema.check(item, `${path}[${index}]`, issues),
+    );
+    return issues.length === before;
+  },
+});
+
+export const objectOf = <T>(label: string, shape: ShapeOf<T>): Schema<T> => ({
+  label,
+  check(value, path, issues): value is T {
+    if (!dict.check(value, path, issues)) return false;
+    const before = issues.length;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      shape[key].check((value as any)[key], `${path}.${key}`, issues);
+    }
+    return issues.length === before;
+  },
+});
+
+/** Validate a value; returns the list of problems (empty when valid). */
+export function validate<T>(schema: Schema<T>, value: unknown): string[] {
+  const issues: string[] = [];
+  schema.check(value, "$", issues);
+  return issues;
+}
+
+// ── Emergencies ───────────────────────────────────────────────────────────
+
+export type { EmergencyStatus };
+
+/** Raw `emergency_requests` row as returned by the backend. */
+export interface EmergencyRow {
+  id: string;
+  patient_id: string;
+  status: string;
+  emergency_type?: string | null;
+  description?: string | null;
+  assigned_ambulance_id?: string | null;
+  hospital_id?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export const EmergencyRowSchema = objectOf<EmergencyRow>("EmergencyRow", {
+  id: str,
+  patient_id: str,
+  status: str,
+  emergency_type: nullish(str),
+  description: nullish(str),
+  assigned_ambulance_id: nullish(str),
+  hospital_id: nullish(str),
+  latitude: nullish(num),
+  longitude: nullish(num),
+  created_at: nullish(str),
+  updated_at: nullish(str),
+});
+
+/** Normalized emergency used by patient screens (coordinates resolved). */
+export interface PatientEmergency {
+  id: string;
+  patient_id: string;
+  status: EmergencyStatus;
+  emergency_type: string;
+  description?: string;
+  assigned_ambulance_id?: string;
+  hospital_id?: string;
+  patient_location?: string;
+  latitude: number;
+  longitude: number;
+  created_at: string;
+  updated_at: string;
+  dispatch_reason?: string;
+  eta_minutes?: number;
+  route_to_patient_url?: string;
+  route_to_hospital_url?: string;
+}
+
+export interface EmergencyDispatchApiResponse {
+  emergency_id: string;
+  status: string;
+  hospital_id: string | null;
+  assigned_ambulance_id: string | null;
+  distance_to_ambulance_km: number | null;
+  distance_to_hospital_km: number | null;
+  eta_minutes: number | null;
+  route_to_patient_url: string | null;
+  route_to_hospital_url: string | null;
+  reason: string;
+}
+
+export const EmergencyDispatchApiResponseSchema =
+  objectOf<EmergencyDispatchApiResponse>("EmergencyDispatchApiResponse", {
+    emergency_id: str,
+    status: str,
+    hospital_id: nullable(str),
+    assigned_ambulance_id: nullable(str),
+    distance_to_ambulance_km: nullable(num),
+    distance_to_hospital_km: nullable(num),
+    eta_minutes: nullable(num),
+    route_to_patient_url: nullable(str),
+    route_to_hospital_url: nullable(str),
+    reason: str,
+  });
+
+export interface EmergencyHospitalStatus {
+  emergency_id: string;
+  hospital_id: string | null;
+  hospital_name: string | null;
+  is_accepting_emergencies: boolean | null;
+  active_emergencies: number;
+  max_concurrent_emergencies: number | null;
+  utilization: number | null;
+  distance_to_hospital_km: number | null;
+  eta_to_hospital_minutes: number | null;
+  hospital_latitude: number | null;
+  hospital_longitude: number | null;
+  source: string;
+}
+
+export const EmergencyHospitalStatusSchema = objectOf<EmergencyHospitalStatus>(
+  "EmergencyHospitalStatus",
+  {
+    emergency_id: str,
+    hospital_id: nullable(str),
+    hospital_name: nullable(str),
+    is_accepting_emergencies: nullable(bool),
+    active_emergencies: num,
+    max_concurrent_emergencies: nullable(num),
+    utilization: nullable(num),
+    distance_to_hospital_km: nullable(num),
+    eta_to_hospital_minutes: nullable(num),
+    hospital_latitude: nullable(num),
+    hospital_longitude: nullable(num),
+    source: str,
+  },
+);
+
+export interface ActiveEmergencyResponse {
+  emergency: EmergencyRow | null;
+}
+
+export const ActiveEmergencyResponseSchema = objectOf<ActiveEmergencyResponse>(
+  "ActiveEmergencyResponse",
+  { emergency: nullable(EmergencyRowSchema) },
+);
+
+export interface EmergencyDetailResponse {
+  emergency: EmergencyRow | null;
+  assignment?: Record<string, any> | null;
+  ambulance?: Record<string, any> | null;
+}
+
+export const EmergencyDetailResponseSchema = objectOf<EmergencyDetailResponse>(
+  "EmergencyDetailResponse",
+  {
+    emergency: nullable(EmergencyRowSchema),
+    assignment: nullish(dict),
+    ambulance: nullish(dict),
+  },
+);
+
+export interface ActiveEmergenciesResponse {
+  emergencies: EmergencyRow[];
+}
+
+export const ActiveEmergenciesResponseSchema =
+  objectOf<ActiveEmergenciesResponse>("ActiveEmergenciesResponse", {
+    emergencies: arrayOf(EmergencyRowSchema),
+  });
+
+export interface SuccessResponse {
+  success: boolean;
+  reason?: string | null;
+}
+
+export const SuccessResponseSchema = objectOf<SuccessResponse>(
+  "SuccessResponse",
+  { success: bool, reason: nullish(str) },
+);
+
+export interface FamilyShareResponse {
+  share_token: string;
+  emergency_id: string;
+  expires_at: string;
+}
+
+export const FamilyShareResponseSchema = objectOf<FamilyShareResponse>(
+  "FamilyShareResponse",
+  { share_token: str, emergency_id: str, expires_at: str },
+);
+
+export type TrustedContactAlertStatus = "sent" | "failed" | "not_on_app";
+
+export interface FamilyNotifyResponse {
+  emergency_id: string;
+  results: { contact_id: string; status: TrustedContactAlertStatus }[];
+}
+
+export const FamilyNotifyResponseSchema = objectOf<FamilyNotifyResponse>(
+  "FamilyNotifyResponse",
+  {
+    emergency_id: str,
+    results: arrayOf(
+      objectOf<FamilyNotifyResponse["results"][number]>("FamilyNotifyResult", {
+        contact_id: str,
+        status: oneOf("sent", "failed", "not_on_app"),
+      }),
+    ),
+  },
+);
+
+export interface TimelineEvent {
+  id: string;
+  emergency_id: string;
+  event_type: string;
+  created_at: string;
+  actor_role?: string | null;
+  actor_id?: string | null;
+  details?: Record<string, any> | null;
+}
+
+export const TimelineEventSchema = objectOf<TimelineEvent>("TimelineEvent", {
+  id: str,
+  emergency_id: str,
+  event_type: str,
+  created_at: str,
+  actor_role: nullish(str),
+  actor_id: nullish(str),
+  details: nullish(dict),
+});
+
+export interface TrackPointResponse {
+  ambulance_id: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  speed?: number | null;
+  recorded_at: string;
+}
+
+export const TrackPointResponseSchema = objectOf<TrackPointResponse>(
+  "TrackPoint",
+  {
+    ambulance_id: str,
+    latitude: num,
+    longitude: num,
+    accuracy: nullish(num),
+    speed: nullish(num),
+    recorded_at: str,
+  },
+);
+
+export interface TrackPointsRecordedResponse {
+  emergency_id: string;
+  recorded: number;
+}
+
+export interface DriverShiftRow {
+  id: string;
+  driver_id: string;
+  ambulance_id: string;
+  status: "on_duty" | "on_break" | "ended";
+  inspection?: Record<string, boolean> | null;
+  inspection_notes?: string | null;
+  started_at: string;
+  break_started_at?: string | null;
+  break_minutes?: number | null;
+  ended_at?: string | null;
+  handed_to?: string | null;
+  /** Along the ambulance's GPS track since check-in; null when unknown. */
+  km_driven?: number | null;
+}
+
+export const DriverShiftRowSchema = objectOf<DriverShiftRow>("DriverShift", {
+  id: str,
+  driver_id: str,
+  ambulance_id: str,
+  status: oneOf("on_duty", "on_break", "ended"),
+  inspection: nullish(dict),
+  inspection_notes: nullish(str),
+  started_at: str,
+  break_started_at: nullish(str),
+  break_minutes: nullish(num),
+  ended_at: nullish(str),
+  handed_to: nullish(str),
+  km_driven: nullish(num),
+});
+
+export interface DriverShiftResponse {
+  shift: DriverShiftRow | null;
+}
+
+export interface DriverShiftEndResponse {
+  shift: DriverShiftRow;
+  handed_to_name?: string | null;
+}
+
+export type EquipmentStatus = "ok" | "faulty" | "missing";
+
+export interface AmbulanceInventoryRow {
+  oxygen_percent?: number | null;
+  aed?: EquipmentStatus | null;
+  stretcher?: EquipmentStatus | null;
+  delivery_kit?: EquipmentStatus | null;
+  /** Medication key -> units on board. */
+  medications?: Record<string, number> | null;
+  updated_at?: string | null;
+}
+
+const equipmentStatus = nullish(
+  oneOf<EquipmentStatus>("ok", "faulty", "missing"),
+);
+
+export const AmbulanceInventoryRowSchema = objectOf<AmbulanceInventoryRow>(
+  "AmbulanceInventory",
+  {
+    oxygen_percent: nullish(num),
+    aed: equipmentStatus,
+    stretcher: equipmentStatus,
+    delivery_kit: equipmentStatus,
+    medications: nullish(dict),
+    updated_at: nullish(str),
+  },
+);
+
+export interface AmbulanceInventoryResponse {
+  inventory: AmbulanceInventoryRow;
+  /** Items below minimum or not working, e.g. ["oxygen", "aed"]. */
+  alerts: string[];
+}
+
+export interface OfflineSyncResult {
+  idempotency_key: string | null;
+  type: string;
+  status: "accepted" | "rejected";
+  reason: string | null;
+}
+
+export interface OfflineSyncResponse {
+  accepted: number;
+  rejected: number;
+  results?: OfflineSyncResult[];
+  server_received_at: string;
+}
+
+export const OfflineSyncResponseSchema = objectOf<OfflineSyncResponse>(
+  "OfflineSyncResponse",
+  {
+    accepted: num,
+    rejected: num,
+    results: nullish(
+      arrayOf(
+        objectOf<OfflineSyncResult>("OfflineSyncResult", {
+          idempotency_key: nullable(str),
+          type: str,
+          status: oneOf("accepted", "rejected"),
+          reason: nullable(str),
+        }),
+      ),
+    ) as Schema<OfflineSyncResult[] | undefined>,
+    server_received_at: str,
+  },
+);
+
+export interface MedicalNoteResponse {
+  id: string;
+  emergency_id: string;
+  author_id: string;
+  author_role: string;
+  author_name?: string | null;
+  note_type: string;
+  content: string;
+  vitals?: Record<string, any> | null;
+  created_at: string;
+}
+
+export const MedicalNoteResponseSchema = objectOf<MedicalNoteResponse>(
+  "MedicalNoteResponse",
+  {
+    id: str,
+    emergency_id: str,
+    author_id: str,
+    author_role: str,
+    author_name: nullish(str),
+    note_type: str,
+    content: str,
+    vitals: nullish(dict),
+    created_at: str,
+  },
+);
+
+// ── Dispatch & decision support ───────────────────────────────────────────
+
+export interface TrafficAwareDispatchResponse {
+  ambulance_id: string | null;
+  hospital_id: string | null;
+  distance_km: number | null;
+  eta_minutes: number | null;
+  traffic_multiplier: number;
+  confidence: number;
+  reason: string;
+}
+
+export const TrafficAwareDispatchResponseSchema =
+  objectOf<TrafficAwareDispatchResponse>("TrafficAwareDispatchResponse", {
+    ambulance_id: nullable(str),
+    hospital_id: nullable(str),
+    distance_km: nullable(num),
+    eta_minutes: nullable(num),
+    traffic_multiplier: num,
+    confidence: num,
+    reason: str,
+  });
+
+export interface ExplainableTriageResponse {
+  priority: string;
+  score: number;
+  recommendation: string;
+  explainability: any[];
+}
+
+export const ExplainableTriageResponseSchema =
+  objectOf<ExplainableTriageResponse>("ExplainableTriageResponse", {
+    priority: str,
+    score: num,
+    recommendation: str,
+    explainability: arrayOf(anyValue),
+  });
+
+export interface HospitalCapacityBoardResponse {
+  generated_at: string;
+  hospitals: Record<string, any>[];
+}
+
+export const HospitalCapacityBoardResponseSchema =
+  objectOf<HospitalCapacityBoardResponse>("HospitalCapacityBoardResponse", {
+    generated_at: str,
+    hospitals: arrayOf(dict),
+  });
+
+export interface DriverSafetyResponse {
+  safety_score: number;
+  risk_level: string;
+  coaching_tip: string;
+}
+
+export const DriverSafetyResponseSchema = objectOf<DriverSafetyResponse>(
+  "DriverSafetyResponse",
+  { safety_score: num, risk_level: str, coaching_tip: str },
+);
+
+export interface GpsConfidenceResponse {
+  confidence_score: number;
+  flags: string[];
+  recommendation: string;
+}
+
+export const GpsConfidenceResponseSchema = objectOf<GpsConfidenceResponse>(
+  "GpsConfidenceResponse",
+  { confidence_score: num, flags: arrayOf(str), recommendation: str },
+);
+
+export interface OperationsInsightsResponse {
+  window_days: number;
+  generated_at: string;
+  emergencies_total: number;
+  status_breakdown: Record<string, number>;
+  type_breakdown: Record<string, number>;
+  daily_volume: Record<string, number>;
+  avg_completion_minutes: number | null;
+}
+
+export const OperationsInsightsResponseSchema =
+  objectOf<OperationsInsightsResponse>("OperationsInsightsResponse", {
+    window_days: num,
+    generated_at: str,
+    emergencies_total: num,
+    status_breakdown: dict,
+    type_breakdown: dict,
+    daily_volume: dict,
+    avg_completion_minutes: nullable(num),
+  });
+
+export interface ContextualFirstAidResponse {
+  symptom: string;
+  language: string;
+  steps: any[];
+  version: string;
+  note?: string | null;
+}
+
+export const ContextualFirstAidResponseSchema =
+  objectOf<ContextualFirstAidResponse>("ContextualFirstAidResponse", {
+    symptom: str,
+    language: str,
+    steps: arrayOf(anyValue),
+    version: str,
+    note: nullish(str),
+  });
+
+// ── Hospital & admin dashboards ───────────────────────────────────────────
+
+export interface HospitalEmergencyRow extends EmergencyRow {
+  patient_profile?: Record<string, any> | null;
+  patient_medical?: Record<string, any> | null;
+  national_id?: string | null;
+  ambulance_vehicle?: string | null;
+  ambulance_latitude?: number | null;
+  ambulance_longitude?: number | null;
+  ambulance_location_confidence?: number | null;
+  ambulance_location_flags?: string[] | null;
+  patient_location_confidence?: number | null;
+  patient_location_flags?: string[] | null;
+}
+
+export const HospitalEmergencyRowSchema = objectOf<HospitalEmergencyRow>(
+  "HospitalEmergency",
+  {
+    id: str,
+    patient_id: str,
+    status: str,
+    emergency_type: nullish(str),
+    description: nullish(str),
+    assigned_ambulance_id: nullish(str),
+    hospital_id: nullish(str),
+    latitude: nullish(num),
+    longitude: nullish(num),
+    created_at: nullish(str),
+    updated_at: nullish(str),
+    patient_profile: nullish(dict),
+    patient_medical: nullish(dict),
+    national_id: nullish(str),
+    ambulance_vehicle: nullish(str),
+    ambulance_latitude: nullish(num),
+    ambulance_longitude: nullish(num),
+    ambulance_location_confidence: nullish(num),
+    ambulance_location_flags: nullish(arrayOf(str)),
+    patient_location_confidence: nullish(num),
+    patient_location_flags: nullish(arrayOf(str)),
+  },
+);
+
+/** Set on a fleet ambulance (`shift`) while a driver has an open shift. */
+export interface FleetAmbulanceShift {
+  driver_id: string;
+  driver_name?: string | null;
+  driver_phone?: string | null;
+  status: "on_duty" | "on_break";
+  started_at: string;
+}
+
+export interface HospitalFleetResponse {
+  hospital_id: string;
+  total_ambulances: number;
+  available_ambulances: number;
+  busy_ambulances: number;
+  ambulances: any[];
+}
+
+export const HospitalFleetResponseSchema = objectOf<HospitalFleetResponse>(
+  "HospitalFleetResponse",
+  {
+    hospital_id: str,
+    total_ambulances: num,
+    available_ambulances: num,
+    busy_ambulances: num,
+    ambulances: arrayOf(dict),
+  },
+);
+
+export interface HospitalProfileResponse {
+  hospital_id: string;
+  name?: string | null;
+  address?: string | null;
+  phone?: string | null;
+  is_accepting_emergencies?: boolean | null;
+  max_concurrent_emergencies?: number | null;
+  dispatch_weight?: number | null;
+  trauma_capable?: boolean | null;
+  icu_beds_available?: number | null;
+  average_handover_minutes?: number | null;
+}
+
+export const HospitalProfileResponseSchema = objectOf<HospitalProfileResponse>(
+  "HospitalProfileResponse",
+  {
+    hospital_id: str,
+    name: nullish(str),
+    address: nullish(str),
+    phone: nullish(str),
+    is_accepting_emergencies: nullish(bool),
+    max_concurrent_emergencies: nullish(num),
+    dispatch_weight: nullish(num),
+    trauma_capable: nullish(bool),
+    icu_beds_available: nullish(num),
+    average_handover_minutes: nullish(num),
+  },
+);
+
+export interface HospitalBasicResponse {
+  id: string;
+  name?: string | null;
+  address?: string | null;
+  phone?: string | null;
+  is_accepting_emergencies?: boolean | null;
+}
+
+export const HospitalBasicResponseSchema = objectOf<HospitalBasicResponse>(
+  "HospitalBasicResponse",
+  {
+    id: str,
+    name: nullish(str),
+    address: nullish(str),
+    phone: nullish(str),
+    is_accepting_emergencies: nullish(bool),
+  },
+);
+
+export interface AmbulanceApprovalRequest {
+  user_id: string;
+  hospital_id: string;
+  full_name?: string | null;
+  phone?: string | null;
+  national_id?: string | null;
+  vehicle_number?: string | null;
+  registration_number?: string | null;
+  ambulance_type?: string | null;
+  status: "pending" | "approved" | "rejected";
+  requested_at?: string | null;
+  updated_at?: string | null;
+  reviewed_at?: string | null;
+  reviewed_by?: string | null;
+  review_note?: string | null;
+}
+
+export const AmbulanceApprovalRequestSchema =
+  objectOf<AmbulanceApprovalRequest>("AmbulanceApprovalRequest", {
+    user_id: str,
+    hospital_id: str,
+    full_name: nullish(str),
+    phone: nullish(str),
+    national_id: nullish(str),
+    vehicle_number: nullish(str),
+    registration_number: nullish(str),
+    ambulance_type: nullish(str),
+    status: oneOf("pending", "approved", "rejected"),
+    requested_at: nullish(str),
+    updated_at: nullish(str),
+    reviewed_at: nullish(str),
+    reviewed_by: nullish(str),
+    review_note: nullish(str),
+  });
+
+/** Rows are passed through as stored; screens normalize them. */
+export interface AdminDashboardResponse {
+  users: Record<string, any>[];
+  emergencies: Record<string, any>[];
+  ambulances: Record<string, any>[];
+  hospitals: Record<string, any>[];
+}
+
+export const AdminDashboardResponseSchema = objectOf<AdminDashboardResponse>(
+  "AdminDashboardResponse",
+  {
+    users: arrayOf(dict),
+    emergencies: arrayOf(dict),
+    ambulances: arrayOf(dict),
+    hospitals: arrayOf(dict),
+  },
+);
+
+export interface AdminHospitalDetailsResponse {
+  hospital: any;
+  linked_ambulances: any[];
+  linked_driver_profiles: any[];
+  total_emergencies: number;
+  active_emergencies: number;
+  completed_emergencies: number;
+  cancelled_emergencies: number;
+}
+
+export const AdminHospitalDetailsResponseSchema =
+  objectOf<AdminHospitalDetailsResponse>("AdminHospitalDetailsResponse", {
+    hospital: dict,
+    linked_ambulances: arrayOf(dict),
+    linked_driver_profiles: arrayOf(dict),
+    total_emergencies: num,
+    active_emergencies: num,
+    completed_emergencies: num,
+    cancelled_emergencies: num,
+  });
+
+export interface ProviderConfig {
+  provider: string;
+  base_url: string;
+  model: string;
+  api_key_set: boolean;
+  api_key_preview: string;
+}
+
+export interface AdminSettingsResponse {
+  deepseek_api_key_set: boolean;
+  deepseek_api_key_preview: string;
+  active_provider: string;
+  available_providers: string[];
+  provider_configs: ProviderConfig[];
+  total_chat_requests: number;
+  unique_chat_users: number;
+  today_chat_requests: number;
+}
+
+export const AdminSettingsResponseSchema = objectOf<AdminSettingsResponse>(
+  "AdminSettingsResponse",
+  {
+    deepseek_api_key_set: bool,
+    deepseek_api_key_preview: str,
+    active_provider: str,
+    available_providers: arrayOf(str),
+    provider_configs: arrayOf(
+      objectOf<ProviderConfig>("ProviderConfig", {
+        provider: str,
+        base_url: str,
+        model: str,
+        api_key_set: bool,
+        api_key_preview: str,
+      }),
+    ),
+    total_chat_requests: num,
+    unique_chat_users: num,
+    today_chat_requests: num,
+  },
+);
+
+export interface ProviderUpsertResponse {
+  success: boolean;
+  provider: string;
+  active_provider: string;
+  message?: string | null;
+}
+
+export const ProviderUpsertResponseSchema = objectOf<ProviderUpsertResponse>(
+  "ProviderUpsertResponse",
+  { success: bool, provider: str, active_provider: str, message: nullish(str) },
+);
+
+// ── Driver ────────────────────────────────────────────────────────────────
+
+export interface DriverAmbulanceResponse {
+  ambulance: Record<string, any> | null;
+}
+
+export interface DriverAmbulanceUpsertResponse {
+  ambulance_id: string | null;
+}
+
+export interface DriverAssignmentResponse {
+  assignment: Record<string, any> | null;
+}
+
+export interface DriverStatsResponse {
+  active: number;
+  completed: number;
+}
+
+export interface DriverHistoryResponse {
+  history: Record<string, any>[];
+}
+
+export interface HospitalLinkResponse {
+  success: boolean;
+  hospital_id?: string | null;
+  distance_km?: number | null;
+}
+
+export interface LiveAmbulancesResponse {
+  ambulances: Record<string, any>[];
+}
+
+export interface PatientContextMedicalProfile {
+  blood_type?: string | null;
+  allergies?: string | null;
+  medical_conditions?: string | null;
+  emergency_contact_name?: string | null;
+  emergency_contact_phone?: string | null;
+  updated_at?: string | null;
+}
+
+export interface PatientContextResponse {
+  id: string;
+  full_name?: string | null;
+  phone?: string | null;
+  medical_profiles: PatientContextMedicalProfile[];
+}
+
+export const PatientContextResponseSchema = objectOf<PatientContextResponse>(
+  "PatientContextResponse",
+  {
+    id: str,
+    full_name: nullish(str),
+    phone: nullish(str),
+    medical_profiles: arrayOf(
+      objectOf<PatientContextMedicalProfile>("PatientMedicalProfile", {
+        blood_type: nullish(str),
+        allergies: nullish(str),
+        medical_conditions: nullish(str),
+        emergency_contact_name: nullish(str),
+        emergency_contact_phone: nullish(str),
+        updated_at: nullish(str),
+      }),
+    ),
+  },
+);
+
+// ── Profiles, chat & auth ─────────────────────────────────────────────────
+
+export interface ProfileResponse {
+  id: string;
+  full_name?: string | null;
+  phone?: string | null;
+  role: string;
+  hospital_id?: string | null;
+  national_id?: string | null;
+  vehicle_number?: string | null;
+  registration_number?: string | null;
+  ambulance_type?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export const ProfileResponseSchema = objectOf<ProfileResponse>(
+  "ProfileResponse",
+  {
+    id: str,
+    full_name: nullish(str),
+    phone: nullish(str),
+    role: str,
+    hospital_id: nullish(str),
+    national_id: nullish(str),
+    vehicle_number: nullish(str),
+    registration_number: nullish(str),
+    ambulance_type: nullish(str),
+    created_at: nullish(str),
+    updated_at: nullish(str),
+  },
+);
+
+export interface MedicalProfileResponse {
+  id?: string | null;
+  user_id: string;
+  blood_type?: string | null;
+  allergies?: string | null;
+  medical_conditions?: string | null;
+  emergency_contact_name?: string | null;
+  emergency_contact_phone?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export const MedicalProfileResponseSchema = objectOf<MedicalProfileResponse>(
+  "MedicalProfileResponse",
+  {
+    id: nullish(str),
+    user_id: str,
+    blood_type: nullish(str),
+    allergies: nullish(str),
+    medical_conditions: nullish(str),
+    emergency_contact_name: nullish(str),
+    emergency_contact_phone: nullish(str),
+    created_at: nullish(str),
+    updated_at: nullish(str),
+  },
+);
+
+export interface TrustedContactResponse {
+  id?: string | null;
+  name: string;
+  phone: string;
+  relationship: string;
+  channel: "sms" | "push";
+}
+
+export const TrustedContactResponseSchema = objectOf<TrustedContactResponse>(
+  "TrustedContactResponse",
+  {
+    id: nullish(str),
+    name: str,
+    phone: str,
+    relationship: str,
+    channel: oneOf("sms", "push"),
+  },
+);
+
+export interface ChatReplyResponse {
+  reply: string;
+  follow_ups: string[];
+}
+
+export interface ChatMessageRow {
+  id: string;
+  user_id: string;
+  role: string;
+  message: string;
+  created_at: string;
+  thread_id?: string | null;
+}
+
+export const ChatMessageRowSchema = objectOf<ChatMessageRow>("ChatMessageRow", {
+  id: str,
+  user_id: str,
+  role: str,
+  message: str,
+  created_at: str,
+  thread_id: nullish(str),
+});
+
+export type ApprovalStatus = "pending" | "approved" | "rejected";
+
+export interface RegisterResponse {
+  user_id: string;
+  hospital_id?: string | null;
+  approval_status?: ApprovalStatus | null;
+  message: string;
+}
+
+export const RegisterResponseSchema = objectOf<RegisterResponse>(
+  "RegisterResponse",
+  {
+    user_id: str,
+    hospital_id: nullish(str),
+    approval_status: nullish(oneOf("pending", "approved", "rejected")),
+    message: str,
+  },
+);
+
+export interface PublicHospitalOption {
+  id: string;
+  name: string;
+  address?: string | null;
+  phone?: string | null;
+  is_accepting_emergencies?: boolean;
+}
+
+export const PublicHospitalOptionSchema = objectOf<PublicHospitalOption>(
+  "PublicHospitalOption",
+  {
+    id: str,
+    name: str,
+    address: nullish(str),
+    phone: nullish(str),
+    is_accepting_emergencies: nullish(bool) as Schema<boolean | undefined>,
+  },
+);
+
+export type AccountRole =
+  | "patient"
+  | "ambulance"
+  | "driver"
+  | "admin"
+  | "hospital";
+
+export interface PhoneLoginResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  token_type: string;
+  user_id: string;
+  role?: AccountRole;
+  full_name?: string;
+  phone?: string;
+  hospital_id?: string;
+  approval_status?: ApprovalStatus;
+}
+
+export const PhoneLoginResponseSchema = objectOf<PhoneLoginResponse>(
+  "PhoneTokenResponse",
+  {
+    access_token: str,
+    refresh_token: str,
+    expires_in: num,
+    token_type: str,
+    user_id: str,
+    role: nullish(
+      oneOf("patient", "ambulance", "driver", "admin", "hospital"),
+    ) as Schema<AccountRole | undefined>,
+    full_name: nullish(str) as Schema<string | undefined>,
+    phone: nullish(str) as Schema<string | undefined>,
+    hospital_id: nullish(str) as Schema<string | undefined>,
+    approval_status: nullish(
+      oneOf("pending", "approved", "rejected"),
+    ) as Schema<ApprovalStatus | undefined>,
+  },
+);
+
+export type FaydaPurpose = "login" | "register";
+
+export interface FaydaAuthorizeResponse {
+  authorization_url: string;
+  state: string;
+  expires_in: number;
+  redirect_uri: string;
+}
+
+export interface FaydaMatchedProfile {
+  exists: boolean;
+  user_id?: string | null;
+  role?: string | null;
+  full_name?: string | null;
+  phone?: string | null;
+}
+
+export interface FaydaExchangeResponse {
+  verified: boolean;
+  purpose: FaydaPurpose;
+  individual_id?: string | null;
+  full_name?: string | null;
+  given_name?: string | null;
+  family_name?: string | null;
+  phone_number?: string | null;
+  email?: string | null;
+  birthdate?: string | null;
+  gender?: string | null;
+  matched_profile: FaydaMatchedProfile;
+}
+
+export const FaydaExchangeResponseSchema = objectOf<FaydaExchangeResponse>(
+  "FaydaExchangeResponse",
+  {
+    verified: bool,
+    purpose: oneOf("login", "register"),
+    individual_id: nullish(str),
+    full_name: nullish(str),
+    given_name: nullish(str),
+    family_name: nullish(str),
+    phone_number: nullish(str),
+    email: nullish(str),
+    birthdate: nullish(str),
+    gender: nullish(str),
+    matched_profile: objectOf<FaydaMatchedProfile>("FaydaMatchedProfile", {
+      exists: bool,
+      user_id: nullish(str),
+      role: nullish(str),
+      full_name: nullish(str),
+      phone: nullish(str),
+    }),
+  },
+);
+
+// ── Route table ───────────────────────────────────────────────────────────
+
+type ContractMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface ResponseContract {
+  method: ContractMethod;
+  /** Matched against the request path without its query string. */
+  path: RegExp;
+  schema: Schema<unknown>;
+}
+
+const ID = "[^/]+";
+const route = (
+  method: ContractMethod,
+  path: string,
+  schema: Schema<any>,
+): ResponseContract => ({
+  method,
+  path: new RegExp(`^${path}/?$`),
+  schema,
+});
+
+export const RESPONSE_CONTRACTS: ResponseContract[] = [
+  // /ops — patient
+  route("POST", "/ops/patient/emergencies", EmergencyDispatchApiResponseSchema),
+  route(
+    "GET",
+    "/ops/patient/emergencies/active",
+    ActiveEmergencyResponseSchema,
+  ),
+  route(
+    "GET",
+    `/ops/patient/emergencies/${ID}/detail`,
+    EmergencyDetailResponseSchema,
+  ),
+  route(
+    "POST",
+    `/ops/patient/emergencies/${ID}/retry-dispatch`,
+    EmergencyDispatchApiResponseSchema,
+  ),
+  route(
+    "GET",
+    `/ops/patient/emergencies/${ID}/hospital-status`,
+    EmergencyHospitalStatusSchema,
+  ),
+  route(
+    "PATCH",
+    `/ops/patient/emergencies/${ID}/(status|patient-location)`,
+    SuccessResponseSchema,
+  ),
+  route(
+    "GET",
+    "/ops/patient/ambulances/live",
+    objectOf<LiveAmbulancesResponse>("LiveAmbulancesResponse", {
+      ambulances: arrayOf(dict),
+    }),
+  ),
+  route("POST", "/ops/family/share", FamilyShareResponseSchema),
+  route("GET", "/ops/family/share", FamilyShareResponseSchema),
+  route("POST", "/ops/family/notify", FamilyNotifyResponseSchema),
+
+  // /ops — shared emergency operations
+  route("GET", "/ops/emergencies/active", ActiveEmergenciesResponseSchema),
+  route("PUT", `/ops/emergencies/${ID}/status`, SuccessResponseSchema),
+  route("PUT", `/ops/emergencies/${ID}/patient-medical`, SuccessResponseSchema),
+  route(
+    "POST",
+    `/ops/emergencies/${ID}/medical-notes`,
+    MedicalNoteResponseSchema,
+  ),
+  route(
+    "GET",
+    `/ops/emergencies/${ID}/medical-notes`,
+    arrayOf(MedicalNoteResponseSchema),
+  ),
+  route(
+    "GET",
+    `/ops/emergencies/${ID}/track`,
+    arrayOf(TrackPointResponseSchema),
+  ),
+  route(
+    "POST",
+    `/ops/emergencies/${ID}/track`,
+    objectOf<TrackPointsRecordedResponse>("TrackPointsRecordedResponse", {
+      emergency_id: str,
+      recorded: num,
+    }),
+  ),
+  route("POST", "/ops/timeline/events", TimelineEventSchema),
+  route("GET", "/ops/timeline/events", arrayOf(TimelineEventSchema)),
+  route("POST", "/ops/offline/sync", OfflineSyncResponseSchema),
+  route(
+    "POST",
+    "/ops/dispatch/traffic-aware",
+    TrafficAwareDispatchResponseSchema,
+  ),
+  route("POST", "/ops/triage/explainable", ExplainableTriageResponseSchema),
+  route("GET", "/ops/capacity/hospitals", HospitalCapacityBoardResponseSchema),
+  route("POST", "/ops/trust/gps-confidence", GpsConfidenceResponseSchema),
+  route("GET", "/ops/insights/operations", OperationsInsightsResponseSchema),
+  route("GET", "/ops/first-aid/contextual", ContextualFirstAidResponseSchema),
+  route(
+    "POST",
+    "/ops/push-token",
+    objectOf<{ ok: boolean }>("PushTokenResponse", { ok: bool }),
+  ),
+
+  // /ops — driver
+  route(
+    "GET",
+    "/ops/driver/ambulance",
+    objectOf<DriverAmbulanceResponse>("DriverAmbulanceResponse", {
+      ambulance: nullable(dict),
+    }),
+  ),
+  route(
+    "POST",
+    "/ops/driver/ambulance",
+    objectOf<DriverAmbulanceUpsertResponse>("DriverAmbulanceUpsertResponse", {
+      ambulance_id: nullable(str),
+    }),
+  ),
+  route(
+    "PUT",
+    "/ops/driver/ambulance/(availability|location)",
+    SuccessResponseSchema,
+  ),
+  route("GET", "/ops/patient-context", PatientContextResponseSchema),
+  route(
+    "GET",
+    "/ops/driver/assignment",
+    objectOf<DriverAssignmentResponse>("DriverAssignmentResponse", {
+      assignment: nullable(dict),
+    }),
+  ),
+  route(
+    "POST",
+    `/ops/driver/assignment/${ID}/(accept|decline)`,
+    SuccessResponseSchema,
+  ),
+  route(
+    "GET",
+    "/ops/driver/shift",
+    objectOf<DriverShiftResponse>("DriverShiftResponse", {
+      shift: nullable(DriverShiftRowSchema),
+    }),
+  ),
+  route(
+    "POST",
+    "/ops/driver/shift/(check-in|break)",
+    objectOf<DriverShiftResponse>("DriverShiftResponse", {
+      shift: nullable(DriverShiftRowSchema),
+    }),
+  ),
+  route(
+    "POST",
+    "/ops/driver/shift/end",
+    objectOf<DriverShiftEndResponse>("DriverShiftEndResponse", {
+      shift: DriverShiftRowSchema,
+      handed_to_name: nullish(str),
+    }),
+  ),
+  route(
+    "PUT",
+    "/ops/driver/ambulance/inventory",
+    objectOf<AmbulanceInventoryResponse>("AmbulanceInventoryResponse", {
+      inventory: AmbulanceInventoryRowSchema,
+      alerts: arrayOf(str),
+    }),
+  ),
+  route(
+    "GET",
+    "/ops/driver/stats",
+    objectOf<DriverStatsResponse>("DriverStatsResponse", {
+      active: num,
+      completed: num,
+    }),
+  ),
+  route(
+    "GET",
+    "/ops/driver/history",
+    objectOf<DriverHistoryResponse>("DriverHistoryResponse", {
+      history: arrayOf(dict),
+    }),
+  ),
+  route(
+    "GET",
+    "/ops/driver/hospital-link",
+    objectOf<HospitalLinkResponse>("HospitalLinkResponse", {
+      success: bool,
+      hospital_id: nullish(str),
+      distance_km: nullish(num),
+    }),
+  ),
+  route("POST", "/ops/driver/safety", DriverSafetyResponseSchema),
+
+  // /ops — hospital & admin
+  route(
+    "GET",
+    "/ops/hospital/emergencies",
+    arrayOf(HospitalEmergencyRowSchema),
+  ),
+  route("GET", "/ops/hospital/fleet", HospitalFleetResponseSchema),
+  route("GET", "/ops/hospital/profile", HospitalProfileResponseSchema),
+  route("PUT", "/ops/hospital/profile", HospitalProfileResponseSchema),
+  route("GET", `/ops/hospitals/${ID}/basic`, HospitalBasicResponseSchema),
+  route(
+    "GET",
+    "/ops/hospital/ambulance-approvals",
+    arrayOf(AmbulanceApprovalRequestSchema),
+  ),
+  route(
+    "POST",
+    `/ops/hospital/ambulance-approvals/${ID}/decision`,
+    AmbulanceApprovalRequestSchema,
+  ),
+  route("GET", "/ops/admin/dashboard", AdminDashboardResponseSchema),
+  route(
+    "GET",
+    `/ops/admin/hospitals/${ID}`,
+    AdminHospitalDetailsResponseSchema,
+  ),
+  route("GET", "/ops/admin/settings", AdminSettingsResponseSchema),
+  route("PUT", "/ops/admin/settings/api-key", SuccessResponseSchema),
+  route("POST", "/ops/admin/settings/providers", ProviderUpsertResponseSchema),
+
+  // /profiles
+  route("GET", "/profiles/me", ProfileResponseSchema),
+  route("PUT", "/profiles/me", SuccessResponseSchema),
+  route("GET", "/profiles/medical", nullable(MedicalProfileResponseSchema)),
+  route("PUT", "/profiles/medical", SuccessResponseSchema),
+  route(
+    "GET",
+    "/profiles/trusted-contacts",
+    arrayOf(TrustedContactResponseSchema),
+  ),
+  route("PUT", "/profiles/trusted-contacts", SuccessResponseSchema),
+
+  // /chat
+  route(
+    "POST",
+    "/chat",
+    objectOf<ChatReplyResponse>("ChatReplyResponse", {
+      reply: str,
+      follow_ups: arrayOf(str),
+    }),
+  ),
+  route("POST", "/chat/messages", ChatMessageRowSchema),
+  route(
+    "GET",
+    "/chat/messages",
+    objectOf<{ messages: ChatMessageRow[] }>("MessagesResponse", {
+      messages: arrayOf(ChatMessageRowSchema),
+    }),
+  ),
+  route(
+    "DELETE",
+    "/chat/messages",
+    objectOf<{ success: boolean }>("DeleteResponse", { success: bool }),
+  ),
+
+  // /auth
+  route(
+    "GET",
+    "/auth/fayda/authorize-url",
+    objectOf<FaydaAuthorizeResponse>("FaydaAuthorizeResponse", {
+      authorization_url: str,
+      state: str,
+      expires_in: num,
+      redirect_uri: str,
+    }),
+  ),
+  route("POST", "/auth/fayda/exchange", FaydaExchangeResponseSchema),
+  route(
+    "GET",
+    "/auth/hospitals/available",
+    arrayOf(PublicHospitalOptionSchema),
+  ),
+  route("POST", "/auth/(register|provision-hospital)", RegisterResponseSchema),
+  route("POST", "/auth/login-phone", PhoneLoginResponseSchema),
+  route(
+    "POST",
+    "/auth/update-phone",
+    objectOf<{ success: boolean; message: string }>("UpdatePhoneResponse", {
+      success: bool,
+      message: str,
+    }),
+  ),
+];
+
+/** Find the contract for a request, ignoring the query string. */
+export function findResponseContract(
+  method: string,
+  path: string,
+): ResponseContract | null {
+  const bare = path.split("?")[0];
+  return (
+    RESPONSE_CONTRACTS.find(
+      (contract) => contract.method === method && contract.path.test(bare),
+    ) ?? null
+  );
+}
+
+/**
+ * Check a response body against its contract. Returns the problems found,
+ * or an empty list when the body is valid or the route has no contract.
+ */
+export function checkResponseContract(
+  method: string,
+  path: string,
+  data: unknown,
+): string[] {
+  const contract = findResponseContract(method, path);
+  return contract ? validate(contract.schema, data) : [];
+}
+
+/** Most issues included in the Sentry message for one violation. */
+const MAX_REPORTED_ISSUES = 5;
+
+/** Development builds and tests fail loudly; release builds only report. */
+const throwsOnContractViolation = () =>
+  (typeof __DEV__ !== "undefined" && __DEV__) ||
+  process.env.NODE_ENV === "test";
+
+/**
+ * Report to Sentry when `data` does not match the contract for `method path`.
+ * Development builds and tests then throw a `ContractError`; release builds
+ * carry on with the body, since a stricter client than server would take
+ * working screens down over an extra or renamed field.
+ */
+export function enforceResponseContract(
+  method: string,
+  path: string,
+  status: number | null,
+  data: unknown,
+): void {
+  const issues = checkResponseContract(method, path, data);
+  if (issues.length === 0) return;
+
+  const route = `${method} ${path.split("?")[0]}`;
+  const summary = issues.slice(0, MAX_REPORTED_ISSUES).join("; ");
+  const more =
+    issues.length > MAX_REPORTED_ISSUES
+      ? ` (+${issues.length - MAX_REPORTED_ISSUES} more)`
+      : "";
+  captureMessage(`[contract] ${route}: ${summary}${more}`, "warning");
+  console.warn(`[contract] ${route} response mismatch:`, issues);
+  if (!throwsOnContractViolation()) return;
+  throw new ContractError(
+    `Unexpected response from server (${route})`,
+    status,
+    issues,
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * Data-source strategies for entities the app can read from either the
+ * Python backend or Supabase directly.
+ *
+ * Each entity has one strategy, configured here rather than at every call
+ * site:
+ *   - "backend-only"          — errors surface to the caller.
+ *   - "backend-then-supabase" — the backend is tried first and Supabase
+ *                                serves the request when it fails or has
+ *                                nothing for us.
+ *   - "supabase-only"         — the backend is skipped entirely.
+ *
+ * Every resolved read is logged with the path that served it.
+ */
+import { ApiError, CancelledError } from "./api-errors";
+
+export type DataSourceStrategy =
+  | "backend-only"
+  | "backend-then-supabase"
+  | "supabase-only";
+
+export type DataSourcePath = "backend" | "supabase";
+
+export type DataSourceEntity =
+  | "profile"
+  | "medical_profile"
+  | "trusted_contacts"
+  | "driver_ambulance"
+  | "driver_stats"
+  | "driver_history"
+  | "hospital_summary"
+  | "patient_context"
+  | "medical_notes"
+  | "emergency_track"
+  | "driver_shift"
+  | "ambulance_inventory";
+
+const DEFAULT_STRATEGIES: Record<DataSourceEntity, DataSourceStrategy> = {
+  profile: "backend-then-supabase",
+  medical_profile: "backend-then-supabase",
+  trusted_contacts: "backend-then-supabase",
+  driver_ambulance: "backend-then-supabase",
+  driver_stats: "backend-then-supabase",
+  driver_history: "backend-then-supabase",
+  hospital_summary: "backend-then-supabase",
+  patient_context: "backend-then-supabase",
+  medical_notes: "backend-then-supabase",
+  emergency_track: "backend-then-supabase",
+  driver_shift: "backend-then-supabase",
+  ambulance_inventory: "backend-then-supabase",
+};
+
+let strategies: Record<DataSourceEntity, DataSourceStrategy> = {
+  ...DEFAULT_STRATEGIES,
+};
+
+export const getDataSourceStrategy = (
+  entity: DataSourceEntity,
+): DataSourceStrategy => strategies[entity];
+
+/** Override strategies for some entities; the rest keep their current value. */
+export const configureDataSources = (
+  overrides: Partial<Record<DataSourceEntity, DataSourceStrategy>>,
+): void => {
+  strategies = { ...strategies, ...overrides };
+};
+
+export const resetDataSources = (): void => {
+  strategies = { ...DEFAULT_STRATEGIES };
+};
+
+export interface DataSourceLogEntry {
+  entity: DataSourceEntity;
+  operation: string;
+  source: DataSourcePath;
+  strategy: DataSourceStrategy;
+  /** Why the backend was passed over, when Supabase served a fallback. */
+  fallbackReason?: string;
+}
+
+export type DataSourceLogger = (entry: DataSourceLogEntry) => void;
+
+const defaultLogger: DataSourceLogger = (entry) => {
+  if (typeof __DEV__ === "undefined" || !__DEV__) return;
+  const reason = entry.fallbackReason ? ` (${entry.fallbackReason})` : "";
+  console.log(
+    `[data-source] ${entry.entity}.${entry.operation} served by ${entry.source}${reason}`,
+  );
+};
+
+let logger: DataSourceLogger = defaultLogger;
+
+/** Replace the logger (diagnostics, tests). Pass null to restore the default. */
+export const setDataSourceLogger = (next: DataSourceLogger | null): void => {
+  logger = next ?? defaultLogger;
+};
+
+/* ─── Error classification ────────────────────────────────────── */
+
+/** Postgres "undefined column" error mentioning `column` (legacy schemas). */
+export const isMissingColumnError = (error: any, column: string): boolean => {
+  const message = String(error?.message ?? "").toLowerCase();
+  return error?.code === "42703" && message.includes(column.toLowerCase());
+};
+
+/** The backend does not expose the route (older deployments). */
+export const isMissingEndpointError = (error: unknown): boolean => {
+  if (error instanceof ApiError && error.status !== null) {
+    return error.status === 404 || error.status === 405;
+  }
+  const message = String((error as any)?.message ?? error ?? "").toLowerCase();
+  return message.includes("404") || message.includes("not found");
+};
+
+const describeError = (error: unknown): string =>
+  String((error as any)?.message || error || "unknown error");
+
+/* ─── Resolution ──────────────────────────────────────────────── */
+
+export interface DataSourceRequest<T> {
+  entity: DataSourceEntity;
+  /** Short name for logs, e.g. "get" or "update". */
+  operation: string;
+  backend: () => Promise<T | null | undefined>;
+  supabase: () => Promise<T | null>;
+  /**
+   * Whether a backend result can be used as-is. When false, Supabase is
+   * asked instead. Defaults to "not null/undefined".
+   */
+  accept?: (value: T | null | undefined) => boolean;
+  /**
+   * Whether a backend error may fall back to Supabase. Defaults to every
+   * error except cancellation; errors that do not fall back are rethrown.
+   */
+  fallbackOn?: (error: unknown) => boolean;
+}
+
+export interface DataSourceResult<T> {
+  data: T | null;
+  source: DataSourcePath;
+}
+
+const defaultAccept = (value: unknown) => value !== null && value !== undefined;
+const defaultFallbackOn = (error: unknown) =>
+  !(error instanceof CancelledError);
+
+/**
+ * Serve a read or write for `entity` according to its configured strategy.
+ * Errors from the serving path are thrown; callers keep their own
+ * `{ ..., error }` result shape.
+ */
+export async function fromDataSource<T>(
+  request: DataSourceRequest<T>,
+): Promise<DataSourceResult<T>> {
+  const strategy = strategies[request.entity];
+  const served = (
+    data: T | null,
+    source: DataSourcePath,
+    fallbackReason?: string,
+  ): DataSourceResult<T> => {
+    logger({
+      entity: request.entity,
+      operation: request.operation,
+      source,
+      strategy,
+      fallbackReason,
+    });
+    return { data, source };
+  };
+
+  if (strategy === "supabase-only") {
+    return served(await request.supabase(), "supabase");
+  }
+
+  if (strategy === "backend-only") {
+    return served((await request.backend()) ?? null, "backend");
+  }
+
+  const accept = request.accept ?? defaultAccept;
+  const fallbackOn = request.fallbackOn ?? defaultFallbackOn;
+  let fallbackReason: string;
+  try {
+    const value = await request.backend();
+    if (accept(value)) return served(value ?? null, "backend");
+    fallbackReason = "backend returned no data";
+  } catch (error) {
+    if (!fallbackOn(error)) throw error;
+    fallbackReason = `backend failed: ${describeError(error)}`;
+  }
+
+  return served(await request.supabase(), "supabase", fallbackReason);
+}
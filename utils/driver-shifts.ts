@@ -0,0 +1,347 @@
+/**
+ * Driver shifts — who is crewing an ambulance, and whether they take calls.
+ *
+ * A driver checks in after inspecting the vehicle, which makes the
+ * ambulance available. A break takes it out of dispatch until the driver
+ * resumes, and ending the shift takes it offline, optionally handing it to
+ * the next crew member. The backend keeps the shift and the ambulance's
+ * availability in step; when it cannot be reached the shift row and
+ * availability are written through Supabase instead.
+ */
+import { backendGet, backendPost } from "./api";
+import { TransientError } from "./api-errors";
+import type {
+  DriverShiftEndResponse,
+  DriverShiftResponse,
+  DriverShiftRow,
+} from "./contracts";
+import { fromDataSource, isMissingEndpointError } from "./data-source";
+import { toggleAmbulanceAvailability } from "./driver";
+import { supabase } from "./supabase";
+
+/* ─── Types ───────────────────────────────────────────────────── */
+
+export type DriverShift = DriverShiftRow;
+
+export type ShiftStatus = "off_duty" | DriverShift["status"];
+
+export const INSPECTION_CHECKLIST = [
+  { key: "fuel", label: "Fuel at least half full" },
+  { key: "oxygen", label: "Oxygen cylinders full and secured" },
+  { key: "stretcher", label: "Stretcher and straps working" },
+  { key: "first_aid_kit", label: "First aid kit stocked" },
+  { key: "lights_siren", label: "Lights and siren working" },
+  { key: "tyres_brakes", label: "Tyres and brakes checked" },
+  { key: "radio_phone", label: "Radio and phone charged" },
+] as const;
+
+export type InspectionItem = (typeof INSPECTION_CHECKLIST)[number]["key"];
+
+export type VehicleInspection = Partial<Record<InspectionItem, boolean>>;
+
+export interface ShiftSummary {
+  /** Completed while the shift was open. */
+  emergenciesHandled: number;
+  /** Still assigned to the ambulance. */
+  activeEmergencies: number;
+  /** Null when no GPS track could be measured. */
+  kmDriven: number | null;
+  /** On duty, excluding breaks, to one decimal. */
+  hoursOnDuty: number;
+  breakMinutes: number;
+}
+
+/**
+ * Only fall back to Supabase when the backend is unreachable or predates
+ * shifts; a refused check-in or break must reach the driver as-is.
+ */
+const fallbackWhenUnreachable = (error: unknown) =>
+  error instanceof TransientError || isMissingEndpointError(error);
+
+/** Statuses that keep an ambulance on a call (`_ACTIVE_EMERGENCY_STATUSES`). */
+const ACTIVE_EMERGENCY_STATUSES = [
+  "assigned",
+  "en_route",
+  "at_scene",
+  "arrived",
+  "transporting",
+  "at_hospital",
+];
+
+/**
+ * The backend's active-emergency check for the Supabase fallbacks. When
+ * the check itself cannot run, the break or shift end is refused.
+ */
+const assertNoActiveEmergency = async (ambulanceId: string, action: string) => {
+  const { count, error } = await supabase
+    .from("emergency_requests")
+    .select("id", { count: "exact", head: true })
+    .eq("assigned_ambulance_id", ambulanceId)
+    .in("status", ACTIVE_EMERGENCY_STATUSES);
+  if (error) throw error;
+  if (count) throw new Error(`Finish the active emergency before ${action}.`);
+};
+
+export const getShiftStatus = (shift: DriverShift | null): ShiftStatus =>
+  shift && !shift.ended_at ? shift.status : "off_duty";
+
+/** Checklist items not ticked as passed. */
+export const failedInspectionItems = (
+  inspection: VehicleInspection,
+): InspectionItem[] =>
+  INSPECTION_CHECKLIST.map((item) => item.key).filter(
+    (key) => inspection[key] !== true,
+  );
+
+/* ─── Summary ─────────────────────────────────────────────────── */
+
+const minutesBetween = (from: string, to: number) =>
+  Math.max(0, Math.floor((to - new Date(from).getTime()) / 60000));
+
+/**
+ * End-of-shift figures from the driver's history (see `getDriverHistory`)
+ * and active count (see `getDriverStats`). An ongoing break counts up to
+ * `now`.
+ */
+export const summarizeShift = (
+  shift: DriverShift,
+  history: { status?: string | null; updated_at?: string | null }[],
+  activeEmergencies: number,
+  now: number = Date.now(),
+): ShiftSummary => {
+  const startedAt = new Date(shift.started_at).getTime();
+  const endedAt = shift.ended_at ? new Date(shift.ended_at).getTime() : now;
+
+  const emergenciesHandled = history.filter((item) => {
+    if (!item.updated_at) return false;
+    if (item.status && item.status !== "completed") return false;
+    const at = new Date(item.updated_at).getTime();
+    return at >= startedAt && at <= endedAt;
+  }).length;
+
+  const breakMinutes =
+    (shift.break_minutes ?? 0) +
+    (shift.status === "on_break" && shift.break_started_at
+      ? minutesBetween(shift.break_started_at, endedAt)
+      : 0);
+  const dutyMinutes = Math.max(0, (endedAt - startedAt) / 60000 - breakMinutes);
+
+  return {
+    emergenciesHandled,
+    activeEmergencies,
+    kmDriven: shift.km_driven ?? null,
+    hoursOnDuty: Math.round((dutyMinutes / 60) * 10) / 10,
+    breakMinutes,
+  };
+};
+
+/* ─── Shift lifecycle ─────────────────────────────────────────── */
+
+/** The driver's open shift, or null when off duty (strategy: "driver_shift"). */
+export const getCurrentShift = async (
+  driverId: string,
+): Promise<{ shift: DriverShift | null; error: Error | null }> => {
+  try {
+    const { data } = await fromDataSource<{ shift: DriverShift | null }>({
+      entity: "driver_shift",
+      operation: "get",
+      backend: () => backendGet<DriverShiftResponse>("/ops/driver/shift"),
+      supabase: async () => {
+        const { data, error } = await supabase
+          .from("driver_shifts")
+          .select("*")
+          .eq("driver_id", driverId)
+          .is("ended_at", null)
+          .maybeSingle();
+        if (error) throw error;
+        return { shift: (data as DriverShift | null) ?? null };
+      },
+    });
+    return { shift: data?.shift ?? null, error: null };
+  } catch (error) {
+    console.error("Error fetching driver shift:", error);
+    return { shift: null, error: error as Error };
+  }
+};
+
+/**
+ * Start a shift on `ambulanceId`. Every checklist item must pass, or the
+ * failures must be described in `notes`.
+ */
+export const checkInShift = async (
+  driverId: string,
+  ambulanceId: string,
+  inspection: VehicleInspection,
+  notes: string = "",
+): Promise<{ shift: DriverShift | null; error: Error | null }> => {
+  try {
+    const failed = failedInspectionItems(inspection);
+    if (failed.length > 0 && !notes.trim()) {
+      throw new Error("Describe the items that failed inspection.");
+    }
+    const completeInspection = Object.fromEntries(
+      INSPECTION_CHECKLIST.map((item) => [
+        item.key,
+        inspection[item.key] === true,
+      ]),
+    );
+
+    const { data } = await fromDataSource<{ shift: DriverShift | null }>({
+      entity: "driver_shift",
+      operation: "check_in",
+      backend: () =>
+        backendPost<DriverShiftResponse>("/ops/driver/shift/check-in", {
+          ambulance_id: ambulanceId,
+          inspection: completeInspection,
+          inspection_notes: notes.trim() || null,
+        }),
+      fallbackOn: fallbackWhenUnreachable,
+      supabase: async () => {
+        const { data, error } = await supabase
+          .from("driver_shifts")
+          .insert({
+            driver_id: driverId,
+            ambulance_id: ambulanceId,
+            status: "on_duty",
+            inspection: completeInspection,
+            inspection_notes: notes.trim() || null,
+            started_at: new Date().toISOString(),
+          })
+          .select("*")
+          .single();
+        if (error) throw error;
+        const { error: availabilityError } = await toggleAmbulanceAvailability(
+          ambulanceId,
+          true,
+        );
+        if (availabilityError) throw availabilityError;
+        return { shift: { ...(data as DriverShift), km_driven: 0 } };
+      },
+    });
+    return { shift: data?.shift ?? null, error: null };
+  } catch (error) {
+    return { shift: null, error: error as Error };
+  }
+};
+
+/**
+ * Start (`onBreak`) or end a break. The ambulance takes no assignments while
+ * its driver is on break.
+ */
+export const setShiftBreak = async (
+  shift: DriverShift,
+  onBreak: boolean,
+): Promise<{ shift: DriverShift | null; error: Error | null }> => {
+  try {
+    const { data } = await fromDataSource<{ shift: DriverShift | null }>({
+      entity: "driver_shift",
+      operation: onBreak ? "start_break" : "end_break",
+      backend: () =>
+        backendPost<DriverShiftResponse>("/ops/driver/shift/break", {
+          on_break: onBreak,
+        }),
+      fallbackOn: fallbackWhenUnreachable,
+      supabase: async () => {
+        if (onBreak) {
+          await assertNoActiveEmergency(shift.ambulance_id, "taking a break");
+        }
+        const now = new Date();
+        const changes = onBreak
+          ? { status: "on_break", break_started_at: now.toISOString() }
+          : {
+              status: "on_duty",
+              break_started_at: null,
+              break_minutes:
+                (shift.break_minutes ?? 0) +
+                (shift.break_started_at
+                  ? minutesBetween(shift.break_started_at, now.getTime())
+                  : 0),
+            };
+        const { data, error } = await supabase
+          .from("driver_shifts")
+          .update({ ...changes, updated_at: now.toISOString() })
+          .eq("id", shift.id)
+          .select("*")
+          .single();
+        if (error) throw error;
+        const { error: availabilityError } = await toggleAmbulanceAvailability(
+          shift.ambulance_id,
+          !onBreak,
+        );
+        if (availabilityError) throw availabilityError;
+        return {
+          shift: { ...(data as DriverShift), km_driven: shift.km_driven },
+        };
+      },
+    });
+    return { shift: data?.shift ?? null, error: null };
+  } catch (error) {
+    return { shift: null, error: error as Error };
+  }
+};
+
+/**
+ * End the shift and take the ambulance offline. With `handoffPhone` the
+ * ambulance is reassigned to the crew member registered with that phone;
+ * a handoff needs the backend, which can look up other accounts.
+ */
+export const endShift = async (
+  shift: DriverShift,
+  handoffPhone?: string | null,
+): Promise<{
+  shift: DriverShift | null;
+  handedToName: string | null;
+  error: Error | null;
+}> => {
+  const phone = handoffPhone?.trim() || null;
+  try {
+    const { data } = await fromDataSource<DriverShiftEndResponse>({
+      entity: "driver_shift",
+      operation: "end",
+      backend: () =>
+        backendPost<DriverShiftEndResponse>("/ops/driver/shift/end", {
+          handoff_phone: phone,
+        }),
+      fallbackOn: fallbackWhenUnreachable,
+      supabase: async () => {
+        if (phone) {
+          throw new Error(
+            "Handing over the ambulance needs a connection to the server. End the shift without a handoff or try again.",
+          );
+        }
+        await assertNoActiveEmergency(shift.ambulance_id, "ending the shift");
+        const now = new Date();
+        const { data, error } = await supabase
+          .from("driver_shifts")
+          .update({
+            status: "ended",
+            ended_at: now.toISOString(),
+            break_started_at: null,
+            break_minutes: summarizeShift(shift, [], 0, now.getTime())
+              .breakMinutes,
+            updated_at: now.toISOString(),
+          })
+          .eq("id", shift.id)
+          .select("*")
+          .single();
+        if (error) throw error;
+        const { error: availabilityError } = await toggleAmbulanceAvailability(
+          shift.ambulance_id,
+          false,
+        );
+        if (availabilityError) throw availabilityError;
+        return {
+          shift: { ...(data as DriverShift), km_driven: shift.km_driven },
+          handed_to_name: null,
+        };
+      },
+    });
+    return {
+      shift: data?.shift ?? null,
+      handedToName: data?.handed_to_name ?? null,
+      error: null,
+    };
+  } catch (error) {
+    return { shift: null, handedToName: null, error: error as Error };
+  }
+};
@@ -0,0 +1,418 @@
+/**
+ * Background location tracking for drivers.
+ *
+ * While an assignment is active the ambulance position keeps reaching
+ * dispatch through a background location task, even after the tracking
+ * screen unmounts or the app is backgrounded. Sampling adapts to the
+ * emergency status and the ambulance's speed, tracking pauses while the
+ * driver is unavailable, and points recorded offline are queued in the
+ * outbox so they replay in batches once the connection is back. Every point
+ * is kept on the emergency's GPS track for later review, and carries the
+ * confidence score from `location-integrity`.
+ *
+ * The task can run without any screen mounted, so everything it needs is
+ * persisted in AsyncStorage rather than held in React state.
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Location from "expo-location";
+import * as TaskManager from "expo-task-manager";
+import { Platform } from "react-native";
+
+import { recordTrackPoints, sendLocationUpdate } from "./driver";
+import {
+  isClosedEmergencyStatus,
+  onEmergencyTransition,
+  type EmergencyStatus,
+} from "./emergency-lifecycle";
+import {
+  checkLocationFix,
+  toIntegrityPayload,
+  toLocationFix,
+  type LocationIntegrity,
+} from "./location-integrity";
+import { enqueueOutbox } from "./offline-queue";
+
+export const DRIVER_LOCATION_TASK = "erdataye-driver-location";
+
+/* ─── Sampling ────────────────────────────────────────────────── */
+
+export type SpeedBand = "stationary" | "moving" | "fast";
+
+export interface SamplingProfile {
+  /** Identifies the profile; tracking restarts only when it changes. */
+  key: string;
+  accuracy: Location.Accuracy;
+  /** Minimum time between points, in ms. */
+  timeInterval: number;
+  /** Minimum distance between points, in metres. */
+  distanceInterval: number;
+}
+
+type BaseSampling = Omit<SamplingProfile, "key">;
+
+const NAVIGATING: BaseSampling = {
+  accuracy: Location.Accuracy.High,
+  timeInterval: 4000,
+  distanceInterval: 10,
+};
+
+/** Dense while the ambulance is on the road, sparse while it is parked. */
+const STATUS_SAMPLING: Partial<Record<EmergencyStatus, BaseSampling>> = {
+  assigned: { ...NAVIGATING, timeInterval: 5000 },
+  en_route: { ...NAVIGATING, timeInterval: 3000 },
+  at_scene: {
+    accuracy: Location.Accuracy.Balanced,
+    timeInterval: 60000,
+    distanceInterval: 50,
+  },
+  arrived: {
+    accuracy: Location.Accuracy.Balanced,
+    timeInterval: 60000,
+    distanceInterval: 50,
+  },
+  transporting: NAVIGATING,
+  at_hospital: {
+    accuracy: Location.Accuracy.Balanced,
+    timeInterval: 120000,
+    distanceInterval: 100,
+  },
+};
+
+/** Below this the ambulance is treated as parked (m/s). */
+const STATIONARY_SPEED = 1;
+/** Above this (~60 km/h) points are spaced by distance instead (m/s). */
+const FAST_SPEED = 16;
+
+export const getSpeedBand = (speed: number | null | undefined): SpeedBand => {
+  if (speed == null || !Number.isFinite(speed) || speed < 0) return "moving";
+  if (speed < STATIONARY_SPEED) return "stationary";
+  return speed > FAST_SPEED ? "fast" : "moving";
+};
+
+/** How densely to sample for an emergency status at the current speed. */
+export const getSamplingProfile = (
+  status: EmergencyStatus,
+  speed?: number | null,
+): SamplingProfile => {
+  const base = STATUS_SAMPLING[status] ?? STATUS_SAMPLING.assigned!;
+  const band = getSpeedBand(speed);
+  const sampling =
+    band === "stationary"
+      ? {
+          ...base,
+          timeInterval: Math.min(base.timeInterval * 3, 120000),
+        }
+      : band === "fast"
+      ? { ...base, distanceInterval: base.distanceInterval * 3 }
+      : base;
+  return { key: `${status}:${band}`, ...sampling };
+};
+
+/* ─── State ───────────────────────────────────────────────────── */
+
+export interface DriverTrackingState {
+  ambulanceId: string;
+  emergencyId: string;
+  status: EmergencyStatus;
+  /** Set while the driver is unavailable; the task is stopped meanwhile. */
+  paused: boolean;
+  /** Profile the running task was started with. */
+  profileKey: string | null;
+}
+
+const STATE_KEY = "erdataye_driver_tracking";
+
+let _state: DriverTrackingState | null | undefined;
+
+export async function getDriverTrackingState(): Promise<DriverTrackingState | null> {
+  if (_state !== undefined) return _state;
+  _state = null;
+  try {
+    const raw = await AsyncStorage.getItem(STATE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (parsed?.ambulanceId && parsed?.emergencyId && parsed?.status) {
+      _state = parsed as DriverTrackingState;
+    }
+  } catch {
+    // Corrupt state: treat as not tracking
+  }
+  return _state;
+}
+
+async function saveState(state: DriverTrackingState | null): Promise<void> {
+  _state = state;
+  try {
+    if (state) await AsyncStorage.setItem(STATE_KEY, JSON.stringify(state));
+    else await AsyncStorage.removeItem(STATE_KEY);
+  } catch {
+    // best-effort persistence
+  }
+}
+
+/* ─── Task control ────────────────────────────────────────────── */
+
+/** Restarting the task is not free; speed changes wait at least this long. */
+const MIN_RESTART_MS = 30000;
+let _lastRestartAt = 0;
+
+async function stopUpdates(): Promise<void> {
+  try {
+    if (await Location.hasStartedLocationUpdatesAsync(DRIVER_LOCATION_TASK)) {
+      await Location.stopLocationUpdatesAsync(DRIVER_LOCATION_TASK);
+    }
+  } catch (error) {
+    console.warn("Stopping background location failed:", error);
+  }
+}
+
+async function startUpdates(profile: SamplingProfile): Promise<void> {
+  _lastRestartAt = Date.now();
+  // Starting an already running task replaces its options.
+  await Location.startLocationUpdatesAsync(DRIVER_LOCATION_TASK, {
+    accuracy: profile.accuracy,
+    timeInterval: profile.timeInterval,
+    distanceInterval: profile.distanceInterval,
+    activityType: Location.ActivityType.AutomotiveNavigation,
+    pausesUpdatesAutomatically: false,
+    showsBackgroundLocationIndicator: true,
+    foregroundService: {
+      notificationTitle: "Erdataye ambulance tracking",
+      notificationBody:
+        "Sharing your location with dispatch for the active emergency.",
+      notificationColor: "#B91C1C",
+    },
+  });
+}
+
+async function applyProfile(
+  state: DriverTrackingState,
+  speed?: number | null,
+): Promise<void> {
+  const profile = getSamplingProfile(state.status, speed);
+  if (profile.key === state.profileKey) return;
+  await startUpdates(profile);
+  await saveState({ ...state, profileKey: profile.key });
+}
+
+/**
+ * Start reporting the ambulance position for an assignment until it ends.
+ * Asks for background permission; without it the caller should keep its
+ * own foreground updates. Not available on web.
+ */
+export const startDriverTracking = async (assignment: {
+  ambulanceId: string;
+  emergencyId: string;
+  status: EmergencyStatus;
+}): Promise<{ started: boolean; error: Error | null }> => {
+  if (Platform.OS === "web") return { started: false, error: null };
+  if (isClosedEmergencyStatus(assignment.status)) {
+    return { started: false, error: null };
+  }
+  try {
+    const foreground = await Location.requestForegroundPermissionsAsync();
+    if (foreground.status !== "granted") {
+      throw new Error("Location permission denied");
+    }
+    const background = await Location.requestBackgroundPermissionsAsync();
+    if (background.status !== "granted") {
+      throw new Error("Background location permission denied");
+    }
+
+    const current = await getDriverTrackingState();
+    const state: DriverTrackingState = {
+      ...assignment,
+      paused: current?.ambulanceId === assignment.ambulanceId && current.paused,
+      profileKey: null,
+    };
+    await saveState(state);
+    if (!state.paused) await applyProfile(state);
+    return { started: true, error: null };
+  } catch (error) {
+    console.warn("Background tracking not started:", error);
+    return { started: false, error: error as Error };
+  }
+};
+
+/** Stop tracking and forget the assignment. */
+export const stopDriverTracking = async (): Promise<void> => {
+  await saveState(null);
+  await stopUpdates();
+};
+
+/**
+ * Follow a status change of the tracked emergency: resample, or stop once
+ * the emergency is finished or declined back to pending.
+ */
+export const updateDriverTrackingStatus = async (
+  emergencyId: string,
+  status: EmergencyStatus,
+): Promise<void> => {
+  const state = await getDriverTrackingState();
+  if (!state || state.emergencyId !== emergencyId || state.status === status) {
+    return;
+  }
+  if (isClosedEmergencyStatus(status) || status === "pending") {
+    await stopDriverTracking();
+    return;
+  }
+  const next = { ...state, status };
+  await saveState(next);
+  if (!next.paused) await applyProfile(next);
+};
+
+/**
+ * Pause while the driver is unavailable and resume when they are back.
+ * Called alongside `toggleAmbulanceAvailability`.
+ */
+export const setDriverTrackingPaused = async (
+  paused: boolean,
+): Promise<void> => {
+  const state = await getDriverTrackingState();
+  if (!state || state.paused === paused) return;
+  if (paused) {
+    await saveState({ ...state, paused: true, profileKey: null });
+    await stopUpdates();
+  } else {
+    const next = { ...state, paused: false };
+    await saveState(next);
+    await applyProfile(next);
+  }
+};
+
+/* ─── Reporting ───────────────────────────────────────────────── */
+
+/** After a ping is queued, stay in offline mode this long before retrying. */
+const OFFLINE_RETRY_MS = 30000;
+let _offlineUntil = 0;
+
+/**
+ * Drop points closer together in time than the profile asks for; the OS
+ * may deliver a backlog of points at once after a deferral.
+ */
+export const thinLocations = (
+  locations: Location.LocationObject[],
+  minIntervalMs: number,
+): Location.LocationObject[] => {
+  const sorted = [...locations].sort((a, b) => a.timestamp - b.timestamp);
+  const kept: Location.LocationObject[] = [];
+  for (const location of sorted) {
+    const previous = kept[kept.length - 1];
+    if (!previous || location.timestamp - previous.timestamp >= minIntervalMs) {
+      kept.push(location);
+    }
+  }
+  const last = sorted[sorted.length - 1];
+  if (last && kept[kept.length - 1] !== last) kept[kept.length - 1] = last;
+  return kept;
+};
+
+const trackPoint = (location: Location.LocationObject) => ({
+  latitude: location.coords.latitude,
+  longitude: location.coords.longitude,
+  accuracy: location.coords.accuracy,
+  speed: location.coords.speed,
+  recorded_at: new Date(location.timestamp).toISOString(),
+});
+
+/** A delivered point with its integrity assessment. */
+type CheckedLocation = {
+  location: Location.LocationObject;
+  integrity: LocationIntegrity;
+};
+
+const queuePoint = (
+  state: DriverTrackingState,
+  { location, integrity }: CheckedLocation,
+) =>
+  enqueueOutbox("location_ping", {
+    ambulance_id: state.ambulanceId,
+    emergency_id: state.emergencyId,
+    ...trackPoint(location),
+    ...toIntegrityPayload(integrity),
+  });
+
+/**
+ * Report points delivered by the background task. Points that jump further
+ * than the ambulance could drive are dropped. Online, only the newest
+ * point is sent live and the rest go straight to the track; offline, every
+ * (thinned) point is queued so the route replays as one batch when the
+ * outbox syncs.
+ */
+export const handleBackgroundLocations = async (
+  locations: Location.LocationObject[],
+): Promise<void> => {
+  const state = await getDriverTrackingState();
+  if (!state || state.paused || locations.length === 0) return;
+
+  const profile = getSamplingProfile(state.status);
+  const points = thinLocations(locations, profile.timeInterval)
+    .map((location) => ({
+      location,
+      integrity: checkLocationFix(
+        `ambulance:${state.ambulanceId}`,
+        toLocationFix(location),
+      ),
+    }))
+    .filter((point) => !point.integrity.rejected);
+  if (points.length === 0) return;
+  const latest = points[points.length - 1];
+
+  if (Date.now() < _offlineUntil) {
+    for (const point of points) await queuePoint(state, point);
+  } else {
+    const { coords, timestamp } = latest.location;
+    const { offline } = await sendLocationUpdate(
+      state.ambulanceId,
+      coords.latitude,
+      coords.longitude,
+      {
+        emergencyId: state.emergencyId,
+        accuracy: coords.accuracy,
+        speed: coords.speed,
+        recordedAt: new Date(timestamp).toISOString(),
+        integrity: latest.integrity,
+        queueWhenOffline: false,
+      },
+    );
+    const earlier = points.slice(0, -1);
+    if (offline) {
+      _offlineUntil = Date.now() + OFFLINE_RETRY_MS;
+      // Oldest first, so the replay never moves the marker backwards.
+      for (const point of points) await queuePoint(state, point);
+    } else {
+      _offlineUntil = 0;
+      // Only the newest point moves the live marker, but the track keeps
+      // the whole batch.
+      await recordTrackPoints(
+        state.emergencyId,
+        state.ambulanceId,
+        earlier.map((point) => trackPoint(point.location)),
+      );
+    }
+  }
+
+  if (Date.now() - _lastRestartAt >= MIN_RESTART_MS) {
+    await applyProfile(state, latest.location.coords.speed);
+  }
+};
+
+TaskManager.defineTask<{ locations?: Location.LocationObject[] }>(
+  DRIVER_LOCATION_TASK,
+  async ({ data, error }) => {
+    if (error) {
+      console.warn("Background location error:", error.message);
+      return;
+    }
+    try {
+      await handleBackgroundLocations(data?.locations ?? []);
+    } catch (taskError) {
+      console.warn("Background location update failed:", taskError);
+    }
+  },
+);
+
+// Status changes made anywhere in the app (including replays of queued
+// updates) keep the sampling in step with the assignment.
+onEmergencyTransition(({ emergencyId, to }) =>
+  updateDriverTrackingStatus(emergencyId, to),
+);
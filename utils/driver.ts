@@ -1,11 +1,34 @@
 import { supabase } from "./supabase";
 
 import { backendGet, backendPatch, backendPost, backendPut } from "./api";
+import { TransientError } from "./api-errors";
+import type {
+  AmbulanceInventoryRow,
+  DriverAmbulanceResponse,
+  DriverHistoryResponse,
+  DriverStatsResponse,
+  PatientContextResponse,
+  TrackPointsRecordedResponse,
+} from "./contracts";
+import { fromDataSource, isMissingColumnError } from "./data-source";
 import {
     calculateDistance,
     parsePostGISPoint,
     toPostGISPoint,
 } from "./emergency";
+import {
+  getEmergencyTransitionError,
+  notifyEmergencyTransition,
+  type EmergencyStatus,
+} from "./emergency-lifecycle";
+import { recordTimelineEvent } from "./emergency-timeline";
+import {
+  checkLocationFix,
+  toIntegrityPayload,
+  type LocationIntegrity,
+} from "./location-integrity";
+import { isLikelyConnectivityError } from "./network";
+import { createIdempotencyKey, enqueueOutbox } from "./offline-queue";
 
 export interface AmbulanceAssignment {
   id: string;
@@ -24,11 +47,6 @@ export interface AmbulanceAssignment {
   assigned_at: string;
 }
 
-const isMissingColumnError = (error: any, column: string): boolean => {
-  const message = String(error?.message ?? "").toLowerCase();
-  return error?.code === "42703" && message.includes(column.toLowerCase());
-};
-
 const toPhoneCandidates = (phone?: string | null): string[] => {
   const raw = String(phone ?? "")
     .trim()
@@ -61,6 +79,8 @@ export interface AmbulanceDetails {
   hospital_id: string | null;
   created_at: string;
   updated_at: string;
+  /** Latest driver-reported equipment and medication stock. */
+  inventory?: AmbulanceInventoryRow | null;
 }
 
 export interface HospitalSummary {
@@ -72,51 +92,56 @@ export interface HospitalSummary {
 }
 
 /**
- * Get ambulance ID for a driver (backend-first, Supabase fallback)
+ * Get ambulance ID for a driver (strategy: "driver_ambulance")
  */
 export const getDriverAmbulanceId = async (
   driverId: string,
 ): Promise<{ ambulanceId: string | null; error: Error | null }> => {
   try {
-    try {
-      const res = await backendGet<{ ambulance: any | null }>(
-        "/ops/driver/ambulance",
-      );
-      const amb = res?.ambulance;
-      if (amb?.id) return { ambulanceId: amb.id, error: null };
-    } catch {
-      /* fall through to Supabase */
-    }
-
-    let { data, error } = await supabase
-      .from("ambulances")
-      .select("id")
-      .eq("current_driver_id", driverId)
-      .limit(1)
-      .maybeSingle();
+    const { data: ambulanceId } = await fromDataSource<string>({
+      entity: "driver_ambulance",
+      operation: "getId",
+      backend: async () => {
+        const res = await backendGet<DriverAmbulanceResponse>(
+          "/ops/driver/ambulance",
+        );
+        return res?.ambulance?.id ?? null;
+      },
+      supabase: async () => {
+        let { data, error } = await supabase
+          .from("ambulances")
+          .select("id")
+          .eq("current_driver_id", driverId)
+          .limit(1)
+          .maybeSingle();
 
-    if (error && isMissingColumnError(error, "current_driver_id")) {
-      const { data: legacyRows, error: legacyError } = await supabase
-        .from("ambulances")
-        .select("*")
-        .limit(200);
-      if (legacyError) throw legacyError;
-      const legacyMatch = (legacyRows || []).find((row: any) => {
-        const candidates = [
-          row?.current_driver_id,
-          row?.driver_id,
-          row?.user_id,
-          row?.driver_user_id,
-          row?.assigned_driver_id,
-        ];
-        return candidates.some((value) => String(value ?? "") === driverId);
-      });
-      data = legacyMatch ? { id: legacyMatch.id } : null;
-      error = null;
-    }
+        if (error && isMissingColumnError(error, "current_driver_id")) {
+          const { data: legacyRows, error: legacyError } = await supabase
+            .from("ambulances")
+            .select("*")
+            .limit(200);
+          if (legacyError) throw legacyError;
+          const legacyMatch = (legacyRows || []).find((row: any) => {
+            const candidates = [
+              row?.current_driver_id,
+              row?.driver_id,
+              row?.user_id,
+              row?.driver_user_id,
+              row?.assigned_driver_id,
+            ];
+            return candidates.some(
+              (value) => String(value ?? "") === driverId,
+            );
+          });
+          data = legacyMatch ? { id: legacyMatch.id } : null;
+          error = null;
+        }
 
-    if (error) throw error;
-    return { ambulanceId: data?.id ?? null, error: null };
+        if (error) throw error;
+        return data?.id ?? null;
+      },
+    });
+    return { ambulanceId, error: null };
   } catch (error) {
     console.error("Error fetching driver ambulance:", error);
     return { ambulanceId: null, error: error as Error };
@@ -130,39 +155,19 @@ export const toggleAmbulanceAvailability = async (
   ambulanceId: string,
   isAvailable: boolean,
 ): Promise<{ success: boolean; error: Error | null }> => {
-  const isTransientBackendFailure = (error: unknown): boolean => {
-    const message = String((error as any)?.message ?? "").toLowerCase();
-    return (
-      message.includes("backend error 502") ||
-      message.includes("backend error 503") ||
-      message.includes("backend error 504") ||
-      message.includes("timeout") ||
-      message.includes("network request failed")
-    );
-  };
-
-  const wait = (ms: number) =>
-    new Promise<void>((resolve) => {
-      setTimeout(resolve, ms);
-    });
-
   try {
     let backendOk = false;
     let lastError: Error | null = null;
 
-    for (let attempt = 0; attempt < 3; attempt += 1) {
-      try {
-        await backendPut("/ops/driver/ambulance/availability", {
-          ambulance_id: ambulanceId,
-          is_available: isAvailable,
-        });
-        backendOk = true;
-        break;
-      } catch (error) {
-        lastError = error as Error;
-        if (!isTransientBackendFailure(error) || attempt === 2) break;
-        await wait(350 * (attempt + 1));
-      }
+    try {
+      await backendPut(
+        "/ops/driver/ambulance/availability",
+        { ambulance_id: ambulanceId, is_available: isAvailable },
+        { retry: { retries: 2, baseDelayMs: 350 } },
+      );
+      backendOk = true;
+    } catch (error) {
+      lastError = error as Error;
     }
 
     const { error: fallbackError } = await supabase
@@ -197,48 +202,51 @@ export const toggleAmbulanceAvailability = async (
 };
 
 /**
- * Get full ambulance details for a driver
+ * Get full ambulance details for a driver (strategy: "driver_ambulance")
  */
 export const getDriverAmbulanceDetails = async (
   driverId: string,
 ): Promise<{ ambulance: AmbulanceDetails | null; error: Error | null }> => {
   try {
-    try {
-      const res = await backendGet<{ ambulance: any | null }>(
-        "/ops/driver/ambulance",
-      );
-      if (res?.ambulance)
-        return { ambulance: res.ambulance as AmbulanceDetails, error: null };
-    } catch {
-      /* fall through to Supabase */
-    }
-
-    let { data, error } = await supabase
-      .from("ambulances")
-      .select(
-        "id, vehicle_number, registration_number, type, is_available, hospital_id, created_at, updated_at",
-      )
-      .eq("current_driver_id", driverId)
-      .limit(1)
-      .maybeSingle();
-
-    if (error && isMissingColumnError(error, "registration_number")) {
-      const fallback = await supabase
-        .from("ambulances")
-        .select(
-          "id, vehicle_number, type, is_available, hospital_id, created_at, updated_at",
-        )
-        .eq("current_driver_id", driverId)
-        .limit(1)
-        .maybeSingle();
-      data = fallback.data
-        ? { ...fallback.data, registration_number: null }
-        : null;
-      error = fallback.error;
-    }
+    const { data: ambulance } = await fromDataSource<AmbulanceDetails>({
+      entity: "driver_ambulance",
+      operation: "getDetails",
+      backend: async () => {
+        const res = await backendGet<DriverAmbulanceResponse>(
+          "/ops/driver/ambulance",
+        );
+        return (res?.ambulance as AmbulanceDetails | null) ?? null;
+      },
+      supabase: async () => {
+        let { data, error } = await supabase
+          .from("ambulances")
+          .select(
+            "id, vehicle_number, registration_number, type, is_available, hospital_id, created_at, updated_at",
+          )
+          .eq("current_driver_id", driverId)
+          .limit(1)
+          .maybeSingle();
+
+        if (error && isMissingColumnError(error, "registration_number")) {
+          const fallback = await supabase
+            .from("ambulances")
+            .select(
+              "id, vehicle_number, type, is_available, hospital_id, created_at, updated_at",
+            )
+            .eq("current_driver_id", driverId)
+            .limit(1)
+            .maybeSingle();
+          data = fallback.data
+            ? { ...fallback.data, registration_number: null }
+            : null;
+          error = fallback.error;
+        }
 
-    if (error) throw error;
-    return { ambulance: data as AmbulanceDetails | null, error: null };
+        if (error) throw error;
+        return data as AmbulanceDetails | null;
+      },
+    });
+    return { ambulance, error: null };
   } catch (error) {
     console.error("Error fetching ambulance details:", error);
     return { ambulance: null, error: error as Error };
@@ -252,22 +260,24 @@ export const getHospitalSummary = async (
     if (!hospitalId) {
       throw new Error("Hospital ID required");
     }
-    try {
-      const hospital = await backendGet<HospitalSummary>(
-        `/ops/hospitals/${encodeURIComponent(hospitalId)}/basic`,
-      );
-      if (hospital) return { hospital, error: null };
-    } catch {
-      /* fall through to Supabase */
-    }
-
-    const { data, error } = await supabase
-      .from("hospitals")
-      .select("id, name, address, phone, is_accepting_emergencies")
-      .eq("id", hospitalId)
-      .maybeSingle();
-    if (error) throw error;
-    return { hospital: data as HospitalSummary | null, error: null };
+    const { data: hospital } = await fromDataSource<HospitalSummary>({
+      entity: "hospital_summary",
+      operation: "get",
+      backend: () =>
+        backendGet<HospitalSummary>(
+          `/ops/hospitals/${encodeURIComponent(hospitalId)}/basic`,
+        ),
+      supabase: async () => {
+        const { data, error } = await supabase
+          .from("hospitals")
+          .select("id, name, address, phone, is_accepting_emergencies")
+          .eq("id", hospitalId)
+          .maybeSingle();
+        if (error) throw error;
+        return data as HospitalSummary | null;
+      },
+    });
+    return { hospital, error: null };
   } catch (error) {
     console.error("Error fetching hospital summary:", error);
     return { hospital: null, error: error as Error };
@@ -584,18 +594,33 @@ export const getDriverAssignment = async (
 };
 
 /**
- * Accept emergency assignment
+ * Accept emergency assignment. `from` is the emergency's current status;
+ * acceptance is checked against the lifecycle like any crew transition.
  */
 export const acceptEmergency = async (
   assignmentId: string,
   emergencyId: string,
+  from: EmergencyStatus,
 ): Promise<{ success: boolean; error: Error | null }> => {
+  const transition = {
+    emergencyId,
+    role: "driver" as const,
+    from,
+    to: "assigned" as const,
+  };
+  const invalid = getEmergencyTransitionError(transition);
+  if (invalid) return { success: false, error: invalid };
+
   try {
     try {
       await backendPost(`/ops/driver/assignment/${assignmentId}/accept`, {
         emergency_id: emergencyId,
       });
       console.log("Emergency accepted:", assignmentId);
+      void recordTimelineEvent(emergencyId, "assignment_accepted", {
+        assignment_id: assignmentId,
+      });
+      notifyEmergencyTransition({ ...transition, queued: false });
       return { success: true, error: null };
     } catch {
       /* fall through to Supabase */
@@ -617,6 +642,10 @@ export const acceptEmergency = async (
     if (emergencyError) throw emergencyError;
 
     console.log("Emergency accepted (Supabase fallback):", assignmentId);
+    void recordTimelineEvent(emergencyId, "assignment_accepted", {
+      assignment_id: assignmentId,
+    });
+    notifyEmergencyTransition({ ...transition, queued: false });
     return { success: true, error: null };
   } catch (error) {
     console.error("Error accepting emergency:", error);
@@ -625,18 +654,33 @@ export const acceptEmergency = async (
 };
 
 /**
- * Decline emergency assignment — puts the emergency back to pending for re-dispatch
+ * Decline emergency assignment — puts the emergency back to pending for
+ * re-dispatch. Checked against the lifecycle from `from`, the current status.
  */
 export const declineEmergency = async (
   assignmentId: string,
-  emergencyId?: string,
+  emergencyId: string,
+  from: EmergencyStatus,
 ): Promise<{ success: boolean; error: Error | null }> => {
+  const transition = {
+    emergencyId,
+    role: "driver" as const,
+    from,
+    to: "pending" as const,
+  };
+  const invalid = getEmergencyTransitionError(transition);
+  if (invalid) return { success: false, error: invalid };
+
   try {
     try {
       await backendPost(`/ops/driver/assignment/${assignmentId}/decline`, {
-        emergency_id: emergencyId || assignmentId,
+        emergency_id: emergencyId,
       });
       console.log("Emergency declined:", assignmentId);
+      void recordTimelineEvent(emergencyId, "assignment_declined", {
+        assignment_id: assignmentId,
+      });
+      notifyEmergencyTransition({ ...transition, queued: false });
       return { success: true, error: null };
     } catch {
       /* fall through to Supabase */
@@ -654,13 +698,11 @@ export const declineEmergency = async (
       /* ignore if table missing */
     }
 
-    const erId = emergencyId || assignmentId;
-
     // Get the ambulance that was assigned so we can re-enable it
     const { data: erRow } = await supabase
       .from("emergency_requests")
       .select("assigned_ambulance_id")
-      .eq("id", erId)
+      .eq("id", emergencyId)
       .maybeSingle();
 
     // Reset emergency back to pending for re-dispatch (not cancelled)
@@ -671,7 +713,7 @@ export const declineEmergency = async (
         assigned_ambulance_id: null,
         updated_at: now,
       })
-      .eq("id", erId);
+      .eq("id", emergencyId);
 
     // Re-enable the ambulance
     if (erRow?.assigned_ambulance_id) {
@@ -685,6 +727,10 @@ export const declineEmergency = async (
       "Emergency declined (Supabase fallback) — reset to pending:",
       assignmentId,
     );
+    void recordTimelineEvent(emergencyId, "assignment_declined", {
+      assignment_id: assignmentId,
+    });
+    notifyEmergencyTransition({ ...transition, queued: false });
     return { success: true, error: null };
   } catch (error) {
     console.error("Error declining emergency:", error);
@@ -699,38 +745,36 @@ export const getDriverStats = async (
   driverId: string,
 ): Promise<{ active: number; completed: number; error: Error | null }> => {
   try {
-    try {
-      const res = await backendGet<{ active: number; completed: number }>(
-        "/ops/driver/stats",
-      );
-      if (res)
-        return {
-          active: res.active ?? 0,
-          completed: res.completed ?? 0,
-          error: null,
-        };
-    } catch {
-      /* fall through to Supabase */
-    }
-
-    const { ambulanceId, error: ambErr } = await getDriverAmbulanceId(driverId);
-    if (ambErr || !ambulanceId)
-      return { active: 0, completed: 0, error: ambErr };
-
-    const db = supabase;
-    const { count: active } = await db
-      .from("emergency_requests")
-      .select("id", { count: "exact", head: true })
-      .eq("assigned_ambulance_id", ambulanceId)
-      .not("status", "in", "(completed,cancelled,pending)");
-
-    const { count: completed } = await db
-      .from("emergency_requests")
-      .select("id", { count: "exact", head: true })
-      .eq("assigned_ambulance_id", ambulanceId)
-      .eq("status", "completed");
-
-    return { active: active ?? 0, completed: completed ?? 0, error: null };
+    const { data } = await fromDataSource<DriverStatsResponse>({
+      entity: "driver_stats",
+      operation: "get",
+      backend: () => backendGet<DriverStatsResponse>("/ops/driver/stats"),
+      supabase: async () => {
+        const { ambulanceId, error: ambErr } =
+          await getDriverAmbulanceId(driverId);
+        if (ambErr) throw ambErr;
+        if (!ambulanceId) return null;
+
+        const { count: active } = await supabase
+          .from("emergency_requests")
+          .select("id", { count: "exact", head: true })
+          .eq("assigned_ambulance_id", ambulanceId)
+          .not("status", "in", "(completed,cancelled,pending)");
+
+        const { count: completed } = await supabase
+          .from("emergency_requests")
+          .select("id", { count: "exact", head: true })
+          .eq("assigned_ambulance_id", ambulanceId)
+          .eq("status", "completed");
+
+        return { active: active ?? 0, completed: completed ?? 0 };
+      },
+    });
+    return {
+      active: data?.active ?? 0,
+      completed: data?.completed ?? 0,
+      error: null,
+    };
   } catch (error) {
     console.error("Error fetching driver stats:", error);
     return { active: 0, completed: 0, error: error as Error };
@@ -738,28 +782,56 @@ export const getDriverStats = async (
 };
 
 /**
- * Update emergency status (enroute, at_scene, transporting, at_hospital, closed)
+ * Worth replaying from the outbox: nothing reached a server, or a delivered
+ * request timed out or hit an overloaded backend. The outbox item reuses the
+ * key the request was sent with, so replaying one that did land is safe.
+ */
+const isReplayableFailure = (error: unknown) =>
+  error instanceof TransientError || isLikelyConnectivityError(error);
+
+/**
+ * Update emergency status from the crew side (en_route, at_scene, arrived,
+ * transporting). `from` is the status the driver is moving away from; the
+ * change is rejected locally when the lifecycle does not allow it. When the
+ * device is offline or the backend times out the transition is queued in
+ * the outbox and reported as successful with `queued: true`.
  */
 export const updateEmergencyStatus = async (
   emergencyId: string,
-  status:
-    | "pending"
-    | "assigned"
-    | "en_route"
-    | "at_scene"
-    | "transporting"
-    | "at_hospital"
-    | "completed"
-    | "cancelled",
-): Promise<{ success: boolean; error: Error | null }> => {
+  status: EmergencyStatus,
+  from: EmergencyStatus,
+): Promise<{ success: boolean; queued?: boolean; error: Error | null }> => {
+  const invalid = getEmergencyTransitionError({
+    emergencyId,
+    role: "driver",
+    from,
+    to: status,
+  });
+  if (invalid) return { success: false, error: invalid };
+
+  const applied = (queued: boolean) =>
+    notifyEmergencyTransition({
+      emergencyId,
+      role: "driver",
+      from,
+      to: status,
+      queued,
+    });
+
+  const idempotencyKey = createIdempotencyKey("status_update");
+  let backendError: unknown = null;
   try {
     try {
-      await backendPatch(`/ops/patient/emergencies/${emergencyId}/status`, {
-        status,
-      });
+      await backendPatch(
+        `/ops/patient/emergencies/${emergencyId}/status`,
+        { status },
+        { idempotencyKey },
+      );
       console.log(`Emergency status updated to ${status}:`, emergencyId);
+      applied(false);
       return { success: true, error: null };
-    } catch {
+    } catch (error) {
+      backendError = error;
       /* fall through to Supabase */
     }
 
@@ -794,71 +866,170 @@ export const updateEmergencyStatus = async (
       `Emergency status updated to ${status} (Supabase fallback):`,
       emergencyId,
     );
+    applied(false);
     return { success: true, error: null };
   } catch (error) {
+    if (
+      isLikelyConnectivityError(error) ||
+      backendError instanceof TransientError
+    ) {
+      await enqueueOutbox(
+        "status_update",
+        { emergency_id: emergencyId, status, from_status: from },
+        idempotencyKey,
+      );
+      console.warn(`Emergency status ${status} queued offline:`, emergencyId);
+      applied(true);
+      return { success: true, queued: true, error: null };
+    }
     console.error("Error updating emergency status:", error);
     return { success: false, error: error as Error };
   }
 };
 
+/** Extra detail for a location sent during an assignment. */
+export interface LocationSample {
+  /** Adds the point to this emergency's GPS track. */
+  emergencyId?: string | null;
+  /** Horizontal accuracy in metres. */
+  accuracy?: number | null;
+  /** Speed in m/s. */
+  speed?: number | null;
+  /** When the fix was taken; defaults to now. */
+  recordedAt?: string;
+  /** The fix came from a mock location provider. */
+  mocked?: boolean;
+  /** Integrity already assessed by the caller; assessed here otherwise. */
+  integrity?: LocationIntegrity;
+  /**
+   * Set to false when the caller queues the point itself, e.g. behind older
+   * fixes of the same batch; an unreachable ping then reports `offline`.
+   */
+  queueWhenOffline?: boolean;
+}
+
 /**
- * Send live location update
+ * Send live location update. Pings that cannot reach either the backend or
+ * Supabase are queued in the outbox and replayed when connectivity returns.
+ * With `sample.emergencyId` the point is also kept on the emergency's track.
+ * Fixes that jump further than the ambulance could have driven since the
+ * previous one are not sent (`rejected`); the rest carry their confidence.
  */
 export const sendLocationUpdate = async (
   ambulanceId: string,
   latitude: number,
   longitude: number,
-): Promise<{ success: boolean; error: Error | null }> => {
-  try {
-    const isTransientBackendFailure = (error: unknown): boolean => {
-      const message = String((error as any)?.message ?? "").toLowerCase();
-      return (
-        message.includes("backend error 502") ||
-        message.includes("backend error 503") ||
-        message.includes("backend error 504") ||
-        message.includes("timeout") ||
-        message.includes("network request failed")
-      );
+  sample: LocationSample = {},
+): Promise<{
+  success: boolean;
+  queued?: boolean;
+  offline?: boolean;
+  rejected?: boolean;
+  error: Error | null;
+}> => {
+  const recordedAt = sample.recordedAt ?? new Date().toISOString();
+  const integrity =
+    sample.integrity ??
+    checkLocationFix(`ambulance:${ambulanceId}`, {
+      latitude,
+      longitude,
+      accuracy: sample.accuracy,
+      timestamp: new Date(recordedAt).getTime(),
+      mocked: sample.mocked,
+    });
+  if (integrity.rejected) {
+    return {
+      success: false,
+      rejected: true,
+      error: new Error("Location rejected: impossible jump from last fix"),
     };
-
-    const wait = (ms: number) =>
-      new Promise<void>((resolve) => {
-        setTimeout(resolve, ms);
-      });
-
+  }
+  const confidence = toIntegrityPayload(integrity);
+  const track = sample.emergencyId
+    ? {
+        emergency_id: sample.emergencyId,
+        accuracy: sample.accuracy ?? null,
+        speed: sample.speed ?? null,
+        recorded_at: recordedAt,
+      }
+    : {};
+  const idempotencyKey = createIdempotencyKey("location_ping");
+  try {
     let backendOk = false;
     let lastError: Error | null = null;
-    for (let attempt = 0; attempt < 3; attempt += 1) {
-      try {
-        await backendPut("/ops/driver/ambulance/location", {
+    try {
+      await backendPut(
+        "/ops/driver/ambulance/location",
+        {
           ambulance_id: ambulanceId,
           latitude,
           longitude,
-        });
-        backendOk = true;
-        break;
-      } catch (error) {
-        lastError = error as Error;
-        if (!isTransientBackendFailure(error) || attempt === 2) {
-          break;
-        }
-        await wait(350 * (attempt + 1));
-      }
+          ...confidence,
+          ...track,
+        },
+        { retry: { retries: 2, baseDelayMs: 350 }, idempotencyKey },
+      );
+      backendOk = true;
+    } catch (error) {
+      lastError = error as Error;
     }
 
     // Always try direct Supabase write as a safety net.
-    const { error: fallbackError } = await supabase
+    const location = {
+      last_known_location: toPostGISPoint(latitude, longitude),
+      updated_at: new Date().toISOString(),
+    };
+    let { error: fallbackError } = await supabase
       .from("ambulances")
-      .update({
-        last_known_location: toPostGISPoint(latitude, longitude),
-        updated_at: new Date().toISOString(),
-      })
+      .update({ ...location, ...confidence })
       .eq("id", ambulanceId);
+    if (
+      fallbackError &&
+      isMissingColumnError(fallbackError, "location_confidence")
+    ) {
+      ({ error: fallbackError } = await supabase
+        .from("ambulances")
+        .update(location)
+        .eq("id", ambulanceId));
+    }
+
+    if (!backendOk && !fallbackError && sample.emergencyId) {
+      const { error: trackError } = await supabase
+        .from("emergency_track_points")
+        .insert({ ambulance_id: ambulanceId, latitude, longitude, ...track });
+      if (trackError) console.warn("Track point not recorded:", trackError);
+    }
 
     if (backendOk || !fallbackError) {
       return { success: true, error: null };
     }
 
+    if (
+      isLikelyConnectivityError(fallbackError) &&
+      (!lastError || isReplayableFailure(lastError))
+    ) {
+      if (sample.queueWhenOffline === false) {
+        return {
+          success: false,
+          offline: true,
+          error: new Error(fallbackError.message || "Location not sent"),
+        };
+      }
+      await enqueueOutbox(
+        "location_ping",
+        {
+          ambulance_id: ambulanceId,
+          latitude,
+          longitude,
+          recorded_at: recordedAt,
+          ...confidence,
+          ...track,
+        },
+        idempotencyKey,
+      );
+      return { success: true, queued: true, error: null };
+    }
+
     if (lastError) {
       return {
         success: false,
@@ -879,8 +1050,33 @@ export const sendLocationUpdate = async (
 };
 
 /**
- * Get patient info for assigned emergency
+ * Append a backlog of points to an emergency's GPS track, e.g. the fixes a
+ * background batch delivered before the newest one sent live.
  */
+export const recordTrackPoints = async (
+  emergencyId: string,
+  ambulanceId: string,
+  points: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number | null;
+    speed?: number | null;
+    recorded_at: string;
+  }[],
+): Promise<{ recorded: number; error: Error | null }> => {
+  if (points.length === 0) return { recorded: 0, error: null };
+  try {
+    const res = await backendPost<TrackPointsRecordedResponse>(
+      `/ops/emergencies/${emergencyId}/track`,
+      { ambulance_id: ambulanceId, points },
+    );
+    return { recorded: res.recorded, error: null };
+  } catch (error) {
+    console.warn("Track points not recorded:", error);
+    return { recorded: 0, error: error as Error };
+  }
+};
+
 /**
  * Get driver's completed emergency history
  */
@@ -889,26 +1085,32 @@ export const getDriverHistory = async (
   limit: number = 20,
 ): Promise<{ history: any[]; error: Error | null }> => {
   try {
-    try {
-      const res = await backendGet<{ history: any[] }>(
-        `/ops/driver/history?limit=${limit}`,
-      );
-      if (res?.history) return { history: res.history, error: null };
-    } catch {
-      /* fall through to Supabase */
-    }
-
-    const { ambulanceId, error: ambErr } = await getDriverAmbulanceId(driverId);
-    if (ambErr || !ambulanceId) return { history: [], error: ambErr };
-
-    const { data, error } = await supabase
-      .from("emergency_requests")
-      .select("*")
-      .eq("assigned_ambulance_id", ambulanceId)
-      .eq("status", "completed")
-      .order("updated_at", { ascending: false })
-      .limit(limit);
-    if (error) throw error;
+    const { data } = await fromDataSource<any[]>({
+      entity: "driver_history",
+      operation: "list",
+      backend: async () => {
+        const res = await backendGet<DriverHistoryResponse>(
+          `/ops/driver/history?limit=${limit}`,
+        );
+        return res?.history;
+      },
+      supabase: async () => {
+        const { ambulanceId, error: ambErr } =
+          await getDriverAmbulanceId(driverId);
+        if (ambErr) throw ambErr;
+        if (!ambulanceId) return [];
+
+        const { data, error } = await supabase
+          .from("emergency_requests")
+          .select("*")
+          .eq("assigned_ambulance_id", ambulanceId)
+          .eq("status", "completed")
+          .order("updated_at", { ascending: false })
+          .limit(limit);
+        if (error) throw error;
+        return data || [];
+      },
+    });
     return { history: data || [], error: null };
   } catch (error) {
     console.error("Error fetching driver history:", error);
@@ -916,122 +1118,129 @@ export const getDriverHistory = async (
   }
 };
 
-export const getPatientInfo = async (
-  patientId: string,
-  emergencyId?: string,
-): Promise<{
-  info: any | null;
-  error: Error | null;
-}> => {
-  try {
-    if (!patientId) {
-      return { info: null, error: new Error("Patient ID required") };
-    }
+const getPatientInfoFromSupabase = async (patientId: string) => {
+  const { data: profileData, error: profileError } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("id", patientId)
+    .maybeSingle();
 
-    // Preferred path: backend service-role endpoint bypasses client-side RLS limits.
-    try {
-      const path = emergencyId
-        ? `/ops/patient-context?patient_id=${encodeURIComponent(patientId)}&emergency_id=${encodeURIComponent(emergencyId)}`
-        : `/ops/patient-context?patient_id=${encodeURIComponent(patientId)}`;
-      const backendInfo = await backendGet<any>(path);
-      if (backendInfo?.id) {
-        return {
-          info: {
-            id: backendInfo.id,
-            full_name: backendInfo.full_name ?? "Unknown Patient",
-            phone: backendInfo.phone ?? "N/A",
-            medical_profiles: backendInfo.medical_profiles ?? [],
-          },
-          error: null,
-        };
-      }
-    } catch {
-      // Fall back to direct Supabase reads below.
-    }
+  if (profileError && profileError.code !== "PGRST116") throw profileError;
 
-    const { data: profileData, error: profileError } = await supabase
-      .from("profiles")
-      .select("*")
-      .eq("id", patientId)
-      .maybeSingle();
+  let medicalProfiles: any[] = [];
 
-    if (profileError && profileError.code !== "PGRST116") throw profileError;
-
-    let medicalProfiles: any[] = [];
+  try {
+    const { data } = await supabase
+      .from("medical_profiles")
+      .select("*")
+      .eq("user_id", patientId)
+      .order("updated_at", { ascending: false })
+      .limit(1);
+    if (data && data.length > 0) medicalProfiles = data;
+  } catch {
+    /* ignore */
+  }
 
+  if (medicalProfiles.length === 0) {
     try {
       const { data } = await supabase
         .from("medical_profiles")
         .select("*")
-        .eq("user_id", patientId)
-        .order("updated_at", { ascending: false })
+        .eq("id", patientId)
         .limit(1);
       if (data && data.length > 0) medicalProfiles = data;
     } catch {
       /* ignore */
     }
+  }
 
-    if (medicalProfiles.length === 0) {
-      try {
+  const phoneCandidates = toPhoneCandidates(profileData?.phone);
+  if (medicalProfiles.length === 0 && phoneCandidates.length > 0) {
+    try {
+      const { data: profileRows } = await supabase
+        .from("profiles")
+        .select("id")
+        .in("phone", phoneCandidates)
+        .limit(5);
+      const ids = (profileRows || []).map((p: any) => p.id).filter(Boolean);
+      if (ids.length > 0) {
         const { data } = await supabase
           .from("medical_profiles")
           .select("*")
-          .eq("id", patientId)
+          .in("user_id", ids)
+          .order("updated_at", { ascending: false })
           .limit(1);
         if (data && data.length > 0) medicalProfiles = data;
-      } catch {
-        /* ignore */
       }
+    } catch {
+      /* ignore */
     }
+  }
 
-    const phoneCandidates = toPhoneCandidates(profileData?.phone);
-    if (medicalProfiles.length === 0 && phoneCandidates.length > 0) {
+  if (medicalProfiles.length === 0 && phoneCandidates.length > 0) {
+    for (const p of phoneCandidates) {
       try {
-        const { data: profileRows } = await supabase
-          .from("profiles")
-          .select("id")
-          .in("phone", phoneCandidates)
-          .limit(5);
-        const ids = (profileRows || []).map((p: any) => p.id).filter(Boolean);
-        if (ids.length > 0) {
-          const { data } = await supabase
-            .from("medical_profiles")
-            .select("*")
-            .in("user_id", ids)
-            .order("updated_at", { ascending: false })
-            .limit(1);
-          if (data && data.length > 0) medicalProfiles = data;
+        const { data } = await supabase
+          .from("medical_profiles")
+          .select("*")
+          .eq("emergency_contact_phone", p)
+          .order("updated_at", { ascending: false })
+          .limit(1);
+        if (data && data.length > 0) {
+          medicalProfiles = data;
+          break;
         }
       } catch {
         /* ignore */
       }
     }
+  }
 
-    if (medicalProfiles.length === 0 && phoneCandidates.length > 0) {
-      for (const p of phoneCandidates) {
-        try {
-          const { data } = await supabase
-            .from("medical_profiles")
-            .select("*")
-            .eq("emergency_contact_phone", p)
-            .order("updated_at", { ascending: false })
-            .limit(1);
-          if (data && data.length > 0) {
-            medicalProfiles = data;
-            break;
-          }
-        } catch {
-          /* ignore */
-        }
-      }
+  const info = {
+    id: profileData?.id,
+    full_name: profileData?.full_name ?? "Unknown Patient",
+    phone: profileData?.phone ?? "N/A",
+    medical_profiles: medicalProfiles,
+  };
+
+  return info;
+};
+
+/**
+ * Get patient info for an assigned emergency (strategy: "patient_context").
+ * The backend endpoint uses the service role, so it sees rows that client
+ * RLS hides.
+ */
+export const getPatientInfo = async (
+  patientId: string,
+  emergencyId?: string,
+): Promise<{
+  info: any | null;
+  error: Error | null;
+}> => {
+  try {
+    if (!patientId) {
+      return { info: null, error: new Error("Patient ID required") };
     }
 
-    const info = {
-      id: profileData?.id,
-      full_name: profileData?.full_name ?? "Unknown Patient",
-      phone: profileData?.phone ?? "N/A",
-      medical_profiles: medicalProfiles,
-    };
+    const path = emergencyId
+      ? `/ops/patient-context?patient_id=${encodeURIComponent(patientId)}&emergency_id=${encodeURIComponent(emergencyId)}`
+      : `/ops/patient-context?patient_id=${encodeURIComponent(patientId)}`;
+    const { data: info } = await fromDataSource<any>({
+      entity: "patient_context",
+      operation: "get",
+      backend: async () => {
+        const backendInfo = await backendGet<PatientContextResponse>(path);
+        if (!backendInfo?.id) return null;
+        return {
+          id: backendInfo.id,
+          full_name: backendInfo.full_name ?? "Unknown Patient",
+          phone: backendInfo.phone ?? "N/A",
+          medical_profiles: backendInfo.medical_profiles ?? [],
+        };
+      },
+      supabase: () => getPatientInfoFromSupabase(patientId),
+    });
 
     return { info, error: null };
   } catch (error) {
@@ -0,0 +1,290 @@
+/**
+ * Emergency lifecycle — the single source of truth for emergency statuses
+ * and who may move an emergency between them.
+ *
+ * The transition tables mirror the backend's checks in `routers/ops.py` so
+ * the app rejects an illegal update before it reaches the network. Status
+ * update paths call `checkEmergencyTransition` first and
+ * `notifyEmergencyTransition` once the update has been accepted; hooks
+ * registered with `onEmergencyTransition` (timeline events, analytics) run
+ * from there.
+ */
+
+export const EMERGENCY_STATUSES = [
+  "pending",
+  "assigned",
+  "en_route",
+  "at_scene",
+  "arrived",
+  "transporting",
+  "at_hospital",
+  "completed",
+  "cancelled",
+] as const;
+
+export type EmergencyStatus = (typeof EMERGENCY_STATUSES)[number];
+
+/** Roles that can change an emergency's status. */
+export type EmergencyActorRole =
+  | "patient"
+  | "ambulance"
+  | "driver"
+  | "hospital"
+  | "admin";
+
+/** How long after creation a patient may still cancel their request. */
+export const EMERGENCY_CANCEL_WINDOW_MINUTES = 3;
+
+const CLOSED_STATUSES: readonly EmergencyStatus[] = ["completed", "cancelled"];
+
+type TransitionTable = Partial<
+  Record<EmergencyStatus, readonly EmergencyStatus[]>
+>;
+
+// Accepting (to assigned) and declining (back to pending for re-dispatch)
+// go through their own assignment endpoints.
+const CREW_TRANSITIONS: TransitionTable = {
+  pending: ["assigned", "en_route"],
+  assigned: ["en_route", "pending"],
+  en_route: ["at_scene", "arrived"],
+  at_scene: ["transporting"],
+  arrived: ["transporting"],
+};
+
+const ROLE_TRANSITIONS: Record<
+  Exclude<EmergencyActorRole, "admin">,
+  TransitionTable
+> = {
+  patient: {
+    pending: ["cancelled"],
+    assigned: ["cancelled"],
+  },
+  ambulance: CREW_TRANSITIONS,
+  driver: CREW_TRANSITIONS,
+  hospital: {
+    at_scene: ["at_hospital"],
+    arrived: ["at_hospital"],
+    transporting: ["at_hospital"],
+    at_hospital: ["completed"],
+  },
+};
+
+export const isEmergencyStatus = (value: unknown): value is EmergencyStatus =>
+  typeof value === "string" &&
+  (EMERGENCY_STATUSES as readonly string[]).includes(value);
+
+export const isClosedEmergencyStatus = (status: string): boolean =>
+  CLOSED_STATUSES.includes(status as EmergencyStatus);
+
+/** Statuses `role` may move an emergency to from `from`. */
+export const getAllowedEmergencyTransitions = (
+  role: EmergencyActorRole,
+  from: EmergencyStatus,
+): EmergencyStatus[] => {
+  if (isClosedEmergencyStatus(from)) return [];
+  if (role === "admin") {
+    return EMERGENCY_STATUSES.filter((status) => status !== from);
+  }
+  return [...(ROLE_TRANSITIONS[role][from] ?? [])];
+};
+
+/* ─── Guards ──────────────────────────────────────────────────── */
+
+export const getEmergencyCancelWindowState = (
+  createdAt: string,
+  maxMinutes: number = EMERGENCY_CANCEL_WINDOW_MINUTES,
+  now: number = Date.now(),
+) => {
+  const createdMs = new Date(createdAt).getTime();
+  const deadlineMs = createdMs + maxMinutes * 60 * 1000;
+  const remainingMs = Math.max(0, deadlineMs - now);
+  const remainingSeconds = Math.ceil(remainingMs / 1000);
+  return {
+    canCancel: remainingMs > 0,
+    remainingSeconds,
+  };
+};
+
+export interface EmergencyTransition {
+  emergencyId: string;
+  role: EmergencyActorRole;
+  from: EmergencyStatus;
+  to: EmergencyStatus;
+  /** Emergency creation time; required for patient cancellation. */
+  createdAt?: string | null;
+  /** Cancel window override, in minutes. */
+  cancelWindowMinutes?: number;
+  now?: number;
+}
+
+export type EmergencyTransitionCheck =
+  | { allowed: true; reason: null }
+  | { allowed: false; reason: string };
+
+const allow = (): EmergencyTransitionCheck => ({ allowed: true, reason: null });
+const deny = (reason: string): EmergencyTransitionCheck => ({
+  allowed: false,
+  reason,
+});
+
+/**
+ * Decide whether `transition` is legal. Re-sending the current status is
+ * allowed (offline replays and double taps) as long as the role could have
+ * set it.
+ */
+export const checkEmergencyTransition = (
+  transition: EmergencyTransition,
+): EmergencyTransitionCheck => {
+  const { role, from, to } = transition;
+
+  if (role !== "patient" && from === to) {
+    const reachable = EMERGENCY_STATUSES.some((status) =>
+      getAllowedEmergencyTransitions(role, status).includes(to),
+    );
+    if (reachable) return allow();
+  }
+
+  if (isClosedEmergencyStatus(from)) {
+    return deny("This emergency request is already closed.");
+  }
+
+  if (role === "patient") {
+    if (to !== "cancelled") {
+      return deny("Patients can only cancel an emergency request.");
+    }
+    if (!getAllowedEmergencyTransitions(role, from).includes(to)) {
+      return deny(
+        "Cancellation is closed because an ambulance already accepted this request.",
+      );
+    }
+    const maxMinutes =
+      transition.cancelWindowMinutes ?? EMERGENCY_CANCEL_WINDOW_MINUTES;
+    if (
+      !transition.createdAt ||
+      !getEmergencyCancelWindowState(
+        transition.createdAt,
+        maxMinutes,
+        transition.now,
+      ).canCancel
+    ) {
+      return deny(
+        `Cancellation window expired. You can only cancel within ${maxMinutes} minutes.`,
+      );
+    }
+    return allow();
+  }
+
+  if (getAllowedEmergencyTransitions(role, from).includes(to)) {
+    return allow();
+  }
+
+  return deny(
+    `A ${role} cannot move an emergency from ${from.replace(
+      /_/g,
+      " ",
+    )} to ${to.replace(/_/g, " ")}.`,
+  );
+};
+
+/** Thrown by status update paths when the state machine rejects a change. */
+export class EmergencyTransitionError extends Error {
+  readonly from: EmergencyStatus;
+  readonly to: EmergencyStatus;
+  readonly role: EmergencyActorRole;
+
+  constructor(transition: EmergencyTransition, reason: string) {
+    super(reason);
+    this.name = "EmergencyTransitionError";
+    this.from = transition.from;
+    this.to = transition.to;
+    this.role = transition.role;
+  }
+}
+
+/** Return the rejection as an error, or null when the transition is legal. */
+export const getEmergencyTransitionError = (
+  transition: EmergencyTransition,
+): EmergencyTransitionError | null => {
+  const check = checkEmergencyTransition(transition);
+  return check.allowed
+    ? null
+    : new EmergencyTransitionError(transition, check.reason);
+};
+
+/* ─── Side-effect hooks ───────────────────────────────────────── */
+
+export interface EmergencyTransitionEvent {
+  emergencyId: string;
+  role: EmergencyActorRole;
+  from: EmergencyStatus;
+  to: EmergencyStatus;
+  /** True when the update was queued offline rather than applied. */
+  queued: boolean;
+}
+
+export type EmergencyTransitionHook = (
+  event: EmergencyTransitionEvent,
+) => void | Promise<void>;
+
+const hooks = new Set<EmergencyTransitionHook>();
+
+/** Run `hook` after every accepted transition. Returns an unsubscribe. */
+export const onEmergencyTransition = (
+  hook: EmergencyTransitionHook,
+): (() => void) => {
+  hooks.add(hook);
+  return () => {
+    hooks.delete(hook);
+  };
+};
+
+const runHooks = <T>(
+  registered: Set<(event: T) => void | Promise<void>>,
+  event: T,
+  label: string,
+) => {
+  for (const hook of registered) {
+    try {
+      void Promise.resolve(hook(event)).catch((error) =>
+        console.warn(`Emergency ${label} hook failed:`, error),
+      );
+    } catch (error) {
+      console.warn(`Emergency ${label} hook failed:`, error);
+    }
+  }
+};
+
+/**
+ * Fire the registered hooks. Hooks are best-effort: failures are logged and
+ * never undo or fail the status update itself.
+ */
+export const notifyEmergencyTransition = (
+  event: EmergencyTransitionEvent,
+): void => runHooks(hooks, event, "transition");
+
+export interface EmergencyCreatedEvent {
+  emergencyId: string;
+  patientId: string;
+  /** "assigned" when dispatch found an ambulance straight away. */
+  status: EmergencyStatus;
+}
+
+export type EmergencyCreatedHook = (
+  event: EmergencyCreatedEvent,
+) => void | Promise<void>;
+
+const createdHooks = new Set<EmergencyCreatedHook>();
+
+/** Run `hook` after every emergency request the server accepts. */
+export const onEmergencyCreated = (
+  hook: EmergencyCreatedHook,
+): (() => void) => {
+  createdHooks.add(hook);
+  return () => {
+    createdHooks.delete(hook);
+  };
+};
+
+/** Fire the creation hooks; best-effort like the transition hooks. */
+export const notifyEmergencyCreated = (event: EmergencyCreatedEvent): void =>
+  runHooks(createdHooks, event, "created");
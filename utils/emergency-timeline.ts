@@ -0,0 +1,257 @@
+/**
+ * Emergency timeline — structured audit events recorded automatically by the
+ * dispatch, assignment, status, location and medical-note paths.
+ *
+ * Recording is best-effort: a failed timeline write is logged and never fails
+ * the action that produced it.
+ */
+import type { TimelineEvent } from "./contracts";
+import {
+  addEmergencyTimelineEvent,
+  getEmergencyTimeline,
+  syncOfflineQueue,
+} from "./emergency";
+import { onEmergencyTransition } from "./emergency-lifecycle";
+
+/* ─── Types ───────────────────────────────────────────────────── */
+
+export type TimelineEventType =
+  | "dispatch_requested"
+  | "ambulance_assigned"
+  | "assignment_accepted"
+  | "assignment_declined"
+  | "status_changed"
+  | "location_milestone"
+  | "medical_note_added"
+  | "handover_acknowledged"
+  | "first_aid_session"
+  | "voice_note_attached"
+  | "emergency_cancelled";
+
+export type LocationMilestone = "approaching_patient" | "reached_patient";
+
+export type { TimelineEvent } from "./contracts";
+
+/* ─── Recording ───────────────────────────────────────────────── */
+
+export const recordTimelineEvent = async (
+  emergencyId: string | null | undefined,
+  eventType: TimelineEventType,
+  details: Record<string, unknown> = {},
+): Promise<void> => {
+  if (!emergencyId) return;
+  try {
+    await addEmergencyTimelineEvent({ emergencyId, eventType, details });
+  } catch (error) {
+    console.warn(`Timeline event ${eventType} not recorded:`, error);
+  }
+};
+
+// Status changes and cancellations are recorded once they have been
+// applied. Queued changes are skipped here; `withTimelineReplay` records
+// them when the outbox replays them.
+onEmergencyTransition(({ emergencyId, role, from, to, queued }) => {
+  if (queued || from === to) return;
+  return recordTimelineEvent(
+    emergencyId,
+    to === "cancelled" ? "emergency_cancelled" : "status_changed",
+    { from, to, role },
+  );
+});
+
+type OutboxSync = typeof syncOfflineQueue;
+
+/**
+ * Wrap the outbox sync function so status changes and medical notes that
+ * were queued offline reach the timeline once the server accepts them.
+ * Items the server had already applied come back as "duplicate" and were
+ * recorded on that first replay, so they are skipped.
+ */
+export const withTimelineReplay =
+  (sync: OutboxSync): OutboxSync =>
+  async (items) => {
+    const response = await sync(items);
+    for (const item of items) {
+      const result = response?.results?.find(
+        (r) => r.idempotency_key === item.idempotencyKey,
+      );
+      if (result?.status !== "accepted" || result.reason === "duplicate") {
+        continue;
+      }
+
+      const payload = item.payload;
+      const emergencyId = String(payload.emergency_id ?? "");
+      if (item.type === "status_update") {
+        void recordTimelineEvent(
+          emergencyId,
+          payload.status === "cancelled"
+            ? "emergency_cancelled"
+            : "status_changed",
+          {
+            from: payload.from_status ?? null,
+            to: payload.status,
+            role: "driver",
+            queued_at: item.queuedAt,
+          },
+        );
+      } else if (item.type === "medical_note") {
+        void recordTimelineEvent(emergencyId, "medical_note_added", {
+          note_type: payload.note_type,
+          queued_at: item.queuedAt,
+        });
+      }
+    }
+    return response;
+  };
+
+export const loadEmergencyTimeline = async (
+  emergencyId: string,
+): Promise<{ events: TimelineEvent[]; error: string | null }> => {
+  try {
+    const events = await getEmergencyTimeline(emergencyId);
+    const sorted = [...(events || [])].sort(
+      (a, b) =>
+        new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+    );
+    return { events: sorted, error: null };
+  } catch (err: any) {
+    return { events: [], error: err?.message || "Failed to load timeline" };
+  }
+};
+
+/* ─── Location milestones ─────────────────────────────────────── */
+
+const APPROACHING_KM = 1;
+const REACHED_KM = 0.15;
+
+/**
+ * Track which distance milestones an ambulance has crossed on its way to the
+ * patient. The returned function reports each milestone once, the first
+ * time it is reached.
+ */
+export const createLocationMilestoneTracker = () => {
+  const seen = new Set<LocationMilestone>();
+  const thresholds: [LocationMilestone, number][] = [
+    ["approaching_patient", APPROACHING_KM],
+    ["reached_patient", REACHED_KM],
+  ];
+
+  return (distanceToPatientKm: number): LocationMilestone[] => {
+    if (!Number.isFinite(distanceToPatientKm)) return [];
+    // A single jump can cross both thresholds; "approaching" comes first.
+    const crossed = thresholds
+      .filter(
+        ([milestone, km]) => distanceToPatientKm <= km && !seen.has(milestone),
+      )
+      .map(([milestone]) => milestone);
+    crossed.forEach((milestone) => seen.add(milestone));
+    return crossed;
+  };
+};
+
+/* ─── Display helpers ─────────────────────────────────────────── */
+
+export const TIMELINE_EVENT_LABELS: Record<
+  TimelineEventType,
+  { label: string; icon: string; color: string }
+> = {
+  dispatch_requested: {
+    label: "SOS Requested",
+    icon: "sos",
+    color: "#DC2626",
+  },
+  ambulance_assigned: {
+    label: "Ambulance Assigned",
+    icon: "assignment-ind",
+    color: "#F59E0B",
+  },
+  assignment_accepted: {
+    label: "Crew Accepted",
+    icon: "thumb-up",
+    color: "#0EA5E9",
+  },
+  assignment_declined: {
+    label: "Crew Declined",
+    icon: "thumb-down",
+    color: "#6B7280",
+  },
+  status_changed: {
+    label: "Status Changed",
+    icon: "sync-alt",
+    color: "#8B5CF6",
+  },
+  location_milestone: {
+    label: "Location Milestone",
+    icon: "place",
+    color: "#06B6D4",
+  },
+  medical_note_added: {
+    label: "Medical Note",
+    icon: "note-add",
+    color: "#10B981",
+  },
+  handover_acknowledged: {
+    label: "Handover Acknowledged",
+    icon: "how-to-reg",
+    color: "#059669",
+  },
+  first_aid_session: {
+    label: "Bystander First Aid",
+    icon: "favorite",
+    color: "#E11D48",
+  },
+  voice_note_attached: {
+    label: "Voice SOS",
+    icon: "mic",
+    color: "#DB2777",
+  },
+  emergency_cancelled: {
+    label: "Cancelled",
+    icon: "cancel",
+    color: "#EF4444",
+  },
+};
+
+const FALLBACK_LABEL = { label: "Event", icon: "history", color: "#6B7280" };
+
+export const getTimelineEventLabel = (eventType: string) =>
+  TIMELINE_EVENT_LABELS[eventType as TimelineEventType] ?? FALLBACK_LABEL;
+
+const humanize = (value: unknown) => String(value ?? "").replace(/_/g, " ");
+
+/** One-line description of what happened, built from the event details. */
+export const describeTimelineEvent = (event: TimelineEvent): string => {
+  const details = event.details ?? {};
+  switch (event.event_type) {
+    case "status_changed":
+      return details.from
+        ? `${humanize(details.from)} → ${humanize(details.to)}`
+        : humanize(details.to);
+    case "location_milestone":
+      return humanize(details.milestone);
+    case "medical_note_added":
+      return humanize(details.note_type);
+    case "ambulance_assigned":
+      return details.vehicle_number
+        ? `Ambulance ${details.vehicle_number}`
+        : "";
+    case "handover_acknowledged":
+      return details.eta_minutes != null
+        ? `ETA ${details.eta_minutes} min`
+        : "";
+    case "first_aid_session": {
+      const minutes = Math.round(Number(details.duration_seconds ?? 0) / 60);
+      const duration = minutes >= 1 ? `${minutes} min` : "under 1 min";
+      return `${humanize(details.protocol)} for ${duration}`;
+    }
+    case "voice_note_attached": {
+      const seconds = Number(details.duration_seconds ?? 0);
+      const length = seconds >= 1 ? `${seconds}s recording` : "recording";
+      return details.transcribed ? `${length}, transcribed` : length;
+    }
+    case "assignment_declined":
+      return details.reason ? String(details.reason) : "";
+    default:
+      return "";
+  }
+};
@@ -0,0 +1,252 @@
+/**
+ * Emergency GPS tracks — the breadcrumb trail an ambulance left while
+ * assigned to an emergency, and the trip metrics hospitals and admins use
+ * for incident review and disputes.
+ *
+ * Points are appended by `sendLocationUpdate` and the background tracking
+ * task; this module only reads them back.
+ */
+import { backendGet } from "./api";
+import type { TrackPointResponse } from "./contracts";
+import { fromDataSource } from "./data-source";
+import { calculateDistance } from "./emergency";
+import type { EmergencyStatus } from "./emergency-lifecycle";
+import type { TimelineEvent } from "./emergency-timeline";
+import { supabase } from "./supabase";
+
+/* ─── Types ───────────────────────────────────────────────────── */
+
+export type TrackPoint = TrackPointResponse;
+
+/** A status change pinned to where the ambulance was at the time. */
+export interface TrackStatusMarker {
+  status: EmergencyStatus;
+  at: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface TripMetrics {
+  /** Distance driven along the track, in km. */
+  distanceKm: number;
+  /** Request to arrival at the patient, in minutes. */
+  responseMinutes: number | null;
+  /** Arrival at the patient to leaving for hospital, in minutes. */
+  sceneMinutes: number | null;
+  /** Leaving the scene to arrival at hospital, in minutes. */
+  transportMinutes: number | null;
+}
+
+/* ─── Loading ─────────────────────────────────────────────────── */
+
+async function listTrackViaSupabase(
+  emergencyId: string,
+): Promise<TrackPoint[]> {
+  const { data, error } = await supabase
+    .from("emergency_track_points")
+    .select("ambulance_id,latitude,longitude,accuracy,speed,recorded_at")
+    .eq("emergency_id", emergencyId)
+    .order("recorded_at", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message || "Failed to load GPS track");
+  }
+  return (data || []) as TrackPoint[];
+}
+
+/** The emergency's GPS track, oldest point first. */
+export const loadEmergencyTrack = async (
+  emergencyId: string,
+): Promise<{ points: TrackPoint[]; error: string | null }> => {
+  try {
+    const { data } = await fromDataSource<TrackPoint[]>({
+      entity: "emergency_track",
+      operation: "list",
+      backend: () =>
+        backendGet<TrackPoint[]>(`/ops/emergencies/${emergencyId}/track`),
+      supabase: () => listTrackViaSupabase(emergencyId),
+    });
+    const points = [...(data || [])].sort(
+      (a, b) =>
+        new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime(),
+    );
+    return { points, error: null };
+  } catch (err: any) {
+    return { points: [], error: err?.message || "Failed to load GPS track" };
+  }
+};
+
+/* ─── Metrics ─────────────────────────────────────────────────── */
+
+/** Fixes less precise than this (metres) are left out of the distance. */
+const MAX_ACCURACY_M = 100;
+
+const isPrecise = (point: TrackPoint) =>
+  point.accuracy == null || point.accuracy <= MAX_ACCURACY_M;
+
+const timeOf = (iso: string | null | undefined) =>
+  iso ? new Date(iso).getTime() : NaN;
+
+const minutesBetween = (from: number, to: number) =>
+  Number.isFinite(from) && Number.isFinite(to) && to >= from
+    ? (to - from) / 60000
+    : null;
+
+/** Distance driven along the track in km, skipping imprecise fixes. */
+export const trackDistanceKm = (points: TrackPoint[]): number => {
+  let total = 0;
+  let previous: TrackPoint | null = null;
+  for (const point of points) {
+    if (!isPrecise(point)) continue;
+    if (previous) {
+      total += calculateDistance(
+        previous.latitude,
+        previous.longitude,
+        point.latitude,
+        point.longitude,
+      );
+    }
+    previous = point;
+  }
+  return total;
+};
+
+/** When each status was first reached, from the timeline's status events. */
+const statusTimes = (events: TimelineEvent[]) => {
+  const times = new Map<EmergencyStatus, string>();
+  for (const event of events) {
+    if (event.event_type !== "status_changed") continue;
+    const status = event.details?.to as EmergencyStatus | undefined;
+    if (status && !times.has(status)) times.set(status, event.created_at);
+  }
+  return times;
+};
+
+/**
+ * Response, scene and transport times from the timeline, and the distance
+ * driven from the track. The request time falls back to the timeline's
+ * `dispatch_requested` event.
+ */
+export const computeTripMetrics = (
+  points: TrackPoint[],
+  events: TimelineEvent[],
+  createdAt?: string | null,
+): TripMetrics => {
+  const times = statusTimes(events);
+  const requested = timeOf(
+    createdAt ||
+      events.find((event) => event.event_type === "dispatch_requested")
+        ?.created_at,
+  );
+  const arrived = Math.min(
+    ...(["at_scene", "arrived"] as const).map((status) =>
+      times.has(status) ? timeOf(times.get(status)) : Infinity,
+    ),
+  );
+  const transporting = timeOf(times.get("transporting"));
+  const atHospital = timeOf(times.get("at_hospital"));
+
+  return {
+    distanceKm: trackDistanceKm(points),
+    responseMinutes: minutesBetween(requested, arrived),
+    sceneMinutes: minutesBetween(arrived, transporting),
+    transportMinutes: minutesBetween(transporting, atHospital),
+  };
+};
+
+/**
+ * Pin each status change to the last track point recorded at or before it,
+ * or the first point when the change came before any GPS fix.
+ */
+export const getTrackStatusMarkers = (
+  points: TrackPoint[],
+  events: TimelineEvent[],
+): TrackStatusMarker[] => {
+  if (points.length === 0) return [];
+  const markers: TrackStatusMarker[] = [];
+  for (const [status, at] of statusTimes(events)) {
+    const time = timeOf(at);
+    let point = points[0];
+    for (const candidate of points) {
+      if (timeOf(candidate.recorded_at) > time) break;
+      point = candidate;
+    }
+    markers.push({
+      status,
+      at,
+      latitude: point.latitude,
+      longitude: point.longitude,
+    });
+  }
+  return markers.sort((a, b) => timeOf(a.at) - timeOf(b.at));
+};
+
+/* ─── Replay map ──────────────────────────────────────────────── */
+
+/** How long a full replay takes, whatever the trip length (ms). */
+const REPLAY_DURATION_MS = 20000;
+
+/** Inline JSON safely inside a <script> tag. */
+const toScriptJson = (value: unknown) =>
+  JSON.stringify(value).replace(/</g, "\\u003c");
+
+/**
+ * Self-contained Leaflet page that animates the ambulance along its track
+ * with the status changes marked on the route. Rendered in a WebView
+ * (native) or an iframe's `srcDoc` (web).
+ */
+export function buildTrackReplayHtml(
+  points: TrackPoint[],
+  markers: (TrackStatusMarker & { label: string })[],
+): string {
+  const path = points.map((p) => [
+    p.latitude,
+    p.longitude,
+    timeOf(p.recorded_at),
+  ]);
+  const pins = markers.map((m) => ({
+    lat: m.latitude,
+    lng: m.longitude,
+    at: timeOf(m.at),
+    label: m.label,
+  }));
+
+  return `<!DOCTYPE html>
+<html><head><meta name="viewport" content="width=device-width,initial-scale=1,maximum-scale=1">
+<link rel="stylesheet" href="https://unpkg.com/leaflet@1.9.4/dist/leaflet.css">
+<script src="https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"></script>
+<style>*{margin:0;padding:0;box-sizing:border-box}html,body,#map{width:100%;height:100%}
+#bar{position:absolute;left:8px;right:8px;bottom:8px;z-index:1000;display:flex;gap:8px;align-items:center;
+background:rgba(15,23,42,.85);color:#fff;border-radius:10px;padding:6px 10px;font:13px sans-serif}
+#play{background:#DC2626;color:#fff;border:none;border-radius:6px;padding:4px 10px;font-weight:bold}
+#progress{flex:1}</style></head>
+<body><div id="map"></div>
+<div id="bar"><button id="play">▶</button><input id="progress" type="range" min="0" max="1000" value="0"><span id="clock"></span></div>
+<script>
+var path=${toScriptJson(path)},pins=${toScriptJson(pins)};
+var map=L.map("map",{zoomControl:false});
+L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",{maxZoom:19}).addTo(map);
+var line=path.map(function(p){return [p[0],p[1]];});
+L.polyline(line,{color:"#94A3B8",weight:4}).addTo(map);
+var done=L.polyline([],{color:"#DC2626",weight:5}).addTo(map);
+map.fitBounds(L.latLngBounds(line).pad(0.15));
+pins.forEach(function(m){L.circleMarker([m.lat,m.lng],{radius:6,color:"#7C3AED",fillOpacity:1})
+.bindTooltip(m.label,{permanent:true,direction:"top",offset:[0,-6]}).addTo(map);});
+var car=L.circleMarker(line[0],{radius:8,color:"#fff",weight:2,fillColor:"#DC2626",fillOpacity:1}).addTo(map);
+var start=path[0][2],end=path[path.length-1][2],span=Math.max(end-start,1);
+var playing=false,t=0,last=0;
+function show(f){t=Math.min(Math.max(f,0),1);var now=start+t*span,i=0;
+while(i<path.length-1&&path[i+1][2]<=now)i++;
+var a=path[i],b=path[Math.min(i+1,path.length-1)],k=b[2]>a[2]?(now-a[2])/(b[2]-a[2]):0;
+var pos=[a[0]+(b[0]-a[0])*k,a[1]+(b[1]-a[1])*k];car.setLatLng(pos);
+done.setLatLngs(line.slice(0,i+1).concat([pos]));
+document.getElementById("progress").value=Math.round(t*1000);
+document.getElementById("clock").textContent=new Date(now).toLocaleTimeString();}
+function tick(ts){if(!playing)return;if(last)show(t+(ts-last)/${REPLAY_DURATION_MS});last=ts;
+if(t>=1){playing=false;document.getElementById("play").textContent="▶";return;}requestAnimationFrame(tick);}
+document.getElementById("play").onclick=function(){playing=!playing;this.textContent=playing?"❚❚":"▶";
+if(playing){if(t>=1)t=0;last=0;requestAnimationFrame(tick);}};
+document.getElementById("progress").oninput=function(){show(this.value/1000);};
+show(0);
+</script></body></html>`;
+}
@@ -1,4 +1,22 @@
-import { backendGet, backendPost } from "./api";
+import { backendGet, backendPost, backendPut } from "./api";
+import type {
+  ContextualFirstAidResponse,
+  DriverSafetyResponse,
+  ExplainableTriageResponse,
+  FamilyShareResponse,
+  GpsConfidenceResponse,
+  HospitalCapacityBoardResponse,
+  OfflineSyncResponse,
+  OperationsInsightsResponse,
+  TimelineEvent,
+  TrafficAwareDispatchResponse,
+} from "./contracts";
+import {
+  getEmergencyTransitionError,
+  notifyEmergencyTransition,
+  type EmergencyActorRole,
+  type EmergencyStatus,
+} from "./emergency-lifecycle";
 import { supabase } from "./supabase";
 
 function roundCoord(value: number, decimals: number = 5): number {
@@ -192,16 +210,7 @@ export function parsePostGISPoint(
 export interface EmergencyRequest {
   id: string;
   patient_id: string;
-  status:
-    | "pending"
-    | "assigned"
-    | "en_route"
-    | "at_scene"
-    | "arrived"
-    | "transporting"
-    | "at_hospital"
-    | "completed"
-    | "cancelled";
+  status: EmergencyStatus;
   emergency_type: string;
   description: string;
   assigned_ambulance_id?: string;
@@ -211,6 +220,9 @@ export interface EmergencyRequest {
   latitude: number;
   /** Computed from patient_location geometry */
   longitude: number;
+  /** Confidence (0–1) in patient_location, see utils/location-integrity. */
+  patient_location_confidence?: number | null;
+  patient_location_flags?: string[] | null;
   created_at: string;
   updated_at: string;
 }
@@ -223,6 +235,9 @@ export interface Ambulance {
   is_available: boolean;
   hospital_id?: string;
   last_known_location?: string; // raw PostGIS hex WKB
+  /** Confidence (0–1) in last_known_location. */
+  location_confidence?: number | null;
+  location_flags?: string[] | null;
   created_at: string;
   updated_at: string;
 }
@@ -669,12 +684,25 @@ export const assignAmbulance = async (
 };
 
 /**
- * Update emergency request status
+ * Update emergency request status directly in Supabase. The change is
+ * validated against the lifecycle state machine for `transition.role`.
  */
 export const updateEmergencyStatus = async (
   emergencyId: string,
-  status: EmergencyRequest["status"],
+  status: EmergencyStatus,
+  transition: {
+    role: EmergencyActorRole;
+    from: EmergencyStatus;
+    createdAt?: string | null;
+  },
 ): Promise<{ success: boolean; error: Error | null }> => {
+  const invalid = getEmergencyTransitionError({
+    emergencyId,
+    to: status,
+    ...transition,
+  });
+  if (invalid) return { success: false, error: invalid };
+
   try {
     const { error } = await supabase
       .from("emergency_requests")
@@ -725,6 +753,44 @@ export const updateEmergencyStatus = async (
       }
     }
 
+    notifyEmergencyTransition({
+      emergencyId,
+      role: transition.role,
+      from: transition.from,
+      to: status,
+      queued: false,
+    });
+    return { success: true, error: null };
+  } catch (error) {
+    return { success: false, error: error as Error };
+  }
+};
+
+/**
+ * Hospital handover update (at_hospital, completed) through the backend.
+ */
+export const updateHospitalEmergencyStatus = async (
+  emergencyId: string,
+  status: EmergencyStatus,
+  from: EmergencyStatus,
+): Promise<{ success: boolean; error: Error | null }> => {
+  const invalid = getEmergencyTransitionError({
+    emergencyId,
+    role: "hospital",
+    from,
+    to: status,
+  });
+  if (invalid) return { success: false, error: invalid };
+
+  try {
+    await backendPut(`/ops/emergencies/${emergencyId}/status`, { status });
+    notifyEmergencyTransition({
+      emergencyId,
+      role: "hospital",
+      from,
+      to: status,
+      queued: false,
+    });
     return { success: true, error: null };
   } catch (error) {
     return { success: false, error: error as Error };
@@ -912,7 +978,7 @@ export const getTrafficAwareDispatch = async (input: {
   maxRadiusKm?: number;
   trafficLevel?: "low" | "moderate" | "high" | "severe";
 }) =>
-  backendPost("/ops/dispatch/traffic-aware", {
+  backendPost<TrafficAwareDispatchResponse>("/ops/dispatch/traffic-aware", {
     latitude: input.latitude,
     longitude: input.longitude,
     max_radius_km: input.maxRadiusKm ?? 60,
@@ -929,7 +995,7 @@ export const getExplainableTriage = async (input: {
   strokeSymptoms?: boolean;
   trauma?: boolean;
 }) =>
-  backendPost("/ops/triage/explainable", {
+  backendPost<ExplainableTriageResponse>("/ops/triage/explainable", {
     severity: input.severity,
     age: input.age,
     conscious: input.conscious ?? true,
@@ -940,18 +1006,22 @@ export const getExplainableTriage = async (input: {
     trauma: input.trauma ?? false,
   });
 
+export type { OfflineSyncResponse, OfflineSyncResult } from "./contracts";
+
 export const syncOfflineQueue = async (
   items: {
-    type: "location_ping" | "emergency_create" | "status_update";
+    type: "location_ping" | "emergency_create" | "status_update" | "medical_note";
     payload: Record<string, unknown>;
     queuedAt?: string;
+    idempotencyKey?: string;
   }[],
 ) =>
-  backendPost("/ops/offline/sync", {
+  backendPost<OfflineSyncResponse>("/ops/offline/sync", {
     items: items.map((item) => ({
       type: item.type,
       payload: item.payload,
       queued_at: item.queuedAt,
+      idempotency_key: item.idempotencyKey,
     })),
   });
 
@@ -960,31 +1030,33 @@ export const addEmergencyTimelineEvent = async (input: {
   eventType: string;
   details?: Record<string, unknown>;
 }) =>
-  backendPost("/ops/timeline/events", {
+  backendPost<TimelineEvent>("/ops/timeline/events", {
     emergency_id: input.emergencyId,
     event_type: input.eventType,
     details: input.details ?? {},
   });
 
 export const getEmergencyTimeline = async (emergencyId: string) =>
-  backendGet(
+  backendGet<TimelineEvent[]>(
     `/ops/timeline/events?emergency_id=${encodeURIComponent(emergencyId)}`,
   );
 
 export const getHospitalCapacityBoard = async () =>
-  backendGet("/ops/capacity/hospitals");
+  backendGet<HospitalCapacityBoardResponse>("/ops/capacity/hospitals");
 
 export const createFamilyShareLink = async (input: {
   emergencyId: string;
   expiresMinutes?: number;
 }) =>
-  backendPost("/ops/family/share", {
+  backendPost<FamilyShareResponse>("/ops/family/share", {
     emergency_id: input.emergencyId,
     expires_minutes: input.expiresMinutes ?? 180,
   });
 
 export const resolveFamilyShareLink = async (token: string) =>
-  backendGet(`/ops/family/share?share_token=${encodeURIComponent(token)}`);
+  backendGet<FamilyShareResponse>(
+    `/ops/family/share?share_token=${encodeURIComponent(token)}`,
+  );
 
 export const getDriverSafetyScore = async (input: {
   speedKmh: number;
@@ -992,7 +1064,7 @@ export const getDriverSafetyScore = async (input: {
   harshAccelCount?: number;
   hardTurnCount?: number;
 }) =>
-  backendPost("/ops/driver/safety", {
+  backendPost<DriverSafetyResponse>("/ops/driver/safety", {
     speed_kmh: input.speedKmh,
     harsh_brake_count: input.harshBrakeCount ?? 0,
     harsh_accel_count: input.harshAccelCount ?? 0,
@@ -1006,7 +1078,7 @@ export const getGpsTrustScore = async (input: {
   referenceLongitude?: number;
   gpsAgeSeconds?: number;
 }) =>
-  backendPost("/ops/trust/gps-confidence", {
+  backendPost<GpsConfidenceResponse>("/ops/trust/gps-confidence", {
     reported_latitude: input.reportedLatitude,
     reported_longitude: input.reportedLongitude,
     reference_latitude: input.referenceLatitude,
@@ -1015,12 +1087,14 @@ export const getGpsTrustScore = async (input: {
   });
 
 export const getOperationsInsights = async (days: number = 7) =>
-  backendGet(`/ops/insights/operations?days=${days}`);
+  backendGet<OperationsInsightsResponse>(
+    `/ops/insights/operations?days=${days}`,
+  );
 
 export const getContextualFirstAid = async (
   symptom: string,
   language: "en" | "am" = "en",
 ) =>
-  backendGet(
+  backendGet<ContextualFirstAidResponse>(
     `/ops/first-aid/contextual?symptom=${encodeURIComponent(symptom)}&language=${language}`,
   );
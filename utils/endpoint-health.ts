@@ -0,0 +1,155 @@
+/**
+ * Health scoring for backend mirrors.
+ *
+ * Tracks latency and failures per candidate base URL, keeps the chosen
+ * endpoint sticky while it stays healthy and opens a circuit on mirrors that
+ * keep failing so requests stop paying their timeout. Pure logic — the API
+ * client feeds it request outcomes and `/health` probe results.
+ */
+
+export interface EndpointHealth {
+  url: string;
+  /** Smoothed round-trip latency, null until the first success. */
+  latencyMs: number | null;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastCheckedAt: number | null;
+  lastError: string | null;
+  /** Epoch ms until which the circuit is open (0 when closed). */
+  circuitOpenUntil: number;
+}
+
+export interface EndpointHealthSnapshot {
+  active: string;
+  endpoints: (EndpointHealth & { circuitOpen: boolean })[];
+}
+
+/** Consecutive failures before a mirror is circuit-broken. */
+export const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_BASE_OPEN_MS = 30 * 1000;
+const CIRCUIT_MAX_OPEN_MS = 5 * 60 * 1000;
+const LATENCY_SMOOTHING = 0.3;
+/** Latency assumed for never-measured mirrors, before the list-order bonus. */
+const UNKNOWN_LATENCY_MS = 1500;
+/** A healthy active endpoint is only replaced by one at least this much faster. */
+const STICKY_SPEEDUP_RATIO = 0.5;
+
+export interface EndpointHealthTracker {
+  recordSuccess: (url: string, latencyMs: number) => void;
+  recordFailure: (url: string, error?: unknown) => void;
+  /** Active endpoint first, then healthy mirrors by score, open circuits last. */
+  getOrder: () => string[];
+  getActive: () => string;
+  snapshot: () => EndpointHealthSnapshot;
+}
+
+export function createEndpointHealthTracker(
+  urls: string[],
+  now: () => number = Date.now,
+): EndpointHealthTracker {
+  const endpoints = new Map<string, EndpointHealth>();
+  urls.forEach((url) =>
+    endpoints.set(url, {
+      url,
+      latencyMs: null,
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastCheckedAt: null,
+      lastError: null,
+      circuitOpenUntil: 0,
+    }),
+  );
+  let active = urls[0];
+
+  const isOpen = (entry: EndpointHealth) => entry.circuitOpenUntil > now();
+
+  const score = (entry: EndpointHealth) =>
+    (entry.latencyMs ?? UNKNOWN_LATENCY_MS + urls.indexOf(entry.url) * 10) +
+    entry.consecutiveFailures * 5000;
+
+  const ranked = () =>
+    [...endpoints.values()].sort((a, b) => {
+      const openDiff = Number(isOpen(a)) - Number(isOpen(b));
+      return openDiff !== 0 ? openDiff : score(a) - score(b);
+    });
+
+  const reselect = () => {
+    const current = endpoints.get(active);
+    const best = ranked()[0];
+    if (!best || !current) {
+      active = best?.url ?? active;
+      return;
+    }
+    const currentHealthy = !isOpen(current) && current.consecutiveFailures === 0;
+    if (!currentHealthy) {
+      active = best.url;
+      return;
+    }
+    if (
+      best.url !== current.url &&
+      best.latencyMs !== null &&
+      current.latencyMs !== null &&
+      best.latencyMs < current.latencyMs * STICKY_SPEEDUP_RATIO
+    ) {
+      active = best.url;
+    }
+  };
+
+  return {
+    recordSuccess(url, latencyMs) {
+      const entry = endpoints.get(url);
+      if (!entry) return;
+      entry.successes += 1;
+      entry.consecutiveFailures = 0;
+      entry.circuitOpenUntil = 0;
+      entry.lastError = null;
+      entry.lastCheckedAt = now();
+      entry.latencyMs =
+        entry.latencyMs === null
+          ? latencyMs
+          : Math.round(
+              entry.latencyMs * (1 - LATENCY_SMOOTHING) +
+                latencyMs * LATENCY_SMOOTHING,
+            );
+      reselect();
+    },
+
+    recordFailure(url, error) {
+      const entry = endpoints.get(url);
+      if (!entry) return;
+      entry.failures += 1;
+      entry.consecutiveFailures += 1;
+      entry.lastCheckedAt = now();
+      entry.lastError = String((error as any)?.message || error || "failed");
+      if (entry.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+        const openFor = Math.min(
+          CIRCUIT_MAX_OPEN_MS,
+          CIRCUIT_BASE_OPEN_MS *
+            2 ** (entry.consecutiveFailures - CIRCUIT_FAILURE_THRESHOLD),
+        );
+        entry.circuitOpenUntil = now() + openFor;
+      }
+      reselect();
+    },
+
+    getOrder() {
+      return [active, ...ranked().map((e) => e.url).filter((u) => u !== active)];
+    },
+
+    getActive() {
+      return active;
+    },
+
+    snapshot() {
+      return {
+        active,
+        endpoints: urls.map((url) => {
+          const entry = endpoints.get(url)!;
+          return { ...entry, circuitOpen: isOpen(entry) };
+        }),
+      };
+    },
+  };
+}
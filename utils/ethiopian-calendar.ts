@@ -0,0 +1,136 @@
+/**
+ * Gregorian ⇄ Ethiopian calendar conversion.
+ *
+ * The Ethiopian year has twelve 30-day months plus Pagume, a 13th month of
+ * 5 days (6 in the year before a Gregorian leap year). Conversion goes
+ * through the Julian Day Number, counted from the Amete Mihret epoch. The
+ * Ethiopian clock counts hours from 6 o'clock instead of midnight.
+ */
+
+export interface CalendarDate {
+  year: number;
+  /** 1-based; 13 is Pagume in the Ethiopian calendar. */
+  month: number;
+  day: number;
+}
+
+/** Julian Day Number offset of the Amete Mihret era. */
+const AMETE_MIHRET_EPOCH = 1723856;
+
+const gregorianToJdn = ({ year, month, day }: CalendarDate): number => {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  return (
+    day +
+    Math.floor((153 * m + 2) / 5) +
+    365 * y +
+    Math.floor(y / 4) -
+    Math.floor(y / 100) +
+    Math.floor(y / 400) -
+    32045
+  );
+};
+
+const jdnToGregorian = (jdn: number): CalendarDate => {
+  const a = jdn + 32044;
+  const b = Math.floor((4 * a + 3) / 146097);
+  const c = a - Math.floor((146097 * b) / 4);
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+  return {
+    year: 100 * b + d - 4800 + Math.floor(m / 10),
+    month: m + 3 - 12 * Math.floor(m / 10),
+    day: e - Math.floor((153 * m + 2) / 5) + 1,
+  };
+};
+
+const ethiopianToJdn = ({ year, month, day }: CalendarDate): number =>
+  AMETE_MIHRET_EPOCH +
+  365 +
+  365 * (year - 1) +
+  Math.floor(year / 4) +
+  30 * month +
+  day -
+  31;
+
+const jdnToEthiopian = (jdn: number): CalendarDate => {
+  const days = jdn - AMETE_MIHRET_EPOCH;
+  const r = ((days % 1461) + 1461) % 1461;
+  const n = (r % 365) + 365 * Math.floor(r / 1460);
+  return {
+    year:
+      4 * Math.floor(days / 1461) + Math.floor(r / 365) - Math.floor(r / 1460),
+    month: Math.floor(n / 30) + 1,
+    day: (n % 30) + 1,
+  };
+};
+
+/** Pagume has 6 days in years before a Gregorian leap year (… 2011, 2015). */
+export const isEthiopianLeapYear = (year: number): boolean =>
+  ((year % 4) + 4) % 4 === 3;
+
+export const daysInEthiopianMonth = (year: number, month: number): number =>
+  month === 13 ? (isEthiopianLeapYear(year) ? 6 : 5) : 30;
+
+export const isValidEthiopianDate = ({ year, month, day }: CalendarDate) =>
+  Number.isInteger(year) &&
+  Number.isInteger(month) &&
+  Number.isInteger(day) &&
+  month >= 1 &&
+  month <= 13 &&
+  day >= 1 &&
+  day <= daysInEthiopianMonth(year, month);
+
+export const toEthiopianDate = (date: CalendarDate): CalendarDate =>
+  jdnToEthiopian(gregorianToJdn(date));
+
+/** @throws RangeError for a day that does not exist, e.g. Pagume 6 of 2016. */
+export const toGregorianDate = (date: CalendarDate): CalendarDate => {
+  if (!isValidEthiopianDate(date)) {
+    throw new RangeError(
+      `Invalid Ethiopian date ${date.year}-${date.month}-${date.day}`,
+    );
+  }
+  return jdnToGregorian(ethiopianToJdn(date));
+};
+
+/** The Ethiopian date of a JS Date, read in local time. */
+export const ethiopianDateOf = (date: Date): CalendarDate =>
+  toEthiopianDate({
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+  });
+
+/* ─── Ethiopian clock ─────────────────────────────────────────── */
+
+/** Part of the day an Ethiopian clock time is read in. */
+export type DayPeriod = "night" | "morning" | "afternoon" | "evening";
+
+export interface EthiopianTime {
+  /** 1–12, counted from 6 o'clock (sunrise and sunset). */
+  hour: number;
+  minute: number;
+  period: DayPeriod;
+}
+
+/**
+ * The Ethiopian 12-hour clock starts its count at 06:00 and 18:00, so
+ * 07:00 is 1 in the morning and 13:30 is 7:30 in the afternoon.
+ */
+export const toEthiopianTime = (
+  hours: number,
+  minutes: number,
+): EthiopianTime => {
+  const period: DayPeriod =
+    hours < 6
+      ? "night"
+      : hours < 12
+      ? "morning"
+      : hours < 18
+      ? "afternoon"
+      : "evening";
+  return { hour: (hours + 6) % 12 || 12, minute: minutes, period };
+};
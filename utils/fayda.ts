@@ -3,37 +3,18 @@ import * as WebBrowser from "expo-web-browser";
 import { Platform } from "react-native";
 
 import { backendGet, backendPost } from "./api";
-
-export type FaydaPurpose = "login" | "register";
-
-export interface FaydaAuthorizeResponse {
-  authorization_url: string;
-  state: string;
-  expires_in: number;
-  redirect_uri: string;
-}
-
-export interface FaydaMatchedProfile {
-  exists: boolean;
-  user_id?: string | null;
-  role?: string | null;
-  full_name?: string | null;
-  phone?: string | null;
-}
-
-export interface FaydaExchangeResponse {
-  verified: boolean;
-  purpose: FaydaPurpose;
-  individual_id?: string | null;
-  full_name?: string | null;
-  given_name?: string | null;
-  family_name?: string | null;
-  phone_number?: string | null;
-  email?: string | null;
-  birthdate?: string | null;
-  gender?: string | null;
-  matched_profile: FaydaMatchedProfile;
-}
+import type {
+  FaydaAuthorizeResponse,
+  FaydaExchangeResponse,
+  FaydaPurpose,
+} from "./contracts";
+
+export type {
+  FaydaAuthorizeResponse,
+  FaydaExchangeResponse,
+  FaydaMatchedProfile,
+  FaydaPurpose,
+} from "./contracts";
 
 const FALLBACK_REDIRECT_URI = "ambulanceemergencyapp://fayda/callback";
 
@@ -1,53 +1,131 @@
-import { backendPost } from "./api";
+import { backendPost, backendStream } from "./api";
+import { CancelledError } from "./api-errors";
 import type { BotMessage, Message } from "./first-aid-chatbot";
+import { getOfflineFirstAidResponse } from "./first-aid-pack";
 import type { Lang } from "./i18n-first-aid";
 
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
 export const isFirstAidAiConfigured = (): boolean => true;
 
 const toChatRole = (role: Message["role"]): "assistant" | "user" =>
   role === "bot" ? "assistant" : "user";
 
+const toChatRequest = (userInput: string, history: Message[], lang: Lang) => ({
+  message: userInput,
+  history: history.slice(-8).map((msg) => ({
+    role: toChatRole(msg.role),
+    content: msg.text,
+  })),
+  lang,
+});
+
+// Strip any leftover markdown asterisks
+const cleanReply = (text: string) => text.replace(/\*+/g, "");
+
 /**
  * Send user input + conversation history to the DeepSeek backend.
- * ALL responses come from DeepSeek — no local hardcoded answers.
+ * When the backend fails or returns nothing, answer from the bundled
+ * first-aid pack instead; those replies are marked `offline`. Aborting
+ * `options.signal` resolves with an empty reply marked `stopped`.
  */
 export const getFirstAidAiResponse = async (
   userInput: string,
   history: Message[],
   lang: Lang = "en",
-): Promise<BotMessage | null> => {
-  const contextMessages = history.slice(-8).map((msg) => ({
-    role: toChatRole(msg.role),
-    content: msg.text,
-  }));
-  const startedAt = Date.now();
-
+  options: { signal?: AbortSignal } = {},
+): Promise<BotMessage> => {
   try {
-    const data = await backendPost<{ reply?: string }>("/chat", {
-      message: userInput,
-      history: contextMessages,
-      lang,
-    });
+    const data = await backendPost<{ reply?: string }>(
+      "/chat",
+      toChatRequest(userInput, history, lang),
+      { signal: options.signal },
+    );
 
-    let replyText = typeof data?.reply === "string" ? data.reply.trim() : "";
-    // Strip any leftover markdown asterisks
-    replyText = replyText.replace(/\*+/g, "");
-
-    if (!replyText) return null;
-
-    const elapsed = Date.now() - startedAt;
-    if (elapsed < 300) {
-      await sleep(300 - elapsed);
-    }
+    const replyText = cleanReply(
+      typeof data?.reply === "string" ? data.reply.trim() : "",
+    );
+    if (!replyText) return getOfflineFirstAidResponse(userInput, lang);
 
     return {
       role: "bot",
       text: replyText,
     };
   } catch (error) {
+    if (error instanceof CancelledError) {
+      return { role: "bot", text: "", stopped: true };
+    }
     console.warn("DeepSeek backend request failed:", error);
-    return null;
+    return getOfflineFirstAidResponse(userInput, lang);
+  }
+};
+
+export interface FirstAidStreamOptions {
+  /** Aborting stops the stream and keeps the text received so far. */
+  signal?: AbortSignal;
+  /** Called with the full reply text received so far. */
+  onText?: (text: string) => void;
+}
+
+/**
+ * Stream the reply from `POST /chat/stream`, reporting partial text as it
+ * arrives. When streaming fails the non-streaming `/chat` route (and from
+ * there the offline pack) is used instead. A cancelled request resolves
+ * with the partial reply marked `stopped`.
+ */
+export const streamFirstAidAiResponse = async (
+  userInput: string,
+  history: Message[],
+  lang: Lang = "en",
+  options: FirstAidStreamOptions = {},
+): Promise<BotMessage> => {
+  const { signal, onText } = options;
+  let streamed = "";
+  let finalReply = null as string | null;
+  let streamError = null as string | null;
+
+  const stoppedReply = (): BotMessage => ({
+    role: "bot",
+    text: cleanReply(streamed).trim(),
+    stopped: true,
+  });
+  // Servers without `/chat/stream` answer here; Stop still applies.
+  const fallback = async () => {
+    const reply = await getFirstAidAiResponse(userInput, history, lang, {
+      signal,
+    });
+    return reply.stopped ? stoppedReply() : reply;
+  };
+
+  try {
+    await backendStream(
+      "/chat/stream",
+      toChatRequest(userInput, history, lang),
+      {
+        signal,
+        onEvent: ({ event, data }) => {
+          let payload: { text?: unknown; reply?: unknown; detail?: unknown };
+          try {
+            payload = JSON.parse(data);
+          } catch {
+            return;
+          }
+          if (event === "delta" && typeof payload.text === "string") {
+            streamed += payload.text;
+            onText?.(cleanReply(streamed));
+          } else if (event === "done" && typeof payload.reply === "string") {
+            finalReply = cleanReply(payload.reply.trim());
+          } else if (event === "error") {
+            streamError = String(payload.detail ?? "AI stream failed");
+          }
+        },
+      },
+    );
+  } catch (error) {
+    if (error instanceof CancelledError) return stoppedReply();
+    console.warn("Streaming chat failed, retrying without streaming:", error);
+    return fallback();
   }
+
+  if (finalReply) return { role: "bot", text: finalReply };
+  if (streamError) console.warn("Streaming chat failed:", streamError);
+  return fallback();
 };
@@ -1,7 +1,8 @@
 /**
  * First Aid Chatbot — type exports only.
  *
- * All actual responses are powered by DeepSeek AI via the backend.
+ * Responses are powered by DeepSeek AI via the backend, with the bundled
+ * pack in first-aid-pack.ts as the offline fallback.
  * This file only exports the shared types used across the app.
  */
 
@@ -9,6 +10,12 @@ export interface BotMessage {
   role: "bot";
   text: string;
   followUps?: string[];
+  /** True when the answer came from the offline first-aid pack. */
+  offline?: boolean;
+  protocolId?: string;
+  packVersion?: string;
+  /** True when the user stopped the reply while it was streaming. */
+  stopped?: boolean;
 }
 
 export interface UserMessage {
@@ -0,0 +1,238 @@
+/**
+ * Guided first-aid coach — the counting and timing rules behind the CPR and
+ * choking runner in app/first-aid-coach.tsx.
+ *
+ * Everything here is pure state so the screen only owns timers, haptics and
+ * speech. Completed sessions are logged on the emergency timeline so the
+ * arriving crew can see how long CPR has been running.
+ */
+import { recordTimelineEvent } from "./emergency-timeline";
+
+/* ─── Protocols ───────────────────────────────────────────────── */
+
+export type CoachProtocol =
+  | "cpr_adult"
+  | "cpr_child"
+  | "cpr_infant"
+  | "choking";
+
+export const COACH_PROTOCOLS: CoachProtocol[] = [
+  "cpr_adult",
+  "cpr_child",
+  "cpr_infant",
+  "choking",
+];
+
+export const isCoachProtocol = (value: unknown): value is CoachProtocol =>
+  COACH_PROTOCOLS.includes(value as CoachProtocol);
+
+export const isCprProtocol = (protocol: CoachProtocol) =>
+  protocol !== "choking";
+
+/* ─── CPR ─────────────────────────────────────────────────────── */
+
+export const COMPRESSION_RATE_MIN_BPM = 100;
+export const COMPRESSION_RATE_MAX_BPM = 120;
+export const COMPRESSION_RATE_DEFAULT_BPM = 110;
+export const COMPRESSIONS_PER_CYCLE = 30;
+export const BREATHS_PER_CYCLE = 2;
+/** Time allowed for two rescue breaths before compressions resume. */
+export const BREATH_PAUSE_MS = 5000;
+
+export const clampCompressionRate = (bpm: number): number =>
+  Number.isFinite(bpm)
+    ? Math.min(
+        COMPRESSION_RATE_MAX_BPM,
+        Math.max(COMPRESSION_RATE_MIN_BPM, Math.round(bpm)),
+      )
+    : COMPRESSION_RATE_DEFAULT_BPM;
+
+/** Metronome tick interval for a compression rate. */
+export const beatIntervalMs = (bpm: number): number =>
+  Math.round(60000 / clampCompressionRate(bpm));
+
+export type CprPhase = "compressions" | "breaths";
+
+export interface CprCounter {
+  phase: CprPhase;
+  /** 1-based cycle currently in progress. */
+  cycle: number;
+  compressionInCycle: number;
+  totalCompressions: number;
+  completedCycles: number;
+  /** Hands-only CPR never pauses for breaths. */
+  handsOnly: boolean;
+}
+
+export const createCprCounter = (handsOnly = false): CprCounter => ({
+  phase: "compressions",
+  cycle: 1,
+  compressionInCycle: 0,
+  totalCompressions: 0,
+  completedCycles: 0,
+  handsOnly,
+});
+
+/**
+ * Advance the 30:2 count by one metronome beat ("compression") or by the
+ * end of the breath pause ("breaths_done"). Events that do not fit the
+ * current phase are ignored.
+ */
+export const advanceCprCounter = (
+  counter: CprCounter,
+  event: "compression" | "breaths_done",
+): CprCounter => {
+  if (event === "breaths_done") {
+    if (counter.phase !== "breaths") return counter;
+    return {
+      ...counter,
+      phase: "compressions",
+      cycle: counter.cycle + 1,
+      compressionInCycle: 0,
+      completedCycles: counter.completedCycles + 1,
+    };
+  }
+
+  if (counter.phase !== "compressions") return counter;
+  const compressionInCycle = counter.compressionInCycle + 1;
+  const next = {
+    ...counter,
+    compressionInCycle,
+    totalCompressions: counter.totalCompressions + 1,
+  };
+  if (compressionInCycle < COMPRESSIONS_PER_CYCLE) return next;
+  if (counter.handsOnly) {
+    return {
+      ...next,
+      cycle: counter.cycle + 1,
+      compressionInCycle: 0,
+      completedCycles: counter.completedCycles + 1,
+    };
+  }
+  return { ...next, phase: "breaths" };
+};
+
+/* ─── Choking ─────────────────────────────────────────────────── */
+
+export const CHOKING_BLOWS_PER_SET = 5;
+
+export type ChokingAction = "back_blows" | "thrusts";
+
+export interface ChokingCounter {
+  action: ChokingAction;
+  countInSet: number;
+  /** Completed pairs of back-blow and thrust sets. */
+  rounds: number;
+}
+
+export const createChokingCounter = (): ChokingCounter => ({
+  action: "back_blows",
+  countInSet: 0,
+  rounds: 0,
+});
+
+/** Count one back blow or thrust, switching action after every set of five. */
+export const advanceChokingCounter = (
+  counter: ChokingCounter,
+): ChokingCounter => {
+  const countInSet = counter.countInSet + 1;
+  if (countInSet < CHOKING_BLOWS_PER_SET) return { ...counter, countInSet };
+  return counter.action === "back_blows"
+    ? { ...counter, action: "thrusts", countInSet: 0 }
+    : { action: "back_blows", countInSet: 0, rounds: counter.rounds + 1 };
+};
+
+/* ─── Sessions ────────────────────────────────────────────────── */
+
+export type CoachOutcome =
+  | "help_arrived"
+  | "breathing_restored"
+  | "object_cleared"
+  | "switched_to_cpr"
+  | "stopped";
+
+export interface CoachSessionSummary {
+  protocol: CoachProtocol;
+  startedAt: string;
+  endedAt: string;
+  durationSeconds: number;
+  outcome: CoachOutcome;
+  compressionRateBpm?: number;
+  totalCompressions?: number;
+  completedCycles?: number;
+  handsOnly?: boolean;
+  chokingRounds?: number;
+}
+
+export const formatElapsed = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const mm = String(Math.floor(seconds / 60)).padStart(2, "0");
+  const ss = String(seconds % 60).padStart(2, "0");
+  return `${mm}:${ss}`;
+};
+
+export const summarizeCprSession = (input: {
+  protocol: CoachProtocol;
+  startedAt: Date;
+  endedAt?: Date;
+  counter: CprCounter;
+  bpm: number;
+  outcome: CoachOutcome;
+}): CoachSessionSummary => {
+  const endedAt = input.endedAt ?? new Date();
+  return {
+    protocol: input.protocol,
+    startedAt: input.startedAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+    durationSeconds: Math.max(
+      0,
+      Math.round((endedAt.getTime() - input.startedAt.getTime()) / 1000),
+    ),
+    outcome: input.outcome,
+    compressionRateBpm: clampCompressionRate(input.bpm),
+    totalCompressions: input.counter.totalCompressions,
+    completedCycles: input.counter.completedCycles,
+    handsOnly: input.counter.handsOnly,
+  };
+};
+
+export const summarizeChokingSession = (input: {
+  startedAt: Date;
+  endedAt?: Date;
+  counter: ChokingCounter;
+  outcome: CoachOutcome;
+}): CoachSessionSummary => {
+  const endedAt = input.endedAt ?? new Date();
+  return {
+    protocol: "choking",
+    startedAt: input.startedAt.toISOString(),
+    endedAt: endedAt.toISOString(),
+    durationSeconds: Math.max(
+      0,
+      Math.round((endedAt.getTime() - input.startedAt.getTime()) / 1000),
+    ),
+    outcome: input.outcome,
+    chokingRounds: input.counter.rounds,
+  };
+};
+
+/**
+ * Record a finished session on the emergency timeline. Sessions run without
+ * an active emergency are not recorded.
+ */
+export const logCoachSession = (
+  emergencyId: string | null | undefined,
+  summary: CoachSessionSummary,
+): Promise<void> =>
+  recordTimelineEvent(emergencyId, "first_aid_session", {
+    protocol: summary.protocol,
+    started_at: summary.startedAt,
+    ended_at: summary.endedAt,
+    duration_seconds: summary.durationSeconds,
+    outcome: summary.outcome,
+    compression_rate_bpm: summary.compressionRateBpm ?? null,
+    total_compressions: summary.totalCompressions ?? null,
+    completed_cycles: summary.completedCycles ?? null,
+    hands_only: summary.handsOnly ?? null,
+    choking_rounds: summary.chokingRounds ?? null,
+  });
@@ -0,0 +1,530 @@
+/**
+ * Offline first-aid knowledge pack.
+ *
+ * A small, bundled set of protocols the chatbot falls back to when the AI
+ * backend cannot be reached. Each protocol carries keywords/symptoms in
+ * every supported language; the matcher scores the user's message against
+ * them and returns the best protocol in the requested language.
+ *
+ * Bump FIRST_AID_PACK_VERSION whenever protocol content changes so answers
+ * can be traced back to the pack they came from.
+ */
+import type { BotMessage } from "./first-aid-chatbot";
+import type { Lang } from "./i18n-first-aid";
+
+export const FIRST_AID_PACK_VERSION = "2026.10.1";
+
+export type FirstAidProtocolId =
+  | "bleeding"
+  | "burns"
+  | "choking"
+  | "cpr"
+  | "fracture"
+  | "seizure"
+  | "snake_bite"
+  | "childbirth";
+
+interface LocalizedProtocol {
+  title: string;
+  steps: string[];
+}
+
+export interface FirstAidProtocol {
+  id: FirstAidProtocolId;
+  /** Lower-case words or phrases; a phrase match scores higher than a word. */
+  keywords: Record<Lang, string[]>;
+  content: Record<Lang, LocalizedProtocol>;
+}
+
+/* ─── Protocols ───────────────────────────────────────────────── */
+
+export const FIRST_AID_PROTOCOLS: FirstAidProtocol[] = [
+  {
+    id: "bleeding",
+    keywords: {
+      en: ["bleeding", "blood", "cut", "wound", "stab", "laceration"],
+      am: ["ደም", "መድማት", "እየደማ", "ቁስል", "መቆረጥ", "ተቆረጠ"],
+      om: ["dhiiga", "dhiiga dhangala'aa", "madaa", "kutame", "kutaa"],
+    },
+    content: {
+      en: {
+        title: "Severe bleeding",
+        steps: [
+          "Press firmly on the wound with a clean cloth or your hand.",
+          "Keep steady pressure for at least 10 minutes without lifting to check.",
+          "If blood soaks through, add more cloth on top — do not remove the first layer.",
+          "Raise the injured limb above the heart if no bone is broken.",
+          "Keep the person lying down and warm; call 911 if bleeding does not stop.",
+        ],
+      },
+      am: {
+        title: "ከባድ የደም መፍሰስ",
+        steps: [
+          "ቁስሉን በንጹህ ጨርቅ ወይም በእጅዎ አጥብቀው ይጫኑ።",
+          "ሳያነሱ ቢያንስ ለ10 ደቂቃ ግፊቱን ይቀጥሉ።",
+          "ደሙ ጨርቁን ካለፈ ሌላ ጨርቅ ከላይ ይጨምሩ — የመጀመሪያውን አያንሱ።",
+          "አጥንት ካልተሰበረ የተጎዳውን አካል ከልብ በላይ ያንሱ።",
+          "ሰውየውን አስተኝተው ያሙቁ፤ ደሙ ካልቆመ 911 ይደውሉ።",
+        ],
+      },
+      om: {
+        title: "Dhiiga cimaa dhangala'uu",
+        steps: [
+          "Madaa sana huccuu qulqulluu ykn harka keessaniin jabeessaa dhiibaa.",
+          "Osoo hin kaasin yoo xiqqaate daqiiqaa 10f dhiibbaa itti fufaa.",
+          "Dhiigni yoo huccuu keessa darbe, huccuu biraa irratti dabalaa — kan jalqabaa hin kaasinaa.",
+          "Lafeen yoo hin cabne, qaama miidhame onnee ol ol kaasaa.",
+          "Namicha ciibsaatii ho'isaa; dhiigni yoo hin dhaabbanne 911 bilbilaa.",
+        ],
+      },
+    },
+  },
+  {
+    id: "burns",
+    keywords: {
+      en: ["burn", "burned", "burnt", "scald", "fire", "hot water"],
+      am: ["ቃጠሎ", "ተቃጠለ", "እሳት", "የፈላ ውሃ"],
+      om: ["gubate", "gubachuu", "ibidda", "bishaan danfaa"],
+    },
+    content: {
+      en: {
+        title: "Burns",
+        steps: [
+          "Move away from the source of heat and stop the burning.",
+          "Cool the burn under cool running water for 20 minutes — no ice, butter or oil.",
+          "Remove rings, watches and tight clothing near the burn unless stuck to the skin.",
+          "Cover loosely with clean plastic wrap or a clean, non-fluffy cloth.",
+          "Call 911 for large burns, burns to the face, hands or genitals, or if breathing is affected.",
+        ],
+      },
+      am: {
+        title: "ቃጠሎ",
+        steps: [
+          "ከሙቀቱ ምንጭ ይራቁ እና ቃጠሎውን ያስቁሙ።",
+          "ቃጠሎውን በሚፈስ ቀዝቃዛ ውሃ ለ20 ደቂቃ ያቀዝቅዙ — በረዶ፣ ቅቤ ወይም ዘይት አይጠቀሙ።",
+          "ከቆዳው ጋር ካልተጣበቁ በስተቀር ቀለበት፣ ሰዓት እና ጠባብ ልብስ ያውልቁ።",
+          "በንጹህ ፕላስቲክ ወይም በንጹህ ጨርቅ በቀስታ ይሸፍኑ።",
+          "ቃጠሎው ሰፊ ከሆነ፣ ፊት፣ እጅ ወይም ብልት ላይ ከሆነ ወይም መተንፈስ ከከበደ 911 ይደውሉ።",
+        ],
+      },
+      om: {
+        title: "Gubachuu",
+        steps: [
+          "Madda ho'aa irraa fagaadhaa gubachuu dhaabaa.",
+          "Iddoo gubate bishaan qabbanaa'aa yaa'uun daqiiqaa 20f qabbaneessaa — cabbii, dhadhaa ykn zayita hin fayyadaminaa.",
+          "Yoo gogaa irratti hin maxxanne, qubeelaa, sa'aatii fi uffata cimaa baasaa.",
+          "Huccuu qulqulluu ykn plaastikaa qulqulluun laaffisaa haguugaa.",
+          "Gubachuun bal'aa yoo ta'e, fuula, harka ykn qaama saalaa irra yoo ta'e, ykn hafuurri yoo rakkate 911 bilbilaa.",
+        ],
+      },
+    },
+  },
+  {
+    id: "choking",
+    keywords: {
+      en: [
+        "choking",
+        "choke",
+        "can't breathe",
+        "cannot breathe",
+        "swallowed",
+        "stuck in throat",
+      ],
+      am: ["ታነቀ", "መታነቅ", "መተንፈስ አልቻለም", "ጉሮሮ", "ዋጠ"],
+      om: [
+        "hudhame",
+        "hudhamuu",
+        "hafuura baafachuu hin danda'u",
+        "qoonqoo",
+        "liqimse",
+      ],
+    },
+    content: {
+      en: {
+        title: "Choking",
+        steps: [
+          'Ask "Are you choking?" If they can cough, encourage them to keep coughing.',
+          "If they cannot breathe, speak or cough: give up to 5 firm back blows between the shoulder blades.",
+          "Then give up to 5 abdominal thrusts: fist above the navel, pull sharply inwards and upwards.",
+          "Keep alternating 5 back blows and 5 thrusts until the object comes out.",
+          "If they become unresponsive, call 911 and start CPR.",
+        ],
+      },
+      am: {
+        title: "መታነቅ",
+        steps: [
+          '"ታንቀዋል?" ብለው ይጠይቁ። ማሳል ከቻሉ ማሳላቸውን እንዲቀጥሉ ያበረታቱ።',
+          "መተንፈስ፣ መናገር ወይም ማሳል ካልቻሉ በትከሻ ምላጮች መካከል እስከ 5 ጠንካራ የጀርባ ምቶች ይስጡ።",
+          "ከዚያ እስከ 5 የሆድ ግፊቶች ይስጡ፦ ቡጢዎን ከእምብርት በላይ አድርገው ወደ ውስጥና ወደ ላይ ይሳቡ።",
+          "ነገሩ እስኪወጣ 5 የጀርባ ምቶችና 5 ግፊቶችን እያፈራረቁ ይቀጥሉ።",
+          "ምላሽ መስጠት ካቆሙ 911 ይደውሉ እና CPR ይጀምሩ።",
+        ],
+      },
+      om: {
+        title: "Hudhamuu",
+        steps: [
+          "\"Hudhamtaniittuu?\" jedhaa gaafadhaa. Yoo qufaa'uu danda'an, akka itti fufan jajjabeessaa.",
+          "Yoo hafuura baafachuu, dubbachuu ykn qufaa'uu dadhaban: gidduu sarbaa lamaanii dugda isaanii irratti yoo baay'ate si'a 5 jabeessaa rukutaa.",
+          "Itti aansuun garaa irratti si'a 5 dhiibaa: harka kuusuun handhuuraa ol kaa'aatii gara keessaa fi gara olii harkisaa.",
+          "Wanti sun hanga ba'utti rukuttaa dugdaa 5 fi dhiibbaa garaa 5 wal jijjiirraa itti fufaa.",
+          "Yoo deebii kennuu dhaaban, 911 bilbilaatii CPR jalqabaa.",
+        ],
+      },
+    },
+  },
+  {
+    id: "cpr",
+    keywords: {
+      en: [
+        "cpr",
+        "not breathing",
+        "no pulse",
+        "unconscious",
+        "unresponsive",
+        "collapsed",
+        "cardiac arrest",
+        "heart stopped",
+      ],
+      am: ["አይተነፍስም", "ራሱን ሳተ", "ራሷን ሳተች", "ወደቀ", "ልብ ቆመ", "ምላሽ አይሰጥም"],
+      om: [
+        "hafuura hin baafatu",
+        "of wallaale",
+        "kufe",
+        "onneen dhaabbate",
+        "deebii hin kennu",
+      ],
+    },
+    content: {
+      en: {
+        title: "CPR — unresponsive and not breathing",
+        steps: [
+          "Check the scene is safe, tap the person and shout. If no response and no normal breathing, call 911.",
+          "Place the heel of your hand in the centre of the chest, other hand on top.",
+          "Push hard and fast: 5–6 cm deep, 100–120 compressions per minute.",
+          "If trained, give 2 rescue breaths after every 30 compressions; otherwise keep compressing.",
+          "Do not stop until help arrives, the person starts breathing, or you are too exhausted to continue.",
+        ],
+      },
+      am: {
+        title: "CPR — ምላሽ የማይሰጥ እና የማይተነፍስ",
+        steps: [
+          "ቦታው ደህንነቱ የተጠበቀ መሆኑን ያረጋግጡ፣ ሰውየውን ነካ አድርገው ይጣሩ። ምላሽ ከሌለ እና በትክክል ካልተነፈሰ 911 ይደውሉ።",
+          "የእጅዎን መዳፍ ታች በደረቱ መሀል ያድርጉ፤ ሌላኛውን እጅ ከላይ ያድርጉ።",
+          "በኃይል እና በፍጥነት ይጫኑ፦ 5–6 ሳ.ሜ ጥልቀት፣ በደቂቃ 100–120 ጊዜ።",
+          "ሰልጥነው ከሆነ ከእያንዳንዱ 30 ግፊት በኋላ 2 የአፍ ለአፍ ትንፋሽ ይስጡ፤ ካልሆነ መጫኑን ይቀጥሉ።",
+          "እርዳታ እስኪደርስ፣ ሰውየው መተንፈስ እስኪጀምር ወይም እስኪደክሙ ድረስ አያቁሙ።",
+        ],
+      },
+      om: {
+        title: "CPR — deebii hin kennu, hafuuras hin baafatu",
+        steps: [
+          "Iddichi nageenya qabaachuu mirkaneeffadhaa, namicha tuqaatii waamaa. Deebii yoo hin kennine fi sirriitti hafuura yoo hin baafanne 911 bilbilaa.",
+          "Jalee harka keessanii gidduu laphee irra kaa'aa, harka kaan irratti kaa'aa.",
+          "Jabinaa fi saffisaan dhiibaa: gadi fageenya sm 5–6, daqiiqaatti si'a 100–120.",
+          "Yoo leenjiftan, dhiibbaa 30 booda hafuura 2 kennaa; yoo hin leenjifne dhiibuu qofa itti fufaa.",
+          "Hanga gargaarsi dhufu, namichi hafuura baafachuu jalqabu ykn hanga dadhabdanitti hin dhaabinaa.",
+        ],
+      },
+    },
+  },
+  {
+    id: "fracture",
+    keywords: {
+      en: [
+        "fracture",
+        "broken bone",
+        "broken arm",
+        "broken leg",
+        "bone",
+        "sprain",
+        "dislocated",
+      ],
+      am: ["ስብራት", "አጥንት", "ተሰበረ", "ወለምታ", "ውልቃት"],
+      om: ["cabe", "lafee", "lafee cabe", "cabiinsa", "mukoo"],
+    },
+    content: {
+      en: {
+        title: "Suspected fracture",
+        steps: [
+          "Keep the injured part still — do not try to straighten it.",
+          "Support it in the position found with padding, a sling or a splint.",
+          "Apply a cold pack wrapped in cloth for up to 20 minutes to reduce swelling.",
+          "If bone is through the skin, cover the wound with a clean dressing without pressing on the bone.",
+          "Call 911 for injuries to the head, neck, back, hip or thigh, or if the limb is pale and cold.",
+        ],
+      },
+      am: {
+        title: "የተጠረጠረ ስብራት",
+        steps: [
+          "የተጎዳውን ክፍል እንዳይንቀሳቀስ ያድርጉ — ለማቃናት አይሞክሩ።",
+          "ባገኙት አቀማመጥ በጨርቅ፣ በማንጠልጠያ ወይም በመደገፊያ ይደግፉ።",
+          "እብጠትን ለመቀነስ በጨርቅ የተጠቀለለ ቀዝቃዛ ነገር እስከ 20 ደቂቃ ያድርጉ።",
+          "አጥንቱ ቆዳውን ከወጋ አጥንቱን ሳይጫኑ ቁስሉን በንጹህ ጨርቅ ይሸፍኑ።",
+          "ጉዳቱ ጭንቅላት፣ አንገት፣ ጀርባ፣ ዳሌ ወይም ጭን ላይ ከሆነ ወይም አካሉ ገርጥቶ ከቀዘቀዘ 911 ይደውሉ።",
+        ],
+      },
+      om: {
+        title: "Lafee cabuu shakkame",
+        steps: [
+          "Qaama miidhame akka hin sochoone godhaa — sirreessuuf hin yaalinaa.",
+          "Akkuma argametti huccuu, hidhaa ykn muka deggersaatiin deggeraa.",
+          "Dhiita'ina hir'isuuf waan qabbanaa'aa huccuun maramee hanga daqiiqaa 20 kaa'aa.",
+          "Lafeen gogaa keessaa yoo ba'e, lafee osoo hin dhiibin madaa huccuu qulqulluun haguugaa.",
+          "Miidhaan mataa, morma, dugda, mudhii ykn tafa irra yoo ta'e, ykn qaamni yoo daalatee qabbanaa'e 911 bilbilaa.",
+        ],
+      },
+    },
+  },
+  {
+    id: "seizure",
+    keywords: {
+      en: ["seizure", "fit", "convulsion", "convulsing", "epilepsy", "shaking"],
+      am: ["የሚጥል", "የሚጥል በሽታ", "መንቀጥቀጥ", "ተንዘፈዘፈ", "ጥሎ"],
+      om: ["dhukkuba kufaa", "kufaa", "hollachuu", "raafamuu"],
+    },
+    content: {
+      en: {
+        title: "Seizure",
+        steps: [
+          "Stay calm and note the time the seizure started.",
+          "Clear hard or sharp objects away and cushion the head.",
+          "Do not hold the person down and do not put anything in their mouth.",
+          "When the shaking stops, roll them onto their side and check breathing.",
+          "Call 911 if it lasts more than 5 minutes, repeats, or they do not wake up.",
+        ],
+      },
+      am: {
+        title: "የሚጥል ሕመም",
+        steps: [
+          "ይረጋጉ እና ሕመሙ የጀመረበትን ሰዓት ይያዙ።",
+          "ጠንካራ ወይም ስለታም ነገሮችን ያርቁ፤ ጭንቅላቱን ለስላሳ ነገር ላይ ያሳርፉ።",
+          "ሰውየውን አይያዙ፤ አፉ ውስጥ ምንም ነገር አያስገቡ።",
+          "መንቀጥቀጡ ሲቆም በጎኑ ያስተኙት እና መተንፈሱን ያረጋግጡ።",
+          "ከ5 ደቂቃ በላይ ከቆየ፣ ከተደጋገመ ወይም ካልነቃ 911 ይደውሉ።",
+        ],
+      },
+      om: {
+        title: "Dhukkuba kufaa",
+        steps: [
+          "Tasgabbaa'aatii yeroo jalqabe yaadadhaa.",
+          "Meeshaalee jajjaboo ykn qara qaban fageessaatii mataa isaa jala waan laafaa kaa'aa.",
+          "Namicha hin qabinaa; afaan isaa keessa homaa hin galchinaa.",
+          "Yommuu hollachuun dhaabbatu cinaachaan ciibsaatii hafuura isaa mirkaneeffadhaa.",
+          "Daqiiqaa 5 ol yoo ture, yoo irra deebi'e ykn yoo hin dammaqne 911 bilbilaa.",
+        ],
+      },
+    },
+  },
+  {
+    id: "snake_bite",
+    keywords: {
+      en: ["snake", "snake bite", "bitten by a snake", "venom", "viper"],
+      am: ["እባብ", "እባብ ነደፈ", "መርዝ"],
+      om: ["bofa", "bofti ciniine", "summii"],
+    },
+    content: {
+      en: {
+        title: "Snake bite",
+        steps: [
+          "Move away from the snake; do not try to catch or kill it.",
+          "Keep the person calm and still, with the bitten limb below heart level.",
+          "Remove rings, watches and tight clothing before swelling starts.",
+          "Do not cut the wound, suck out venom, apply ice or tie a tight tourniquet.",
+          "Call 911 and get to a hospital as fast as possible; note the time of the bite.",
+        ],
+      },
+      am: {
+        title: "የእባብ ንድፊያ",
+        steps: [
+          "ከእባቡ ይራቁ፤ ለመያዝ ወይም ለመግደል አይሞክሩ።",
+          "ሰውየውን አረጋግተው እንዳይንቀሳቀስ ያድርጉ፤ የተነደፈውን አካል ከልብ በታች ያድርጉ።",
+          "እብጠት ከመጀመሩ በፊት ቀለበት፣ ሰዓት እና ጠባብ ልብስ ያውልቁ።",
+          "ቁስሉን አይቁረጡ፣ መርዙን አይምጡ፣ በረዶ አያድርጉ ወይም አጥብቀው አያስሩ።",
+          "911 ይደውሉ እና በተቻለ ፍጥነት ሆስፒታል ይድረሱ፤ የተነደፈበትን ሰዓት ይያዙ።",
+        ],
+      },
+      om: {
+        title: "Ciniinnaa bofaa",
+        steps: [
+          "Bofa irraa fagaadhaa; qabuuf ykn ajjeesuuf hin yaalinaa.",
+          "Namicha tasgabbeessaa akka hin sochoone godhaa; qaama ciniinname onnee gadi kaa'aa.",
+          "Dhiita'uun osoo hin jalqabin qubeelaa, sa'aatii fi uffata cimaa baasaa.",
+          "Madaa hin kutinaa, summii hin xuuxinaa, cabbii hin kaa'inaa, jabeessitanis hin hidhinaa.",
+          "911 bilbilaatii saffisaan hospitaala ga'aa; yeroo ciniinname yaadadhaa.",
+        ],
+      },
+    },
+  },
+  {
+    id: "childbirth",
+    keywords: {
+      en: [
+        "labor",
+        "labour",
+        "giving birth",
+        "childbirth",
+        "baby coming",
+        "contractions",
+        "pregnant",
+        "water broke",
+        "delivery",
+      ],
+      am: ["ምጥ", "መውለድ", "ወሊድ", "እርጉዝ", "ነፍሰ ጡር", "ሽርት ውሃ"],
+      om: ["ciniinsuu", "da'uu", "ulfa", "dahumsa", "bishaan gadaamessaa"],
+    },
+    content: {
+      en: {
+        title: "Emergency childbirth",
+        steps: [
+          "Call 911. Help the mother into a comfortable position on clean sheets or cloth.",
+          "Wash your hands. Do not pull the baby — let the birth happen naturally.",
+          "As the head appears, support it gently; once born, dry the baby and place it skin-to-skin on the mother's chest.",
+          "Cover mother and baby to keep them warm. Do not cut the cord.",
+          "Call 911 urgently for heavy bleeding, a cord or limb appearing first, or a baby who is not breathing.",
+        ],
+      },
+      am: {
+        title: "የአስቸኳይ ወሊድ",
+        steps: [
+          "911 ይደውሉ። እናቲቱን በንጹህ አንሶላ ወይም ጨርቅ ላይ በሚመቻት አቀማመጥ ያስተኙ።",
+          "እጅዎን ይታጠቡ። ሕፃኑን አይጎትቱ — ወሊዱ በተፈጥሮ ይሁን።",
+          "ጭንቅላቱ ሲታይ በቀስታ ይደግፉ፤ ከተወለደ በኋላ ሕፃኑን አድርቀው በእናቱ ደረት ላይ ቆዳ ለቆዳ ያድርጉ።",
+          "እናትና ሕፃኑን እንዲሞቁ ይሸፍኑ። እትብቱን አይቁረጡ።",
+          "ከባድ ደም መፍሰስ ካለ፣ እትብት ወይም እጅ/እግር ቀድሞ ከታየ ወይም ሕፃኑ ካልተነፈሰ በአስቸኳይ 911 ይደውሉ።",
+        ],
+      },
+      om: {
+        title: "Dahumsa tasaa",
+        steps: [
+          "911 bilbilaa. Haati iddoo qulqulluu irratti haala isheef mijatuun akka ciistu gargaaraa.",
+          "Harka keessan dhiqadhaa. Daa'ima hin harkisinaa — dahumsi uumamaan haa ta'u.",
+          "Mataan yommuu mul'atu suuta deggeraa; erga dhalatee booda daa'ima gogsaatii laphee haadhaa irratti gogaa gogaatti kaa'aa.",
+          "Haadhaa fi daa'ima akka ho'an haguugaa. Hidda handhuuraa hin kutinaa.",
+          "Dhiigni baay'een yoo dhangala'e, hiddi handhuuraa ykn harki/miilli dursee yoo mul'ate, ykn daa'imni hafuura yoo hin baafanne dafaa 911 bilbilaa.",
+        ],
+      },
+    },
+  },
+];
+
+/* ─── Matching ────────────────────────────────────────────────── */
+
+export interface FirstAidProtocolMatch {
+  protocol: FirstAidProtocol;
+  score: number;
+}
+
+export const normalizeChatText = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[.,!?;:()"'“”‘’።፣፤፥]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const LATIN_ONLY = /^[\x20-\x7e]+$/;
+
+/**
+ * Latin-script keywords must start a word ("burn" matches "burned" but "fit"
+ * does not match "benefit"). Ge'ez words take prefixes, so Amharic keywords
+ * match anywhere. `text` must already be passed through normalizeChatText.
+ */
+export const containsKeyword = (text: string, keyword: string) => {
+  const needle = normalizeChatText(keyword);
+  return LATIN_ONLY.test(needle)
+    ? ` ${text}`.includes(` ${needle}`)
+    : text.includes(needle);
+};
+
+/**
+ * Score every protocol against the user's message. Keywords from all
+ * languages are checked, so a message mixing languages (or typed in English
+ * while the UI is set to Amharic) still matches. Multi-word phrases score
+ * higher than single words.
+ */
+export const matchFirstAidProtocol = (
+  input: string,
+): FirstAidProtocolMatch | null => {
+  const text = normalizeChatText(input);
+  if (!text) return null;
+
+  let best: FirstAidProtocolMatch | null = null;
+  for (const protocol of FIRST_AID_PROTOCOLS) {
+    let score = 0;
+    for (const keywords of Object.values(protocol.keywords)) {
+      for (const keyword of keywords) {
+        if (containsKeyword(text, keyword)) {
+          score += keyword.includes(" ") ? 2 : 1;
+        }
+      }
+    }
+    if (score > 0 && (!best || score > best.score)) {
+      best = { protocol, score };
+    }
+  }
+  return best;
+};
+
+/* ─── Offline replies ─────────────────────────────────────────── */
+
+const OFFLINE_NOTICE: Record<Lang, string> = {
+  en: "Offline guidance — the AI assistant is unreachable.",
+  am: "ከመስመር ውጭ መመሪያ — የAI ረዳቱ አይገኝም።",
+  om: "Qajeelfama offline — gargaaraan AI hin argamu.",
+};
+
+const NO_MATCH: Record<Lang, LocalizedProtocol> = {
+  en: {
+    title: "General emergency steps",
+    steps: [
+      "Make sure you and the person are safe.",
+      "Call 911 if the person is unresponsive, not breathing normally, bleeding heavily or badly hurt.",
+      "Stay with the person and keep them warm and still.",
+      'Describe the problem in a few words (e.g. "bleeding", "burn", "choking") for specific steps.',
+    ],
+  },
+  am: {
+    title: "አጠቃላይ የአደጋ ጊዜ እርምጃዎች",
+    steps: [
+      "እርስዎ እና ሰውየው ደህንነታችሁ የተጠበቀ መሆኑን ያረጋግጡ።",
+      "ሰውየው ምላሽ ካልሰጠ፣ በትክክል ካልተነፈሰ፣ ብዙ ደም ከፈሰሰው ወይም ክፉኛ ከተጎዳ 911 ይደውሉ።",
+      "ከሰውየው ጋር ይቆዩ፤ እንዲሞቅ እና እንዳይንቀሳቀስ ያድርጉ።",
+      'ለተለየ መመሪያ ችግሩን በጥቂት ቃላት ይግለጹ (ለምሳሌ "ደም"፣ "ቃጠሎ"፣ "መታነቅ")።',
+    ],
+  },
+  om: {
+    title: "Tarkaanfiiwwan waliigalaa yeroo balaa",
+    steps: [
+      "Isinii fi namichi nageenya qabaachuu keessan mirkaneeffadhaa.",
+      "Namichi deebii yoo hin kennine, sirriitti hafuura yoo hin baafanne, dhiigni baay'ee yoo dhangala'e ykn yoo baay'ee miidhame 911 bilbilaa.",
+      "Namicha bira turaa; akka ho'uu fi akka hin sochoone godhaa.",
+      'Qajeelfama addaaf rakkoo jechoota muraasaan ibsaa (fkn. "dhiiga", "gubachuu", "hudhamuu").',
+    ],
+  },
+};
+
+const formatProtocol = (lang: Lang, content: LocalizedProtocol) =>
+  [
+    OFFLINE_NOTICE[lang],
+    "",
+    content.title,
+    ...content.steps.map((step, i) => `${i + 1}. ${step}`),
+  ].join("\n");
+
+/**
+ * Answer from the bundled pack. Always returns a message: when nothing
+ * matches, the reply is the general emergency steps.
+ */
+export const getOfflineFirstAidResponse = (
+  userInput: string,
+  lang: Lang = "en",
+): BotMessage => {
+  const match = matchFirstAidProtocol(userInput);
+  const content = match ? match.protocol.content[lang] : NO_MATCH[lang];
+  return {
+    role: "bot",
+    text: formatProtocol(lang, content),
+    offline: true,
+    protocolId: match?.protocol.id,
+    packVersion: FIRST_AID_PACK_VERSION,
+  };
+};
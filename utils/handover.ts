@@ -0,0 +1,346 @@
+/**
+ * Hospital pre-arrival handover — the packet ER staff see while an
+ * ambulance is transporting a patient to them.
+ *
+ * The packet combines the patient's profile, the vitals trend from crew
+ * medical notes, an explainable triage score and a live ETA to the hospital.
+ * Acknowledgements are kept on the device and recorded on the timeline.
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import type {
+  EmergencyHospitalStatus,
+  ExplainableTriageResponse,
+} from "./contracts";
+import { calculateDistance, getExplainableTriage } from "./emergency";
+import { recordTimelineEvent } from "./emergency-timeline";
+import {
+  getMedicalNotes,
+  type MedicalNote,
+  type Vitals,
+} from "./medical-notes";
+import { getEmergencyHospitalStatus } from "./patient";
+import type { MedicalProfile, UserProfile } from "./profile";
+
+/* ─── Types ───────────────────────────────────────────────────── */
+
+/** The emergency fields a handover packet is built from. */
+export interface HandoverEmergency {
+  id: string;
+  emergency_type: string;
+  description?: string | null;
+  assigned_ambulance_id?: string | null;
+  ambulance_vehicle?: string | null;
+  national_id?: string | null;
+  patient_profile?: UserProfile | null;
+  patient_medical?: MedicalProfile | null;
+}
+
+export type NumericVital = Exclude<
+  keyof Vitals,
+  "blood_pressure" | "consciousness_level"
+>;
+
+export type VitalTrend = "rising" | "falling" | "stable";
+
+export interface VitalsReading {
+  recordedAt: string;
+  vitals: Vitals;
+}
+
+export interface VitalsTrend {
+  readings: VitalsReading[];
+  latest: Vitals | null;
+  trends: Partial<Record<NumericVital, VitalTrend>>;
+}
+
+export interface HandoverEta {
+  minutes: number | null;
+  distanceKm: number | null;
+  /** "ambulance" when computed from a live position, else the backend's reference. */
+  source: string;
+  updatedAt: string;
+}
+
+export interface HandoverPacket {
+  emergencyId: string;
+  generatedAt: string;
+  patient: {
+    name: string | null;
+    phone: string | null;
+    nationalId: string | null;
+  };
+  medical: MedicalProfile | null;
+  emergencyType: string;
+  description: string | null;
+  ambulanceVehicle: string | null;
+  vitals: VitalsTrend;
+  triage: ExplainableTriageResponse | null;
+  eta: HandoverEta | null;
+  hospital: { latitude: number; longitude: number } | null;
+}
+
+/* ─── Vitals trend ────────────────────────────────────────────── */
+
+const NUMERIC_VITALS: NumericVital[] = [
+  "heart_rate",
+  "spo2",
+  "temperature",
+  "respiratory_rate",
+];
+
+/** Change smaller than this (per vital) counts as stable. */
+const TREND_TOLERANCE: Record<NumericVital, number> = {
+  heart_rate: 5,
+  spo2: 1,
+  temperature: 0.3,
+  respiratory_rate: 2,
+};
+
+const hasVitals = (vitals?: Vitals | null): vitals is Vitals =>
+  !!vitals &&
+  Object.values(vitals).some((v) => v !== undefined && v !== null && v !== "");
+
+/**
+ * Readings from notes that carry vitals, oldest first, with the direction
+ * each numeric vital moved between the first and the latest reading.
+ */
+export const buildVitalsTrend = (notes: MedicalNote[]): VitalsTrend => {
+  const readings = notes
+    .filter((note) => hasVitals(note.vitals))
+    .map((note) => ({ recordedAt: note.created_at, vitals: note.vitals! }))
+    .sort(
+      (a, b) =>
+        new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime(),
+    );
+
+  const trends: VitalsTrend["trends"] = {};
+  for (const key of NUMERIC_VITALS) {
+    const values = readings
+      .map((reading) => reading.vitals[key])
+      .filter((value): value is number => typeof value === "number");
+    if (values.length < 2) continue;
+    const delta = values[values.length - 1] - values[0];
+    trends[key] =
+      Math.abs(delta) < TREND_TOLERANCE[key]
+        ? "stable"
+        : delta > 0
+        ? "rising"
+        : "falling";
+  }
+
+  return {
+    readings,
+    latest: readings.length ? readings[readings.length - 1].vitals : null,
+    trends,
+  };
+};
+
+/* ─── Triage ──────────────────────────────────────────────────── */
+
+type TriageInput = Parameters<typeof getExplainableTriage>[0];
+
+/** Map the latest vitals and emergency type onto the triage endpoint's inputs. */
+export const deriveTriageInput = (
+  emergencyType: string,
+  latest: Vitals | null,
+): TriageInput => {
+  const type = String(emergencyType || "").toLowerCase();
+  const hr = latest?.heart_rate;
+  const spo2 = latest?.spo2;
+  const rr = latest?.respiratory_rate;
+  const consciousness = String(latest?.consciousness_level || "").toLowerCase();
+
+  const conscious = !consciousness || consciousness.startsWith("alert");
+  const breathingDifficulty =
+    (spo2 !== undefined && spo2 < 92) || (rr !== undefined && rr > 24);
+
+  let severity: TriageInput["severity"] = "medium";
+  if (
+    !conscious ||
+    (spo2 !== undefined && spo2 < 88) ||
+    (hr !== undefined && (hr > 140 || hr < 40))
+  ) {
+    severity = "critical";
+  } else if (
+    breathingDifficulty ||
+    (hr !== undefined && (hr > 120 || hr < 50)) ||
+    ["cardiac", "accident", "fire"].includes(type)
+  ) {
+    severity = "high";
+  }
+
+  return {
+    severity,
+    conscious,
+    breathingDifficulty,
+    chestPain: type === "cardiac",
+    trauma: type === "accident" || type === "fire",
+  };
+};
+
+/* ─── ETA ─────────────────────────────────────────────────────── */
+
+/** Average urban ambulance speed the backend also uses for hospital ETAs. */
+const HANDOVER_AVERAGE_SPEED_KMH = 35;
+
+export const estimateEtaMinutes = (distanceKm: number): number =>
+  Math.max(2, Math.round((distanceKm / HANDOVER_AVERAGE_SPEED_KMH) * 60 + 1));
+
+/** Recompute the ETA from a live ambulance position. */
+export const computeLiveEta = (
+  hospital: { latitude: number; longitude: number },
+  ambulanceLatitude: number,
+  ambulanceLongitude: number,
+): HandoverEta => {
+  const distanceKm =
+    Math.round(
+      calculateDistance(
+        ambulanceLatitude,
+        ambulanceLongitude,
+        hospital.latitude,
+        hospital.longitude,
+      ) * 100,
+    ) / 100;
+  return {
+    minutes: estimateEtaMinutes(distanceKm),
+    distanceKm,
+    source: "ambulance",
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+const etaFromStatus = (status: EmergencyHospitalStatus): HandoverEta => ({
+  minutes: status.eta_to_hospital_minutes,
+  distanceKm: status.distance_to_hospital_km,
+  source: status.source,
+  updatedAt: new Date().toISOString(),
+});
+
+/* ─── Packet ──────────────────────────────────────────────────── */
+
+/**
+ * Build the handover packet for an incoming emergency. Each source is
+ * optional: a failed lookup leaves its section empty instead of failing the
+ * whole packet.
+ */
+export const loadHandoverPacket = async (
+  emergency: HandoverEmergency,
+): Promise<{ packet: HandoverPacket; error: string | null }> => {
+  const [notesResult, statusResult] = await Promise.all([
+    getMedicalNotes(emergency.id),
+    getEmergencyHospitalStatus(emergency.id),
+  ]);
+
+  const vitals = buildVitalsTrend(notesResult.notes);
+  let triage: ExplainableTriageResponse | null = null;
+  let triageError: string | null = null;
+  try {
+    triage = await getExplainableTriage(
+      deriveTriageInput(emergency.emergency_type, vitals.latest),
+    );
+  } catch (err: any) {
+    triageError = err?.message || "Triage unavailable";
+  }
+
+  const status = statusResult.data;
+  const hospital =
+    status &&
+    typeof status.hospital_latitude === "number" &&
+    typeof status.hospital_longitude === "number"
+      ? {
+          latitude: status.hospital_latitude,
+          longitude: status.hospital_longitude,
+        }
+      : null;
+
+  const profile = emergency.patient_profile ?? null;
+  const packet: HandoverPacket = {
+    emergencyId: emergency.id,
+    generatedAt: new Date().toISOString(),
+    patient: {
+      name: profile?.full_name || null,
+      phone: profile?.phone || null,
+      nationalId: emergency.national_id ?? profile?.national_id ?? null,
+    },
+    medical: emergency.patient_medical ?? null,
+    emergencyType: emergency.emergency_type,
+    description: emergency.description || null,
+    ambulanceVehicle: emergency.ambulance_vehicle ?? null,
+    vitals,
+    triage,
+    eta: status ? etaFromStatus(status) : null,
+    hospital,
+  };
+
+  const error =
+    notesResult.error || statusResult.error?.message || triageError || null;
+  return { packet, error };
+};
+
+/* ─── Acknowledgements ────────────────────────────────────────── */
+
+const ACK_KEY = "erdataye.handover.acks.v1";
+const ACK_MAX_ITEMS = 200;
+
+let _acks: Record<string, string> = {};
+let _acksHydrated = false;
+
+async function hydrateAcks(): Promise<void> {
+  if (_acksHydrated) return;
+  try {
+    const raw = await AsyncStorage.getItem(ACK_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    _acks = parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    _acks = {};
+  }
+  _acksHydrated = true;
+}
+
+async function persistAcks(): Promise<void> {
+  const entries = Object.entries(_acks)
+    .sort(([, a], [, b]) => b.localeCompare(a))
+    .slice(0, ACK_MAX_ITEMS);
+  _acks = Object.fromEntries(entries);
+  try {
+    await AsyncStorage.setItem(ACK_KEY, JSON.stringify(_acks));
+  } catch {
+    // In-memory copy still holds for this session
+  }
+}
+
+/** Emergency ids acknowledged on this device, with the time of acknowledgement. */
+export async function getHandoverAcknowledgements(): Promise<
+  Record<string, string>
+> {
+  await hydrateAcks();
+  return { ..._acks };
+}
+
+/** Mark an incoming handover as seen and record it on the timeline. */
+export async function acknowledgeHandover(
+  emergencyId: string,
+  details: { etaMinutes?: number | null } = {},
+): Promise<string> {
+  await hydrateAcks();
+  const acknowledgedAt = _acks[emergencyId] ?? new Date().toISOString();
+  if (!_acks[emergencyId]) {
+    _acks[emergencyId] = acknowledgedAt;
+    await persistAcks();
+    void recordTimelineEvent(emergencyId, "handover_acknowledged", {
+      eta_minutes: details.etaMinutes ?? null,
+    });
+  }
+  return acknowledgedAt;
+}
+
+export async function clearHandoverAcknowledgements(): Promise<void> {
+  _acks = {};
+  _acksHydrated = true;
+  try {
+    await AsyncStorage.removeItem(ACK_KEY);
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Translation completeness checker for utils/i18n.ts.
+ *
+ * Pure functions over the translation tables and source text. The i18n test
+ * suite (`npm run i18n:check`) builds the report and fails when am/om
+ * coverage drops below `MIN_COVERAGE` or `MIN_SCREEN_COVERAGE`; in dev
+ * builds `getUntranslatedTexts()` in utils/i18n.ts lists what fell back to
+ * English at runtime.
+ *
+ *  - untranslated: an entry has no text for a language, or the am/om text
+ *    is just the English copied over;
+ *  - unused: a key no `t("…")` call uses and whose English text appears in
+ *    no source file (ThemedText translates English literals by lookup);
+ *  - hardcoded: English JSX text or UI props in `app/*.tsx` that neither
+ *    table knows, so they stay English in every language.
+ */
+import type { Lang } from "./i18n";
+
+export type TranslationTable = Record<string, Partial<Record<Lang, string>>>;
+
+export interface SourceFile {
+  path: string;
+  text: string;
+}
+
+type TargetLang = Exclude<Lang, "en">;
+
+/** Minimum share of table entries that must be translated. */
+export const MIN_COVERAGE: Record<TargetLang, number> = {
+  am: 0.98,
+  om: 0.98,
+};
+
+/**
+ * Minimum share of distinct UI strings in `app/*.tsx` that must have a
+ * translation. Raise it as hardcoded strings are moved into the tables.
+ */
+export const MIN_SCREEN_COVERAGE: Record<TargetLang, number> = {
+  am: 0.63,
+  om: 0.63,
+};
+
+/**
+ * Entries that are rightly identical in every language: language names,
+ * acronyms and brand names.
+ */
+export const SAME_IN_ALL_LANGUAGES = new Set<string>([
+  "lang_en",
+  "lang_am",
+  "lang_om",
+]);
+
+/** Text with no lowercase word of three letters or more (codes, acronyms, numbers). */
+const needsTranslation = (english: string) =>
+  /[a-z]{3,}/.test(english.replace(/\{\w+\}/g, ""));
+
+/* ─── Untranslated entries ────────────────────────────────────── */
+
+export interface LangCoverage {
+  lang: Lang;
+  total: number;
+  translated: number;
+  /** translated / total; 1 when there is nothing to translate. */
+  ratio: number;
+  /** Entries with no text for this language. */
+  missing: string[];
+  /** Entries whose text is the English copied unchanged. */
+  copiedFromEnglish: string[];
+}
+
+export const computeCoverage = (
+  table: TranslationTable,
+  lang: Lang,
+): LangCoverage => {
+  const missing: string[] = [];
+  const copiedFromEnglish: string[] = [];
+  let total = 0;
+
+  for (const [key, entry] of Object.entries(table)) {
+    const english = entry.en ?? "";
+    if (lang !== "en" && !needsTranslation(english)) continue;
+    if (SAME_IN_ALL_LANGUAGES.has(key)) continue;
+    total++;
+
+    const text = entry[lang]?.trim();
+    if (!text) missing.push(key);
+    else if (lang !== "en" && text === english.trim()) {
+      copiedFromEnglish.push(key);
+    }
+  }
+
+  const translated = total - missing.length - copiedFromEnglish.length;
+  return {
+    lang,
+    total,
+    translated,
+    ratio: total ? translated / total : 1,
+    missing,
+    copiedFromEnglish,
+  };
+};
+
+/* ─── Unused keys ─────────────────────────────────────────────── */
+
+const T_CALL = /\bt\(\s*["'`]([\w.-]+)["'`]/g;
+
+/** Keys passed to `t()` anywhere in the sources. */
+export const collectUsedKeys = (sources: SourceFile[]): Set<string> => {
+  const used = new Set<string>();
+  for (const { text } of sources) {
+    for (const match of text.matchAll(T_CALL)) used.add(match[1]);
+  }
+  return used;
+};
+
+/**
+ * Keys of `keyed` that no `t()` call uses and whose English text is not in
+ * any source, plus `literal` entries whose English text is in no source.
+ */
+export const findUnusedKeys = (
+  keyed: TranslationTable,
+  literal: TranslationTable,
+  sources: SourceFile[],
+): { keys: string[]; literals: string[] } => {
+  const used = collectUsedKeys(sources);
+  const corpus = sources.map((source) => source.text).join("\n");
+  const appearsInSource = (english: string | undefined) =>
+    Boolean(english) && corpus.includes(english!);
+
+  return {
+    keys: Object.entries(keyed)
+      .filter(([key, entry]) => !used.has(key) && !appearsInSource(entry.en))
+      .map(([key]) => key),
+    literals: Object.keys(literal).filter(
+      (english) => !appearsInSource(english),
+    ),
+  };
+};
+
+/* ─── Hardcoded strings ───────────────────────────────────────── */
+
+export interface UiString {
+  path: string;
+  line: number;
+  text: string;
+}
+
+export type HardcodedString = UiString;
+
+const JSX_TEXT = />\s*([^<>{}]*[A-Za-z][^<>{}]*?)\s*</g;
+const UI_PROP =
+  /\b(?:title|placeholder|label|accessibilityLabel)=(?:"([^"]*[A-Za-z][^"]*)"|\{\s*"([^"]*[A-Za-z][^"]*)"\s*\})/g;
+const TRANSLATE_CALL = /\btranslateText\(\s*"([^"]*[A-Za-z][^"]*)"\s*\)/g;
+/** Code that happens to sit between angle brackets (generics, comparisons). */
+const LOOKS_LIKE_CODE =
+  /[;=()[\]]|=>|&&|\|\||\w\.\w|^(new|return|await|typeof) /;
+
+const normalizeSpace = (text: string) => text.replace(/\s+/g, " ").trim();
+
+const lineOf = (text: string, index: number) =>
+  text.slice(0, index).split("\n").length;
+
+/**
+ * English UI text in a screen: JSX text, title/placeholder/label props and
+ * `translateText("…")` arguments. Lines marked `// i18n-ignore` (or directly below such a comment) are
+ * skipped.
+ */
+export const collectUiStrings = (source: SourceFile): UiString[] => {
+  const found: UiString[] = [];
+  const ignored = new Set(
+    source.text
+      .split("\n")
+      .map((line, index) => (line.includes("i18n-ignore") ? index + 1 : 0))
+      .filter(Boolean),
+  );
+
+  const add = (raw: string, index: number) => {
+    const text = normalizeSpace(raw.replace(/\\n/g, "\n"));
+    if (!needsTranslation(text) || LOOKS_LIKE_CODE.test(text)) return;
+    const line = lineOf(source.text, index);
+    if (ignored.has(line) || ignored.has(line - 1)) return;
+    found.push({ path: source.path, line, text });
+  };
+
+  for (const match of source.text.matchAll(JSX_TEXT)) {
+    add(match[1], match.index! + match[0].indexOf(match[1]));
+  }
+  for (const match of source.text.matchAll(UI_PROP)) {
+    add(match[1] ?? match[2], match.index!);
+  }
+  for (const match of source.text.matchAll(TRANSLATE_CALL)) {
+    add(match[1], match.index!);
+  }
+  return found.sort((a, b) => a.line - b.line);
+};
+
+/** UI strings in a screen that no translation table covers. */
+export const findHardcodedStrings = (
+  source: SourceFile,
+  knownEnglish: Set<string>,
+): HardcodedString[] =>
+  collectUiStrings(source).filter((item) => !knownEnglish.has(item.text));
+
+/* ─── Report ──────────────────────────────────────────────────── */
+
+export interface ScreenCoverage {
+  /** Distinct UI strings found in the screens. */
+  total: number;
+  translated: number;
+  ratio: number;
+}
+
+export interface I18nReport {
+  coverage: Record<Lang, LangCoverage>;
+  screenCoverage: Record<TargetLang, ScreenCoverage>;
+  unused: { keys: string[]; literals: string[] };
+  hardcoded: HardcodedString[];
+}
+
+export const buildI18nReport = (input: {
+  keyed: TranslationTable;
+  literal: TranslationTable;
+  /** Every source file that may use translations. */
+  sources: SourceFile[];
+  /** Screens to scan for hardcoded English (`app/*.tsx`). */
+  screens: SourceFile[];
+}): I18nReport => {
+  const combined = { ...input.keyed, ...input.literal };
+  const byEnglish = new Map<string, Partial<Record<Lang, string>>>();
+  for (const entry of Object.values(combined)) {
+    const english = entry.en && normalizeSpace(entry.en);
+    if (english) byEnglish.set(english, entry);
+  }
+
+  const uiStrings = input.screens.flatMap(collectUiStrings);
+  const distinct = [...new Set(uiStrings.map((item) => item.text))];
+  const screenCoverage = (lang: TargetLang): ScreenCoverage => {
+    const translated = distinct.filter((english) => {
+      const text = byEnglish.get(english)?.[lang]?.trim();
+      return Boolean(text) && text !== english;
+    }).length;
+    return {
+      total: distinct.length,
+      translated,
+      ratio: distinct.length ? translated / distinct.length : 1,
+    };
+  };
+
+  return {
+    coverage: {
+      en: computeCoverage(combined, "en"),
+      am: computeCoverage(combined, "am"),
+      om: computeCoverage(combined, "om"),
+    },
+    screenCoverage: { am: screenCoverage("am"), om: screenCoverage("om") },
+    unused: findUnusedKeys(input.keyed, input.literal, input.sources),
+    hardcoded: uiStrings.filter((item) => !byEnglish.has(item.text)),
+  };
+};
+
+const percent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+/** Human-readable summary of a report. */
+export const formatI18nReport = (report: I18nReport): string => {
+  const lines: string[] = [];
+  for (const coverage of Object.values(report.coverage)) {
+    lines.push(
+      `${coverage.lang}: ${percent(coverage.ratio)} (${coverage.translated}/${
+        coverage.total
+      })`,
+    );
+    if (coverage.missing.length) {
+      lines.push(`  missing: ${coverage.missing.join(", ")}`);
+    }
+    if (coverage.copiedFromEnglish.length) {
+      lines.push(`  same as English: ${coverage.copiedFromEnglish.join(", ")}`);
+    }
+  }
+  for (const [lang, coverage] of Object.entries(report.screenCoverage)) {
+    lines.push(
+      `${lang} screens: ${percent(coverage.ratio)} (${coverage.translated}/${
+        coverage.total
+      })`,
+    );
+  }
+  lines.push(
+    `unused keys (${report.unused.keys.length}): ${report.unused.keys.join(
+      ", ",
+    )}`,
+  );
+  lines.push(`unused literals: ${report.unused.literals.length}`);
+  lines.push(`hardcoded strings in app/: ${report.hardcoded.length}`);
+  for (const item of report.hardcoded) {
+    lines.push(`  ${item.path}:${item.line} ${JSON.stringify(item.text)}`);
+  }
+  return lines.join("\n");
+};
@@ -26,6 +26,9 @@ interface UiStrings {
   inputPlaceholder: string;
   welcomeMessage: string;
   typingIndicator: string;
+  offlineBadge: string;
+  stoppedNote: string;
+  stopReply: string;
 }
 
 export const UI: Record<Lang, UiStrings> = {
@@ -35,6 +38,9 @@ export const UI: Record<Lang, UiStrings> = {
     inputPlaceholder: "Describe your emergency…",
     welcomeMessage: "How can I help you today? Type your question below.",
     typingIndicator: "···",
+    offlineBadge: "Offline guidance",
+    stoppedNote: "Response stopped",
+    stopReply: "Stop response",
   },
   am: {
     headerTitle: "የመጀመሪያ እርዳታ",
@@ -42,6 +48,9 @@ export const UI: Record<Lang, UiStrings> = {
     inputPlaceholder: "ሁኔታዎን ይግለጹ…",
     welcomeMessage: "ዛሬ እንዴት ልርዳዎ? ጥያቄዎን ከታች ይጻፉ።",
     typingIndicator: "···",
+    offlineBadge: "ከመስመር ውጭ መመሪያ",
+    stoppedNote: "ምላሹ ቆሟል",
+    stopReply: "ምላሹን አቁም",
   },
   om: {
     headerTitle: "Gargaarsa Jalqabaa",
@@ -50,6 +59,9 @@ export const UI: Record<Lang, UiStrings> = {
     welcomeMessage:
       "Har'a akkamiin isin gargaaruu danda'a? Gaaffii keessan armaan gaditti barreessaa.",
     typingIndicator: "···",
+    offlineBadge: "Qajeelfama offline",
+    stoppedNote: "Deebiin dhaabbateera",
+    stopReply: "Deebii dhaabi",
   },
 };
 
@@ -76,3 +88,259 @@ export const MIN_REPLY_FOLLOWUPS: Record<Lang, string[]> = {
     "Tarkaanfiin gargaarsa jalqabaa itti aanu maali?",
   ],
 };
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Guided CPR / choking coach (app/first-aid-coach.tsx)
+// ─────────────────────────────────────────────────────────────────────────────
+interface CoachStrings {
+  title: string;
+  protocols: Record<
+    "cpr_adult" | "cpr_child" | "cpr_infant" | "choking",
+    { label: string; instruction: string }
+  >;
+  start: string;
+  pause: string;
+  resume: string;
+  finish: string;
+  handsOnly: string;
+  elapsed: string;
+  cycle: string;
+  compressions: string;
+  rate: string;
+  promptPush: string;
+  promptBreaths: string;
+  promptResume: string;
+  promptBackBlows: string;
+  promptThrusts: string;
+  tapToCount: string;
+  outcomeHelpArrived: string;
+  outcomeBreathing: string;
+  outcomeCleared: string;
+  outcomeUnresponsive: string;
+  callAmbulance: string;
+  sessionLogged: string;
+  sessionNotLinked: string;
+}
+
+export const COACH: Record<Lang, CoachStrings> = {
+  en: {
+    title: "First Aid Coach",
+    protocols: {
+      cpr_adult: {
+        label: "CPR · Adult",
+        instruction:
+          "Heel of one hand on the centre of the chest, other hand on top. Push 5–6 cm deep.",
+      },
+      cpr_child: {
+        label: "CPR · Child",
+        instruction:
+          "One or two hands on the centre of the chest. Push about 5 cm deep, one third of the chest.",
+      },
+      cpr_infant: {
+        label: "CPR · Infant",
+        instruction:
+          "Two fingers on the breastbone just below the nipple line. Push about 4 cm deep.",
+      },
+      choking: {
+        label: "Choking",
+        instruction:
+          "Lean the person forward. Alternate 5 back blows with 5 abdominal thrusts (chest thrusts for infants).",
+      },
+    },
+    start: "Start",
+    pause: "Pause",
+    resume: "Resume",
+    finish: "Finish",
+    handsOnly: "Hands-only (no breaths)",
+    elapsed: "Elapsed",
+    cycle: "Cycle",
+    compressions: "Compressions",
+    rate: "Rate",
+    promptPush: "Push hard and fast",
+    promptBreaths: "Give 2 rescue breaths",
+    promptResume: "Resume compressions",
+    promptBackBlows: "Give 5 back blows",
+    promptThrusts: "Give 5 thrusts",
+    tapToCount: "Tap after each one",
+    outcomeHelpArrived: "Help arrived",
+    outcomeBreathing: "Breathing restored",
+    outcomeCleared: "Object came out",
+    outcomeUnresponsive: "Unresponsive — start CPR",
+    callAmbulance: "Call 911",
+    sessionLogged: "Session added to your emergency timeline.",
+    sessionNotLinked: "No active emergency — this session was not recorded.",
+  },
+  am: {
+    title: "የመጀመሪያ እርዳታ አሰልጣኝ",
+    protocols: {
+      cpr_adult: {
+        label: "CPR · አዋቂ",
+        instruction:
+          "የአንድ እጅ መዳፍ ታች በደረት መሀል፣ ሌላኛው እጅ ከላይ። 5–6 ሳ.ሜ ጥልቀት ይጫኑ።",
+      },
+      cpr_child: {
+        label: "CPR · ልጅ",
+        instruction:
+          "አንድ ወይም ሁለት እጅ በደረት መሀል። ወደ 5 ሳ.ሜ ወይም የደረቱን አንድ ሦስተኛ ይጫኑ።",
+      },
+      cpr_infant: {
+        label: "CPR · ሕፃን",
+        instruction: "ሁለት ጣቶች ከጡት ጫፍ መስመር በታች በደረት አጥንት ላይ። ወደ 4 ሳ.ሜ ይጫኑ።",
+      },
+      choking: {
+        label: "መታነቅ",
+        instruction:
+          "ሰውየውን ወደ ፊት ያጎንብሱ። 5 የጀርባ ምቶችና 5 የሆድ ግፊቶችን (ለሕፃናት የደረት ግፊቶች) ያፈራርቁ።",
+      },
+    },
+    start: "ጀምር",
+    pause: "አቁም",
+    resume: "ቀጥል",
+    finish: "ጨርስ",
+    handsOnly: "በእጅ ብቻ (ያለ ትንፋሽ)",
+    elapsed: "ያለፈ ጊዜ",
+    cycle: "ዙር",
+    compressions: "ግፊቶች",
+    rate: "ፍጥነት",
+    promptPush: "በኃይል እና በፍጥነት ይጫኑ",
+    promptBreaths: "2 የአፍ ለአፍ ትንፋሽ ይስጡ",
+    promptResume: "ግፊቱን ይቀጥሉ",
+    promptBackBlows: "5 የጀርባ ምቶች ይስጡ",
+    promptThrusts: "5 ግፊቶች ይስጡ",
+    tapToCount: "ከእያንዳንዱ በኋላ ይንኩ",
+    outcomeHelpArrived: "እርዳታ ደረሰ",
+    outcomeBreathing: "መተንፈስ ጀመረ",
+    outcomeCleared: "ነገሩ ወጣ",
+    outcomeUnresponsive: "ምላሽ የለም — CPR ይጀምሩ",
+    callAmbulance: "911 ይደውሉ",
+    sessionLogged: "ክፍለ ጊዜው በአደጋ ጊዜ መዝገብዎ ላይ ተጨምሯል።",
+    sessionNotLinked: "ንቁ የአደጋ ጥሪ የለም — ይህ ክፍለ ጊዜ አልተመዘገበም።",
+  },
+  om: {
+    title: "Leenjisaa Gargaarsa Jalqabaa",
+    protocols: {
+      cpr_adult: {
+        label: "CPR · Ga'eessa",
+        instruction:
+          "Jalee harka tokkoo gidduu laphee irra, harka kaan irratti. Gadi fageenya sm 5–6 dhiibaa.",
+      },
+      cpr_child: {
+        label: "CPR · Daa'ima",
+        instruction:
+          "Harka tokko ykn lama gidduu laphee irra. Gadi fageenya sm 5 gara dhiibaa.",
+      },
+      cpr_infant: {
+        label: "CPR · Daa'ima xiqqaa",
+        instruction:
+          "Quba lama lafee laphee irra, sarara harma jalatti. Gadi fageenya sm 4 gara dhiibaa.",
+      },
+      choking: {
+        label: "Hudhamuu",
+        instruction:
+          "Namicha fuula duratti gad jechisiisaa. Rukuttaa dugdaa 5 fi dhiibbaa garaa 5 (daa'imaaf dhiibbaa laphee) wal jijjiiraa.",
+      },
+    },
+    start: "Jalqabi",
+    pause: "Dhaabi",
+    resume: "Itti fufi",
+    finish: "Xumuri",
+    handsOnly: "Harka qofa (hafuura malee)",
+    elapsed: "Yeroo darbe",
+    cycle: "Marsaa",
+    compressions: "Dhiibbaa",
+    rate: "Saffisa",
+    promptPush: "Jabinaa fi saffisaan dhiibaa",
+    promptBreaths: "Hafuura 2 kennaa",
+    promptResume: "Dhiibbaa itti fufaa",
+    promptBackBlows: "Rukuttaa dugdaa 5 kennaa",
+    promptThrusts: "Dhiibbaa 5 kennaa",
+    tapToCount: "Tokkoon tokkoon booda tuqaa",
+    outcomeHelpArrived: "Gargaarsi ga'e",
+    outcomeBreathing: "Hafuurri deebi'e",
+    outcomeCleared: "Wanti sun ba'e",
+    outcomeUnresponsive: "Deebii hin kennu — CPR jalqabaa",
+    callAmbulance: "911 bilbilaa",
+    sessionLogged: "Yeroon kun seenaa balaa keessanitti dabalameera.",
+    sessionNotLinked: "Balaan hojii irra jiru hin jiru — yeroon kun hin galmoofne.",
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Red-flag "Call ambulance now" card shown inside the chats
+// ─────────────────────────────────────────────────────────────────────────────
+interface RedFlagStrings {
+  title: string;
+  body: string;
+  flags: Record<
+    | "not_breathing"
+    | "unconscious"
+    | "heavy_bleeding"
+    | "chest_pain"
+    | "stroke"
+    | "labour",
+    string
+  >;
+  request: string;
+  call: string;
+  dismiss: string;
+  sending: string;
+  locationNeeded: string;
+  signInNeeded: string;
+}
+
+export const RED_FLAG: Record<Lang, RedFlagStrings> = {
+  en: {
+    title: "Call ambulance now",
+    body: "This may be life-threatening. We'll send your location and what you described.",
+    flags: {
+      not_breathing: "Not breathing",
+      unconscious: "Unconscious",
+      heavy_bleeding: "Heavy bleeding",
+      chest_pain: "Chest pain",
+      stroke: "Stroke signs",
+      labour: "Labour",
+    },
+    request: "Request ambulance",
+    call: "Call 911",
+    dismiss: "Not now",
+    sending: "Requesting…",
+    locationNeeded: "Location permission is required to request an ambulance.",
+    signInNeeded: "Sign in as a patient to request an ambulance, or call 911.",
+  },
+  am: {
+    title: "አሁኑኑ አምቡላንስ ይጥሩ",
+    body: "ይህ ለሕይወት አስጊ ሊሆን ይችላል። አካባቢዎን እና የገለጹትን እንልካለን።",
+    flags: {
+      not_breathing: "አይተነፍስም",
+      unconscious: "ራሱን ስቷል",
+      heavy_bleeding: "ከባድ ደም መፍሰስ",
+      chest_pain: "የደረት ሕመም",
+      stroke: "የስትሮክ ምልክቶች",
+      labour: "ምጥ",
+    },
+    request: "አምቡላንስ ጠይቅ",
+    call: "911 ይደውሉ",
+    dismiss: "አሁን አይደለም",
+    sending: "በመጠየቅ ላይ…",
+    locationNeeded: "አምቡላንስ ለመጠየቅ የአካባቢ ፈቃድ ያስፈልጋል።",
+    signInNeeded: "አምቡላንስ ለመጠየቅ እንደ ታካሚ ይግቡ ወይም 911 ይደውሉ።",
+  },
+  om: {
+    title: "Amma ambulaansii waamaa",
+    body: "Kun lubbuu balaa irra buusuu danda'a. Bakka jirtanii fi waan ibsitan ni ergina.",
+    flags: {
+      not_breathing: "Hafuura hin baafatu",
+      unconscious: "Of wallaale",
+      heavy_bleeding: "Dhiiga cimaa",
+      chest_pain: "Dhukkubbii laphee",
+      stroke: "Mallattoo istirookii",
+      labour: "Ciniinsuu",
+    },
+    request: "Ambulaansii gaafadhu",
+    call: "911 bilbilaa",
+    dismiss: "Amma miti",
+    sending: "Gaafachaa jira…",
+    locationNeeded: "Ambulaansii gaafachuuf hayyamni bakkaa barbaachisa.",
+    signInNeeded: "Ambulaansii gaafachuuf akka dhukkubsataatti seenaa, ykn 911 bilbilaa.",
+  },
+};
@@ -0,0 +1,261 @@
+/**
+ * Locale-aware display of distances, durations, dates and times.
+ *
+ * Screens used to build these by hand in English (`${km.toFixed(1)} km`,
+ * `toLocaleTimeString()`); these helpers format them for the current
+ * language through the keyed translations in `i18n.ts`. Dates and times
+ * follow the user's calendar preference (`getCalendarSystem()`), so am/om
+ * users see Ethiopian dates on the Ethiopian clock by default.
+ */
+import {
+  type DayPeriod,
+  ethiopianDateOf,
+  toEthiopianTime,
+} from "./ethiopian-calendar";
+import {
+  type CalendarSystem,
+  formatNumber,
+  getCalendarSystem,
+  getLang,
+  tFor,
+  type Lang,
+} from "./i18n";
+
+const GREGORIAN_MONTHS: Record<Lang, string[]> = {
+  en: [
+    "Jan",
+    "Feb",
+    "Mar",
+    "Apr",
+    "May",
+    "Jun",
+    "Jul",
+    "Aug",
+    "Sep",
+    "Oct",
+    "Nov",
+    "Dec",
+  ],
+  am: [
+    "ጃንዩዌሪ",
+    "ፌብሩዌሪ",
+    "ማርች",
+    "ኤፕሪል",
+    "ሜይ",
+    "ጁን",
+    "ጁላይ",
+    "ኦገስት",
+    "ሴፕቴምበር",
+    "ኦክቶበር",
+    "ኖቬምበር",
+    "ዲሴምበር",
+  ],
+  om: [
+    "Amajjii",
+    "Guraandhala",
+    "Bitootessa",
+    "Ebla",
+    "Caamsaa",
+    "Waxabajjii",
+    "Adoolessa",
+    "Hagayya",
+    "Fulbaana",
+    "Onkoloolessa",
+    "Sadaasa",
+    "Muddee",
+  ],
+};
+
+/** Meskerem … Pagume. */
+const ETHIOPIAN_MONTHS: Record<Lang, string[]> = {
+  en: [
+    "Meskerem",
+    "Tikimt",
+    "Hidar",
+    "Tahsas",
+    "Tir",
+    "Yekatit",
+    "Megabit",
+    "Miyazya",
+    "Ginbot",
+    "Sene",
+    "Hamle",
+    "Nehase",
+    "Pagume",
+  ],
+  am: [
+    "መስከረም",
+    "ጥቅምት",
+    "ኅዳር",
+    "ታኅሣሥ",
+    "ጥር",
+    "የካቲት",
+    "መጋቢት",
+    "ሚያዝያ",
+    "ግንቦት",
+    "ሰኔ",
+    "ሐምሌ",
+    "ነሐሴ",
+    "ጳጉሜ",
+  ],
+  om: [
+    "Fulbaana",
+    "Onkoloolessa",
+    "Sadaasa",
+    "Muddee",
+    "Amajjii",
+    "Guraandhala",
+    "Bitootessa",
+    "Ebla",
+    "Caamsaa",
+    "Waxabajjii",
+    "Adoolessa",
+    "Hagayya",
+    "Qaammee",
+  ],
+};
+
+/** Era suffix for Ethiopian years ("Ethiopian Calendar"). */
+const ETHIOPIAN_ERA: Record<Lang, string> = {
+  en: "EC",
+  am: "ዓ.ም.",
+  om: "ALI",
+};
+
+export interface DateFormatOptions {
+  lang?: Lang;
+  calendar?: CalendarSystem;
+  /** Include the year (default true). */
+  withYear?: boolean;
+}
+
+const toDate = (value: Date | string | number): Date | null => {
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/** A distance in kilometres: metres below 1 km, one decimal below 100 km. */
+export const formatDistance = (km: number, lang: Lang = getLang()): string => {
+  if (!Number.isFinite(km)) return "";
+  if (km < 1) {
+    return tFor(lang, "distance_m", {
+      value: formatNumber(Math.round(km * 1000)),
+    });
+  }
+  const digits = km < 100 ? 1 : 0;
+  return tFor(lang, "distance_km", {
+    value: formatNumber(km, {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }),
+  });
+};
+
+/** A duration in minutes, switching to hours from 60 minutes. */
+export const formatDuration = (
+  minutes: number,
+  lang: Lang = getLang(),
+): string => {
+  if (!Number.isFinite(minutes)) return "";
+  const total = Math.max(0, Math.round(minutes));
+  return total < 60
+    ? tFor(lang, "duration_minutes", { minutes: total })
+    : tFor(lang, "duration_hours", {
+        hours: Math.floor(total / 60),
+        minutes: total % 60,
+      });
+};
+
+export const formatDate = (
+  value: Date | string | number,
+  { lang = getLang(), calendar, withYear = true }: DateFormatOptions = {},
+): string => {
+  const date = toDate(value);
+  if (!date) return "";
+
+  if ((calendar ?? getCalendarSystem(lang)) === "ethiopian") {
+    const { year, month, day } = ethiopianDateOf(date);
+    const text = `${ETHIOPIAN_MONTHS[lang][month - 1]} ${day}`;
+    return withYear ? `${text}, ${year} ${ETHIOPIAN_ERA[lang]}` : text;
+  }
+
+  const text = `${GREGORIAN_MONTHS[lang][date.getMonth()]} ${date.getDate()}`;
+  return withYear ? `${text}, ${date.getFullYear()}` : text;
+};
+
+const DAY_PERIODS: Record<Lang, Record<DayPeriod, string>> = {
+  en: {
+    night: "at night",
+    morning: "in the morning",
+    afternoon: "in the afternoon",
+    evening: "in the evening",
+  },
+  am: { night: "ሌሊት", morning: "ጠዋት", afternoon: "ከሰዓት", evening: "ምሽት" },
+  om: {
+    night: "halkan",
+    morning: "ganama",
+    afternoon: "waaree booda",
+    evening: "galgala",
+  },
+};
+
+export interface TimeFormatOptions {
+  lang?: Lang;
+  /** The Ethiopian calendar also reads times on the Ethiopian clock. */
+  calendar?: CalendarSystem;
+  withSeconds?: boolean;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Clock time. On the Ethiopian clock it reads "ከሰዓት 8:05" / "8:05 in the
+ * afternoon"; otherwise 12-hour with AM/PM in English and 24-hour in am/om.
+ */
+export const formatTime = (
+  value: Date | string | number,
+  { lang = getLang(), calendar, withSeconds = false }: TimeFormatOptions = {},
+): string => {
+  const date = toDate(value);
+  if (!date) return "";
+  const hours = date.getHours();
+  const rest = `${pad(date.getMinutes())}${
+    withSeconds ? `:${pad(date.getSeconds())}` : ""
+  }`;
+
+  if ((calendar ?? getCalendarSystem(lang)) === "ethiopian") {
+    const { hour, period } = toEthiopianTime(hours, date.getMinutes());
+    const label = DAY_PERIODS[lang][period];
+    return lang === "am"
+      ? `${label} ${hour}:${rest}`
+      : `${hour}:${rest} ${label}`;
+  }
+  if (lang !== "en") return `${pad(hours)}:${rest}`;
+  return `${hours % 12 || 12}:${rest} ${hours < 12 ? "AM" : "PM"}`;
+};
+
+export const formatDateTime = (
+  value: Date | string | number,
+  options: DateFormatOptions = {},
+): string => {
+  const date = toDate(value);
+  if (!date) return "";
+  return `${formatTime(date, options)} · ${formatDate(date, options)}`;
+};
+
+/** "5m ago" style age of a timestamp, falling back to the date after a week. */
+export const formatTimeAgo = (
+  value: Date | string | number,
+  { lang = getLang(), now = Date.now() }: { lang?: Lang; now?: number } = {},
+): string => {
+  const date = toDate(value);
+  if (!date) return "";
+  const minutes = Math.floor((now - date.getTime()) / 60000);
+  if (minutes < 1) return tFor(lang, "time_just_now");
+  if (minutes < 60) return tFor(lang, "time_minutes_ago", { minutes });
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return tFor(lang, "time_hours_ago", { hours });
+  const days = Math.floor(hours / 24);
+  if (days < 7) return tFor(lang, "time_days_ago", { days });
+  return formatDate(date, { lang });
+};
@@ -13,11 +13,26 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 
 export type Lang = "en" | "am" | "om";
 
+export type CalendarSystem = "gregorian" | "ethiopian";
+
+/** "auto" follows the language: Ethiopian for am/om, Gregorian for en. */
+export type CalendarPreference = "auto" | CalendarSystem;
+
 const _STORAGE_KEY = "erdataye_lang";
+const _CALENDAR_STORAGE_KEY = "erdataye_calendar";
 let _currentLang: Lang = "en";
+let _calendarPreference: CalendarPreference = "auto";
 const _listeners = new Set<() => void>();
 
 export const LANG_OPTIONS: ReadonlyArray<Lang> = ["en", "am", "om"];
+export const CALENDAR_OPTIONS: readonly CalendarPreference[] = [
+  "auto",
+  "gregorian",
+  "ethiopian",
+];
+
+const _isCalendarPreference = (value: unknown): value is CalendarPreference =>
+  value === "auto" || value === "gregorian" || value === "ethiopian";
 
 const _notifyLangChanged = () => {
   _listeners.forEach((listener) => {
@@ -67,15 +82,63 @@ export function getLang(): Lang {
   return _currentLang;
 }
 
-/** Load persisted language preference (call once at app start). */
+/** Set the calendar dates are shown in and persist it with the language. */
+export async function setCalendarPreference(
+  preference: CalendarPreference,
+): Promise<void> {
+  if (_calendarPreference === preference) return;
+  _calendarPreference = preference;
+
+  try {
+    await AsyncStorage.setItem(_CALENDAR_STORAGE_KEY, preference);
+  } catch {
+    /* best-effort local persist */
+  }
+
+  _notifyLangChanged();
+
+  try {
+    const { supabase } = await import("./supabase");
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (user) {
+      await supabase.auth.updateUser({
+        data: { preferred_calendar: preference },
+      });
+    }
+  } catch {
+    /* best-effort persist */
+  }
+}
+
+export function getCalendarPreference(): CalendarPreference {
+  return _calendarPreference;
+}
+
+/** The calendar to display dates in, resolving "auto" by language. */
+export function getCalendarSystem(lang: Lang = _currentLang): CalendarSystem {
+  if (_calendarPreference !== "auto") return _calendarPreference;
+  return lang === "en" ? "gregorian" : "ethiopian";
+}
+
+/**
+ * Load persisted language and calendar preferences (call once at app
+ * start). The account's metadata wins over this device's stored values.
+ */
 export async function loadLang(): Promise<Lang> {
   let nextLang: Lang | null = null;
+  let nextCalendar: CalendarPreference | null = null;
 
   try {
-    const storedLocal = await AsyncStorage.getItem(_STORAGE_KEY);
+    const [storedLocal, storedCalendar] = await Promise.all([
+      AsyncStorage.getItem(_STORAGE_KEY),
+      AsyncStorage.getItem(_CALENDAR_STORAGE_KEY),
+    ]);
     if (storedLocal === "en" || storedLocal === "am" || storedLocal === "om") {
       nextLang = storedLocal;
     }
+    if (_isCalendarPreference(storedCalendar)) nextCalendar = storedCalendar;
   } catch {
     /* default to profile or fallback en */
   }
@@ -89,16 +152,26 @@ export async function loadLang(): Promise<Lang> {
     if (stored === "en" || stored === "am" || stored === "om") {
       nextLang = stored;
     }
+    const storedCalendar = user?.user_metadata?.preferred_calendar;
+    if (_isCalendarPreference(storedCalendar)) nextCalendar = storedCalendar;
   } catch {
     /* ignore and keep local/default */
   }
 
-  if (nextLang && nextLang !== _currentLang) {
-    _currentLang = nextLang;
+  const langChanged = Boolean(nextLang && nextLang !== _currentLang);
+  const calendarChanged = Boolean(
+    nextCalendar && nextCalendar !== _calendarPreference,
+  );
+  if (nextLang) _currentLang = nextLang;
+  if (nextCalendar) _calendarPreference = nextCalendar;
+  if (langChanged || calendarChanged) {
     _notifyLangChanged();
 
     try {
-      await AsyncStorage.setItem(_STORAGE_KEY, nextLang);
+      await Promise.all([
+        AsyncStorage.setItem(_STORAGE_KEY, _currentLang),
+        AsyncStorage.setItem(_CALENDAR_STORAGE_KEY, _calendarPreference),
+      ]);
     } catch {
       /* best-effort local persist */
     }
@@ -486,21 +559,293 @@ const translations: Record<string, Record<Lang, string>> = {
     am: "ተመድበዋል",
     om: "Ati ramadamteetta",
   },
+
+  // ── Units & counts ──
+  distance_km: { en: "{value} km", am: "{value} ኪ.ሜ", om: "{value} km" },
+  distance_m: { en: "{value} m", am: "{value} ሜ", om: "{value} m" },
+  duration_minutes: {
+    en: "{minutes} min",
+    am: "{minutes} ደቂቃ",
+    om: "daqiiqaa {minutes}",
+  },
+  duration_hours: {
+    en: "{hours} h {minutes} min",
+    am: "{hours} ሰዓት {minutes} ደቂቃ",
+    om: "sa'aatii {hours} daqiiqaa {minutes}",
+  },
+  eta_duration: {
+    en: "ETA {duration}",
+    am: "ግምት {duration}",
+    om: "Yeroo dhaqabaa {duration}",
+  },
+  distance_away: {
+    en: "{distance} away",
+    am: "{distance} ርቀት ላይ",
+    om: "{distance} fagaatee",
+  },
+  minutes_apart: {
+    en: "{minutes, plural, one {# minute} other {# minutes}} apart",
+    am: "በ{minutes} ደቂቃ ልዩነት",
+    om: "daqiiqaa {minutes} garaagarummaan",
+  },
+  priority_label: {
+    en: "Priority {priority}",
+    am: "ቅድሚያ {priority}",
+    om: "Dursa {priority}",
+  },
+  available_ambulance_count: {
+    en: "{count, plural, =0 {No ambulances available} one {# ambulance available} other {# ambulances available}}",
+    am: "{count, plural, =0 {የሚገኝ አምቡላንስ የለም} one {# አምቡላንስ ይገኛል} other {# አምቡላንሶች ይገኛሉ}}",
+    om: "{count, plural, =0 {Ambulaansiin argamu hin jiru} one {Ambulaansii # argama} other {Ambulaansota # argamu}}",
+  },
+  time_just_now: { en: "Just now", am: "አሁን", om: "Amma" },
+  time_minutes_ago: {
+    en: "{minutes}m ago",
+    am: "ከ{minutes} ደቂቃ በፊት",
+    om: "Daqiiqaa {minutes} dura",
+  },
+  time_hours_ago: {
+    en: "{hours}h ago",
+    am: "ከ{hours} ሰዓት በፊት",
+    om: "Sa'aatii {hours} dura",
+  },
+  time_days_ago: {
+    en: "{days, plural, one {# day} other {# days}} ago",
+    am: "ከ{days} ቀን በፊት",
+    om: "Guyyaa {days} dura",
+  },
+  calendar: { en: "Calendar", am: "የቀን መቁጠሪያ", om: "Dhaha" },
+  calendar_auto: {
+    en: "Match language",
+    am: "እንደ ቋንቋው",
+    om: "Akka afaanichaa",
+  },
+  calendar_gregorian: {
+    en: "Gregorian",
+    am: "ግሪጎሪያን",
+    om: "Gorgoorasaa",
+  },
+  calendar_ethiopian: {
+    en: "Ethiopian",
+    am: "ኢትዮጵያዊ",
+    om: "Itoophiyaa",
+  },
+  message_count: {
+    en: "{count, plural, one {# message} other {# messages}}",
+    am: "{count, plural, one {# መልእክት} other {# መልእክቶች}}",
+    om: "{count, plural, one {Ergaa #} other {Ergaawwan #}}",
+  },
+
+  // ── Trusted contacts ──
+  contact_alert_created: {
+    en: "{name} has requested an emergency ambulance.",
+    am: "{name} የአደጋ ጊዜ አምቡላንስ ጠይቀዋል።",
+    om: "{name} ambulaansii balaa tasaa gaafateera.",
+  },
+  contact_alert_created_assigned: {
+    en: "{name} has requested an emergency ambulance and one is on its way.",
+    am: "{name} የአደጋ ጊዜ አምቡላንስ ጠይቀዋል፤ አምቡላንስ በመንገድ ላይ ነው።",
+    om: "{name} ambulaansii balaa tasaa gaafateera; ambulaansiin karaa irra jira.",
+  },
+  contact_alert_assigned: {
+    en: "An ambulance is on its way to {name}.",
+    am: "አምቡላንስ ወደ {name} በመንገድ ላይ ነው።",
+    om: "Ambulaansiin gara {name} deemaa jira.",
+  },
+  contact_alert_at_hospital: {
+    en: "{name} has arrived at the hospital.",
+    am: "{name} ሆስፒታል ደርሰዋል።",
+    om: "{name} hospitaala ga'eera.",
+  },
+  contact_alert_follow: {
+    en: "Follow live: {url}",
+    am: "በቀጥታ ይከታተሉ: {url}",
+    om: "Kallattiin hordofi: {url}",
+  },
+  contact_alert_someone: {
+    en: "Your contact",
+    am: "የእርስዎ ሰው",
+    om: "Namni kee",
+  },
+  relationship_parent: { en: "Parent", am: "ወላጅ", om: "Maatii" },
+  relationship_spouse: { en: "Spouse", am: "የትዳር አጋር", om: "Hiriyaa gaa'elaa" },
+  relationship_child: { en: "Child", am: "ልጅ", om: "Daa'ima" },
+  relationship_sibling: {
+    en: "Sibling",
+    am: "ወንድም/እህት",
+    om: "Obboleessa/Obboleettii",
+  },
+  relationship_friend: { en: "Friend", am: "ጓደኛ", om: "Michuu" },
+  relationship_other: { en: "Other", am: "ሌላ", om: "Kan biraa" },
+  contact_alert_sent: { en: "Notified", am: "ተነግሯቸዋል", om: "Beeksifameera" },
+  contact_alert_sms_opened: {
+    en: "SMS prepared",
+    am: "ኤስኤምኤስ ተዘጋጅቷል",
+    om: "SMS qophaa'eera",
+  },
+  contact_alert_failed: { en: "Not sent", am: "አልተላከም", om: "Hin ergamne" },
+};
+
+const isDev = () => typeof __DEV__ !== "undefined" && __DEV__;
+const warnedMissing = new Set<string>();
+
+/** Dev builds warn once per key that has no text in a language. */
+const warnMissing = (key: string, lang: Lang) => {
+  if (!isDev() || warnedMissing.has(`${lang}:${key}`)) return;
+  warnedMissing.add(`${lang}:${key}`);
+  console.warn(`[i18n] missing ${lang} translation for "${key}"`);
+};
+
+// ─── Message formatting ───────────────────────────────────────────────────
+
+export type TranslationParams = Record<string, string | number>;
+
+export type PluralCategory = "one" | "other";
+
+/** CLDR plural rules; en, am and om only distinguish "one" and "other". */
+const PLURAL_RULES: Record<Lang, (count: number) => PluralCategory> = {
+  en: (count) => (count === 1 ? "one" : "other"),
+  // CLDR am: i = 0 or n = 1, so 0 and fractions below 1 are also "one".
+  am: (count) =>
+    Math.trunc(Math.abs(count)) === 0 || count === 1 ? "one" : "other",
+  om: (count) => (count === 1 ? "one" : "other"),
 };
 
+export function pluralCategory(
+  count: number,
+  lang: Lang = _currentLang,
+): PluralCategory {
+  return PLURAL_RULES[lang](count);
+}
+
+export interface NumberFormatOptions {
+  minimumFractionDigits?: number;
+  maximumFractionDigits?: number;
+}
+
+/**
+ * Format a number with `,` grouping and `.` decimals, as en-US, am-ET and
+ * om-ET all write them. Hand-rolled because Hermes ships without full
+ * `Intl` locale data for am/om.
+ */
+export function formatNumber(
+  value: number,
+  {
+    minimumFractionDigits = 0,
+    maximumFractionDigits = 2,
+  }: NumberFormatOptions = {},
+): string {
+  if (!Number.isFinite(value)) return String(value);
+  const fixed = Math.abs(value).toFixed(maximumFractionDigits);
+  let [whole, fraction = ""] = fixed.split(".");
+  while (fraction.length > minimumFractionDigits && fraction.endsWith("0")) {
+    fraction = fraction.slice(0, -1);
+  }
+  whole = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  const sign = value < 0 && Number(fixed) !== 0 ? "-" : "";
+  return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/** Index of the `}` closing the `{` at `open`, or -1. */
+const closingBrace = (text: string, open: number): number => {
+  let depth = 0;
+  for (let index = open; index < text.length; index++) {
+    if (text[index] === "{") depth++;
+    else if (text[index] === "}" && --depth === 0) return index;
+  }
+  return -1;
+};
+
+const formatArgument = (
+  body: string,
+  params: TranslationParams,
+  lang: Lang,
+): string => {
+  const [name, kind] = body.split(",", 2).map((part) => part.trim());
+  const value = params[name];
+  if (value === undefined) return `{${body}}`;
+  if (kind !== "plural") {
+    return typeof value === "number" ? formatNumber(value) : String(value);
+  }
+
+  const count = Number(value);
+  const options: Record<string, string> = {};
+  const rest = body.slice(body.indexOf("plural") + "plural".length + 1);
+  const selector = /\s*(=\d+(?:\.\d+)?|[a-z]+)\s*\{/g;
+  let match: RegExpExecArray | null;
+  while ((match = selector.exec(rest))) {
+    const open = match.index + match[0].length - 1;
+    const close = closingBrace(rest, open);
+    if (close === -1) break;
+    options[match[1]] = rest.slice(open + 1, close);
+    selector.lastIndex = close + 1;
+  }
+  const chosen =
+    options[`=${count}`] ??
+    options[pluralCategory(count, lang)] ??
+    options.other ??
+    "";
+  return formatMessage(chosen.replace(/#/g, formatNumber(count)), params, lang);
+};
+
+/**
+ * Fill an ICU-style message: `{name}` placeholders and
+ * `{count, plural, =0 {…} one {# item} other {# items}}` selections, where
+ * `#` is the formatted count. Unknown placeholders are left as written.
+ */
+export function formatMessage(
+  template: string,
+  params: TranslationParams,
+  lang: Lang = _currentLang,
+): string {
+  let result = "";
+  let index = 0;
+  while (index < template.length) {
+    const open = template.indexOf("{", index);
+    const close = open === -1 ? -1 : closingBrace(template, open);
+    if (close === -1) {
+      result += template.slice(index);
+      break;
+    }
+    result += template.slice(index, open);
+    result += formatArgument(template.slice(open + 1, close), params, lang);
+    index = close + 1;
+  }
+  return result;
+}
+
 /**
- * Translate a key. Supports simple `{0}` placeholder substitution.
+ * Translate a key. Placeholders are filled from named params or, for older
+ * entries, from positional `{0}`, `{1}` arguments.
  *
  * @example t('eta_minutes', '5') → "ETA: 5 min" / "ግምት: 5 ደቂቃ"
+ * @example t('message_count', { count: 3 }) → "3 messages"
  */
-export function t(key: string, ...args: (string | number)[]): string {
+export function t(key: string, params?: TranslationParams): string;
+export function t(key: string, ...args: (string | number)[]): string;
+export function t(
+  key: string,
+  ...args: (string | number | TranslationParams | undefined)[]
+): string {
+  const [first] = args;
+  const params: TranslationParams | undefined =
+    first === undefined || typeof first === "object"
+      ? first
+      : Object.fromEntries(args.map((arg, index) => [index, arg as string]));
+  return tFor(_currentLang, key, params);
+}
+
+/** `t()` in a given language rather than the current one. */
+export function tFor(
+  lang: Lang,
+  key: string,
+  params?: TranslationParams,
+): string {
   const entry = translations[key];
+  if (!entry || !entry[lang]) warnMissing(key, lang);
   if (!entry) return key;
-  let text = entry[_currentLang] ?? entry.en ?? key;
-  args.forEach((arg, idx) => {
-    text = text.replace(`{${idx}}`, String(arg));
-  });
-  return text;
+  const text = entry[lang] ?? entry.en ?? key;
+  return params ? formatMessage(text, params, lang) : text;
 }
 
 const literalTranslations: Record<string, Record<Lang, string>> = {
@@ -1267,6 +1612,879 @@ const literalTranslations: Record<string, Record<Lang, string>> = {
     am: "የቀጥታ የአደጋ ክትትል ሊንክ",
     om: "Liinkii hordoffii balaa kallattii",
   },
+  // ── Patient-facing screens ──
+  "Active Emergency": {
+    en: "Active Emergency",
+    am: "ንቁ ድንገተኛ አደጋ",
+    om: "Balaa Tasaa Hojii Irra Jiru",
+  },
+  "Your emergency request is in progress": {
+    en: "Your emergency request is in progress",
+    am: "የአደጋ ጥያቄዎ በሂደት ላይ ነው",
+    om: "Gaaffiin balaa kee adeemsa irra jira",
+  },
+  "Person in Need": {
+    en: "Person in Need",
+    am: "እርዳታ የሚያስፈልገው ሰው",
+    om: "Nama Gargaarsa Barbaadu",
+  },
+  "Name": {
+    en: "Name",
+    am: "ስም",
+    om: "Maqaa",
+  },
+  "Name of the person who needs help": {
+    en: "Name of the person who needs help",
+    am: "እርዳታ የሚያስፈልገው ሰው ስም",
+    om: "Maqaa nama gargaarsa barbaadu",
+  },
+  "Their phone number": {
+    en: "Their phone number",
+    am: "የእነሱ ስልክ ቁጥር",
+    om: "Lakkoofsa bilbilaa isaanii",
+  },
+  "Emergency Severity": {
+    en: "Emergency Severity",
+    am: "የአደጋው ክብደት",
+    om: "Cimina Balaa",
+  },
+  "Emergency Details": {
+    en: "Emergency Details",
+    am: "የአደጋው ዝርዝሮች",
+    om: "Bal'ina Balaa",
+  },
+  "🚑 Emergency Ambulance Service": {
+    en: "🚑 Emergency Ambulance Service",
+    am: "🚑 የድንገተኛ አምቡላንስ አገልግሎት",
+    om: "🚑 Tajaajila Ambulaansii Balaa Tasaa",
+  },
+  "Location unavailable. Please check GPS and network, then try again.": {
+    en: "Location unavailable. Please check GPS and network, then try again.",
+    am: "አካባቢ አልተገኘም። እባክዎ GPS እና ኔትወርክን ያረጋግጡ፣ ከዚያ እንደገና ይሞክሩ።",
+    om: "Bakki hin argamne. Maaloo GPS fi neetworkii mirkaneessiitii irra deebi'ii yaali.",
+  },
+  "Location permission denied. Enable location access to dispatch the nearest ambulance.": {
+    en: "Location permission denied. Enable location access to dispatch the nearest ambulance.",
+    am: "የአካባቢ ፈቃድ ተከልክሏል። በአቅራቢያ ያለውን አምቡላንስ ለመላክ የአካባቢ መዳረሻን ያንቁ።",
+    om: "Hayyamni bakkaa dideera. Ambulaansii dhihoo jiru erguuf hayyama bakkaa banaa godhi.",
+  },
+  "Loading map...": {
+    en: "Loading map...",
+    am: "ካርታ በመጫን ላይ...",
+    om: "Kaartaa fe'aa jira...",
+  },
+  "Fetching your current location...": {
+    en: "Fetching your current location...",
+    am: "የአሁኑን አካባቢዎን በማግኘት ላይ...",
+    om: "Bakka ammaa kee argachaa jira...",
+  },
+  "📍 Live location map": {
+    en: "📍 Live location map",
+    am: "📍 የቀጥታ አካባቢ ካርታ",
+    om: "📍 Kaartaa bakka kallattii",
+  },
+  "No ambulances available": {
+    en: "No ambulances available",
+    am: "የሚገኝ አምቡላንስ የለም",
+    om: "Ambulaansiin argamu hin jiru",
+  },
+  "No active emergencies": {
+    en: "No active emergencies",
+    am: "ንቁ አደጋዎች የሉም",
+    om: "Balaan hojii irra jiru hin jiru",
+  },
+  "No hospitals found": {
+    en: "No hospitals found",
+    am: "ምንም ሆስፒታል አልተገኘም",
+    om: "Hospitaalli hin argamne",
+  },
+  "Edit Profile": {
+    en: "Edit Profile",
+    am: "መገለጫ አስተካክል",
+    om: "Profaayilii Gulaali",
+  },
+  "Life-threatening emergency? Call 911 immediately.": {
+    en: "Life-threatening emergency? Call 911 immediately.",
+    am: "ሕይወትን የሚያሰጋ አደጋ ነው? ወዲያውኑ 911 ይደውሉ።",
+    om: "Balaa lubbuu balleessu? Battaluma 911 bilbili.",
+  },
+  "👋 Welcome! Ask me anything about first aid or emergencies.": {
+    en: "👋 Welcome! Ask me anything about first aid or emergencies.",
+    am: "👋 እንኳን ደህና መጡ! ስለ መጀመሪያ እርዳታ ወይም ድንገተኛ አደጋዎች ማንኛውንም ይጠይቁኝ።",
+    om: "👋 Baga nagaan dhuftan! Waa'ee gargaarsa jalqabaa ykn balaa tasaa waan kamiyyuu na gaafadhaa.",
+  },
+  "Close chatbot": {
+    en: "Close chatbot",
+    am: "ቻትቦቱን ዝጋ",
+    om: "Chaatbootii cufi",
+  },
+  "Close coach": {
+    en: "Close coach",
+    am: "አሰልጣኙን ዝጋ",
+    om: "Leenjisaa cufi",
+  },
+  "Slower": {
+    en: "Slower",
+    am: "ቀስ በል",
+    om: "Suuta godhi",
+  },
+  "Faster": {
+    en: "Faster",
+    am: "ፍጠን",
+    om: "Saffisi",
+  },
+  "Chatbot": {
+    en: "Chatbot",
+    am: "ቻትቦት",
+    om: "Chaatbootii",
+  },
+  "History": {
+    en: "History",
+    am: "ታሪክ",
+    om: "Seenaa",
+  },
+  "New conversation": {
+    en: "New conversation",
+    am: "አዲስ ውይይት",
+    om: "Haasaa haaraa",
+  },
+  "Listening in English... tap mic again to stop.": {
+    en: "Listening in English... tap mic again to stop.",
+    am: "በእንግሊዝኛ በማዳመጥ ላይ... ለማቆም ማይክሮፎኑን እንደገና ይንኩ።",
+    om: "Afaan Ingiliziitiin dhaggeeffachaa jira... dhaabuuf maayikii irra deebi'ii tuqi.",
+  },
+  "Voice input currently supports English only.": {
+    en: "Voice input currently supports English only.",
+    am: "የድምፅ ግብዓት በአሁኑ ጊዜ እንግሊዝኛን ብቻ ይደግፋል።",
+    om: "Galchi sagalee yeroo ammaa Afaan Ingiliziffaa qofa deeggara.",
+  },
+  "Chat History": {
+    en: "Chat History",
+    am: "የውይይት ታሪክ",
+    om: "Seenaa Haasaa",
+  },
+  "Search past advice": {
+    en: "Search past advice",
+    am: "ያለፉ ምክሮችን ይፈልጉ",
+    om: "Gorsa darbe barbaadi",
+  },
+  "No messages match your search.": {
+    en: "No messages match your search.",
+    am: "ከፍለጋዎ ጋር የሚዛመድ መልእክት የለም።",
+    om: "Ergaan barbaacha kee waliin walsimu hin jiru.",
+  },
+  "No conversations yet.": {
+    en: "No conversations yet.",
+    am: "እስካሁን ውይይቶች የሉም።",
+    om: "Hanga ammaatti haasaan hin jiru.",
+  },
+  "Sign in to keep your first aid conversations.": {
+    en: "Sign in to keep your first aid conversations.",
+    am: "የመጀመሪያ እርዳታ ውይይቶችዎን ለማስቀመጥ ይግቡ።",
+    om: "Haasaa gargaarsa jalqabaa kee kuusuuf seeni.",
+  },
+  "Not synced yet": {
+    en: "Not synced yet",
+    am: "ገና አልተመሳሰለም",
+    om: "Ammallee hin walsimne",
+  },
+  "Export conversation": {
+    en: "Export conversation",
+    am: "ውይይቱን ላክ",
+    om: "Haasaa ergi",
+  },
+  "Delete conversation": {
+    en: "Delete conversation",
+    am: "ውይይቱን ሰርዝ",
+    om: "Haasaa haqi",
+  },
+  "Delete all conversations": {
+    en: "Delete all conversations",
+    am: "ሁሉንም ውይይቶች ሰርዝ",
+    om: "Haasaa hunda haqi",
+  },
+  "National ID / FAN Number": {
+    en: "National ID / FAN Number",
+    am: "ብሔራዊ መታወቂያ / FAN ቁጥር",
+    om: "Eenyummeessa Biyyaalessaa / Lakkoofsa FAN",
+  },
+  "Min 6 chars": {
+    en: "Min 6 chars",
+    am: "ቢያንስ 6 ፊደላት",
+    om: "Yoo xiqqaate qubee 6",
+  },
+  "Comma-separated": {
+    en: "Comma-separated",
+    am: "በነጠላ ሰረዝ የተለዩ",
+    om: "Qoodduun addaan baafame",
+  },
+  "Ambulance Type *": {
+    en: "Ambulance Type *",
+    am: "የአምቡላንስ አይነት *",
+    om: "Gosa Ambulaansii *",
+  },
+  "Hospital *": {
+    en: "Hospital *",
+    am: "ሆስፒታል *",
+    om: "Hospitaala *",
+  },
+  "Loading hospitals...": {
+    en: "Loading hospitals...",
+    am: "ሆስፒታሎችን በመጫን ላይ...",
+    om: "Hospitaalota fe'aa jira...",
+  },
+  "No available hospitals yet. Ask admin to create hospital accounts.": {
+    en: "No available hospitals yet. Ask admin to create hospital accounts.",
+    am: "እስካሁን የሚገኝ ሆስፒታል የለም። አስተዳዳሪውን የሆስፒታል መለያዎች እንዲፈጥር ይጠይቁ።",
+    om: "Hanga ammaatti hospitaalli argamu hin jiru. Bulchaan akkaawuntii hospitaalaa akka uumu gaafadhu.",
+  },
+  "Selected": {
+    en: "Selected",
+    am: "ተመርጧል",
+    om: "Filatameera",
+  },
+  "Plate Number *": {
+    en: "Plate Number *",
+    am: "የሰሌዳ ቁጥር *",
+    om: "Lakkoofsa Gabatee *",
+  },
+  "Registration No. *": {
+    en: "Registration No. *",
+    am: "የምዝገባ ቁ. *",
+    om: "Lakk. Galmee *",
+  },
+  "Reg. number": {
+    en: "Reg. number",
+    am: "የምዝገባ ቁጥር",
+    om: "Lakk. galmee",
+  },
+  "By registering, you consent to processing your emergency and profile data to coordinate ambulance response and care.": {
+    en: "By registering, you consent to processing your emergency and profile data to coordinate ambulance response and care.",
+    am: "በመመዝገብዎ የአምቡላንስ ምላሽና እንክብካቤን ለማስተባበር የአደጋና የመገለጫ መረጃዎ እንዲሠራበት ይስማማሉ።",
+    om: "Galmaa'uun kee, deebii ambulaansii fi kunuunsa qindeessuuf odeeffannoon balaa fi profaayilii kee akka itti fayyadaman ni eeyyamta.",
+  },
+  "Emergency Active": {
+    en: "Emergency Active",
+    am: "አደጋ በሂደት ላይ",
+    om: "Balaan Hojii Irra Jira",
+  },
+  "No Active Emergency": {
+    en: "No Active Emergency",
+    am: "ንቁ አደጋ የለም",
+    om: "Balaan Hojii Irra Jiru Hin Jiru",
+  },
+  "Live Status": {
+    en: "Live Status",
+    am: "የቀጥታ ሁኔታ",
+    om: "Haala Kallattii",
+  },
+  "View Status": {
+    en: "View Status",
+    am: "ሁኔታውን ይመልከቱ",
+    om: "Haala Ilaali",
+  },
+  "Call Dispatcher": {
+    en: "Call Dispatcher",
+    am: "ላኪውን ይደውሉ",
+    om: "Ergaa Qindeessaa Bilbili",
+  },
+  "Nearest live ambulance": {
+    en: "Nearest live ambulance",
+    am: "በቅርብ ያለው የቀጥታ አምቡላንስ",
+    om: "Ambulaansii kallattii dhihoo jiru",
+  },
+  "Searching for nearby live ambulances...": {
+    en: "Searching for nearby live ambulances...",
+    am: "በአቅራቢያ ያሉ አምቡላንሶችን በመፈለግ ላይ...",
+    om: "Ambulaansota dhihoo jiran barbaadaa jira...",
+  },
+  "No ambulances are nearby right now": {
+    en: "No ambulances are nearby right now",
+    am: "አሁን በአቅራቢያ አምቡላንስ የለም",
+    om: "Amma ambulaansiin dhihoo jiru hin jiru",
+  },
+  "Live Emergency Tracking": {
+    en: "Live Emergency Tracking",
+    am: "የቀጥታ የአደጋ ክትትል",
+    om: "Hordoffii Balaa Kallattii",
+  },
+  "Syncing latest emergency details...": {
+    en: "Syncing latest emergency details...",
+    am: "የቅርብ ጊዜውን የአደጋ ዝርዝር በማመሳሰል ላይ...",
+    om: "Bal'ina balaa haaraa walsimsiisaa jira...",
+  },
+  "Live details are syncing. Showing latest known emergency info.": {
+    en: "Live details are syncing. Showing latest known emergency info.",
+    am: "የቀጥታ ዝርዝሮች በመመሳሰል ላይ ናቸው። የመጨረሻው የታወቀ የአደጋ መረጃ እየታየ ነው።",
+    om: "Bal'inni kallattii walsimaa jira. Odeeffannoo balaa dhumaa beekame agarsiisaa jira.",
+  },
+  "No available hospitals found. Ask admin to create one.": {
+    en: "No available hospitals found. Ask admin to create one.",
+    am: "የሚገኝ ሆስፒታል አልተገኘም። አስተዳዳሪውን አንድ እንዲፈጥር ይጠይቁ።",
+    om: "Hospitaalli argamu hin jiru. Bulchaan tokko akka uumu gaafadhu.",
+  },
+  "Account created but medical profile could not be saved. You can update it later in your profile.": {
+    en: "Account created but medical profile could not be saved. You can update it later in your profile.",
+    am: "መለያው ተፈጥሯል ነገር ግን የሕክምና መገለጫው ሊቀመጥ አልቻለም። በኋላ በመገለጫዎ ውስጥ ማዘመን ይችላሉ።",
+    om: "Akkaawuntiin uumameera garuu profaayiliin fayyaa kuusamuu hin dandeenye. Booda profaayilii kee keessatti haaromsuu dandeessa.",
+  },
+  "Your National ID has been verified. Review the pre-filled details and complete registration.": {
+    en: "Your National ID has been verified. Review the pre-filled details and complete registration.",
+    am: "ብሔራዊ መታወቂያዎ ተረጋግጧል። አስቀድመው የተሞሉትን ዝርዝሮች ይገምግሙና ምዝገባውን ያጠናቅቁ።",
+    om: "Eenyummeessi Biyyaalessaa kee mirkanaa'eera. Bal'ina dursee guutame ilaalii galmee xumuri.",
+  },
+  // ── Voice SOS ──
+  "Voice SOS": {
+    en: "Voice SOS",
+    am: "የድምፅ SOS",
+    om: "SOS Sagalee",
+  },
+  "Hold to describe your emergency": {
+    en: "Hold to describe your emergency",
+    am: "አደጋዎን ለመግለጽ ተጭነው ይያዙ",
+    om: "Balaa kee ibsuuf qabadhu",
+  },
+  "Listening… release to send": {
+    en: "Listening… release to send",
+    am: "እየሰማ ነው… ለመላክ ይልቀቁ",
+    om: "Dhaggeeffachaa jira… erguuf gadi lakkisi",
+  },
+  "Recording… release to send": {
+    en: "Recording… release to send",
+    am: "እየቀረጸ ነው… ለመላክ ይልቀቁ",
+    om: "Waraabaa jira… erguuf gadi lakkisi",
+  },
+  "Hold the button and describe the emergency, then release to send.": {
+    en: "Hold the button and describe the emergency, then release to send.",
+    am: "ቁልፉን ተጭነው ይያዙና አደጋውን ይግለጹ፣ ከዚያ ለመላክ ይልቀቁ።",
+    om: "Qabduu qabadhuu balaa ibsi, achiis erguuf gadi lakkisi.",
+  },
+  "We could not hear a description. Please try again or type it.": {
+    en: "We could not hear a description. Please try again or type it.",
+    am: "መግለጫ መስማት አልቻልንም። እባክዎ እንደገና ይሞክሩ ወይም ይጻፉት።",
+    om: "Ibsa dhaga'uu hin dandeenye. Maaloo irra deebi'ii yaali ykn barreessi.",
+  },
+  "Please allow microphone access to send a voice SOS.": {
+    en: "Please allow microphone access to send a voice SOS.",
+    am: "የድምፅ SOS ለመላክ እባክዎ የማይክሮፎን ፍቃድ ይስጡ።",
+    om: "SOS sagalee erguuf maaloo maaykiroofoonii akka fayyadamnu hayyami.",
+  },
+  "Couldn't start the microphone. Please use the SOS button instead.": {
+    en: "Couldn't start the microphone. Please use the SOS button instead.",
+    am: "ማይክሮፎኑን ማስጀመር አልተቻለም። እባክዎ በምትኩ የSOS ቁልፉን ይጠቀሙ።",
+    om: "Maaykiroofooniin jalqabuu hin dandeenye. Maaloo qabduu SOS fayyadami.",
+  },
+  "Send Voice SOS?": {
+    en: "Send Voice SOS?",
+    am: "የድምፅ SOS ይላክ?",
+    om: "SOS sagalee ergi?",
+  },
+  "Permission needed": {
+    en: "Permission needed",
+    am: "ፍቃድ ያስፈልጋል",
+    om: "Hayyamni barbaachisa",
+  },
+  "Send SOS": {
+    en: "Send SOS",
+    am: "SOS ላክ",
+    om: "SOS Ergi",
+  },
+  "Your recording will be attached for the dispatcher.": {
+    en: "Your recording will be attached for the dispatcher.",
+    am: "ቅጂዎ ለላኪው ይያያዛል።",
+    om: "Waraabbiin kee ergaa qindeessaaf ni maxxanfama.",
+  },
+  // ── Trusted contacts ──
+  "Trusted Contacts": {
+    en: "Trusted Contacts",
+    am: "የሚታመኑ ሰዎች",
+    om: "Namoota amanamoo",
+  },
+  "Manage trusted contacts": {
+    en: "Manage trusted contacts",
+    am: "የሚታመኑ ሰዎችን ያስተዳድሩ",
+    om: "Namoota amanamoo bulchi",
+  },
+  "Relationship": {
+    en: "Relationship",
+    am: "ዝምድና",
+    om: "Firooma",
+  },
+  "Notify by": {
+    en: "Notify by",
+    am: "የሚነገራቸው በ",
+    om: "Kanaan beeksisi",
+  },
+  "App notification": {
+    en: "App notification",
+    am: "የመተግበሪያ ማሳወቂያ",
+    om: "Beeksisa appii",
+  },
+  "Add contact": {
+    en: "Add contact",
+    am: "ሰው ያክሉ",
+    om: "Nama dabali",
+  },
+  "Remove contact": {
+    en: "Remove contact",
+    am: "ሰውን ያስወግዱ",
+    om: "Nama haqi",
+  },
+  "Save contacts": {
+    en: "Save contacts",
+    am: "ሰዎችን ያስቀምጡ",
+    om: "Namoota kuusi",
+  },
+  "Check contact": {
+    en: "Check contact",
+    am: "ሰውን ያረጋግጡ",
+    om: "Nama mirkaneessi",
+  },
+  "Trusted contacts saved": {
+    en: "Trusted contacts saved",
+    am: "የሚታመኑ ሰዎች ተቀምጠዋል",
+    om: "Namoonni amanamoon kuufamaniiru",
+  },
+  "They will be alerted with a live tracking link when you request an ambulance.": {
+    en: "They will be alerted with a live tracking link when you request an ambulance.",
+    am: "አምቡላንስ ሲጠይቁ የቀጥታ መከታተያ ሊንክ ይላክላቸዋል።",
+    om: "Yeroo ambulaansii gaafattu liinkii hordoffii kallattii ni ergamaaf.",
+  },
+  "When you request an ambulance these people get a live tracking link, and updates when an ambulance is assigned and when you reach the hospital. Contacts who use the app get a notification; everyone else gets an SMS.": {
+    en: "When you request an ambulance these people get a live tracking link, and updates when an ambulance is assigned and when you reach the hospital. Contacts who use the app get a notification; everyone else gets an SMS.",
+    am: "አምቡላንስ ሲጠይቁ እነዚህ ሰዎች የቀጥታ መከታተያ ሊንክ ያገኛሉ፤ አምቡላንስ ሲመደብና ሆስፒታል ሲደርሱም መረጃ ይደርሳቸዋል። መተግበሪያውን የሚጠቀሙ ማሳወቂያ ያገኛሉ፤ ሌሎች ኤስኤምኤስ ያገኛሉ።",
+    om: "Yeroo ambulaansii gaafattu namoonni kun liinkii hordoffii kallattii argatu; ambulaansiin yeroo ramadamuu fi yeroo hospitaala geessus odeeffannoo argatu. Kanneen appii fayyadaman beeksisa argatu; kaan SMS argatu.",
+  },
+  "No trusted contacts yet.": {
+    en: "No trusted contacts yet.",
+    am: "እስካሁን የሚታመኑ ሰዎች የሉም።",
+    om: "Hanga ammaatti namoonni amanamoon hin jiran.",
+  },
+  "Trusted contacts alerted": {
+    en: "Trusted contacts alerted",
+    am: "የተነገራቸው የሚታመኑ ሰዎች",
+    om: "Namoota amanamoo beeksifaman",
+  },
+  "Please try again.": {
+    en: "Please try again.",
+    am: "እባክዎ እንደገና ይሞክሩ።",
+    om: "Maaloo irra deebi'ii yaali.",
+  },
+  "Enter the contact's name (at least 2 characters).": {
+    en: "Enter the contact's name (at least 2 characters).",
+    am: "የሰውየውን ስም ያስገቡ (ቢያንስ 2 ፊደላት)።",
+    om: "Maqaa namichaa galchi (yoo xiqqaate qubee 2).",
+  },
+  "Contact phone must be a valid Ethiopian number.\nExample: 0912345678": {
+    en: "Contact phone must be a valid Ethiopian number.\nExample: 0912345678",
+    am: "የሰውየው ስልክ ትክክለኛ የኢትዮጵያ ቁጥር መሆን አለበት።\nምሳሌ: 0912345678",
+    om: "Bilbilli namichaa lakkoofsa Itoophiyaa sirrii ta'uu qaba.\nFakkeenya: 0912345678",
+  },
+
+  // ── Trip replay ──
+  "Trip replay": {
+    en: "Trip replay",
+    am: "የጉዞ ድጋሚ እይታ",
+    om: "Irra deebii imala",
+  },
+  "Refresh trip replay": {
+    en: "Refresh trip replay",
+    am: "የጉዞ ድጋሚ እይታን አድስ",
+    om: "Irra deebii imala haaromsi",
+  },
+  "No GPS track recorded yet.": {
+    en: "No GPS track recorded yet.",
+    am: "እስካሁን የGPS ጉዞ አልተመዘገበም።",
+    om: "Hanga ammaatti karaan GPS hin galmoofne.",
+  },
+  "Failed to load GPS track": {
+    en: "Failed to load GPS track",
+    am: "የGPS ጉዞን መጫን አልተሳካም",
+    om: "Karaa GPS fe'uun hin milkoofne",
+  },
+  "Distance": {
+    en: "Distance",
+    am: "ርቀት",
+    om: "Fageenya",
+  },
+  "Response": {
+    en: "Response",
+    am: "ምላሽ",
+    om: "Deebii",
+  },
+  "At scene": {
+    en: "At scene",
+    am: "በቦታው",
+    om: "Iddoo balaa irratti",
+  },
+  // ── Location confidence ──
+  "GPS": {
+    en: "GPS",
+    am: "GPS",
+    om: "GPS",
+  },
+  "Ambulance GPS": {
+    en: "Ambulance GPS",
+    am: "የአምቡላንስ GPS",
+    om: "GPS ambulaansii",
+  },
+  "Patient GPS": {
+    en: "Patient GPS",
+    am: "የታካሚ GPS",
+    om: "GPS dhukkubsataa",
+  },
+  "low confidence": {
+    en: "low confidence",
+    am: "ዝቅተኛ እምነት",
+    om: "amantaa gadi aanaa",
+  },
+  "Jumped": {
+    en: "Jumped",
+    am: "ዘሏል",
+    om: "Utaale",
+  },
+  "Mock location": {
+    en: "Mock location",
+    am: "የውሸት አካባቢ",
+    om: "Bakka sobaa",
+  },
+  "Outdated": {
+    en: "Outdated",
+    am: "ያረጀ",
+    om: "Kan dulloome",
+  },
+  "Imprecise": {
+    en: "Imprecise",
+    am: "ትክክለኛ ያልሆነ",
+    om: "Sirrii miti",
+  },
+  // ── Driver shifts ──
+  "Off duty": {
+    en: "Off duty",
+    am: "ከስራ ውጪ",
+    om: "Hojii ala",
+  },
+  "On shift": {
+    en: "On shift",
+    am: "በፈረቃ ላይ",
+    om: "Shiftii irra",
+  },
+  "On break": {
+    en: "On break",
+    am: "በእረፍት ላይ",
+    om: "Boqonnaa irra",
+  },
+  "Since": {
+    en: "Since",
+    am: "ከ",
+    om: "Irraa kaasee",
+  },
+  "Break since": {
+    en: "Break since",
+    am: "እረፍት ከ",
+    om: "Boqonnaa irraa kaasee",
+  },
+  "Check in to start receiving calls": {
+    en: "Check in to start receiving calls",
+    am: "ጥሪዎችን ለመቀበል ፈረቃ ይጀምሩ",
+    om: "Waamicha fudhachuuf shiftii jalqabi",
+  },
+  "Start shift": {
+    en: "Start shift",
+    am: "ፈረቃ ጀምር",
+    om: "Shiftii jalqabi",
+  },
+  "End shift": {
+    en: "End shift",
+    am: "ፈረቃ ጨርስ",
+    om: "Shiftii xumuri",
+  },
+  "Take a break": {
+    en: "Take a break",
+    am: "እረፍት ውሰድ",
+    om: "Boqonnaa fudhadhu",
+  },
+  "Resume duty": {
+    en: "Resume duty",
+    am: "ስራ ቀጥል",
+    om: "Hojii itti fufi",
+  },
+  "Hand over": {
+    en: "Hand over",
+    am: "አስረክብ",
+    om: "Dabarsi kenni",
+  },
+  "Vehicle inspection": {
+    en: "Vehicle inspection",
+    am: "የተሽከርካሪ ፍተሻ",
+    om: "Sakatta'iinsa konkolaataa",
+  },
+  "Tick every item that passed. Describe anything that did not.": {
+    en: "Tick every item that passed. Describe anything that did not.",
+    am: "ያለፉትን ሁሉ ምልክት ያድርጉ። ያላለፉትን ይግለጹ።",
+    om: "Wantoota darban hunda mallatteessi. Kan hin dabarre ibsi.",
+  },
+  "Fuel at least half full": {
+    en: "Fuel at least half full",
+    am: "ነዳጅ ቢያንስ ግማሽ",
+    om: "Boba'aan yoo xiqqaate walakkaa",
+  },
+  "Oxygen cylinders full and secured": {
+    en: "Oxygen cylinders full and secured",
+    am: "የኦክስጅን ሲሊንደሮች ሙሉ እና የታሰሩ",
+    om: "Siliindaroonni oksijinii guutuu fi cimsamoo",
+  },
+  "Stretcher and straps working": {
+    en: "Stretcher and straps working",
+    am: "ቃሬዛ እና ማሰሪያዎች ይሰራሉ",
+    om: "Sireen dhukkubsataa fi hidhaan ni hojjetu",
+  },
+  "First aid kit stocked": {
+    en: "First aid kit stocked",
+    am: "የመጀመሪያ እርዳታ ሳጥን ተሟልቷል",
+    om: "Meeshaan gargaarsa jalqabaa guutuu dha",
+  },
+  "Lights and siren working": {
+    en: "Lights and siren working",
+    am: "መብራቶች እና ሳይረን ይሰራሉ",
+    om: "Ibsaa fi sireenii ni hojjetu",
+  },
+  "Tyres and brakes checked": {
+    en: "Tyres and brakes checked",
+    am: "ጎማዎች እና ፍሬኖች ተፈትሸዋል",
+    om: "Gommaa fi frenoon ni sakatta'aman",
+  },
+  "Radio and phone charged": {
+    en: "Radio and phone charged",
+    am: "ሬዲዮ እና ስልክ ተሞልተዋል",
+    om: "Raadiyoo fi bilbilli chaarjii qabu",
+  },
+  "What failed inspection?": {
+    en: "What failed inspection?",
+    am: "በፍተሻ ምን አላለፈም?",
+    om: "Sakatta'iinsa maaltu hin dabarre?",
+  },
+  "Describe the items that failed inspection.": {
+    en: "Describe the items that failed inspection.",
+    am: "በፍተሻ ያላለፉትን ይግለጹ።",
+    om: "Wantoota sakatta'iinsa hin dabarre ibsi.",
+  },
+  "Shift summary": {
+    en: "Shift summary",
+    am: "የፈረቃ ማጠቃለያ",
+    om: "Cuunfaa shiftii",
+  },
+  "Emergencies handled": {
+    en: "Emergencies handled",
+    am: "የተስተናገዱ ድንገተኛዎች",
+    om: "Balaawwan qabaman",
+  },
+  "Distance driven": {
+    en: "Distance driven",
+    am: "የተነዳ ርቀት",
+    om: "Fageenya oofame",
+  },
+  "Hours on duty": {
+    en: "Hours on duty",
+    am: "የስራ ሰዓታት",
+    om: "Sa'aatii hojii",
+  },
+  "Breaks": {
+    en: "Breaks",
+    am: "እረፍቶች",
+    om: "Boqonnaawwan",
+  },
+  "Handing over the ambulance? Enter the next crew member's phone number.": {
+    en: "Handing over the ambulance? Enter the next crew member's phone number.",
+    am: "አምቡላንሱን ያስረክባሉ? የቀጣዩን ሰራተኛ ስልክ ቁጥር ያስገቡ።",
+    om: "Ambulaansii dabarsitee kennitaa? Lakkoofsa bilbilaa hojjetaa itti aanuu galchi.",
+  },
+  "Ambulance handed to": {
+    en: "Ambulance handed to",
+    am: "አምቡላንሱ የተሰጠው ለ",
+    om: "Ambulaansiin kan kenname",
+  },
+  "the next crew member": {
+    en: "the next crew member",
+    am: "ለቀጣዩ ሰራተኛ",
+    om: "hojjetaa itti aanuuf",
+  },
+  "Check-in Failed": {
+    en: "Check-in Failed",
+    am: "ፈረቃ መጀመር አልተሳካም",
+    om: "Shiftii jalqabuun hin milkoofne",
+  },
+  "End Shift Failed": {
+    en: "End Shift Failed",
+    am: "ፈረቃ መጨረስ አልተሳካም",
+    om: "Shiftii xumuruun hin milkoofne",
+  },
+  "Shift Ended": {
+    en: "Shift Ended",
+    am: "ፈረቃ ተጠናቋል",
+    om: "Shiftiin xumurame",
+  },
+  "Finish the active emergency before taking a break.": {
+    en: "Finish the active emergency before taking a break.",
+    am: "እረፍት ከመውሰድዎ በፊት ንቁውን ድንገተኛ ይጨርሱ።",
+    om: "Boqonnaa fudhachuu dura balaa ammaa xumuri.",
+  },
+  "Finish the active emergency before ending the shift.": {
+    en: "Finish the active emergency before ending the shift.",
+    am: "ፈረቃውን ከመጨረስዎ በፊት ንቁውን ድንገተኛ ይጨርሱ።",
+    om: "Shiftii xumuruu dura balaa ammaa xumuri.",
+  },
+  "No one on shift": {
+    en: "No one on shift",
+    am: "በፈረቃ ላይ ማንም የለም",
+    om: "Namni shiftii irra jiru hin jiru",
+  },
+  // ── Ambulance inventory ──
+  "Equipment & medication": {
+    en: "Equipment & medication",
+    am: "መሳሪያ እና መድሃኒት",
+    om: "Meeshaa fi qoricha",
+  },
+  "Not reported yet": {
+    en: "Not reported yet",
+    am: "ገና አልተዘገበም",
+    om: "Hanga ammaatti hin gabaafamne",
+  },
+  "Updated": {
+    en: "Updated",
+    am: "ተዘምኗል",
+    om: "Haaromfame",
+  },
+  "Fully stocked": {
+    en: "Fully stocked",
+    am: "ሙሉ በሙሉ ተሟልቷል",
+    om: "Guutummaatti guutameera",
+  },
+  "Update inventory": {
+    en: "Update inventory",
+    am: "ክምችት አዘምን",
+    om: "Kuusaa haaromsi",
+  },
+  "Inventory not reported": {
+    en: "Inventory not reported",
+    am: "ክምችት አልተዘገበም",
+    om: "Kuusaan hin gabaafamne",
+  },
+  "Oxygen level (%)": {
+    en: "Oxygen level (%)",
+    am: "የኦክስጅን መጠን (%)",
+    om: "Sadarkaa oksijinii (%)",
+  },
+  "Medication (units on board)": {
+    en: "Medication (units on board)",
+    am: "መድሃኒት (በመኪናው ያለ ብዛት)",
+    om: "Qoricha (baay'ina konkolaataa keessa jiru)",
+  },
+  "Working": {
+    en: "Working",
+    am: "ይሰራል",
+    om: "Ni hojjeta",
+  },
+  "Faulty": {
+    en: "Faulty",
+    am: "ተበላሽቷል",
+    om: "Miidhameera",
+  },
+  "Missing": {
+    en: "Missing",
+    am: "የለም",
+    om: "Hin jiru",
+  },
+  "Oxygen": {
+    en: "Oxygen",
+    am: "ኦክስጅን",
+    om: "Oksijinii",
+  },
+  "Defibrillator (AED)": {
+    en: "Defibrillator (AED)",
+    am: "ዲፊብሪሌተር (AED)",
+    om: "Difiibriileetara (AED)",
+  },
+  "Stretcher": {
+    en: "Stretcher",
+    am: "ቃሬዛ",
+    om: "Siree dhukkubsataa",
+  },
+  "Delivery kit": {
+    en: "Delivery kit",
+    am: "የወሊድ ኪት",
+    om: "Meeshaa da'umsaa",
+  },
+  "Adrenaline": {
+    en: "Adrenaline",
+    am: "አድሬናሊን",
+    om: "Adreenaaliinii",
+  },
+  "Aspirin": {
+    en: "Aspirin",
+    am: "አስፕሪን",
+    om: "Aspiriinii",
+  },
+  "Oral glucose": {
+    en: "Oral glucose",
+    am: "የአፍ ግሉኮስ",
+    om: "Glukoosii afaanii",
+  },
+  "IV saline": {
+    en: "IV saline",
+    am: "IV ሳላይን",
+    om: "Saalaayinii IV",
+  },
+  "Oxytocin": {
+    en: "Oxytocin",
+    am: "ኦክሲቶሲን",
+    om: "Oksiitoosiinii",
+  },
+  "Paracetamol": {
+    en: "Paracetamol",
+    am: "ፓራሲታሞል",
+    om: "Paaraasiitaamoolii",
+  },
+  "More": {
+    en: "More",
+    am: "ጨምር",
+    om: "Dabali",
+  },
+  "Fewer": {
+    en: "Fewer",
+    am: "ቀንስ",
+    om: "Hir'isi",
+  },
+  "Inventory Saved": {
+    en: "Inventory Saved",
+    am: "ክምችት ተቀምጧል",
+    om: "Kuusaan olkaa'ameera",
+  },
+  "The hospital has been told what needs restocking": {
+    en: "The hospital has been told what needs restocking",
+    am: "ሆስፒታሉ መሟላት ያለባቸውን እንዲያውቅ ተደርጓል",
+    om: "Hospitaalli wanta guutamuu qabu akka beeku taasifameera",
+  },
+  "Invalid Input": {
+    en: "Invalid Input",
+    am: "ልክ ያልሆነ ግብዓት",
+    om: "Galtee sirrii hin taane",
+  },
+  "Enter the oxygen level as a percentage.": {
+    en: "Enter the oxygen level as a percentage.",
+    am: "የኦክስጅን መጠንን በመቶኛ ያስገቡ።",
+    om: "Sadarkaa oksijinii dhibbentaan galchi.",
+  },
+  "Oxygen level must be between 0 and 100%.": {
+    en: "Oxygen level must be between 0 and 100%.",
+    am: "የኦክስጅን መጠን ከ0 እስከ 100% መሆን አለበት።",
+    om: "Sadarkaan oksijinii 0 fi 100% gidduu ta'uu qaba.",
+  },
+  "Could not save the inventory. Please try again.": {
+    en: "Could not save the inventory. Please try again.",
+    am: "ክምችቱን ማስቀመጥ አልተቻለም። እባክዎ እንደገና ይሞክሩ።",
+    om: "Kuusaa olkaa'uun hin danda'amne. Irra deebi'ii yaali.",
+  },
 };
 
 const englishToKeyIndex: Map<string, string> = new Map(
@@ -1283,6 +2501,24 @@ export function translateText(value: string): string {
     return translated === keyFromEnglish ? value : translated;
   }
   const literal = literalTranslations[value];
-  if (!literal) return value;
+  if (!literal) {
+    if (isDev()) untranslatedTexts.add(value);
+    return value;
+  }
   return literal[_currentLang] ?? literal.en ?? value;
 }
+
+const untranslatedTexts = new Set<string>();
+
+/**
+ * Text `translateText` had no entry for in this dev session. Screens also
+ * pass names and other data through it, so this is a list to review, not a
+ * list of bugs; `npm run i18n:check` is the authoritative report.
+ */
+export const getUntranslatedTexts = (): string[] => [...untranslatedTexts];
+
+/** The raw tables, for the completeness checker in utils/i18n-coverage.ts. */
+export const translationTables = {
+  keyed: translations,
+  literal: literalTranslations,
+};
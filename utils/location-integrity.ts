@@ -0,0 +1,171 @@
+/**
+ * Location integrity — how far a GPS fix from a driver or patient can be
+ * trusted before it moves a marker on a dispatch or hospital screen.
+ *
+ * Each fix is checked against the previous accepted fix of the same stream
+ * (one ambulance, or one patient's emergency): jumps no vehicle could make
+ * are rejected, and mocked, stale or imprecise fixes lower a 0–1
+ * confidence score that travels with the update so other screens can
+ * badge the position instead of trusting it blindly.
+ */
+import type { LocationObject } from "expo-location";
+
+import { calculateDistance } from "./emergency";
+
+/* ─── Types ───────────────────────────────────────────────────── */
+
+export interface LocationFix {
+  latitude: number;
+  longitude: number;
+  /** Horizontal accuracy in metres. */
+  accuracy?: number | null;
+  /** When the device took the fix (ms since epoch). */
+  timestamp: number;
+  /** Reported by Android when a mock location provider is active. */
+  mocked?: boolean;
+}
+
+export type LocationIntegrityFlag =
+  | "impossible_jump"
+  | "mocked"
+  | "stale"
+  | "low_accuracy";
+
+export interface LocationIntegrity {
+  /** 0 (do not trust) to 1 (fully trusted). */
+  confidence: number;
+  flags: LocationIntegrityFlag[];
+  /** The fix should not be sent at all. */
+  rejected: boolean;
+}
+
+/* ─── Thresholds ──────────────────────────────────────────────── */
+
+/** Faster than any ambulance on Ethiopian roads (~250 km/h), in m/s. */
+const MAX_SPEED_MPS = 70;
+/** A fix older than this is stale (ms); twice as old costs twice as much. */
+const STALE_AFTER_MS = 60000;
+/** Accuracy worse than this (metres) is low; five times worse costs more. */
+const LOW_ACCURACY_M = 100;
+/** Compare with the previous fix only while it is this recent (ms). */
+const JUMP_WINDOW_MS = 5 * 60000;
+/**
+ * After this many rejections in a row the stream is accepted again, so a
+ * bad reference fix cannot lock the position forever.
+ */
+const MAX_CONSECUTIVE_REJECTIONS = 3;
+
+/** Positions below this confidence are badged on dispatch screens. */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export const isLowConfidence = (confidence: number | null | undefined) =>
+  typeof confidence === "number" && confidence < LOW_CONFIDENCE_THRESHOLD;
+
+/* ─── Assessment ──────────────────────────────────────────────── */
+
+/**
+ * Whether moving from `previous` to `fix` would need an impossible speed.
+ * Both fixes' accuracy is allowed as slack before measuring.
+ */
+const isImpossibleJump = (fix: LocationFix, previous: LocationFix) => {
+  const elapsedMs = fix.timestamp - previous.timestamp;
+  if (elapsedMs > JUMP_WINDOW_MS) return false;
+  const metres =
+    calculateDistance(
+      previous.latitude,
+      previous.longitude,
+      fix.latitude,
+      fix.longitude,
+    ) *
+      1000 -
+    (previous.accuracy ?? 0) -
+    (fix.accuracy ?? 0);
+  if (metres <= 0) return false;
+  return metres / Math.max(elapsedMs / 1000, 1) > MAX_SPEED_MPS;
+};
+
+/** Score one fix, optionally against the previous accepted fix. */
+export const assessLocationFix = (
+  fix: LocationFix,
+  previous?: LocationFix | null,
+  now: number = Date.now(),
+): LocationIntegrity => {
+  const flags: LocationIntegrityFlag[] = [];
+  let confidence = 1;
+
+  if (previous && isImpossibleJump(fix, previous)) {
+    return { confidence: 0, flags: ["impossible_jump"], rejected: true };
+  }
+  if (fix.mocked) {
+    flags.push("mocked");
+    confidence -= 0.6;
+  }
+  const ageMs = now - fix.timestamp;
+  if (ageMs > STALE_AFTER_MS) {
+    flags.push("stale");
+    confidence -= ageMs > STALE_AFTER_MS * 3 ? 0.5 : 0.25;
+  }
+  if (fix.accuracy != null && fix.accuracy > LOW_ACCURACY_M) {
+    flags.push("low_accuracy");
+    confidence -= fix.accuracy > LOW_ACCURACY_M * 5 ? 0.45 : 0.2;
+  }
+
+  return {
+    confidence: Math.round(Math.max(0, confidence) * 100) / 100,
+    flags,
+    rejected: false,
+  };
+};
+
+/* ─── Streams ─────────────────────────────────────────────────── */
+
+const _streams = new Map<string, { last: LocationFix; rejections: number }>();
+
+/**
+ * Assess the next fix of a stream (e.g. `ambulance:<id>`) and remember it
+ * as the reference for the following one unless it was rejected.
+ */
+export const checkLocationFix = (
+  streamKey: string,
+  fix: LocationFix,
+  now: number = Date.now(),
+): LocationIntegrity => {
+  const stream = _streams.get(streamKey);
+  const integrity = assessLocationFix(fix, stream?.last, now);
+  if (integrity.rejected && stream) {
+    stream.rejections += 1;
+    if (stream.rejections < MAX_CONSECUTIVE_REJECTIONS) return integrity;
+    // The position really moved (or the reference was the bad fix): start
+    // over from here, still flagged.
+    const restarted = assessLocationFix(fix, null, now);
+    _streams.set(streamKey, { last: fix, rejections: 0 });
+    return {
+      ...restarted,
+      confidence: Math.min(restarted.confidence, LOW_CONFIDENCE_THRESHOLD / 2),
+      flags: ["impossible_jump", ...restarted.flags],
+    };
+  }
+  _streams.set(streamKey, { last: fix, rejections: 0 });
+  return integrity;
+};
+
+/** Forget a stream's reference fix, or every stream's. */
+export const resetLocationIntegrity = (streamKey?: string): void => {
+  if (streamKey) _streams.delete(streamKey);
+  else _streams.clear();
+};
+
+/** Build a fix from an expo-location reading. */
+export const toLocationFix = (location: LocationObject): LocationFix => ({
+  latitude: location.coords.latitude,
+  longitude: location.coords.longitude,
+  accuracy: location.coords.accuracy,
+  timestamp: location.timestamp,
+  mocked: location.mocked === true,
+});
+
+/** Fields sent with a location update so the server keeps the score. */
+export const toIntegrityPayload = (integrity: LocationIntegrity) => ({
+  location_confidence: integrity.confidence,
+  location_flags: integrity.flags,
+});
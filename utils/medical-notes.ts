@@ -5,6 +5,11 @@
  * Hospital staff can record treatment notes & discharge summaries.
  */
 import { backendGet, backendPost } from "./api";
+import { fromDataSource, isMissingEndpointError } from "./data-source";
+import { recordTimelineEvent } from "./emergency-timeline";
+import { formatDateTime } from "./i18n-format";
+import { isLikelyConnectivityError } from "./network";
+import { enqueueOutbox } from "./offline-queue";
 import { supabase } from "./supabase";
 
 /* ─── Types ───────────────────────────────────────────────────── */
@@ -49,11 +54,6 @@ interface MedicalNoteRow {
   created_at: string;
 }
 
-const isMissingMedicalNotesEndpoint = (message: string): boolean => {
-  const m = message.toLowerCase();
-  return m.includes("404") || m.includes("not found");
-};
-
 const mapRowToNote = (row: MedicalNoteRow): MedicalNote => ({
   id: row.id,
   emergency_id: row.emergency_id,
@@ -66,106 +66,93 @@ const mapRowToNote = (row: MedicalNoteRow): MedicalNote => ({
   created_at: row.created_at,
 });
 
-async function fallbackInsertMedicalNote(
+async function insertMedicalNoteViaSupabase(
   emergencyId: string,
   noteType: NoteType,
   content: string,
   vitals?: Vitals | null,
-): Promise<{ note: MedicalNote | null; error: string | null }> {
-  try {
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return { note: null, error: "Authentication required" };
-    }
+): Promise<MedicalNote> {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    throw new Error("Authentication required");
+  }
 
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("role,full_name")
-      .eq("id", user.id)
-      .maybeSingle();
-
-    const role = String((profile as any)?.role || "ambulance").toLowerCase();
-    const authorName =
-      String((profile as any)?.full_name || "").trim() || user.email || null;
-
-    const payload: Record<string, unknown> = {
-      emergency_id: emergencyId,
-      author_id: user.id,
-      author_role: role,
-      author_name: authorName,
-      note_type: noteType,
-      content,
-    };
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role,full_name")
+    .eq("id", user.id)
+    .maybeSingle();
 
-    if (
-      vitals &&
-      Object.values(vitals).some(
-        (v) => v !== undefined && v !== "" && v !== null,
-      )
-    ) {
-      payload.vitals = vitals;
-    }
+  const role = String((profile as any)?.role || "ambulance").toLowerCase();
+  const authorName =
+    String((profile as any)?.full_name || "").trim() || user.email || null;
 
-    const { data, error } = await supabase
-      .from("medical_notes")
-      .insert(payload)
-      .select(
-        "id,emergency_id,author_id,author_role,author_name,note_type,content,vitals,created_at",
-      )
-      .single();
+  const payload: Record<string, unknown> = {
+    emergency_id: emergencyId,
+    author_id: user.id,
+    author_role: role,
+    author_name: authorName,
+    note_type: noteType,
+    content,
+  };
 
-    if (error || !data) {
-      return {
-        note: null,
-        error: error?.message || "Failed to add medical note",
-      };
-    }
+  if (
+    vitals &&
+    Object.values(vitals).some(
+      (v) => v !== undefined && v !== "" && v !== null,
+    )
+  ) {
+    payload.vitals = vitals;
+  }
 
-    return { note: mapRowToNote(data as MedicalNoteRow), error: null };
-  } catch (err: any) {
-    return { note: null, error: err?.message || "Failed to add medical note" };
+  const { data, error } = await supabase
+    .from("medical_notes")
+    .insert(payload)
+    .select(
+      "id,emergency_id,author_id,author_role,author_name,note_type,content,vitals,created_at",
+    )
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message || "Failed to add medical note");
   }
+
+  return mapRowToNote(data as MedicalNoteRow);
 }
 
-async function fallbackGetMedicalNotes(
+async function listMedicalNotesViaSupabase(
   emergencyId: string,
-): Promise<{ notes: MedicalNote[]; error: string | null }> {
-  try {
-    const { data, error } = await supabase
-      .from("medical_notes")
-      .select(
-        "id,emergency_id,author_id,author_role,author_name,note_type,content,vitals,created_at",
-      )
-      .eq("emergency_id", emergencyId)
-      .order("created_at", { ascending: true });
-
-    if (error) {
-      return {
-        notes: [],
-        error: error.message || "Failed to load medical notes",
-      };
-    }
+): Promise<MedicalNote[]> {
+  const { data, error } = await supabase
+    .from("medical_notes")
+    .select(
+      "id,emergency_id,author_id,author_role,author_name,note_type,content,vitals,created_at",
+    )
+    .eq("emergency_id", emergencyId)
+    .order("created_at", { ascending: true });
 
-    return {
-      notes: (data || []).map((row) => mapRowToNote(row as MedicalNoteRow)),
-      error: null,
-    };
-  } catch (err: any) {
-    return { notes: [], error: err?.message || "Failed to load medical notes" };
+  if (error) {
+    throw new Error(error.message || "Failed to load medical notes");
   }
+
+  return (data || []).map((row) => mapRowToNote(row as MedicalNoteRow));
 }
 
 /* ─── API helpers ─────────────────────────────────────────────── */
 
+/**
+ * Add a clinical note. When the device is offline the note is queued in the
+ * outbox and returned as a local placeholder with `queued: true`.
+ */
 export async function addMedicalNote(
   emergencyId: string,
   noteType: NoteType,
   content: string,
   vitals?: Vitals | null,
-): Promise<{ note: MedicalNote | null; error: string | null }> {
+): Promise<{ note: MedicalNote | null; queued?: boolean; error: string | null }> {
   if (!emergencyId) {
     return { note: null, error: "Missing emergency ID for note submission" };
   }
@@ -179,15 +166,47 @@ export async function addMedicalNote(
     ) {
       body.vitals = vitals;
     }
-    const note = await backendPost<MedicalNote>(
-      `/ops/emergencies/${emergencyId}/medical-notes`,
-      body,
-    );
+    const { data: note } = await fromDataSource<MedicalNote>({
+      entity: "medical_notes",
+      operation: "add",
+      backend: () =>
+        backendPost<MedicalNote>(
+          `/ops/emergencies/${emergencyId}/medical-notes`,
+          body,
+        ),
+      supabase: () =>
+        insertMedicalNoteViaSupabase(emergencyId, noteType, content, vitals),
+      fallbackOn: isMissingEndpointError,
+    });
+    void recordTimelineEvent(emergencyId, "medical_note_added", {
+      note_id: note?.id ?? null,
+      note_type: noteType,
+    });
     return { note, error: null };
   } catch (err: any) {
     const message = err?.message || "Failed to add medical note";
-    if (isMissingMedicalNotesEndpoint(message)) {
-      return fallbackInsertMedicalNote(emergencyId, noteType, content, vitals);
+    if (isLikelyConnectivityError(err)) {
+      const item = await enqueueOutbox("medical_note", {
+        emergency_id: emergencyId,
+        note_type: noteType,
+        content,
+        vitals: vitals ?? null,
+      });
+      return {
+        note: {
+          id: item.id,
+          emergency_id: emergencyId,
+          author_id: "",
+          author_role: "",
+          author_name: null,
+          note_type: noteType,
+          content,
+          vitals: vitals ?? null,
+          created_at: item.queuedAt,
+        },
+        queued: true,
+        error: null,
+      };
     }
     return { note: null, error: message };
   }
@@ -200,16 +219,19 @@ export async function getMedicalNotes(
     return { notes: [], error: "Missing emergency ID for note lookup" };
   }
   try {
-    const notes = await backendGet<MedicalNote[]>(
-      `/ops/emergencies/${emergencyId}/medical-notes`,
-    );
+    const { data: notes } = await fromDataSource<MedicalNote[]>({
+      entity: "medical_notes",
+      operation: "list",
+      backend: () =>
+        backendGet<MedicalNote[]>(
+          `/ops/emergencies/${emergencyId}/medical-notes`,
+        ),
+      supabase: () => listMedicalNotesViaSupabase(emergencyId),
+      fallbackOn: isMissingEndpointError,
+    });
     return { notes: notes || [], error: null };
   } catch (err: any) {
-    const message = err?.message || "Failed to load medical notes";
-    if (isMissingMedicalNotesEndpoint(message)) {
-      return fallbackGetMedicalNotes(emergencyId);
-    }
-    return { notes: [], error: message };
+    return { notes: [], error: err?.message || "Failed to load medical notes" };
   }
 }
 
@@ -239,14 +261,5 @@ export const NOTE_TYPE_LABELS: Record<
 };
 
 export function formatNoteTime(isoDate: string): string {
-  try {
-    const d = new Date(isoDate);
-    return (
-      d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) +
-      " · " +
-      d.toLocaleDateString([], { month: "short", day: "numeric" })
-    );
-  } catch {
-    return isoDate;
-  }
+  return formatDateTime(isoDate, { withYear: false }) || isoDate;
 }
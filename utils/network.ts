@@ -1,11 +1,15 @@
 import { Platform } from "react-native";
 
+import { ApiError, TransientError } from "./api-errors";
+
 const CONNECTIVITY_TIMEOUT_MS = 4000;
 
 const ENV_BACKEND_URL_RAW = process.env.EXPO_PUBLIC_BACKEND_URL?.trim() || "";
-const BACKEND_FALLBACKS = (process.env.EXPO_PUBLIC_BACKEND_FALLBACKS || "")
+const BACKEND_FALLBACKS: string[] = (
+  process.env.EXPO_PUBLIC_BACKEND_FALLBACKS || ""
+)
   .split(",")
-  .map((value) => value.trim())
+  .map((value: string) => value.trim())
   .filter(Boolean);
 
 const PROBE_URLS = [
@@ -57,7 +61,17 @@ export async function hasInternetConnection(): Promise<boolean> {
   return false;
 }
 
+/**
+ * True when the request never reached a server, so it is worth queueing
+ * for later. A delivered failure (5xx, 429, timeout) or a non-API response
+ * from a proxy is a real error and must be reported, not queued, and a
+ * request the user cancelled is neither queued nor retried.
+ */
 export function isLikelyConnectivityError(error: unknown): boolean {
+  if (error instanceof TransientError) {
+    return !error.delivered && error.status === null;
+  }
+  if (error instanceof ApiError) return false;
   const message = String((error as any)?.message || error || "").toLowerCase();
   return (
     message.includes("network request failed") ||
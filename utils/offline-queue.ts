@@ -1,12 +1,15 @@
 /**
- * Offline emergency queue for the Erdataye app.
+ * Offline emergency queue and mutation outbox for the Erdataye app.
  *
  * When the device has no network, emergency requests are queued and persisted
- * in AsyncStorage, then retried automatically.
+ * in AsyncStorage, then retried automatically. Other mutations (driver status
+ * changes, location pings, medical notes) go through the generic outbox below.
  */
 
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
+import { calculateDistance } from "./emergency";
+
 export interface QueuedEmergency {
   id: string;
   patientId: string;
@@ -15,6 +18,8 @@ export interface QueuedEmergency {
   emergencyType?: string;
   description?: string;
   queuedAt: string;
+  /** Set when the SOS was also sent to dispatch as an SMS. */
+  smsSentAt?: string;
 }
 
 const OFFLINE_QUEUE_KEY = "erdataye.offline.emergency.queue.v1";
@@ -62,7 +67,7 @@ export async function getQueue(): Promise<QueuedEmergency[]> {
 /** Add an emergency to the offline queue. */
 export async function enqueue(
   item: Omit<QueuedEmergency, "id" | "queuedAt">,
-): Promise<void> {
+): Promise<QueuedEmergency> {
   await hydrateQueue();
   const entry: QueuedEmergency = {
     ...item,
@@ -71,6 +76,7 @@ export async function enqueue(
   };
   _queue.push(entry);
   await persistQueue();
+  return entry;
 }
 
 /** Remove an item from the queue by id. */
@@ -80,6 +86,19 @@ export async function dequeue(id: string): Promise<void> {
   await persistQueue();
 }
 
+/**
+ * Record that a queued emergency also went out by SMS. Sync then folds it
+ * into the emergency dispatch created from that SMS instead of sending again.
+ */
+export async function markQueuedSentViaSms(id: string): Promise<boolean> {
+  await hydrateQueue();
+  const item = _queue.find((entry) => entry.id === id);
+  if (!item) return false;
+  item.smsSentAt = new Date().toISOString();
+  await persistQueue();
+  return true;
+}
+
 /** Clear the entire queue. */
 export async function clearQueue(): Promise<void> {
   _queue = [];
@@ -101,17 +120,256 @@ type CreateFn = (
   description?: string,
 ) => Promise<{ emergency: any; error: Error | null }>;
 
+// ── Conflict detection ───────────────────────────────────────────────────
+
+/** Queued SOS taps closer than this (in time and space) are the same incident. */
+export const QUEUE_DEDUPE_WINDOW_MINUTES = 30;
+export const QUEUE_DEDUPE_RADIUS_KM = 1;
+
+/** Minimal shape of a server-side emergency used for conflict checks. */
+export interface ActiveEmergencyLike {
+  id: string;
+  status: string;
+  latitude: number;
+  longitude: number;
+  created_at: string;
+  description?: string | null;
+}
+
+export interface QueueConflict {
+  item: QueuedEmergency;
+  /** Active emergency already on the server for this patient. */
+  active?: ActiveEmergencyLike;
+  /** Earlier queued item that describes the same incident. */
+  duplicateOf?: QueuedEmergency;
+  distanceKm: number | null;
+  minutesApart: number | null;
+}
+
+/**
+ * merge   — fold the queued details into the existing request
+ * discard — drop the queued request
+ * send    — dispatch it as a separate emergency anyway
+ */
+export type ConflictResolution = "merge" | "discard" | "send";
+
+function compareIncidents(
+  a: { latitude: number; longitude: number; at: string },
+  b: { latitude: number; longitude: number; at: string },
+): { distanceKm: number | null; minutesApart: number | null; same: boolean } {
+  const hasCoords = [a.latitude, a.longitude, b.latitude, b.longitude].every(
+    (v) => Number.isFinite(v) && v !== 0,
+  );
+  const km = hasCoords
+    ? calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude)
+    : null;
+  const aMs = new Date(a.at).getTime();
+  const bMs = new Date(b.at).getTime();
+  const minutes =
+    Number.isFinite(aMs) && Number.isFinite(bMs)
+      ? Math.abs(aMs - bMs) / 60000
+      : null;
+  const same =
+    (km === null || km <= QUEUE_DEDUPE_RADIUS_KM) &&
+    (minutes === null || minutes <= QUEUE_DEDUPE_WINDOW_MINUTES);
+  return {
+    distanceKm: km === null ? null : Math.round(km * 100) / 100,
+    minutesApart: minutes === null ? null : Math.round(minutes),
+    same,
+  };
+}
+
+/**
+ * Check a queued emergency against the patient's active server emergency.
+ * Returns a conflict when both are likely the same incident.
+ */
+export function findActiveConflict(
+  item: QueuedEmergency,
+  active: ActiveEmergencyLike | null | undefined,
+): QueueConflict | null {
+  if (!active || ["completed", "cancelled"].includes(active.status)) {
+    return null;
+  }
+  const cmp = compareIncidents(
+    { latitude: item.latitude, longitude: item.longitude, at: item.queuedAt },
+    {
+      latitude: active.latitude,
+      longitude: active.longitude,
+      at: active.created_at,
+    },
+  );
+  if (!cmp.same) return null;
+  return {
+    item,
+    active,
+    distanceKm: cmp.distanceKm,
+    minutesApart: cmp.minutesApart,
+  };
+}
+
+/**
+ * Find queued items that duplicate an earlier queued item from the same
+ * patient. The earliest item of each incident is never reported.
+ */
+export function findQueuedDuplicates(items: QueuedEmergency[]): QueueConflict[] {
+  const conflicts: QueueConflict[] = [];
+  const keepers: QueuedEmergency[] = [];
+  const sorted = [...items].sort(
+    (a, b) => new Date(a.queuedAt).getTime() - new Date(b.queuedAt).getTime(),
+  );
+
+  for (const item of sorted) {
+    let matched: QueueConflict | null = null;
+    for (const keeper of keepers) {
+      if (keeper.patientId !== item.patientId) continue;
+      const cmp = compareIncidents(
+        { latitude: item.latitude, longitude: item.longitude, at: item.queuedAt },
+        {
+          latitude: keeper.latitude,
+          longitude: keeper.longitude,
+          at: keeper.queuedAt,
+        },
+      );
+      if (cmp.same) {
+        matched = {
+          item,
+          duplicateOf: keeper,
+          distanceKm: cmp.distanceKm,
+          minutesApart: cmp.minutesApart,
+        };
+        break;
+      }
+    }
+    if (matched) conflicts.push(matched);
+    else keepers.push(item);
+  }
+
+  return conflicts;
+}
+
+/** Combine two free-text descriptions without repeating identical text. */
+export function mergeDescriptions(
+  existing?: string | null,
+  incoming?: string | null,
+): string | undefined {
+  const a = String(existing ?? "").trim();
+  const b = String(incoming ?? "").trim();
+  if (!b || a.includes(b)) return a || undefined;
+  if (!a) return b;
+  return `${a} - ${b}`;
+}
+
+type ActiveFn = (
+  patientId: string,
+) => Promise<{ emergency: ActiveEmergencyLike | null; error: Error | null }>;
+
+export interface FlushQueueOptions {
+  /** Look up the patient's active emergency on the server before replaying. */
+  getActiveEmergency?: ActiveFn;
+  /** Ask the patient how to handle a conflict. Defaults to "merge". */
+  resolveConflict?: (conflict: QueueConflict) => Promise<ConflictResolution>;
+  /**
+   * Fold a queued item into an existing server emergency. Without it a
+   * "merge" keeps the item queued for a later flush that can merge.
+   */
+  mergeIntoEmergency?: (
+    emergencyId: string,
+    item: QueuedEmergency,
+  ) => Promise<boolean>;
+}
+
+async function updateQueuedItem(item: QueuedEmergency): Promise<void> {
+  await hydrateQueue();
+  _queue = _queue.map((entry) => (entry.id === item.id ? item : entry));
+  await persistQueue();
+}
+
 /**
  * Flush any queued emergencies by attempting to create them.
  * Call this at app start or after a successful network operation.
+ *
+ * Queued items are first reconciled against each other and, when
+ * `getActiveEmergency` is given, against the patient's active emergency on
+ * the server so one incident never produces two dispatches.
  */
-export async function flushQueue(createEmergency: CreateFn): Promise<number> {
-  const pending = await getQueue();
+export async function flushQueue(
+  createEmergency: CreateFn,
+  options: FlushQueueOptions = {},
+): Promise<number> {
+  const resolve = options.resolveConflict ?? (async () => "merge" as const);
   let flushed = 0;
+  // Items the patient called separate incidents, and emergencies this flush
+  // created, so a "send anyway" is not questioned again by its own dispatch.
+  const separate = new Set<string>();
+  const createdHere = new Set<string>();
+
+  // 1) Collapse duplicates that are all still sitting in the queue.
+  for (const conflict of findQueuedDuplicates(await getQueue())) {
+    const decision = await resolve(conflict);
+    if (decision === "send") {
+      separate.add(conflict.item.id);
+      continue;
+    }
+    if (decision === "merge" && conflict.duplicateOf) {
+      const current = (await getQueue()).find(
+        (entry) => entry.id === conflict.duplicateOf!.id,
+      );
+      if (current) {
+        await updateQueuedItem({
+          ...current,
+          description: mergeDescriptions(
+            current.description,
+            conflict.item.description,
+          ),
+          smsSentAt: current.smsSentAt ?? conflict.item.smsSentAt,
+        });
+      }
+    }
+    await dequeue(conflict.item.id);
+  }
+
+  // 2) Replay what is left, checking the server's active emergency first.
+  const activeByPatient = new Map<string, ActiveEmergencyLike | null>();
 
-  for (const item of pending) {
+  for (const item of await getQueue()) {
     try {
-      const { error } = await createEmergency(
+      // Another flush may have sent or merged it meanwhile.
+      if (!(await getQueue()).some((entry) => entry.id === item.id)) continue;
+
+      if (options.getActiveEmergency && !activeByPatient.has(item.patientId)) {
+        const { emergency, error } = await options.getActiveEmergency(
+          item.patientId,
+        );
+        if (error) throw error;
+        activeByPatient.set(item.patientId, emergency);
+      }
+
+      // An SMS-sent item may already have been dispatched from the SMS, so
+      // never replay it blind.
+      if (item.smsSentAt && !options.getActiveEmergency) continue;
+
+      const active = activeByPatient.get(item.patientId);
+      const conflict =
+        separate.has(item.id) && active && createdHere.has(active.id)
+          ? null
+          : findActiveConflict(item, active);
+      if (conflict?.active) {
+        const decision = item.smsSentAt ? "merge" : await resolve(conflict);
+        if (decision === "discard") {
+          await dequeue(item.id);
+          continue;
+        }
+        if (decision === "merge") {
+          const merged = options.mergeIntoEmergency
+            ? await options.mergeIntoEmergency(conflict.active.id, item)
+            : false;
+          if (merged) await dequeue(item.id);
+          continue;
+        }
+        separate.add(item.id);
+      }
+
+      const { emergency, error } = await createEmergency(
         item.patientId,
         item.latitude,
         item.longitude,
@@ -121,6 +379,10 @@ export async function flushQueue(createEmergency: CreateFn): Promise<number> {
       if (!error) {
         await dequeue(item.id);
         flushed++;
+        if (emergency?.id) {
+          createdHere.add(emergency.id);
+          activeByPatient.set(item.patientId, emergency);
+        }
       }
     } catch {
       // Stop on first failure — likely still offline
@@ -133,6 +395,8 @@ export async function flushQueue(createEmergency: CreateFn): Promise<number> {
 
 /**
  * Try to create an emergency. If the network call fails, queue it.
+ * `mergeIntoEmergency` folds older queued items describing the same incident
+ * into the new emergency; without it they stay queued.
  */
 export async function createOrQueueEmergency(
   createEmergency: CreateFn,
@@ -141,12 +405,25 @@ export async function createOrQueueEmergency(
   lng: number,
   emergencyType?: string,
   description?: string,
-): Promise<{ queued: boolean; emergency?: any; error?: Error | null }> {
+  mergeIntoEmergency?: FlushQueueOptions["mergeIntoEmergency"],
+): Promise<{
+  queued: boolean;
+  item?: QueuedEmergency;
+  emergency?: any;
+  error?: Error | null;
+}> {
   try {
     const result = await createEmergency(patientId, lat, lng, emergencyType, description);
     if (!result.error) {
-      // Success — also try flushing any old queued items
-      flushQueue(createEmergency).catch(() => {});
+      // Success — also try flushing any old queued items, folding any that
+      // describe the emergency just created into it instead of re-dispatching.
+      flushQueue(createEmergency, {
+        getActiveEmergency: async () => ({
+          emergency: result.emergency ?? null,
+          error: null,
+        }),
+        mergeIntoEmergency,
+      }).catch(() => {});
       return { queued: false, emergency: result.emergency, error: null };
     }
 
@@ -159,16 +436,316 @@ export async function createOrQueueEmergency(
       msg.includes("unreachable");
 
     if (isNetworkError) {
-      await enqueue({ patientId, latitude: lat, longitude: lng, emergencyType, description });
-      return { queued: true };
+      const item = await enqueue({
+        patientId,
+        latitude: lat,
+        longitude: lng,
+        emergencyType,
+        description,
+      });
+      return { queued: true, item };
     }
 
     // Non-network error — propagate
     return { queued: false, error: result.error };
   } catch (_err: any) {
     // Probably a network error
-    await enqueue({ patientId, latitude: lat, longitude: lng, emergencyType, description });
-    return { queued: true };
+    const item = await enqueue({
+      patientId,
+      latitude: lat,
+      longitude: lng,
+      emergencyType,
+      description,
+    });
+    return { queued: true, item };
+  }
+}
+
+
+// ── Generic mutation outbox ───────────────────────────────────────────────
+//
+// Driver status changes, location pings and medical notes that fail because
+// the device is offline are persisted here and replayed in order through
+// `/ops/offline/sync`. Each item carries an idempotency key so a replay after
+// a dropped response is not applied twice by the backend.
+
+export type OutboxItemType =
+  | "location_ping"
+  | "status_update"
+  | "emergency_create"
+  | "medical_note";
+
+export interface OutboxItem {
+  /** Idempotency key, also used as the local id. */
+  id: string;
+  type: OutboxItemType;
+  payload: Record<string, unknown>;
+  queuedAt: string;
+  attempts: number;
+  /** Epoch ms before which the item must not be retried. */
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface DeadLetterItem extends OutboxItem {
+  failedAt: string;
+}
+
+type SyncFn = (
+  items: {
+    type: OutboxItemType;
+    payload: Record<string, unknown>;
+    queuedAt?: string;
+    idempotencyKey?: string;
+  }[],
+) => Promise<{
+  accepted: number;
+  rejected: number;
+  results?: {
+    idempotency_key: string | null;
+    status: "accepted" | "rejected";
+    reason: string | null;
+  }[];
+}>;
+
+const OUTBOX_KEY = "erdataye.offline.outbox.v1";
+const DEAD_LETTER_KEY = "erdataye.offline.outbox.dead.v1";
+
+const OUTBOX_BATCH_SIZE = 25;
+const OUTBOX_MAX_ITEMS = 500;
+const OUTBOX_MAX_ATTEMPTS = 8;
+const OUTBOX_BASE_BACKOFF_MS = 2000;
+const OUTBOX_MAX_BACKOFF_MS = 5 * 60 * 1000;
+const DEAD_LETTER_MAX_ITEMS = 100;
+
+let _outbox: OutboxItem[] = [];
+let _deadLetters: DeadLetterItem[] = [];
+let _outboxHydrated = false;
+let _flushing: Promise<OutboxFlushResult> | null = null;
+
+const isOutboxItem = (item: any): item is OutboxItem =>
+  item &&
+  typeof item.id === "string" &&
+  typeof item.type === "string" &&
+  item.payload &&
+  typeof item.payload === "object";
+
+async function readList<T>(key: string, guard: (item: any) => boolean) {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    if (!raw) return [] as T[];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed.filter(guard) as T[]) : [];
+  } catch {
+    return [] as T[];
   }
 }
 
+async function hydrateOutbox(): Promise<void> {
+  if (_outboxHydrated) return;
+  _outbox = await readList<OutboxItem>(OUTBOX_KEY, isOutboxItem);
+  _deadLetters = await readList<DeadLetterItem>(DEAD_LETTER_KEY, isOutboxItem);
+  _outboxHydrated = true;
+}
+
+async function persistOutbox(): Promise<void> {
+  try {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(_outbox));
+    await AsyncStorage.setItem(DEAD_LETTER_KEY, JSON.stringify(_deadLetters));
+  } catch {
+    // best-effort persistence
+  }
+}
+
+/** Generate an idempotency key for an outbox item. */
+export function createIdempotencyKey(type: OutboxItemType): string {
+  return `${type}_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** Delay before the next retry: exponential with jitter, capped. */
+export function getOutboxBackoffMs(attempts: number): number {
+  const exp = OUTBOX_BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1);
+  const jitter = Math.random() * OUTBOX_BASE_BACKOFF_MS;
+  return Math.min(OUTBOX_MAX_BACKOFF_MS, exp + jitter);
+}
+
+/** Read all pending outbox items, oldest first. */
+export async function getOutbox(): Promise<OutboxItem[]> {
+  await hydrateOutbox();
+  return [..._outbox];
+}
+
+/** Read items that exhausted their retries. */
+export async function getDeadLetters(): Promise<DeadLetterItem[]> {
+  await hydrateOutbox();
+  return [..._deadLetters];
+}
+
+/**
+ * Persist a mutation for later replay. Re-enqueueing an existing
+ * idempotency key is a no-op.
+ */
+export async function enqueueOutbox(
+  type: OutboxItemType,
+  payload: Record<string, unknown>,
+  idempotencyKey: string = createIdempotencyKey(type),
+): Promise<OutboxItem> {
+  await hydrateOutbox();
+  const existing = _outbox.find((item) => item.id === idempotencyKey);
+  if (existing) return existing;
+
+  const entry: OutboxItem = {
+    id: idempotencyKey,
+    type,
+    payload,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: 0,
+  };
+  _outbox.push(entry);
+
+  // Keep the outbox bounded — location pings are the cheapest to lose.
+  while (_outbox.length > OUTBOX_MAX_ITEMS) {
+    const pingIndex = _outbox.findIndex((item) => item.type === "location_ping");
+    _outbox.splice(pingIndex >= 0 ? pingIndex : 0, 1);
+  }
+
+  await persistOutbox();
+  return entry;
+}
+
+/** Move a dead-lettered item back into the outbox for another round. */
+export async function requeueDeadLetter(id: string): Promise<boolean> {
+  await hydrateOutbox();
+  const item = _deadLetters.find((entry) => entry.id === id);
+  if (!item) return false;
+  _deadLetters = _deadLetters.filter((entry) => entry.id !== id);
+  const { failedAt: _failedAt, ...rest } = item;
+  _outbox.push({ ...rest, attempts: 0, nextAttemptAt: 0 });
+  await persistOutbox();
+  return true;
+}
+
+/** Clear the outbox and the dead-letter list. */
+export async function clearOutbox(): Promise<void> {
+  _outbox = [];
+  _deadLetters = [];
+  _outboxHydrated = true;
+  try {
+    await AsyncStorage.removeItem(OUTBOX_KEY);
+    await AsyncStorage.removeItem(DEAD_LETTER_KEY);
+  } catch {
+    // best-effort clear
+  }
+}
+
+function markFailed(item: OutboxItem, reason: string, now: number): void {
+  item.attempts += 1;
+  item.lastError = reason;
+  if (item.attempts >= OUTBOX_MAX_ATTEMPTS) {
+    _outbox = _outbox.filter((entry) => entry.id !== item.id);
+    _deadLetters.push({ ...item, failedAt: new Date(now).toISOString() });
+    if (_deadLetters.length > DEAD_LETTER_MAX_ITEMS) {
+      _deadLetters = _deadLetters.slice(-DEAD_LETTER_MAX_ITEMS);
+    }
+    return;
+  }
+  item.nextAttemptAt = now + getOutboxBackoffMs(item.attempts);
+}
+
+/**
+ * Due items for the next sync, oldest first. Status updates go one per
+ * emergency and a later one waits while an earlier one is still queued,
+ * so a rejected transition is never overtaken by the ones after it.
+ */
+function nextBatch(now: number): OutboxItem[] {
+  const batch: OutboxItem[] = [];
+  const heldEmergencies = new Set<string>();
+  for (const item of _outbox) {
+    if (batch.length >= OUTBOX_BATCH_SIZE) break;
+    const emergencyId =
+      item.type === "status_update"
+        ? String(item.payload.emergency_id ?? "")
+        : "";
+    if (emergencyId) {
+      if (heldEmergencies.has(emergencyId)) continue;
+      heldEmergencies.add(emergencyId);
+    }
+    if (item.nextAttemptAt <= now) batch.push(item);
+  }
+  return batch;
+}
+
+export interface OutboxFlushResult {
+  sent: number;
+  failed: number;
+  deadLettered: number;
+  remaining: number;
+}
+
+async function runFlush(sync: SyncFn): Promise<OutboxFlushResult> {
+  await hydrateOutbox();
+  const deadBefore = _deadLetters.length;
+  let sent = 0;
+  let failed = 0;
+
+  while (true) {
+    const now = Date.now();
+    const batch = nextBatch(now);
+    if (batch.length === 0) break;
+
+    let response: Awaited<ReturnType<SyncFn>>;
+    try {
+      response = await sync(
+        batch.map((item) => ({
+          type: item.type,
+          payload: item.payload,
+          queuedAt: item.queuedAt,
+          idempotencyKey: item.id,
+        })),
+      );
+    } catch (error: any) {
+      // Whole batch failed — likely still offline. Back off and stop.
+      const reason = String(error?.message || error || "Sync failed");
+      batch.forEach((item) => markFailed(item, reason, now));
+      failed += batch.length;
+      break;
+    }
+
+    const results = Array.isArray(response?.results) ? response.results : null;
+    for (const item of batch) {
+      const result = results?.find((r) => r.idempotency_key === item.id);
+      const accepted = result
+        ? result.status === "accepted"
+        : Number(response?.rejected ?? 0) === 0;
+      if (accepted) {
+        _outbox = _outbox.filter((entry) => entry.id !== item.id);
+        sent++;
+      } else {
+        markFailed(item, result?.reason || "Rejected by server", now);
+        failed++;
+      }
+    }
+    await persistOutbox();
+  }
+
+  await persistOutbox();
+  return {
+    sent,
+    failed,
+    deadLettered: _deadLetters.length - deadBefore,
+    remaining: _outbox.length,
+  };
+}
+
+/**
+ * Replay due outbox items in batches through the offline sync endpoint.
+ * Concurrent calls share the same in-flight flush.
+ */
+export async function flushOutbox(sync: SyncFn): Promise<OutboxFlushResult> {
+  if (_flushing) return _flushing;
+  _flushing = runFlush(sync).finally(() => {
+    _flushing = null;
+  });
+  return _flushing;
+}
@@ -3,6 +3,12 @@
  */
 
 import { backendGet, backendPatch, backendPost } from "./api";
+import type {
+    EmergencyDispatchApiResponse,
+    EmergencyHospitalStatus,
+    FamilyShareResponse,
+    PatientEmergency,
+} from "./contracts";
 import {
     assignAmbulance,
     calculateDistance,
@@ -10,50 +16,34 @@ import {
     parsePostGISPoint,
     toPostGISPoint,
 } from "./emergency";
+import {
+    EMERGENCY_CANCEL_WINDOW_MINUTES,
+    EmergencyTransitionError,
+    getEmergencyCancelWindowState,
+    getEmergencyTransitionError,
+    isEmergencyStatus,
+    notifyEmergencyCreated,
+    notifyEmergencyTransition,
+    type EmergencyStatus,
+} from "./emergency-lifecycle";
+import { recordTimelineEvent } from "./emergency-timeline";
+import {
+    checkLocationFix,
+    toIntegrityPayload,
+    type LocationFix,
+} from "./location-integrity";
+import { mergeDescriptions, type QueuedEmergency } from "./offline-queue";
 import { supabase } from "./supabase";
 
-const EMERGENCY_CANCEL_WINDOW_MINUTES = 3;
-
-export interface PatientEmergency {
-  id: string;
-  patient_id: string;
-  status:
-    | "pending"
-    | "assigned"
-    | "en_route"
-    | "at_scene"
-    | "arrived"
-    | "transporting"
-    | "at_hospital"
-    | "completed"
-    | "cancelled";
-  emergency_type: string;
-  description?: string;
-  assigned_ambulance_id?: string;
-  hospital_id?: string;
-  patient_location?: string;
-  latitude: number;
-  longitude: number;
-  created_at: string;
-  updated_at: string;
-  dispatch_reason?: string;
-  eta_minutes?: number;
-  route_to_patient_url?: string;
-  route_to_hospital_url?: string;
-}
+export {
+  EMERGENCY_CANCEL_WINDOW_MINUTES,
+  getEmergencyCancelWindowState,
+} from "./emergency-lifecycle";
 
-interface EmergencyDispatchApiResponse {
-  emergency_id: string;
-  status: string;
-  hospital_id: string | null;
-  assigned_ambulance_id: string | null;
-  distance_to_ambulance_km: number | null;
-  distance_to_hospital_km: number | null;
-  eta_minutes: number | null;
-  route_to_patient_url: string | null;
-  route_to_hospital_url: string | null;
-  reason: string;
-}
+export type {
+  EmergencyHospitalStatus,
+  PatientEmergency,
+} from "./contracts";
 
 export interface EmergencyAssignment {
   id: string;
@@ -102,11 +92,17 @@ export const retryEmergencyDispatch = async (
   }
 };
 
+/**
+ * Share the patient's position during an active emergency. `fix` carries
+ * the reading's accuracy, time and mock flag; impossible jumps are not
+ * sent (`rejected`) and everything else carries its confidence score.
+ */
 export const updatePatientLiveLocation = async (
   emergencyId: string,
   latitude: number,
   longitude: number,
-): Promise<{ success: boolean; error: Error | null }> => {
+  fix: Partial<Omit<LocationFix, "latitude" | "longitude">> = {},
+): Promise<{ success: boolean; rejected?: boolean; error: Error | null }> => {
   try {
     if (
       !emergencyId ||
@@ -119,11 +115,27 @@ export const updatePatientLiveLocation = async (
       };
     }
 
+    const integrity = checkLocationFix(`patient:${emergencyId}`, {
+      latitude,
+      longitude,
+      accuracy: fix.accuracy,
+      timestamp: fix.timestamp ?? Date.now(),
+      mocked: fix.mocked,
+    });
+    if (integrity.rejected) {
+      return {
+        success: false,
+        rejected: true,
+        error: new Error("Location rejected: impossible jump from last fix"),
+      };
+    }
+
     const res = await backendPatch<{ success?: boolean; reason?: string }>(
       `/ops/patient/emergencies/${emergencyId}/patient-location`,
       {
         latitude,
         longitude,
+        ...toIntegrityPayload(integrity),
       },
     );
 
@@ -163,27 +175,6 @@ export interface HospitalInfo {
   location?: string;
 }
 
-export interface EmergencyHospitalStatus {
-  emergency_id: string;
-  hospital_id: string | null;
-  hospital_name: string | null;
-  is_accepting_emergencies: boolean | null;
-  active_emergencies: number;
-  max_concurrent_emergencies: number | null;
-  utilization: number | null;
-  distance_to_hospital_km: number | null;
-  eta_to_hospital_minutes: number | null;
-  hospital_latitude: number | null;
-  hospital_longitude: number | null;
-  source: string;
-}
-
-interface FamilyShareCreateResponse {
-  share_token: string;
-  emergency_id: string;
-  expires_at: string;
-}
-
 const PREFERRED_SHARE_BASES = [
   "https://erdatayee.tech/api",
   "https://www.erdatayee.tech/api",
@@ -277,7 +268,7 @@ export const createFamilyShareLink = async (
   error: Error | null;
 }> => {
   try {
-    const data = await backendPost<FamilyShareCreateResponse>(
+    const data = await backendPost<FamilyShareResponse>(
       "/ops/family/share",
       {
         emergency_id: emergencyId,
@@ -342,6 +333,28 @@ const firstNonEmptyPhone = (...values: any[]): string => {
   return "";
 };
 
+const recordDispatchTimeline = (
+  emergency: PatientEmergency,
+  source: "backend" | "supabase",
+) => {
+  notifyEmergencyCreated({
+    emergencyId: emergency.id,
+    patientId: emergency.patient_id,
+    status: isEmergencyStatus(emergency.status) ? emergency.status : "pending",
+  });
+  void recordTimelineEvent(emergency.id, "dispatch_requested", {
+    emergency_type: emergency.emergency_type,
+    source,
+  }).then(() => {
+    if (!emergency.assigned_ambulance_id) return;
+    return recordTimelineEvent(emergency.id, "ambulance_assigned", {
+      ambulance_id: emergency.assigned_ambulance_id,
+      hospital_id: emergency.hospital_id ?? null,
+      eta_minutes: emergency.eta_minutes ?? null,
+    });
+  });
+};
+
 export const createEmergency = async (
   patientId: string,
   latitude: number,
@@ -409,15 +422,15 @@ export const createEmergency = async (
       const dispatch = await dispatchPromise;
 
       // Build emergency from dispatch response directly — skip extra detail fetch
-      // The dispatch response already contains: emergency_id, ambulance_id, hospital_id, reason, eta
+      // The dispatch response already contains: emergency_id, assigned_ambulance_id, hospital_id, reason, eta
       const emergency = normalizeEmergency({
         id: dispatch.emergency_id,
         patient_id: patientId,
         patient_location: toPostGISPoint(lat, lng),
         emergency_type: normalizedEmergencyType,
         description: normalizedDescription,
-        status: dispatch.ambulance_id ? "assigned" : "pending",
-        assigned_ambulance_id: dispatch.ambulance_id,
+        status: dispatch.assigned_ambulance_id ? "assigned" : "pending",
+        assigned_ambulance_id: dispatch.assigned_ambulance_id,
         hospital_id: dispatch.hospital_id,
         latitude: lat,
         longitude: lng,
@@ -431,6 +444,7 @@ export const createEmergency = async (
       emergency.route_to_hospital_url =
         dispatch.route_to_hospital_url ?? undefined;
 
+      recordDispatchTimeline(emergency, "backend");
       return { emergency, error: null };
     } catch (backendErr) {
       console.warn(
@@ -496,6 +510,7 @@ export const createEmergency = async (
       console.warn("Auto-assign ambulance skipped:", assignErr);
     }
 
+    recordDispatchTimeline(emergency, "supabase");
     return { emergency, error: null };
   } catch (error) {
     console.error("Error creating emergency:", error);
@@ -736,23 +751,39 @@ export const getEmergencyDetails = async (
   }
 };
 
+/**
+ * Patient-side status update. Patients may only cancel, so the change is
+ * checked against the lifecycle (status and cancel window) before the
+ * backend sees it.
+ */
 export const updateEmergencyStatus = async (
   emergencyId: string,
-  status:
-    | "pending"
-    | "assigned"
-    | "en_route"
-    | "at_scene"
-    | "arrived"
-    | "transporting"
-    | "at_hospital"
-    | "completed"
-    | "cancelled",
+  status: EmergencyStatus,
+  transition: {
+    from: EmergencyStatus;
+    createdAt?: string | null;
+    cancelWindowMinutes?: number;
+  },
 ): Promise<{ success: boolean; error: Error | null }> => {
+  const invalid = getEmergencyTransitionError({
+    emergencyId,
+    role: "patient",
+    to: status,
+    ...transition,
+  });
+  if (invalid) return { success: false, error: invalid };
+
   try {
     await backendPatch(`/ops/patient/emergencies/${emergencyId}/status`, {
       status,
     });
+    notifyEmergencyTransition({
+      emergencyId,
+      role: "patient",
+      from: transition.from,
+      to: status,
+      queued: false,
+    });
     return { success: true, error: null };
   } catch (error) {
     console.error("Error updating emergency status:", error);
@@ -760,20 +791,46 @@ export const updateEmergencyStatus = async (
   }
 };
 
-export const getEmergencyCancelWindowState = (
-  createdAt: string,
-  maxMinutes: number = EMERGENCY_CANCEL_WINDOW_MINUTES,
-) => {
-  const createdMs = new Date(createdAt).getTime();
-  const deadlineMs = createdMs + maxMinutes * 60 * 1000;
-  const remainingMs = Math.max(0, deadlineMs - Date.now());
-  const remainingSeconds = Math.ceil(remainingMs / 1000);
-  return {
-    canCancel: remainingMs > 0,
-    remainingSeconds,
-  };
+/**
+ * Append extra details to an existing emergency's description. Used when a
+ * queued offline SOS is merged into a request that already reached the server.
+ */
+export const appendEmergencyDescription = async (
+  emergencyId: string,
+  details?: string,
+): Promise<{ success: boolean; error: Error | null }> => {
+  try {
+    const { data, error: readError } = await supabase
+      .from("emergency_requests")
+      .select("description")
+      .eq("id", emergencyId)
+      .maybeSingle();
+    if (readError) throw readError;
+
+    const merged = mergeDescriptions(data?.description, details);
+    if (!merged || merged === data?.description) {
+      return { success: true, error: null };
+    }
+
+    const { error } = await supabase
+      .from("emergency_requests")
+      .update({ description: merged, updated_at: new Date().toISOString() })
+      .eq("id", emergencyId);
+    if (error) throw error;
+    return { success: true, error: null };
+  } catch (error) {
+    console.error("Error appending emergency description:", error);
+    return { success: false, error: error as Error };
+  }
 };
 
+/** `mergeIntoEmergency` for the offline queue: fold an item's details in. */
+export const mergeQueuedEmergency = async (
+  emergencyId: string,
+  item: QueuedEmergency,
+): Promise<boolean> =>
+  (await appendEmergencyDescription(emergencyId, item.description)).success;
+
 export const cancelEmergencyWithinWindow = async (
   emergencyId: string,
   patientId: string,
@@ -807,36 +864,11 @@ export const cancelEmergencyWithinWindow = async (
       };
     }
 
-    if (["completed", "cancelled"].includes(String(data.status))) {
-      return {
-        success: false,
-        error: new Error("This emergency request is already closed."),
-        remainingSeconds: 0,
-      };
-    }
-
     const currentStatus = String(data.status || "pending");
-    if (!["pending", "assigned"].includes(currentStatus)) {
-      return {
-        success: false,
-        error: new Error(
-          "Cancellation is closed because an ambulance already accepted this request.",
-        ),
-        remainingSeconds: 0,
-      };
-    }
-
-    const { canCancel, remainingSeconds } = getEmergencyCancelWindowState(
-      data.created_at,
-      maxMinutes,
-    );
-
-    if (!canCancel) {
+    if (!isEmergencyStatus(currentStatus)) {
       return {
         success: false,
-        error: new Error(
-          `Cancellation window expired. You can only cancel within ${maxMinutes} minutes.`,
-        ),
+        error: new Error(`Unknown emergency status "${currentStatus}".`),
         remainingSeconds: 0,
       };
     }
@@ -844,9 +876,20 @@ export const cancelEmergencyWithinWindow = async (
     const { success, error: statusError } = await updateEmergencyStatus(
       emergencyId,
       "cancelled",
+      {
+        from: currentStatus,
+        createdAt: data.created_at,
+        cancelWindowMinutes: maxMinutes,
+      },
     );
 
     if (!success || statusError) {
+      // Rejected by the lifecycle (closed, accepted or expired): the window
+      // is over for this request.
+      const { remainingSeconds } =
+        statusError instanceof EmergencyTransitionError
+          ? { remainingSeconds: 0 }
+          : getEmergencyCancelWindowState(data.created_at, maxMinutes);
       return {
         success: false,
         error: statusError ?? new Error("Failed to cancel emergency request."),
@@ -1,4 +1,5 @@
 import { backendGet, backendPut } from "./api";
+import { fromDataSource } from "./data-source";
 import { supabase } from "./supabase";
 
 export interface UserProfile {
@@ -28,7 +29,7 @@ export interface MedicalProfile {
 }
 
 /**
- * Get user profile — backend first, Supabase fallback.
+ * Get user profile (strategy: "profile").
  */
 export const getUserProfile = async (
   userId: string,
@@ -37,45 +38,50 @@ export const getUserProfile = async (
   error: Error | null;
 }> => {
   try {
-    try {
-      const data = await backendGet<UserProfile>("/profiles/me");
-      if (data) return { profile: data, error: null };
-    } catch {
-      /* fall through */
-    }
-
-    const { data, error } = await supabase
-      .from("profiles")
-      .select("*")
-      .eq("id", userId)
-      .maybeSingle();
-    if (error) throw error;
-    return { profile: data as UserProfile | null, error: null };
+    const { data } = await fromDataSource<UserProfile>({
+      entity: "profile",
+      operation: "get",
+      backend: () => backendGet<UserProfile>("/profiles/me"),
+      supabase: async () => {
+        const { data, error } = await supabase
+          .from("profiles")
+          .select("*")
+          .eq("id", userId)
+          .maybeSingle();
+        if (error) throw error;
+        return data as UserProfile | null;
+      },
+    });
+    return { profile: data, error: null };
   } catch (error) {
     return { profile: null, error: error as Error };
   }
 };
 
 /**
- * Update user profile — backend first, Supabase fallback.
+ * Update user profile (strategy: "profile").
  */
 export const updateUserProfile = async (
   userId: string,
   updates: Partial<UserProfile>,
 ): Promise<{ success: boolean; error: Error | null }> => {
   try {
-    try {
-      await backendPut("/profiles/me", updates);
-      return { success: true, error: null };
-    } catch {
-      /* fall through */
-    }
-
-    const { error } = await supabase
-      .from("profiles")
-      .update({ ...updates, updated_at: new Date().toISOString() })
-      .eq("id", userId);
-    if (error) throw error;
+    await fromDataSource<true>({
+      entity: "profile",
+      operation: "update",
+      backend: async () => {
+        await backendPut("/profiles/me", updates);
+        return true;
+      },
+      supabase: async () => {
+        const { error } = await supabase
+          .from("profiles")
+          .update({ ...updates, updated_at: new Date().toISOString() })
+          .eq("id", userId);
+        if (error) throw error;
+        return true;
+      },
+    });
     return { success: true, error: null };
   } catch (error) {
     return { success: false, error: error as Error };
@@ -83,7 +89,7 @@ export const updateUserProfile = async (
 };
 
 /**
- * Get medical profile — backend first, Supabase fallback.
+ * Get medical profile (strategy: "medical_profile").
  */
 export const getMedicalProfile = async (
   userId: string,
@@ -92,29 +98,30 @@ export const getMedicalProfile = async (
   error: Error | null;
 }> => {
   try {
-    try {
-      const data = await backendGet<MedicalProfile | null>("/profiles/medical");
-      if (data) return { profile: data, error: null };
-    } catch {
-      /* fall through */
-    }
-
-    const { data, error } = await supabase
-      .from("medical_profiles")
-      .select("*")
-      .eq("user_id", userId)
-      .order("updated_at", { ascending: false })
-      .limit(1)
-      .maybeSingle();
-    if (error) throw error;
-    return { profile: data as MedicalProfile | null, error: null };
+    const { data } = await fromDataSource<MedicalProfile>({
+      entity: "medical_profile",
+      operation: "get",
+      backend: () => backendGet<MedicalProfile | null>("/profiles/medical"),
+      supabase: async () => {
+        const { data, error } = await supabase
+          .from("medical_profiles")
+          .select("*")
+          .eq("user_id", userId)
+          .order("updated_at", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        if (error) throw error;
+        return data as MedicalProfile | null;
+      },
+    });
+    return { profile: data, error: null };
   } catch (error) {
     return { profile: null, error: error as Error };
   }
 };
 
 /**
- * Create or update medical profile — backend first, Supabase fallback.
+ * Create or update medical profile (strategy: "medical_profile").
  */
 export const upsertMedicalProfile = async (
   userId: string,
@@ -124,21 +131,25 @@ export const upsertMedicalProfile = async (
   >,
 ): Promise<{ success: boolean; error: Error | null }> => {
   try {
-    try {
-      await backendPut("/profiles/medical", medicalData);
-      return { success: true, error: null };
-    } catch {
-      /* fall through */
-    }
-
-    const now = new Date().toISOString();
-    const { error } = await supabase
-      .from("medical_profiles")
-      .upsert(
-        { ...medicalData, user_id: userId, updated_at: now },
-        { onConflict: "user_id" },
-      );
-    if (error) throw error;
+    await fromDataSource<true>({
+      entity: "medical_profile",
+      operation: "upsert",
+      backend: async () => {
+        await backendPut("/profiles/medical", medicalData);
+        return true;
+      },
+      supabase: async () => {
+        const now = new Date().toISOString();
+        const { error } = await supabase
+          .from("medical_profiles")
+          .upsert(
+            { ...medicalData, user_id: userId, updated_at: now },
+            { onConflict: "user_id" },
+          );
+        if (error) throw error;
+        return true;
+      },
+    });
     return { success: true, error: null };
   } catch (error) {
     return { success: false, error: error as Error };
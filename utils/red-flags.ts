@@ -0,0 +1,302 @@
+/**
+ * Red-flag symptom detection for the first-aid chats.
+ *
+ * A local classifier runs over the user's messages in every supported
+ * language. When a red-flag phrase matches (not breathing, unconscious,
+ * heavy bleeding, chest pain, stroke signs, labour) the chat offers to
+ * request an ambulance with the emergency type, description and triage
+ * flags already filled in from the conversation.
+ */
+import { getExplainableTriage } from "./emergency";
+import type { ExplainableTriageResponse } from "./contracts";
+import type { Message } from "./first-aid-chatbot";
+import { containsKeyword, normalizeChatText } from "./first-aid-pack";
+import type { Lang } from "./i18n-first-aid";
+import { createOrQueueEmergency } from "./offline-queue";
+
+export type RedFlagId =
+  | "not_breathing"
+  | "unconscious"
+  | "heavy_bleeding"
+  | "chest_pain"
+  | "stroke"
+  | "labour";
+
+export type TriageInput = Parameters<typeof getExplainableTriage>[0];
+
+interface RedFlagRule {
+  id: RedFlagId;
+  emergencyType: string;
+  severity: TriageInput["severity"];
+  triage: Omit<Partial<TriageInput>, "severity">;
+  phrases: Record<Lang, string[]>;
+}
+
+/** Ordered by urgency: the first matching rule decides the emergency type. */
+const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: "not_breathing",
+    emergencyType: "respiratory",
+    severity: "critical",
+    triage: { breathingDifficulty: true },
+    phrases: {
+      en: [
+        "not breathing",
+        "stopped breathing",
+        "isn't breathing",
+        "no breathing",
+        "can't breathe",
+        "cannot breathe",
+        "turning blue",
+      ],
+      am: ["አይተነፍስም", "አትተነፍስም", "መተንፈስ አቆመ", "መተንፈስ አልቻለም", "ትንፋሽ የለውም"],
+      om: [
+        "hafuura hin baafatu",
+        "hafuura dhaabe",
+        "hafuura baafachuu hin danda'u",
+      ],
+    },
+  },
+  {
+    id: "unconscious",
+    emergencyType: "unconscious",
+    severity: "critical",
+    triage: { conscious: false },
+    phrases: {
+      en: [
+        "unconscious",
+        "unresponsive",
+        "passed out",
+        "not waking up",
+        "won't wake up",
+        "collapsed",
+      ],
+      am: ["ራሱን ሳተ", "ራሷን ሳተች", "ራሱን ስቷል", "ምላሽ አይሰጥም", "አይነቃም"],
+      om: ["of wallaale", "of wallaalte", "deebii hin kennu", "hin dammaqu"],
+    },
+  },
+  {
+    id: "heavy_bleeding",
+    emergencyType: "bleeding",
+    severity: "critical",
+    triage: { severeBleeding: true },
+    phrases: {
+      en: [
+        "heavy bleeding",
+        "bleeding heavily",
+        "bleeding a lot",
+        "lots of blood",
+        "won't stop bleeding",
+        "bleeding won't stop",
+        "spurting blood",
+        "severe bleeding",
+      ],
+      am: ["ብዙ ደም", "ደሙ አልቆመም", "ከባድ ደም መፍሰስ", "ደም አይቆምም"],
+      om: ["dhiiga baay'ee", "dhiigni hin dhaabbatu", "dhiiga cimaa"],
+    },
+  },
+  {
+    id: "stroke",
+    emergencyType: "stroke",
+    severity: "critical",
+    triage: { strokeSymptoms: true },
+    phrases: {
+      en: [
+        "stroke",
+        "face drooping",
+        "face is drooping",
+        "slurred speech",
+        "can't speak",
+        "one side is weak",
+        "arm weakness",
+        "sudden numbness",
+        "paralysed",
+        "paralyzed",
+      ],
+      am: ["ስትሮክ", "ፊቱ ተጣመመ", "ንግግሩ ተደናቀፈ", "አንድ ጎኑ", "ሽባ"],
+      om: [
+        "istirookii",
+        "fuulli jallate",
+        "dubbachuu dadhabe",
+        "cinaachi tokko",
+        "laamshe",
+      ],
+    },
+  },
+  {
+    id: "chest_pain",
+    emergencyType: "cardiac",
+    severity: "high",
+    triage: { chestPain: true },
+    phrases: {
+      en: [
+        "chest pain",
+        "chest tightness",
+        "pain in my chest",
+        "pain in his chest",
+        "pain in her chest",
+        "heart attack",
+        "crushing chest",
+      ],
+      am: ["የደረት ሕመም", "የደረት ህመም", "ደረቴን ያመኛል", "ደረቴ ያመኛል", "የልብ ድካም"],
+      om: ["dhukkubbii laphee", "laphee na dhukkuba", "dhukkuba onnee"],
+    },
+  },
+  {
+    id: "labour",
+    emergencyType: "maternity",
+    severity: "high",
+    triage: {},
+    phrases: {
+      en: [
+        "in labour",
+        "in labor",
+        "water broke",
+        "waters broke",
+        "contractions",
+        "giving birth",
+        "baby is coming",
+        "baby coming",
+      ],
+      am: ["ምጥ", "ሽርት ውሃ", "እየወለደች", "መውለድ ጀመረች"],
+      om: ["ciniinsuu", "bishaan gadaamessaa", "da'aa jirti", "da'uu jalqabde"],
+    },
+  },
+];
+
+const SEVERITY_RANK: Record<TriageInput["severity"], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+const LATIN_ONLY = /^[\x20-\x7e]+$/;
+
+/**
+ * Phrases match like first-aid keywords, except that a single Ge'ez word
+ * must stand alone: "ምጥ" (labour) also occurs inside "አምጥቶ" (brought).
+ */
+const matchesPhrase = (normalized: string, phrase: string) =>
+  LATIN_ONLY.test(phrase) || phrase.includes(" ")
+    ? containsKeyword(normalized, phrase)
+    : ` ${normalized} `.includes(` ${phrase} `);
+
+/** Red flags found in one message, most urgent first. */
+export const detectRedFlags = (text: string): RedFlagId[] => {
+  const normalized = normalizeChatText(text);
+  if (!normalized) return [];
+  return RED_FLAG_RULES.filter((rule) =>
+    Object.values(rule.phrases).some((phrases) =>
+      phrases.some((phrase) => matchesPhrase(normalized, phrase)),
+    ),
+  ).map((rule) => rule.id);
+};
+
+/* ─── Escalation ──────────────────────────────────────────────── */
+
+export interface RedFlagEscalation {
+  flags: RedFlagId[];
+  emergencyType: string;
+  description: string;
+  triage: TriageInput;
+}
+
+const DESCRIPTION_MAX_LENGTH = 500;
+const QUOTED_MESSAGES = 3;
+
+/**
+ * Build the ambulance request a conversation calls for, or null when no
+ * user message carries a red flag.
+ */
+export const buildRedFlagEscalation = (
+  messages: Message[],
+): RedFlagEscalation | null => {
+  const userTexts = messages
+    .filter((message) => message.role === "user")
+    .map((message) => message.text.trim())
+    .filter(Boolean);
+
+  const found = new Set<RedFlagId>();
+  for (const text of userTexts) {
+    for (const flag of detectRedFlags(text)) found.add(flag);
+  }
+  if (found.size === 0) return null;
+
+  const rules = RED_FLAG_RULES.filter((rule) => found.has(rule.id));
+  const triage: TriageInput = { severity: "low" };
+  for (const rule of rules) {
+    Object.assign(triage, rule.triage);
+    if (SEVERITY_RANK[rule.severity] > SEVERITY_RANK[triage.severity]) {
+      triage.severity = rule.severity;
+    }
+  }
+
+  const quoted = userTexts
+    .slice(-QUOTED_MESSAGES)
+    .map((text) => `"${text}"`)
+    .join(" / ");
+  const description = `First aid chat red flags: ${rules
+    .map((rule) => rule.id.replace(/_/g, " "))
+    .join(", ")}. Reported: ${quoted}`.slice(0, DESCRIPTION_MAX_LENGTH);
+
+  return {
+    flags: rules.map((rule) => rule.id),
+    emergencyType: rules[0].emergencyType,
+    description,
+    triage,
+  };
+};
+
+/**
+ * The escalation to offer right now: only when the latest user message
+ * carries a red flag, so an old message in a restored chat history does not
+ * keep prompting. `messageIndex` identifies that message for dismissal.
+ */
+export const getPendingRedFlagEscalation = (
+  messages: Message[],
+): (RedFlagEscalation & { messageIndex: number }) | null => {
+  let messageIndex = messages.length - 1;
+  while (messageIndex >= 0 && messages[messageIndex].role !== "user") {
+    messageIndex--;
+  }
+  if (messageIndex < 0 || !detectRedFlags(messages[messageIndex].text).length) {
+    return null;
+  }
+  const escalation = buildRedFlagEscalation(
+    messages.slice(0, messageIndex + 1),
+  );
+  return escalation ? { ...escalation, messageIndex } : null;
+};
+
+/**
+ * Request an ambulance for a red-flag escalation. The request goes through
+ * the offline queue, so it is saved and retried when the network is down.
+ * Triage is best-effort and never blocks the request.
+ */
+export const requestRedFlagAmbulance = async (
+  escalation: RedFlagEscalation,
+  input: {
+    createEmergency: Parameters<typeof createOrQueueEmergency>[0];
+    patientId: string;
+    latitude: number;
+    longitude: number;
+    mergeIntoEmergency?: Parameters<typeof createOrQueueEmergency>[6];
+  },
+) => {
+  const [result, triage] = await Promise.all([
+    createOrQueueEmergency(
+      input.createEmergency,
+      input.patientId,
+      input.latitude,
+      input.longitude,
+      escalation.emergencyType,
+      escalation.description,
+      input.mergeIntoEmergency,
+    ),
+    getExplainableTriage(escalation.triage).catch(
+      (): ExplainableTriageResponse | null => null,
+    ),
+  ]);
+  return { ...result, triage };
+};
@@ -0,0 +1,58 @@
+/**
+ * SMS fallback for SOS requests when the device has GSM but no data.
+ */
+
+import { Linking, Platform } from "react-native";
+
+import { formatCoords } from "./emergency";
+import type { QueuedEmergency } from "./offline-queue";
+import { encodeSosSms } from "./sos-sms";
+
+/** Dispatch short code that receives SOS SMS messages. */
+export const getSosSmsShortCode = (): string | null => {
+  const code = process.env.EXPO_PUBLIC_SOS_SMS_SHORTCODE?.trim() || "";
+  return /^\+?\d{3,15}$/.test(code) ? code : null;
+};
+
+/** Build the SMS body for a queued emergency. */
+export const buildQueuedEmergencySms = (item: QueuedEmergency): string =>
+  encodeSosSms(
+    {
+      patientId: item.patientId,
+      latitude: item.latitude,
+      longitude: item.longitude,
+      emergencyType: item.emergencyType || "emergency",
+    },
+    formatCoords(item.latitude, item.longitude),
+  );
+
+/**
+ * Open the SMS composer prefilled with the encoded SOS. Opening it does not
+ * mean the message went out, so the item stays queued for online replay
+ * until the patient confirms it was sent (`markQueuedSentViaSms`).
+ */
+export const sendQueuedEmergencyViaSms = async (
+  item: QueuedEmergency,
+): Promise<{ opened: boolean; error: Error | null }> => {
+  const shortCode = getSosSmsShortCode();
+  if (!shortCode) {
+    return {
+      opened: false,
+      error: new Error("SMS dispatch number is not configured"),
+    };
+  }
+
+  // iOS expects "&body=" after the recipient, Android uses a query string.
+  const separator = Platform.OS === "ios" ? "&" : "?";
+  const url = `sms:${shortCode}${separator}body=${encodeURIComponent(
+    buildQueuedEmergencySms(item),
+  )}`;
+
+  try {
+    await Linking.openURL(url);
+    return { opened: true, error: null };
+  } catch (error) {
+    console.error("Error opening SMS composer:", error);
+    return { opened: false, error: error as Error };
+  }
+};
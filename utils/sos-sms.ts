@@ -0,0 +1,131 @@
+/**
+ * Compact SOS SMS format shared by the app and the dispatch side.
+ *
+ * When a patient has GSM but no data, the SOS is sent as a plain text message
+ * to the dispatch short code:
+ *
+ *   ERD1;P=<patient id>;L=9.0200° N, 38.7500° E;T=accident;K=1A2B
+ *
+ * `L` is the output of `formatCoords` and `K` is a CRC-16 over the canonical
+ * fields, so a mangled degree sign or extra whitespace from an SMS gateway
+ * does not break validation. This module has no React Native imports so the
+ * dispatch tooling can reuse it as-is.
+ */
+
+export const SOS_SMS_PREFIX = "ERD1";
+
+export interface SosSmsPayload {
+  patientId: string;
+  latitude: number;
+  longitude: number;
+  emergencyType: string;
+}
+
+const COORD_DECIMALS = 4;
+const MAX_TYPE_LENGTH = 20;
+
+const normalizeType = (value?: string) =>
+  String(value || "emergency")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_]/g, "_")
+    .slice(0, MAX_TYPE_LENGTH) || "emergency";
+
+/** CRC-16/CCITT-FALSE of a string, as four upper-case hex digits. */
+export function sosSmsChecksum(payload: SosSmsPayload): string {
+  const canonical = [
+    payload.patientId,
+    payload.latitude.toFixed(COORD_DECIMALS),
+    payload.longitude.toFixed(COORD_DECIMALS),
+    normalizeType(payload.emergencyType),
+  ].join("|");
+
+  let crc = 0xffff;
+  for (let i = 0; i < canonical.length; i++) {
+    crc ^= canonical.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+/**
+ * Build the SMS body. `formattedCoords` must come from `formatCoords` in
+ * utils/emergency.ts so dispatchers can read it at a glance.
+ */
+export function encodeSosSms(
+  payload: SosSmsPayload,
+  formattedCoords: string,
+): string {
+  const type = normalizeType(payload.emergencyType);
+  const checksum = sosSmsChecksum({ ...payload, emergencyType: type });
+  return [
+    SOS_SMS_PREFIX,
+    `P=${payload.patientId}`,
+    `L=${formattedCoords}`,
+    `T=${type}`,
+    `K=${checksum}`,
+  ].join(";");
+}
+
+const COORD_PATTERN =
+  /^\s*(\d{1,2}(?:\.\d+)?)\s*°?\s*([NS])\s*,\s*(\d{1,3}(?:\.\d+)?)\s*°?\s*([EW])\s*$/i;
+
+/** Parse the `formatCoords` output back into signed decimal degrees. */
+export function parseFormattedCoords(
+  value: string,
+): { latitude: number; longitude: number } | null {
+  const match = COORD_PATTERN.exec(value);
+  if (!match) return null;
+  const lat = Number(match[1]) * (match[2].toUpperCase() === "S" ? -1 : 1);
+  const lng = Number(match[3]) * (match[4].toUpperCase() === "W" ? -1 : 1);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { latitude: lat, longitude: lng };
+}
+
+/**
+ * Decode and validate an incoming SOS SMS. Returns an error for anything
+ * that is not a well-formed message with a matching checksum.
+ */
+export function parseSosSms(body: string): {
+  payload: SosSmsPayload | null;
+  error: Error | null;
+} {
+  const parts = String(body || "")
+    .trim()
+    .split(";")
+    .map((part) => part.trim());
+  if (parts[0]?.toUpperCase() !== SOS_SMS_PREFIX) {
+    return { payload: null, error: new Error("Not an SOS message") };
+  }
+
+  const fields: Record<string, string> = {};
+  for (const part of parts.slice(1)) {
+    const eq = part.indexOf("=");
+    if (eq <= 0) continue;
+    fields[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).trim();
+  }
+
+  if (!fields.P || !fields.L || !fields.K) {
+    return { payload: null, error: new Error("SOS message is incomplete") };
+  }
+
+  const coords = parseFormattedCoords(fields.L);
+  if (!coords) {
+    return { payload: null, error: new Error("SOS coordinates are invalid") };
+  }
+
+  const payload: SosSmsPayload = {
+    patientId: fields.P,
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+    emergencyType: normalizeType(fields.T),
+  };
+
+  if (sosSmsChecksum(payload) !== fields.K.toUpperCase()) {
+    return { payload: null, error: new Error("SOS checksum mismatch") };
+  }
+
+  return { payload, error: null };
+}
@@ -0,0 +1,65 @@
+/**
+ * Incremental parser for `text/event-stream` responses.
+ *
+ * Network chunks can split an event (or a line) anywhere, so text is
+ * buffered until a blank line completes the event.
+ */
+
+export interface ServerSentEvent {
+  /** The `event:` field, "message" when the server omits it. */
+  event: string;
+  /** All `data:` lines of the event joined with newlines. */
+  data: string;
+}
+
+export interface SseParser {
+  /** Feed the next chunk of response text. */
+  push: (chunk: string) => void;
+  /** Dispatch a final event the stream ended without a blank line for. */
+  flush: () => void;
+}
+
+export const createSseParser = (
+  onEvent: (event: ServerSentEvent) => void,
+): SseParser => {
+  let buffer = "";
+  let eventName = "";
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName || "message", data: dataLines.join("\n") });
+    }
+    eventName = "";
+    dataLines = [];
+  };
+
+  const handleLine = (line: string) => {
+    if (line === "") {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(":")) return; // comment / keep-alive
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+    if (field === "event") eventName = value;
+    else if (field === "data") dataLines.push(value);
+  };
+
+  return {
+    push: (chunk) => {
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      // The last element is an incomplete line (or "" after a newline).
+      buffer = lines.pop() ?? "";
+      for (const line of lines) handleLine(line.replace(/\r$/, ""));
+    },
+    flush: () => {
+      if (buffer) handleLine(buffer.replace(/\r$/, ""));
+      buffer = "";
+      dispatch();
+    },
+  };
+};
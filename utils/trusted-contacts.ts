@@ -0,0 +1,452 @@
+/**
+ * Trusted contacts — the people a patient wants told when they call for an
+ * ambulance.
+ *
+ * When an emergency is created, and again when an ambulance is assigned and
+ * when the patient reaches hospital, every contact is sent a family share
+ * link: by push when they use the app (the backend matches their phone to an
+ * account) and otherwise through the SMS composer. Each attempt is logged per
+ * emergency so the tracking screen can show who was reached.
+ */
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Linking, Platform } from "react-native";
+
+import { backendGet, backendPost, backendPut } from "./api";
+import type { FamilyNotifyResponse, TrustedContactResponse } from "./contracts";
+import { fromDataSource } from "./data-source";
+import { onEmergencyCreated } from "./emergency-lifecycle";
+import { getLang, t } from "./i18n";
+import { createFamilyShareLink } from "./patient";
+import { getUserProfile, type MedicalProfile } from "./profile";
+import { supabase } from "./supabase";
+
+/* ─── Types ───────────────────────────────────────────────────── */
+
+export const CONTACT_RELATIONSHIPS = [
+  "parent",
+  "spouse",
+  "child",
+  "sibling",
+  "friend",
+  "other",
+] as const;
+
+export type ContactRelationship = (typeof CONTACT_RELATIONSHIPS)[number];
+
+export type ContactChannel = "sms" | "push";
+
+export interface TrustedContact {
+  id?: string | null;
+  name: string;
+  phone: string;
+  relationship: ContactRelationship;
+  channel: ContactChannel;
+}
+
+export const MAX_TRUSTED_CONTACTS = 5;
+
+const toTrustedContact = (row: TrustedContactResponse): TrustedContact => ({
+  id: row.id ?? null,
+  name: row.name,
+  phone: row.phone,
+  relationship: (CONTACT_RELATIONSHIPS as readonly string[]).includes(
+    row.relationship,
+  )
+    ? (row.relationship as ContactRelationship)
+    : "other",
+  channel: row.channel === "push" ? "push" : "sms",
+});
+
+/** Digits only; accepts 09XXXXXXXX, 9XXXXXXXX and 2519XXXXXXXX. */
+export const normalizeContactPhone = (phone: string): string | null => {
+  const digits = phone.replace(/[^0-9]/g, "");
+  if (digits.length === 10 && digits.startsWith("0")) return digits;
+  if (digits.length === 9 && digits.startsWith("9")) return `0${digits}`;
+  if (digits.length === 12 && digits.startsWith("251")) return digits;
+  return null;
+};
+
+/** The first problem with a contact, or null when it can be saved. */
+export const validateTrustedContact = (
+  contact: TrustedContact,
+): string | null => {
+  if (contact.name.trim().length < 2) {
+    return "Enter the contact's name (at least 2 characters).";
+  }
+  if (!normalizeContactPhone(contact.phone)) {
+    return "Contact phone must be a valid Ethiopian number.\nExample: 0912345678";
+  }
+  return null;
+};
+
+/**
+ * The single emergency contact stored on the medical profile, as a trusted
+ * contact to start the list from.
+ */
+export const contactsFromMedicalProfile = (
+  profile: Pick<
+    MedicalProfile,
+    "emergency_contact_name" | "emergency_contact_phone"
+  > | null,
+): TrustedContact[] => {
+  const name = profile?.emergency_contact_name?.trim() ?? "";
+  const phone = profile?.emergency_contact_phone?.trim() ?? "";
+  if (!name || !phone) return [];
+  return [{ name, phone, relationship: "other", channel: "sms" }];
+};
+
+/* ─── Storage ─────────────────────────────────────────────────── */
+
+/**
+ * Get the user's trusted contacts in their saved order (strategy:
+ * "trusted_contacts").
+ */
+export const getTrustedContacts = async (
+  userId: string,
+): Promise<{ contacts: TrustedContact[]; error: Error | null }> => {
+  try {
+    const { data } = await fromDataSource<TrustedContactResponse[]>({
+      entity: "trusted_contacts",
+      operation: "list",
+      backend: () =>
+        backendGet<TrustedContactResponse[]>("/profiles/trusted-contacts"),
+      supabase: async () => {
+        const { data, error } = await supabase
+          .from("trusted_contacts")
+          .select("id,name,phone,relationship,channel")
+          .eq("user_id", userId)
+          .order("position", { ascending: true });
+        if (error) throw error;
+        return (data ?? []) as TrustedContactResponse[];
+      },
+    });
+    return { contacts: (data ?? []).map(toTrustedContact), error: null };
+  } catch (error) {
+    return { contacts: [], error: error as Error };
+  }
+};
+
+/**
+ * Replace the user's trusted contacts (strategy: "trusted_contacts").
+ * Contacts are saved in the given order, with phones normalised.
+ */
+export const saveTrustedContacts = async (
+  userId: string,
+  contacts: TrustedContact[],
+): Promise<{ success: boolean; error: Error | null }> => {
+  try {
+    if (contacts.length > MAX_TRUSTED_CONTACTS) {
+      throw new Error(`You can add up to ${MAX_TRUSTED_CONTACTS} contacts`);
+    }
+    const invalid = contacts.map(validateTrustedContact).find(Boolean);
+    if (invalid) throw new Error(invalid);
+
+    const cleaned = contacts.map((contact) => ({
+      name: contact.name.trim(),
+      phone: normalizeContactPhone(contact.phone) as string,
+      relationship: contact.relationship,
+      channel: contact.channel,
+    }));
+
+    await fromDataSource<true>({
+      entity: "trusted_contacts",
+      operation: "replace",
+      backend: async () => {
+        await backendPut("/profiles/trusted-contacts", { contacts: cleaned });
+        return true;
+      },
+      supabase: async () => {
+        const { error: deleteError } = await supabase
+          .from("trusted_contacts")
+          .delete()
+          .eq("user_id", userId);
+        if (deleteError) throw deleteError;
+        if (cleaned.length === 0) return true;
+
+        const now = new Date().toISOString();
+        const { error } = await supabase.from("trusted_contacts").insert(
+          cleaned.map((contact, position) => ({
+            ...contact,
+            user_id: userId,
+            position,
+            updated_at: now,
+          })),
+        );
+        if (error) throw error;
+        return true;
+      },
+    });
+    return { success: true, error: null };
+  } catch (error) {
+    return { success: false, error: error as Error };
+  }
+};
+
+/* ─── Alert log ───────────────────────────────────────────────── */
+
+export type ContactAlertEvent =
+  | "emergency_created"
+  | "ambulance_assigned"
+  | "at_hospital";
+
+/**
+ * "sms_opened" means the composer was opened with the message; the app
+ * cannot see whether the patient pressed send.
+ */
+export type ContactAlertStatus = "sent" | "sms_opened" | "failed";
+
+export interface ContactAlertRecord {
+  event: ContactAlertEvent;
+  contactKey: string;
+  name: string;
+  /** The channel actually used; push contacts without the app get SMS. */
+  channel: ContactChannel;
+  status: ContactAlertStatus;
+  error: string | null;
+  at: string;
+}
+
+const ALERT_LOG_KEY = "erdataye_contact_alerts";
+/** Emergencies whose alert log is kept on the device. */
+const MAX_LOGGED_EMERGENCIES = 20;
+
+let _alertLog: Record<string, ContactAlertRecord[]> | null = null;
+
+async function hydrateAlertLog(): Promise<
+  Record<string, ContactAlertRecord[]>
+> {
+  if (_alertLog) return _alertLog;
+  _alertLog = {};
+  try {
+    const raw = await AsyncStorage.getItem(ALERT_LOG_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      for (const [emergencyId, records] of Object.entries(parsed)) {
+        if (Array.isArray(records)) _alertLog[emergencyId] = records;
+      }
+    }
+  } catch {
+    // Corrupt log: start empty
+  }
+  return _alertLog;
+}
+
+async function appendAlertRecords(
+  emergencyId: string,
+  records: ContactAlertRecord[],
+): Promise<void> {
+  const log = await hydrateAlertLog();
+  // Re-insert so the most recently alerted emergencies are kept.
+  const existing = log[emergencyId] ?? [];
+  delete log[emergencyId];
+  log[emergencyId] = [...existing, ...records];
+  const emergencyIds = Object.keys(log);
+  for (const stale of emergencyIds.slice(
+    0,
+    Math.max(0, emergencyIds.length - MAX_LOGGED_EMERGENCIES),
+  )) {
+    delete log[stale];
+  }
+  try {
+    await AsyncStorage.setItem(ALERT_LOG_KEY, JSON.stringify(log));
+  } catch {
+    // best-effort persistence
+  }
+}
+
+export const getContactAlertLog = async (
+  emergencyId: string,
+): Promise<ContactAlertRecord[]> => [
+  ...((await hydrateAlertLog())[emergencyId] ?? []),
+];
+
+/* ─── Sending ─────────────────────────────────────────────────── */
+
+/** The alert a status update calls for, if any. */
+export const contactAlertEventForStatus = (
+  status: string,
+): ContactAlertEvent | null =>
+  status === "assigned"
+    ? "ambulance_assigned"
+    : status === "at_hospital"
+    ? "at_hospital"
+    : null;
+
+const ALERT_MESSAGE_KEYS: Record<ContactAlertEvent, string> = {
+  emergency_created: "contact_alert_created",
+  ambulance_assigned: "contact_alert_assigned",
+  at_hospital: "contact_alert_at_hospital",
+};
+
+/** The text contacts receive, in the patient's app language. */
+export const buildContactAlertMessage = (
+  events: ContactAlertEvent[],
+  { name, shareUrl }: { name?: string | null; shareUrl?: string | null },
+): string => {
+  const who = name?.trim() || t("contact_alert_someone");
+  const key =
+    events.includes("emergency_created") &&
+    events.includes("ambulance_assigned")
+      ? "contact_alert_created_assigned"
+      : ALERT_MESSAGE_KEYS[events[0]];
+  const message = t(key, { name: who });
+  return shareUrl
+    ? `${message} ${t("contact_alert_follow", { url: shareUrl })}`
+    : message;
+};
+
+const contactKey = (contact: TrustedContact) => contact.id || contact.phone;
+
+const openSmsComposer = async (phones: string[], body: string) => {
+  // iOS expects "&body=" after the recipients, Android uses a query string.
+  const separator = Platform.OS === "ios" ? "&" : "?";
+  await Linking.openURL(
+    `sms:${phones.join(",")}${separator}body=${encodeURIComponent(body)}`,
+  );
+};
+
+const _queues = new Map<string, Promise<ContactAlertRecord[]>>();
+
+async function sendContactAlert(
+  emergencyId: string,
+  patientId: string,
+  events: ContactAlertEvent[],
+): Promise<ContactAlertRecord[]> {
+  const logged = await getContactAlertLog(emergencyId);
+  const pending = events.filter(
+    (event) => !logged.some((record) => record.event === event),
+  );
+  if (pending.length === 0) return [];
+
+  const { contacts } = await getTrustedContacts(patientId);
+  if (contacts.length === 0) return [];
+
+  const [{ profile }, share] = await Promise.all([
+    getUserProfile(patientId),
+    pending.includes("at_hospital")
+      ? Promise.resolve(null)
+      : createFamilyShareLink(emergencyId, 180),
+  ]);
+  const body = buildContactAlertMessage(pending, {
+    name: profile?.full_name,
+    shareUrl: share?.error ? null : share?.shareUrl,
+  });
+
+  const outcomes = new Map<
+    string,
+    {
+      channel: ContactChannel;
+      status: ContactAlertStatus;
+      error: string | null;
+    }
+  >();
+
+  const pushContacts = contacts.filter((contact) => contact.channel === "push");
+  if (pushContacts.length > 0) {
+    try {
+      // The backend writes the push text itself and only links a share
+      // token it issued for this emergency.
+      const response = await backendPost<FamilyNotifyResponse>(
+        "/ops/family/notify",
+        {
+          emergency_id: emergencyId,
+          events: pending,
+          language: getLang(),
+          share_token: (!share?.error && share?.shareToken) || null,
+        },
+      );
+      for (const result of response?.results ?? []) {
+        if (result.status === "not_on_app") continue;
+        outcomes.set(result.contact_id, {
+          channel: "push",
+          status: result.status === "sent" ? "sent" : "failed",
+          error: result.status === "sent" ? null : "Push not delivered",
+        });
+      }
+    } catch (error) {
+      console.warn("Trusted contact push failed, using SMS:", error);
+    }
+  }
+
+  // Everyone not reached by push, including push contacts without the app.
+  const smsContacts = contacts.filter(
+    (contact) => outcomes.get(contactKey(contact))?.status !== "sent",
+  );
+  if (smsContacts.length > 0) {
+    let outcome: { status: ContactAlertStatus; error: string | null };
+    try {
+      await openSmsComposer(
+        smsContacts.map((contact) => contact.phone),
+        body,
+      );
+      outcome = { status: "sms_opened", error: null };
+    } catch (error) {
+      outcome = {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    for (const contact of smsContacts) {
+      outcomes.set(contactKey(contact), { channel: "sms", ...outcome });
+    }
+  }
+
+  const at = new Date().toISOString();
+  const records = pending.flatMap((event) =>
+    contacts.map((contact) => ({
+      event,
+      contactKey: contactKey(contact),
+      name: contact.name,
+      ...(outcomes.get(contactKey(contact)) as {
+        channel: ContactChannel;
+        status: ContactAlertStatus;
+        error: string | null;
+      }),
+      at,
+    })),
+  );
+  await appendAlertRecords(emergencyId, records);
+  return records;
+}
+
+/**
+ * Alert the patient's trusted contacts about an emergency. Each event is
+ * sent once per emergency; `events` sent together share one message, e.g.
+ * a request that was assigned an ambulance straight away. Best-effort:
+ * failures end up in the log, never thrown.
+ */
+export const notifyTrustedContacts = (
+  emergencyId: string,
+  patientId: string,
+  events: ContactAlertEvent[],
+): Promise<ContactAlertRecord[]> => {
+  // Sends for one emergency run one after another, so each sees the log
+  // entries of the one before and nothing is sent twice.
+  const previous = _queues.get(emergencyId) ?? Promise.resolve([]);
+  const sending = previous
+    .then(() => sendContactAlert(emergencyId, patientId, events))
+    .catch((error) => {
+      console.warn("Trusted contacts not alerted:", error);
+      return [] as ContactAlertRecord[];
+    });
+  _queues.set(emergencyId, sending);
+  void sending.then(() => {
+    if (_queues.get(emergencyId) === sending) _queues.delete(emergencyId);
+  });
+  return sending;
+};
+
+/**
+ * Alert trusted contacts whenever this device creates an emergency.
+ * Returns an unsubscribe; the root layout starts it once.
+ */
+export const startTrustedContactAlerts = (): (() => void) =>
+  onEmergencyCreated(({ emergencyId, patientId, status }) => {
+    const events: ContactAlertEvent[] = ["emergency_created"];
+    if (status === "assigned") {
+      events.push("ambulance_assigned");
+    }
+    return notifyTrustedContacts(emergencyId, patientId, events).then(
+      () => undefined,
+    );
+  });
@@ -0,0 +1,261 @@
+/**
+ * Voice-first SOS.
+ *
+ * The patient holds the SOS mic and describes the emergency. When speech
+ * recognition is available the transcript becomes the description and a
+ * local keyword classifier picks the `emergency_type` the hospital board
+ * colours by. Without recognition (Expo Go, unsupported language, no
+ * recogniser on the device) the raw recording is uploaded and attached to
+ * the emergency as a timeline event, which staff can play back from the
+ * emergency timeline.
+ */
+import { recordTimelineEvent } from "./emergency-timeline";
+import { containsKeyword, normalizeChatText } from "./first-aid-pack";
+import type { Lang } from "./i18n";
+import { supabase } from "./supabase";
+
+export type VoiceEmergencyType =
+  | "fire"
+  | "accident"
+  | "cardiac"
+  | "maternity"
+  | "medical";
+
+interface EmergencyTypeRule {
+  emergencyType: Exclude<VoiceEmergencyType, "medical">;
+  phrases: Record<Lang, string[]>;
+}
+
+/** Ordered by precedence: the first matching rule decides the type. */
+const EMERGENCY_TYPE_RULES: EmergencyTypeRule[] = [
+  {
+    emergencyType: "fire",
+    phrases: {
+      en: [
+        "fire",
+        "on fire",
+        "flames",
+        "smoke",
+        "burning",
+        "burned",
+        "burnt",
+        "explosion",
+        "gas leak",
+      ],
+      am: ["እሳት", "ቃጠሎ", "ተቃጠለ", "ተቃጥሏል", "ጭስ", "ፍንዳታ"],
+      om: ["ibidda", "gubate", "gubatte", "aara", "dhoohinsa"],
+    },
+  },
+  {
+    emergencyType: "accident",
+    phrases: {
+      en: [
+        "accident",
+        "crash",
+        "collision",
+        "hit by",
+        "run over",
+        "knocked down",
+        "fell from",
+        "fallen",
+        "injured",
+        "broken bone",
+        "motorcycle",
+      ],
+      am: ["አደጋ", "ግጭት", "ገጨው", "ተገጨ", "ወደቀ", "ተሰበረ", "ቆሰለ"],
+      om: [
+        "balaa",
+        "walitti bu'iinsa",
+        "konkolaataan",
+        "kufe",
+        "cabe",
+        "madaa'e",
+      ],
+    },
+  },
+  {
+    emergencyType: "cardiac",
+    phrases: {
+      en: [
+        "heart attack",
+        "cardiac",
+        "chest pain",
+        "pain in chest",
+        "heart",
+        "no pulse",
+        "palpitation",
+      ],
+      am: ["የልብ", "ልቡ", "ልቧ", "ደረት"],
+      om: ["onnee", "dhukkubbii qomaa", "qoma"],
+    },
+  },
+  {
+    emergencyType: "maternity",
+    phrases: {
+      en: [
+        "pregnant",
+        "in labour",
+        "in labor",
+        "labour pains",
+        "labor pains",
+        "contractions",
+        "water broke",
+        "giving birth",
+        "baby is coming",
+      ],
+      am: ["ምጥ", "እርጉዝ", "ነፍሰ ጡር", "እየወለደች", "ሽርት ውሃ"],
+      om: ["ulfa", "ciniinsuu", "da'aa jirti", "da'uu"],
+    },
+  },
+];
+
+export interface EmergencyClassification {
+  emergencyType: VoiceEmergencyType;
+  /** Phrases from the transcript that decided the type. */
+  keywords: string[];
+}
+
+/**
+ * Map a spoken description to an emergency type. Phrases from every
+ * language are checked, so a transcript that mixes languages still matches;
+ * anything unrecognised stays a general "medical" emergency.
+ */
+export const classifyEmergencyTranscript = (
+  transcript: string,
+): EmergencyClassification => {
+  const normalized = normalizeChatText(transcript);
+  if (!normalized) return { emergencyType: "medical", keywords: [] };
+
+  for (const rule of EMERGENCY_TYPE_RULES) {
+    const keywords = Object.values(rule.phrases)
+      .flat()
+      .filter((phrase) => containsKeyword(normalized, phrase));
+    if (keywords.length > 0) {
+      return { emergencyType: rule.emergencyType, keywords };
+    }
+  }
+  return { emergencyType: "medical", keywords: [] };
+};
+
+/** Recogniser locale per app language; Afaan Oromo records audio instead. */
+const SPEECH_LOCALES: Record<Lang, string | null> = {
+  en: "en-US",
+  am: "am-ET",
+  om: null,
+};
+
+export const getSpeechLocale = (lang: Lang): string | null =>
+  SPEECH_LOCALES[lang];
+
+/* ─── Capture ─────────────────────────────────────────────────── */
+
+export interface VoiceSosCapture extends EmergencyClassification {
+  /** Null when recognition was unavailable or heard nothing. */
+  transcript: string | null;
+  /** Local file of the recording, when one was made. */
+  audioUri: string | null;
+  durationMs: number;
+}
+
+export const buildVoiceSosCapture = (input: {
+  transcript?: string | null;
+  audioUri?: string | null;
+  durationMs: number;
+}): VoiceSosCapture => {
+  const transcript = input.transcript?.replace(/\s+/g, " ").trim() || null;
+  return {
+    ...classifyEmergencyTranscript(transcript ?? ""),
+    transcript,
+    audioUri: input.audioUri || null,
+    durationMs: Math.max(0, Math.round(input.durationMs)),
+  };
+};
+
+const DESCRIPTION_MAX_LENGTH = 1500;
+
+/** The emergency description a voice SOS is sent with. */
+export const buildVoiceSosDescription = (capture: VoiceSosCapture): string =>
+  capture.transcript
+    ? `Voice SOS: "${capture.transcript}"`.slice(0, DESCRIPTION_MAX_LENGTH)
+    : "Voice SOS: spoken description attached as audio";
+
+/* ─── Audio attachment ────────────────────────────────────────── */
+
+export const VOICE_NOTE_BUCKET = "emergency-voice-notes";
+
+const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  m4a: "audio/mp4",
+  mp4: "audio/mp4",
+  aac: "audio/aac",
+  "3gp": "audio/3gpp",
+  wav: "audio/wav",
+  webm: "audio/webm",
+  caf: "audio/x-caf",
+};
+
+const audioExtension = (uri: string) => {
+  const match = /\.(\w+)(?:[?#].*)?$/.exec(uri);
+  const extension = match?.[1].toLowerCase() ?? "";
+  return extension in AUDIO_CONTENT_TYPES ? extension : "m4a";
+};
+
+/**
+ * Upload the recording to `emergency-voice-notes/<emergencyId>/` and record
+ * a `voice_note_attached` timeline event pointing at it. A capture without
+ * audio is a no-op.
+ */
+export const attachVoiceNote = async (
+  emergencyId: string,
+  capture: VoiceSosCapture,
+): Promise<{ path: string | null; error: Error | null }> => {
+  if (!capture.audioUri) return { path: null, error: null };
+  try {
+    // Local file URIs report status 0 on some platforms, so only the body
+    // is checked.
+    const audio = await (await fetch(capture.audioUri)).arrayBuffer();
+    if (audio.byteLength === 0) throw new Error("Recording is empty");
+
+    const extension = audioExtension(capture.audioUri);
+    const path = `${emergencyId}/${Date.now()}.${extension}`;
+    const { error } = await supabase.storage
+      .from(VOICE_NOTE_BUCKET)
+      .upload(path, audio, {
+        contentType: AUDIO_CONTENT_TYPES[extension],
+        upsert: false,
+      });
+    if (error) throw error;
+
+    await recordTimelineEvent(emergencyId, "voice_note_attached", {
+      storage_path: path,
+      duration_seconds: Math.round(capture.durationMs / 1000),
+      transcribed: Boolean(capture.transcript),
+      emergency_type: capture.emergencyType,
+    });
+    return { path, error: null };
+  } catch (error) {
+    console.warn("Voice note not attached:", error);
+    return {
+      path: null,
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+};
+
+/** How long a playback link handed to staff stays valid. */
+const VOICE_NOTE_URL_TTL_SECONDS = 10 * 60;
+
+/**
+ * A short-lived signed URL for a recording in the private voice-note bucket,
+ * for playback in the emergency timeline.
+ */
+export const getVoiceNoteUrl = async (
+  storagePath: string,
+): Promise<{ url: string | null; error: Error | null }> => {
+  const { data, error } = await supabase.storage
+    .from(VOICE_NOTE_BUCKET)
+    .createSignedUrl(storagePath, VOICE_NOTE_URL_TTL_SECONDS);
+  if (error || !data?.signedUrl) {
+    return { url: null, error: error ?? new Error("Recording not found") };
+  }
+  return { url: data.signedUrl, error: null };
+};